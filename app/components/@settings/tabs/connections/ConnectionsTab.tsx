@@ -3,6 +3,7 @@ import React, { Suspense } from 'react';
 
 // Use React.lazy for dynamic imports
 const GithubConnection = React.lazy(() => import('./GithubConnection'));
+const GitlabConnection = React.lazy(() => import('./GitlabConnection'));
 const NetlifyConnection = React.lazy(() => import('./NetlifyConnection'));
 
 // Loading fallback component
@@ -36,6 +37,9 @@ export default function ConnectionsTab() {
         <Suspense fallback={<LoadingFallback />}>
           <GithubConnection />
         </Suspense>
+        <Suspense fallback={<LoadingFallback />}>
+          <GitlabConnection />
+        </Suspense>
         <Suspense fallback={<LoadingFallback />}>
           <NetlifyConnection />
         </Suspense>
@@ -3,75 +3,20 @@ import { motion } from 'framer-motion';
 import { toast } from 'react-toastify';
 import { logStore } from '~/lib/stores/logs';
 import { classNames } from '~/utils/classNames';
-import Cookies from 'js-cookie';
-
-interface GitHubUserResponse {
-  login: string;
-  avatar_url: string;
-  html_url: string;
-  name: string;
-  bio: string;
-  public_repos: number;
-  followers: number;
-  following: number;
-  created_at: string;
-  public_gists: number;
-}
-
-interface GitHubRepoInfo {
-  name: string;
-  full_name: string;
-  html_url: string;
-  description: string;
-  stargazers_count: number;
-  forks_count: number;
-  default_branch: string;
-  updated_at: string;
-  languages_url: string;
-}
-
-interface GitHubOrganization {
-  login: string;
-  avatar_url: string;
-  html_url: string;
-}
-
-interface GitHubEvent {
-  id: string;
-  type: string;
-  repo: {
-    name: string;
-  };
-  created_at: string;
-}
-
-interface GitHubLanguageStats {
-  [language: string]: number;
-}
-
-interface GitHubStats {
-  repos: GitHubRepoInfo[];
-  totalStars: number;
-  totalForks: number;
-  organizations: GitHubOrganization[];
-  recentActivity: GitHubEvent[];
-  languages: GitHubLanguageStats;
-  totalGists: number;
-}
-
-interface GitHubConnection {
-  user: GitHubUserResponse | null;
-  token: string;
-  tokenType: 'classic' | 'fine-grained';
-  stats?: GitHubStats;
-}
+import { useStore } from '@nanostores/react';
+import { clearGitHubConnection, githubConnection, updateGitHubConnection } from '~/lib/stores/github';
+import type {
+  GitHubConnection,
+  GitHubEvent,
+  GitHubLanguageStats,
+  GitHubOrganization,
+  GitHubRepoInfo,
+  GitHubUserResponse,
+} from '~/types/GitHub';
 
 export default function GithubConnection() {
-  const [connection, setConnection] = useState<GitHubConnection>({
-    user: null,
-    token: '',
-    tokenType: 'classic',
-  });
+  const storedConnection = useStore(githubConnection);
+  const [connection, setConnection] = useState<GitHubConnection>(() => githubConnection.get());
   const [isLoading, setIsLoading] = useState(true);
   const [isConnecting, setIsConnecting] = useState(false);
   const [isFetchingStats, setIsFetchingStats] = useState(false);
@@ -98,11 +43,8 @@ export default function GithubConnection() {
         tokenType: connection.tokenType,
       };
 
-      localStorage.setItem('github_connection', JSON.stringify(newConnection));
-      Cookies.set('githubToken', token);
-      Cookies.set('githubUsername', data.login);
-      Cookies.set('git:github.com', JSON.stringify({ username: token, password: 'x-oauth-basic' }));
-
+      // The token is saved in the credential vault
+      updateGitHubConnection(newConnection);
       setConnection(newConnection);
 
       await fetchGitHubStats(token);
@@ -201,41 +143,21 @@ export default function GithubConnection() {
     }
   };
 
+  // The saved token is loaded from the credential vault, possibly after the first render
   useEffect(() => {
-    const savedConnection = localStorage.getItem('github_connection');
-
-    if (savedConnection) {
-      const parsed = JSON.parse(savedConnection);
-
-      if (!parsed.tokenType) {
-        parsed.tokenType = 'classic';
-      }
-
-      setConnection(parsed);
+    if (storedConnection.user && storedConnection.token) {
+      setConnection((prev) => ({ ...prev, user: storedConnection.user, token: storedConnection.token }));
+      fetchGitHubStats(storedConnection.token);
+    }
+  }, [storedConnection.token]);
 
-      if (parsed.user && parsed.token) {
-        fetchGitHubStats(parsed.token);
-      }
-    } else if (import.meta.env.VITE_GITHUB_ACCESS_TOKEN) {
+  useEffect(() => {
+    if (!githubConnection.get().user && import.meta.env.VITE_GITHUB_ACCESS_TOKEN) {
       fetchGithubUser(import.meta.env.VITE_GITHUB_ACCESS_TOKEN);
     }
 
     setIsLoading(false);
   }, []);
-  useEffect(() => {
-    if (!connection) {
-      return;
-    }
-
-    const token = connection.token;
-    const data = connection.user;
-    Cookies.set('githubToken', token);
-    Cookies.set('git:github.com', JSON.stringify({ username: token, password: 'x-oauth-basic' }));
-
-    if (data) {
-      Cookies.set('githubUsername', data.login);
-    }
-  }, [connection]);
 
   if (isLoading || isConnecting || isFetchingStats) {
     return <LoadingSpinner />;
@@ -247,7 +169,7 @@ export default function GithubConnection() {
   };
 
   const handleDisconnect = () => {
-    localStorage.removeItem('github_connection');
+    clearGitHubConnection();
     setConnection({ user: null, token: '', tokenType: 'classic' });
     toast.success('Disconnected from GitHub');
   };
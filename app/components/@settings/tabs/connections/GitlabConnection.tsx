@@ -0,0 +1,259 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { toast } from 'react-toastify';
+import { useStore } from '@nanostores/react';
+import { logStore } from '~/lib/stores/logs';
+import { classNames } from '~/utils/classNames';
+import {
+  gitlabConnection,
+  isConnecting,
+  isFetchingStats,
+  connectGitLab,
+  updateGitLabConnection,
+  fetchGitLabStats,
+} from '~/lib/stores/gitlab';
+import { DEFAULT_GITLAB_URL } from '~/utils/gitlab';
+
+const INPUT_CLASS_NAME = classNames(
+  'w-full px-3 py-2 rounded-lg text-sm',
+  'bg-[#F8F8F8] dark:bg-[#1A1A1A]',
+  'border border-[#E5E5E5] dark:border-[#333333]',
+  'text-bolt-elements-textPrimary placeholder-bolt-elements-textTertiary',
+  'focus:outline-none focus:ring-1 focus:ring-[#FC6D26]',
+  'disabled:opacity-50',
+);
+
+export default function GitlabConnection() {
+  const connection = useStore(gitlabConnection);
+  const connecting = useStore(isConnecting);
+  const fetchingStats = useStore(isFetchingStats);
+  const [baseUrl, setBaseUrl] = useState(connection.baseUrl || DEFAULT_GITLAB_URL);
+  const [token, setToken] = useState(connection.token);
+  const [isProjectsExpanded, setIsProjectsExpanded] = useState(false);
+
+  // The token arrives once the credential vault is unlocked
+  useEffect(() => {
+    if (connection.token && !token) {
+      setToken(connection.token);
+    }
+  }, [connection.token]);
+
+  useEffect(() => {
+    if (connection.user && connection.token) {
+      fetchGitLabStats(connection.baseUrl, connection.token);
+    }
+  }, [connection.user?.id, connection.token]);
+
+  const handleConnect = async (event: React.FormEvent) => {
+    event.preventDefault();
+
+    try {
+      new URL(baseUrl);
+    } catch {
+      toast.error('Enter a valid GitLab URL');
+      return;
+    }
+
+    try {
+      await connectGitLab(baseUrl.trim(), token.trim());
+      toast.success('Successfully connected to GitLab');
+    } catch (error) {
+      logStore.logError('Failed to authenticate with GitLab', { error });
+      toast.error('Failed to connect to GitLab');
+      updateGitLabConnection({ user: null, token: '' });
+    }
+  };
+
+  const handleDisconnect = () => {
+    updateGitLabConnection({ user: null, token: '', stats: undefined });
+    setToken('');
+    toast.success('Disconnected from GitLab');
+  };
+
+  return (
+    <motion.div
+      className="bg-[#FFFFFF] dark:bg-[#0A0A0A] rounded-lg border border-[#E5E5E5] dark:border-[#1A1A1A]"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.25 }}
+    >
+      <div className="p-6 space-y-6">
+        <div className="flex items-center gap-2">
+          <div className="i-ph:gitlab-logo w-5 h-5 text-[#FC6D26]" />
+          <h3 className="text-base font-medium text-bolt-elements-textPrimary">GitLab Connection</h3>
+        </div>
+
+        {!connection.user ? (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm text-bolt-elements-textSecondary mb-2">GitLab URL</label>
+                <input
+                  type="text"
+                  value={baseUrl}
+                  onChange={(e) => setBaseUrl(e.target.value)}
+                  disabled={connecting}
+                  placeholder={DEFAULT_GITLAB_URL}
+                  className={INPUT_CLASS_NAME}
+                />
+                <div className="mt-2 text-sm text-bolt-elements-textSecondary">
+                  Use the URL of your instance for self-hosted GitLab
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm text-bolt-elements-textSecondary mb-2">Personal Access Token</label>
+                <input
+                  type="password"
+                  value={token}
+                  onChange={(e) => setToken(e.target.value)}
+                  disabled={connecting}
+                  placeholder="Enter your GitLab personal access token"
+                  className={INPUT_CLASS_NAME}
+                />
+                <div className="mt-2 text-sm text-bolt-elements-textSecondary">
+                  <a
+                    href={`${(baseUrl || DEFAULT_GITLAB_URL).replace(/\/+$/, '')}/-/user_settings/personal_access_tokens`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-[#FC6D26] hover:underline inline-flex items-center gap-1"
+                  >
+                    Get your token
+                    <div className="i-ph:arrow-square-out w-4 h-4" />
+                  </a>
+                  <span className="mx-2">•</span>
+                  <span>Required scopes: api, read_user</span>
+                </div>
+              </div>
+            </div>
+
+            <button
+              onClick={handleConnect}
+              disabled={connecting || !token || !baseUrl}
+              className={classNames(
+                'px-4 py-2 rounded-lg text-sm flex items-center gap-2',
+                'bg-[#FC6D26] text-white',
+                'hover:bg-[#E24329]',
+                'disabled:opacity-50 disabled:cursor-not-allowed',
+              )}
+            >
+              {connecting ? (
+                <>
+                  <div className="i-ph:spinner-gap animate-spin" />
+                  Connecting...
+                </>
+              ) : (
+                <>
+                  <div className="i-ph:plug-charging w-4 h-4" />
+                  Connect
+                </>
+              )}
+            </button>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="flex items-center gap-3">
+              <button
+                onClick={handleDisconnect}
+                className={classNames(
+                  'px-4 py-2 rounded-lg text-sm flex items-center gap-2',
+                  'bg-red-500 text-white',
+                  'hover:bg-red-600',
+                )}
+              >
+                <div className="i-ph:plug w-4 h-4" />
+                Disconnect
+              </button>
+              <span className="text-sm text-bolt-elements-textSecondary flex items-center gap-1">
+                <div className="i-ph:check-circle w-4 h-4 text-green-500" />
+                Connected to {new URL(connection.baseUrl).host}
+              </span>
+            </div>
+
+            <div className="flex items-center gap-4 p-4 bg-[#F8F8F8] dark:bg-[#1A1A1A] rounded-lg">
+              <img
+                src={connection.user.avatar_url}
+                referrerPolicy="no-referrer"
+                crossOrigin="anonymous"
+                alt={connection.user.username}
+                className="w-12 h-12 rounded-full border-2 border-[#FC6D26]"
+              />
+              <div>
+                <h4 className="text-sm font-medium text-bolt-elements-textPrimary">{connection.user.name}</h4>
+                <p className="text-sm text-bolt-elements-textSecondary">@{connection.user.username}</p>
+              </div>
+            </div>
+
+            {fetchingStats ? (
+              <div className="flex items-center gap-2 text-sm text-bolt-elements-textSecondary">
+                <div className="i-ph:spinner-gap w-4 h-4 animate-spin" />
+                Fetching GitLab projects...
+              </div>
+            ) : (
+              <div>
+                <button
+                  onClick={() => setIsProjectsExpanded(!isProjectsExpanded)}
+                  className="w-full bg-transparent text-left text-sm font-medium text-bolt-elements-textPrimary mb-3 flex items-center gap-2"
+                >
+                  <div className="i-ph:git-repository w-4 h-4" />
+                  Recent Projects ({connection.stats?.projects.length || 0})
+                  <div
+                    className={classNames(
+                      'i-ph:caret-down w-4 h-4 ml-auto transition-transform',
+                      isProjectsExpanded ? 'rotate-180' : '',
+                    )}
+                  />
+                </button>
+                {isProjectsExpanded && connection.stats?.projects.length ? (
+                  <div className="grid gap-3">
+                    {connection.stats.projects.map((project) => (
+                      <a
+                        key={project.id}
+                        href={project.web_url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="block p-4 rounded-lg border border-[#E5E5E5] dark:border-[#1A1A1A] hover:border-[#FC6D26] dark:hover:border-[#FC6D26] transition-colors"
+                      >
+                        <div className="flex items-center justify-between">
+                          <div>
+                            <h5 className="text-sm font-medium text-bolt-elements-textPrimary flex items-center gap-2">
+                              <div className="i-ph:git-repository w-4 h-4 text-[#FC6D26]" />
+                              {project.path_with_namespace}
+                            </h5>
+                            {project.description && (
+                              <p className="text-xs text-bolt-elements-textSecondary mt-1">{project.description}</p>
+                            )}
+                            <div className="flex items-center gap-2 mt-2 text-xs text-bolt-elements-textSecondary">
+                              {project.default_branch && (
+                                <>
+                                  <span className="flex items-center gap-1">
+                                    <div className="i-ph:git-branch w-3 h-3" />
+                                    {project.default_branch}
+                                  </span>
+                                  <span>•</span>
+                                </>
+                              )}
+                              <span>Updated {new Date(project.last_activity_at).toLocaleDateString()}</span>
+                            </div>
+                          </div>
+                          <div className="text-xs text-bolt-elements-textSecondary px-2 py-1 rounded-md bg-[#F0F0F0] dark:bg-[#252525]">
+                            {project.visibility}
+                          </div>
+                        </div>
+                      </a>
+                    ))}
+                  </div>
+                ) : isProjectsExpanded ? (
+                  <div className="text-sm text-bolt-elements-textSecondary flex items-center gap-2">
+                    <div className="i-ph:info w-4 h-4" />
+                    No projects found in your GitLab account
+                  </div>
+                ) : null}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </motion.div>
+  );
+}
@@ -2,7 +2,7 @@ import * as Dialog from '@radix-ui/react-dialog';
 import { useState, useEffect } from 'react';
 import { toast } from 'react-toastify';
 import { motion } from 'framer-motion';
-import { getLocalStorage } from '~/lib/persistence';
+import { clearGitHubConnection, githubConnection } from '~/lib/stores/github';
 import { classNames } from '~/utils/classNames';
 import type { GitHubUserResponse } from '~/types/GitHub';
 import { logStore } from '~/lib/stores/logs';
@@ -45,7 +45,7 @@ export function PushToGitHubDialog({ isOpen, onClose, onPush }: PushToGitHubDial
   // Load GitHub connection on mount
   useEffect(() => {
     if (isOpen) {
-      const connection = getLocalStorage('github_connection');
+      const connection = githubConnection.get();
 
       if (connection?.user && connection?.token) {
         setUser(connection.user);
@@ -86,10 +86,10 @@ export function PushToGitHubDialog({ isOpen, onClose, onPush }: PushToGitHubDial
           toast.error('GitHub token expired. Please reconnect your account.');
 
           // Clear invalid token
-          const connection = getLocalStorage('github_connection');
+          const connection = githubConnection.get();
 
           if (connection) {
-            localStorage.removeItem('github_connection');
+            clearGitHubConnection();
             setUser(null);
           }
         } else {
@@ -117,7 +117,7 @@ export function PushToGitHubDialog({ isOpen, onClose, onPush }: PushToGitHubDial
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    const connection = getLocalStorage('github_connection');
+    const connection = githubConnection.get();
 
     if (!connection?.token || !connection?.user) {
       toast.error('Please connect your GitHub account in Settings > Connections first');
@@ -0,0 +1,330 @@
+import * as Dialog from '@radix-ui/react-dialog';
+import { useState } from 'react';
+import { toast } from 'react-toastify';
+import { motion } from 'framer-motion';
+import { useStore } from '@nanostores/react';
+import { classNames } from '~/utils/classNames';
+import { gitlabConnection } from '~/lib/stores/gitlab';
+import { workbenchStore } from '~/lib/stores/workbench';
+import { extractRelativePath } from '~/utils/diff';
+import { formatSize } from '~/utils/formatSize';
+import type { FileMap, File } from '~/lib/stores/files';
+
+interface PushToGitLabDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onPush: (projectName: string, isPrivate: boolean) => Promise<string>;
+}
+
+export function PushToGitLabDialog({ isOpen, onClose, onPush }: PushToGitLabDialogProps) {
+  const connection = useStore(gitlabConnection);
+  const [projectName, setProjectName] = useState('');
+  const [isPrivate, setIsPrivate] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [createdProjectUrl, setCreatedProjectUrl] = useState('');
+  const [pushedFiles, setPushedFiles] = useState<{ path: string; size: number }[]>([]);
+
+  const { user } = connection;
+
+  // Only projects in the namespace of the user can be pushed to by name
+  const recentProjects = (connection.stats?.projects ?? [])
+    .filter((project) => user && project.path_with_namespace.startsWith(`${user.username}/`))
+    .slice(0, 5);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!user || !connection.token) {
+      toast.error('Please connect your GitLab account in Settings > Connections first');
+      return;
+    }
+
+    if (!projectName.trim()) {
+      toast.error('Project name is required');
+      return;
+    }
+
+    if (
+      recentProjects.some((project) => project.path === projectName.trim()) &&
+      !window.confirm(
+        `Project "${projectName}" already exists. Do you want to update it? This will add or modify files in the project.`,
+      )
+    ) {
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      const projectUrl = await onPush(projectName.trim(), isPrivate);
+      setCreatedProjectUrl(projectUrl);
+
+      const files = workbenchStore.files.get();
+      setPushedFiles(
+        Object.entries(files as FileMap)
+          .filter(([, dirent]) => dirent?.type === 'file' && !dirent.isBinary)
+          .map(([path, dirent]) => ({
+            path: extractRelativePath(path),
+            size: new TextEncoder().encode((dirent as File).content || '').length,
+          })),
+      );
+    } catch (error) {
+      console.error('Error pushing to GitLab:', error);
+      toast.error('Failed to push to GitLab. Please check your project name and try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleClose = () => {
+    setProjectName('');
+    setIsPrivate(false);
+    setCreatedProjectUrl('');
+    setPushedFiles([]);
+    onClose();
+  };
+
+  const renderContent = () => {
+    if (createdProjectUrl) {
+      return (
+        <div className="p-6 space-y-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2 text-green-500">
+              <div className="i-ph:check-circle w-5 h-5" />
+              <h3 className="text-lg font-medium">Successfully pushed to GitLab</h3>
+            </div>
+            <Dialog.Close
+              onClick={handleClose}
+              className="p-2 text-gray-400 hover:text-gray-500 dark:text-gray-500 dark:hover:text-gray-400"
+            >
+              <div className="i-ph:x w-5 h-5" />
+            </Dialog.Close>
+          </div>
+
+          <div className="bg-bolt-elements-background-depth-2 dark:bg-bolt-elements-background-depth-3 rounded-lg p-3 text-left">
+            <p className="text-xs text-bolt-elements-textSecondary mb-2">Project URL</p>
+            <code className="block text-sm bg-bolt-elements-background px-3 py-2 rounded border border-bolt-elements-borderColor text-bolt-elements-textPrimary font-mono">
+              {createdProjectUrl}
+            </code>
+          </div>
+
+          <div className="bg-bolt-elements-background-depth-2 dark:bg-bolt-elements-background-depth-3 rounded-lg p-3">
+            <p className="text-xs text-bolt-elements-textSecondary mb-2">Pushed Files ({pushedFiles.length})</p>
+            <div className="max-h-[200px] overflow-y-auto custom-scrollbar">
+              {pushedFiles.map((file) => (
+                <div
+                  key={file.path}
+                  className="flex items-center justify-between py-1 text-sm text-bolt-elements-textPrimary"
+                >
+                  <span className="font-mono truncate flex-1">{file.path}</span>
+                  <span className="text-xs text-bolt-elements-textSecondary ml-2">{formatSize(file.size)}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2 pt-2">
+            <motion.a
+              href={createdProjectUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="px-4 py-2 rounded-lg bg-[#FC6D26] text-white hover:bg-[#E24329] text-sm inline-flex items-center gap-2"
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+            >
+              <div className="i-ph:gitlab-logo w-4 h-4" />
+              View Project
+            </motion.a>
+            <motion.button
+              onClick={() => {
+                navigator.clipboard.writeText(createdProjectUrl);
+                toast.success('URL copied to clipboard');
+              }}
+              className="px-4 py-2 rounded-lg bg-[#F5F5F5] dark:bg-[#1A1A1A] text-gray-600 dark:text-gray-400 hover:bg-[#E5E5E5] dark:hover:bg-[#252525] text-sm inline-flex items-center gap-2"
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+            >
+              <div className="i-ph:copy w-4 h-4" />
+              Copy URL
+            </motion.button>
+          </div>
+        </div>
+      );
+    }
+
+    if (!user) {
+      return (
+        <div className="p-6 text-center space-y-4">
+          <div className="mx-auto w-12 h-12 rounded-xl bg-bolt-elements-background-depth-3 flex items-center justify-center text-[#FC6D26]">
+            <div className="i-ph:gitlab-logo w-6 h-6" />
+          </div>
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white">GitLab Connection Required</h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Please connect your GitLab account in Settings {'>'} Connections to push your code to GitLab.
+          </p>
+          <motion.button
+            className="px-4 py-2 rounded-lg bg-[#FC6D26] text-white text-sm hover:bg-[#E24329] inline-flex items-center gap-2"
+            whileHover={{ scale: 1.02 }}
+            whileTap={{ scale: 0.98 }}
+            onClick={handleClose}
+          >
+            <div className="i-ph:x-circle" />
+            Close
+          </motion.button>
+        </div>
+      );
+    }
+
+    return (
+      <div className="p-6">
+        <div className="flex items-center gap-4 mb-6">
+          <div className="w-10 h-10 rounded-xl bg-bolt-elements-background-depth-3 flex items-center justify-center text-[#FC6D26]">
+            <div className="i-ph:gitlab-logo w-5 h-5" />
+          </div>
+          <div>
+            <Dialog.Title className="text-lg font-medium text-gray-900 dark:text-white">Push to GitLab</Dialog.Title>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Push your code to a new or existing project on {new URL(connection.baseUrl).host}
+            </p>
+          </div>
+          <Dialog.Close
+            className="ml-auto p-2 text-gray-400 hover:text-gray-500 dark:text-gray-500 dark:hover:text-gray-400"
+            onClick={handleClose}
+          >
+            <div className="i-ph:x w-5 h-5" />
+          </Dialog.Close>
+        </div>
+
+        <div className="flex items-center gap-3 mb-6 p-3 bg-bolt-elements-background-depth-2 dark:bg-bolt-elements-background-depth-3 rounded-lg">
+          <img src={user.avatar_url} alt={user.username} className="w-10 h-10 rounded-full" />
+          <div>
+            <p className="text-sm font-medium text-gray-900 dark:text-white">{user.name || user.username}</p>
+            <p className="text-sm text-gray-500 dark:text-gray-400">@{user.username}</p>
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <label htmlFor="projectName" className="text-sm text-gray-600 dark:text-gray-400">
+              Project Name
+            </label>
+            <input
+              id="projectName"
+              type="text"
+              value={projectName}
+              onChange={(e) => setProjectName(e.target.value)}
+              placeholder="my-awesome-project"
+              className="w-full px-4 py-2 rounded-lg bg-bolt-elements-background-depth-2 dark:bg-bolt-elements-background-depth-3 border border-[#E5E5E5] dark:border-[#1A1A1A] text-gray-900 dark:text-white placeholder-gray-400"
+              required
+            />
+          </div>
+
+          {recentProjects.length > 0 && (
+            <div className="space-y-2">
+              <label className="text-sm text-gray-600 dark:text-gray-400">Recent Projects</label>
+              <div className="space-y-2">
+                {recentProjects.map((project) => (
+                  <motion.button
+                    key={project.id}
+                    type="button"
+                    onClick={() => setProjectName(project.path)}
+                    className="w-full p-3 text-left rounded-lg bg-bolt-elements-background-depth-2 dark:bg-bolt-elements-background-depth-3 hover:bg-bolt-elements-background-depth-3 dark:hover:bg-bolt-elements-background-depth-4 transition-colors group"
+                    whileHover={{ scale: 1.01 }}
+                    whileTap={{ scale: 0.99 }}
+                  >
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-2">
+                        <div className="i-ph:git-repository w-4 h-4 text-[#FC6D26]" />
+                        <span className="text-sm font-medium text-gray-900 dark:text-white group-hover:text-[#FC6D26]">
+                          {project.name}
+                        </span>
+                      </div>
+                      {project.visibility !== 'public' && (
+                        <span className="text-xs px-2 py-1 rounded-full bg-[#FC6D26]/10 text-[#FC6D26]">
+                          {project.visibility}
+                        </span>
+                      )}
+                    </div>
+                    {project.description && (
+                      <p className="mt-1 text-xs text-gray-500 dark:text-gray-400 line-clamp-2">
+                        {project.description}
+                      </p>
+                    )}
+                  </motion.button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="flex items-center gap-2">
+            <input
+              type="checkbox"
+              id="gitlabPrivate"
+              checked={isPrivate}
+              onChange={(e) => setIsPrivate(e.target.checked)}
+              className="rounded border-[#E5E5E5] dark:border-[#1A1A1A] text-[#FC6D26] focus:ring-[#FC6D26] dark:bg-[#0A0A0A]"
+            />
+            <label htmlFor="gitlabPrivate" className="text-sm text-gray-600 dark:text-gray-400">
+              Make a new project private
+            </label>
+          </div>
+
+          <div className="pt-4 flex gap-2">
+            <motion.button
+              type="button"
+              onClick={handleClose}
+              className="px-4 py-2 rounded-lg bg-[#F5F5F5] dark:bg-[#1A1A1A] text-gray-600 dark:text-gray-400 hover:bg-[#E5E5E5] dark:hover:bg-[#252525] text-sm"
+              whileHover={{ scale: 1.02 }}
+              whileTap={{ scale: 0.98 }}
+            >
+              Cancel
+            </motion.button>
+            <motion.button
+              type="submit"
+              disabled={isLoading}
+              className={classNames(
+                'flex-1 px-4 py-2 bg-[#FC6D26] text-white rounded-lg hover:bg-[#E24329] text-sm inline-flex items-center justify-center gap-2',
+                isLoading ? 'opacity-50 cursor-not-allowed' : '',
+              )}
+              whileHover={!isLoading ? { scale: 1.02 } : {}}
+              whileTap={!isLoading ? { scale: 0.98 } : {}}
+            >
+              {isLoading ? (
+                <>
+                  <div className="i-ph:spinner-gap-bold animate-spin w-4 h-4" />
+                  Pushing...
+                </>
+              ) : (
+                <>
+                  <div className="i-ph:git-branch w-4 h-4" />
+                  Push to GitLab
+                </>
+              )}
+            </motion.button>
+          </div>
+        </form>
+      </div>
+    );
+  };
+
+  return (
+    <Dialog.Root open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <Dialog.Portal>
+        <Dialog.Overlay className="fixed inset-0 bg-black/50 backdrop-blur-sm z-[9999]" />
+        <div className="fixed inset-0 flex items-center justify-center z-[9999]">
+          <motion.div
+            initial={{ opacity: 0, scale: 0.95 }}
+            animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            transition={{ duration: 0.2 }}
+            className="w-[90vw] md:w-[500px] max-h-[85vh] overflow-y-auto"
+          >
+            <Dialog.Content className="bg-white dark:bg-[#0A0A0A] rounded-lg border border-[#E5E5E5] dark:border-[#1A1A1A] shadow-xl">
+              {renderContent()}
+            </Dialog.Content>
+          </motion.div>
+        </div>
+      </Dialog.Portal>
+    </Dialog.Root>
+  );
+}
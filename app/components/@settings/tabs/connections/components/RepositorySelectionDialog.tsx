@@ -3,7 +3,7 @@ import { useState, useEffect } from 'react';
 import { toast } from 'react-toastify';
 import * as Dialog from '@radix-ui/react-dialog';
 import { classNames } from '~/utils/classNames';
-import { getLocalStorage } from '~/lib/persistence';
+import { githubConnection } from '~/lib/stores/github';
 import { motion } from 'framer-motion';
 import { formatSize } from '~/utils/formatSize';
 import { Input } from '~/components/ui/Input';
@@ -147,7 +147,7 @@ export function RepositorySelectionDialog({ isOpen, onClose, onSelect }: Reposit
   }, [isOpen, activeTab]);
 
   const fetchUserRepos = async () => {
-    const connection = getLocalStorage('github_connection');
+    const connection = githubConnection.get();
 
     if (!connection?.token) {
       toast.error('Please connect your GitHub account first');
@@ -240,7 +240,7 @@ export function RepositorySelectionDialog({ isOpen, onClose, onSelect }: Reposit
     try {
       const response = await fetch(`https://api.github.com/repos/${repo.full_name}/branches`, {
         headers: {
-          Authorization: `Bearer ${getLocalStorage('github_connection')?.token}`,
+          Authorization: `Bearer ${githubConnection.get()?.token}`,
         },
       });
 
@@ -290,7 +290,7 @@ export function RepositorySelectionDialog({ isOpen, onClose, onSelect }: Reposit
         .split('/')
         .slice(-2);
 
-      const connection = getLocalStorage('github_connection');
+      const connection = githubConnection.get();
       const headers: HeadersInit = connection?.token ? { Authorization: `Bearer ${connection.token}` } : {};
       const repoObjResponse = await fetch(`https://api.github.com/repos/${owner}/${repo}`, {
         headers,
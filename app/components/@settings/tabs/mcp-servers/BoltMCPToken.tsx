@@ -0,0 +1,51 @@
+import { useEffect, useState } from 'react';
+import { useStore } from '@nanostores/react';
+import { toast } from 'react-toastify';
+import { Button } from '~/components/ui/Button';
+import { Input } from '~/components/ui/Input';
+import { boltMCPTokenStore, updateBoltMCPToken } from '~/lib/stores/boltMCP';
+
+/**
+ * Token that lets this tab perform the actions external agents send to the bolt MCP server
+ */
+const BoltMcpToken = () => {
+  const storedToken = useStore(boltMCPTokenStore);
+  const [token, setToken] = useState(storedToken);
+
+  // The stored token is loaded once the vault is unlocked
+  useEffect(() => {
+    setToken(storedToken);
+  }, [storedToken]);
+
+  const handleSave = () => {
+    updateBoltMCPToken(token.trim());
+    toast.success(token.trim() ? 'bolt MCP token saved' : 'bolt MCP token removed');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold text-gray-800 dark:text-gray-200">bolt as an MCP Server</h3>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          External agents reach bolt at /api/mcp with the BOLT_MCP_TOKEN of the server. Enter the same token here so
+          this tab performs their actions.
+        </p>
+      </div>
+
+      <div className="flex gap-2">
+        <Input
+          type="password"
+          value={token}
+          onChange={(e) => setToken(e.target.value)}
+          placeholder="BOLT_MCP_TOKEN"
+          className="flex-1"
+        />
+        <Button variant="outline" onClick={handleSave} disabled={token.trim() === storedToken}>
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default BoltMcpToken;
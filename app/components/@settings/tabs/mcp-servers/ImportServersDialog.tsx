@@ -0,0 +1,193 @@
+import { useRef, useState } from 'react';
+import { Dialog } from '~/components/ui/Dialog';
+import { Button } from '~/components/ui/Button';
+import { Label } from '~/components/ui/Label';
+import type { MCPConfigImportResult, MCPImportConflictStrategy } from '~/lib/modules/mcp/config-file';
+
+interface ImportServersDialogProps {
+  onClose: () => void;
+  onImport: (file: unknown, onConflict: MCPImportConflictStrategy) => Promise<MCPConfigImportResult>;
+}
+
+const PLACEHOLDER = `{
+  "mcpServers": {
+    "filesystem": {
+      "command": "npx",
+      "args": ["-y", "@modelcontextprotocol/server-filesystem", "/path/to/project"]
+    },
+    "remote": {
+      "url": "https://example.com/mcp",
+      "headers": { "Authorization": "Bearer your-token" }
+    }
+  }
+}`;
+
+const ImportServersDialog = ({ onClose, onImport }: ImportServersDialogProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [text, setText] = useState('');
+  const [onConflict, setOnConflict] = useState<MCPImportConflictStrategy>('rename');
+  const [importing, setImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<MCPConfigImportResult | null>(null);
+
+  // Load the contents of a file picked by the user
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+
+    if (!file) {
+      return;
+    }
+
+    setText(await file.text());
+    setError(null);
+    setResult(null);
+    e.target.value = '';
+  };
+
+  const handleImport = async () => {
+    let parsed: unknown;
+
+    try {
+      parsed = JSON.parse(text);
+    } catch (err) {
+      setError(`Invalid JSON: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      return;
+    }
+
+    setImporting(true);
+    setError(null);
+
+    try {
+      setResult(await onImport(parsed, onConflict));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Dialog onClose={onClose}>
+      <div className="p-6 max-w-2xl mx-auto">
+        <div className="mb-6">
+          <h2 className="text-xl font-semibold text-gray-900 dark:text-white">Import MCP Servers</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+            Paste or upload an <code>mcpServers</code> configuration file from another MCP client
+          </p>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="mcp-config" className="text-sm font-medium">
+                Configuration
+              </Label>
+              <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+                <div className="i-ph:file-arrow-up w-4 h-4 mr-2" />
+                Choose File
+              </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={handleFileChange}
+              />
+            </div>
+            <textarea
+              id="mcp-config"
+              value={text}
+              onChange={(e) => {
+                setText(e.target.value);
+                setResult(null);
+              }}
+              placeholder={PLACEHOLDER}
+              rows={12}
+              className="mt-2 w-full rounded-md border border-bolt-elements-border bg-bolt-elements-background px-3 py-2 text-sm font-mono placeholder:text-bolt-elements-textSecondary focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-bolt-elements-ring"
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="on-conflict" className="text-sm font-medium">
+              When a server name is already taken
+            </Label>
+            <select
+              id="on-conflict"
+              value={onConflict}
+              onChange={(e) => setOnConflict(e.target.value as MCPImportConflictStrategy)}
+              className="mt-1 flex h-10 w-full rounded-md border border-bolt-elements-border bg-bolt-elements-background px-3 py-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-bolt-elements-ring"
+            >
+              <option value="rename">Import under a new name</option>
+              <option value="skip">Keep the existing server</option>
+              <option value="replace">Replace the existing server</option>
+            </select>
+          </div>
+
+          {error && (
+            <p className="text-sm text-red-500 flex items-center">
+              <div className="i-ph:warning-circle w-4 h-4 mr-1" />
+              {error}
+            </p>
+          )}
+
+          {result && (
+            <div className="border rounded-md p-3 space-y-2 text-sm">
+              <p className="font-medium text-gray-900 dark:text-white">
+                Imported {result.imported.length}, skipped {result.skipped.length}, failed {result.errors.length}
+              </p>
+              <ul className="space-y-1 text-gray-600 dark:text-gray-300">
+                {result.imported.map((server) => (
+                  <li key={`imported-${server.serverId}`} className="flex items-center">
+                    <div className="i-ph:check-circle w-4 h-4 mr-1 text-green-500" />
+                    {server.name}
+                    {server.renamedFrom && ` (renamed from ${server.renamedFrom})`}
+                    {server.replaced && ' (replaced)'}
+                  </li>
+                ))}
+                {result.skipped.map((server) => (
+                  <li key={`skipped-${server.name}`} className="flex items-center">
+                    <div className="i-ph:minus-circle w-4 h-4 mr-1 text-gray-400" />
+                    {server.name}: {server.reason}
+                  </li>
+                ))}
+                {result.errors.map((server) => (
+                  <li key={`error-${server.name}`} className="flex items-center text-red-500">
+                    <div className="i-ph:x-circle w-4 h-4 mr-1" />
+                    {server.name}: {server.message}
+                  </li>
+                ))}
+                {result.warnings.map((warning) => (
+                  <li key={warning} className="flex items-center text-amber-600 dark:text-amber-400">
+                    <div className="i-ph:warning w-4 h-4 mr-1" />
+                    {warning}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={onClose}>
+              {result ? 'Close' : 'Cancel'}
+            </Button>
+            <Button onClick={handleImport} disabled={importing || !text.trim()}>
+              {importing ? (
+                <>
+                  <div className="i-ph:spinner-gap-bold w-4 h-4 animate-spin mr-2" />
+                  Importing...
+                </>
+              ) : (
+                <>
+                  <div className="i-ph:download-simple w-4 h-4 mr-2" />
+                  Import
+                </>
+              )}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </Dialog>
+  );
+};
+
+export default ImportServersDialog;
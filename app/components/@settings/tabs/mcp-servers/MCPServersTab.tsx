@@ -7,8 +7,14 @@ import Tooltip from '~/components/ui/Tooltip';
 import { useMCPServers } from '~/lib/hooks';
 import GithubGuide from './GithubGuide';
 import ServerDiscoveryDialog from './ServerDiscoveryDialog';
+import ImportServersDialog from './ImportServersDialog';
 import ServerConfigForm from './ServerConfigForm';
+import ToolCallLog from './ToolCallLog';
+import ToolPlayground from './ToolPlayground';
+import Workflows from './Workflows';
+import BoltMcpToken from './BoltMCPToken';
 import { toast } from 'react-toastify';
+import { getTransportLabel } from '~/lib/modules/mcp/transport';
 
 const McpServersTab = () => {
   const {
@@ -22,13 +28,21 @@ const McpServersTab = () => {
     removeServer,
     refreshAllServers,
     refreshServer,
+    signInToServer,
+    signOutOfServer,
+    exportServerConfig,
+    importServerConfig,
     discoverServers,
     autoDiscoverAndAddServers,
+    workflows,
+    saveWorkflow,
+    removeWorkflow,
   } = useMCPServers();
 
   const [newServerFormOpen, setNewServerFormOpen] = useState(false);
   const [editingServer, setEditingServer] = useState<string | null>(null);
   const [showDiscoveryDialog, setShowDiscoveryDialog] = useState(false);
+  const [showImportDialog, setShowImportDialog] = useState(false);
   const [statusMessage, setStatusMessage] = useState('');
   const [refreshingServers, setRefreshingServers] = useState(false);
   const [showGitHubGuide, setShowGitHubGuide] = useState(false);
@@ -120,6 +134,25 @@ const McpServersTab = () => {
     }
   };
 
+  // Download all servers as an `mcpServers` file
+  const handleExportServers = async () => {
+    try {
+      const file = await exportServerConfig();
+      const blob = new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+
+      link.href = url;
+      link.download = 'mcp-servers.json';
+      link.click();
+      URL.revokeObjectURL(url);
+
+      showStatus(`Exported ${Object.keys(file.mcpServers).length} servers. Secrets were redacted.`, 'success');
+    } catch (error) {
+      showStatus(`Failed to export servers: ${error instanceof Error ? error.message : 'Unknown error'}`, 'error');
+    }
+  };
+
   // Function to format date as relative time
   const formatRelativeTime = (date: Date) => {
     const now = new Date();
@@ -140,6 +173,24 @@ const McpServersTab = () => {
     return `${Math.floor(diffInSeconds / 86400)}d ago`;
   };
 
+  // Sign in to a server that requires OAuth
+  const handleSignIn = (server: { id: string; name: string }) => {
+    signInToServer(server.id)
+      .then(() => showStatus(`Signed in to ${server.name}`, 'success'))
+      .catch((error) => {
+        showStatus(`Failed to sign in to ${server.name}: ${error.message}`, 'error');
+      });
+  };
+
+  // Sign out of a server authorized with OAuth
+  const handleSignOut = (server: { id: string; name: string }) => {
+    signOutOfServer(server.id)
+      .then(() => showStatus(`Signed out of ${server.name}`, 'success'))
+      .catch((error) => {
+        showStatus(`Failed to sign out of ${server.name}: ${error.message}`, 'error');
+      });
+  };
+
   // Render server status badge
   const renderStatusBadge = (server: any) => {
     if (server.connected) {
@@ -164,15 +215,37 @@ const McpServersTab = () => {
   };
 
   // Function to get server type icon and color
-  const getServerTypeInfo = (serverName: string) => {
+  const getServerTypeInfo = (serverName: string, transport?: string, openapi?: boolean) => {
     const name = serverName.toLowerCase();
 
+    if (transport === 'stdio') {
+      return {
+        icon: 'i-ph:terminal-window',
+        color: 'text-green-500',
+        label: 'Local',
+      };
+    }
+
+    if (openapi) {
+      return {
+        icon: 'i-ph:brackets-curly',
+        color: 'text-teal-500',
+        label: 'OpenAPI',
+      };
+    }
+
     if (name.includes('github')) {
       return {
         icon: 'i-ph:github-logo',
         color: 'text-gray-800 dark:text-white',
         label: 'GitHub',
       };
+    } else if (name.includes('gitlab')) {
+      return {
+        icon: 'i-ph:gitlab-logo',
+        color: 'text-orange-500',
+        label: 'GitLab',
+      };
     } else if (name.includes('filesystem') || name.includes('file')) {
       return {
         icon: 'i-ph:folder-open',
@@ -197,6 +270,7 @@ const McpServersTab = () => {
   // Function to render quick setup cards
   const renderQuickSetupCards = () => {
     const hasGitHub = servers.some((s) => s.name.toLowerCase().includes('github'));
+    const hasGitLab = servers.some((s) => s.name.toLowerCase().includes('gitlab'));
     const hasFilesystem = servers.some((s) => s.name.toLowerCase().includes('filesystem'));
 
     return (
@@ -217,6 +291,22 @@ const McpServersTab = () => {
           </Card>
         )}
 
+        {!hasGitLab && (
+          <Card className="p-4 hover:shadow-md transition-shadow border-dashed border-2">
+            <div className="flex items-center mb-3">
+              <div className="i-ph:gitlab-logo w-6 h-6 text-orange-500 mr-2" />
+              <h4 className="font-medium">GitLab MCP</h4>
+            </div>
+            <p className="text-sm text-gray-600 dark:text-gray-400 mb-4">
+              Browse projects, read files and open merge requests on gitlab.com or your own instance.
+            </p>
+            <Button variant="outline" size="sm" className="w-full" onClick={() => setNewServerFormOpen(true)}>
+              <div className="i-ph:plus-bold w-4 h-4 mr-2" />
+              Add GitLab Server
+            </Button>
+          </Card>
+        )}
+
         {!hasFilesystem && (
           <Card className="p-4 hover:shadow-md transition-shadow border-dashed border-2">
             <div className="flex items-center mb-3">
@@ -262,6 +352,16 @@ const McpServersTab = () => {
             Discover
           </Button>
 
+          <Button variant="outline" size="sm" onClick={() => setShowImportDialog(true)}>
+            <div className="i-ph:download-simple w-4 h-4 mr-2" />
+            Import
+          </Button>
+
+          <Button variant="outline" size="sm" onClick={handleExportServers} disabled={servers.length === 0}>
+            <div className="i-ph:upload-simple w-4 h-4 mr-2" />
+            Export
+          </Button>
+
           <Button variant="default" size="sm" onClick={() => setNewServerFormOpen(true)}>
             <div className="i-ph:plus w-4 h-4 mr-2" />
             Add Server
@@ -393,7 +493,7 @@ const McpServersTab = () => {
         ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
             {servers.map((server) => {
-              const typeInfo = getServerTypeInfo(server.name);
+              const typeInfo = getServerTypeInfo(server.name, server.transport, !!server.openapi);
               return (
                 <Card
                   key={server.id}
@@ -420,9 +520,42 @@ const McpServersTab = () => {
                           {typeInfo.label}
                         </Badge>
                         {renderStatusBadge(server)}
+                        {server.connected && server.transport && (
+                          <Badge variant="outline" className="text-xs">
+                            {getTransportLabel(server.transport)}
+                          </Badge>
+                        )}
+                        {server.authState === 'required' && (
+                          <Badge
+                            variant="outline"
+                            className="text-xs bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300"
+                          >
+                            Sign-in required
+                          </Badge>
+                        )}
+                        {server.authState === 'authorized' && (
+                          <Badge variant="outline" className="text-xs">
+                            OAuth
+                          </Badge>
+                        )}
                       </div>
 
                       <div className="flex gap-1">
+                        {server.authState === 'required' && (
+                          <Tooltip tooltip="Sign in">
+                            <Button variant="outline" size="icon" onClick={() => handleSignIn(server)}>
+                              <div className="i-ph:sign-in-bold w-4 h-4" />
+                            </Button>
+                          </Tooltip>
+                        )}
+                        {server.authState === 'authorized' && (
+                          <Tooltip tooltip="Sign out">
+                            <Button variant="outline" size="icon" onClick={() => handleSignOut(server)}>
+                              <div className="i-ph:sign-out-bold w-4 h-4" />
+                            </Button>
+                          </Tooltip>
+                        )}
+
                         <Tooltip tooltip="Refresh server status">
                           <Button
                             variant="outline"
@@ -475,7 +608,9 @@ const McpServersTab = () => {
                     {/* Server details */}
                     <div className="flex-grow space-y-2 mb-3">
                       <div className="flex items-center text-sm text-gray-600 dark:text-gray-400">
-                        <div className="i-ph:globe w-4 h-4 mr-2" />
+                        <div
+                          className={`${server.transport === 'stdio' ? 'i-ph:terminal' : 'i-ph:globe'} w-4 h-4 mr-2`}
+                        />
                         <span className="truncate" title={server.baseUrl}>
                           {server.baseUrl}
                         </span>
@@ -507,6 +642,16 @@ const McpServersTab = () => {
                         </div>
                       </div>
                     )}
+
+                    {/* OAuth sign-in prompt */}
+                    {server.enabled && server.authState === 'required' && (
+                      <div className="mt-2 flex items-center justify-between gap-2 text-xs p-2 rounded-md bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-300">
+                        <span>This server requires you to sign in before its tools can be used.</span>
+                        <Button variant="outline" size="sm" onClick={() => handleSignIn(server)}>
+                          Sign in
+                        </Button>
+                      </div>
+                    )}
                   </div>
                 </Card>
               );
@@ -583,6 +728,18 @@ const McpServersTab = () => {
         </div>
       </div>
 
+      {/* Chains of tool calls offered to the model as single tools */}
+      <Workflows workflows={workflows} servers={servers} onSave={saveWorkflow} onRemove={removeWorkflow} />
+
+      {/* Run tools with arguments entered in a form */}
+      <ToolPlayground />
+
+      {/* Audit log of tool calls made from chats */}
+      <ToolCallLog />
+
+      {/* Token of bolt's own MCP server, for the actions of external agents */}
+      <BoltMcpToken />
+
       {/* Show GitHub MCP Guide if GitHub server is configured */}
       {showGitHubGuide && <GithubGuide />}
 
@@ -609,6 +766,11 @@ const McpServersTab = () => {
         />
       )}
 
+      {/* Import dialog for `mcpServers` files */}
+      {showImportDialog && (
+        <ImportServersDialog onClose={() => setShowImportDialog(false)} onImport={importServerConfig} />
+      )}
+
       {/* New server form */}
       {newServerFormOpen && (
         <ServerConfigForm
@@ -637,8 +799,15 @@ const McpServersTab = () => {
               auth: {
                 token: '', // We don't show the token for security reasons, but allow updating it
               },
+              transport: servers.find((s) => s.id === editingServer)?.transport,
+              command: servers.find((s) => s.id === editingServer)?.command,
+              args: servers.find((s) => s.id === editingServer)?.args,
+              cwd: servers.find((s) => s.id === editingServer)?.cwd,
+              toolPolicies: servers.find((s) => s.id === editingServer)?.toolPolicies,
+              openapi: servers.find((s) => s.id === editingServer)?.openapi,
             },
           }}
+          toolNames={servers.find((s) => s.id === editingServer)?.toolNames}
           isEdit={true}
           onCancel={() => setEditingServer(null)}
           onSubmit={(data) => {
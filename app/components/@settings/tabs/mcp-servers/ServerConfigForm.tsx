@@ -4,6 +4,7 @@ import { Card } from '~/components/ui/Card';
 import { Input } from '~/components/ui/Input';
 import { Switch } from '~/components/ui/Switch';
 import { Label } from '~/components/ui/Label';
+import type { MCPOpenAPIAuthScheme, MCPOpenAPIConfig, MCPToolPolicies, MCPToolPolicy } from '~/lib/modules/mcp/config';
 
 interface ServerConfigFormProps {
   initialValues?: {
@@ -14,8 +15,20 @@ interface ServerConfigFormProps {
       auth?: {
         token?: string;
       };
+      transport?: 'streamable-http' | 'sse' | 'stdio';
+      command?: string;
+      args?: string[];
+      env?: Record<string, string>;
+      cwd?: string;
+      toolPolicies?: MCPToolPolicies;
+      openapi?: MCPOpenAPIConfig;
     };
   };
+
+  /**
+   * Tools reported by the server, suggested when adding policy overrides
+   */
+  toolNames?: string[];
   isEdit?: boolean;
   onSubmit: (data: any) => void;
   onCancel: () => void;
@@ -31,17 +44,99 @@ interface ServerTypeConfig {
   tokenDescription: string;
   tokenLink?: string;
   tokenLinkText?: string;
+  transport?: 'stdio';
+
+  /**
+   * Servers whose tools are generated from an OpenAPI document
+   */
+  openapi?: boolean;
 }
 
 type ServerTypes = {
   [key: string]: ServerTypeConfig;
 };
 
-const ServerConfigForm = ({ initialValues = {}, isEdit = false, onSubmit, onCancel }: ServerConfigFormProps) => {
-  const [serverType, setServerType] = useState<string>('custom');
+interface ToolPolicyOverride {
+  tool: string;
+  policy: MCPToolPolicy;
+}
+
+const OPENAPI_AUTH_SCHEME_OPTIONS: { value: MCPOpenAPIAuthScheme; label: string }[] = [
+  { value: 'bearer', label: 'Bearer token' },
+  { value: 'basic', label: 'Basic (user:password)' },
+  { value: 'apiKey', label: "API key (the document's apiKey scheme)" },
+];
+
+const TOOL_POLICY_OPTIONS: { value: MCPToolPolicy; label: string }[] = [
+  { value: 'allow', label: 'Allow' },
+  { value: 'ask', label: 'Ask for approval' },
+  { value: 'deny', label: 'Deny' },
+];
+
+// Parse KEY=VALUE lines into an environment object
+const parseEnvText = (text: string): Record<string, string> => {
+  const env: Record<string, string> = {};
+
+  for (const line of text.split('\n')) {
+    const separatorIndex = line.indexOf('=');
+
+    if (separatorIndex > 0) {
+      env[line.slice(0, separatorIndex).trim()] = line.slice(separatorIndex + 1).trim();
+    }
+  }
+
+  return env;
+};
+
+// Split a comma or newline separated list
+const parseListText = (text: string): string[] =>
+  text
+    .split(/[,\n]/)
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+// Format an environment object as KEY=VALUE lines
+const formatEnvText = (env: Record<string, string> = {}): string =>
+  Object.entries(env)
+    .map(([key, value]) => `${key}=${value}`)
+    .join('\n');
+
+const ServerConfigForm = ({
+  initialValues = {},
+  toolNames = [],
+  isEdit = false,
+  onSubmit,
+  onCancel,
+}: ServerConfigFormProps) => {
+  const [serverType, setServerType] = useState<string>(
+    initialValues.config?.openapi ? 'openapi' : initialValues.config?.transport === 'stdio' ? 'stdio' : 'custom',
+  );
   const [name, setName] = useState(initialValues.name || '');
   const [baseUrl, setBaseUrl] = useState(initialValues.baseUrl || '');
   const [token, setToken] = useState(initialValues.config?.auth?.token || '');
+  const [command, setCommand] = useState(initialValues.config?.command || '');
+  const [argsText, setArgsText] = useState((initialValues.config?.args || []).join('\n'));
+  const [envText, setEnvText] = useState(formatEnvText(initialValues.config?.env));
+  const [cwd, setCwd] = useState(initialValues.config?.cwd || '');
+  const [specUrl, setSpecUrl] = useState(initialValues.config?.openapi?.specUrl || '');
+  const [specText, setSpecText] = useState(initialValues.config?.openapi?.spec || '');
+  const [apiServerUrl, setApiServerUrl] = useState(initialValues.config?.openapi?.serverUrl || '');
+  const [authScheme, setAuthScheme] = useState<MCPOpenAPIAuthScheme>(
+    initialValues.config?.openapi?.authScheme || 'bearer',
+  );
+  const [tagsText, setTagsText] = useState((initialValues.config?.openapi?.tags || []).join(', '));
+  const [operationIdsText, setOperationIdsText] = useState(
+    (initialValues.config?.openapi?.operationIds || []).join(', '),
+  );
+  const [httpTransport, setHttpTransport] = useState(
+    initialValues.config?.transport === 'stdio' ? '' : initialValues.config?.transport || '',
+  );
+  const [defaultPolicy, setDefaultPolicy] = useState<MCPToolPolicy>(
+    initialValues.config?.toolPolicies?.default || 'allow',
+  );
+  const [policyOverrides, setPolicyOverrides] = useState<ToolPolicyOverride[]>(
+    Object.entries(initialValues.config?.toolPolicies?.tools || {}).map(([tool, policy]) => ({ tool, policy })),
+  );
   const [enabled, setEnabled] = useState(initialValues.enabled !== undefined ? initialValues.enabled : true);
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -52,6 +147,8 @@ const ServerConfigForm = ({ initialValues = {}, isEdit = false, onSubmit, onCanc
   useEffect(() => {
     if (name.toLowerCase().includes('github')) {
       setServerType('github');
+    } else if (name.toLowerCase().includes('gitlab')) {
+      setServerType('gitlab');
     } else if (name.toLowerCase().includes('filesystem')) {
       setServerType('filesystem');
     }
@@ -72,6 +169,17 @@ const ServerConfigForm = ({ initialValues = {}, isEdit = false, onSubmit, onCanc
       tokenLink: 'https://github.com/settings/tokens',
       tokenLinkText: 'Generate token on GitHub',
     },
+    gitlab: {
+      name: 'GitLab MCP',
+      icon: 'i-ph:gitlab-logo',
+      color: 'text-orange-500',
+      description: 'Connect to projects and merge requests on gitlab.com or a self-hosted GitLab instance.',
+      urlPlaceholder: 'https://gitlab.com',
+      tokenLabel: 'GitLab Personal Access Token',
+      tokenDescription: 'Create a token with the api and read_user scopes.',
+      tokenLink: 'https://gitlab.com/-/user_settings/personal_access_tokens',
+      tokenLinkText: 'Generate token on GitLab',
+    },
     filesystem: {
       name: 'Filesystem MCP',
       icon: 'i-ph:folder-open',
@@ -90,8 +198,31 @@ const ServerConfigForm = ({ initialValues = {}, isEdit = false, onSubmit, onCanc
       tokenLabel: 'Authentication Token',
       tokenDescription: 'Optional: Add if your server requires authentication.',
     },
+    stdio: {
+      name: 'Local Command MCP',
+      icon: 'i-ph:terminal-window',
+      color: 'text-green-500',
+      description: 'Spawn a local MCP server process (e.g. an npx or uvx package) that talks over stdio.',
+      urlPlaceholder: '',
+      tokenLabel: 'Authentication Token',
+      tokenDescription: 'Optional: Pass secrets through environment variables instead where possible.',
+      transport: 'stdio',
+    },
+    openapi: {
+      name: 'OpenAPI Service',
+      icon: 'i-ph:brackets-curly',
+      color: 'text-teal-500',
+      description: 'Turn the operations of a REST service described by an OpenAPI 3 document into tools.',
+      urlPlaceholder: '',
+      tokenLabel: 'API Token',
+      tokenDescription: 'Optional: Sent with every request as chosen under Authentication.',
+      openapi: true,
+    },
   };
 
+  const isStdio = serverTypes[serverType]?.transport === 'stdio';
+  const isOpenAPI = !!serverTypes[serverType]?.openapi;
+
   // Test connection to server
   const testConnection = async (params: { baseUrl: string; token?: string }) => {
     try {
@@ -138,7 +269,28 @@ const ServerConfigForm = ({ initialValues = {}, isEdit = false, onSubmit, onCanc
       newErrors.name = 'Server name is required';
     }
 
-    if (!baseUrl.trim()) {
+    if (isStdio) {
+      if (!command.trim()) {
+        newErrors.command = 'Command is required';
+      }
+    } else if (isOpenAPI) {
+      if (!specText.trim() && !specUrl.trim()) {
+        newErrors.specUrl = 'Enter the URL of the document or paste it';
+      }
+
+      for (const [field, value] of [
+        ['specUrl', specText.trim() ? '' : specUrl],
+        ['apiServerUrl', apiServerUrl],
+      ]) {
+        try {
+          if (value.trim()) {
+            new URL(value);
+          }
+        } catch {
+          newErrors[field] = 'Invalid URL format';
+        }
+      }
+    } else if (!baseUrl.trim()) {
       newErrors.baseUrl = 'Server URL is required';
     } else {
       try {
@@ -156,15 +308,52 @@ const ServerConfigForm = ({ initialValues = {}, isEdit = false, onSubmit, onCanc
     setIsSubmitting(true);
 
     try {
+      const stdioConfig = isStdio
+        ? {
+            transport: 'stdio',
+            command: command.trim(),
+            args: argsText
+              .split('\n')
+              .map((arg) => arg.trim())
+              .filter(Boolean),
+
+            // Environment values are not sent back to the browser, so a blank field keeps the stored ones
+            env: envText.trim() ? parseEnvText(envText) : undefined,
+            cwd: cwd.trim() || undefined,
+          }
+        : isOpenAPI
+          ? {
+              openapi: {
+                specUrl: specUrl.trim() || undefined,
+                spec: specText.trim() || undefined,
+                serverUrl: apiServerUrl.trim() || undefined,
+                authScheme,
+                tags: parseListText(tagsText),
+                operationIds: parseListText(operationIdsText),
+              },
+            }
+          : { transport: httpTransport || undefined };
+
+      const toolPolicies: MCPToolPolicies = {
+        default: defaultPolicy,
+        tools: Object.fromEntries(
+          policyOverrides
+            .filter((override) => override.tool.trim())
+            .map((override) => [override.tool.trim(), override.policy]),
+        ),
+      };
+
       await onSubmit({
         name,
-        baseUrl,
+        baseUrl: isStdio || isOpenAPI ? undefined : baseUrl,
         enabled,
         config: {
           auth: {
             token: token.trim() || undefined,
             type: serverType,
           },
+          ...stdioConfig,
+          toolPolicies,
         },
       });
     } catch (error) {
@@ -207,7 +396,7 @@ const ServerConfigForm = ({ initialValues = {}, isEdit = false, onSubmit, onCanc
                     setServerType(key);
                     setName(type.name);
 
-                    if (!baseUrl) {
+                    if (!baseUrl && !type.transport) {
                       setBaseUrl(type.urlPlaceholder);
                     }
                   }}
@@ -251,35 +440,271 @@ const ServerConfigForm = ({ initialValues = {}, isEdit = false, onSubmit, onCanc
           </div>
 
           {/* Server URL */}
-          <div>
-            <Label htmlFor="baseUrl" className="text-sm font-medium">
-              Server URL <span className="text-red-500">*</span>
-            </Label>
-            <Input
-              id="baseUrl"
-              type="text"
-              value={baseUrl}
-              onChange={(e) => {
-                setBaseUrl(e.target.value);
+          {!isStdio && !isOpenAPI && (
+            <div>
+              <Label htmlFor="baseUrl" className="text-sm font-medium">
+                Server URL <span className="text-red-500">*</span>
+              </Label>
+              <Input
+                id="baseUrl"
+                type="text"
+                value={baseUrl}
+                onChange={(e) => {
+                  setBaseUrl(e.target.value);
+
+                  if (errors.baseUrl) {
+                    setErrors({ ...errors, baseUrl: '' });
+                  }
+                }}
+                placeholder={selectedType.urlPlaceholder}
+                className={`mt-1 ${errors.baseUrl ? 'border-red-500 focus:ring-red-500' : ''}`}
+                autoComplete="off"
+              />
+              {errors.baseUrl && (
+                <p className="mt-1 text-sm text-red-500 flex items-center">
+                  <div className="i-ph:warning-circle w-4 h-4 mr-1" />
+                  {errors.baseUrl}
+                </p>
+              )}
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                The base URL of the MCP server, including protocol (http:// or https://)
+              </p>
+            </div>
+          )}
 
-                if (errors.baseUrl) {
-                  setErrors({ ...errors, baseUrl: '' });
-                }
-              }}
-              placeholder={selectedType.urlPlaceholder}
-              className={`mt-1 ${errors.baseUrl ? 'border-red-500 focus:ring-red-500' : ''}`}
-              autoComplete="off"
-            />
-            {errors.baseUrl && (
-              <p className="mt-1 text-sm text-red-500 flex items-center">
-                <div className="i-ph:warning-circle w-4 h-4 mr-1" />
-                {errors.baseUrl}
+          {/* HTTP transport */}
+          {!isStdio && !isOpenAPI && (
+            <div>
+              <Label htmlFor="transport" className="text-sm font-medium">
+                Transport
+              </Label>
+              <select
+                id="transport"
+                value={httpTransport}
+                onChange={(e) => setHttpTransport(e.target.value)}
+                className="mt-1 flex h-10 w-full rounded-md border border-bolt-elements-border bg-bolt-elements-background px-3 py-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-bolt-elements-ring"
+              >
+                <option value="">Auto (Streamable HTTP, falling back to SSE)</option>
+                <option value="streamable-http">Streamable HTTP only</option>
+                <option value="sse">SSE only (legacy servers)</option>
+              </select>
+            </div>
+          )}
+
+          {/* Stdio process settings */}
+          {isStdio && (
+            <>
+              <div>
+                <Label htmlFor="command" className="text-sm font-medium">
+                  Command <span className="text-red-500">*</span>
+                </Label>
+                <Input
+                  id="command"
+                  type="text"
+                  value={command}
+                  onChange={(e) => {
+                    setCommand(e.target.value);
+
+                    if (errors.command) {
+                      setErrors({ ...errors, command: '' });
+                    }
+                  }}
+                  placeholder="npx"
+                  className={`mt-1 ${errors.command ? 'border-red-500 focus:ring-red-500' : ''}`}
+                  autoComplete="off"
+                />
+                {errors.command && (
+                  <p className="mt-1 text-sm text-red-500 flex items-center">
+                    <div className="i-ph:warning-circle w-4 h-4 mr-1" />
+                    {errors.command}
+                  </p>
+                )}
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  Executable that starts the server, resolved on the machine running bolt
+                </p>
+              </div>
+
+              <div>
+                <Label htmlFor="args" className="text-sm font-medium">
+                  Arguments
+                </Label>
+                <textarea
+                  id="args"
+                  value={argsText}
+                  onChange={(e) => setArgsText(e.target.value)}
+                  placeholder={'-y\n@modelcontextprotocol/server-filesystem\n/path/to/project'}
+                  rows={3}
+                  className="mt-1 w-full rounded-md border border-bolt-elements-border bg-bolt-elements-background px-3 py-2 text-sm font-mono placeholder:text-bolt-elements-textSecondary focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-bolt-elements-ring"
+                />
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">One argument per line</p>
+              </div>
+
+              <div>
+                <Label htmlFor="env" className="text-sm font-medium">
+                  Environment Variables
+                </Label>
+                <textarea
+                  id="env"
+                  value={envText}
+                  onChange={(e) => setEnvText(e.target.value)}
+                  placeholder="API_KEY=your-key"
+                  rows={3}
+                  className="mt-1 w-full rounded-md border border-bolt-elements-border bg-bolt-elements-background px-3 py-2 text-sm font-mono placeholder:text-bolt-elements-textSecondary focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-bolt-elements-ring"
+                />
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">One KEY=VALUE pair per line</p>
+              </div>
+
+              <div>
+                <Label htmlFor="cwd" className="text-sm font-medium">
+                  Working Directory
+                </Label>
+                <Input
+                  id="cwd"
+                  type="text"
+                  value={cwd}
+                  onChange={(e) => setCwd(e.target.value)}
+                  placeholder="Defaults to the bolt server directory"
+                  className="mt-1"
+                  autoComplete="off"
+                />
+              </div>
+            </>
+          )}
+
+          {/* OpenAPI document settings */}
+          {isOpenAPI && (
+            <>
+              <div>
+                <Label htmlFor="specUrl" className="text-sm font-medium">
+                  OpenAPI Document URL
+                </Label>
+                <Input
+                  id="specUrl"
+                  type="text"
+                  value={specUrl}
+                  onChange={(e) => {
+                    setSpecUrl(e.target.value);
+
+                    if (errors.specUrl) {
+                      setErrors({ ...errors, specUrl: '' });
+                    }
+                  }}
+                  placeholder="https://api.example.com/openapi.json"
+                  className={`mt-1 ${errors.specUrl ? 'border-red-500 focus:ring-red-500' : ''}`}
+                  autoComplete="off"
+                />
+                {errors.specUrl && (
+                  <p className="mt-1 text-sm text-red-500 flex items-center">
+                    <div className="i-ph:warning-circle w-4 h-4 mr-1" />
+                    {errors.specUrl}
+                  </p>
+                )}
+              </div>
+
+              <div>
+                <Label htmlFor="specText" className="text-sm font-medium">
+                  Or Paste the Document
+                </Label>
+                <textarea
+                  id="specText"
+                  value={specText}
+                  onChange={(e) => {
+                    setSpecText(e.target.value);
+
+                    if (errors.specUrl) {
+                      setErrors({ ...errors, specUrl: '' });
+                    }
+                  }}
+                  placeholder={'openapi: 3.0.0\ninfo:\n  title: My API\npaths: ...'}
+                  rows={5}
+                  className="mt-1 w-full rounded-md border border-bolt-elements-border bg-bolt-elements-background px-3 py-2 text-sm font-mono placeholder:text-bolt-elements-textSecondary focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-bolt-elements-ring"
+                />
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  JSON or YAML; used instead of the URL when filled in
+                </p>
+              </div>
+
+              <div>
+                <Label htmlFor="apiServerUrl" className="text-sm font-medium">
+                  API Base URL
+                </Label>
+                <Input
+                  id="apiServerUrl"
+                  type="text"
+                  value={apiServerUrl}
+                  onChange={(e) => {
+                    setApiServerUrl(e.target.value);
+
+                    if (errors.apiServerUrl) {
+                      setErrors({ ...errors, apiServerUrl: '' });
+                    }
+                  }}
+                  placeholder="Defaults to the first server of the document"
+                  className={`mt-1 ${errors.apiServerUrl ? 'border-red-500 focus:ring-red-500' : ''}`}
+                  autoComplete="off"
+                />
+                {errors.apiServerUrl && (
+                  <p className="mt-1 text-sm text-red-500 flex items-center">
+                    <div className="i-ph:warning-circle w-4 h-4 mr-1" />
+                    {errors.apiServerUrl}
+                  </p>
+                )}
+              </div>
+
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label htmlFor="tags" className="text-sm font-medium">
+                    Tags
+                  </Label>
+                  <Input
+                    id="tags"
+                    type="text"
+                    value={tagsText}
+                    onChange={(e) => setTagsText(e.target.value)}
+                    placeholder="pets, store"
+                    className="mt-1"
+                    autoComplete="off"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="operationIds" className="text-sm font-medium">
+                    Operation IDs
+                  </Label>
+                  <Input
+                    id="operationIds"
+                    type="text"
+                    value={operationIdsText}
+                    onChange={(e) => setOperationIdsText(e.target.value)}
+                    placeholder="listPets, getPetById"
+                    className="mt-1"
+                    autoComplete="off"
+                  />
+                </div>
+              </div>
+              <p className="-mt-2 text-xs text-gray-500 dark:text-gray-400">
+                Comma separated. Only operations with one of the tags or IDs become tools; all of them when both are
+                empty
               </p>
-            )}
-            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
-              The base URL of the MCP server, including protocol (http:// or https://)
-            </p>
-          </div>
+
+              <div>
+                <Label htmlFor="authScheme" className="text-sm font-medium">
+                  Authentication
+                </Label>
+                <select
+                  id="authScheme"
+                  value={authScheme}
+                  onChange={(e) => setAuthScheme(e.target.value as MCPOpenAPIAuthScheme)}
+                  className="mt-1 flex h-10 w-full rounded-md border border-bolt-elements-border bg-bolt-elements-background px-3 py-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-bolt-elements-ring"
+                >
+                  {OPENAPI_AUTH_SCHEME_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </>
+          )}
 
           {/* Authentication Token */}
           <div>
@@ -308,6 +733,92 @@ const ServerConfigForm = ({ initialValues = {}, isEdit = false, onSubmit, onCanc
             <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{selectedType.tokenDescription}</p>
           </div>
 
+          {/* Tool approval policies */}
+          <div>
+            <Label htmlFor="defaultPolicy" className="text-sm font-medium">
+              Tool Approval
+            </Label>
+            <select
+              id="defaultPolicy"
+              value={defaultPolicy}
+              onChange={(e) => setDefaultPolicy(e.target.value as MCPToolPolicy)}
+              className="mt-1 flex h-10 w-full rounded-md border border-bolt-elements-border bg-bolt-elements-background px-3 py-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-bolt-elements-ring"
+            >
+              {TOOL_POLICY_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Applies to every tool of this server unless overridden below. Calls that need approval pause the chat
+              until you approve or deny them.
+            </p>
+
+            {policyOverrides.length > 0 && (
+              <div className="mt-3 space-y-2">
+                {policyOverrides.map((override, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <Input
+                      type="text"
+                      value={override.tool}
+                      onChange={(e) =>
+                        setPolicyOverrides(
+                          policyOverrides.map((o, i) => (i === index ? { ...o, tool: e.target.value } : o)),
+                        )
+                      }
+                      placeholder="Tool name"
+                      list="tool-policy-names"
+                      className="flex-1 font-mono"
+                      autoComplete="off"
+                    />
+                    <select
+                      value={override.policy}
+                      onChange={(e) =>
+                        setPolicyOverrides(
+                          policyOverrides.map((o, i) =>
+                            i === index ? { ...o, policy: e.target.value as MCPToolPolicy } : o,
+                          ),
+                        )
+                      }
+                      className="h-10 rounded-md border border-bolt-elements-border bg-bolt-elements-background px-3 py-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-bolt-elements-ring"
+                    >
+                      {TOOL_POLICY_OPTIONS.map((option) => (
+                        <option key={option.value} value={option.value}>
+                          {option.label}
+                        </option>
+                      ))}
+                    </select>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="icon"
+                      title="Remove override"
+                      onClick={() => setPolicyOverrides(policyOverrides.filter((_, i) => i !== index))}
+                    >
+                      <div className="i-ph:trash w-4 h-4" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+            <datalist id="tool-policy-names">
+              {toolNames.map((toolName) => (
+                <option key={toolName} value={toolName} />
+              ))}
+            </datalist>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              className="mt-2"
+              onClick={() => setPolicyOverrides([...policyOverrides, { tool: '', policy: 'ask' }])}
+            >
+              <div className="i-ph:plus w-4 h-4 mr-2" />
+              Add Tool Override
+            </Button>
+          </div>
+
           {/* Enabled Switch */}
           <div className="flex items-center justify-between">
             <div>
@@ -340,7 +851,7 @@ const ServerConfigForm = ({ initialValues = {}, isEdit = false, onSubmit, onCanc
             type="button"
             variant="outline"
             onClick={() => testConnection({ baseUrl, token })}
-            disabled={isTesting || !baseUrl}
+            disabled={isTesting || !baseUrl || isStdio || isOpenAPI}
           >
             {isTesting ? (
               <>
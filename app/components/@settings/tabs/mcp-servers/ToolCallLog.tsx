@@ -0,0 +1,227 @@
+import { useEffect, useMemo, useState } from 'react';
+import { toast } from 'react-toastify';
+import { Button } from '~/components/ui/Button';
+import { Card } from '~/components/ui/Card';
+import { Badge } from '~/components/ui/Badge';
+import { Input } from '~/components/ui/Input';
+import { useMCPToolCallLog } from '~/lib/hooks/useMCPToolCallLog';
+import type { MCPToolCallRecord } from '~/lib/modules/mcp/config';
+
+// Number of log entries shown before "Show more"
+const PAGE_SIZE = 50;
+
+type StatusFilter = 'all' | MCPToolCallRecord['status'];
+
+const STATUS_STYLES: Record<MCPToolCallRecord['status'], string> = {
+  success: 'bg-green-500/10 text-green-500',
+  error: 'bg-red-500/10 text-red-500',
+  denied: 'bg-amber-500/10 text-amber-500',
+};
+
+// Format a value for display in the details panel
+const formatValue = (value: unknown): string => {
+  if (typeof value === 'string') {
+    return value;
+  }
+
+  return JSON.stringify(value, null, 2) ?? '';
+};
+
+const ToolCallLogEntry = ({
+  record,
+  onRerun,
+}: {
+  record: MCPToolCallRecord;
+  onRerun: (record: MCPToolCallRecord) => Promise<void>;
+}) => {
+  const [expanded, setExpanded] = useState(false);
+  const [rerunning, setRerunning] = useState(false);
+
+  return (
+    <div className="border-b border-gray-200 dark:border-gray-700 last:border-b-0">
+      <button
+        type="button"
+        className="w-full flex items-center gap-3 px-4 py-2 text-left bg-transparent hover:bg-gray-50 dark:hover:bg-gray-800/50"
+        onClick={() => setExpanded(!expanded)}
+      >
+        <div className={`${expanded ? 'i-ph:caret-down' : 'i-ph:caret-right'} w-3 h-3 text-gray-400`} />
+        <span className="text-xs text-gray-500 dark:text-gray-400 w-40 shrink-0">
+          {new Date(record.timestamp).toLocaleString()}
+        </span>
+        <span className="text-sm font-mono text-gray-900 dark:text-white truncate flex-1">{record.toolName}</span>
+        <span className="text-xs text-gray-500 dark:text-gray-400 truncate w-32">{record.serverName}</span>
+        <Badge className={STATUS_STYLES[record.status]}>{record.status}</Badge>
+        <span className="text-xs text-gray-500 dark:text-gray-400 w-16 text-right">{record.durationMs} ms</span>
+      </button>
+      {expanded && (
+        <div className="px-4 pb-4 space-y-3">
+          <div>
+            <div className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">Arguments</div>
+            <pre className="p-2 max-h-48 overflow-auto rounded-md text-xs bg-gray-50 dark:bg-gray-800 text-gray-700 dark:text-gray-300 whitespace-pre-wrap">
+              {formatValue(record.args ?? {})}
+            </pre>
+          </div>
+          <div>
+            <div className="text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">
+              {record.status === 'success' ? 'Result' : 'Error'}
+            </div>
+            <pre className="p-2 max-h-64 overflow-auto rounded-md text-xs bg-gray-50 dark:bg-gray-800 text-gray-700 dark:text-gray-300 whitespace-pre-wrap">
+              {record.status === 'success' ? formatValue(record.result) : record.error}
+            </pre>
+          </div>
+          <div className="flex items-center justify-between">
+            <div className="text-xs text-gray-500 dark:text-gray-400">
+              {record.chatId ? `Chat ${record.chatId}` : 'Not linked to a chat'}
+              {record.messageId ? ` · Message ${record.messageId}` : ''}
+            </div>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={rerunning}
+              onClick={async () => {
+                setRerunning(true);
+
+                try {
+                  await onRerun(record);
+                } finally {
+                  setRerunning(false);
+                }
+              }}
+            >
+              <div
+                className={`${rerunning ? 'i-ph:spinner-gap-bold animate-spin' : 'i-ph:arrow-clockwise'} w-4 h-4 mr-2`}
+              />
+              Re-run
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Audit log of the MCP tool calls made from chats
+ */
+const ToolCallLog = () => {
+  const { records, loading, error, loadRecords, clearRecords, rerunToolCall } = useMCPToolCallLog();
+  const [serverFilter, setServerFilter] = useState('all');
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [search, setSearch] = useState('');
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  useEffect(() => {
+    loadRecords();
+  }, [loadRecords]);
+
+  const servers = useMemo(
+    () => Array.from(new Map(records.map((record) => [record.serverId, record.serverName])).entries()),
+    [records],
+  );
+
+  const query = search.trim().toLowerCase();
+  const filteredRecords = records.filter(
+    (record) =>
+      (serverFilter === 'all' || record.serverId === serverFilter) &&
+      (statusFilter === 'all' || record.status === statusFilter) &&
+      (!query ||
+        record.toolName.toLowerCase().includes(query) ||
+        JSON.stringify(record.args ?? {})
+          .toLowerCase()
+          .includes(query)),
+  );
+
+  const handleRerun = async (record: MCPToolCallRecord) => {
+    const replay = await rerunToolCall(record);
+
+    if (replay.status === 'success') {
+      toast.success(`${record.toolName} ran successfully in ${replay.durationMs} ms`);
+    } else {
+      toast.error(`${record.toolName} failed: ${replay.error}`);
+    }
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm('Delete all recorded tool calls?')) {
+      return;
+    }
+
+    try {
+      await clearRecords();
+      toast.success('Tool call log cleared');
+    } catch (err) {
+      toast.error(`Failed to clear tool call log: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-800 dark:text-gray-200">Tool Call Log</h3>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={loadRecords} disabled={loading}>
+            <div className={`i-ph:arrows-clockwise w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleClear} disabled={records.length === 0}>
+            <div className="i-ph:trash w-4 h-4 mr-2" />
+            Clear
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-2">
+        <Input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search tools and arguments..."
+          className="flex-1"
+        />
+        <select
+          value={serverFilter}
+          onChange={(e) => setServerFilter(e.target.value)}
+          className="h-10 rounded-md border border-bolt-elements-border bg-bolt-elements-background px-3 py-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-bolt-elements-ring"
+        >
+          <option value="all">All servers</option>
+          {servers.map(([serverId, serverName]) => (
+            <option key={serverId} value={serverId}>
+              {serverName}
+            </option>
+          ))}
+        </select>
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}
+          className="h-10 rounded-md border border-bolt-elements-border bg-bolt-elements-background px-3 py-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-bolt-elements-ring"
+        >
+          <option value="all">All statuses</option>
+          <option value="success">Success</option>
+          <option value="error">Error</option>
+          <option value="denied">Denied</option>
+        </select>
+      </div>
+
+      <Card className="overflow-hidden">
+        {error && <div className="p-4 text-sm text-red-500">{error}</div>}
+        {!error && filteredRecords.length === 0 && (
+          <div className="p-6 text-center text-sm text-gray-500 dark:text-gray-400">
+            {records.length === 0 ? 'No tool calls recorded yet.' : 'No tool calls match the filters.'}
+          </div>
+        )}
+        {filteredRecords.slice(0, visibleCount).map((record) => (
+          <ToolCallLogEntry key={record.id} record={record} onRerun={handleRerun} />
+        ))}
+        {filteredRecords.length > visibleCount && (
+          <div className="p-2 text-center">
+            <Button variant="ghost" size="sm" onClick={() => setVisibleCount(visibleCount + PAGE_SIZE)}>
+              Show more ({filteredRecords.length - visibleCount} remaining)
+            </Button>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+export default ToolCallLog;
@@ -0,0 +1,374 @@
+import { useState } from 'react';
+import { Input } from '~/components/ui/Input';
+import { Label } from '~/components/ui/Label';
+import { Button } from '~/components/ui/Button';
+
+/**
+ * Part of JSON Schema used to build forms
+ */
+export interface ToolInputSchema {
+  type?: string | string[];
+  title?: string;
+  description?: string;
+  enum?: unknown[];
+  default?: unknown;
+  properties?: Record<string, ToolInputSchema>;
+  required?: string[];
+  items?: ToolInputSchema;
+}
+
+const SELECT_CLASS_NAME =
+  'mt-1 flex h-10 w-full rounded-md border border-bolt-elements-border bg-bolt-elements-background px-3 py-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-bolt-elements-ring';
+
+/**
+ * Get the type a field is edited as
+ * Schemas without a single known type are edited as JSON
+ * @param schema Schema of the field
+ */
+function getFieldType(schema: ToolInputSchema): string {
+  const types = (Array.isArray(schema.type) ? schema.type : [schema.type]).filter((type) => type && type !== 'null');
+
+  if (schema.enum) {
+    return 'enum';
+  }
+
+  if (types.length !== 1) {
+    return 'json';
+  }
+
+  if (types[0] === 'object' && !schema.properties) {
+    return 'json';
+  }
+
+  return types[0] as string;
+}
+
+/**
+ * Get the initial value of a field
+ * Objects start with their required fields, other fields start empty unless the schema has a default
+ * @param schema Schema of the field
+ */
+export function getDefaultValue(schema: ToolInputSchema): unknown {
+  if (schema.default !== undefined) {
+    return schema.default;
+  }
+
+  if (getFieldType(schema) === 'object') {
+    return Object.fromEntries(
+      (schema.required ?? [])
+        .filter((name) => schema.properties?.[name])
+        .map((name) => [name, getDefaultValue(schema.properties![name])]),
+    );
+  }
+
+  return getFieldType(schema) === 'array' ? [] : undefined;
+}
+
+/**
+ * List the required fields that have no value
+ * @param schema Schema of the value
+ * @param value Value entered in the form
+ * @param path Path of the value, used in the returned names
+ */
+export function findMissingFields(schema: ToolInputSchema, value: unknown, path = ''): string[] {
+  if (getFieldType(schema) !== 'object' || !value || typeof value !== 'object') {
+    return [];
+  }
+
+  const record = value as Record<string, unknown>;
+
+  return Object.entries(schema.properties ?? {}).flatMap(([name, fieldSchema]) => {
+    const fieldPath = path ? `${path}.${name}` : name;
+    const fieldValue = record[name];
+
+    if (fieldValue === undefined || fieldValue === '') {
+      return schema.required?.includes(name) ? [fieldPath] : [];
+    }
+
+    return findMissingFields(fieldSchema, fieldValue, fieldPath);
+  });
+}
+
+/**
+ * Field edited as JSON text, for schemas the form cannot render
+ */
+const JsonField = ({ value, onChange }: { value: unknown; onChange: (value: unknown) => void }) => {
+  const [text, setText] = useState(() => (value === undefined ? '' : JSON.stringify(value, null, 2)));
+  const [invalid, setInvalid] = useState(false);
+
+  return (
+    <>
+      <textarea
+        value={text}
+        rows={3}
+        onChange={(e) => {
+          setText(e.target.value);
+
+          if (!e.target.value.trim()) {
+            setInvalid(false);
+            onChange(undefined);
+
+            return;
+          }
+
+          try {
+            onChange(JSON.parse(e.target.value));
+            setInvalid(false);
+          } catch {
+            setInvalid(true);
+          }
+        }}
+        className={`mt-1 w-full rounded-md border bg-bolt-elements-background px-3 py-2 text-sm font-mono focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-bolt-elements-ring ${
+          invalid ? 'border-red-500' : 'border-bolt-elements-border'
+        }`}
+        placeholder="JSON value"
+      />
+      {invalid && <p className="mt-1 text-xs text-red-500">Not valid JSON</p>}
+    </>
+  );
+};
+
+/**
+ * Form field rendered from a JSON Schema, recursing into objects and arrays
+ */
+const SchemaField = ({
+  name,
+  schema,
+  value,
+  required,
+  onChange,
+}: {
+  name: string;
+  schema: ToolInputSchema;
+  value: unknown;
+  required?: boolean;
+  onChange: (value: unknown) => void;
+}) => {
+  const type = getFieldType(schema);
+  const label = (
+    <Label className="text-sm font-medium">
+      {schema.title || name}
+      {required && <span className="text-red-500"> *</span>}
+      <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">{type}</span>
+    </Label>
+  );
+  const description = schema.description && (
+    <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">{schema.description}</p>
+  );
+
+  switch (type) {
+    case 'enum':
+      return (
+        <div>
+          {label}
+          <select
+            value={value === undefined ? '' : JSON.stringify(value)}
+            onChange={(e) => onChange(e.target.value ? JSON.parse(e.target.value) : undefined)}
+            className={SELECT_CLASS_NAME}
+          >
+            <option value="">{required ? 'Select a value' : 'Not set'}</option>
+            {schema.enum!.map((option) => (
+              <option key={JSON.stringify(option)} value={JSON.stringify(option)}>
+                {String(option)}
+              </option>
+            ))}
+          </select>
+          {description}
+        </div>
+      );
+    case 'string':
+      return (
+        <div>
+          {label}
+          <Input
+            type="text"
+            value={(value as string | undefined) ?? ''}
+            onChange={(e) => onChange(e.target.value || undefined)}
+            className="mt-1"
+          />
+          {description}
+        </div>
+      );
+    case 'number':
+    case 'integer':
+      return (
+        <div>
+          {label}
+          <Input
+            type="number"
+            step={type === 'integer' ? 1 : 'any'}
+            value={value === undefined ? '' : String(value)}
+            onChange={(e) => onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+            className="mt-1"
+          />
+          {description}
+        </div>
+      );
+    case 'boolean':
+      return (
+        <div>
+          {label}
+          <select
+            value={value === undefined ? '' : String(value)}
+            onChange={(e) => onChange(e.target.value === '' ? undefined : e.target.value === 'true')}
+            className={SELECT_CLASS_NAME}
+          >
+            <option value="">{required ? 'Select a value' : 'Not set'}</option>
+            <option value="true">true</option>
+            <option value="false">false</option>
+          </select>
+          {description}
+        </div>
+      );
+    case 'object': {
+      const record = (value as Record<string, unknown> | undefined) ?? {};
+
+      return (
+        <fieldset className="p-3 rounded-md border border-gray-200 dark:border-gray-700 space-y-3">
+          <legend className="px-1">{label}</legend>
+          {description}
+          {Object.entries(schema.properties ?? {}).map(([fieldName, fieldSchema]) => (
+            <SchemaField
+              key={fieldName}
+              name={fieldName}
+              schema={fieldSchema}
+              value={record[fieldName]}
+              required={schema.required?.includes(fieldName)}
+              onChange={(fieldValue) => onChange({ ...record, [fieldName]: fieldValue })}
+            />
+          ))}
+        </fieldset>
+      );
+    }
+    case 'array': {
+      const items = Array.isArray(value) ? value : [];
+      const itemSchema = schema.items ?? {};
+
+      return (
+        <fieldset className="p-3 rounded-md border border-gray-200 dark:border-gray-700 space-y-3">
+          <legend className="px-1">{label}</legend>
+          {description}
+          {items.map((item, index) => (
+            <div key={index} className="flex items-start gap-2">
+              <div className="flex-1">
+                <SchemaField
+                  name={`${name}[${index}]`}
+                  schema={itemSchema}
+                  value={item}
+                  onChange={(itemValue) => onChange(items.map((current, i) => (i === index ? itemValue : current)))}
+                />
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                title="Remove item"
+                onClick={() => onChange(items.filter((_, i) => i !== index))}
+              >
+                <div className="i-ph:trash w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => onChange([...items, getDefaultValue(itemSchema)])}
+          >
+            <div className="i-ph:plus w-4 h-4 mr-2" />
+            Add item
+          </Button>
+        </fieldset>
+      );
+    }
+    default:
+      return (
+        <div>
+          {label}
+          <JsonField value={value} onChange={onChange} />
+          {description}
+        </div>
+      );
+  }
+};
+
+/**
+ * Form for the arguments of a tool, rendered from its input schema
+ * The arguments can also be edited as JSON
+ */
+const ToolInputForm = ({
+  schema,
+  value,
+  onChange,
+}: {
+  schema: ToolInputSchema;
+  value: Record<string, unknown>;
+  onChange: (value: Record<string, unknown>) => void;
+}) => {
+  const [editAsJson, setEditAsJson] = useState(false);
+  const [jsonText, setJsonText] = useState('');
+  const [jsonError, setJsonError] = useState<string | null>(null);
+  const properties = Object.entries(schema.properties ?? {});
+
+  const toggleJson = () => {
+    // The editor starts from the arguments entered in the form
+    if (!editAsJson) {
+      setJsonText(JSON.stringify(value, null, 2));
+      setJsonError(null);
+    }
+
+    setEditAsJson(!editAsJson);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex justify-end">
+        <Button type="button" variant="ghost" size="sm" onClick={toggleJson}>
+          <div className={`${editAsJson ? 'i-ph:list-bullets' : 'i-ph:brackets-curly'} w-4 h-4 mr-2`} />
+          {editAsJson ? 'Edit as form' : 'Edit as JSON'}
+        </Button>
+      </div>
+      {editAsJson ? (
+        <>
+          <textarea
+            value={jsonText}
+            rows={8}
+            onChange={(e) => {
+              setJsonText(e.target.value);
+
+              try {
+                const parsed = JSON.parse(e.target.value || '{}');
+
+                if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+                  throw new Error('The arguments must be a JSON object');
+                }
+
+                setJsonError(null);
+                onChange(parsed);
+              } catch (err) {
+                setJsonError(err instanceof Error ? err.message : 'Not valid JSON');
+              }
+            }}
+            className="w-full rounded-md border border-bolt-elements-border bg-bolt-elements-background px-3 py-2 text-sm font-mono focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-bolt-elements-ring"
+          />
+          {jsonError && <p className="text-xs text-red-500">{jsonError}</p>}
+        </>
+      ) : properties.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">This tool takes no arguments.</p>
+      ) : (
+        properties.map(([name, fieldSchema]) => (
+          <SchemaField
+            key={name}
+            name={name}
+            schema={fieldSchema}
+            value={value[name]}
+            required={schema.required?.includes(name)}
+            onChange={(fieldValue) => onChange({ ...value, [name]: fieldValue })}
+          />
+        ))
+      )}
+    </div>
+  );
+};
+
+export default ToolInputForm;
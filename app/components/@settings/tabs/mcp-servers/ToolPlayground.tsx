@@ -0,0 +1,258 @@
+import { useEffect, useMemo, useState } from 'react';
+import { toast } from 'react-toastify';
+import { Button } from '~/components/ui/Button';
+import { Card } from '~/components/ui/Card';
+import { Badge } from '~/components/ui/Badge';
+import { Input } from '~/components/ui/Input';
+import { useMCPToolPlayground, type PlaygroundRun } from '~/lib/hooks/useMCPToolPlayground';
+import ToolInputForm, { findMissingFields, getDefaultValue, type ToolInputSchema } from './ToolInputForm';
+
+const SELECT_CLASS_NAME =
+  'h-10 rounded-md border border-bolt-elements-border bg-bolt-elements-background px-3 py-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-bolt-elements-ring';
+
+/**
+ * Render the content of a tool result for reading
+ */
+const PrettyResult = ({ result }: { result: any }) => {
+  const content: Array<{ type: string; text?: string; data?: string; mimeType?: string }> | undefined = result?.content;
+
+  if (!Array.isArray(content)) {
+    return (
+      <pre className="p-2 max-h-96 overflow-auto rounded-md text-xs bg-gray-50 dark:bg-gray-800 text-gray-700 dark:text-gray-300 whitespace-pre-wrap">
+        {typeof result === 'string' ? result : JSON.stringify(result, null, 2)}
+      </pre>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {content.map((part, index) => {
+        if (part.type === 'image' && part.data) {
+          return (
+            <img
+              key={index}
+              src={`data:${part.mimeType};base64,${part.data}`}
+              alt="Tool result"
+              className="max-h-96 rounded-md"
+            />
+          );
+        }
+
+        let text = part.text ?? JSON.stringify(part, null, 2);
+
+        // JSON returned as text is easier to read indented
+        try {
+          text = JSON.stringify(JSON.parse(text), null, 2);
+        } catch {
+          // Not JSON
+        }
+
+        return (
+          <pre
+            key={index}
+            className="p-2 max-h-96 overflow-auto rounded-md text-xs bg-gray-50 dark:bg-gray-800 text-gray-700 dark:text-gray-300 whitespace-pre-wrap"
+          >
+            {text}
+          </pre>
+        );
+      })}
+    </div>
+  );
+};
+
+/**
+ * Playground for running the tools of the enabled servers with arguments entered in a form
+ */
+const ToolPlayground = () => {
+  const { servers, loading, error, loadTools, runTool, getExamples, saveExample, deleteExample } =
+    useMCPToolPlayground();
+  const [serverId, setServerId] = useState('');
+  const [toolName, setToolName] = useState('');
+  const [args, setArgs] = useState<Record<string, unknown>>({});
+  const [formKey, setFormKey] = useState(0);
+  const [running, setRunning] = useState(false);
+  const [run, setRun] = useState<PlaygroundRun | null>(null);
+  const [showRaw, setShowRaw] = useState(false);
+  const [exampleName, setExampleName] = useState('');
+
+  useEffect(() => {
+    loadTools();
+  }, [loadTools]);
+
+  const server = servers.find((s) => s.id === serverId) ?? servers[0];
+  const tool = server?.tools.find((t) => t.name === toolName) ?? server?.tools[0];
+  const schema = useMemo(() => (tool?.inputSchema ?? {}) as ToolInputSchema, [tool]);
+  const examples = server && tool ? getExamples(server.id, tool.name) : [];
+
+  /**
+   * Replace the arguments, rendering the form again with them
+   * @param value New arguments
+   */
+  const resetArgs = (value: Record<string, unknown>) => {
+    setArgs(value);
+    setFormKey((key) => key + 1);
+  };
+
+  // Start every tool from the defaults of its schema
+  useEffect(() => {
+    resetArgs((getDefaultValue({ ...schema, type: 'object' }) as Record<string, unknown>) ?? {});
+    setRun(null);
+  }, [schema]);
+
+  const handleRun = async () => {
+    if (!server || !tool) {
+      return;
+    }
+
+    const missing = findMissingFields({ ...schema, type: 'object' }, args);
+
+    if (missing.length > 0) {
+      toast.error(`Fill in the required fields: ${missing.join(', ')}`);
+      return;
+    }
+
+    setRunning(true);
+
+    try {
+      setRun(await runTool(server.id, tool.name, args));
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleSaveExample = () => {
+    const name = exampleName.trim();
+
+    if (!server || !tool || !name) {
+      return;
+    }
+
+    saveExample(server.id, tool.name, name, args);
+    setExampleName('');
+    toast.success(`Saved example ${name}`);
+  };
+
+  const failed = !!run && (!!run.error || run.result?.isError === true);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-800 dark:text-gray-200">Tool Playground</h3>
+        <Button variant="outline" size="sm" onClick={loadTools} disabled={loading}>
+          <div className={`i-ph:arrows-clockwise w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      <Card className="p-4 space-y-4">
+        {error && <div className="text-sm text-red-500">{error}</div>}
+        {!error && servers.length === 0 && (
+          <div className="text-center text-sm text-gray-500 dark:text-gray-400">
+            {loading ? 'Loading tools...' : 'No enabled server offers tools.'}
+          </div>
+        )}
+        {server && tool && (
+          <>
+            <div className="flex flex-col sm:flex-row gap-2">
+              <select
+                value={server.id}
+                onChange={(e) => {
+                  setServerId(e.target.value);
+                  setToolName('');
+                }}
+                className={SELECT_CLASS_NAME}
+              >
+                {servers.map((s) => (
+                  <option key={s.id} value={s.id}>
+                    {s.name}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={tool.name}
+                onChange={(e) => setToolName(e.target.value)}
+                className={`${SELECT_CLASS_NAME} flex-1`}
+              >
+                {server.tools.map((t) => (
+                  <option key={t.name} value={t.name}>
+                    {t.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {tool.description && <p className="text-sm text-gray-600 dark:text-gray-400">{tool.description}</p>}
+
+            {examples.length > 0 && (
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="text-xs text-gray-500 dark:text-gray-400">Examples:</span>
+                {examples.map((example) => (
+                  <div
+                    key={example.id}
+                    className="flex items-center gap-1 pl-2 pr-1 py-0.5 rounded-md text-xs border border-gray-200 dark:border-gray-700"
+                  >
+                    <button type="button" className="bg-transparent" onClick={() => resetArgs(example.args)}>
+                      {example.name}
+                    </button>
+                    <button
+                      type="button"
+                      title={`Delete example ${example.name}`}
+                      className="i-ph:x w-3 h-3 bg-transparent opacity-60 hover:opacity-100"
+                      onClick={() => deleteExample(server.id, tool.name, example.id)}
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <ToolInputForm key={formKey} schema={schema} value={args} onChange={setArgs} />
+
+            <div className="flex flex-col sm:flex-row gap-2">
+              <Input
+                type="text"
+                value={exampleName}
+                onChange={(e) => setExampleName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleSaveExample()}
+                placeholder="Save these arguments as an example..."
+                className="flex-1"
+              />
+              <Button variant="outline" onClick={handleSaveExample} disabled={!exampleName.trim()}>
+                <div className="i-ph:floppy-disk w-4 h-4 mr-2" />
+                Save
+              </Button>
+              <Button onClick={handleRun} disabled={running}>
+                <div className={`${running ? 'i-ph:spinner-gap-bold animate-spin' : 'i-ph:play'} w-4 h-4 mr-2`} />
+                Run
+              </Button>
+            </div>
+
+            {run && (
+              <div className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <Badge className={failed ? 'bg-red-500/10 text-red-500' : 'bg-green-500/10 text-green-500'}>
+                    {failed ? 'error' : 'success'}
+                  </Badge>
+                  <span className="text-xs text-gray-500 dark:text-gray-400">{run.durationMs} ms</span>
+                  <div className="flex-1" />
+                  <Button variant="ghost" size="sm" onClick={() => setShowRaw(!showRaw)}>
+                    {showRaw ? 'Pretty' : 'Raw'}
+                  </Button>
+                </div>
+                {showRaw ? (
+                  <pre className="p-2 max-h-96 overflow-auto rounded-md text-xs bg-gray-50 dark:bg-gray-800 text-gray-700 dark:text-gray-300 whitespace-pre-wrap">
+                    {run.raw}
+                  </pre>
+                ) : run.error ? (
+                  <div className="text-sm text-red-500">{run.error}</div>
+                ) : (
+                  <PrettyResult result={run.result} />
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+export default ToolPlayground;
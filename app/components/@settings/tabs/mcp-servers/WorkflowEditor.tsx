@@ -0,0 +1,360 @@
+import { useState } from 'react';
+import { toast } from 'react-toastify';
+import { Button } from '~/components/ui/Button';
+import { Card } from '~/components/ui/Card';
+import { Input } from '~/components/ui/Input';
+import type {
+  MCPWorkflow,
+  MCPWorkflowErrorStrategy,
+  MCPWorkflowInput,
+  MCPWorkflowStep,
+} from '~/lib/modules/mcp/config';
+import { WORKFLOW_TOOL_PREFIX } from '~/lib/modules/mcp/workflows';
+import type { ServerStatus } from '~/lib/hooks/useMCPServers';
+
+const SELECT_CLASS_NAME =
+  'h-10 rounded-md border border-bolt-elements-border bg-bolt-elements-background px-3 py-2 text-sm focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-bolt-elements-ring';
+
+const TEXTAREA_CLASS_NAME =
+  'w-full rounded-md border border-bolt-elements-border bg-bolt-elements-background px-3 py-2 text-sm font-mono focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-bolt-elements-ring';
+
+const INPUT_TYPES: MCPWorkflowInput['type'][] = ['string', 'number', 'boolean'];
+
+/**
+ * Step being edited, with its arguments as JSON text
+ */
+type EditableStep = Omit<MCPWorkflowStep, 'args'> & { argsText: string };
+
+interface WorkflowEditorProps {
+  workflow?: MCPWorkflow;
+
+  /**
+   * Servers whose tools the steps can call
+   */
+  servers: ServerStatus[];
+  onSave: (workflow: MCPWorkflow) => Promise<void>;
+  onCancel: () => void;
+}
+
+/**
+ * Get a step ID that is not used yet, e.g. `step3`
+ * @param steps Current steps
+ */
+const getNewStepId = (steps: EditableStep[]): string => {
+  let index = steps.length + 1;
+
+  while (steps.some((step) => step.id === `step${index}`)) {
+    index++;
+  }
+
+  return `step${index}`;
+};
+
+/**
+ * Form for creating or editing a workflow
+ */
+const WorkflowEditor = ({ workflow, servers, onSave, onCancel }: WorkflowEditorProps) => {
+  const [name, setName] = useState(workflow?.name ?? '');
+  const [description, setDescription] = useState(workflow?.description ?? '');
+  const [inputs, setInputs] = useState<MCPWorkflowInput[]>(workflow?.inputs ?? []);
+  const [steps, setSteps] = useState<EditableStep[]>(
+    workflow?.steps.map(({ args, ...step }) => ({ ...step, argsText: JSON.stringify(args ?? {}, null, 2) })) ?? [],
+  );
+  const [output, setOutput] = useState(workflow?.output ?? '');
+  const [saving, setSaving] = useState(false);
+
+  const serversWithTools = servers.filter((server) => server.toolNames?.length);
+
+  const updateInput = (index: number, updates: Partial<MCPWorkflowInput>) => {
+    setInputs(inputs.map((input, i) => (i === index ? { ...input, ...updates } : input)));
+  };
+
+  const updateStep = (index: number, updates: Partial<EditableStep>) => {
+    setSteps(steps.map((step, i) => (i === index ? { ...step, ...updates } : step)));
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    const target = index + offset;
+
+    if (target < 0 || target >= steps.length) {
+      return;
+    }
+
+    const reordered = [...steps];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setSteps(reordered);
+  };
+
+  const addStep = () => {
+    const server = serversWithTools[0];
+
+    setSteps([
+      ...steps,
+      {
+        id: getNewStepId(steps),
+        serverId: server?.id ?? '',
+        toolName: server?.toolNames?.[0] ?? '',
+        argsText: '{}',
+        onError: 'stop',
+      },
+    ]);
+  };
+
+  const handleSave = async () => {
+    const parsedSteps: MCPWorkflowStep[] = [];
+
+    for (const { argsText, ...step } of steps) {
+      let args: unknown;
+
+      try {
+        args = JSON.parse(argsText || '{}');
+      } catch {
+        toast.error(`The arguments of step ${step.id} are not valid JSON`);
+        return;
+      }
+
+      if (!args || typeof args !== 'object' || Array.isArray(args)) {
+        toast.error(`The arguments of step ${step.id} must be a JSON object`);
+        return;
+      }
+
+      parsedSteps.push({
+        ...step,
+        args: args as Record<string, unknown>,
+        when: step.when?.trim() || undefined,
+        retries: step.retries || undefined,
+      });
+    }
+
+    setSaving(true);
+
+    try {
+      await onSave({
+        id: workflow?.id ?? '',
+        name: name.trim(),
+        description: description.trim(),
+        enabled: workflow?.enabled ?? true,
+        inputs: inputs.map((input) => ({ ...input, name: input.name.trim() })),
+        steps: parsedSteps,
+        output: output.trim() || undefined,
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="p-4 space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Name</label>
+          <div className="flex items-center gap-1">
+            <span className="text-sm font-mono text-gray-500 dark:text-gray-400">{WORKFLOW_TOOL_PREFIX}</span>
+            <Input value={name} onChange={(e) => setName(e.target.value)} placeholder="summarize_repo" />
+          </div>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Description</label>
+          <Input
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="Tell the model what the workflow does and when to use it"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300">Inputs</h4>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setInputs([...inputs, { name: '', type: 'string', required: true }])}
+          >
+            <div className="i-ph:plus w-4 h-4 mr-2" />
+            Add Input
+          </Button>
+        </div>
+        {inputs.length === 0 && (
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Inputs are the arguments the model passes; steps read them as {'{{input.<name>}}'}.
+          </p>
+        )}
+        {inputs.map((input, index) => (
+          <div key={index} className="flex flex-col sm:flex-row gap-2 items-start sm:items-center">
+            <Input
+              value={input.name}
+              onChange={(e) => updateInput(index, { name: e.target.value })}
+              placeholder="query"
+              className="sm:w-40"
+            />
+            <select
+              value={input.type}
+              onChange={(e) => updateInput(index, { type: e.target.value as MCPWorkflowInput['type'] })}
+              className={SELECT_CLASS_NAME}
+            >
+              {INPUT_TYPES.map((type) => (
+                <option key={type} value={type}>
+                  {type}
+                </option>
+              ))}
+            </select>
+            <Input
+              value={input.description ?? ''}
+              onChange={(e) => updateInput(index, { description: e.target.value || undefined })}
+              placeholder="Description"
+              className="flex-1"
+            />
+            <label className="flex items-center gap-1 text-sm text-gray-600 dark:text-gray-400">
+              <input
+                type="checkbox"
+                checked={!!input.required}
+                onChange={(e) => updateInput(index, { required: e.target.checked })}
+              />
+              Required
+            </label>
+            <Button variant="ghost" size="icon" onClick={() => setInputs(inputs.filter((_, i) => i !== index))}>
+              <div className="i-ph:trash w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300">Steps</h4>
+          <Button variant="outline" size="sm" onClick={addStep} disabled={serversWithTools.length === 0}>
+            <div className="i-ph:plus w-4 h-4 mr-2" />
+            Add Step
+          </Button>
+        </div>
+        {serversWithTools.length === 0 && (
+          <p className="text-xs text-gray-500 dark:text-gray-400">Connect a server with tools to add steps.</p>
+        )}
+        {steps.map((step, index) => {
+          const server = servers.find((s) => s.id === step.serverId);
+
+          return (
+            <div key={index} className="p-3 rounded-md border border-gray-200 dark:border-gray-700 space-y-2">
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Input
+                  value={step.id}
+                  onChange={(e) => updateStep(index, { id: e.target.value })}
+                  placeholder="search"
+                  className="sm:w-32 font-mono"
+                />
+                <select
+                  value={step.serverId}
+                  onChange={(e) => {
+                    const selected = servers.find((s) => s.id === e.target.value);
+                    updateStep(index, { serverId: e.target.value, toolName: selected?.toolNames?.[0] ?? '' });
+                  }}
+                  className={SELECT_CLASS_NAME}
+                >
+                  {!server && <option value={step.serverId}>{step.serverId || 'Select a server'}</option>}
+                  {serversWithTools.map((s) => (
+                    <option key={s.id} value={s.id}>
+                      {s.name}
+                    </option>
+                  ))}
+                </select>
+                <select
+                  value={step.toolName}
+                  onChange={(e) => updateStep(index, { toolName: e.target.value })}
+                  className={`${SELECT_CLASS_NAME} flex-1`}
+                >
+                  {!server?.toolNames?.includes(step.toolName) && (
+                    <option value={step.toolName}>{step.toolName || 'Select a tool'}</option>
+                  )}
+                  {server?.toolNames?.map((toolName) => (
+                    <option key={toolName} value={toolName}>
+                      {toolName}
+                    </option>
+                  ))}
+                </select>
+                <div className="flex gap-1">
+                  <Button variant="ghost" size="icon" onClick={() => moveStep(index, -1)} disabled={index === 0}>
+                    <div className="i-ph:arrow-up w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => moveStep(index, 1)}
+                    disabled={index === steps.length - 1}
+                  >
+                    <div className="i-ph:arrow-down w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" onClick={() => setSteps(steps.filter((_, i) => i !== index))}>
+                    <div className="i-ph:trash w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+              <textarea
+                value={step.argsText}
+                onChange={(e) => updateStep(index, { argsText: e.target.value })}
+                rows={3}
+                placeholder='{ "query": "{{input.query}}" }'
+                className={TEXTAREA_CLASS_NAME}
+              />
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Input
+                  value={step.when ?? ''}
+                  onChange={(e) => updateStep(index, { when: e.target.value })}
+                  placeholder="Run only when, e.g. steps.search.result.total_count > 0"
+                  className="flex-1 font-mono"
+                />
+                <select
+                  value={step.onError ?? 'stop'}
+                  onChange={(e) => updateStep(index, { onError: e.target.value as MCPWorkflowErrorStrategy })}
+                  className={SELECT_CLASS_NAME}
+                >
+                  <option value="stop">Stop on error</option>
+                  <option value="continue">Continue on error</option>
+                </select>
+                <Input
+                  type="number"
+                  min={0}
+                  max={5}
+                  value={step.retries ?? 0}
+                  onChange={(e) => updateStep(index, { retries: Number(e.target.value) })}
+                  title="Retries"
+                  className="sm:w-20"
+                />
+              </div>
+            </div>
+          );
+        })}
+        {steps.length > 0 && (
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Arguments can read the input and earlier steps, e.g. {'{{input.query}}'} or{' '}
+            {'{{steps.search.result.items[0].full_name}}'}. Failed steps that continue leave their message in{' '}
+            {'steps.<id>.error'}.
+          </p>
+        )}
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Output</label>
+        <textarea
+          value={output}
+          onChange={(e) => setOutput(e.target.value)}
+          rows={2}
+          placeholder="Returned to the model; the result of the last step when empty, e.g. {{steps.read.result}}"
+          className={TEXTAREA_CLASS_NAME}
+        />
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" onClick={onCancel} disabled={saving}>
+          Cancel
+        </Button>
+        <Button onClick={handleSave} disabled={saving || !name.trim() || steps.length === 0}>
+          <div className={`${saving ? 'i-ph:spinner-gap-bold animate-spin' : 'i-ph:floppy-disk'} w-4 h-4 mr-2`} />
+          Save Workflow
+        </Button>
+      </div>
+    </Card>
+  );
+};
+
+export default WorkflowEditor;
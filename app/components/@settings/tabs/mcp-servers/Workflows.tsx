@@ -0,0 +1,150 @@
+import { useState } from 'react';
+import { toast } from 'react-toastify';
+import { Button } from '~/components/ui/Button';
+import { Card } from '~/components/ui/Card';
+import { Badge } from '~/components/ui/Badge';
+import { Switch } from '~/components/ui/Switch';
+import Tooltip from '~/components/ui/Tooltip';
+import type { MCPWorkflow } from '~/lib/modules/mcp/config';
+import type { ServerStatus } from '~/lib/hooks/useMCPServers';
+import { getWorkflowToolName } from '~/lib/modules/mcp/workflows';
+import WorkflowEditor from './WorkflowEditor';
+
+interface WorkflowsProps {
+  workflows: MCPWorkflow[];
+  servers: ServerStatus[];
+  onSave: (workflow: MCPWorkflow) => Promise<MCPWorkflow>;
+  onRemove: (workflowId: string) => Promise<void>;
+}
+
+/**
+ * Workflows chaining tool calls across servers, each offered to the model as a single tool
+ */
+const Workflows = ({ workflows, servers, onSave, onRemove }: WorkflowsProps) => {
+  // ID of the workflow being edited; an empty string while a new one is created
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const handleSave = async (workflow: MCPWorkflow) => {
+    try {
+      const saved = await onSave(workflow);
+      toast.success(`Saved workflow ${getWorkflowToolName(saved)}`);
+      setEditingId(null);
+    } catch (error) {
+      toast.error(`Failed to save workflow: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleToggle = (workflow: MCPWorkflow, enabled: boolean) => {
+    onSave({ ...workflow, enabled }).catch((error) => {
+      toast.error(`Failed to ${enabled ? 'enable' : 'disable'} workflow: ${error.message}`);
+    });
+  };
+
+  const handleRemove = (workflow: MCPWorkflow) => {
+    if (!window.confirm(`Delete workflow ${getWorkflowToolName(workflow)}?`)) {
+      return;
+    }
+
+    onRemove(workflow.id)
+      .then(() => toast.success(`Deleted workflow ${getWorkflowToolName(workflow)}`))
+      .catch((error) => toast.error(`Failed to delete workflow: ${error.message}`));
+  };
+
+  /**
+   * Get the servers a workflow uses that are not connected, so its tool is not offered
+   * @param workflow Workflow to check
+   */
+  const getUnavailableServers = (workflow: MCPWorkflow): string[] => {
+    const serverIds = [...new Set(workflow.steps.map((step) => step.serverId))];
+
+    return serverIds.filter((serverId) => {
+      const server = servers.find((s) => s.id === serverId);
+      return !server?.enabled || !server.connected;
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-800 dark:text-gray-200">Workflows</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Chain tool calls across servers and offer them to the model as a single tool
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => setEditingId('')} disabled={editingId !== null}>
+          <div className="i-ph:plus w-4 h-4 mr-2" />
+          Add Workflow
+        </Button>
+      </div>
+
+      {editingId === '' && <WorkflowEditor servers={servers} onSave={handleSave} onCancel={() => setEditingId(null)} />}
+
+      {workflows.length === 0 && editingId === null && (
+        <Card className="p-4 text-center text-sm text-gray-500 dark:text-gray-400">
+          No workflows yet. Add one to run a fixed chain of tools, e.g. search repositories, then read a file.
+        </Card>
+      )}
+
+      {workflows.map((workflow) =>
+        editingId === workflow.id ? (
+          <WorkflowEditor
+            key={workflow.id}
+            workflow={workflow}
+            servers={servers}
+            onSave={handleSave}
+            onCancel={() => setEditingId(null)}
+          />
+        ) : (
+          <Card key={workflow.id} className={`p-4 ${!workflow.enabled ? 'opacity-75' : ''}`}>
+            <div className="flex justify-between items-start gap-4">
+              <div className="space-y-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <Switch checked={workflow.enabled} onCheckedChange={(checked) => handleToggle(workflow, checked)} />
+                  <div className="i-ph:flow-arrow w-5 h-5 text-purple-500" />
+                  <h4 className="font-mono text-sm text-gray-900 dark:text-white truncate">
+                    {getWorkflowToolName(workflow)}
+                  </h4>
+                  <Badge variant="outline" className="text-xs">
+                    {workflow.steps.length} {workflow.steps.length === 1 ? 'step' : 'steps'}
+                  </Badge>
+                  {getUnavailableServers(workflow).length > 0 && (
+                    <Badge
+                      variant="outline"
+                      className="text-xs bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300"
+                    >
+                      Not offered: {getUnavailableServers(workflow).join(', ')} disconnected
+                    </Badge>
+                  )}
+                </div>
+                <p className="text-sm text-gray-600 dark:text-gray-400">{workflow.description}</p>
+                <p className="text-xs font-mono text-gray-500 dark:text-gray-400 truncate">
+                  {workflow.steps.map((step) => `${step.serverId}.${step.toolName}`).join(' → ')}
+                </p>
+              </div>
+              <div className="flex gap-1 shrink-0">
+                <Tooltip tooltip="Edit workflow">
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => setEditingId(workflow.id)}
+                    disabled={editingId !== null}
+                  >
+                    <div className="i-ph:pencil-simple w-4 h-4" />
+                  </Button>
+                </Tooltip>
+                <Tooltip tooltip="Delete workflow">
+                  <Button variant="outline" size="icon" onClick={() => handleRemove(workflow)}>
+                    <div className="i-ph:trash w-4 h-4" />
+                  </Button>
+                </Tooltip>
+              </div>
+            </div>
+          </Card>
+        ),
+      )}
+    </div>
+  );
+};
+
+export default Workflows;
@@ -0,0 +1,195 @@
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import { toast } from 'react-toastify';
+import { useStore } from '@nanostores/react';
+import { classNames } from '~/utils/classNames';
+import { lockVault, resetVault, setVaultPassphrase, unlockVault, vaultMode, vaultStatus } from '~/lib/stores/vault';
+
+const inputClassName = classNames(
+  'w-full px-3 py-2 rounded-lg text-sm',
+  'bg-[#FAFAFA] dark:bg-[#0A0A0A]',
+  'border border-[#E5E5E5] dark:border-[#1A1A1A]',
+  'text-bolt-elements-textPrimary',
+  'focus:outline-none focus:ring-2 focus:ring-purple-500/30',
+  'transition-all duration-200',
+);
+
+const buttonClassName = classNames(
+  'px-3 py-2 rounded-lg text-sm',
+  'bg-purple-500 text-white hover:bg-purple-600',
+  'disabled:opacity-50 disabled:cursor-not-allowed',
+  'transition-colors duration-200',
+);
+
+const secondaryButtonClassName = classNames(
+  'px-3 py-2 rounded-lg text-sm',
+  'bg-[#F5F5F5] dark:bg-[#1A1A1A] text-bolt-elements-textPrimary',
+  'hover:bg-[#E5E5E5] dark:hover:bg-[#252525]',
+  'disabled:opacity-50 disabled:cursor-not-allowed',
+  'transition-colors duration-200',
+);
+
+export default function CredentialVault() {
+  const status = useStore(vaultStatus);
+  const mode = useStore(vaultMode);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const run = async (action: () => Promise<void>) => {
+    setBusy(true);
+
+    try {
+      await action();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Unknown error');
+    } finally {
+      setBusy(false);
+      setPassphrase('');
+      setConfirmation('');
+    }
+  };
+
+  const handleUnlock = (event: React.FormEvent) => {
+    event.preventDefault();
+    run(async () => {
+      if (await unlockVault(passphrase)) {
+        toast.success('Credential vault unlocked');
+      } else {
+        toast.error('Wrong passphrase');
+      }
+    });
+  };
+
+  const handleSetPassphrase = (event: React.FormEvent) => {
+    event.preventDefault();
+
+    if (passphrase !== confirmation) {
+      toast.error('Passphrases do not match');
+      return;
+    }
+
+    run(async () => {
+      await setVaultPassphrase(passphrase);
+      toast.success(mode === 'passphrase' ? 'Passphrase changed' : 'Credentials are now protected by your passphrase');
+    });
+  };
+
+  const handleRemovePassphrase = () => {
+    run(async () => {
+      await setVaultPassphrase(null);
+      toast.success('Credentials are now protected by this browser only');
+    });
+  };
+
+  const handleReset = () => {
+    if (!window.confirm('Delete all stored API keys, tokens and MCP server credentials?')) {
+      return;
+    }
+
+    run(async () => {
+      await resetVault();
+      toast.success('Credential vault reset');
+    });
+  };
+
+  return (
+    <motion.div
+      className="bg-white dark:bg-[#0A0A0A] rounded-lg shadow-sm dark:shadow-none p-4"
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.25 }}
+    >
+      <div className="flex items-center gap-2 mb-4">
+        <div className="i-ph:vault-fill w-4 h-4 text-purple-500" />
+        <span className="text-sm font-medium text-bolt-elements-textPrimary">Credential Vault</span>
+        <span
+          className={classNames(
+            'ml-auto px-2 py-0.5 rounded-full text-xs',
+            status === 'unlocked' ? 'bg-green-500/10 text-green-500' : 'bg-amber-500/10 text-amber-500',
+          )}
+        >
+          {status}
+        </span>
+      </div>
+
+      <p className="text-xs text-bolt-elements-textSecondary mb-4">
+        API keys, deploy tokens and MCP server credentials are stored encrypted.{' '}
+        {mode === 'passphrase'
+          ? 'They are protected by your passphrase, which has to be entered once per visit.'
+          : 'They are protected by a key generated for this browser. Set a passphrase to protect them on shared machines.'}
+      </p>
+
+      {status === 'unavailable' && (
+        <p className="text-sm text-red-500">
+          The credential vault is unavailable in this browser, so credentials cannot be saved.
+        </p>
+      )}
+
+      {status === 'locked' && (
+        <form className="flex gap-2" onSubmit={handleUnlock}>
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder="Passphrase"
+            className={inputClassName}
+          />
+          <button type="submit" className={buttonClassName} disabled={busy || !passphrase}>
+            Unlock
+          </button>
+        </form>
+      )}
+
+      {status === 'unlocked' && (
+        <form className="space-y-2" onSubmit={handleSetPassphrase}>
+          <input
+            type="password"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            placeholder={mode === 'passphrase' ? 'New passphrase' : 'Passphrase'}
+            className={inputClassName}
+          />
+          <input
+            type="password"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+            placeholder="Confirm passphrase"
+            className={inputClassName}
+          />
+          <div className="flex flex-wrap gap-2">
+            <button type="submit" className={buttonClassName} disabled={busy || !passphrase}>
+              {mode === 'passphrase' ? 'Change Passphrase' : 'Set Passphrase'}
+            </button>
+            {mode === 'passphrase' && (
+              <>
+                <button type="button" className={secondaryButtonClassName} disabled={busy} onClick={lockVault}>
+                  Lock Now
+                </button>
+                <button
+                  type="button"
+                  className={secondaryButtonClassName}
+                  disabled={busy}
+                  onClick={handleRemovePassphrase}
+                >
+                  Remove Passphrase
+                </button>
+              </>
+            )}
+          </div>
+        </form>
+      )}
+
+      {(status === 'locked' || mode === 'passphrase') && (
+        <button
+          type="button"
+          className="mt-3 text-xs text-bolt-elements-textSecondary hover:text-red-500 bg-transparent"
+          disabled={busy}
+          onClick={handleReset}
+        >
+          Forgot your passphrase? Reset the vault
+        </button>
+      )}
+    </motion.div>
+  );
+}
@@ -1,7 +1,7 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { IconButton } from '~/components/ui/IconButton';
 import type { ProviderInfo } from '~/types/model';
-import Cookies from 'js-cookie';
+import { apiKeysStore, getApiKeysHeaders, updateApiKeys } from '~/lib/stores/apiKeys';
 
 interface APIKeyManagerProps {
   provider: ProviderInfo;
@@ -14,23 +14,6 @@ interface APIKeyManagerProps {
 // cache which stores whether the provider's API key is set via environment variable
 const providerEnvKeyStatusCache: Record<string, boolean> = {};
 
-const apiKeyMemoizeCache: { [k: string]: Record<string, string> } = {};
-
-export function getApiKeysFromCookies() {
-  const storedApiKeys = Cookies.get('apiKeys');
-  let parsedKeys: Record<string, string> = {};
-
-  if (storedApiKeys) {
-    parsedKeys = apiKeyMemoizeCache[storedApiKeys];
-
-    if (!parsedKeys) {
-      parsedKeys = apiKeyMemoizeCache[storedApiKeys] = JSON.parse(storedApiKeys);
-    }
-  }
-
-  return parsedKeys;
-}
-
 // eslint-disable-next-line @typescript-eslint/naming-convention
 export const APIKeyManager: React.FC<APIKeyManagerProps> = ({ provider, apiKey, setApiKey }) => {
   const [isEditing, setIsEditing] = useState(false);
@@ -39,8 +22,8 @@ export const APIKeyManager: React.FC<APIKeyManagerProps> = ({ provider, apiKey,
 
   // Reset states and load saved key when provider changes
   useEffect(() => {
-    // Load saved API key from cookies for this provider
-    const savedKeys = getApiKeysFromCookies();
+    // Load saved API key from the credential vault for this provider
+    const savedKeys = apiKeysStore.get();
     const savedKey = savedKeys[provider.name] || '';
 
     setTempKey(savedKey);
@@ -56,7 +39,9 @@ export const APIKeyManager: React.FC<APIKeyManagerProps> = ({ provider, apiKey,
     }
 
     try {
-      const response = await fetch(`/api/check-env-key?provider=${encodeURIComponent(provider.name)}`);
+      const response = await fetch(`/api/check-env-key?provider=${encodeURIComponent(provider.name)}`, {
+        headers: getApiKeysHeaders(),
+      });
       const data = await response.json();
       const isSet = (data as { isSet: boolean }).isSet;
 
@@ -77,10 +62,10 @@ export const APIKeyManager: React.FC<APIKeyManagerProps> = ({ provider, apiKey,
     // Save to parent state
     setApiKey(tempKey);
 
-    // Save to cookies
-    const currentKeys = getApiKeysFromCookies();
+    // Save to the credential vault
+    const currentKeys = apiKeysStore.get();
     const newKeys = { ...currentKeys, [provider.name]: tempKey };
-    Cookies.set('apiKeys', JSON.stringify(newKeys));
+    updateApiKeys(newKeys);
 
     setIsEditing(false);
   };
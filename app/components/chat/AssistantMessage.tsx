@@ -1,13 +1,17 @@
 import { memo } from 'react';
 import { Markdown } from './Markdown';
-import type { JSONValue } from 'ai';
+import type { JSONValue, ToolInvocation } from 'ai';
 import Popover from '~/components/ui/Popover';
+import ToolInvocations from './ToolInvocations';
 import { workbenchStore } from '~/lib/stores/workbench';
 import { WORK_DIR } from '~/utils/constants';
 
 interface AssistantMessageProps {
   content: string;
   annotations?: JSONValue[];
+
+  // Tools the model called natively while answering
+  toolInvocations?: ToolInvocation[];
 }
 
 function openArtifactInWorkbench(filePath: string) {
@@ -34,7 +38,7 @@ function normalizedFilePath(path: string) {
   return normalizedPath;
 }
 
-export const AssistantMessage = memo(({ content, annotations }: AssistantMessageProps) => {
+export const AssistantMessage = memo(({ content, annotations, toolInvocations }: AssistantMessageProps) => {
   const filteredAnnotations = (annotations?.filter(
     (annotation: JSONValue) => annotation && typeof annotation === 'object' && Object.keys(annotation).includes('type'),
   ) || []) as { type: string; value: any } & { [key: string]: any }[];
@@ -57,6 +61,11 @@ export const AssistantMessage = memo(({ content, annotations }: AssistantMessage
     totalTokens: number;
   } = filteredAnnotations.find((annotation) => annotation.type === 'usage')?.value;
 
+  // Tokens used by MCP servers that asked the chat's model for completions
+  const samplingTokens = filteredAnnotations
+    .filter((annotation) => annotation.type === 'samplingUsage')
+    .reduce((total, annotation) => total + (annotation.usage?.totalTokens ?? 0), 0);
+
   return (
     <div className="overflow-hidden w-full">
       <>
@@ -105,8 +114,10 @@ export const AssistantMessage = memo(({ content, annotations }: AssistantMessage
               Tokens: {usage.totalTokens} (prompt: {usage.promptTokens}, completion: {usage.completionTokens})
             </div>
           )}
+          {samplingTokens > 0 && <div>MCP sampling tokens: {samplingTokens}</div>}
         </div>
       </>
+      <ToolInvocations invocations={toolInvocations} />
       <Markdown html>{content}</Markdown>
     </div>
   );
@@ -3,7 +3,7 @@
  * Preventing TS checks with files presented in the video for a better presentation.
  */
 import type { JSONValue, Message } from 'ai';
-import React, { type RefCallback, useEffect, useState } from 'react';
+import React, { type RefCallback, useEffect, useRef, useState } from 'react';
 import { ClientOnly } from 'remix-utils/client-only';
 import { Menu } from '~/components/sidebar/Menu.client';
 import { IconButton } from '~/components/ui/IconButton';
@@ -12,8 +12,7 @@ import { classNames } from '~/utils/classNames';
 import { PROVIDER_LIST } from '~/utils/constants';
 import { Messages } from './Messages.client';
 import { SendButton } from './SendButton.client';
-import { APIKeyManager, getApiKeysFromCookies } from './APIKeyManager';
-import Cookies from 'js-cookie';
+import { APIKeyManager } from './APIKeyManager';
 import * as Tooltip from '@radix-ui/react-tooltip';
 
 import styles from './BaseChat.module.scss';
@@ -23,6 +22,12 @@ import { ExamplePrompts } from '~/components/chat/ExamplePrompts';
 import GitCloneButton from './GitCloneButton';
 
 import FilePreview from './FilePreview';
+import { McpResourcePicker, McpResourcePreview } from './MCPResourcePicker';
+import type { MCPResourceAttachment } from '~/lib/hooks/useMCPResources';
+import { McpPromptMenu, type McpPromptMenuHandle } from './MCPPromptMenu';
+import { McpToolApprovalDialog } from './MCPToolApprovalDialog';
+import { McpSamplingApprovalDialog } from './MCPSamplingApprovalDialog';
+import type { MCPPromptMessage } from '~/lib/modules/mcp/config';
 import { ModelSelector } from '~/components/chat/ModelSelector';
 import { SpeechRecognitionButton } from '~/components/chat/SpeechRecognition';
 import type { ProviderInfo } from '~/types/model';
@@ -36,6 +41,8 @@ import ProgressCompilation from './ProgressCompilation';
 import type { ProgressAnnotation } from '~/types/context';
 import type { ActionRunner } from '~/lib/runtime/action-runner';
 import { LOCAL_PROVIDERS } from '~/lib/stores/settings';
+import { apiKeysStore, getApiKeysHeaders, updateApiKeys } from '~/lib/stores/apiKeys';
+import { useStore } from '@nanostores/react';
 
 const TEXTAREA_MIN_HEIGHT = 76;
 
@@ -67,6 +74,9 @@ interface BaseChatProps {
   setUploadedFiles?: (files: File[]) => void;
   imageDataList?: string[];
   setImageDataList?: (dataList: string[]) => void;
+  attachedResources?: MCPResourceAttachment[];
+  setAttachedResources?: (resources: MCPResourceAttachment[]) => void;
+  insertPromptMessages?: (messages: MCPPromptMessage[]) => void;
   actionAlert?: ActionAlert;
   clearAlert?: () => void;
   data?: JSONValue[] | undefined;
@@ -102,6 +112,9 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
       setUploadedFiles,
       imageDataList = [],
       setImageDataList,
+      attachedResources = [],
+      setAttachedResources,
+      insertPromptMessages,
       messages,
       actionAlert,
       clearAlert,
@@ -111,7 +124,8 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
     ref,
   ) => {
     const TEXTAREA_MAX_HEIGHT = chatStarted ? 400 : 200;
-    const [apiKeys, setApiKeys] = useState<Record<string, string>>(getApiKeysFromCookies());
+    const storedApiKeys = useStore(apiKeysStore);
+    const [apiKeys, setApiKeys] = useState<Record<string, string>>(storedApiKeys);
     const [modelList, setModelList] = useState<ModelInfo[]>([]);
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
     const [isModelSettingsCollapsed, setIsModelSettingsCollapsed] = useState(false);
@@ -120,12 +134,17 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
     const [transcript, setTranscript] = useState('');
     const [isModelLoading, setIsModelLoading] = useState<string | undefined>('all');
     const [progressAnnotations, setProgressAnnotations] = useState<ProgressAnnotation[]>([]);
+    const [toolProgressAnnotations, setToolProgressAnnotations] = useState<ProgressAnnotation[]>([]);
+    const promptMenuRef = useRef<McpPromptMenuHandle>(null);
     useEffect(() => {
       if (data) {
         const progressList = data.filter(
           (x) => typeof x === 'object' && (x as any).type === 'progress',
         ) as ProgressAnnotation[];
-        setProgressAnnotations(progressList);
+
+        // Tool call progress is shown in the message that made the call
+        setProgressAnnotations(progressList.filter((x) => !x.toolCallId));
+        setToolProgressAnnotations(progressList.filter((x) => x.toolCallId));
       }
     }, [data]);
     useEffect(() => {
@@ -168,20 +187,16 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
       }
     }, []);
 
+    // Keys restored from the credential vault after the first render
     useEffect(() => {
-      if (typeof window !== 'undefined') {
-        let parsedApiKeys: Record<string, string> | undefined = {};
-
-        try {
-          parsedApiKeys = getApiKeysFromCookies();
-          setApiKeys(parsedApiKeys);
-        } catch (error) {
-          console.error('Error loading API keys from cookies:', error);
-          Cookies.remove('apiKeys');
-        }
+      setApiKeys(storedApiKeys);
+    }, [storedApiKeys]);
 
+    // Models are loaded again once the keys are restored, as providers may only list their models with a key
+    useEffect(() => {
+      if (typeof window !== 'undefined') {
         setIsModelLoading('all');
-        fetch('/api/models')
+        fetch('/api/models', { headers: getApiKeysHeaders(storedApiKeys) })
           .then((response) => response.json())
           .then((data) => {
             const typedData = data as { modelList: ModelInfo[] };
@@ -194,19 +209,21 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
             setIsModelLoading(undefined);
           });
       }
-    }, [providerList, provider]);
+    }, [providerList, provider, storedApiKeys]);
 
     const onApiKeysChange = async (providerName: string, apiKey: string) => {
       const newApiKeys = { ...apiKeys, [providerName]: apiKey };
       setApiKeys(newApiKeys);
-      Cookies.set('apiKeys', JSON.stringify(newApiKeys));
+      updateApiKeys(newApiKeys);
 
       setIsModelLoading(providerName);
 
       let providerModels: ModelInfo[] = [];
 
       try {
-        const response = await fetch(`/api/models/${encodeURIComponent(providerName)}`);
+        const response = await fetch(`/api/models/${encodeURIComponent(providerName)}`, {
+          headers: getApiKeysHeaders(newApiKeys),
+        });
         const data = await response.json();
         providerModels = (data as { modelList: ModelInfo[] }).modelList;
       } catch (error) {
@@ -340,6 +357,7 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
                       className="flex flex-col w-full flex-1 max-w-chat pb-6 mx-auto z-1"
                       messages={messages}
                       isStreaming={isStreaming}
+                      toolProgress={toolProgressAnnotations}
                     />
                   ) : null;
                 }}
@@ -362,6 +380,8 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
                   )}
                 </div>
                 {progressAnnotations && <ProgressCompilation data={progressAnnotations} />}
+                <McpToolApprovalDialog data={data} />
+                <McpSamplingApprovalDialog data={data} />
                 <div
                   className={classNames(
                     'bg-bolt-elements-background-depth-2 p-3 rounded-lg border border-bolt-elements-borderColor relative w-full max-w-chat mx-auto z-prompt',
@@ -437,6 +457,12 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
                       setImageDataList?.(imageDataList.filter((_, i) => i !== index));
                     }}
                   />
+                  <McpResourcePreview
+                    resources={attachedResources}
+                    onRemove={(index) => {
+                      setAttachedResources?.(attachedResources.filter((_, i) => i !== index));
+                    }}
+                  />
                   <ClientOnly>
                     {() => (
                       <ScreenshotStateManager
@@ -452,6 +478,14 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
                       'relative shadow-xs border border-bolt-elements-borderColor backdrop-blur rounded-lg',
                     )}
                   >
+                    {insertPromptMessages && (
+                      <McpPromptMenu
+                        ref={promptMenuRef}
+                        input={input}
+                        disabled={isStreaming}
+                        onInsertMessages={insertPromptMessages}
+                      />
+                    )}
                     <textarea
                       ref={textareaRef}
                       className={classNames(
@@ -490,6 +524,10 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
                         });
                       }}
                       onKeyDown={(event) => {
+                        if (promptMenuRef.current?.handleKeyDown(event)) {
+                          return;
+                        }
+
                         if (event.key === 'Enter') {
                           if (event.shiftKey) {
                             return;
@@ -546,6 +584,13 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
                         <IconButton title="Upload file" className="transition-all" onClick={() => handleFileUpload()}>
                           <div className="i-ph:paperclip text-xl"></div>
                         </IconButton>
+                        {setAttachedResources && (
+                          <McpResourcePicker
+                            attachedResources={attachedResources}
+                            setAttachedResources={setAttachedResources}
+                            disabled={isStreaming}
+                          />
+                        )}
                         <IconButton
                           title="Enhance prompt"
                           disabled={input.length === 0 || enhancingPrompt}
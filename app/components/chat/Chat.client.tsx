@@ -8,26 +8,52 @@ import { useChat } from 'ai/react';
 import { useAnimate } from 'framer-motion';
 import { memo, useCallback, useEffect, useRef, useState } from 'react';
 import { cssTransition, toast, ToastContainer } from 'react-toastify';
-import { useMessageParser, usePromptEnhancer, useShortcuts, useSnapScroll } from '~/lib/hooks';
-import { description, useChatHistory } from '~/lib/persistence';
+import {
+  useMessageParser,
+  useMCPToolCallRecorder,
+  usePromptEnhancer,
+  storeToolCallRecord,
+  useShortcuts,
+  useSnapScroll,
+  type MCPResourceAttachment,
+} from '~/lib/hooks';
+import { chatId, chatMetadata, description, useChatHistory } from '~/lib/persistence';
 import { chatStore } from '~/lib/stores/chat';
 import { workbenchStore } from '~/lib/stores/workbench';
-import { DEFAULT_MODEL, DEFAULT_PROVIDER, PROMPT_COOKIE_KEY, PROVIDER_LIST } from '~/utils/constants';
+import {
+  DEFAULT_MODEL,
+  DEFAULT_PROVIDER,
+  MAX_TOOL_STEPS,
+  PROMPT_COOKIE_KEY,
+  PROVIDER_LIST,
+  PROVIDER_REGEX,
+} from '~/utils/constants';
 import { cubicEasingFn } from '~/utils/easings';
 import { createScopedLogger, renderLogger } from '~/utils/logger';
 import { BaseChat } from './BaseChat';
 import Cookies from 'js-cookie';
 import { debounce } from '~/utils/debounce';
 import { useSettings } from '~/lib/hooks/useSettings';
+import { useMCPRoots } from '~/lib/hooks/useMCPRoots';
+import { useBoltSession } from '~/lib/hooks/useBoltSession';
 import type { ProviderInfo } from '~/types/model';
 import { useSearchParams } from '@remix-run/react';
 import { createSampler } from '~/utils/sampler';
 import { getTemplates, selectStarterTemplate } from '~/utils/selectStarterTemplate';
 import { logStore } from '~/lib/stores/logs';
 import { streamingState } from '~/lib/stores/streaming';
+import { apiKeysStore } from '~/lib/stores/apiKeys';
 import { filesToArtifacts } from '~/utils/fileUtils';
-import { MCPManager } from '~/lib/modules/mcp/manager';
 import { getGitHubMCPClient } from '~/lib/modules/mcp/github';
+import { createResourceTag } from '~/lib/modules/mcp/resources';
+import {
+  executeWorkbenchToolCall,
+  getWorkbenchServerSettings,
+  WORKBENCH_SERVER_ID,
+  WORKBENCH_SERVER_NAME,
+} from '~/lib/modules/mcp/workbench-server';
+import type { MCPPromptMessage, MCPToolCallRecord } from '~/lib/modules/mcp/config';
+import { requestLocalToolApproval, withServerToolApprovals } from '~/lib/stores/mcpToolApprovals';
 
 const toastAnimation = cssTransition({
   enter: 'animated fadeInRight',
@@ -113,8 +139,49 @@ interface ChatProps {
   description?: string;
 }
 
+/**
+ * Response of the tools API
+ */
+interface MCPToolRunResponse {
+  result?: unknown;
+
+  // Record of the call, also sent when it failed or was denied
+  record?: MCPToolCallRecord;
+  error?: string;
+}
+
+/**
+ * Run a tool through the tools API, so the server applies the tool's policy
+ * Tools that need approval wait on the server until the user answers the approval dialog
+ * @param toolName Name of the tool
+ * @param args Tool arguments
+ * @param messageId ID of the assistant message that made the call
+ */
+const runMCPToolOnServer = async (toolName: string, args: unknown, messageId: string): Promise<any> => {
+  const { response, data } = await withServerToolApprovals(async (scope) => {
+    const response = await fetch(`/api/mcp/tools/${encodeURIComponent(toolName)}?scope=${scope}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(args),
+    });
+
+    return { response, data: (await response.json()) as MCPToolRunResponse };
+  });
+
+  // The call was made outside of the chat response, which only reports the calls it makes itself
+  if (data.record) {
+    await storeToolCallRecord({ ...data.record, chatId: chatId.get(), messageId });
+  }
+
+  if (!response.ok) {
+    throw new Error(data.error || `Tool call failed with status ${response.status}`);
+  }
+
+  return data.result;
+};
+
 // Add a function to parse and execute MCP tool calls
-const executeMCPToolCall = async (toolCall: string): Promise<string> => {
+const executeMCPToolCall = async (toolCall: string, messageId: string): Promise<string> => {
   try {
     // Extract tool name and input from the tool call
     const nameMatch = toolCall.match(/name="([^"]+)"/);
@@ -131,21 +198,15 @@ const executeMCPToolCall = async (toolCall: string): Promise<string> => {
 
     // Handle GitHub API tool calls
     if (toolName === 'github_api') {
-      const githubClient = getGitHubMCPClient();
-
-      if (!githubClient.isAuthenticated()) {
-        return 'Error: GitHub client is not authenticated. Please add a valid GitHub token in the MCP Servers tab.';
-      }
-
       // Execute different GitHub API methods based on the input
       switch (toolInput) {
         case 'getUser': {
-          const user = await githubClient.getUser();
+          const user = await runMCPToolOnServer(toolName, 'getUser', messageId);
           return `GitHub User: ${JSON.stringify(user, null, 2)}`;
         }
 
         case 'listRepositories': {
-          const repos = await githubClient.listRepositories();
+          const repos = await runMCPToolOnServer(toolName, 'listRepositories', messageId);
 
           // Format repositories for better readability
           if (repos && Array.isArray(repos)) {
@@ -200,7 +261,14 @@ GitHub API Methods:
             const query = toolInput.match(/searchRepositories\(["']([^"']*)["']\)/)?.[1];
 
             if (query) {
-              const results = await githubClient.searchRepositories(query);
+              const results = await runMCPToolOnServer(
+                toolName,
+                {
+                  method: 'searchRepositories',
+                  args: { query },
+                },
+                messageId,
+              );
 
               // Format search results for better readability
               if (results && results.items && Array.isArray(results.items)) {
@@ -230,7 +298,14 @@ GitHub API Methods:
               const owner = params[1];
               const repo = params[2];
               const path = params[3] || '';
-              const contents = await githubClient.getRepositoryContents(owner, repo, path);
+              const contents = await runMCPToolOnServer(
+                toolName,
+                {
+                  method: 'getRepositoryContents',
+                  args: { owner, repo, path },
+                },
+                messageId,
+              );
 
               return `GitHub Repository Contents for ${owner}/${repo}/${path}: ${JSON.stringify(contents, null, 2)}`;
             }
@@ -241,16 +316,8 @@ GitHub API Methods:
     }
 
     // Handle other MCP tools
-    const mcpManager = MCPManager.getInstance();
-    const tools = await mcpManager.initializeTools();
-
-    if (!tools || !tools[toolName]) {
-      return `Error: Tool "${toolName}" not found`;
-    }
-
-    // Execute the tool
     try {
-      const result = await mcpManager.executeTool(toolName, JSON.parse(toolInput));
+      const result = await runMCPToolOnServer(toolName, JSON.parse(toolInput), messageId);
       return `Tool Result: ${JSON.stringify(result, null, 2)}`;
     } catch (error) {
       return `Error executing tool: ${error instanceof Error ? error.message : 'Unknown error'}`;
@@ -261,8 +328,28 @@ GitHub API Methods:
   }
 };
 
+/*
+ * Tool calls found in messages, by message ID and call
+ * Messages are parsed again on every update, and each call must only run (and ask for approval) once.
+ * Running calls are kept until they resolve; results are kept while their message is in the chat.
+ */
+const runningToolCalls = new Map<string, Promise<string>>();
+const toolCallResults = new Map<string, string>();
+
+/**
+ * Forget the results of messages that are no longer in the chat
+ * @param messageIds IDs of the messages in the chat
+ */
+const pruneToolCallResults = (messageIds: string[]) => {
+  for (const key of toolCallResults.keys()) {
+    if (!messageIds.includes(key.slice(0, key.indexOf(':')))) {
+      toolCallResults.delete(key);
+    }
+  }
+};
+
 // Add a function to process messages for tool calls
-const processToolCalls = async (message: string): Promise<string> => {
+const processToolCalls = async (messageId: string, message: string): Promise<string> => {
   // Check if the message contains tool calls
   if (!message.includes('<tool')) {
     return message;
@@ -276,7 +363,24 @@ const processToolCalls = async (message: string): Promise<string> => {
 
   // Process each tool call
   for (const toolCall of toolCalls) {
-    const toolResult = await executeMCPToolCall(toolCall);
+    const key = `${messageId}:${toolCall}`;
+    let toolResult = toolCallResults.get(key);
+
+    if (toolResult === undefined) {
+      if (!runningToolCalls.has(key)) {
+        runningToolCalls.set(
+          key,
+          executeMCPToolCall(toolCall, messageId).then((result) => {
+            toolCallResults.set(key, result);
+            runningToolCalls.delete(key);
+
+            return result;
+          }),
+        );
+      }
+
+      toolResult = await runningToolCalls.get(key)!;
+    }
 
     // Replace the tool call with the result
     processedMessage = processedMessage.replace(
@@ -297,11 +401,13 @@ const processToolCalls = async (message: string): Promise<string> => {
 export const ChatImpl = memo(
   ({ description, initialMessages, storeMessageHistory, importChat, exportChat }: ChatProps) => {
     useShortcuts();
+    useMCPRoots();
 
     const textareaRef = useRef<HTMLTextAreaElement>(null);
     const [chatStarted, setChatStarted] = useState(initialMessages.length > 0);
     const [uploadedFiles, setUploadedFiles] = useState<File[]>([]);
     const [imageDataList, setImageDataList] = useState<string[]>([]);
+    const [attachedResources, setAttachedResources] = useState<MCPResourceAttachment[]>([]);
     const [searchParams, setSearchParams] = useSearchParams();
     const [fakeLoading, setFakeLoading] = useState(false);
     const files = useStore(workbenchStore.files);
@@ -321,7 +427,9 @@ export const ChatImpl = memo(
 
     const [animationScope, animate] = useAnimate();
 
-    const [apiKeys, setApiKeys] = useState<Record<string, string>>({});
+    const apiKeys = useStore(apiKeysStore);
+    const metadata = useStore(chatMetadata);
+    const currentChatId = useStore(chatId);
 
     const {
       messages,
@@ -343,8 +451,23 @@ export const ChatImpl = memo(
         files,
         promptId,
         contextOptimization: contextOptimizationEnabled,
+        mcpToolSelection: metadata?.mcpToolSelection,
+        workbenchServer: getWorkbenchServerSettings(),
+        chatId: currentChatId,
       },
       sendExtraMessageFields: true,
+
+      // Workbench tool calls are answered here and sent back to the model until it stops calling tools
+      maxSteps: MAX_TOOL_STEPS,
+      onToolCall: ({ toolCall }) =>
+        executeWorkbenchToolCall(toolCall, (toolName, args) =>
+          requestLocalToolApproval({
+            serverId: WORKBENCH_SERVER_ID,
+            serverName: WORKBENCH_SERVER_NAME,
+            toolName,
+            args,
+          }),
+        ),
       onError: (e) => {
         logger.error('Request failed\n\n', e, error);
         logStore.logError('Chat request failed', e, {
@@ -378,9 +501,41 @@ export const ChatImpl = memo(
       initialInput: Cookies.get(PROMPT_COOKIE_KEY) || '',
     });
 
+    /**
+     * Embed the attached MCP resources in the text of a user message
+     * The tags follow the model and provider prefix so the server can read the resources for every turn
+     */
+    const attachResourceTags = useCallback(
+      (text: string) => {
+        if (attachedResources.length === 0) {
+          return text;
+        }
+
+        const tags = attachedResources.map(createResourceTag).join('');
+
+        return PROVIDER_REGEX.test(text)
+          ? text.replace(PROVIDER_REGEX, (match) => `${match}${tags}`)
+          : `${tags}${text}`;
+      },
+      [attachedResources],
+    );
+
     // Create a wrapped append function that ensures no empty parts are sent
     const append = useCallback(
       (message: any, options?: any) => {
+        // Attach the selected MCP resources to the user message
+        if (message?.role === 'user' && attachedResources.length > 0) {
+          if (Array.isArray(message.content)) {
+            const textPart = message.content.find((part: any) => part.type === 'text');
+
+            if (textPart) {
+              textPart.text = attachResourceTags(textPart.text || '');
+            }
+          } else if (typeof message.content === 'string') {
+            message.content = attachResourceTags(message.content);
+          }
+        }
+
         // If content is an array, ensure no empty parts
         if (message && Array.isArray(message.content)) {
           // Filter out empty text parts and ensure at least one valid part
@@ -406,7 +561,7 @@ export const ChatImpl = memo(
 
         return originalAppend(message, options);
       },
-      [originalAppend],
+      [originalAppend, attachedResources, attachResourceTags],
     );
 
     useEffect(() => {
@@ -429,6 +584,8 @@ export const ChatImpl = memo(
       }
     }, [model, provider, searchParams]);
 
+    useMCPToolCallRecorder(chatData);
+
     const { enhancingPrompt, promptEnhanced, enhancePrompt, resetEnhancer } = usePromptEnhancer();
     const { parsedMessages, parseMessages: originalParseMessages } = useMessageParser();
 
@@ -437,6 +594,7 @@ export const ChatImpl = memo(
       async (messages: Message[], isLoading: boolean) => {
         // First use the original parser
         originalParseMessages(messages, isLoading);
+        pruneToolCallResults(messages.map((message) => message.id));
 
         // Then process tool calls in assistant messages
         for (let i = 0; i < messages.length; i++) {
@@ -447,7 +605,7 @@ export const ChatImpl = memo(
             typeof message.content === 'string' &&
             message.content.includes('<tool')
           ) {
-            const processedContent = await processToolCalls(message.content);
+            const processedContent = await processToolCalls(message.id, message.content);
 
             // Update the parsed message
             parsedMessages[i] = processedContent;
@@ -789,6 +947,7 @@ You can use these GitHub API methods through tool calls:
           Cookies.remove(PROMPT_COOKIE_KEY);
           setUploadedFiles([]);
           setImageDataList([]);
+          setAttachedResources([]);
           resetEnhancer();
           textareaRef.current?.blur();
 
@@ -873,6 +1032,7 @@ You can use these GitHub API methods through tool calls:
           Cookies.remove(PROMPT_COOKIE_KEY);
           setUploadedFiles([]);
           setImageDataList([]);
+          setAttachedResources([]);
           resetEnhancer();
           textareaRef.current?.blur();
 
@@ -922,6 +1082,7 @@ Let me know if you'd like more information about any specific repository.`,
             Cookies.remove(PROMPT_COOKIE_KEY);
             setUploadedFiles([]);
             setImageDataList([]);
+            setAttachedResources([]);
             resetEnhancer();
             textareaRef.current?.blur();
 
@@ -975,6 +1136,7 @@ Would you like me to demonstrate by using one of these GitHub API functions?`,
             Cookies.remove(PROMPT_COOKIE_KEY);
             setUploadedFiles([]);
             setImageDataList([]);
+            setAttachedResources([]);
             resetEnhancer();
             textareaRef.current?.blur();
 
@@ -1028,6 +1190,7 @@ Let me know if you'd like to search for something else or get more details about
             Cookies.remove(PROMPT_COOKIE_KEY);
             setUploadedFiles([]);
             setImageDataList([]);
+            setAttachedResources([]);
             resetEnhancer();
             textareaRef.current?.blur();
 
@@ -1071,7 +1234,9 @@ Let me know if you'd like to search for something else or get more details about
                   content: [
                     {
                       type: 'text',
-                      text: `[Model: ${model}]\n\n[Provider: ${provider.name}]\n\n${messageContent}`,
+                      text: attachResourceTags(
+                        `[Model: ${model}]\n\n[Provider: ${provider.name}]\n\n${messageContent}`,
+                      ),
                     },
                     ...imageDataList.map((imageData) => ({
                       type: 'image',
@@ -1097,6 +1262,7 @@ Let me know if you'd like to search for something else or get more details about
 
               setUploadedFiles([]);
               setImageDataList([]);
+              setAttachedResources([]);
 
               resetEnhancer();
 
@@ -1116,7 +1282,7 @@ Let me know if you'd like to search for something else or get more details about
             content: [
               {
                 type: 'text',
-                text: `[Model: ${model}]\n\n[Provider: ${provider.name}]\n\n${messageContent}`,
+                text: attachResourceTags(`[Model: ${model}]\n\n[Provider: ${provider.name}]\n\n${messageContent}`),
               },
               ...imageDataList.map((imageData) => ({
                 type: 'image',
@@ -1132,6 +1298,7 @@ Let me know if you'd like to search for something else or get more details about
 
         setUploadedFiles([]);
         setImageDataList([]);
+        setAttachedResources([]);
 
         resetEnhancer();
 
@@ -1214,6 +1381,7 @@ Let me know if you'd like to search for something else or get more details about
           Cookies.remove(PROMPT_COOKIE_KEY);
           setUploadedFiles([]);
           setImageDataList([]);
+          setAttachedResources([]);
           resetEnhancer();
           textareaRef.current?.blur();
 
@@ -1252,6 +1420,7 @@ Let me know if you'd like to search for something else or get more details about
           Cookies.remove(PROMPT_COOKIE_KEY);
           setUploadedFiles([]);
           setImageDataList([]);
+          setAttachedResources([]);
           resetEnhancer();
           textareaRef.current?.blur();
 
@@ -1264,12 +1433,67 @@ Let me know if you'd like to search for something else or get more details about
 
       setUploadedFiles([]);
       setImageDataList([]);
+      setAttachedResources([]);
 
       resetEnhancer();
 
       textareaRef.current?.blur();
     };
 
+    // Prompts from external agents using bolt as an MCP server are sent like typed ones
+    useBoltSession({
+      sendPrompt: (prompt) => sendMessage({} as React.UIEvent, prompt),
+      isLoading,
+      messages,
+    });
+
+    /**
+     * Insert the messages of an expanded MCP prompt into the conversation
+     * A trailing user message is sent to the model, earlier messages are added as history
+     * @param promptMessages Messages produced by the prompt
+     */
+    const insertPromptMessages = async (promptMessages: MCPPromptMessage[]) => {
+      if (isLoading || promptMessages.length === 0) {
+        return;
+      }
+
+      await runAnimation();
+
+      const prefix = `[Model: ${model}]\n\n[Provider: ${provider.name}]\n\n`;
+      const lastMessage = promptMessages[promptMessages.length - 1];
+      const history = lastMessage.role === 'user' ? promptMessages.slice(0, -1) : promptMessages;
+      const timestamp = Date.now();
+
+      if (history.length > 0) {
+        setMessages([
+          ...messages,
+          ...history.map((message, index) => ({
+            id: `${timestamp}-${index}`,
+            role: message.role,
+            content: message.role === 'user' ? `${prefix}${message.content}` : message.content,
+          })),
+        ]);
+      }
+
+      if (lastMessage.role === 'user') {
+        chatStore.setKey('aborted', false);
+        append({
+          role: 'user',
+          content: [
+            {
+              type: 'text',
+              text: `${prefix}${lastMessage.content}`,
+            },
+          ] as any,
+        });
+        setAttachedResources([]);
+      }
+
+      setInput('');
+      Cookies.remove(PROMPT_COOKIE_KEY);
+      textareaRef.current?.blur();
+    };
+
     /**
      * Handles the change event for the textarea and updates the input state.
      * @param event - The change event from the textarea.
@@ -1292,14 +1516,6 @@ Let me know if you'd like to search for something else or get more details about
 
     const [messageRef, scrollRef] = useSnapScroll();
 
-    useEffect(() => {
-      const storedApiKeys = Cookies.get('apiKeys');
-
-      if (storedApiKeys) {
-        setApiKeys(JSON.parse(storedApiKeys));
-      }
-    }, []);
-
     const handleModelChange = (newModel: string) => {
       setModel(newModel);
       Cookies.set('selectedModel', newModel, { expires: 30 });
@@ -1365,6 +1581,9 @@ Let me know if you'd like to search for something else or get more details about
         setUploadedFiles={setUploadedFiles}
         imageDataList={imageDataList}
         setImageDataList={setImageDataList}
+        attachedResources={attachedResources}
+        setAttachedResources={setAttachedResources}
+        insertPromptMessages={insertPromptMessages}
         actionAlert={actionAlert}
         clearAlert={() => workbenchStore.clearAlert()}
         data={chatData}
@@ -0,0 +1,248 @@
+import React, { forwardRef, useEffect, useImperativeHandle, useMemo, useState } from 'react';
+import { toast } from 'react-toastify';
+import { Dialog, DialogRoot, DialogTitle, DialogDescription, DialogButton } from '~/components/ui/Dialog';
+import { useMCPPrompts, type MCPServerPrompt } from '~/lib/hooks/useMCPPrompts';
+import type { MCPPromptMessage } from '~/lib/modules/mcp/config';
+import { getMissingPromptArguments } from '~/lib/modules/mcp/prompts';
+import { classNames } from '~/utils/classNames';
+
+// Matches a slash command being typed, e.g. "/review"
+const SLASH_COMMAND_REGEX = /^\/(\S*)$/;
+
+export interface McpPromptMenuHandle {
+  /**
+   * Handle a key press in the chat textarea
+   * @returns Whether the menu consumed the key press
+   */
+  handleKeyDown: (event: React.KeyboardEvent<HTMLTextAreaElement>) => boolean;
+}
+
+interface McpPromptMenuProps {
+  input: string;
+  disabled?: boolean;
+  onInsertMessages: (messages: MCPPromptMessage[]) => void;
+}
+
+/**
+ * Slash command menu listing the prompts of all enabled MCP servers
+ */
+export const McpPromptMenu = forwardRef<McpPromptMenuHandle, McpPromptMenuProps>(
+  ({ input, disabled, onInsertMessages }, ref) => {
+    const { prompts, loading, error, fetchPrompts, getPrompt } = useMCPPrompts();
+    const [selectedIndex, setSelectedIndex] = useState(0);
+    const [dismissed, setDismissed] = useState(false);
+    const [activePrompt, setActivePrompt] = useState<MCPServerPrompt | null>(null);
+    const [argumentValues, setArgumentValues] = useState<Record<string, string>>({});
+    const [expanding, setExpanding] = useState(false);
+
+    const commandMatch = SLASH_COMMAND_REGEX.exec(input);
+    const isSlashCommand = !!commandMatch;
+    const query = commandMatch?.[1].toLowerCase() || '';
+    const open = isSlashCommand && !dismissed && !disabled && !activePrompt;
+
+    const filteredPrompts = useMemo(
+      () =>
+        prompts.filter(
+          (prompt) =>
+            !query || prompt.name.toLowerCase().includes(query) || prompt.serverId.toLowerCase().includes(query),
+        ),
+      [prompts, query],
+    );
+
+    // Refresh the prompt list every time a slash command is started
+    useEffect(() => {
+      if (isSlashCommand) {
+        fetchPrompts();
+      }
+    }, [isSlashCommand, fetchPrompts]);
+
+    useEffect(() => {
+      setDismissed(false);
+      setSelectedIndex(0);
+    }, [input]);
+
+    const expandPrompt = async (prompt: MCPServerPrompt, values: Record<string, string>) => {
+      setExpanding(true);
+
+      try {
+        const result = await getPrompt(prompt, values);
+
+        if (result.messages.length === 0) {
+          toast.warning(`Prompt "${prompt.name}" returned no messages`);
+        } else {
+          onInsertMessages(result.messages);
+        }
+
+        setActivePrompt(null);
+        setArgumentValues({});
+      } catch (err) {
+        toast.error(`Failed to get prompt: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      } finally {
+        setExpanding(false);
+      }
+    };
+
+    const selectPrompt = (prompt: MCPServerPrompt) => {
+      if (prompt.arguments && prompt.arguments.length > 0) {
+        setActivePrompt(prompt);
+        setArgumentValues({});
+
+        return;
+      }
+
+      expandPrompt(prompt, {});
+    };
+
+    useImperativeHandle(ref, () => ({
+      handleKeyDown: (event) => {
+        if (!open) {
+          return false;
+        }
+
+        if (event.key === 'Escape') {
+          event.preventDefault();
+          setDismissed(true);
+
+          return true;
+        }
+
+        if (filteredPrompts.length === 0) {
+          return false;
+        }
+
+        switch (event.key) {
+          case 'ArrowDown':
+            event.preventDefault();
+            setSelectedIndex((index) => (index + 1) % filteredPrompts.length);
+
+            return true;
+          case 'ArrowUp':
+            event.preventDefault();
+            setSelectedIndex((index) => (index - 1 + filteredPrompts.length) % filteredPrompts.length);
+
+            return true;
+          case 'Enter':
+          case 'Tab':
+            if (event.shiftKey) {
+              return false;
+            }
+
+            event.preventDefault();
+            selectPrompt(filteredPrompts[Math.min(selectedIndex, filteredPrompts.length - 1)]);
+
+            return true;
+          default:
+            return false;
+        }
+      },
+    }));
+
+    const missingArguments = activePrompt ? getMissingPromptArguments(activePrompt, argumentValues) : [];
+
+    return (
+      <>
+        {open && (
+          <div className="absolute bottom-full left-0 right-0 mb-2 z-20 max-h-64 overflow-y-auto rounded-lg border border-bolt-elements-borderColor bg-bolt-elements-background-depth-2 shadow-lg">
+            {loading && prompts.length === 0 && (
+              <div className="px-3 py-2 text-sm text-bolt-elements-textSecondary">Loading prompts...</div>
+            )}
+            {!loading && error && <div className="px-3 py-2 text-sm text-red-500">{error}</div>}
+            {!loading && !error && filteredPrompts.length === 0 && (
+              <div className="px-3 py-2 text-sm text-bolt-elements-textSecondary">No MCP prompts match "/{query}"</div>
+            )}
+            {filteredPrompts.map((prompt, index) => (
+              <button
+                key={`${prompt.serverId}:${prompt.name}`}
+                onMouseDown={(event) => {
+                  // Keep focus in the textarea
+                  event.preventDefault();
+                  selectPrompt(prompt);
+                }}
+                onMouseEnter={() => setSelectedIndex(index)}
+                className={classNames(
+                  'w-full flex items-start gap-3 px-3 py-2 text-left bg-transparent',
+                  index === selectedIndex ? 'bg-bolt-elements-item-backgroundActive' : '',
+                )}
+              >
+                <div className="i-ph:terminal w-4 h-4 mt-0.5 text-bolt-elements-textTertiary" />
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-mono text-bolt-elements-textPrimary">/{prompt.name}</span>
+                    <span className="text-xs text-bolt-elements-textTertiary">{prompt.serverId}</span>
+                  </div>
+                  {prompt.description && (
+                    <div className="text-xs text-bolt-elements-textSecondary truncate">{prompt.description}</div>
+                  )}
+                </div>
+              </button>
+            ))}
+          </div>
+        )}
+        <DialogRoot
+          open={!!activePrompt}
+          onOpenChange={(isOpen) => {
+            if (!isOpen) {
+              setActivePrompt(null);
+            }
+          }}
+        >
+          {activePrompt && (
+            <Dialog onClose={() => setActivePrompt(null)}>
+              <form
+                className="p-6 flex flex-col gap-4"
+                onSubmit={(event) => {
+                  event.preventDefault();
+
+                  if (missingArguments.length === 0 && !expanding) {
+                    expandPrompt(activePrompt, argumentValues);
+                  }
+                }}
+              >
+                <div>
+                  <DialogTitle>/{activePrompt.name}</DialogTitle>
+                  <DialogDescription>
+                    {activePrompt.description || `Prompt provided by ${activePrompt.serverId}`}
+                  </DialogDescription>
+                </div>
+                {activePrompt.arguments?.map((argument, index) => (
+                  <div key={argument.name} className="flex flex-col gap-1">
+                    <label htmlFor={`prompt-arg-${argument.name}`} className="text-sm text-bolt-elements-textPrimary">
+                      {argument.name}
+                      {argument.required && <span className="text-red-500"> *</span>}
+                    </label>
+                    <input
+                      id={`prompt-arg-${argument.name}`}
+                      type="text"
+                      autoFocus={index === 0}
+                      value={argumentValues[argument.name] || ''}
+                      onChange={(e) => setArgumentValues({ ...argumentValues, [argument.name]: e.target.value })}
+                      className="w-full px-3 py-2 rounded-lg text-sm bg-bolt-elements-background-depth-2 border border-bolt-elements-borderColor text-bolt-elements-textPrimary focus:outline-none focus:ring-1 focus:ring-purple-500/30"
+                    />
+                    {argument.description && (
+                      <span className="text-xs text-bolt-elements-textTertiary">{argument.description}</span>
+                    )}
+                  </div>
+                ))}
+                <div className="flex justify-end gap-2">
+                  <DialogButton
+                    type="secondary"
+                    onClick={(event) => {
+                      // Buttons inside the form submit by default
+                      event.preventDefault();
+                      setActivePrompt(null);
+                    }}
+                  >
+                    Cancel
+                  </DialogButton>
+                  <DialogButton type="primary" disabled={missingArguments.length > 0 || expanding}>
+                    {expanding ? 'Inserting...' : 'Insert Prompt'}
+                  </DialogButton>
+                </div>
+              </form>
+            </Dialog>
+          )}
+        </DialogRoot>
+      </>
+    );
+  },
+);
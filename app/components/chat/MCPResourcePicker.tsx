@@ -0,0 +1,294 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { toast } from 'react-toastify';
+import { IconButton } from '~/components/ui/IconButton';
+import { Dialog, DialogRoot, DialogTitle, DialogDescription, DialogButton } from '~/components/ui/Dialog';
+import { useMCPResources, type MCPResourceAttachment } from '~/lib/hooks/useMCPResources';
+import type { MCPResourceTemplate } from '~/lib/modules/mcp/config';
+import { expandResourceTemplate, getResourceTemplateVariables } from '~/lib/modules/mcp/resources';
+import { classNames } from '~/utils/classNames';
+
+// Number of characters shown when previewing a resource
+const PREVIEW_LENGTH = 2000;
+
+interface MCPResourcePickerProps {
+  attachedResources: MCPResourceAttachment[];
+  setAttachedResources: (resources: MCPResourceAttachment[]) => void;
+  disabled?: boolean;
+}
+
+interface ResourcePreview {
+  key: string;
+  content: string;
+}
+
+function getAttachmentKey(serverId: string, uri: string) {
+  return `${serverId} ${uri}`;
+}
+
+const ResourceTemplateRow = ({
+  serverId,
+  template,
+  onAttach,
+}: {
+  serverId: string;
+  template: MCPResourceTemplate;
+  onAttach: (resource: MCPResourceAttachment) => void;
+}) => {
+  const variables = useMemo(() => getResourceTemplateVariables(template.uriTemplate), [template.uriTemplate]);
+  const [values, setValues] = useState<Record<string, string>>({});
+  const isComplete = variables.every((name) => values[name]?.trim());
+
+  return (
+    <div className="p-3 rounded-lg border border-bolt-elements-borderColor">
+      <div className="text-sm text-bolt-elements-textPrimary">{template.name}</div>
+      <div className="text-xs text-bolt-elements-textTertiary font-mono truncate">{template.uriTemplate}</div>
+      {template.description && (
+        <div className="text-xs text-bolt-elements-textSecondary mt-1">{template.description}</div>
+      )}
+      <div className="flex flex-wrap items-center gap-2 mt-2">
+        {variables.map((name) => (
+          <input
+            key={name}
+            type="text"
+            placeholder={name}
+            value={values[name] || ''}
+            onChange={(e) => setValues({ ...values, [name]: e.target.value })}
+            className="px-2 py-1 rounded-md text-xs bg-bolt-elements-background-depth-2 border border-bolt-elements-borderColor text-bolt-elements-textPrimary focus:outline-none focus:ring-1 focus:ring-purple-500/30"
+          />
+        ))}
+        <button
+          disabled={!isComplete}
+          onClick={() => {
+            const uri = expandResourceTemplate(template.uriTemplate, values);
+            onAttach({ serverId, uri, name: `${template.name} (${uri})` });
+            setValues({});
+          }}
+          className="px-2 py-1 rounded-md text-xs bg-purple-500 text-white hover:bg-purple-600 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Attach
+        </button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Button and dialog for browsing MCP resources and attaching them to the next message
+ */
+export const McpResourcePicker = ({ attachedResources, setAttachedResources, disabled }: MCPResourcePickerProps) => {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState('');
+  const [preview, setPreview] = useState<ResourcePreview | null>(null);
+  const { resources, templates, loading, error, fetchResources, readResource } = useMCPResources();
+
+  useEffect(() => {
+    if (open) {
+      fetchResources();
+    }
+  }, [open, fetchResources]);
+
+  const attachedKeys = useMemo(
+    () => new Set(attachedResources.map((resource) => getAttachmentKey(resource.serverId, resource.uri))),
+    [attachedResources],
+  );
+
+  const query = search.trim().toLowerCase();
+  const serverIds = Array.from(new Set([...Object.keys(resources), ...Object.keys(templates)])).sort();
+
+  const filteredServers = serverIds
+    .map((serverId) => ({
+      serverId,
+      resources: (resources[serverId] || []).filter(
+        (resource) =>
+          !query || resource.name.toLowerCase().includes(query) || resource.uri.toLowerCase().includes(query),
+      ),
+      templates: (templates[serverId] || []).filter(
+        (template) =>
+          !query || template.name.toLowerCase().includes(query) || template.uriTemplate.toLowerCase().includes(query),
+      ),
+    }))
+    .filter((server) => server.resources.length > 0 || server.templates.length > 0);
+
+  const attach = (resource: MCPResourceAttachment) => {
+    if (attachedKeys.has(getAttachmentKey(resource.serverId, resource.uri))) {
+      return;
+    }
+
+    setAttachedResources([...attachedResources, resource]);
+  };
+
+  const toggle = (resource: MCPResourceAttachment) => {
+    const key = getAttachmentKey(resource.serverId, resource.uri);
+
+    if (attachedKeys.has(key)) {
+      setAttachedResources(attachedResources.filter((r) => getAttachmentKey(r.serverId, r.uri) !== key));
+    } else {
+      attach(resource);
+    }
+  };
+
+  const showPreview = async (serverId: string, uri: string) => {
+    const key = getAttachmentKey(serverId, uri);
+
+    if (preview?.key === key) {
+      setPreview(null);
+      return;
+    }
+
+    try {
+      const contents = await readResource(serverId, uri);
+      const text = contents
+        .map((content) => content.text ?? `(binary content${content.mimeType ? ` of type ${content.mimeType}` : ''})`)
+        .join('\n\n');
+
+      setPreview({
+        key,
+        content: text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH)}\n...` : text,
+      });
+    } catch (err) {
+      toast.error(`Failed to read resource: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  };
+
+  return (
+    <>
+      <IconButton title="Attach MCP resources" disabled={disabled} onClick={() => setOpen(true)}>
+        <div className="i-ph:books text-xl"></div>
+      </IconButton>
+      <DialogRoot open={open} onOpenChange={setOpen}>
+        {open && (
+          <Dialog className="w-[640px]" onClose={() => setOpen(false)}>
+            <div className="p-6 flex flex-col gap-4">
+              <div>
+                <DialogTitle>Attach MCP Resources</DialogTitle>
+                <DialogDescription>
+                  Attached resources are read when the message is sent and added to the model context.
+                </DialogDescription>
+              </div>
+              <input
+                type="text"
+                placeholder="Search resources..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="w-full px-3 py-2 rounded-lg text-sm bg-bolt-elements-background-depth-2 border border-bolt-elements-borderColor text-bolt-elements-textPrimary focus:outline-none focus:ring-1 focus:ring-purple-500/30"
+              />
+              <div className="max-h-[420px] overflow-y-auto flex flex-col gap-4">
+                {loading && (
+                  <div className="flex items-center gap-2 text-sm text-bolt-elements-textSecondary">
+                    <div className="i-svg-spinners:90-ring-with-bg w-4 h-4" />
+                    Loading resources...
+                  </div>
+                )}
+                {!loading && error && <div className="text-sm text-red-500">{error}</div>}
+                {!loading && !error && filteredServers.length === 0 && (
+                  <div className="text-sm text-bolt-elements-textSecondary">
+                    No resources found on the enabled MCP servers.
+                  </div>
+                )}
+                {!loading &&
+                  filteredServers.map((server) => (
+                    <div key={server.serverId} className="flex flex-col gap-2">
+                      <div className="text-xs font-medium uppercase text-bolt-elements-textTertiary">
+                        {server.serverId}
+                      </div>
+                      {server.resources.map((resource) => {
+                        const key = getAttachmentKey(server.serverId, resource.uri);
+                        const attached = attachedKeys.has(key);
+
+                        return (
+                          <div key={key} className="p-3 rounded-lg border border-bolt-elements-borderColor">
+                            <div className="flex items-center gap-3">
+                              <input
+                                type="checkbox"
+                                checked={attached}
+                                onChange={() =>
+                                  toggle({ serverId: server.serverId, uri: resource.uri, name: resource.name })
+                                }
+                                className="accent-purple-500"
+                              />
+                              <div className="flex-1 min-w-0">
+                                <div className="text-sm text-bolt-elements-textPrimary truncate">{resource.name}</div>
+                                <div className="text-xs text-bolt-elements-textTertiary font-mono truncate">
+                                  {resource.uri}
+                                  {resource.mimeType ? ` · ${resource.mimeType}` : ''}
+                                </div>
+                              </div>
+                              <IconButton
+                                icon={preview?.key === key ? 'i-ph:eye-slash' : 'i-ph:eye'}
+                                size="md"
+                                title="Preview"
+                                onClick={() => showPreview(server.serverId, resource.uri)}
+                              />
+                            </div>
+                            {resource.description && (
+                              <div className="text-xs text-bolt-elements-textSecondary mt-1 ml-7">
+                                {resource.description}
+                              </div>
+                            )}
+                            {preview?.key === key && (
+                              <pre className="mt-2 p-2 max-h-48 overflow-auto rounded-md text-xs bg-bolt-elements-background-depth-2 text-bolt-elements-textSecondary whitespace-pre-wrap">
+                                {preview.content}
+                              </pre>
+                            )}
+                          </div>
+                        );
+                      })}
+                      {server.templates.map((template) => (
+                        <ResourceTemplateRow
+                          key={template.uriTemplate}
+                          serverId={server.serverId}
+                          template={template}
+                          onAttach={attach}
+                        />
+                      ))}
+                    </div>
+                  ))}
+              </div>
+              <div className="flex justify-end">
+                <DialogButton type="primary" onClick={() => setOpen(false)}>
+                  Done
+                </DialogButton>
+              </div>
+            </div>
+          </Dialog>
+        )}
+      </DialogRoot>
+    </>
+  );
+};
+
+/**
+ * Chips for the resources attached to the next message
+ */
+export const McpResourcePreview = ({
+  resources,
+  onRemove,
+}: {
+  resources: MCPResourceAttachment[];
+  onRemove: (index: number) => void;
+}) => {
+  if (resources.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-row flex-wrap gap-2 pb-2">
+      {resources.map((resource, index) => (
+        <div
+          key={getAttachmentKey(resource.serverId, resource.uri)}
+          title={resource.uri}
+          className={classNames(
+            'flex items-center gap-1.5 px-2 py-1 rounded-md text-xs',
+            'bg-bolt-elements-background-depth-2 border border-bolt-elements-borderColor text-bolt-elements-textSecondary',
+          )}
+        >
+          <div className="i-ph:books w-3.5 h-3.5" />
+          <span className="max-w-[200px] truncate">{resource.name}</span>
+          <button onClick={() => onRemove(index)} className="bg-transparent hover:text-bolt-elements-textPrimary">
+            <div className="i-ph:x w-3 h-3" />
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,113 @@
+import { useState } from 'react';
+import type { JSONValue } from 'ai';
+import { toast } from 'react-toastify';
+import { Dialog, DialogRoot, DialogTitle, DialogDescription, DialogButton } from '~/components/ui/Dialog';
+import { useMCPSamplingApprovals } from '~/lib/hooks/useMCPSamplingApprovals';
+import type { SamplingApprovalAnnotation } from '~/types/context';
+
+interface SamplingRequestProps {
+  request: SamplingApprovalAnnotation;
+  waiting: number;
+  submitting: boolean;
+  onAnswer: (approved: boolean, maxTokens?: number) => void;
+}
+
+const SamplingRequest = ({ request, waiting, submitting, onAnswer }: SamplingRequestProps) => {
+  const [maxTokens, setMaxTokens] = useState(request.maxTokens);
+  const validLimit = Number.isInteger(maxTokens) && maxTokens >= 1 && maxTokens <= request.maxTokens;
+
+  return (
+    <div className="p-6 flex flex-col gap-4">
+      <div>
+        <DialogTitle>
+          <div className="i-ph:sparkle w-5 h-5 text-amber-500" />
+          Allow {request.serverName} to use your model?
+        </DialogTitle>
+        <DialogDescription>
+          The {request.serverName} MCP server asks {request.model} ({request.provider}) to complete the messages below.
+          The tokens count towards this chat.
+        </DialogDescription>
+      </div>
+      {request.systemPrompt && (
+        <div className="flex flex-col gap-1">
+          <div className="text-xs font-medium uppercase text-bolt-elements-textTertiary">System prompt</div>
+          <pre className="p-3 max-h-32 overflow-auto rounded-md text-xs bg-bolt-elements-background-depth-2 text-bolt-elements-textSecondary whitespace-pre-wrap">
+            {request.systemPrompt}
+          </pre>
+        </div>
+      )}
+      <div className="flex flex-col gap-1">
+        <div className="text-xs font-medium uppercase text-bolt-elements-textTertiary">Messages</div>
+        <div className="p-3 max-h-72 overflow-auto rounded-md text-xs bg-bolt-elements-background-depth-2 text-bolt-elements-textSecondary flex flex-col gap-2">
+          {request.messages.map((message, index) => (
+            <div key={index}>
+              <span className="font-medium text-bolt-elements-textPrimary">{message.role}: </span>
+              <span className="whitespace-pre-wrap">{message.text}</span>
+            </div>
+          ))}
+        </div>
+      </div>
+      <label className="flex items-center justify-between gap-2 text-sm text-bolt-elements-textSecondary">
+        Token limit
+        <input
+          type="number"
+          min={1}
+          max={request.maxTokens}
+          value={maxTokens}
+          onChange={(e) => setMaxTokens(Number(e.target.value))}
+          className="w-32 px-2 py-1 rounded-md text-sm border border-bolt-elements-borderColor bg-bolt-elements-background-depth-2 text-bolt-elements-textPrimary focus:outline-none focus:ring-2 focus:ring-purple-500/30"
+        />
+      </label>
+      {waiting > 0 && (
+        <div className="text-xs text-bolt-elements-textTertiary">
+          {waiting} more sampling request{waiting > 1 ? 's' : ''} waiting
+        </div>
+      )}
+      <div className="flex justify-end gap-2">
+        <DialogButton type="danger" disabled={submitting} onClick={() => onAnswer(false)}>
+          Reject
+        </DialogButton>
+        <DialogButton type="primary" disabled={submitting || !validLimit} onClick={() => onAnswer(true, maxTokens)}>
+          Approve
+        </DialogButton>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Dialog asking the user to approve MCP servers' requests to complete messages with the chat's model
+ * The server waits until the request is approved or rejected
+ */
+export const McpSamplingApprovalDialog = ({ data }: { data?: JSONValue[] }) => {
+  const { pendingRequests, submitting, respond } = useMCPSamplingApprovals(data);
+  const request = pendingRequests[0];
+
+  const answer = async (approved: boolean, maxTokens?: number) => {
+    if (!request || submitting) {
+      return;
+    }
+
+    try {
+      await respond(request.id, approved, maxTokens);
+    } catch (err) {
+      toast.error(`Failed to answer sampling request: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  };
+
+  return (
+    <DialogRoot open={!!request}>
+      {request && (
+        <Dialog className="w-[600px]" showCloseButton={false} onBackdrop={() => answer(false)}>
+          <SamplingRequest
+            key={request.id}
+            request={request}
+            waiting={pendingRequests.length - 1}
+            submitting={submitting}
+            onAnswer={answer}
+          />
+        </Dialog>
+      )}
+    </DialogRoot>
+  );
+};
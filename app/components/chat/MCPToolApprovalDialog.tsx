@@ -0,0 +1,74 @@
+import type { JSONValue } from 'ai';
+import { toast } from 'react-toastify';
+import { Dialog, DialogRoot, DialogTitle, DialogDescription, DialogButton } from '~/components/ui/Dialog';
+import { useMCPToolApprovals } from '~/lib/hooks/useMCPToolApprovals';
+
+// Format the JSON encoded arguments of a tool call for display
+function formatArgs(args: string): string {
+  try {
+    return JSON.stringify(JSON.parse(args), null, 2);
+  } catch {
+    return args;
+  }
+}
+
+/**
+ * Dialog asking the user to approve MCP tool calls that have the `ask` policy
+ * The chat response waits until the call is approved or denied
+ */
+export const McpToolApprovalDialog = ({ data }: { data?: JSONValue[] }) => {
+  const { pendingApprovals, submitting, respond } = useMCPToolApprovals(data);
+  const approval = pendingApprovals[0];
+
+  const answer = async (approved: boolean) => {
+    if (!approval || submitting) {
+      return;
+    }
+
+    try {
+      await respond(approval.id, approved);
+    } catch (err) {
+      toast.error(`Failed to answer tool approval: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  };
+
+  return (
+    <DialogRoot open={!!approval}>
+      {approval && (
+        <Dialog className="w-[600px]" showCloseButton={false} onBackdrop={() => answer(false)}>
+          <div className="p-6 flex flex-col gap-4">
+            <div>
+              <DialogTitle>
+                <div className="i-ph:shield-warning w-5 h-5 text-amber-500" />
+                Approve tool call?
+              </DialogTitle>
+              <DialogDescription>
+                The assistant wants to run <span className="font-mono">{approval.toolName}</span> on the{' '}
+                {approval.serverName} MCP server. Its answer continues once you decide.
+              </DialogDescription>
+            </div>
+            <div className="flex flex-col gap-1">
+              <div className="text-xs font-medium uppercase text-bolt-elements-textTertiary">Arguments</div>
+              <pre className="p-3 max-h-72 overflow-auto rounded-md text-xs bg-bolt-elements-background-depth-2 text-bolt-elements-textSecondary whitespace-pre-wrap">
+                {formatArgs(approval.args)}
+              </pre>
+            </div>
+            {pendingApprovals.length > 1 && (
+              <div className="text-xs text-bolt-elements-textTertiary">
+                {pendingApprovals.length - 1} more tool call{pendingApprovals.length > 2 ? 's' : ''} waiting
+              </div>
+            )}
+            <div className="flex justify-end gap-2">
+              <DialogButton type="danger" disabled={submitting} onClick={() => answer(false)}>
+                Deny
+              </DialogButton>
+              <DialogButton type="primary" disabled={submitting} onClick={() => answer(true)}>
+                Approve
+              </DialogButton>
+            </div>
+          </div>
+        </Dialog>
+      )}
+    </DialogRoot>
+  );
+};
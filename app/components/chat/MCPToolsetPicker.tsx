@@ -0,0 +1,247 @@
+import { useEffect, useState } from 'react';
+import { useStore } from '@nanostores/react';
+import { toast } from 'react-toastify';
+import { IconButton } from '~/components/ui/IconButton';
+import { Dialog, DialogRoot, DialogTitle, DialogDescription, DialogButton } from '~/components/ui/Dialog';
+import { chatMetadata, setChatToolSelection } from '~/lib/persistence/useChatHistory';
+import { getMCPBootstrapPromise } from '~/lib/modules/mcp/bootstrap';
+import {
+  deleteToolset,
+  isToolSelected,
+  savedToolsets,
+  saveToolset,
+  selectServer,
+  selectTool,
+} from '~/lib/modules/mcp/tool-selection';
+import type { MCPTool, MCPToolSelection } from '~/lib/modules/mcp/config';
+import { createScopedLogger } from '~/utils/logger';
+import { classNames } from '~/utils/classNames';
+
+const logger = createScopedLogger('MCPToolsetPicker');
+
+interface ServerTools {
+  id: string;
+  name: string;
+  tools: MCPTool[];
+}
+
+/**
+ * Whether two selections offer the same servers and tools
+ * @param a First selection
+ * @param b Second selection
+ */
+function isSameSelection(a: MCPToolSelection, b: MCPToolSelection): boolean {
+  const normalize = (selection: MCPToolSelection) =>
+    JSON.stringify({
+      servers: [...selection.servers].sort(),
+      tools: Object.fromEntries(
+        Object.entries(selection.tools ?? {})
+          .sort(([x], [y]) => x.localeCompare(y))
+          .map(([serverId, tools]) => [serverId, [...tools].sort()]),
+      ),
+    });
+
+  return normalize(a) === normalize(b);
+}
+
+/**
+ * Button and dialog for choosing the MCP servers and tools offered to the model in the current chat
+ */
+export const McpToolsetPicker = () => {
+  const [open, setOpen] = useState(false);
+  const [servers, setServers] = useState<ServerTools[]>([]);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [toolsetName, setToolsetName] = useState('');
+  const metadata = useStore(chatMetadata);
+  const toolsets = useStore(savedToolsets);
+  const selection = metadata?.mcpToolSelection;
+
+  useEffect(() => {
+    if (!open) {
+      return;
+    }
+
+    const loadServers = async () => {
+      try {
+        const { registry, toolFactory } = await getMCPBootstrapPromise();
+        const tools = await toolFactory.getAvailableTools();
+
+        setServers(
+          registry
+            .getEnabledServers()
+            .map((server) => ({ id: server.id, name: server.name, tools: tools[server.id] ?? [] }))
+            .sort((a, b) => a.name.localeCompare(b.name)),
+        );
+      } catch (error) {
+        logger.error('Failed to load the MCP tools:', error);
+        toast.error('Failed to load the MCP tools');
+      }
+    };
+
+    loadServers();
+  }, [open]);
+
+  // Without a selection every server is active, so changes start from all of them
+  const current: MCPToolSelection = selection ?? { servers: servers.map((server) => server.id) };
+  const activeToolCount = servers.reduce(
+    (count, server) => count + server.tools.filter((tool) => isToolSelected(selection, server.id, tool.name)).length,
+    0,
+  );
+  const activeToolset = selection && toolsets.find((toolset) => isSameSelection(toolset.selection, selection));
+
+  const handleSaveToolset = () => {
+    const name = toolsetName.trim();
+
+    if (!name) {
+      return;
+    }
+
+    saveToolset(name, current);
+    setToolsetName('');
+    toast.success(`Saved toolset ${name}`);
+  };
+
+  return (
+    <>
+      <IconButton title="Choose MCP tools for this chat" onClick={() => setOpen(true)}>
+        <div className={classNames('i-ph:wrench text-xl', { 'text-purple-500': !!selection })}></div>
+      </IconButton>
+      <DialogRoot open={open} onOpenChange={setOpen}>
+        {open && (
+          <Dialog className="w-[560px]" onClose={() => setOpen(false)}>
+            <div className="p-6 flex flex-col gap-4">
+              <div>
+                <DialogTitle>MCP Tools for This Chat</DialogTitle>
+                <DialogDescription>
+                  Only the selected tools are offered to the model. Fewer tools keep the prompt small and help smaller
+                  models pick the right one.
+                </DialogDescription>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-2">
+                <button
+                  onClick={() => setChatToolSelection(undefined)}
+                  className={classNames('px-2 py-1 rounded-md text-xs border border-bolt-elements-borderColor', {
+                    'bg-purple-500 text-white border-purple-500': !selection,
+                    'text-bolt-elements-textSecondary hover:bg-bolt-elements-background-depth-3': !!selection,
+                  })}
+                >
+                  All tools
+                </button>
+                {toolsets.map((toolset) => (
+                  <div
+                    key={toolset.id}
+                    className={classNames(
+                      'flex items-center gap-1 pl-2 pr-1 py-1 rounded-md text-xs border border-bolt-elements-borderColor',
+                      {
+                        'bg-purple-500 text-white border-purple-500': activeToolset?.id === toolset.id,
+                        'text-bolt-elements-textSecondary': activeToolset?.id !== toolset.id,
+                      },
+                    )}
+                  >
+                    <button className="bg-transparent" onClick={() => setChatToolSelection(toolset.selection)}>
+                      {toolset.name}
+                    </button>
+                    <button
+                      title={`Delete toolset ${toolset.name}`}
+                      className="i-ph:x w-3 h-3 bg-transparent opacity-60 hover:opacity-100"
+                      onClick={() => deleteToolset(toolset.id)}
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <div className="max-h-[360px] overflow-y-auto flex flex-col gap-2">
+                {servers.length === 0 && (
+                  <div className="text-sm text-bolt-elements-textSecondary">No MCP servers are enabled.</div>
+                )}
+                {servers.map((server) => {
+                  const serverActive = current.servers.includes(server.id);
+                  const toolNames = server.tools.map((tool) => tool.name);
+                  const selectedCount = server.tools.filter((tool) =>
+                    isToolSelected(current, server.id, tool.name),
+                  ).length;
+
+                  return (
+                    <div key={server.id} className="p-3 rounded-lg border border-bolt-elements-borderColor">
+                      <div className="flex items-center gap-3">
+                        <input
+                          type="checkbox"
+                          checked={serverActive}
+                          onChange={(e) => setChatToolSelection(selectServer(current, server.id, e.target.checked))}
+                          className="accent-purple-500"
+                        />
+                        <div className="flex-1 min-w-0 text-sm text-bolt-elements-textPrimary truncate">
+                          {server.name}
+                        </div>
+                        <div className="text-xs text-bolt-elements-textTertiary">
+                          {selectedCount}/{server.tools.length} tools
+                        </div>
+                        <IconButton
+                          icon={expanded === server.id ? 'i-ph:caret-up' : 'i-ph:caret-down'}
+                          size="md"
+                          title="Choose tools"
+                          disabled={server.tools.length === 0}
+                          onClick={() => setExpanded(expanded === server.id ? null : server.id)}
+                        />
+                      </div>
+                      {expanded === server.id && (
+                        <div className="flex flex-col gap-1 mt-2 ml-7">
+                          {server.tools.map((tool) => (
+                            <label key={tool.name} className="flex items-start gap-2 text-xs cursor-pointer">
+                              <input
+                                type="checkbox"
+                                checked={isToolSelected(current, server.id, tool.name)}
+                                onChange={(e) =>
+                                  setChatToolSelection(
+                                    selectTool(current, server.id, toolNames, tool.name, e.target.checked),
+                                  )
+                                }
+                                className="accent-purple-500 mt-0.5"
+                              />
+                              <span className="min-w-0">
+                                <span className="font-mono text-bolt-elements-textPrimary">{tool.name}</span>
+                                {tool.description && (
+                                  <span className="block text-bolt-elements-textTertiary truncate">
+                                    {tool.description}
+                                  </span>
+                                )}
+                              </span>
+                            </label>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+
+              <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  placeholder="Save the selection as a toolset..."
+                  value={toolsetName}
+                  onChange={(e) => setToolsetName(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleSaveToolset()}
+                  className="flex-1 px-3 py-2 rounded-lg text-sm bg-bolt-elements-background-depth-2 border border-bolt-elements-borderColor text-bolt-elements-textPrimary focus:outline-none focus:ring-1 focus:ring-purple-500/30"
+                />
+                <DialogButton type="secondary" onClick={handleSaveToolset}>
+                  Save
+                </DialogButton>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <div className="text-xs text-bolt-elements-textTertiary">
+                  {activeToolCount} of {servers.reduce((count, server) => count + server.tools.length, 0)} tools active
+                </div>
+                <DialogButton type="primary" onClick={() => setOpen(false)}>
+                  Done
+                </DialogButton>
+              </div>
+            </div>
+          </Dialog>
+        )}
+      </DialogRoot>
+    </>
+  );
+};
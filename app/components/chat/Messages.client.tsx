@@ -3,6 +3,7 @@ import { Fragment } from 'react';
 import { classNames } from '~/utils/classNames';
 import { AssistantMessage } from './AssistantMessage';
 import { UserMessage } from './UserMessage';
+import ToolCallProgress from './ToolCallProgress';
 import { useLocation } from '@remix-run/react';
 import { db, chatId } from '~/lib/persistence/useChatHistory';
 import { forkChat } from '~/lib/persistence/db';
@@ -12,17 +13,23 @@ import { useStore } from '@nanostores/react';
 import { profileStore } from '~/lib/stores/profile';
 import { forwardRef } from 'react';
 import type { ForwardedRef } from 'react';
+import type { ProgressAnnotation } from '~/types/context';
 
 interface MessagesProps {
   id?: string;
   className?: string;
   isStreaming?: boolean;
   messages?: Message[];
+
+  /**
+   * Progress of the tool calls made by the response being streamed
+   */
+  toolProgress?: ProgressAnnotation[];
 }
 
 export const Messages = forwardRef<HTMLDivElement, MessagesProps>(
   (props: MessagesProps, ref: ForwardedRef<HTMLDivElement> | undefined) => {
-    const { id, isStreaming = false, messages = [] } = props;
+    const { id, isStreaming = false, messages = [], toolProgress = [] } = props;
     const location = useLocation();
     const profile = useStore(profileStore);
 
@@ -89,7 +96,14 @@ export const Messages = forwardRef<HTMLDivElement, MessagesProps>(
                     {isUserMessage ? (
                       <UserMessage content={content} />
                     ) : (
-                      <AssistantMessage content={content} annotations={message.annotations} />
+                      <>
+                        <AssistantMessage
+                          content={content}
+                          annotations={message.annotations}
+                          toolInvocations={message.toolInvocations}
+                        />
+                        {isStreaming && isLast && <ToolCallProgress data={toolProgress} />}
+                      </>
                     )}
                   </div>
                   {!isUserMessage && (
@@ -123,6 +137,12 @@ export const Messages = forwardRef<HTMLDivElement, MessagesProps>(
               );
             })
           : null}
+        {/* Tool calls can run before the response has any text */}
+        {isStreaming && messages[messages.length - 1]?.role === 'user' && (
+          <div className="w-full px-6">
+            <ToolCallProgress data={toolProgress} />
+          </div>
+        )}
         {isStreaming && (
           <div className="text-center w-full text-bolt-elements-textSecondary i-svg-spinners:3-dots-fade text-4xl mt-4"></div>
         )}
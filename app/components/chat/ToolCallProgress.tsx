@@ -0,0 +1,71 @@
+import { motion } from 'framer-motion';
+import React from 'react';
+import type { ProgressAnnotation } from '~/types/context';
+import { classNames } from '~/utils/classNames';
+
+export default function ToolCallProgress({ data }: { data?: ProgressAnnotation[] }) {
+  const calls = React.useMemo(() => {
+    const callMap = new Map<string, ProgressAnnotation>();
+
+    (data ?? []).forEach((x) => {
+      if (!x.toolCallId || callMap.get(x.toolCallId)?.status === 'complete') {
+        return;
+      }
+
+      // Keep the reported total once the call completes
+      const previous = callMap.get(x.toolCallId);
+      callMap.set(x.toolCallId, { ...x, total: x.total ?? previous?.total });
+    });
+
+    return Array.from(callMap.values()).sort((a, b) => a.order - b.order);
+  }, [data]);
+
+  if (calls.length === 0) {
+    return <></>;
+  }
+
+  return (
+    <div className="flex flex-col gap-2 my-2">
+      {calls.map((call) => (
+        <ToolCallProgressItem key={call.toolCallId} progress={call} />
+      ))}
+    </div>
+  );
+}
+
+const ToolCallProgressItem = ({ progress }: { progress: ProgressAnnotation }) => {
+  const complete = progress.status === 'complete';
+  const percent = complete
+    ? 100
+    : progress.total
+      ? Math.min(100, ((progress.progress ?? 0) / progress.total) * 100)
+      : 0;
+
+  return (
+    <motion.div
+      className="text-sm text-bolt-elements-textSecondary"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      transition={{ duration: 0.15 }}
+    >
+      <div className="flex items-center gap-1.5 mb-1">
+        {complete ? <div className="i-ph:check" /> : <div className="i-svg-spinners:90-ring-with-bg" />}
+        <span className="truncate">{progress.message}</span>
+      </div>
+      {/* Without a total the bar only shows that the call is running */}
+      <div className="h-1.5 w-full rounded-full bg-bolt-elements-background-depth-3 overflow-hidden">
+        {complete || progress.total ? (
+          <div
+            className={classNames('h-full rounded-full transition-all duration-300', {
+              'bg-green-500': complete,
+              'bg-purple-500': !complete,
+            })}
+            style={{ width: `${percent}%` }}
+          />
+        ) : (
+          <div className="h-full w-1/3 rounded-full bg-purple-500 animate-pulse" />
+        )}
+      </div>
+    </motion.div>
+  );
+};
@@ -0,0 +1,71 @@
+import { useState } from 'react';
+import type { ToolInvocation } from 'ai';
+import { classNames } from '~/utils/classNames';
+
+/**
+ * Format the arguments or result of a tool call for display
+ * @param value Value to format
+ */
+function formatValue(value: unknown): string {
+  if (typeof value === 'string') {
+    return value;
+  }
+
+  return JSON.stringify(value, null, 2) ?? '';
+}
+
+export default function ToolInvocations({ invocations }: { invocations?: ToolInvocation[] }) {
+  if (!invocations || invocations.length === 0) {
+    return <></>;
+  }
+
+  return (
+    <div className="flex flex-col gap-2 my-2">
+      {invocations.map((invocation) => (
+        <ToolInvocationItem key={invocation.toolCallId} invocation={invocation} />
+      ))}
+    </div>
+  );
+}
+
+const ToolInvocationItem = ({ invocation }: { invocation: ToolInvocation }) => {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const done = invocation.state === 'result';
+  const result = done ? formatValue(invocation.result) : undefined;
+  const failed = done && (result?.startsWith('Error') || invocation.result?.isError === true);
+
+  return (
+    <div className="text-sm border border-bolt-elements-borderColor rounded-md bg-bolt-elements-background-depth-2">
+      <button
+        className="flex w-full items-center gap-1.5 px-3 py-2 bg-transparent text-bolt-elements-textSecondary text-left"
+        onClick={() => setIsExpanded(!isExpanded)}
+      >
+        {done ? (
+          <div className={classNames(failed ? 'i-ph:x text-red-500' : 'i-ph:check text-green-500')} />
+        ) : (
+          <div className="i-svg-spinners:90-ring-with-bg" />
+        )}
+        <span className="font-mono truncate">{invocation.toolName}</span>
+        <div className={classNames('ml-auto', isExpanded ? 'i-ph:caret-up' : 'i-ph:caret-down')} />
+      </button>
+      {isExpanded && (
+        <div className="flex flex-col gap-2 px-3 pb-3">
+          <div>
+            <div className="text-xs text-bolt-elements-textTertiary mb-1">Arguments</div>
+            <pre className="text-xs whitespace-pre-wrap break-all max-h-48 overflow-auto text-bolt-elements-textPrimary">
+              {formatValue(invocation.args)}
+            </pre>
+          </div>
+          {done && (
+            <div>
+              <div className="text-xs text-bolt-elements-textTertiary mb-1">Result</div>
+              <pre className="text-xs whitespace-pre-wrap break-all max-h-48 overflow-auto text-bolt-elements-textPrimary">
+                {result}
+              </pre>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -3,6 +3,7 @@
  * Preventing TS checks with files presented in the video for a better presentation.
  */
 import { MODEL_REGEX, PROVIDER_REGEX } from '~/utils/constants';
+import { extractResourceRefs, stripResourceTags, type MCPResourceRef } from '~/lib/modules/mcp/resources';
 import { Markdown } from './Markdown';
 
 interface UserMessageProps {
@@ -13,11 +14,13 @@ export function UserMessage({ content }: UserMessageProps) {
   if (Array.isArray(content)) {
     const textItem = content.find((item) => item.type === 'text');
     const textContent = stripMetadata(textItem?.text || '');
+    const resources = extractResourceRefs(textItem?.text || '');
     const images = content.filter((item) => item.type === 'image' && item.image);
 
     return (
       <div className="overflow-hidden pt-[4px]">
         <div className="flex flex-col gap-4">
+          <AttachedResources resources={resources} />
           {textContent && <Markdown html>{textContent}</Markdown>}
           {images.map((item, index) => (
             <img
@@ -34,15 +37,38 @@ export function UserMessage({ content }: UserMessageProps) {
   }
 
   const textContent = stripMetadata(content);
+  const resources = extractResourceRefs(content);
 
   return (
     <div className="overflow-hidden pt-[4px]">
+      <AttachedResources resources={resources} />
       <Markdown html>{textContent}</Markdown>
     </div>
   );
 }
 
+function AttachedResources({ resources }: { resources: MCPResourceRef[] }) {
+  if (resources.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {resources.map((resource) => (
+        <div
+          key={`${resource.serverId} ${resource.uri}`}
+          title={`${resource.serverId}: ${resource.uri}`}
+          className="flex items-center gap-1.5 px-2 py-1 rounded-md text-xs bg-bolt-elements-background-depth-2 border border-bolt-elements-borderColor text-bolt-elements-textSecondary"
+        >
+          <div className="i-ph:books w-3.5 h-3.5" />
+          <span className="max-w-[240px] truncate">{resource.uri}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
 function stripMetadata(content: string) {
   const artifactRegex = /<boltArtifact\s+[^>]*>[\s\S]*?<\/boltArtifact>/gm;
-  return content.replace(MODEL_REGEX, '').replace(PROVIDER_REGEX, '').replace(artifactRegex, '');
+  return stripResourceTags(content.replace(MODEL_REGEX, '').replace(PROVIDER_REGEX, '').replace(artifactRegex, ''));
 }
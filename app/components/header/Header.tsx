@@ -4,6 +4,7 @@ import { chatStore } from '~/lib/stores/chat';
 import { classNames } from '~/utils/classNames';
 import { HeaderActionButtons } from './HeaderActionButtons.client';
 import { ChatDescription } from '~/lib/persistence/ChatDescription.client';
+import { McpToolsetPicker } from '~/components/chat/MCPToolsetPicker';
 
 export function Header() {
   const chat = useStore(chatStore);
@@ -30,7 +31,8 @@ export function Header() {
           </span>
           <ClientOnly>
             {() => (
-              <div className="mr-1">
+              <div className="flex items-center gap-1 mr-1">
+                <McpToolsetPicker />
                 <HeaderActionButtons />
               </div>
             )}
@@ -24,6 +24,7 @@ import { EditorPanel } from './EditorPanel';
 import { Preview } from './Preview';
 import useViewport from '~/lib/hooks';
 import { PushToGitHubDialog } from '~/components/@settings/tabs/connections/components/PushToGitHubDialog';
+import { PushToGitLabDialog } from '~/components/@settings/tabs/connections/components/PushToGitLabDialog';
 
 interface WorkspaceProps {
   chatStarted?: boolean;
@@ -281,6 +282,7 @@ export const Workbench = memo(
 
     const [isSyncing, setIsSyncing] = useState(false);
     const [isPushDialogOpen, setIsPushDialogOpen] = useState(false);
+    const [isGitLabPushDialogOpen, setIsGitLabPushDialogOpen] = useState(false);
     const [fileHistory, setFileHistory] = useState<Record<string, FileHistory>>({});
 
     // const modifiedFiles = Array.from(useStore(workbenchStore.unsavedFiles).keys());
@@ -403,6 +405,10 @@ export const Workbench = memo(
                         <div className="i-ph:git-branch" />
                         Push to GitHub
                       </PanelHeaderButton>
+                      <PanelHeaderButton className="mr-1 text-sm" onClick={() => setIsGitLabPushDialogOpen(true)}>
+                        <div className="i-ph:gitlab-logo" />
+                        Push to GitLab
+                      </PanelHeaderButton>
                     </div>
                   )}
                   {selectedView === 'diff' && (
@@ -471,6 +477,23 @@ export const Workbench = memo(
               }
             }}
           />
+          <PushToGitLabDialog
+            isOpen={isGitLabPushDialogOpen}
+            onClose={() => setIsGitLabPushDialogOpen(false)}
+            onPush={async (projectName, isPrivate) => {
+              const commitMessage = prompt('Please enter a commit message:', 'Initial commit') || 'Initial commit';
+              const projectUrl = await workbenchStore.pushToGitLab(projectName, commitMessage, isPrivate);
+
+              if (updateChatMestaData && !metadata?.gitUrl) {
+                updateChatMestaData({
+                  ...(metadata || {}),
+                  gitUrl: projectUrl,
+                });
+              }
+
+              return projectUrl;
+            }}
+          />
         </motion.div>
       )
     );
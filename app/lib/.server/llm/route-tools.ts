@@ -0,0 +1,143 @@
+import { embedMany, type Message } from 'ai';
+import { createOpenAI } from '@ai-sdk/openai';
+import type { IProviderSetting } from '~/types/model';
+import { PROVIDER_LIST } from '~/utils/constants';
+import { createScopedLogger } from '~/utils/logger';
+import type { MCPToolSelection, MCPToolSnapshot } from '~/lib/modules/mcp/config';
+import { MCPToolRouter, type ToolRouterOptions } from '~/lib/modules/mcp/tool-router';
+import {
+  getWorkbenchToolDefinitions,
+  WORKBENCH_SERVER_ID,
+  type WorkbenchServerSettings,
+} from '~/lib/modules/mcp/workbench-server';
+
+const logger = createScopedLogger('route-tools');
+
+// Earlier messages scored along with the new one, so follow-ups keep the tools of the conversation
+const CONTEXT_MESSAGES = 2;
+
+// Characters of each message used for scoring
+const MAX_MESSAGE_LENGTH = 2000;
+
+/**
+ * Read a number from the environment
+ * @param env Environment of the request
+ * @param key Name of the variable
+ */
+function getEnvNumber(env: Env | undefined, key: keyof Env): number | undefined {
+  const value = Number((env?.[key] as string | undefined) || process.env[key]);
+
+  return Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+/**
+ * Get the string variables of the environment, which providers read their keys from
+ * @param env Environment of the request
+ */
+function getEnvRecord(env: Env | undefined): Record<string, string> | undefined {
+  if (!env) {
+    return undefined;
+  }
+
+  return Object.fromEntries(
+    Object.entries(env).filter((entry): entry is [string, string] => typeof entry[1] === 'string'),
+  );
+}
+
+/**
+ * Get the text of a message
+ * @param message Chat message
+ */
+function getMessageText(message: Omit<Message, 'id'>): string {
+  const content = message.content as string | Array<{ type: string; text?: string }>;
+  const text = Array.isArray(content)
+    ? content
+        .filter((part) => part.type === 'text')
+        .map((part) => part.text)
+        .join('\n')
+    : content;
+
+  return text.slice(0, MAX_MESSAGE_LENGTH);
+}
+
+/**
+ * Create the embedding function for the configured OpenAI embedding model
+ * @param model Name of the embedding model
+ * @param env Environment of the request
+ * @param apiKeys API keys sent by the client
+ * @param providerSettings Provider settings sent by the client
+ */
+function createEmbedder(
+  model: string,
+  env: Env | undefined,
+  apiKeys?: Record<string, string>,
+  providerSettings?: Record<string, IProviderSetting>,
+): ToolRouterOptions['embed'] {
+  const provider = PROVIDER_LIST.find((p) => p.name === 'OpenAI');
+  const { apiKey } =
+    provider?.getProviderBaseUrlAndKey({
+      apiKeys,
+      providerSettings: providerSettings?.OpenAI,
+      serverEnv: getEnvRecord(env),
+      defaultBaseUrlKey: '',
+      defaultApiTokenKey: 'OPENAI_API_KEY',
+    }) ?? {};
+
+  if (!apiKey) {
+    logger.warn(`No OpenAI API key for the embedding model ${model}; tools are scored with BM25`);
+    return undefined;
+  }
+
+  const embeddingModel = createOpenAI({ apiKey }).embedding(model);
+
+  return async (texts) => (await embedMany({ model: embeddingModel, values: texts })).embeddings;
+}
+
+/**
+ * Choose the MCP tools relevant to the latest message
+ * The built-in workbench tools, which the browser runs, are ranked along with the tools of the servers
+ * The limits and the embedding model are read from MCP_TOOL_MAX_TOOLS, MCP_TOOL_TOKEN_BUDGET
+ * and MCP_TOOL_EMBEDDING_MODEL
+ * @returns Selection offering only the chosen tools
+ */
+export async function routeTools(props: {
+  messages: Omit<Message, 'id'>[];
+  env?: Env;
+  apiKeys?: Record<string, string>;
+  providerSettings?: Record<string, IProviderSetting>;
+  snapshot?: MCPToolSnapshot;
+  selection?: MCPToolSelection;
+  workbenchServer?: WorkbenchServerSettings;
+}): Promise<MCPToolSelection | undefined> {
+  const { messages, env, apiKeys, providerSettings, selection, workbenchServer } = props;
+
+  try {
+    const { getServerMCPBootstrapPromise } = await import('~/lib/modules/mcp/bootstrap');
+    const { toolFactory } = await getServerMCPBootstrapPromise(env);
+    const serverSnapshot = props.snapshot ?? (await toolFactory.getToolSnapshot());
+    const snapshot = {
+      ...serverSnapshot,
+      tools: { ...serverSnapshot.tools, [WORKBENCH_SERVER_ID]: getWorkbenchToolDefinitions(workbenchServer) },
+    };
+    const lastUserIndex = messages.findLastIndex((message) => message.role === 'user');
+    const query = messages
+      .slice(Math.max(0, lastUserIndex - CONTEXT_MESSAGES), lastUserIndex + 1)
+      .map(getMessageText)
+      .join('\n');
+    const embeddingModel =
+      (env?.MCP_TOOL_EMBEDDING_MODEL as string | undefined) || process.env.MCP_TOOL_EMBEDDING_MODEL;
+
+    const route = await MCPToolRouter.getInstance().route(snapshot, query, selection, {
+      maxTools: getEnvNumber(env, 'MCP_TOOL_MAX_TOOLS'),
+      tokenBudget: getEnvNumber(env, 'MCP_TOOL_TOKEN_BUDGET'),
+      embed: embeddingModel ? createEmbedder(embeddingModel, env, apiKeys, providerSettings) : undefined,
+      embeddingModel,
+    });
+
+    return route.selection;
+  } catch (error) {
+    // Offer the chat's tools unranked rather than none
+    logger.error('Failed to route the MCP tools:', error);
+    return selection;
+  }
+}
@@ -1,7 +1,14 @@
-import { convertToCoreMessages, streamText as _streamText, type Message } from 'ai';
+import { convertToCoreMessages, streamText as _streamText, type Message, type Tool } from 'ai';
 import { MAX_TOKENS, type FileMap } from './constants';
 import { getSystemPrompt } from '~/lib/common/prompts/prompts';
-import { DEFAULT_MODEL, DEFAULT_PROVIDER, MODIFICATIONS_TAG_NAME, PROVIDER_LIST, WORK_DIR } from '~/utils/constants';
+import {
+  DEFAULT_MODEL,
+  DEFAULT_PROVIDER,
+  MAX_TOOL_STEPS,
+  MODIFICATIONS_TAG_NAME,
+  PROVIDER_LIST,
+  WORK_DIR,
+} from '~/utils/constants';
 import type { IProviderSetting } from '~/types/model';
 import { PromptLibrary } from '~/lib/common/prompt-library';
 import { allowedHTMLElements } from '~/utils/markdown';
@@ -9,7 +16,10 @@ import { LLMManager } from '~/lib/modules/llm/manager';
 import { createScopedLogger } from '~/utils/logger';
 import { createFilesContext, extractPropertiesFromMessage } from './utils';
 import { getFilePaths } from './select-context';
-import { MCPManager } from '~/lib/modules/mcp/manager';
+import { routeTools } from './route-tools';
+import type { MCPToolSelection, MCPToolSnapshot } from '~/lib/modules/mcp/config';
+import type { ToolCreationOptions } from '~/lib/modules/mcp/tool-factory';
+import { createWorkbenchToolDeclarations, type WorkbenchServerSettings } from '~/lib/modules/mcp/workbench-server';
 
 export type Messages = Message[];
 
@@ -29,6 +39,16 @@ export async function streamText(props: {
   contextFiles?: FileMap;
   summary?: string;
   messageSliceId?: number;
+  resourcesContext?: string;
+
+  // Offer the MCP and workbench tools; only chat responses use them
+  enableTools?: boolean;
+  mcpToolSnapshot?: MCPToolSnapshot;
+  mcpToolSelection?: MCPToolSelection;
+  workbenchServer?: WorkbenchServerSettings;
+
+  // Callbacks of this response for the MCP tool calls, e.g. to ask the user for approval
+  mcpToolOptions?: Omit<ToolCreationOptions, 'selection'>;
 }) {
   const {
     messages,
@@ -41,6 +61,12 @@ export async function streamText(props: {
     contextOptimization,
     contextFiles,
     summary,
+    resourcesContext,
+    enableTools = false,
+    mcpToolSnapshot,
+    mcpToolSelection,
+    workbenchServer,
+    mcpToolOptions,
   } = props;
   let currentModel = DEFAULT_MODEL;
   let currentProvider = DEFAULT_PROVIDER.name;
@@ -100,12 +126,50 @@ export async function streamText(props: {
       modificationTagName: MODIFICATIONS_TAG_NAME,
     }) ?? getSystemPrompt();
 
-  // Get MCP tools and add them to the system prompt
-  const mcpTools = await getMCPToolsDescription();
+  let tools: Record<string, Tool> | undefined;
+
+  if (enableTools) {
+    // Only the tools relevant to the message are offered when they would not fit in the budget
+    const toolSelection = await routeTools({
+      messages: processedMessages,
+      env: serverEnv,
+      apiKeys,
+      providerSettings,
+      snapshot: mcpToolSnapshot,
+      selection: mcpToolSelection,
+      workbenchServer,
+    });
+
+    // Models that call tools natively get the MCP tools as AI SDK tools
+    const nativeTools = modelDetails.supportsTools ?? provider.supportsTools ?? true;
+
+    if (nativeTools) {
+      // Built-in workbench tools run in the browser, which sends their results with the next request
+      tools = {
+        ...(await getMCPTools(mcpToolSnapshot, toolSelection, mcpToolOptions)),
+        ...createWorkbenchToolDeclarations(toolSelection, workbenchServer),
+        ...options?.tools,
+      };
+
+      if (Object.keys(tools).length > 0) {
+        systemPrompt = `IMPORTANT: You can call the tools provided with this request, including the tools of the connected Model Context Protocol (MCP) servers.
+
+Call a tool when the user asks for something it can do instead of saying you cannot access it. Its result is returned to you before you continue, so show the user what you found. Never write tool calls as text or XML tags.
+
+${systemPrompt}`;
+      } else {
+        tools = undefined;
+      }
+    } else {
+      /*
+       * Other models are told to write tool calls as XML tags, which the client runs through the tools API,
+       * so the server applies the tool policies as it does for native calls
+       */
+      const mcpTools = await getMCPToolsDescription(mcpToolSnapshot, toolSelection);
 
-  if (mcpTools) {
-    // Add MCP tools information to the beginning of the system prompt with explicit instructions
-    systemPrompt = `IMPORTANT: You have access to external tools through the Model Context Protocol (MCP).
+      if (mcpTools) {
+        // Add MCP tools information to the beginning of the system prompt with explicit instructions
+        systemPrompt = `IMPORTANT: You have access to external tools through the Model Context Protocol (MCP).
 
 ${mcpTools}
 
@@ -119,9 +183,8 @@ When using MCP tools, you MUST:
 Do not refuse to use these tools or claim you lack access to external services. The tools are available and working.
 
 ${systemPrompt}`;
-  } else {
-    // No MCP tools available, just use the original system prompt
-    systemPrompt = systemPrompt;
+      }
+    }
   }
 
   if (files && contextFiles && contextOptimization) {
@@ -162,6 +225,16 @@ ${props.summary}
     }
   }
 
+  if (resourcesContext) {
+    systemPrompt = `${systemPrompt}
+Below are the MCP resources the user attached to this conversation. Use them as reference material for the current request.
+MCP RESOURCES:
+---
+${resourcesContext}
+---
+`;
+  }
+
   logger.info(`Sending llm call to ${provider.name} with model ${modelDetails.name}`);
 
   // Create the stream
@@ -176,22 +249,49 @@ ${props.summary}
     maxTokens: dynamicMaxTokens,
     messages: convertToCoreMessages(processedMessages as any),
     ...options,
+    ...(enableTools && { tools, maxSteps: tools ? MAX_TOOL_STEPS : 1 }),
   });
 
   // Return the result directly - it already has the necessary stream handling
   return result;
 }
 
+/**
+ * Get the MCP tools as AI SDK tools for models that call tools natively
+ * @param snapshot Tool definitions to use; the current snapshot when omitted
+ * @param selection Servers and tools of the chat
+ * @param options Callbacks of the response for the tool calls
+ */
+async function getMCPTools(
+  snapshot?: MCPToolSnapshot,
+  selection?: MCPToolSelection,
+  options?: Omit<ToolCreationOptions, 'selection'>,
+): Promise<Record<string, Tool>> {
+  try {
+    const { createMCPToolset } = await import('~/lib/modules/mcp');
+
+    return (await createMCPToolset(snapshot, selection, options)) ?? {};
+  } catch (error) {
+    logger.error('Failed to create MCP tools:', error);
+    return {};
+  }
+}
+
 /**
  * Get a description of all available MCP tools
+ * @param snapshot Tool definitions to describe; the current snapshot when omitted
+ * @param selection Servers and tools of the chat
  */
-async function getMCPToolsDescription(): Promise<string | null> {
+async function getMCPToolsDescription(
+  snapshot?: MCPToolSnapshot,
+  selection?: MCPToolSelection,
+): Promise<string | null> {
   try {
     // Import the necessary functions from the new modular architecture
     const { getMCPToolsDescription } = await import('~/lib/modules/mcp');
 
     // Get tool descriptions using the new architecture
-    const toolsDescription = await getMCPToolsDescription();
+    const toolsDescription = await getMCPToolsDescription(snapshot, selection);
 
     if (!toolsDescription) {
       // Provide a default message for when no MCP tools are available
@@ -209,83 +309,6 @@ You can still provide helpful responses based on your general knowledge, but wit
     return toolsDescription;
   } catch (error) {
     logger.error('Failed to get MCP tools description:', error);
-
-    // Fallback to the legacy implementation if the new architecture fails
-    try {
-      // Get MCP Manager instance (legacy)
-      const mcpManager = MCPManager.getInstance();
-
-      // Get all configured servers
-      const serverConfigs = mcpManager.getConfig().mcpServers || {};
-
-      if (Object.keys(serverConfigs).length === 0) {
-        return null;
-      }
-
-      // Initialize tools
-      const tools = await mcpManager.initializeTools();
-
-      if (!tools || Object.keys(tools).length === 0) {
-        return null;
-      }
-
-      // Format tools description
-      let toolsDescription = 'The following MCP tools are available:\n\n';
-
-      // Check if GitHub MCP server is configured
-      const hasGitHubServer = Object.values(serverConfigs).some((server) => {
-        const serverConfig = server as any;
-        return (
-          serverConfig.name?.toLowerCase() === 'github' ||
-          serverConfig.baseUrl?.includes('github') ||
-          serverConfig.auth?.type === 'github'
-        );
-      });
-
-      // Add GitHub API tool explicitly if GitHub server is configured
-      if (hasGitHubServer) {
-        toolsDescription += `- github_api: GitHub API integration via MCP (ACTIVE CONNECTION)
-    - getUser(): Get authenticated user info
-    - listRepositories(): List user repositories
-    - searchRepositories(query): Search repositories
-    - getRepositoryContents(owner, repo, path): Get file contents
-    - createRepository(name, options): Create a new repository
-    - request(endpoint, options): Make custom API requests\n\n`;
-
-        // Also add the direct tool names for better compatibility
-        toolsDescription += `- github_get_user: Get information about the authenticated GitHub user
-- github_list_repositories: List repositories for the authenticated user
-- github_search_repositories: Search for GitHub repositories by query
-- github_get_repository_contents: Get contents of a file or directory in a repository
-- github_create_repository: Create a new GitHub repository
-- github_request: Make a custom GitHub API request\n\n`;
-
-        // Add usage examples for clarity
-        toolsDescription += `GitHub tools can be used in two ways:
-1. Using github_api with method and arguments:
-   <tool name="github_api" input="listRepositories()">List my repositories</tool>
-
-2. Using specific tool names:
-   <tool name="github_list_repositories" input="{}">List my repositories</tool>\n\n`;
-      }
-
-      // Add other MCP tools
-      Object.entries(tools).forEach(([name, tool]) => {
-        if (name !== 'github_api') {
-          toolsDescription += `- ${name}: ${tool.description || 'No description'}\n`;
-
-          if (tool.inputSchema) {
-            toolsDescription += `  Input schema: ${JSON.stringify(tool.inputSchema)}\n`;
-          }
-
-          toolsDescription += '\n';
-        }
-      });
-
-      return toolsDescription;
-    } catch (legacyError) {
-      logger.error('Legacy fallback also failed:', legacyError);
-      return null;
-    }
+    return null;
   }
 }
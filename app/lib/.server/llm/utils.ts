@@ -3,6 +3,7 @@ import { DEFAULT_MODEL, DEFAULT_PROVIDER, MODEL_REGEX, PROVIDER_REGEX } from '~/
 import { IGNORE_PATTERNS, type FileMap } from './constants';
 import ignore from 'ignore';
 import type { ContextAnnotation } from '~/types/context';
+import { MCP_RESOURCE_REGEX } from '~/lib/modules/mcp/resources';
 
 export function extractPropertiesFromMessage(message: Omit<Message, 'id'>): {
   model: string;
@@ -33,13 +34,13 @@ export function extractPropertiesFromMessage(message: Omit<Message, 'id'>): {
         if (item.type === 'text') {
           return {
             type: 'text',
-            text: item.text?.replace(MODEL_REGEX, '').replace(PROVIDER_REGEX, ''),
+            text: item.text?.replace(MODEL_REGEX, '').replace(PROVIDER_REGEX, '').replace(MCP_RESOURCE_REGEX, ''),
           };
         }
 
         return item; // Preserve image_url and other types as is
       })
-    : textContent.replace(MODEL_REGEX, '').replace(PROVIDER_REGEX, '');
+    : textContent.replace(MODEL_REGEX, '').replace(PROVIDER_REGEX, '').replace(MCP_RESOURCE_REGEX, '');
 
   return { model, provider, content: cleanedContent };
 }
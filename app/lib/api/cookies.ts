@@ -22,9 +22,17 @@ export function parseCookies(cookieHeader: string | null) {
   return cookies;
 }
 
-export function getApiKeysFromCookie(cookieHeader: string | null): Record<string, string> {
-  const cookies = parseCookies(cookieHeader);
-  return cookies.apiKeys ? JSON.parse(cookies.apiKeys) : {};
+// Header the browser sends the provider API keys in; they are kept in its credential vault, not in a cookie
+export const API_KEYS_HEADER = 'X-Api-Keys';
+
+export function getApiKeysFromRequest(request: Request): Record<string, string> {
+  const header = request.headers.get(API_KEYS_HEADER);
+
+  try {
+    return header ? JSON.parse(decodeURIComponent(header)) : {};
+  } catch {
+    return {};
+  }
 }
 
 export function getProviderSettingsFromCookie(cookieHeader: string | null): Record<string, any> {
@@ -1,6 +1,10 @@
 const encoder = new TextEncoder();
 const decoder = new TextDecoder();
 const IV_LENGTH = 16;
+const KEY_LENGTH = 32;
+const SALT_LENGTH = 16;
+const PBKDF2_ITERATIONS = 310000;
+const TOKEN_LENGTH = 24;
 
 export async function encrypt(key: string, data: string) {
   const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
@@ -43,6 +47,51 @@ export async function decrypt(key: string, payload: string) {
   return decoder.decode(plaintext);
 }
 
+export function generateKey() {
+  return decodeBase64(crypto.getRandomValues(new Uint8Array(KEY_LENGTH)));
+}
+
+// Random hex string that is safe to use in URLs, e.g. to tie answers to the request that asked for them
+export function generateToken() {
+  return Array.from(crypto.getRandomValues(new Uint8Array(TOKEN_LENGTH)), (byte) =>
+    byte.toString(16).padStart(2, '0'),
+  ).join('');
+}
+
+// Compare secrets in constant time, so the time taken does not tell how much of a guess was right
+export function timingSafeEqual(a: string, b: string) {
+  const left = encoder.encode(a);
+  const right = encoder.encode(b);
+  let difference = left.length ^ right.length;
+
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    difference |= (left[i] ?? 0) ^ (right[i] ?? 0);
+  }
+
+  return difference === 0;
+}
+
+export function generateSalt() {
+  return decodeBase64(crypto.getRandomValues(new Uint8Array(SALT_LENGTH)));
+}
+
+export async function deriveKey(passphrase: string, salt: string) {
+  const baseKey = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveBits']);
+
+  const bits = await crypto.subtle.deriveBits(
+    {
+      name: 'PBKDF2',
+      salt: encodeBase64(salt),
+      iterations: PBKDF2_ITERATIONS,
+      hash: 'SHA-256',
+    },
+    baseKey,
+    KEY_LENGTH * 8,
+  );
+
+  return decodeBase64(new Uint8Array(bits));
+}
+
 async function getKey(key: string) {
   return await crypto.subtle.importKey('raw', encodeBase64(key), { name: 'AES-CBC' }, false, ['encrypt', 'decrypt']);
 }
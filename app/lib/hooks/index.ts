@@ -12,3 +12,8 @@ export { useConnectionStatus } from './useConnectionStatus';
 export { useDebugStatus } from './useDebugStatus';
 export * from './useMCPToolExecute';
 export * from './useMCPToolUI';
+export * from './useMCPResources';
+export * from './useMCPPrompts';
+export * from './useMCPToolApprovals';
+export * from './useMCPToolCallLog';
+export * from './useMCPToolPlayground';
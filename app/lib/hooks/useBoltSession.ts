@@ -0,0 +1,332 @@
+/**
+ * Hook performing the tool calls external agents make on the bolt MCP server
+ * The tab opens a session with the token of the bolt MCP server, polls the server for actions and posts their
+ * results; only one tab answers each action
+ */
+
+import { useEffect, useRef } from 'react';
+import { useStore } from '@nanostores/react';
+import type { Message } from 'ai';
+import { createScopedLogger } from '~/utils/logger';
+import { chatId, db, getAll, getMessages } from '~/lib/persistence';
+import { StreamingMessageParser } from '~/lib/runtime/message-parser';
+import { deployToNetlify } from '~/lib/stores/netlify';
+import { MCPServerRegistry } from '~/lib/modules/mcp/registry';
+import { WORKBENCH_SERVER_ID } from '~/lib/modules/mcp/workbench-server';
+import { BOLT_SESSION_HEADER, type BoltSessionRequest } from '~/lib/modules/mcp/bolt-session';
+import { boltMCPTokenStore } from '~/lib/stores/boltMCP';
+import type { BoltAction } from '~/types/actions';
+
+const logger = createScopedLogger('useBoltSession');
+
+// API endpoint for the bolt MCP session
+const MCP_SESSION_API_ENDPOINT = '/api/mcp/session';
+
+// Time to wait before polling again after an error (5 seconds)
+const RETRY_DELAY = 5000;
+
+// Time a prompt may take to start streaming before the response is considered finished (5 seconds)
+const PROMPT_START_TIMEOUT = 5000;
+
+interface SessionOpenResponse {
+  enabled: boolean;
+  session?: string;
+}
+
+interface SessionPollResponse {
+  enabled: boolean;
+  requests: BoltSessionRequest[];
+}
+
+interface BoltSessionOptions {
+  /**
+   * Send a prompt as if the user typed it
+   */
+  sendPrompt: (prompt: string) => void;
+  isLoading: boolean;
+  messages: Message[];
+}
+
+/**
+ * Wait for some time
+ * @param ms Time in milliseconds
+ */
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Call a tool of the built-in workbench server, returning its text
+ * @param toolName Name of the tool
+ * @param args Arguments for the tool
+ * @throws Error when the tool reports an error
+ */
+async function callWorkbenchTool(toolName: string, args: Record<string, unknown>): Promise<string> {
+  const server = MCPServerRegistry.getInstance().getServer(WORKBENCH_SERVER_ID);
+
+  if (!server) {
+    throw new Error('The workbench is not available');
+  }
+
+  const result = await server.executeToolCall(toolName, args);
+  const text = (result.content || []).map((content: { text?: string }) => content.text ?? '').join('\n');
+
+  if (result.isError) {
+    throw new Error(text);
+  }
+
+  return text;
+}
+
+/**
+ * List the saved chats, most recent first
+ */
+async function listChats() {
+  if (!db) {
+    throw new Error('Chat history is not available');
+  }
+
+  const chats = await getAll(db);
+
+  return chats
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+    .map(({ id, urlId, description, timestamp, messages }) => ({
+      id,
+      urlId,
+      description,
+      timestamp,
+      messageCount: messages.length,
+    }));
+}
+
+/**
+ * Get the artifacts of a chat with their actions
+ * @param id ID or URL ID of the chat
+ */
+async function getArtifacts(id: string | undefined) {
+  if (!db) {
+    throw new Error('Chat history is not available');
+  }
+
+  if (!id) {
+    throw new Error('No chat is open; pass a chat ID');
+  }
+
+  const chat = await getMessages(db, id);
+
+  if (!chat) {
+    throw new Error(`Chat ${id} not found`);
+  }
+
+  const artifacts: Array<{ id: string; title: string; messageId: string; actions: BoltAction[] }> = [];
+  const parser = new StreamingMessageParser({
+    callbacks: {
+      onArtifactOpen: ({ id: artifactId, title, messageId }) => {
+        artifacts.push({ id: artifactId, title, messageId, actions: [] });
+      },
+      onActionClose: ({ artifactId, action }) => {
+        artifacts.findLast((artifact) => artifact.id === artifactId)?.actions.push(action);
+      },
+    },
+  });
+
+  chat.messages
+    .filter((message) => message.role === 'assistant' && typeof message.content === 'string')
+    .forEach((message) => parser.parse(message.id, message.content));
+
+  return { chatId: chat.id, description: chat.description, artifacts };
+}
+
+/**
+ * Perform the actions external agents send to the bolt MCP server while this tab is open
+ * @param options Access to the chat
+ */
+export function useBoltSession({ sendPrompt, isLoading, messages }: BoltSessionOptions) {
+  const sendPromptRef = useRef(sendPrompt);
+  const isLoadingRef = useRef(isLoading);
+  const messagesRef = useRef(messages);
+
+  sendPromptRef.current = sendPrompt;
+  isLoadingRef.current = isLoading;
+  messagesRef.current = messages;
+
+  const token = useStore(boltMCPTokenStore);
+
+  useEffect(() => {
+    // Agents can only reach a tab that has the token
+    if (!token) {
+      return undefined;
+    }
+
+    const controller = new AbortController();
+
+    // Secret of the session, sent with every poll and result
+    let session: string | undefined;
+
+    /**
+     * Send a prompt and wait for the response
+     * @param prompt Prompt to send
+     */
+    const runPrompt = async (prompt: string) => {
+      if (isLoadingRef.current) {
+        throw new Error('bolt is already answering a prompt');
+      }
+
+      const startedAt = Date.now();
+      let started = false;
+
+      sendPromptRef.current(prompt);
+
+      // The response is finished once streaming stopped, including the rounds of tool calls
+      while (!controller.signal.aborted) {
+        await delay(250);
+
+        if (isLoadingRef.current) {
+          started = true;
+        } else if (started || Date.now() - startedAt > PROMPT_START_TIMEOUT) {
+          break;
+        }
+      }
+
+      const response = messagesRef.current[messagesRef.current.length - 1];
+
+      return {
+        chatId: chatId.get(),
+        response: response?.role === 'assistant' ? response.content : '',
+      };
+    };
+
+    /**
+     * Perform an action
+     * @param request Action sent by the server
+     */
+    const perform = async ({ action, args }: BoltSessionRequest): Promise<unknown> => {
+      switch (action) {
+        case 'list_chats':
+          return listChats();
+        case 'list_files':
+          return callWorkbenchTool('list_dir', { path: args.path });
+        case 'read_file':
+          return callWorkbenchTool('read_file', { path: args.path });
+        case 'send_prompt':
+          return runPrompt(String(args.prompt ?? ''));
+        case 'get_artifacts':
+          return getArtifacts((args.chatId as string | undefined) || chatId.get());
+        case 'deploy': {
+          const currentChatId = chatId.get();
+
+          if (!currentChatId) {
+            throw new Error('No chat is open');
+          }
+
+          return { url: await deployToNetlify(currentChatId) };
+        }
+        default:
+          throw new Error(`Unknown action: ${action}`);
+      }
+    };
+
+    /**
+     * Perform an action and post its outcome
+     * @param request Action sent by the server
+     */
+    const handle = async (request: BoltSessionRequest) => {
+      let outcome: { result?: unknown; error?: string };
+
+      try {
+        outcome = { result: await perform(request) };
+      } catch (error) {
+        outcome = { error: error instanceof Error ? error.message : String(error) };
+      }
+
+      await fetch(MCP_SESSION_API_ENDPOINT, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          [BOLT_SESSION_HEADER]: session ?? '',
+        },
+        body: JSON.stringify({ id: request.id, ...outcome }),
+      }).catch((error) => {
+        logger.error(`Error posting the result of ${request.action}:`, error);
+      });
+    };
+
+    /**
+     * Open a session
+     * @returns False when the server has no token or another one, so no agent can send actions
+     */
+    const openSession = async (): Promise<boolean> => {
+      const response = await fetch(MCP_SESSION_API_ENDPOINT, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ open: true }),
+        signal: controller.signal,
+      });
+
+      if (response.status === 401) {
+        logger.warn('The bolt MCP token does not match the token of the server');
+        return false;
+      }
+
+      if (!response.ok) {
+        throw new Error(`Failed to open the bolt session: ${response.statusText}`);
+      }
+
+      const data = (await response.json()) as SessionOpenResponse;
+      session = data.session;
+
+      return data.enabled;
+    };
+
+    const poll = async () => {
+      while (!controller.signal.aborted) {
+        try {
+          if (!session && !(await openSession())) {
+            return;
+          }
+
+          const response = await fetch(MCP_SESSION_API_ENDPOINT, {
+            headers: { [BOLT_SESSION_HEADER]: session ?? '' },
+            signal: controller.signal,
+          });
+
+          // The session was closed, e.g. after the tab slept or the server restarted
+          if (response.status === 401) {
+            session = undefined;
+            continue;
+          }
+
+          if (!response.ok) {
+            throw new Error(`Failed to poll the bolt session: ${response.statusText}`);
+          }
+
+          const { enabled, requests } = (await response.json()) as SessionPollResponse;
+
+          // The server has no token, so no agent can send actions
+          if (!enabled) {
+            return;
+          }
+
+          requests.forEach((request) => {
+            logger.info(`Performing ${request.action} for an external agent`);
+            handle(request);
+          });
+        } catch (error) {
+          if (controller.signal.aborted) {
+            return;
+          }
+
+          logger.error('Error polling the bolt session:', error);
+          await delay(RETRY_DELAY);
+        }
+      }
+    };
+
+    poll();
+
+    return () => controller.abort();
+  }, [token]);
+}
@@ -5,9 +5,17 @@ import git, { type GitAuth, type PromiseFsClient } from 'isomorphic-git';
 import http from 'isomorphic-git/http/web';
 import Cookies from 'js-cookie';
 import { toast } from 'react-toastify';
+import { githubConnection } from '~/lib/stores/github';
 
 const lookupSavedPassword = (url: string) => {
   const domain = url.split('/')[2];
+  const githubToken = githubConnection.get().token;
+
+  // The token of the GitHub connection is kept in the credential vault
+  if (domain === 'github.com' && githubToken) {
+    return { username: githubToken, password: 'x-oauth-basic' };
+  }
+
   const gitCreds = Cookies.get(`git:${domain}`);
 
   if (!gitCreds) {
@@ -0,0 +1,105 @@
+/**
+ * Hook for listing and expanding MCP prompts through the API
+ */
+
+import { useState, useCallback } from 'react';
+import { createScopedLogger } from '~/utils/logger';
+import type { MCPPrompt, MCPPromptResult } from '~/lib/modules/mcp/config';
+
+const logger = createScopedLogger('useMCPPrompts');
+
+// API endpoint for MCP prompts
+const MCP_PROMPTS_API_ENDPOINT = '/api/mcp/prompts';
+
+/**
+ * Prompt together with the server that provides it
+ */
+export interface MCPServerPrompt extends MCPPrompt {
+  serverId: string;
+}
+
+interface PromptsResponse {
+  prompts?: Record<string, MCPPrompt[]>;
+  error?: string;
+}
+
+interface GetPromptResponse extends Partial<MCPPromptResult> {
+  error?: string;
+}
+
+/**
+ * Hook for MCP prompts
+ */
+export function useMCPPrompts() {
+  const [prompts, setPrompts] = useState<MCPServerPrompt[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [loaded, setLoaded] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Fetch prompts of all enabled servers
+   */
+  const fetchPrompts = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(MCP_PROMPTS_API_ENDPOINT);
+      const data = (await response.json()) as PromptsResponse;
+
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to fetch prompts: ${response.statusText}`);
+      }
+
+      setPrompts(
+        Object.entries(data.prompts || {}).flatMap(([serverId, serverPrompts]) =>
+          serverPrompts.map((prompt) => ({ ...prompt, serverId })),
+        ),
+      );
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      logger.error('Error fetching MCP prompts:', err);
+      setError(errorMessage);
+    } finally {
+      setLoading(false);
+      setLoaded(true);
+    }
+  }, []);
+
+  /**
+   * Expand a prompt with the given arguments
+   * @param prompt Prompt to expand
+   * @param args Values for the prompt arguments
+   */
+  const getPrompt = useCallback(
+    async (prompt: MCPServerPrompt, args: Record<string, string>): Promise<MCPPromptResult> => {
+      const response = await fetch(MCP_PROMPTS_API_ENDPOINT, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ serverId: prompt.serverId, name: prompt.name, arguments: args }),
+      });
+      const data = (await response.json()) as GetPromptResponse;
+
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to get prompt: ${response.statusText}`);
+      }
+
+      return {
+        description: data.description,
+        messages: data.messages || [],
+      };
+    },
+    [],
+  );
+
+  return {
+    prompts,
+    loading,
+    loaded,
+    error,
+    fetchPrompts,
+    getPrompt,
+  };
+}
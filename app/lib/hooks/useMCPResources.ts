@@ -0,0 +1,99 @@
+/**
+ * Hook for browsing MCP resources through the API
+ */
+
+import { useState, useCallback } from 'react';
+import { createScopedLogger } from '~/utils/logger';
+import type { MCPResource, MCPResourceContent, MCPResourceTemplate } from '~/lib/modules/mcp/config';
+
+const logger = createScopedLogger('useMCPResources');
+
+// API endpoint for MCP resources
+const MCP_RESOURCES_API_ENDPOINT = '/api/mcp/resources';
+
+/**
+ * Resource attached to the next chat message
+ */
+export interface MCPResourceAttachment {
+  serverId: string;
+  uri: string;
+  name: string;
+}
+
+interface ResourcesResponse {
+  resources?: Record<string, MCPResource[]>;
+  templates?: Record<string, MCPResourceTemplate[]>;
+  error?: string;
+}
+
+interface ReadResourceResponse {
+  contents?: MCPResourceContent[];
+  error?: string;
+}
+
+/**
+ * Hook for browsing MCP resources
+ */
+export function useMCPResources() {
+  const [resources, setResources] = useState<Record<string, MCPResource[]>>({});
+  const [templates, setTemplates] = useState<Record<string, MCPResourceTemplate[]>>({});
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Fetch resources and resource templates of all enabled servers
+   */
+  const fetchResources = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(MCP_RESOURCES_API_ENDPOINT);
+      const data = (await response.json()) as ResourcesResponse;
+
+      if (!response.ok) {
+        throw new Error(data.error || `Failed to fetch resources: ${response.statusText}`);
+      }
+
+      setResources(data.resources || {});
+      setTemplates(data.templates || {});
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Unknown error';
+      logger.error('Error fetching MCP resources:', err);
+      setError(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  /**
+   * Read the contents of a resource
+   * @param serverId ID of the server that provides the resource
+   * @param uri URI of the resource
+   */
+  const readResource = useCallback(async (serverId: string, uri: string): Promise<MCPResourceContent[]> => {
+    const response = await fetch(MCP_RESOURCES_API_ENDPOINT, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ serverId, uri }),
+    });
+    const data = (await response.json()) as ReadResourceResponse;
+
+    if (!response.ok) {
+      throw new Error(data.error || `Failed to read resource: ${response.statusText}`);
+    }
+
+    return data.contents || [];
+  }, []);
+
+  return {
+    resources,
+    templates,
+    loading,
+    error,
+    fetchResources,
+    readResource,
+  };
+}
@@ -0,0 +1,39 @@
+/**
+ * Hook reporting the project of the active chat to MCP servers as their root
+ */
+
+import { useEffect } from 'react';
+import { useStore } from '@nanostores/react';
+import { chatId, description } from '~/lib/persistence/useChatHistory';
+import { createRoot } from '~/lib/modules/mcp/roots';
+import { WORK_DIR, WORK_DIR_NAME } from '~/utils/constants';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('useMCPRoots');
+
+// API endpoint for MCP roots
+const MCP_ROOTS_API_ENDPOINT = '/api/mcp/roots';
+
+/**
+ * Report the project folder of the active chat as the MCP roots
+ * Imported folders and cloned repositories are written to the project folder of a new chat named after them,
+ * so switching chats or importing a folder makes servers receive `roots/list_changed`
+ */
+export function useMCPRoots() {
+  const currentChatId = useStore(chatId);
+  const currentDescription = useStore(description);
+
+  useEffect(() => {
+    const roots = [createRoot(WORK_DIR, currentDescription || WORK_DIR_NAME)];
+
+    fetch(MCP_ROOTS_API_ENDPOINT, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ roots }),
+    }).catch((error) => {
+      logger.error('Error reporting MCP roots:', error);
+    });
+  }, [currentChatId, currentDescription]);
+}
@@ -0,0 +1,78 @@
+/**
+ * Hook for answering MCP sampling requests through the API
+ */
+
+import { useState, useCallback, useMemo } from 'react';
+import type { JSONValue } from 'ai';
+import { createScopedLogger } from '~/utils/logger';
+import type { SamplingApprovalAnnotation } from '~/types/context';
+
+const logger = createScopedLogger('useMCPSamplingApprovals');
+
+// API endpoint for MCP sampling approvals
+const MCP_SAMPLING_APPROVALS_API_ENDPOINT = '/api/mcp/sampling-approvals';
+
+interface SamplingApprovalResponse {
+  success?: boolean;
+  error?: string;
+}
+
+/**
+ * Hook for the sampling requests waiting for approval in the chat data stream
+ * @param data Data annotations of the chat stream
+ */
+export function useMCPSamplingApprovals(data: JSONValue[] | undefined) {
+  const [answeredIds, setAnsweredIds] = useState<string[]>([]);
+  const [submitting, setSubmitting] = useState<boolean>(false);
+
+  const pendingRequests = useMemo(
+    () =>
+      (data || []).filter(
+        (x) => typeof x === 'object' && (x as any)?.type === 'samplingApproval' && !answeredIds.includes((x as any).id),
+      ) as SamplingApprovalAnnotation[],
+    [data, answeredIds],
+  );
+
+  /**
+   * Approve or reject a sampling request
+   * @param id ID of the sampling request
+   * @param approved Whether the server may use the model
+   * @param maxTokens Token limit of the completion
+   */
+  const respond = useCallback(
+    async (id: string, approved: boolean, maxTokens?: number) => {
+      const scope = pendingRequests.find((request) => request.id === id)?.scope;
+
+      setSubmitting(true);
+
+      try {
+        const response = await fetch(MCP_SAMPLING_APPROVALS_API_ENDPOINT, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ id, approved, maxTokens, scope }),
+        });
+        const result = (await response.json()) as SamplingApprovalResponse;
+
+        if (!response.ok) {
+          throw new Error(result.error || `Failed to answer sampling request: ${response.statusText}`);
+        }
+      } catch (err) {
+        logger.error('Error answering MCP sampling request:', err);
+        throw err;
+      } finally {
+        // The request is gone either way, e.g. it timed out on the server
+        setAnsweredIds((ids) => [...ids, id]);
+        setSubmitting(false);
+      }
+    },
+    [pendingRequests],
+  );
+
+  return {
+    pendingRequests,
+    submitting,
+    respond,
+  };
+}
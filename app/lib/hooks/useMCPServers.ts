@@ -2,14 +2,26 @@
  * Hook for managing MCP servers through the API
  */
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { createScopedLogger } from '~/utils/logger';
+import type { MCPAuthState, MCPOpenAPIConfig, MCPToolPolicies, MCPWorkflow } from '~/lib/modules/mcp/config';
+import type { MCPAuthorizationResult } from '~/lib/modules/mcp/oauth';
+import type { MCPConfigFile, MCPConfigImportResult, MCPImportConflictStrategy } from '~/lib/modules/mcp/config-file';
 
 const logger = createScopedLogger('useMCPServers');
 
 // API endpoint for MCP servers
 const MCP_API_ENDPOINT = '/api/mcp-servers';
 
+// API endpoint for OAuth sign-in
+const MCP_OAUTH_ENDPOINT = '/api/mcp/oauth';
+
+// API endpoint for importing and exporting `mcpServers` files
+const MCP_CONFIG_ENDPOINT = '/api/mcp/config';
+
+// API endpoint for workflows
+const MCP_WORKFLOWS_ENDPOINT = '/api/mcp/workflows';
+
 /**
  * Server status from the runtime manager
  */
@@ -20,9 +32,17 @@ export interface ServerStatus {
   enabled: boolean;
   connected: boolean;
   toolCount: number;
+  toolNames?: string[];
   lastChecked: Date;
   statusMessage?: string;
   errorMessage?: string;
+  transport?: 'streamable-http' | 'sse' | 'stdio';
+  command?: string;
+  args?: string[];
+  cwd?: string;
+  toolPolicies?: MCPToolPolicies;
+  authState?: MCPAuthState;
+  openapi?: MCPOpenAPIConfig;
 }
 
 /**
@@ -39,7 +59,7 @@ export interface DiscoveredServer {
  */
 export interface AddServerParams {
   name: string;
-  baseUrl: string;
+  baseUrl?: string;
   config?: any;
 }
 
@@ -68,10 +88,16 @@ interface ServerResponse {
   error?: string;
 }
 
+interface WorkflowsResponse {
+  workflows: MCPWorkflow[];
+  revision?: number;
+}
+
 interface ServersResponse {
   servers: ServerStatus[];
   error?: string;
   addedCount?: number;
+  revision?: number;
 }
 
 // Type guard for ServerResponse
@@ -98,6 +124,10 @@ export function useMCPServers() {
   const [error, setError] = useState<string | null>(null);
   const [discoveringServers, setDiscoveringServers] = useState<boolean>(false);
   const [discoveredServers, setDiscoveredServers] = useState<DiscoveredServer[]>([]);
+  const [workflows, setWorkflows] = useState<MCPWorkflow[]>([]);
+
+  // Revision of the servers last listed, sent with changes so the server can refuse changes to outdated servers
+  const revisionRef = useRef<number | undefined>(undefined);
 
   /**
    * Fetch the list of servers
@@ -127,6 +157,7 @@ export function useMCPServers() {
       }));
 
       setServers(formattedServers);
+      revisionRef.current = data.revision;
     } catch (error) {
       logger.error('Error fetching MCP servers:', error);
       setError(error instanceof Error ? error.message : 'Failed to fetch servers');
@@ -135,6 +166,56 @@ export function useMCPServers() {
     }
   }, []);
 
+  /**
+   * Fetch the list of workflows
+   * Workflows are saved with the servers, so listing them also updates the revision
+   */
+  const fetchWorkflows = useCallback(async () => {
+    try {
+      const response = await fetch(MCP_WORKFLOWS_ENDPOINT);
+
+      if (!response.ok) {
+        throw new Error(`Failed to fetch workflows: ${response.statusText}`);
+      }
+
+      const data = (await response.json()) as WorkflowsResponse;
+
+      setWorkflows(data.workflows);
+      revisionRef.current = data.revision;
+    } catch (error) {
+      logger.error('Error fetching MCP workflows:', error);
+    }
+  }, []);
+
+  /**
+   * Get the headers of a request changing the servers
+   * The revision the change is based on is sent as If-Match
+   */
+  const getChangeHeaders = useCallback((json: boolean = true): Record<string, string> => {
+    const headers: Record<string, string> = json ? { 'Content-Type': 'application/json' } : {};
+
+    if (revisionRef.current !== undefined) {
+      headers['If-Match'] = String(revisionRef.current);
+    }
+
+    return headers;
+  }, []);
+
+  /**
+   * Reload the servers when a change was refused because they changed elsewhere
+   * @param response Response to the change
+   */
+  const reloadOnConflict = useCallback(
+    async (response: Response) => {
+      if (response.status === 409) {
+        logger.warn('MCP servers were changed elsewhere; reloading them');
+        await fetchServers(true);
+        await fetchWorkflows();
+      }
+    },
+    [fetchServers, fetchWorkflows],
+  );
+
   /**
    * Add a new server
    * @param params Server parameters
@@ -144,15 +225,15 @@ export function useMCPServers() {
       try {
         const response = await fetch(MCP_API_ENDPOINT, {
           method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
+          headers: getChangeHeaders(),
           body: JSON.stringify(params),
         });
 
         const data = await response.json();
 
         if (!response.ok) {
+          await reloadOnConflict(response);
+
           if (isServerResponse(data)) {
             throw new Error(data.error || `Failed to add server: ${response.statusText}`);
           }
@@ -168,7 +249,7 @@ export function useMCPServers() {
         throw error;
       }
     },
-    [fetchServers],
+    [fetchServers, getChangeHeaders, reloadOnConflict],
   );
 
   /**
@@ -180,15 +261,15 @@ export function useMCPServers() {
       try {
         const response = await fetch(`${MCP_API_ENDPOINT}/${params.serverId}`, {
           method: 'PUT',
-          headers: {
-            'Content-Type': 'application/json',
-          },
+          headers: getChangeHeaders(),
           body: JSON.stringify(params),
         });
 
         const data = await response.json();
 
         if (!response.ok) {
+          await reloadOnConflict(response);
+
           if (isServerResponse(data)) {
             throw new Error(data.error || `Failed to update server: ${response.statusText}`);
           }
@@ -204,7 +285,7 @@ export function useMCPServers() {
         throw error;
       }
     },
-    [fetchServers],
+    [fetchServers, getChangeHeaders, reloadOnConflict],
   );
 
   /**
@@ -217,9 +298,7 @@ export function useMCPServers() {
       try {
         const response = await fetch(MCP_API_ENDPOINT, {
           method: 'PUT',
-          headers: {
-            'Content-Type': 'application/json',
-          },
+          headers: getChangeHeaders(),
           body: JSON.stringify({
             serverId,
             enabled,
@@ -229,6 +308,8 @@ export function useMCPServers() {
         const data = await response.json();
 
         if (!response.ok) {
+          await reloadOnConflict(response);
+
           if (isServerResponse(data)) {
             throw new Error(data.error || `Failed to ${enabled ? 'enable' : 'disable'} server: ${response.statusText}`);
           }
@@ -244,7 +325,7 @@ export function useMCPServers() {
         throw error;
       }
     },
-    [fetchServers],
+    [fetchServers, getChangeHeaders, reloadOnConflict],
   );
 
   /**
@@ -256,11 +337,14 @@ export function useMCPServers() {
       try {
         const response = await fetch(`${MCP_API_ENDPOINT}?serverId=${serverId}`, {
           method: 'DELETE',
+          headers: getChangeHeaders(false),
         });
 
         const data = await response.json();
 
         if (!response.ok) {
+          await reloadOnConflict(response);
+
           if (isServerResponse(data)) {
             throw new Error(data.error || `Failed to remove server: ${response.statusText}`);
           }
@@ -276,7 +360,57 @@ export function useMCPServers() {
         throw error;
       }
     },
-    [fetchServers],
+    [fetchServers, getChangeHeaders, reloadOnConflict],
+  );
+
+  /**
+   * Add a workflow, or update the workflow with the same ID
+   * @param workflow Workflow to save
+   * @returns The saved workflow
+   */
+  const saveWorkflow = useCallback(
+    async (workflow: MCPWorkflow): Promise<MCPWorkflow> => {
+      const response = await fetch(MCP_WORKFLOWS_ENDPOINT, {
+        method: 'POST',
+        headers: getChangeHeaders(),
+        body: JSON.stringify(workflow),
+      });
+
+      const data = (await response.json()) as { workflow?: MCPWorkflow; error?: string };
+
+      if (!response.ok || !data.workflow) {
+        await reloadOnConflict(response);
+        throw new Error(data.error || `Failed to save workflow: ${response.statusText}`);
+      }
+
+      await fetchWorkflows();
+
+      return data.workflow;
+    },
+    [fetchWorkflows, getChangeHeaders, reloadOnConflict],
+  );
+
+  /**
+   * Remove a workflow
+   * @param workflowId Workflow ID
+   */
+  const removeWorkflow = useCallback(
+    async (workflowId: string) => {
+      const response = await fetch(`${MCP_WORKFLOWS_ENDPOINT}?workflowId=${encodeURIComponent(workflowId)}`, {
+        method: 'DELETE',
+        headers: getChangeHeaders(false),
+      });
+
+      if (!response.ok) {
+        await reloadOnConflict(response);
+
+        const data = (await response.json().catch(() => ({}))) as { error?: string };
+        throw new Error(data.error || `Failed to remove workflow: ${response.statusText}`);
+      }
+
+      await fetchWorkflows();
+    },
+    [fetchWorkflows, getChangeHeaders, reloadOnConflict],
   );
 
   /**
@@ -349,6 +483,175 @@ export function useMCPServers() {
     }
   }, []);
 
+  /**
+   * Sign in to a server that requires OAuth
+   * The authorization server is opened in a popup that reports back when the sign-in ends
+   * @param serverId Server ID
+   */
+  const signInToServer = useCallback(
+    async (serverId: string) => {
+      // Open the popup before the request, while the browser still counts it as opened by the user
+      const popup = window.open('about:blank', 'mcp-oauth', 'width=600,height=700');
+
+      if (!popup) {
+        throw new Error('The sign-in window was blocked by the browser');
+      }
+
+      let authorizationUrl: string | undefined;
+
+      try {
+        const response = await fetch(MCP_OAUTH_ENDPOINT, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ serverId }),
+        });
+        const data = (await response.json()) as { authorizationUrl?: string; error?: string };
+
+        if (!response.ok) {
+          throw new Error(data.error || `Failed to sign in: ${response.statusText}`);
+        }
+
+        authorizationUrl = data.authorizationUrl;
+      } catch (error) {
+        popup.close();
+        logger.error('Error signing in to MCP server:', error);
+        throw error;
+      }
+
+      // Stored tokens were refreshed, so there is nothing for the user to do
+      if (!authorizationUrl) {
+        popup.close();
+        return refreshServer(serverId);
+      }
+
+      popup.location.href = authorizationUrl;
+
+      const result = await new Promise<MCPAuthorizationResult | null>((resolve) => {
+        const handleMessage = (event: MessageEvent) => {
+          const data = event.data as MCPAuthorizationResult | undefined;
+
+          if (event.origin !== window.location.origin || data?.type !== 'mcp-oauth' || data.serverId !== serverId) {
+            return;
+          }
+
+          cleanup();
+          resolve(data);
+        };
+
+        // Stop waiting when the user closes the popup without finishing
+        const closedInterval = window.setInterval(() => {
+          if (popup.closed) {
+            cleanup();
+            resolve(null);
+          }
+        }, 500);
+
+        const cleanup = () => {
+          window.removeEventListener('message', handleMessage);
+          window.clearInterval(closedInterval);
+        };
+
+        window.addEventListener('message', handleMessage);
+      });
+
+      if (!result) {
+        throw new Error('The sign-in window was closed before signing in');
+      }
+
+      if (!result.success) {
+        throw new Error(result.message);
+      }
+
+      return refreshServer(serverId);
+    },
+    [refreshServer],
+  );
+
+  /**
+   * Forget the OAuth tokens of a server
+   * @param serverId Server ID
+   */
+  const signOutOfServer = useCallback(async (serverId: string) => {
+    try {
+      const response = await fetch(`${MCP_OAUTH_ENDPOINT}?serverId=${encodeURIComponent(serverId)}`, {
+        method: 'DELETE',
+      });
+      const data = await response.json();
+
+      if (!response.ok || !isServerResponse(data)) {
+        throw new Error((data as { error?: string }).error || `Failed to sign out: ${response.statusText}`);
+      }
+
+      const updatedServer = {
+        ...data.server,
+        lastChecked: new Date(data.server.lastChecked),
+      };
+
+      setServers((prev) => prev.map((server) => (server.id === serverId ? updatedServer : server)));
+
+      return updatedServer;
+    } catch (error) {
+      logger.error('Error signing out of MCP server:', error);
+      throw error;
+    }
+  }, []);
+
+  /**
+   * Export all servers as an `mcpServers` file with their secrets redacted
+   */
+  const exportServerConfig = useCallback(async (): Promise<MCPConfigFile> => {
+    try {
+      const response = await fetch(MCP_CONFIG_ENDPOINT);
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error((data as { error?: string }).error || `Failed to export servers: ${response.statusText}`);
+      }
+
+      return data as MCPConfigFile;
+    } catch (error) {
+      logger.error('Error exporting MCP servers:', error);
+      throw error;
+    }
+  }, []);
+
+  /**
+   * Add the servers of an `mcpServers` file
+   * @param file Parsed contents of the file
+   * @param onConflict What to do with servers whose name is already taken
+   */
+  const importServerConfig = useCallback(
+    async (file: unknown, onConflict: MCPImportConflictStrategy = 'rename'): Promise<MCPConfigImportResult> => {
+      try {
+        const response = await fetch(`${MCP_CONFIG_ENDPOINT}?onConflict=${onConflict}`, {
+          method: 'POST',
+          headers: getChangeHeaders(),
+          body: JSON.stringify(file),
+        });
+        const data = await response.json();
+
+        if (!response.ok || !isServersResponse(data)) {
+          await reloadOnConflict(response);
+          throw new Error((data as { error?: string }).error || `Failed to import servers: ${response.statusText}`);
+        }
+
+        setServers(
+          data.servers.map((server) => ({
+            ...server,
+            lastChecked: new Date(server.lastChecked),
+          })),
+        );
+        revisionRef.current = data.revision;
+
+        return data as unknown as MCPConfigImportResult;
+      } catch (error) {
+        logger.error('Error importing MCP servers:', error);
+        throw error;
+      }
+    },
+    [getChangeHeaders, reloadOnConflict],
+  );
+
   /**
    * Discover local MCP servers
    * @param port Port to scan (default: 3001)
@@ -425,10 +728,10 @@ export function useMCPServers() {
     }
   }, []);
 
-  // Load servers on mount
+  // Load servers and workflows on mount
   useEffect(() => {
-    fetchServers(true);
-  }, [fetchServers]);
+    fetchServers(true).then(fetchWorkflows);
+  }, [fetchServers, fetchWorkflows]);
 
   return {
     servers,
@@ -443,7 +746,15 @@ export function useMCPServers() {
     removeServer,
     refreshAllServers,
     refreshServer,
+    signInToServer,
+    signOutOfServer,
+    exportServerConfig,
+    importServerConfig,
     discoverServers,
     autoDiscoverAndAddServers,
+    workflows,
+    fetchWorkflows,
+    saveWorkflow,
+    removeWorkflow,
   };
 }
@@ -0,0 +1,89 @@
+/**
+ * Hook for answering MCP tool approval requests through the API, or in the browser for calls that run there
+ */
+
+import { useState, useCallback, useMemo } from 'react';
+import type { JSONValue } from 'ai';
+import { useStore } from '@nanostores/react';
+import { createScopedLogger } from '~/utils/logger';
+import type { ToolApprovalAnnotation } from '~/types/context';
+import { toolApprovalPrompts, type MCPToolApprovalPrompt } from '~/lib/stores/mcpToolApprovals';
+
+const logger = createScopedLogger('useMCPToolApprovals');
+
+// API endpoint for MCP tool approvals
+const MCP_TOOL_APPROVALS_API_ENDPOINT = '/api/mcp/tool-approvals';
+
+interface ToolApprovalResponse {
+  success?: boolean;
+  error?: string;
+}
+
+/**
+ * Hook for the tool calls waiting for approval in the chat data stream and those made outside of chat responses
+ * @param data Data annotations of the chat stream
+ */
+export function useMCPToolApprovals(data: JSONValue[] | undefined) {
+  const [answeredIds, setAnsweredIds] = useState<string[]>([]);
+  const [submitting, setSubmitting] = useState<boolean>(false);
+  const prompts = useStore(toolApprovalPrompts);
+
+  const pendingApprovals = useMemo(
+    (): MCPToolApprovalPrompt[] =>
+      [
+        ...((data || []).filter(
+          (x) => typeof x === 'object' && (x as any)?.type === 'toolApproval',
+        ) as ToolApprovalAnnotation[]),
+        ...prompts,
+      ].filter((approval) => !answeredIds.includes(approval.id)),
+    [data, prompts, answeredIds],
+  );
+
+  /**
+   * Approve or deny a tool call
+   * @param id ID of the approval request
+   * @param approved Whether the tool call may run
+   */
+  const respond = useCallback(
+    async (id: string, approved: boolean) => {
+      const approval = pendingApprovals.find((pending) => pending.id === id);
+
+      // Calls run in the browser wait for the answer here
+      if (approval?.resolve) {
+        approval.resolve(approved);
+        return;
+      }
+
+      setSubmitting(true);
+
+      try {
+        const response = await fetch(MCP_TOOL_APPROVALS_API_ENDPOINT, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ id, approved, scope: approval?.scope }),
+        });
+        const result = (await response.json()) as ToolApprovalResponse;
+
+        if (!response.ok) {
+          throw new Error(result.error || `Failed to answer approval request: ${response.statusText}`);
+        }
+      } catch (err) {
+        logger.error('Error answering MCP tool approval:', err);
+        throw err;
+      } finally {
+        // The request is gone either way, e.g. it timed out on the server
+        setAnsweredIds((ids) => [...ids, id]);
+        setSubmitting(false);
+      }
+    },
+    [pendingApprovals],
+  );
+
+  return {
+    pendingApprovals,
+    submitting,
+    respond,
+  };
+}
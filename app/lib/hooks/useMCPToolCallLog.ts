@@ -0,0 +1,173 @@
+/**
+ * Hooks for the MCP tool call audit log kept in IndexedDB
+ */
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { generateId, type JSONValue } from 'ai';
+import { createScopedLogger } from '~/utils/logger';
+import { addToolCallRecord, chatId, clearToolCallRecords, db, getToolCallRecords } from '~/lib/persistence';
+import type { MCPToolCallRecord } from '~/lib/modules/mcp/config';
+import type { ToolCallAnnotation } from '~/types/context';
+
+const logger = createScopedLogger('useMCPToolCallLog');
+
+interface ToolResponse {
+  result?: any;
+  error?: string;
+
+  // Record of the call made by the server
+  record?: MCPToolCallRecord;
+}
+
+/**
+ * Store a tool call in the tool call log
+ * Calls made outside of a chat response, e.g. from the playground, are only stored this way
+ * @param record Record of the call
+ */
+export async function storeToolCallRecord(record: MCPToolCallRecord): Promise<void> {
+  if (!db) {
+    return;
+  }
+
+  try {
+    await addToolCallRecord(db, record);
+  } catch (error) {
+    logger.error('Failed to store MCP tool call:', error);
+  }
+}
+
+/**
+ * Store the tool calls reported in the chat data stream
+ * The server links every call to its chat and assistant message
+ * @param data Data annotations of the chat stream
+ */
+export function useMCPToolCallRecorder(data: JSONValue[] | undefined) {
+  const storedIds = useRef(new Set<string>());
+
+  useEffect(() => {
+    if (!db || !data) {
+      return;
+    }
+
+    const annotations = data.filter(
+      (x) => typeof x === 'object' && (x as any)?.type === 'toolCall',
+    ) as unknown as ToolCallAnnotation[];
+
+    for (const { record } of annotations) {
+      if (storedIds.current.has(record.id)) {
+        continue;
+      }
+
+      storedIds.current.add(record.id);
+
+      // The first request of a new chat is sent before the chat is saved and has its ID
+      storeToolCallRecord({ ...record, chatId: record.chatId ?? chatId.get() });
+    }
+  }, [data]);
+}
+
+/**
+ * Hook for browsing and replaying the MCP tool call log
+ */
+export function useMCPToolCallLog() {
+  const [records, setRecords] = useState<MCPToolCallRecord[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Load all recorded tool calls, newest first
+   */
+  const loadRecords = useCallback(async () => {
+    if (!db) {
+      setError('Tool call log is unavailable because chat persistence is disabled');
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      setRecords(await getToolCallRecords(db));
+    } catch (err) {
+      logger.error('Error loading MCP tool calls:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  /**
+   * Delete all recorded tool calls
+   */
+  const clearRecords = useCallback(async () => {
+    if (!db) {
+      return;
+    }
+
+    await clearToolCallRecords(db);
+    setRecords([]);
+  }, []);
+
+  /**
+   * Run a recorded tool call again on the same server and record the new call
+   * @param record Tool call to replay
+   * @returns Record of the new call
+   */
+  const rerunToolCall = useCallback(async (record: MCPToolCallRecord): Promise<MCPToolCallRecord> => {
+    const startTime = Date.now();
+    let replay: MCPToolCallRecord = {
+      id: generateId(),
+      serverId: record.serverId,
+      serverName: record.serverName,
+      toolName: record.toolName,
+      args: record.args,
+      status: 'success',
+      durationMs: 0,
+      timestamp: new Date(startTime).toISOString(),
+    };
+
+    try {
+      // Replaying a call from the log is the user's approval of the call
+      const response = await fetch(
+        `/api/mcp/tools/${encodeURIComponent(record.toolName)}?serverId=${encodeURIComponent(record.serverId)}&approved=true`,
+        {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(record.args ?? {}),
+        },
+      );
+      const data = (await response.json()) as ToolResponse;
+
+      if (data.record) {
+        replay = data.record;
+      } else if (!response.ok || data.error) {
+        throw new Error(data.error || `Failed to run tool: ${response.statusText}`);
+      } else {
+        replay.result = data.result;
+        replay.durationMs = Date.now() - startTime;
+      }
+    } catch (err) {
+      replay.status = 'error';
+      replay.error = err instanceof Error ? err.message : 'Unknown error';
+      replay.durationMs = Date.now() - startTime;
+    }
+
+    if (db) {
+      await storeToolCallRecord(replay);
+      setRecords((current) => [replay, ...current]);
+    }
+
+    return replay;
+  }, []);
+
+  return {
+    records,
+    loading,
+    error,
+    loadRecords,
+    clearRecords,
+    rerunToolCall,
+  };
+}
@@ -0,0 +1,222 @@
+/**
+ * Hook for trying MCP tools from the settings tab
+ * Tools run through the tools API, and example arguments are saved per tool in localStorage
+ */
+
+import { useState, useCallback } from 'react';
+import { generateId } from 'ai';
+import { createScopedLogger } from '~/utils/logger';
+import { getLocalStorage, setLocalStorage } from '~/lib/persistence/localStorage';
+import { getMCPBootstrapPromise } from '~/lib/modules/mcp/bootstrap';
+import type { MCPTool, MCPToolCallRecord } from '~/lib/modules/mcp/config';
+import { storeToolCallRecord } from './useMCPToolCallLog';
+
+const logger = createScopedLogger('useMCPToolPlayground');
+
+const EXAMPLES_STORAGE_KEY = 'mcp_tool_examples';
+
+/**
+ * Server with the tools it offers
+ */
+export interface PlaygroundServer {
+  id: string;
+  name: string;
+  tools: MCPTool[];
+}
+
+/**
+ * Outcome of running a tool
+ */
+export interface PlaygroundRun {
+  result?: any;
+  error?: string;
+
+  /**
+   * Response body as received
+   */
+  raw: string;
+  durationMs: number;
+}
+
+/**
+ * Arguments saved under a name to run a tool with again
+ */
+export interface MCPToolExample {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+/**
+ * Get the key examples of a tool are stored under
+ * @param serverId ID of the server
+ * @param toolName Name of the tool
+ */
+function getExampleKey(serverId: string, toolName: string): string {
+  return `${serverId}/${toolName}`;
+}
+
+/**
+ * Hook for listing, running and saving examples of MCP tools
+ */
+export function useMCPToolPlayground() {
+  const [servers, setServers] = useState<PlaygroundServer[]>([]);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [examples, setExamples] = useState<Record<string, MCPToolExample[]>>(
+    () => getLocalStorage(EXAMPLES_STORAGE_KEY) ?? {},
+  );
+
+  /**
+   * Load the tools of the enabled servers
+   */
+  const loadTools = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const { registry, toolFactory } = await getMCPBootstrapPromise();
+      const tools = await toolFactory.getAvailableTools();
+
+      setServers(
+        registry
+          .getEnabledServers()
+          .filter((server) => tools[server.id]?.length)
+          .map((server) => ({ id: server.id, name: server.name, tools: tools[server.id] })),
+      );
+    } catch (err) {
+      logger.error('Error loading MCP tools:', err);
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  /**
+   * Run a tool on a server
+   * @param serverId ID of the server
+   * @param toolName Name of the tool
+   * @param args Arguments of the call
+   */
+  const runTool = useCallback(
+    async (serverId: string, toolName: string, args: Record<string, unknown>): Promise<PlaygroundRun> => {
+      const startTime = performance.now();
+
+      try {
+        // Running a tool from the playground is the user's approval of the call
+        const response = await fetch(
+          `/api/mcp/tools/${encodeURIComponent(toolName)}?serverId=${encodeURIComponent(serverId)}&approved=true`,
+          {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify(args),
+          },
+        );
+        const raw = await response.text();
+        const durationMs = Math.round(performance.now() - startTime);
+
+        let data: { result?: any; error?: string; record?: MCPToolCallRecord };
+
+        try {
+          data = JSON.parse(raw);
+        } catch {
+          return { error: `Invalid JSON response: ${response.statusText}`, raw, durationMs };
+        }
+
+        // Playground runs belong to no chat, so no chat response reports them to the tool call log
+        if (data.record) {
+          await storeToolCallRecord(data.record);
+        }
+
+        if (!response.ok || data.error) {
+          return { error: data.error || `Failed to run tool: ${response.statusText}`, raw, durationMs };
+        }
+
+        return { result: data.result, raw, durationMs };
+      } catch (err) {
+        return {
+          error: err instanceof Error ? err.message : 'Unknown error',
+          raw: '',
+          durationMs: Math.round(performance.now() - startTime),
+        };
+      }
+    },
+    [],
+  );
+
+  /**
+   * Replace the saved examples and persist them
+   * @param update Function returning the new examples
+   */
+  const updateExamples = useCallback(
+    (update: (current: Record<string, MCPToolExample[]>) => Record<string, MCPToolExample[]>) => {
+      setExamples((current) => {
+        const next = update(current);
+        setLocalStorage(EXAMPLES_STORAGE_KEY, next);
+
+        return next;
+      });
+    },
+    [],
+  );
+
+  /**
+   * Get the saved examples of a tool
+   * @param serverId ID of the server
+   * @param toolName Name of the tool
+   */
+  const getExamples = useCallback(
+    (serverId: string, toolName: string): MCPToolExample[] => examples[getExampleKey(serverId, toolName)] ?? [],
+    [examples],
+  );
+
+  /**
+   * Save arguments as an example of a tool, replacing an example with the same name
+   * @param serverId ID of the server
+   * @param toolName Name of the tool
+   * @param name Name of the example
+   * @param args Arguments of the example
+   */
+  const saveExample = useCallback(
+    (serverId: string, toolName: string, name: string, args: Record<string, unknown>) => {
+      const key = getExampleKey(serverId, toolName);
+
+      updateExamples((current) => ({
+        ...current,
+        [key]: [...(current[key] ?? []).filter((example) => example.name !== name), { id: generateId(), name, args }],
+      }));
+    },
+    [updateExamples],
+  );
+
+  /**
+   * Delete a saved example
+   * @param serverId ID of the server
+   * @param toolName Name of the tool
+   * @param id ID of the example
+   */
+  const deleteExample = useCallback(
+    (serverId: string, toolName: string, id: string) => {
+      const key = getExampleKey(serverId, toolName);
+
+      updateExamples((current) => ({
+        ...current,
+        [key]: (current[key] ?? []).filter((example) => example.id !== id),
+      }));
+    },
+    [updateExamples],
+  );
+
+  return {
+    servers,
+    loading,
+    error,
+    loadTools,
+    runTool,
+    getExamples,
+    saveExample,
+    deleteExample,
+  };
+}
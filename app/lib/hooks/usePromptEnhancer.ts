@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import type { ProviderInfo } from '~/types/model';
 import { createScopedLogger } from '~/utils/logger';
+import { getApiKeysHeaders } from '~/lib/stores/apiKeys';
 
 const logger = createScopedLogger('usePromptEnhancement');
 
@@ -35,6 +36,7 @@ export function usePromptEnhancer() {
 
     const response = await fetch('/api/enhancer', {
       method: 'POST',
+      headers: getApiKeysHeaders(apiKeys),
       body: JSON.stringify(requestBody),
     });
 
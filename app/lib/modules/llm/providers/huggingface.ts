@@ -8,6 +8,9 @@ export default class HuggingFaceProvider extends BaseProvider {
   name = 'HuggingFace';
   getApiKeyLink = 'https://huggingface.co/settings/tokens';
 
+  // Most hosted models do not accept tool definitions
+  supportsTools = false;
+
   config = {
     apiTokenKey: 'HuggingFace_API_KEY',
   };
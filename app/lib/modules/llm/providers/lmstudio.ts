@@ -11,6 +11,9 @@ export default class LMStudioProvider extends BaseProvider {
   labelForGetApiKey = 'Get LMStudio';
   icon = 'i-ph:cloud-arrow-down';
 
+  // Tool calling depends on the loaded model, so the MCP tools are described in the prompt
+  supportsTools = false;
+
   config = {
     baseUrlKey: 'LMSTUDIO_API_BASE_URL',
     baseUrl: 'http://localhost:1234/',
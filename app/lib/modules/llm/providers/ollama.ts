@@ -33,6 +33,9 @@ export default class OllamaProvider extends BaseProvider {
   labelForGetApiKey = 'Download Ollama';
   icon = 'i-ph:cloud-arrow-down';
 
+  // Many local models cannot call tools, so the MCP tools are described in the prompt
+  supportsTools = false;
+
   config = {
     baseUrlKey: 'OLLAMA_API_BASE_URL',
   };
@@ -7,6 +7,9 @@ export default class OpenAILikeProvider extends BaseProvider {
   name = 'OpenAILike';
   getApiKeyLink = undefined;
 
+  // The server behind the endpoint may not accept tool definitions
+  supportsTools = false;
+
   config = {
     baseUrlKey: 'OPENAI_LIKE_API_BASE_URL',
     apiTokenKey: 'OPENAI_LIKE_API_KEY',
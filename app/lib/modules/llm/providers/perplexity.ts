@@ -8,6 +8,9 @@ export default class PerplexityProvider extends BaseProvider {
   name = 'Perplexity';
   getApiKeyLink = 'https://www.perplexity.ai/settings/api';
 
+  // The API does not accept tool definitions
+  supportsTools = false;
+
   config = {
     apiTokenKey: 'PERPLEXITY_API_KEY',
   };
@@ -7,6 +7,9 @@ export default class TogetherProvider extends BaseProvider {
   name = 'Together';
   getApiKeyLink = 'https://api.together.xyz/settings/api-keys';
 
+  // Only some of the models accept tool definitions
+  supportsTools = false;
+
   config = {
     baseUrlKey: 'TOGETHER_API_BASE_URL',
     apiTokenKey: 'TOGETHER_API_KEY',
@@ -6,6 +6,11 @@ export interface ModelInfo {
   label: string;
   provider: string;
   maxTokenAllowed: number;
+
+  /**
+   * Whether the model can call tools natively; falls back to the provider's setting
+   */
+  supportsTools?: boolean;
 }
 
 export interface ProviderInfo {
@@ -25,6 +30,11 @@ export interface ProviderInfo {
   getApiKeyLink?: string;
   labelForGetApiKey?: string;
   icon?: string;
+
+  /**
+   * Whether the provider's models can call tools natively; MCP tools are described in the prompt when false
+   */
+  supportsTools?: boolean;
 }
 export interface ProviderConfig {
   baseUrlKey?: string;
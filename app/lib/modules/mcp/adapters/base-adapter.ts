@@ -4,7 +4,19 @@
  */
 
 import { createScopedLogger } from '~/utils/logger';
-import type { ConnectionStatus, IMCPServerAdapter, MCPServerConfig, MCPTool } from '~/lib/modules/mcp/config';
+import type {
+  MCPToolCallOptions,
+  ConnectionStatus,
+  IMCPServerAdapter,
+  MCPAuthState,
+  MCPPrompt,
+  MCPPromptResult,
+  MCPResource,
+  MCPResourceContent,
+  MCPResourceTemplate,
+  MCPServerConfig,
+  MCPTool,
+} from '~/lib/modules/mcp/config';
 
 const logger = createScopedLogger('MCPBaseAdapter');
 
@@ -18,6 +30,7 @@ export abstract class BaseMCPServerAdapter implements IMCPServerAdapter {
   baseUrl: string;
   enabled: boolean;
   protected _config: MCPServerConfig;
+  private _toolsChangedListeners: Array<(tools: MCPTool[]) => void> = [];
 
   /**
    * Create a new adapter instance
@@ -100,6 +113,119 @@ export abstract class BaseMCPServerAdapter implements IMCPServerAdapter {
     }
   }
 
+  /**
+   * Release any resources held by this adapter
+   * Override in subclasses that keep connections or processes open
+   */
+  async dispose(): Promise<void> {
+    // Nothing to release by default
+  }
+
+  /**
+   * Get the list of resources provided by this server
+   * Override in subclasses for servers that expose resources
+   */
+  async listResources(): Promise<MCPResource[]> {
+    return [];
+  }
+
+  /**
+   * Get the list of resource templates provided by this server
+   * Override in subclasses for servers that expose resource templates
+   */
+  async listResourceTemplates(): Promise<MCPResourceTemplate[]> {
+    return [];
+  }
+
+  /**
+   * Read the contents of a resource
+   * Override in subclasses for servers that expose resources
+   * @param uri URI of the resource to read
+   */
+  async readResource(uri: string): Promise<MCPResourceContent[]> {
+    throw new Error(`MCP server ${this.name} does not provide resources (requested ${uri})`);
+  }
+
+  /**
+   * Get the list of prompts provided by this server
+   * Override in subclasses for servers that expose prompts
+   */
+  async listPrompts(): Promise<MCPPrompt[]> {
+    return [];
+  }
+
+  /**
+   * Expand a prompt with the given arguments
+   * Override in subclasses for servers that expose prompts
+   * @param name Name of the prompt
+   * @param _args Values for the prompt arguments
+   */
+  async getPrompt(name: string, _args?: Record<string, string>): Promise<MCPPromptResult> {
+    throw new Error(`MCP server ${this.name} does not provide prompts (requested ${name})`);
+  }
+
+  /**
+   * Get the OAuth authorization state of this server
+   * Override in subclasses for servers that support OAuth
+   */
+  getAuthState(): MCPAuthState {
+    return 'none';
+  }
+
+  /**
+   * Start the OAuth authorization flow
+   * Override in subclasses for servers that support OAuth
+   * @param _redirectUrl URL the authorization server redirects back to
+   */
+  async startAuthorization(_redirectUrl: string): Promise<string | null> {
+    throw new Error(`MCP server ${this.name} does not support OAuth authorization`);
+  }
+
+  /**
+   * Exchange the authorization code received on the callback and reconnect
+   * Override in subclasses for servers that support OAuth
+   * @param _code Authorization code
+   */
+  async finishAuthorization(_code: string): Promise<void> {
+    throw new Error(`MCP server ${this.name} does not support OAuth authorization`);
+  }
+
+  /**
+   * Forget the OAuth tokens of this server
+   * Override in subclasses for servers that support OAuth
+   */
+  async signOut(): Promise<void> {
+    // Nothing to forget by default
+  }
+
+  /**
+   * Listen for changes to the tool list of this server
+   * @param listener Called with the new tool list
+   * @returns Function that removes the listener
+   */
+  onToolsChanged(listener: (tools: MCPTool[]) => void): () => void {
+    this._toolsChangedListeners.push(listener);
+
+    return () => {
+      this._toolsChangedListeners = this._toolsChangedListeners.filter((l) => l !== listener);
+    };
+  }
+
+  /**
+   * Notify the listeners that the tool list changed
+   * Call from subclasses whenever tools are discovered again
+   * @param tools New tool list
+   */
+  protected _notifyToolsChanged(tools: MCPTool[]): void {
+    this._toolsChangedListeners.forEach((listener) => {
+      try {
+        listener(tools);
+      } catch (error) {
+        logger.error(`Error in tools changed listener of ${this.name}:`, error);
+      }
+    });
+  }
+
   /**
    * Get the list of tools provided by this server
    * Override in subclasses with specific tool discovery logic
@@ -117,6 +243,7 @@ export abstract class BaseMCPServerAdapter implements IMCPServerAdapter {
    * Override in subclasses with specific tool execution logic
    * @param toolName Name of the tool to execute
    * @param args Arguments for the tool
+   * @param options Cancellation and progress reporting
    */
-  abstract executeToolCall(toolName: string, args: any): Promise<any>;
+  abstract executeToolCall(toolName: string, args: any, options?: MCPToolCallOptions): Promise<any>;
 }
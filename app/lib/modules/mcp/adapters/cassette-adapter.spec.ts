@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { argsMatch, DEFAULT_CASSETTE_DIR, getCassettePath } from './cassette-adapter';
+import { REDACTED_SECRET } from '~/lib/modules/mcp/redact';
+
+describe('argsMatch', () => {
+  it('should match equal arguments regardless of key order', () => {
+    expect(argsMatch({ a: 1, b: { c: 2, d: 3 } }, { b: { d: 3, c: 2 }, a: 1 }, 'exact', [])).toBe(true);
+    expect(argsMatch({ a: 1 }, { a: 1, b: 2 }, 'exact', [])).toBe(false);
+  });
+
+  it('should only compare the recorded arguments when matching partially', () => {
+    expect(argsMatch({ a: 1 }, { a: 1, b: 2 }, 'partial', [])).toBe(true);
+    expect(argsMatch({ a: 1 }, { a: 2, b: 2 }, 'partial', [])).toBe(false);
+  });
+
+  it('should match any arguments when matching by tool', () => {
+    expect(argsMatch({ a: 1 }, { b: 2 }, 'tool', [])).toBe(true);
+  });
+
+  it('should leave out ignored arguments', () => {
+    expect(argsMatch({ query: 'x', timestamp: 1 }, { query: 'x', timestamp: 2 }, 'exact', ['timestamp'])).toBe(true);
+  });
+
+  it('should redact the secrets of the call before comparing them with the recorded ones', () => {
+    expect(argsMatch({ query: 'x', apiKey: REDACTED_SECRET }, { query: 'x', apiKey: 'abc' }, 'exact', [])).toBe(true);
+  });
+});
+
+describe('getCassettePath', () => {
+  it('should name the file after the server', () => {
+    expect(getCassettePath('my server', { mode: 'record' })).toBe(`${DEFAULT_CASSETTE_DIR}/my_server.json`);
+  });
+
+  it('should keep configured paths in the cassette directory', () => {
+    expect(getCassettePath('github', { mode: 'replay', path: './github/calls.json' }, 'cassettes/')).toBe(
+      'cassettes/github/calls.json',
+    );
+  });
+
+  it('should reject paths outside of the cassette directory', () => {
+    expect(() => getCassettePath('github', { mode: 'replay', path: '../secrets.json' })).toThrow();
+    expect(() => getCassettePath('github', { mode: 'replay', path: '/etc/passwd' })).toThrow();
+    expect(() => getCassettePath('github', { mode: 'replay', path: 'C:\\cassette.json' })).toThrow();
+  });
+});
@@ -0,0 +1,561 @@
+/**
+ * Cassette MCP Server Adapters
+ * Record the tools and tool calls of a server to a cassette file and serve them back offline,
+ * so chat flows that use MCP tools can run in CI and demos without the live server
+ * Secrets in the recorded arguments and results are redacted before they are written
+ */
+
+import { createScopedLogger } from '~/utils/logger';
+import type {
+  ConnectionStatus,
+  IMCPServerAdapter,
+  MCPAuthState,
+  MCPCassetteConfig,
+  MCPCassetteMatch,
+  MCPPrompt,
+  MCPPromptResult,
+  MCPResource,
+  MCPResourceContent,
+  MCPResourceTemplate,
+  MCPServerConfig,
+  MCPTool,
+  MCPToolCallOptions,
+} from '~/lib/modules/mcp/config';
+import { redactSecrets } from '~/lib/modules/mcp/redact';
+import { BaseMCPServerAdapter } from './base-adapter';
+
+const logger = createScopedLogger('CassetteMCPAdapter');
+
+// Directory cassettes are kept in when the configuration does not name a file
+export const DEFAULT_CASSETTE_DIR = '.bolt/cassettes';
+
+const CASSETTE_VERSION = 1;
+
+/**
+ * Tool call recorded from the live server
+ */
+export interface MCPCassetteInteraction {
+  toolName: string;
+  args: unknown;
+
+  /**
+   * Result of the call; unset when the call failed
+   */
+  result?: unknown;
+
+  /**
+   * Message of the error the call failed with
+   */
+  error?: string;
+}
+
+/**
+ * Contents of a cassette file
+ */
+export interface MCPCassette {
+  version: number;
+  server: {
+    id: string;
+    name: string;
+    baseUrl: string;
+  };
+  recordedAt: string;
+  tools: MCPTool[];
+  interactions: MCPCassetteInteraction[];
+}
+
+/**
+ * Error thrown on replay when no recorded call matches
+ */
+export class MCPCassetteMissError extends Error {
+  readonly toolName: string;
+  readonly args: unknown;
+
+  constructor(serverName: string, toolName: string, args: unknown) {
+    super(`No recorded call of "${toolName}" on ${serverName} matches the arguments ${JSON.stringify(args)}`);
+    this.name = 'MCPCassetteMissError';
+    this.toolName = toolName;
+    this.args = args;
+  }
+}
+
+/**
+ * Get the file the cassette of a server is kept in
+ * Files named by the configuration are kept in the cassette directory as well
+ * @param serverId Server ID
+ * @param cassette Cassette configuration
+ * @param directory Directory cassettes are kept in
+ * @throws Error when the configuration names an absolute path or one outside of the directory
+ */
+export function getCassettePath(
+  serverId: string,
+  cassette: MCPCassetteConfig,
+  directory: string = DEFAULT_CASSETTE_DIR,
+): string {
+  const base = directory.replace(/\/+$/, '');
+
+  if (!cassette.path) {
+    return `${base}/${serverId.replace(/[^\w.-]/g, '_')}.json`;
+  }
+
+  const segments = cassette.path.split(/[\\/]+/).filter((segment) => segment && segment !== '.');
+
+  if (/^([a-z]:)?[\\/]/i.test(cassette.path) || segments.includes('..') || segments.length === 0) {
+    throw new Error(`Cassette path ${cassette.path} must be a file in the cassette directory ${base}`);
+  }
+
+  return `${base}/${segments.join('/')}`;
+}
+
+/**
+ * Parse the contents of a cassette file
+ * @param text JSON contents
+ * @param path File the contents were read from, for error messages
+ */
+export function parseCassette(text: string, path: string): MCPCassette {
+  const cassette = JSON.parse(text) as Partial<MCPCassette>;
+
+  if (
+    cassette.version !== CASSETTE_VERSION ||
+    !Array.isArray(cassette.tools) ||
+    !Array.isArray(cassette.interactions)
+  ) {
+    throw new Error(`${path} is not a version ${CASSETTE_VERSION} MCP cassette`);
+  }
+
+  return cassette as MCPCassette;
+}
+
+/**
+ * Read a cassette file
+ * @param path File to read
+ */
+export async function loadCassette(path: string): Promise<MCPCassette> {
+  const { readFile } = await import('node:fs/promises');
+
+  return parseCassette(await readFile(path, 'utf8'), path);
+}
+
+/**
+ * Write a cassette file
+ * @param path File to write
+ * @param cassette Cassette to write
+ */
+export async function saveCassette(path: string, cassette: MCPCassette): Promise<void> {
+  const { mkdir, rename, writeFile } = await import('node:fs/promises');
+  const { dirname } = await import('node:path');
+
+  await mkdir(dirname(path), { recursive: true });
+
+  // Written next to the file and renamed over it, so a crash never leaves half a cassette behind
+  const temporaryPath = `${path}.tmp`;
+
+  await writeFile(temporaryPath, JSON.stringify(cassette, null, 2));
+  await rename(temporaryPath, path);
+}
+
+/**
+ * Serialize a value with sorted object keys, so equal arguments compare equal regardless of key order
+ * @param value Value to serialize
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .sort()
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+
+    return `{${entries.join(',')}}`;
+  }
+
+  return JSON.stringify(value) ?? 'null';
+}
+
+/**
+ * Remove the ignored arguments from the arguments of a call
+ * @param args Arguments of the call
+ * @param ignoreArgs Names of the arguments to remove
+ */
+function omitArgs(args: unknown, ignoreArgs: string[]): unknown {
+  if (!args || typeof args !== 'object' || Array.isArray(args) || ignoreArgs.length === 0) {
+    return args;
+  }
+
+  return Object.fromEntries(Object.entries(args).filter(([key]) => !ignoreArgs.includes(key)));
+}
+
+/**
+ * Check if the arguments of a call match the recorded ones
+ * The secrets of the call are redacted first, as they were when the call was recorded
+ * @param recorded Recorded arguments
+ * @param actual Arguments of the call
+ * @param match How the arguments are compared
+ * @param ignoreArgs Arguments left out of the comparison
+ */
+export function argsMatch(recorded: unknown, actual: unknown, match: MCPCassetteMatch, ignoreArgs: string[]): boolean {
+  if (match === 'tool') {
+    return true;
+  }
+
+  const expected = omitArgs(recorded, ignoreArgs);
+  const received = omitArgs(redactSecrets(actual), ignoreArgs);
+
+  if (match === 'partial' && expected && typeof expected === 'object' && !Array.isArray(expected)) {
+    if (!received || typeof received !== 'object') {
+      return false;
+    }
+
+    return Object.entries(expected).every(
+      ([key, value]) => stableStringify(value) === stableStringify((received as Record<string, unknown>)[key]),
+    );
+  }
+
+  return stableStringify(expected) === stableStringify(received);
+}
+
+/**
+ * Adapter that passes everything through to a live server and records its tools and tool calls
+ * The cassette is written after every change, so it is complete even when the process is stopped
+ */
+export class RecordingMCPServerAdapter extends BaseMCPServerAdapter {
+  private _adapter: IMCPServerAdapter;
+  private _path: string;
+  private _cassette: MCPCassette;
+  private _saving: Promise<void> = Promise.resolve();
+
+  /**
+   * @param adapter Adapter of the live server
+   * @param path File the cassette is written to
+   */
+  constructor(adapter: IMCPServerAdapter, path: string) {
+    super(adapter.id, adapter.name, adapter.baseUrl, adapter.enabled, adapter.getConfig());
+    this._adapter = adapter;
+    this._path = path;
+    this._cassette = {
+      version: CASSETTE_VERSION,
+      server: { id: adapter.id, name: adapter.name, baseUrl: adapter.baseUrl },
+      recordedAt: new Date().toISOString(),
+      tools: [],
+      interactions: [],
+    };
+
+    adapter.onToolsChanged?.((tools) => {
+      this._recordTools(tools);
+      this._notifyToolsChanged(tools);
+    });
+  }
+
+  /**
+   * Initialize the live server
+   */
+  async initialize(): Promise<void> {
+    await this._adapter.initialize();
+
+    // Adapters turn themselves off when they cannot be used, e.g. without a token
+    this.enabled = this._adapter.enabled;
+  }
+
+  /**
+   * Get the configuration of the live server
+   */
+  getConfig(): MCPServerConfig {
+    return this._adapter.getConfig();
+  }
+
+  /**
+   * Update the configuration of the live server
+   * @param config New configuration
+   */
+  updateConfig(config: Partial<MCPServerConfig>): void {
+    this._adapter.updateConfig(config);
+    this.baseUrl = this._adapter.baseUrl;
+  }
+
+  /**
+   * Get the tools of the live server and record them
+   */
+  async getToolDefinitions(): Promise<MCPTool[]> {
+    const tools = await this._adapter.getToolDefinitions();
+    this._recordTools(tools);
+
+    return tools;
+  }
+
+  /**
+   * Test the connection to the live server
+   */
+  async testConnection(): Promise<ConnectionStatus> {
+    const status = await this._adapter.testConnection();
+
+    return status.success ? { ...status, message: `${status.message} (recording to ${this._path})` } : status;
+  }
+
+  /**
+   * Execute a tool call on the live server and record it
+   * @param toolName Name of the tool to execute
+   * @param args Arguments for the tool
+   * @param options Cancellation and progress reporting
+   */
+  async executeToolCall(toolName: string, args: any, options?: MCPToolCallOptions): Promise<any> {
+    try {
+      const result = await this._adapter.executeToolCall(toolName, args, options);
+      this._recordInteraction({ toolName, args: args ?? {}, result });
+
+      return result;
+    } catch (error) {
+      // Calls the user cancelled say nothing about the server, so they are not replayed
+      if (!options?.signal?.aborted) {
+        this._recordInteraction({
+          toolName,
+          args: args ?? {},
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Wait for the cassette to be written and release the live server
+   */
+  async dispose(): Promise<void> {
+    await this._saving;
+    await this._adapter.dispose?.();
+  }
+
+  /**
+   * Get the resources of the live server
+   */
+  async listResources(): Promise<MCPResource[]> {
+    return this._adapter.listResources?.() ?? [];
+  }
+
+  /**
+   * Get the resource templates of the live server
+   */
+  async listResourceTemplates(): Promise<MCPResourceTemplate[]> {
+    return this._adapter.listResourceTemplates?.() ?? [];
+  }
+
+  /**
+   * Read a resource of the live server
+   * @param uri URI of the resource to read
+   */
+  async readResource(uri: string): Promise<MCPResourceContent[]> {
+    return this._adapter.readResource ? this._adapter.readResource(uri) : super.readResource(uri);
+  }
+
+  /**
+   * Get the prompts of the live server
+   */
+  async listPrompts(): Promise<MCPPrompt[]> {
+    return this._adapter.listPrompts?.() ?? [];
+  }
+
+  /**
+   * Expand a prompt of the live server
+   * @param name Name of the prompt
+   * @param args Values for the prompt arguments
+   */
+  async getPrompt(name: string, args?: Record<string, string>): Promise<MCPPromptResult> {
+    return this._adapter.getPrompt ? this._adapter.getPrompt(name, args) : super.getPrompt(name, args);
+  }
+
+  /**
+   * Get the OAuth authorization state of the live server
+   */
+  getAuthState(): MCPAuthState {
+    return this._adapter.getAuthState?.() ?? 'none';
+  }
+
+  /**
+   * Start the OAuth authorization flow of the live server
+   * @param redirectUrl URL the authorization server redirects back to
+   */
+  async startAuthorization(redirectUrl: string): Promise<string | null> {
+    return this._adapter.startAuthorization
+      ? this._adapter.startAuthorization(redirectUrl)
+      : super.startAuthorization(redirectUrl);
+  }
+
+  /**
+   * Finish the OAuth authorization flow of the live server
+   * @param code Authorization code
+   */
+  async finishAuthorization(code: string): Promise<void> {
+    return this._adapter.finishAuthorization
+      ? this._adapter.finishAuthorization(code)
+      : super.finishAuthorization(code);
+  }
+
+  /**
+   * Forget the OAuth tokens of the live server
+   */
+  async signOut(): Promise<void> {
+    await this._adapter.signOut?.();
+  }
+
+  /**
+   * Record the current tool list
+   * @param tools Tools of the live server
+   */
+  private _recordTools(tools: MCPTool[]): void {
+    this._cassette.tools = tools;
+    this._save();
+  }
+
+  /**
+   * Record a tool call with its secrets redacted
+   * @param interaction Call and its outcome
+   */
+  private _recordInteraction(interaction: MCPCassetteInteraction): void {
+    this._cassette.interactions.push(redactSecrets(interaction));
+    this._save();
+  }
+
+  /**
+   * Write the cassette after the previous write finished
+   */
+  private _save(): void {
+    const cassette = structuredClone(this._cassette);
+
+    this._saving = this._saving
+      .then(() => saveCassette(this._path, cassette))
+      .catch((error) => {
+        logger.error(`Failed to write the cassette of ${this.name} to ${this._path}:`, error);
+      });
+  }
+}
+
+/**
+ * Adapter that serves the tools and tool calls of a cassette in place of the server
+ * Matching calls are replayed in recorded order; once they are used up the last one is repeated
+ */
+export class ReplayMCPServerAdapter extends BaseMCPServerAdapter {
+  private _path: string;
+  private _match: MCPCassetteMatch;
+  private _ignoreArgs: string[];
+  private _cassette: MCPCassette | null = null;
+  private _loading: Promise<MCPCassette> | null = null;
+  private _used = new Set<MCPCassetteInteraction>();
+
+  /**
+   * @param id Server ID
+   * @param name Server name
+   * @param baseUrl Server URL
+   * @param enabled Whether the server is enabled
+   * @param config Additional configuration
+   * @param cassette How calls are matched; `config.cassette` when unset
+   * @param path File the cassette is read from; the file the cassette configuration names when unset
+   */
+  constructor(
+    id: string,
+    name: string,
+    baseUrl: string,
+    enabled: boolean = true,
+    config: Partial<MCPServerConfig> = {},
+    cassette: MCPCassetteConfig = config.cassette ?? { mode: 'replay' },
+    path: string = getCassettePath(id, cassette),
+  ) {
+    super(id, name, baseUrl, enabled, config);
+    this._path = path;
+    this._match = cassette.match ?? 'exact';
+    this._ignoreArgs = cassette.ignoreArgs ?? [];
+  }
+
+  /**
+   * Get the recorded tools
+   */
+  async getToolDefinitions(): Promise<MCPTool[]> {
+    const cassette = await this._load();
+
+    return cassette.tools;
+  }
+
+  /**
+   * Check that the cassette can be read
+   */
+  async testConnection(): Promise<ConnectionStatus> {
+    try {
+      const cassette = await this._load();
+
+      return {
+        success: true,
+        message: `Replaying ${cassette.interactions.length} recorded calls of ${cassette.tools.length} tools from ${this._path}`,
+      };
+    } catch (error) {
+      return { success: false, message: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * Replay the recorded call matching a tool call
+   * @param toolName Name of the tool to execute
+   * @param args Arguments for the tool
+   * @param options Cancellation and progress reporting
+   */
+  async executeToolCall(toolName: string, args: any, options: MCPToolCallOptions = {}): Promise<any> {
+    const cassette = await this._load();
+
+    options.signal?.throwIfAborted();
+
+    const candidates = cassette.interactions.filter(
+      (interaction) =>
+        interaction.toolName === toolName && argsMatch(interaction.args, args ?? {}, this._match, this._ignoreArgs),
+    );
+    const interaction = candidates.find((candidate) => !this._used.has(candidate)) ?? candidates.at(-1);
+
+    if (!interaction) {
+      throw new MCPCassetteMissError(this.name, toolName, args ?? {});
+    }
+
+    this._used.add(interaction);
+
+    if (interaction.error !== undefined) {
+      throw new Error(interaction.error);
+    }
+
+    return structuredClone(interaction.result);
+  }
+
+  /**
+   * Start replaying from the beginning of the cassette again
+   */
+  async dispose(): Promise<void> {
+    this._used.clear();
+  }
+
+  /**
+   * Read the cassette once
+   */
+  private _load(): Promise<MCPCassette> {
+    if (this._cassette) {
+      return Promise.resolve(this._cassette);
+    }
+
+    if (!this._loading) {
+      this._loading = loadCassette(this._path).then(
+        (cassette) => {
+          this._cassette = cassette;
+          logger.info(`Loaded cassette of ${this.name} from ${this._path}`, {
+            tools: cassette.tools.length,
+            interactions: cassette.interactions.length,
+          });
+
+          return cassette;
+        },
+        (error) => {
+          this._loading = null;
+          throw error;
+        },
+      );
+    }
+
+    return this._loading;
+  }
+}
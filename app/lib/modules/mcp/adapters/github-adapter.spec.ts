@@ -0,0 +1,209 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GitHubMCPServerAdapter } from './github-adapter';
+
+const API_URL = 'https://api.github.com';
+const REPOSITORY = { owner: 'octo', repo: 'app' };
+
+type Route = (body: any) => Response;
+
+let routes: Record<string, Route>;
+let fetchMock: ReturnType<typeof vi.fn>;
+
+function createAdapter() {
+  return new GitHubMCPServerAdapter('github', 'GitHub', API_URL, true, {
+    auth: { type: 'github', token: 'ghp-secret' },
+  });
+}
+
+// Requests the adapter made, as "METHOD /path" with the parsed body
+function getRequests() {
+  return (fetchMock.mock.calls as Array<[string, RequestInit | undefined]>).map(([url, init]) => ({
+    route: `${init?.method ?? 'GET'} ${url.replace(API_URL, '')}`,
+    body: init?.body ? JSON.parse(String(init.body)) : undefined,
+  }));
+}
+
+beforeEach(() => {
+  routes = {};
+
+  // GitHub API answering the routes of the test and 404 for everything else
+  fetchMock = vi.fn(async (url: string, init?: RequestInit) => {
+    const route = routes[`${init?.method ?? 'GET'} ${url.replace(API_URL, '')}`];
+
+    if (!route) {
+      return Response.json({ message: 'Not Found' }, { status: 404 });
+    }
+
+    return route(init?.body ? JSON.parse(String(init.body)) : undefined);
+  });
+  vi.stubGlobal('fetch', fetchMock);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe('GitHubMCPServerAdapter', () => {
+  it('should send the token and API version with every request', async () => {
+    routes['GET /user'] = () => Response.json({ login: 'octo' });
+
+    await expect(createAdapter().executeToolCall('github_get_user', {})).resolves.toEqual({ login: 'octo' });
+
+    const headers = new Headers(fetchMock.mock.calls[0][1].headers);
+
+    expect(headers.get('Authorization')).toBe('Bearer ghp-secret');
+    expect(headers.get('Accept')).toBe('application/vnd.github.v3+json');
+  });
+
+  it('should commit several files in one commit through the Git Data API', async () => {
+    routes['GET /repos/octo/app/git/ref/heads/feature/login'] = () => Response.json({ object: { sha: 'head-sha' } });
+    routes['GET /repos/octo/app/git/commits/head-sha'] = () => Response.json({ tree: { sha: 'base-tree-sha' } });
+    routes['POST /repos/octo/app/git/trees'] = () => Response.json({ sha: 'tree-sha' }, { status: 201 });
+    routes['POST /repos/octo/app/git/commits'] = () =>
+      Response.json({ sha: 'commit-sha', html_url: 'https://github.com/octo/app/commit/commit-sha' }, { status: 201 });
+    routes['PATCH /repos/octo/app/git/refs/heads/feature/login'] = () =>
+      Response.json({ object: { sha: 'commit-sha' } });
+
+    const result = await createAdapter().executeToolCall('github_commit_files', {
+      ...REPOSITORY,
+      branch: 'feature/login',
+      message: 'Add login',
+      files: [
+        { path: '/src/login.ts', content: 'export const login = true;\n' },
+        { path: 'src/old.ts', delete: true },
+      ],
+    });
+
+    expect(result).toEqual({
+      sha: 'commit-sha',
+      html_url: 'https://github.com/octo/app/commit/commit-sha',
+      branch: 'feature/login',
+      message: 'Add login',
+      files: [
+        { path: '/src/login.ts', status: 'written' },
+        { path: 'src/old.ts', status: 'deleted' },
+      ],
+    });
+
+    expect(getRequests()).toEqual([
+      { route: 'GET /repos/octo/app/git/ref/heads/feature/login', body: undefined },
+      { route: 'GET /repos/octo/app/git/commits/head-sha', body: undefined },
+      {
+        route: 'POST /repos/octo/app/git/trees',
+        body: {
+          base_tree: 'base-tree-sha',
+          tree: [
+            { path: 'src/login.ts', mode: '100644', type: 'blob', content: 'export const login = true;\n' },
+            { path: 'src/old.ts', mode: '100644', type: 'blob', sha: null },
+          ],
+        },
+      },
+      {
+        route: 'POST /repos/octo/app/git/commits',
+        body: { message: 'Add login', tree: 'tree-sha', parents: ['head-sha'] },
+      },
+      { route: 'PATCH /repos/octo/app/git/refs/heads/feature/login', body: { sha: 'commit-sha' } },
+    ]);
+  });
+
+  it('should not force the branch when it moved during the commit', async () => {
+    routes['GET /repos/octo/app/git/ref/heads/main'] = () => Response.json({ object: { sha: 'head-sha' } });
+    routes['GET /repos/octo/app/git/commits/head-sha'] = () => Response.json({ tree: { sha: 'base-tree-sha' } });
+    routes['POST /repos/octo/app/git/trees'] = () => Response.json({ sha: 'tree-sha' }, { status: 201 });
+    routes['POST /repos/octo/app/git/commits'] = () => Response.json({ sha: 'commit-sha' }, { status: 201 });
+    routes['PATCH /repos/octo/app/git/refs/heads/main'] = () =>
+      Response.json({ message: 'Update is not a fast forward' }, { status: 422 });
+
+    await expect(
+      createAdapter().executeToolCall('github_commit_files', {
+        ...REPOSITORY,
+        branch: 'main',
+        message: 'Update readme',
+        files: [{ path: 'README.md', content: '# App\n' }],
+      }),
+    ).rejects.toThrow('GitHub API error (422): Update is not a fast forward');
+
+    // Client errors are not retried, so the write is not repeated
+    expect(getRequests().filter(({ route }) => route.startsWith('PATCH'))).toHaveLength(1);
+  });
+
+  it('should check the files before committing', async () => {
+    const adapter = createAdapter();
+
+    await expect(
+      adapter.executeToolCall('github_commit_files', { ...REPOSITORY, branch: 'main', message: 'Empty', files: [] }),
+    ).rejects.toThrow('At least one file with a path is required');
+    await expect(
+      adapter.executeToolCall('github_commit_files', { ...REPOSITORY, files: [{ path: 'a.ts', content: '' }] }),
+    ).rejects.toThrow('Branch and commit message are required');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should create a branch from the default branch', async () => {
+    routes['GET /repos/octo/app'] = () => Response.json({ default_branch: 'main' });
+    routes['GET /repos/octo/app/git/ref/heads/main'] = () => Response.json({ object: { sha: 'main-sha' } });
+    routes['POST /repos/octo/app/git/refs'] = (body) => Response.json({ ref: body.ref }, { status: 201 });
+
+    const result = await createAdapter().executeToolCall('github_create_branch', {
+      ...REPOSITORY,
+      branch: 'feature/login',
+    });
+
+    expect(result).toEqual({ ref: 'refs/heads/feature/login' });
+    expect(getRequests().at(-1)).toEqual({
+      route: 'POST /repos/octo/app/git/refs',
+      body: { ref: 'refs/heads/feature/login', sha: 'main-sha' },
+    });
+  });
+
+  it('should create a branch from another branch', async () => {
+    routes['GET /repos/octo/app/git/ref/heads/release/1.0'] = () => Response.json({ object: { sha: 'release-sha' } });
+    routes['POST /repos/octo/app/git/refs'] = (body) => Response.json({ ref: body.ref }, { status: 201 });
+
+    await createAdapter().executeToolCall('github_create_branch', {
+      ...REPOSITORY,
+      branch: 'hotfix',
+      from_branch: 'release/1.0',
+    });
+
+    expect(getRequests().map(({ route }) => route)).toEqual([
+      'GET /repos/octo/app/git/ref/heads/release/1.0',
+      'POST /repos/octo/app/git/refs',
+    ]);
+    expect(getRequests()[1].body).toEqual({ ref: 'refs/heads/hotfix', sha: 'release-sha' });
+  });
+
+  it('should report a missing source branch without creating the branch', async () => {
+    routes['GET /repos/octo/app'] = () => Response.json({ default_branch: 'main' });
+
+    await expect(
+      createAdapter().executeToolCall('github_create_branch', { ...REPOSITORY, branch: 'feature' }),
+    ).rejects.toThrow('GitHub API error (404): Not Found');
+    expect(getRequests().some(({ route }) => route.startsWith('POST'))).toBe(false);
+  });
+
+  it('should delete branches', async () => {
+    routes['DELETE /repos/octo/app/git/refs/heads/feature/login'] = () => new Response(null, { status: 204 });
+
+    await expect(
+      createAdapter().executeToolCall('github_delete_branch', { ...REPOSITORY, branch: 'feature/login' }),
+    ).resolves.toEqual({ deleted: true, branch: 'feature/login' });
+  });
+
+  it('should retry server errors with backoff', async () => {
+    vi.useFakeTimers();
+
+    let attempts = 0;
+
+    routes['GET /user'] = () =>
+      ++attempts < 3 ? Response.json({ message: 'Server Error' }, { status: 502 }) : Response.json({ login: 'octo' });
+
+    const result = createAdapter().executeToolCall('github_get_user', {});
+
+    await vi.advanceTimersByTimeAsync(3000);
+
+    await expect(result).resolves.toEqual({ login: 'octo' });
+    expect(attempts).toBe(3);
+  });
+});
@@ -6,6 +6,7 @@
 import { createScopedLogger } from '~/utils/logger';
 import type { ConnectionStatus, MCPTool, MCPServerConfig } from '~/lib/modules/mcp/config';
 import { BaseMCPServerAdapter } from './base-adapter';
+import { getStoredMCPServersWithCredentials } from '~/lib/modules/mcp/storage';
 
 const logger = createScopedLogger('MCPGitHubAdapter');
 
@@ -14,6 +15,47 @@ interface GitHubErrorResponse {
   documentation_url?: string;
 }
 
+/**
+ * Error response of the GitHub API
+ */
+class GitHubAPIError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(`GitHub API error (${status}): ${message}`);
+    this.name = 'GitHubAPIError';
+    this.status = status;
+  }
+}
+
+/**
+ * A file changed by github_commit_files
+ */
+interface GitHubFileChange {
+  path: string;
+  content?: string;
+  delete?: boolean;
+}
+
+const REPOSITORY_PROPERTIES = {
+  owner: {
+    type: 'string',
+    description: 'Repository owner (username or organization)',
+  },
+  repo: {
+    type: 'string',
+    description: 'Repository name',
+  },
+};
+
+/**
+ * Encode a branch name for use in a ref path, keeping the slashes of names like feature/login
+ * @param branch Name of the branch
+ */
+function encodeBranch(branch: string): string {
+  return branch.split('/').map(encodeURIComponent).join('/');
+}
+
 /**
  * GitHub MCP Server Adapter
  * Adapter for GitHub API integration
@@ -51,31 +93,7 @@ export class GitHubMCPServerAdapter extends BaseMCPServerAdapter {
         this._token = envToken;
         logger.info('GitHub token provided from environment variable');
       } else {
-        // Try to read from localStorage directly
-        try {
-          if (typeof window !== 'undefined' && window.localStorage) {
-            const storedData = window.localStorage.getItem('mcp_servers');
-
-            if (storedData) {
-              const servers = JSON.parse(storedData);
-              const githubServer = servers.find(
-                (s: any) =>
-                  s.name.toLowerCase() === 'github' ||
-                  s.baseUrl.includes('github') ||
-                  (s.auth && s.auth.type === 'github'),
-              );
-
-              if (githubServer && githubServer.auth && githubServer.auth.token) {
-                this._token = githubServer.auth.token;
-                logger.info('GitHub token provided from localStorage');
-              }
-            }
-          }
-        } catch (e) {
-          logger.error('Error trying to read token from localStorage', e);
-        }
-
-        // If we still don't have a token, log a warning
+        // Stored tokens live in the credential vault, which is read asynchronously in testConnection()
         if (!this._token) {
           logger.warn('No GitHub token found in configuration or environment variables');
         }
@@ -131,28 +149,19 @@ export class GitHubMCPServerAdapter extends BaseMCPServerAdapter {
     if (!this._token) {
       logger.warn('No GitHub token found when testing connection - attempting to retrieve');
 
-      // Try to read from localStorage again
+      // Try to read the stored token from the credential vault
       try {
-        if (typeof window !== 'undefined' && window.localStorage) {
-          const storedData = window.localStorage.getItem('mcp_servers');
-
-          if (storedData) {
-            const servers = JSON.parse(storedData);
-            const githubServer = servers.find(
-              (s: any) =>
-                s.name.toLowerCase() === 'github' ||
-                s.baseUrl.includes('github') ||
-                (s.auth && s.auth.type === 'github'),
-            );
-
-            if (githubServer && githubServer.auth && githubServer.auth.token) {
-              this._token = githubServer.auth.token;
-              logger.info('GitHub token retrieved from localStorage during connection test');
-            }
-          }
+        const servers = await getStoredMCPServersWithCredentials();
+        const githubServer = servers.find(
+          (s) => s.name.toLowerCase() === 'github' || s.baseUrl.includes('github') || s.auth?.type === 'github',
+        );
+
+        if (githubServer?.auth?.token) {
+          this._token = githubServer.auth.token;
+          logger.info('GitHub token retrieved from the credential vault during connection test');
         }
       } catch (e) {
-        logger.error('Error trying to read token from localStorage during connection test', e);
+        logger.error('Error trying to read stored token during connection test', e);
       }
 
       // Try to get token from config again
@@ -310,6 +319,239 @@ export class GitHubMCPServerAdapter extends BaseMCPServerAdapter {
           required: ['name'],
         },
       },
+      {
+        name: 'github_list_issues',
+        description: 'List issues of a GitHub repository (pull requests are included and marked with pull_request)',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            ...REPOSITORY_PROPERTIES,
+            state: {
+              type: 'string',
+              description: 'Only list issues in this state (defaults to open)',
+              enum: ['open', 'closed', 'all'],
+            },
+            labels: {
+              type: 'string',
+              description: 'Comma separated label names the issues must have',
+            },
+          },
+          required: ['owner', 'repo'],
+        },
+      },
+      {
+        name: 'github_get_issue',
+        description: 'Get an issue of a GitHub repository together with its comments',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            ...REPOSITORY_PROPERTIES,
+            issue_number: {
+              type: 'integer',
+              description: 'Number of the issue',
+            },
+          },
+          required: ['owner', 'repo', 'issue_number'],
+        },
+      },
+      {
+        name: 'github_create_issue',
+        description: 'Create an issue in a GitHub repository',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            ...REPOSITORY_PROPERTIES,
+            title: {
+              type: 'string',
+              description: 'Issue title',
+            },
+            body: {
+              type: 'string',
+              description: 'Issue description (Markdown)',
+            },
+            labels: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Labels to add',
+            },
+            assignees: {
+              type: 'array',
+              items: { type: 'string' },
+              description: 'Usernames to assign',
+            },
+          },
+          required: ['owner', 'repo', 'title'],
+        },
+      },
+      {
+        name: 'github_comment_on_issue',
+        description: 'Add a comment to an issue or pull request of a GitHub repository',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            ...REPOSITORY_PROPERTIES,
+            issue_number: {
+              type: 'integer',
+              description: 'Number of the issue or pull request',
+            },
+            body: {
+              type: 'string',
+              description: 'Comment text (Markdown)',
+            },
+          },
+          required: ['owner', 'repo', 'issue_number', 'body'],
+        },
+      },
+      {
+        name: 'github_create_pull_request',
+        description: 'Open a pull request from a branch of a GitHub repository',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            ...REPOSITORY_PROPERTIES,
+            title: {
+              type: 'string',
+              description: 'Pull request title',
+            },
+            head: {
+              type: 'string',
+              description: 'Branch with the changes (owner:branch for branches of forks)',
+            },
+            base: {
+              type: 'string',
+              description: 'Branch to merge into (defaults to the default branch)',
+            },
+            body: {
+              type: 'string',
+              description: 'Pull request description (Markdown); "Closes #123" links an issue',
+            },
+            draft: {
+              type: 'boolean',
+              description: 'Whether to open the pull request as a draft',
+            },
+          },
+          required: ['owner', 'repo', 'title', 'head'],
+        },
+      },
+      {
+        name: 'github_list_branches',
+        description: 'List the branches of a GitHub repository',
+        inputSchema: {
+          type: 'object',
+          properties: REPOSITORY_PROPERTIES,
+          required: ['owner', 'repo'],
+        },
+      },
+      {
+        name: 'github_create_branch',
+        description: 'Create a branch in a GitHub repository',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            ...REPOSITORY_PROPERTIES,
+            branch: {
+              type: 'string',
+              description: 'Name of the new branch',
+            },
+            from_branch: {
+              type: 'string',
+              description: 'Branch to start from (defaults to the default branch)',
+            },
+          },
+          required: ['owner', 'repo', 'branch'],
+        },
+      },
+      {
+        name: 'github_delete_branch',
+        description: 'Delete a branch of a GitHub repository',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            ...REPOSITORY_PROPERTIES,
+            branch: {
+              type: 'string',
+              description: 'Name of the branch',
+            },
+          },
+          required: ['owner', 'repo', 'branch'],
+        },
+      },
+      {
+        name: 'github_commit_files',
+        description: 'Commit changes to several files of a GitHub repository at once, on top of a branch',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            ...REPOSITORY_PROPERTIES,
+            branch: {
+              type: 'string',
+              description: 'Branch to commit to; it must exist',
+            },
+            message: {
+              type: 'string',
+              description: 'Commit message',
+            },
+            files: {
+              type: 'array',
+              description: 'Files to change',
+              items: {
+                type: 'object',
+                properties: {
+                  path: {
+                    type: 'string',
+                    description: 'Path of the file in the repository',
+                  },
+                  content: {
+                    type: 'string',
+                    description: 'New content of the file (UTF-8 text)',
+                  },
+                  delete: {
+                    type: 'boolean',
+                    description: 'Delete the file instead of writing it',
+                  },
+                },
+                required: ['path'],
+              },
+            },
+          },
+          required: ['owner', 'repo', 'branch', 'message', 'files'],
+        },
+      },
+      {
+        name: 'github_list_workflow_runs',
+        description: 'List recent GitHub Actions workflow runs of a repository, newest first',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            ...REPOSITORY_PROPERTIES,
+            branch: {
+              type: 'string',
+              description: 'Only list runs for this branch',
+            },
+            status: {
+              type: 'string',
+              description: 'Only list runs with this status or conclusion',
+              enum: ['queued', 'in_progress', 'completed', 'success', 'failure', 'cancelled'],
+            },
+          },
+          required: ['owner', 'repo'],
+        },
+      },
+      {
+        name: 'github_get_workflow_run',
+        description: 'Get the status of a GitHub Actions workflow run and its jobs',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            ...REPOSITORY_PROPERTIES,
+            run_id: {
+              type: 'integer',
+              description: 'ID of the workflow run',
+            },
+          },
+          required: ['owner', 'repo', 'run_id'],
+        },
+      },
       {
         name: 'github_request',
         description: 'Make a custom GitHub API request',
@@ -365,8 +607,13 @@ export class GitHubMCPServerAdapter extends BaseMCPServerAdapter {
 
         if (!response.ok) {
           const errorData = (await response.json().catch(() => null)) as GitHubErrorResponse | null;
-          const errorMessage = errorData?.message || (await response.text()) || 'Unknown error';
-          throw new Error(`GitHub API error (${response.status}): ${errorMessage}`);
+          const errorMessage = errorData?.message || response.statusText || 'Unknown error';
+          throw new GitHubAPIError(response.status, errorMessage);
+        }
+
+        // Deletes answer without a body
+        if (response.status === 204) {
+          return null as T;
         }
 
         const responseData = await response.json();
@@ -377,6 +624,11 @@ export class GitHubMCPServerAdapter extends BaseMCPServerAdapter {
         lastError = error instanceof Error ? error : new Error(String(error));
         logger.error(`GitHub API request attempt ${attempt}/${maxRetries} failed:`, error);
 
+        // Other client errors fail the same way again, and retrying them could repeat a write
+        if (error instanceof GitHubAPIError && error.status < 500 && error.status !== 429 && error.status !== 403) {
+          break;
+        }
+
         if (attempt < maxRetries) {
           const backoffTime = Math.pow(2, attempt - 1) * 1000;
           logger.info(`Retrying GitHub API request in ${backoffTime}ms...`);
@@ -388,6 +640,67 @@ export class GitHubMCPServerAdapter extends BaseMCPServerAdapter {
     throw lastError || new Error(`Failed after ${maxRetries} attempts`);
   }
 
+  /**
+   * Get the API path of the repository a tool works on
+   * @param args Arguments of the tool call
+   */
+  private _getRepositoryPath(args: any): string {
+    if (!args.owner || !args.repo) {
+      throw new Error('Repository owner and name are required');
+    }
+
+    return `/repos/${encodeURIComponent(args.owner)}/${encodeURIComponent(args.repo)}`;
+  }
+
+  /**
+   * Commit changes to several files in one commit through the Git Data API
+   * @param repoPath API path of the repository
+   * @param branch Branch to commit to
+   * @param message Commit message
+   * @param files Files to write or delete
+   */
+  private async _commitFiles(repoPath: string, branch: string, message: string, files: GitHubFileChange[]) {
+    const ref = await this._request<any>(`${repoPath}/git/ref/heads/${encodeBranch(branch)}`);
+    const parent = await this._request<any>(`${repoPath}/git/commits/${ref.object.sha}`);
+
+    // Contents are given inline, so GitHub creates the blobs along with the tree
+    const tree = await this._request<any>(`${repoPath}/git/trees`, {
+      method: 'POST',
+      body: JSON.stringify({
+        base_tree: parent.tree.sha,
+        tree: files.map((file) => ({
+          path: file.path.replace(/^\/+/, ''),
+          mode: '100644',
+          type: 'blob',
+          ...(file.delete ? { sha: null } : { content: file.content ?? '' }),
+        })),
+      }),
+    });
+
+    const commit = await this._request<any>(`${repoPath}/git/commits`, {
+      method: 'POST',
+      body: JSON.stringify({
+        message,
+        tree: tree.sha,
+        parents: [ref.object.sha],
+      }),
+    });
+
+    // Not forced, so the commit is rejected if the branch moved in the meantime
+    await this._request<any>(`${repoPath}/git/refs/heads/${encodeBranch(branch)}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ sha: commit.sha }),
+    });
+
+    return {
+      sha: commit.sha,
+      html_url: commit.html_url,
+      branch,
+      message,
+      files: files.map((file) => ({ path: file.path, status: file.delete ? 'deleted' : 'written' })),
+    };
+  }
+
   /**
    * Execute a tool call
    * @param toolName Name of the tool to execute
@@ -452,6 +765,160 @@ export class GitHubMCPServerAdapter extends BaseMCPServerAdapter {
             }),
           });
 
+        case 'github_list_issues': {
+          const params = new URLSearchParams({ state: args.state || 'open', per_page: '30' });
+
+          if (args.labels) {
+            params.set('labels', args.labels);
+          }
+
+          return this._request<any[]>(`${this._getRepositoryPath(args)}/issues?${params}`);
+        }
+
+        case 'github_get_issue': {
+          const repoPath = this._getRepositoryPath(args);
+
+          if (!args.issue_number) {
+            throw new Error('Issue number is required');
+          }
+
+          const [issue, comments] = await Promise.all([
+            this._request<any>(`${repoPath}/issues/${args.issue_number}`),
+            this._request<any[]>(`${repoPath}/issues/${args.issue_number}/comments?per_page=100`),
+          ]);
+
+          return { issue, comments };
+        }
+
+        case 'github_create_issue': {
+          const repoPath = this._getRepositoryPath(args);
+
+          if (!args.title) {
+            throw new Error('Issue title is required');
+          }
+
+          return this._request<any>(`${repoPath}/issues`, {
+            method: 'POST',
+            body: JSON.stringify({
+              title: args.title,
+              body: args.body || '',
+              labels: args.labels,
+              assignees: args.assignees,
+            }),
+          });
+        }
+
+        case 'github_comment_on_issue': {
+          const repoPath = this._getRepositoryPath(args);
+
+          if (!args.issue_number || !args.body) {
+            throw new Error('Issue number and comment body are required');
+          }
+
+          return this._request<any>(`${repoPath}/issues/${args.issue_number}/comments`, {
+            method: 'POST',
+            body: JSON.stringify({ body: args.body }),
+          });
+        }
+
+        case 'github_create_pull_request': {
+          const repoPath = this._getRepositoryPath(args);
+
+          if (!args.title || !args.head) {
+            throw new Error('Pull request title and head branch are required');
+          }
+
+          const base = args.base || (await this._request<any>(repoPath)).default_branch;
+
+          return this._request<any>(`${repoPath}/pulls`, {
+            method: 'POST',
+            body: JSON.stringify({
+              title: args.title,
+              head: args.head,
+              base,
+              body: args.body || '',
+              draft: args.draft || false,
+            }),
+          });
+        }
+
+        case 'github_list_branches':
+          return this._request<any[]>(`${this._getRepositoryPath(args)}/branches?per_page=100`);
+
+        case 'github_create_branch': {
+          const repoPath = this._getRepositoryPath(args);
+
+          if (!args.branch) {
+            throw new Error('Branch name is required');
+          }
+
+          const fromBranch = args.from_branch || (await this._request<any>(repoPath)).default_branch;
+          const fromRef = await this._request<any>(`${repoPath}/git/ref/heads/${encodeBranch(fromBranch)}`);
+
+          return this._request<any>(`${repoPath}/git/refs`, {
+            method: 'POST',
+            body: JSON.stringify({
+              ref: `refs/heads/${args.branch}`,
+              sha: fromRef.object.sha,
+            }),
+          });
+        }
+
+        case 'github_delete_branch': {
+          const repoPath = this._getRepositoryPath(args);
+
+          if (!args.branch) {
+            throw new Error('Branch name is required');
+          }
+
+          await this._request<null>(`${repoPath}/git/refs/heads/${encodeBranch(args.branch)}`, { method: 'DELETE' });
+
+          return { deleted: true, branch: args.branch };
+        }
+
+        case 'github_commit_files': {
+          const repoPath = this._getRepositoryPath(args);
+
+          if (!args.branch || !args.message) {
+            throw new Error('Branch and commit message are required');
+          }
+
+          if (!Array.isArray(args.files) || args.files.length === 0 || args.files.some((file: any) => !file?.path)) {
+            throw new Error('At least one file with a path is required');
+          }
+
+          return this._commitFiles(repoPath, args.branch, args.message, args.files);
+        }
+
+        case 'github_list_workflow_runs': {
+          const params = new URLSearchParams({ per_page: '10' });
+
+          if (args.branch) {
+            params.set('branch', args.branch);
+          }
+
+          if (args.status) {
+            params.set('status', args.status);
+          }
+
+          return this._request<any>(`${this._getRepositoryPath(args)}/actions/runs?${params}`);
+        }
+
+        case 'github_get_workflow_run': {
+          const repoPath = this._getRepositoryPath(args);
+
+          if (!args.run_id) {
+            throw new Error('Workflow run ID is required');
+          }
+
+          const [run, jobs] = await Promise.all([
+            this._request<any>(`${repoPath}/actions/runs/${args.run_id}`),
+            this._request<any>(`${repoPath}/actions/runs/${args.run_id}/jobs`),
+          ]);
+
+          return { run, jobs: jobs.jobs };
+        }
+
         case 'github_request': {
           if (!args.endpoint) {
             throw new Error('API endpoint is required');
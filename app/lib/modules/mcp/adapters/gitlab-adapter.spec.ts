@@ -0,0 +1,186 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { GitLabMCPServerAdapter, isGitLabServer } from './gitlab-adapter';
+
+const INSTANCE_URL = 'https://gitlab.example.com';
+
+let fetchMock: ReturnType<typeof vi.fn>;
+
+function createAdapter(token = 'glpat-secret') {
+  return new GitLabMCPServerAdapter('gitlab', 'GitLab', INSTANCE_URL, true, { auth: { type: 'gitlab', token } });
+}
+
+// Get the URL, method, headers and parsed body of a fetch call
+function getCall(index = 0) {
+  const [url, init] = fetchMock.mock.calls[index] as [string, RequestInit | undefined];
+
+  return {
+    url,
+    method: init?.method ?? 'GET',
+    headers: new Headers(init?.headers),
+    body: init?.body ? JSON.parse(String(init.body)) : undefined,
+  };
+}
+
+beforeEach(() => {
+  fetchMock = vi.fn();
+  vi.stubGlobal('fetch', fetchMock);
+  vi.stubEnv('GITLAB_TOKEN', '');
+  vi.stubEnv('MCP_GITLAB_TOKEN', '');
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+});
+
+describe('isGitLabServer', () => {
+  it('should recognize GitLab servers by auth type, ID, name or URL', () => {
+    expect(isGitLabServer('work', 'Work', 'https://example.com', { auth: { type: 'gitlab' } })).toBe(true);
+    expect(isGitLabServer('gitlab', 'Work', 'https://example.com')).toBe(true);
+    expect(isGitLabServer('work', 'Work', 'https://gitlab.example.com')).toBe(true);
+    expect(isGitLabServer('work', 'Work', 'https://example.com')).toBe(false);
+  });
+});
+
+describe('GitLabMCPServerAdapter', () => {
+  it('should authenticate with the token against the API of the instance', async () => {
+    fetchMock.mockResolvedValue(Response.json({ username: 'octo' }));
+
+    const status = await createAdapter().testConnection();
+
+    expect(status).toEqual({ success: true, message: 'Connected to GitLab API at gitlab.example.com as octo' });
+    expect(getCall().url).toBe(`${INSTANCE_URL}/api/v4/user`);
+    expect(getCall().headers.get('PRIVATE-TOKEN')).toBe('glpat-secret');
+  });
+
+  it('should report a rejected token', async () => {
+    fetchMock.mockResolvedValue(Response.json({ message: '401 Unauthorized' }, { status: 401 }));
+
+    const status = await createAdapter('glpat-revoked').testConnection();
+
+    expect(status).toEqual({ success: false, message: 'GitLab API error (401): 401 Unauthorized' });
+  });
+
+  it('should not call the API without a token', async () => {
+    const adapter = new GitLabMCPServerAdapter('gitlab', 'GitLab', INSTANCE_URL);
+
+    await expect(adapter.testConnection()).resolves.toMatchObject({ success: false });
+    await expect(adapter.executeToolCall('gitlab_get_user', {})).rejects.toThrow('GitLab token not available');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should use the token of an updated configuration', async () => {
+    // Updating the configuration reconnects, so every call gets its own response
+    fetchMock.mockImplementation(async () => Response.json({ username: 'octo' }));
+
+    const adapter = createAdapter();
+
+    adapter.updateConfig({ auth: { type: 'gitlab', token: 'glpat-rotated' } });
+    await adapter.executeToolCall('gitlab_get_user', {});
+
+    expect(getCall(fetchMock.mock.calls.length - 1).headers.get('PRIVATE-TOKEN')).toBe('glpat-rotated');
+  });
+
+  it('should encode project paths and decode file contents', async () => {
+    fetchMock.mockResolvedValue(
+      Response.json({ file_path: 'src/app.ts', encoding: 'base64', content: btoa('export const app = 1;\n') }),
+    );
+
+    const file = await createAdapter().executeToolCall('gitlab_get_file_contents', {
+      project: 'group/sub/project',
+      path: 'src/app.ts',
+      ref: 'main',
+    });
+
+    expect(getCall().url).toBe(
+      `${INSTANCE_URL}/api/v4/projects/group%2Fsub%2Fproject/repository/files/src%2Fapp.ts?ref=main`,
+    );
+    expect(file).toMatchObject({ content: 'export const app = 1;\n', encoding: 'text' });
+  });
+
+  it('should create merge requests with a JSON body', async () => {
+    fetchMock.mockResolvedValue(Response.json({ iid: 7 }, { status: 201 }));
+
+    const result = await createAdapter().executeToolCall('gitlab_create_merge_request', {
+      project: 42,
+      source_branch: 'feature',
+      target_branch: 'main',
+      title: 'Add feature',
+    });
+
+    expect(result).toEqual({ iid: 7 });
+    expect(getCall()).toMatchObject({
+      url: `${INSTANCE_URL}/api/v4/projects/42/merge_requests`,
+      method: 'POST',
+      body: { source_branch: 'feature', target_branch: 'main', title: 'Add feature' },
+    });
+    expect(getCall().headers.get('Content-Type')).toBe('application/json');
+  });
+
+  it('should check the required arguments before calling the API', async () => {
+    const adapter = createAdapter();
+
+    await expect(adapter.executeToolCall('gitlab_list_merge_requests', {})).rejects.toThrow(
+      'Project ID or path is required',
+    );
+    await expect(adapter.executeToolCall('gitlab_search_projects', {})).rejects.toThrow('Search query is required');
+    await expect(adapter.executeToolCall('gitlab_unknown', {})).rejects.toThrow('Unknown GitLab tool: gitlab_unknown');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should report validation errors field by field', async () => {
+    fetchMock.mockResolvedValue(
+      Response.json(
+        { message: { name: ['has already been taken'], path: ['is too short', 'is invalid'] } },
+        { status: 400 },
+      ),
+    );
+
+    await expect(createAdapter().executeToolCall('gitlab_create_project', { name: 'demo' })).rejects.toThrow(
+      'GitLab API error (400): name has already been taken; path is too short, is invalid',
+    );
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry rate limited and failed requests with backoff', async () => {
+    vi.useFakeTimers();
+    fetchMock
+      .mockResolvedValueOnce(new Response(null, { status: 429 }))
+      .mockResolvedValueOnce(new Response(null, { status: 502 }))
+      .mockResolvedValueOnce(Response.json([{ id: 1 }]));
+
+    const result = createAdapter().executeToolCall('gitlab_list_projects', { owned: true });
+
+    await vi.advanceTimersByTimeAsync(3000);
+
+    await expect(result).resolves.toEqual([{ id: 1 }]);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(getCall().url).toContain('&owned=true');
+  });
+
+  it('should give up after the last retry', async () => {
+    vi.useFakeTimers();
+    fetchMock.mockImplementation(async () => Response.json({ error: 'Service unavailable' }, { status: 503 }));
+
+    const result = createAdapter().executeToolCall('gitlab_get_user', {});
+    const failure = expect(result).rejects.toThrow('GitLab API error (503): Service unavailable');
+
+    await vi.advanceTimersByTimeAsync(3000);
+
+    await failure;
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('should only send a body with requests that take one', async () => {
+    fetchMock.mockImplementation(async () => new Response(null, { status: 204 }));
+
+    const adapter = createAdapter();
+
+    await expect(
+      adapter.executeToolCall('gitlab_request', { endpoint: 'projects/42/issues/1', method: 'DELETE', body: { x: 1 } }),
+    ).resolves.toBeNull();
+    expect(getCall()).toMatchObject({ url: `${INSTANCE_URL}/api/v4/projects/42/issues/1`, method: 'DELETE' });
+    expect(getCall().body).toBeUndefined();
+  });
+});
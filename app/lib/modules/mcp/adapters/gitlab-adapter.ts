@@ -0,0 +1,578 @@
+/**
+ * GitLab MCP Server Adapter
+ * Implementation for GitLab API integration through MCP, for gitlab.com and self-hosted instances
+ */
+
+import { createScopedLogger } from '~/utils/logger';
+import type { ConnectionStatus, MCPTool, MCPServerConfig } from '~/lib/modules/mcp/config';
+import { getStoredMCPServersWithCredentials } from '~/lib/modules/mcp/storage';
+import { DEFAULT_GITLAB_URL, encodeGitLabProject, getGitLabApiUrl } from '~/utils/gitlab';
+import { BaseMCPServerAdapter } from './base-adapter';
+
+const logger = createScopedLogger('MCPGitLabAdapter');
+
+interface GitLabErrorResponse {
+  message?: string | Record<string, string[]>;
+  error?: string;
+}
+
+const PROJECT_PROPERTY = {
+  type: 'string',
+  description: 'Project ID or path with namespace (e.g., group/project)',
+};
+
+/**
+ * Check whether a server configuration points at GitLab
+ * @param id Server ID
+ * @param name Server name
+ * @param baseUrl Server URL
+ * @param config Server configuration
+ */
+export function isGitLabServer(id: string, name: string, baseUrl: string, config: Partial<MCPServerConfig> = {}) {
+  return (
+    config.auth?.type === 'gitlab' ||
+    id.toLowerCase() === 'gitlab' ||
+    name.toLowerCase() === 'gitlab' ||
+    baseUrl.includes('gitlab')
+  );
+}
+
+/**
+ * Turn a GitLab error body into a message
+ * Validation errors come back as a map of field names to messages
+ * @param data Parsed error body
+ */
+function getErrorMessage(data: GitLabErrorResponse | null): string | undefined {
+  if (!data) {
+    return undefined;
+  }
+
+  if (typeof data.message === 'object' && data.message) {
+    return Object.entries(data.message)
+      .map(([field, messages]) => `${field} ${[messages].flat().join(', ')}`)
+      .join('; ');
+  }
+
+  return data.message || data.error;
+}
+
+/**
+ * Decode the base64 content of a repository file
+ * @param content Base64 content returned by the files API
+ */
+function decodeFileContent(content: string): string {
+  const binary = atob(content.replace(/\s/g, ''));
+
+  return new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+}
+
+/**
+ * GitLab MCP Server Adapter
+ * Adapter for the GitLab REST API of a configurable instance
+ */
+export class GitLabMCPServerAdapter extends BaseMCPServerAdapter {
+  private _token: string | null = null;
+  private _authenticatedUser: any = null;
+
+  constructor(
+    id: string = 'gitlab',
+    name: string = 'GitLab',
+    baseUrl: string = DEFAULT_GITLAB_URL,
+    enabled: boolean = true,
+    config: Partial<MCPServerConfig> = {},
+  ) {
+    super(id, name, baseUrl || DEFAULT_GITLAB_URL, enabled, config);
+
+    const envToken =
+      typeof process !== 'undefined' && process.env
+        ? process.env.GITLAB_TOKEN || process.env.MCP_GITLAB_TOKEN
+        : undefined;
+
+    this._token = config.auth?.token || (config as { token?: string }).token || envToken || null;
+
+    if (!this._token) {
+      // Stored tokens live in the credential vault, which is read asynchronously in testConnection()
+      logger.warn('No GitLab token found in configuration or environment variables', { id, name, baseUrl });
+    }
+  }
+
+  /**
+   * Initialize the server adapter
+   */
+  async initialize(): Promise<void> {
+    logger.info(`Initializing GitLab MCP server adapter: ${this.name}`);
+
+    if (!this._token) {
+      logger.warn('GitLab token not provided. GitLab adapter will be disabled.');
+      this.enabled = false;
+
+      return;
+    }
+
+    try {
+      const status = await this.testConnection();
+
+      if (status.success) {
+        logger.info(`Successfully connected to GitLab API as ${this._authenticatedUser?.username}`);
+      } else {
+        logger.warn(`Could not connect to GitLab API: ${status.message}`);
+      }
+    } catch (error) {
+      logger.error(`Failed to initialize GitLab MCP adapter:`, error);
+    }
+  }
+
+  /**
+   * Test the connection to this server
+   */
+  async testConnection(): Promise<ConnectionStatus> {
+    if (!this._token) {
+      // Try to read the stored token from the credential vault
+      try {
+        const servers = await getStoredMCPServersWithCredentials();
+        const gitlabServer = servers.find(
+          (s) => (s.name === this.name && s.baseUrl === this.baseUrl) || s.auth?.type === 'gitlab',
+        );
+
+        if (gitlabServer?.auth?.token) {
+          this._token = gitlabServer.auth.token;
+          logger.info('GitLab token retrieved from the credential vault during connection test');
+        }
+      } catch (e) {
+        logger.error('Error trying to read stored token during connection test', e);
+      }
+
+      if (!this._token) {
+        return {
+          success: false,
+          message: 'No GitLab token found. Please configure a valid token.',
+        };
+      }
+    }
+
+    try {
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), 5000);
+
+      const response = await fetch(`${getGitLabApiUrl(this.baseUrl)}/user`, {
+        headers: { 'PRIVATE-TOKEN': this._token },
+        signal: controller.signal,
+      });
+
+      clearTimeout(timeoutId);
+
+      if (!response.ok) {
+        const errorData = (await response.json().catch(() => null)) as GitLabErrorResponse | null;
+
+        return {
+          success: false,
+          message: `GitLab API error (${response.status}): ${getErrorMessage(errorData) || response.statusText || 'Unknown error'}`,
+        };
+      }
+
+      this._authenticatedUser = await response.json();
+
+      return {
+        success: true,
+        message: `Connected to GitLab API at ${new URL(this.baseUrl).host} as ${this._authenticatedUser.username}`,
+      };
+    } catch (error) {
+      logger.error('GitLab connection test failed:', error);
+      return {
+        success: false,
+        message: `Connection failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+
+  /**
+   * Get the list of tools provided by this server
+   */
+  async getToolDefinitions(): Promise<MCPTool[]> {
+    // GitLab adapter provides a fixed set of tools (GitLab API methods)
+    return [
+      {
+        name: 'gitlab_get_user',
+        description: 'Get information about the authenticated GitLab user',
+        inputSchema: {
+          type: 'object',
+          properties: {},
+          required: [],
+        },
+      },
+      {
+        name: 'gitlab_list_projects',
+        description: 'List GitLab projects the authenticated user is a member of, most recently active first',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            owned: {
+              type: 'boolean',
+              description: 'Only list projects owned by the user',
+            },
+          },
+          required: [],
+        },
+      },
+      {
+        name: 'gitlab_search_projects',
+        description: 'Search for GitLab projects by name',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            query: {
+              type: 'string',
+              description: 'Search query',
+            },
+          },
+          required: ['query'],
+        },
+      },
+      {
+        name: 'gitlab_get_repository_tree',
+        description: 'List the files and directories of a GitLab repository',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            project: PROJECT_PROPERTY,
+            path: {
+              type: 'string',
+              description: 'Directory to list (optional, defaults to the root)',
+            },
+            ref: {
+              type: 'string',
+              description: 'Branch, tag or commit (optional, defaults to the default branch)',
+            },
+            recursive: {
+              type: 'boolean',
+              description: 'Whether to list subdirectories too',
+            },
+          },
+          required: ['project'],
+        },
+      },
+      {
+        name: 'gitlab_get_file_contents',
+        description: 'Get the contents of a file in a GitLab repository',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            project: PROJECT_PROPERTY,
+            path: {
+              type: 'string',
+              description: 'Path to the file',
+            },
+            ref: {
+              type: 'string',
+              description: 'Branch, tag or commit (optional, defaults to the default branch)',
+            },
+          },
+          required: ['project', 'path'],
+        },
+      },
+      {
+        name: 'gitlab_create_project',
+        description: 'Create a new GitLab project',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            name: {
+              type: 'string',
+              description: 'Project name',
+            },
+            description: {
+              type: 'string',
+              description: 'Project description',
+            },
+            visibility: {
+              type: 'string',
+              description: 'Who can see the project',
+              enum: ['private', 'internal', 'public'],
+            },
+          },
+          required: ['name'],
+        },
+      },
+      {
+        name: 'gitlab_list_merge_requests',
+        description: 'List the merge requests of a GitLab project',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            project: PROJECT_PROPERTY,
+            state: {
+              type: 'string',
+              description: 'Only list merge requests in this state (defaults to opened)',
+              enum: ['opened', 'closed', 'locked', 'merged', 'all'],
+            },
+          },
+          required: ['project'],
+        },
+      },
+      {
+        name: 'gitlab_get_merge_request',
+        description: 'Get a merge request of a GitLab project, including the changed files',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            project: PROJECT_PROPERTY,
+            iid: {
+              type: 'integer',
+              description: 'Number of the merge request within the project',
+            },
+          },
+          required: ['project', 'iid'],
+        },
+      },
+      {
+        name: 'gitlab_create_merge_request',
+        description: 'Open a merge request in a GitLab project',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            project: PROJECT_PROPERTY,
+            source_branch: {
+              type: 'string',
+              description: 'Branch with the changes',
+            },
+            target_branch: {
+              type: 'string',
+              description: 'Branch to merge into',
+            },
+            title: {
+              type: 'string',
+              description: 'Title of the merge request',
+            },
+            description: {
+              type: 'string',
+              description: 'Description of the merge request',
+            },
+          },
+          required: ['project', 'source_branch', 'target_branch', 'title'],
+        },
+      },
+      {
+        name: 'gitlab_request',
+        description: 'Make a custom GitLab API request',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            endpoint: {
+              type: 'string',
+              description: 'API endpoint below /api/v4 (e.g., /projects/123/issues)',
+            },
+            method: {
+              type: 'string',
+              description: 'HTTP method (GET, POST, PUT, DELETE, etc.)',
+              enum: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'],
+            },
+            body: {
+              type: 'object',
+              description: 'Request body for POST, PUT, PATCH requests',
+            },
+          },
+          required: ['endpoint'],
+        },
+      },
+    ];
+  }
+
+  /**
+   * Make a request to the GitLab API
+   * Rate limited and server errors are retried with backoff; other errors are thrown right away
+   * @param endpoint Endpoint below /api/v4
+   * @param options Fetch options
+   */
+  private async _request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
+    if (!this._token) {
+      throw new Error('GitLab token not available');
+    }
+
+    const url = `${getGitLabApiUrl(this.baseUrl)}${endpoint.startsWith('/') ? endpoint : `/${endpoint}`}`;
+    const maxRetries = 3;
+
+    for (let attempt = 1; ; attempt++) {
+      const headers = new Headers(options.headers || {});
+      headers.set('PRIVATE-TOKEN', this._token);
+      headers.set('Content-Type', 'application/json');
+
+      const response = await fetch(url, { ...options, headers });
+
+      if ((response.status === 429 || response.status >= 500) && attempt < maxRetries) {
+        const backoffTime = Math.pow(2, attempt - 1) * 1000;
+        logger.info(`GitLab API returned ${response.status}, retrying in ${backoffTime}ms...`);
+        await new Promise((resolve) => setTimeout(resolve, backoffTime));
+        continue;
+      }
+
+      if (!response.ok) {
+        const errorData = (await response.json().catch(() => null)) as GitLabErrorResponse | null;
+        throw new Error(
+          `GitLab API error (${response.status}): ${getErrorMessage(errorData) || response.statusText || 'Unknown error'}`,
+        );
+      }
+
+      // Deletes answer without a body
+      if (response.status === 204) {
+        return null as T;
+      }
+
+      return (await response.json()) as T;
+    }
+  }
+
+  /**
+   * Execute a tool call
+   * @param toolName Name of the tool to execute
+   * @param args Arguments for the tool
+   */
+  async executeToolCall(toolName: string, args: any): Promise<any> {
+    logger.info(`GitLab adapter executing tool: ${toolName}`, { args: JSON.stringify(args) });
+
+    if (!this._token) {
+      throw new Error('GitLab token not available. Please configure a valid token in the MCP server settings.');
+    }
+
+    const requireProject = () => {
+      if (!args.project) {
+        throw new Error('Project ID or path is required');
+      }
+
+      return `/projects/${encodeGitLabProject(args.project)}`;
+    };
+
+    try {
+      switch (toolName) {
+        case 'gitlab_get_user':
+          return this._request<any>('/user');
+
+        case 'gitlab_list_projects':
+          return this._request<any[]>(
+            `/projects?membership=true&order_by=last_activity_at&per_page=50${args.owned ? '&owned=true' : ''}`,
+          );
+
+        case 'gitlab_search_projects':
+          if (!args.query) {
+            throw new Error('Search query is required');
+          }
+
+          return this._request<any[]>(
+            `/projects?search=${encodeURIComponent(args.query)}&order_by=last_activity_at&per_page=50`,
+          );
+
+        case 'gitlab_get_repository_tree': {
+          const params = new URLSearchParams({ per_page: '100' });
+
+          if (args.path) {
+            params.set('path', args.path);
+          }
+
+          if (args.ref) {
+            params.set('ref', args.ref);
+          }
+
+          if (args.recursive) {
+            params.set('recursive', 'true');
+          }
+
+          return this._request<any[]>(`${requireProject()}/repository/tree?${params}`);
+        }
+
+        case 'gitlab_get_file_contents': {
+          const projectPath = requireProject();
+
+          if (!args.path) {
+            throw new Error('File path is required');
+          }
+
+          const file = await this._request<any>(
+            `${projectPath}/repository/files/${encodeURIComponent(args.path)}?ref=${encodeURIComponent(args.ref || 'HEAD')}`,
+          );
+
+          // The files API returns base64; the model needs the text
+          return {
+            ...file,
+            content: file.encoding === 'base64' ? decodeFileContent(file.content) : file.content,
+            encoding: 'text',
+          };
+        }
+
+        case 'gitlab_create_project':
+          if (!args.name) {
+            throw new Error('Project name is required');
+          }
+
+          return this._request<any>('/projects', {
+            method: 'POST',
+            body: JSON.stringify({
+              name: args.name,
+              description: args.description || '',
+              visibility: args.visibility || 'private',
+            }),
+          });
+
+        case 'gitlab_list_merge_requests':
+          return this._request<any[]>(
+            `${requireProject()}/merge_requests?state=${encodeURIComponent(args.state || 'opened')}&per_page=50`,
+          );
+
+        case 'gitlab_get_merge_request':
+          if (!args.iid) {
+            throw new Error('Merge request number is required');
+          }
+
+          return this._request<any>(`${requireProject()}/merge_requests/${encodeURIComponent(args.iid)}/changes`);
+
+        case 'gitlab_create_merge_request': {
+          const projectPath = requireProject();
+
+          if (!args.source_branch || !args.target_branch || !args.title) {
+            throw new Error('Source branch, target branch and title are required');
+          }
+
+          return this._request<any>(`${projectPath}/merge_requests`, {
+            method: 'POST',
+            body: JSON.stringify({
+              source_branch: args.source_branch,
+              target_branch: args.target_branch,
+              title: args.title,
+              description: args.description || '',
+            }),
+          });
+        }
+
+        case 'gitlab_request': {
+          if (!args.endpoint) {
+            throw new Error('API endpoint is required');
+          }
+
+          const options: RequestInit = {
+            method: args.method || 'GET',
+          };
+
+          if (args.body && (options.method === 'POST' || options.method === 'PUT' || options.method === 'PATCH')) {
+            options.body = JSON.stringify(args.body);
+          }
+
+          return this._request<any>(args.endpoint, options);
+        }
+
+        default:
+          throw new Error(`Unknown GitLab tool: ${toolName}`);
+      }
+    } catch (error) {
+      logger.error(`Error executing GitLab tool ${toolName}:`, error);
+      throw error;
+    }
+  }
+
+  updateConfig(config: Partial<MCPServerConfig>): void {
+    // Update the token before the base class re-initializes with it
+    if (config.auth?.token) {
+      this._token = config.auth.token;
+      logger.info('GitLab token updated');
+    }
+
+    super.updateConfig(config);
+  }
+}
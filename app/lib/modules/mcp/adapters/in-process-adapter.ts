@@ -0,0 +1,147 @@
+/**
+ * In-Process MCP Server Adapter
+ * Connects to an MCP server running in the same JavaScript context over an in-memory transport
+ */
+
+import { createScopedLogger } from '~/utils/logger';
+import type { ConnectionStatus, MCPTool, MCPToolCallOptions } from '~/lib/modules/mcp/config';
+import { BaseMCPServerAdapter } from './base-adapter';
+import { callClientTool } from '~/lib/modules/mcp/tools';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ToolListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+
+const logger = createScopedLogger('InProcessMCPAdapter');
+
+/**
+ * Adapter for MCP servers implemented in the application itself
+ * The server is created on first use and lives as long as the adapter
+ */
+export class InProcessMCPServerAdapter extends BaseMCPServerAdapter {
+  readonly builtIn = true;
+  private _createServer: () => McpServer;
+  private _server: McpServer | null = null;
+  private _client: Client | null = null;
+  private _connecting: Promise<Client> | null = null;
+  private _tools: MCPTool[] = [];
+
+  /**
+   * @param id Server ID
+   * @param name Server name
+   * @param createServer Creates the server the adapter connects to
+   */
+  constructor(id: string, name: string, createServer: () => McpServer) {
+    super(id, name, '', true);
+    this._createServer = createServer;
+  }
+
+  /**
+   * Get the list of tools provided by this server
+   */
+  async getToolDefinitions(): Promise<MCPTool[]> {
+    await this._connect();
+
+    return this._tools;
+  }
+
+  /**
+   * Test the connection to this server
+   */
+  async testConnection(): Promise<ConnectionStatus> {
+    try {
+      await this._connect();
+
+      return { success: true, message: `${this._tools.length} built-in tools available` };
+    } catch (error) {
+      return { success: false, message: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * Execute a tool call
+   * @param toolName Name of the tool to execute
+   * @param args Arguments for the tool
+   * @param options Cancellation and progress reporting
+   */
+  async executeToolCall(toolName: string, args: any, options: MCPToolCallOptions = {}): Promise<any> {
+    const client = await this._connect();
+
+    if (!this._tools.some((tool) => tool.name === toolName)) {
+      throw new Error(`Tool "${toolName}" not found on MCP server: ${this.name}`);
+    }
+
+    return callClientTool(client, toolName, args, options);
+  }
+
+  /**
+   * Close the connection and the server
+   */
+  async dispose(): Promise<void> {
+    const client = this._client;
+    const server = this._server;
+
+    this._client = null;
+    this._server = null;
+    this._connecting = null;
+
+    await client?.close().catch(() => undefined);
+    await server?.close().catch(() => undefined);
+  }
+
+  /**
+   * Create the server and connect to it once
+   */
+  private _connect(): Promise<Client> {
+    if (!this._connecting) {
+      this._connecting = this._startServer().catch((error) => {
+        this._connecting = null;
+        throw error;
+      });
+    }
+
+    return this._connecting;
+  }
+
+  /**
+   * Create the server, connect a client to it and discover its tools
+   */
+  private async _startServer(): Promise<Client> {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    const server = this._createServer();
+    const client = new Client({ name: `${this.id}-client`, version: '1.0.0' });
+
+    client.setNotificationHandler(ToolListChangedNotificationSchema, async () => {
+      logger.info(`Tool list of ${this.name} changed`);
+      await this._discoverTools(client).catch((error) => {
+        logger.error(`Failed to discover tools from ${this.name}:`, error);
+      });
+    });
+
+    await server.connect(serverTransport);
+    await client.connect(clientTransport);
+
+    this._server = server;
+    this._client = client;
+
+    await this._discoverTools(client);
+    logger.info(`Started built-in MCP server ${this.name} with ${this._tools.length} tools`);
+
+    return client;
+  }
+
+  /**
+   * Discover the tools of the server
+   * @param client Connected client
+   */
+  private async _discoverTools(client: Client): Promise<void> {
+    const { tools } = await client.listTools();
+
+    this._tools = tools.map((tool) => ({
+      name: tool.name,
+      description: tool.description || '',
+      inputSchema: tool.inputSchema,
+    }));
+    this._notifyToolsChanged(this._tools);
+  }
+}
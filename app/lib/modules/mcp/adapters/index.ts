@@ -6,17 +6,85 @@
 export { BaseMCPServerAdapter } from './base-adapter';
 export { StandardMCPServerAdapter } from './standard-adapter';
 export { GitHubMCPServerAdapter } from './github-adapter';
+export { GitLabMCPServerAdapter, isGitLabServer } from './gitlab-adapter';
+export { StdioMCPServerAdapter, getStdioServerUrl, isStdioAllowed, setStdioEnvironment } from './stdio-adapter';
+export { InProcessMCPServerAdapter } from './in-process-adapter';
+export {
+  OpenAPIMCPServerAdapter,
+  createOpenAPIOperations,
+  getOpenAPIServerUrl,
+  parseOpenAPIDocument,
+  type OpenAPIDocument,
+  type OpenAPIOperation,
+} from './openapi-adapter';
+export {
+  RecordingMCPServerAdapter,
+  ReplayMCPServerAdapter,
+  MCPCassetteMissError,
+  getCassettePath,
+  loadCassette,
+  parseCassette,
+  saveCassette,
+  type MCPCassette,
+  type MCPCassetteInteraction,
+} from './cassette-adapter';
 
 import { BaseMCPServerAdapter } from './base-adapter';
 import { StandardMCPServerAdapter } from './standard-adapter';
 import { GitHubMCPServerAdapter } from './github-adapter';
-import type { MCPServerConfig } from '~/lib/modules/mcp/config';
+import { GitLabMCPServerAdapter, isGitLabServer } from './gitlab-adapter';
+import { StdioMCPServerAdapter } from './stdio-adapter';
+import { OpenAPIMCPServerAdapter } from './openapi-adapter';
+import {
+  DEFAULT_CASSETTE_DIR,
+  RecordingMCPServerAdapter,
+  ReplayMCPServerAdapter,
+  getCassettePath,
+} from './cassette-adapter';
+import type { MCPCassetteConfig, MCPCassetteMatch, MCPServerConfig } from '~/lib/modules/mcp/config';
+import { getEnvironmentVariables } from '~/lib/modules/mcp/env';
 import { createScopedLogger } from '~/utils/logger';
 
 const logger = createScopedLogger('MCPAdapters');
 
+/**
+ * Get the cassette of a server with the file it is kept in
+ * MCP_CASSETTE_MODE records or replays every server that does not configure its own cassette,
+ * with one file per server; all cassettes are kept in MCP_CASSETTE_DIR
+ * @param id Server ID
+ * @param config Server configuration
+ */
+function getCassetteConfig(
+  id: string,
+  config: Partial<MCPServerConfig>,
+): (MCPCassetteConfig & { path: string }) | undefined {
+  const env = getEnvironmentVariables();
+  const directory = env.MCP_CASSETTE_DIR || DEFAULT_CASSETTE_DIR;
+
+  if (config.cassette) {
+    return { ...config.cassette, path: getCassettePath(id, config.cassette, directory) };
+  }
+
+  const mode = env.MCP_CASSETTE_MODE;
+
+  if (mode !== 'record' && mode !== 'replay') {
+    return undefined;
+  }
+
+  const cassette: MCPCassetteConfig = {
+    mode,
+    match: (env.MCP_CASSETTE_MATCH as MCPCassetteMatch | undefined) || undefined,
+    ignoreArgs: env.MCP_CASSETTE_IGNORE_ARGS?.split(',')
+      .map((arg) => arg.trim())
+      .filter(Boolean),
+  };
+
+  return { ...cassette, path: getCassettePath(id, cassette, directory) };
+}
+
 /**
  * Factory function to create the appropriate adapter for a server configuration
+ * Servers with a cassette are recorded while they are used, or replayed from it without connecting
  * @param id Server ID
  * @param name Server name
  * @param baseUrl Server URL
@@ -31,6 +99,74 @@ export function createServerAdapter(
   enabled: boolean = true,
   config: Partial<MCPServerConfig> = {},
 ): BaseMCPServerAdapter {
+  const cassette = getCassetteConfig(id, config);
+
+  if (cassette?.mode === 'replay') {
+    logger.info(`Creating replay adapter for server: ${name}`, { id, path: cassette.path, match: cassette.match });
+
+    return new ReplayMCPServerAdapter(id, name, baseUrl, enabled, config, cassette, cassette.path);
+  }
+
+  const adapter = createLiveServerAdapter(id, name, baseUrl, enabled, config);
+
+  if (cassette?.mode === 'record') {
+    logger.info(`Recording server ${name} to cassette`, { id, path: cassette.path });
+
+    return new RecordingMCPServerAdapter(adapter, cassette.path);
+  }
+
+  return adapter;
+}
+
+/**
+ * Create the adapter that talks to the server itself
+ * @param id Server ID
+ * @param name Server name
+ * @param baseUrl Server URL
+ * @param enabled Whether the server is enabled
+ * @param config Additional configuration
+ */
+function createLiveServerAdapter(
+  id: string,
+  name: string,
+  baseUrl: string,
+  enabled: boolean,
+  config: Partial<MCPServerConfig>,
+): BaseMCPServerAdapter {
+  // Check if this is a locally spawned server
+  if (config.transport === 'stdio' || config.command) {
+    logger.info(`Creating stdio adapter for server: ${name}`, {
+      id,
+      command: config.command,
+      args: config.args,
+    });
+
+    return new StdioMCPServerAdapter(id, name, baseUrl, enabled, config);
+  }
+
+  // Check if this is a REST service described by an OpenAPI document
+  if (config.openapi) {
+    logger.info(`Creating OpenAPI adapter for server: ${name}`, {
+      id,
+      specUrl: config.openapi.specUrl,
+      tags: config.openapi.tags,
+      operationIds: config.openapi.operationIds,
+    });
+
+    return new OpenAPIMCPServerAdapter(id, name, baseUrl, enabled, config);
+  }
+
+  // Check if this is a GitLab server, before GitHub since self-hosted instances are configured by auth type
+  if (isGitLabServer(id, name, baseUrl, config)) {
+    logger.info(`Creating GitLab adapter for server: ${name}`, {
+      id,
+      baseUrl,
+      hasToken: !!config?.auth?.token,
+    });
+
+    return new GitLabMCPServerAdapter(id, name, baseUrl, enabled, config);
+  }
+
   // Check if this is a GitHub server
   if (
     id.toLowerCase() === 'github' ||
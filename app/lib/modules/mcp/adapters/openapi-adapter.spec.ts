@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { createOpenAPIOperations, type OpenAPIDocument } from './openapi-adapter';
+
+const document: OpenAPIDocument = {
+  openapi: '3.0.0',
+  paths: {
+    '/pets/{id}': {
+      parameters: [{ $ref: '#/components/parameters/PetId' }],
+      get: {
+        operationId: 'getPet',
+        tags: ['pets'],
+        summary: 'Get a pet',
+        parameters: [{ name: 'id', in: 'query', schema: { type: 'integer' } }],
+      },
+      put: {
+        tags: ['admin'],
+        parameters: [{ name: 'body', in: 'query', required: true }],
+        requestBody: {
+          required: true,
+          content: {
+            'text/plain': { schema: { type: 'string' } },
+            'application/json': { schema: { $ref: '#/components/schemas/Pet' } },
+          },
+        },
+      },
+    },
+  },
+  components: {
+    parameters: { PetId: { name: 'id', in: 'path', description: 'Pet ID', schema: { type: 'string' } } },
+    schemas: { Pet: { type: 'object', properties: { name: { type: 'string' } } } },
+  },
+};
+
+describe('createOpenAPIOperations', () => {
+  it('should create a tool for each operation', () => {
+    const [getPet, putPet] = createOpenAPIOperations(document);
+
+    expect(getPet).toMatchObject({
+      toolName: 'getPet',
+      method: 'GET',
+      path: '/pets/{id}',
+      description: 'Get a pet\n\nGET /pets/{id}',
+      inputSchema: {
+        type: 'object',
+        properties: { id: { type: 'string', description: 'Pet ID' }, query_id: { type: 'integer' } },
+        required: ['id'],
+      },
+      parameters: [
+        { name: 'id', argName: 'id', in: 'path' },
+        { name: 'id', argName: 'query_id', in: 'query' },
+      ],
+    });
+    expect(putPet.toolName).toBe('put__pets_id');
+  });
+
+  it('should read the request body from the body argument and rename parameters named body', () => {
+    const putPet = createOpenAPIOperations(document)[1];
+
+    expect(putPet.bodyContentType).toBe('application/json');
+    expect(putPet.parameters).toContainEqual({ name: 'body', argName: 'query_body', in: 'query' });
+    expect(putPet.inputSchema.properties.body).toMatchObject({
+      type: 'object',
+      properties: { name: { type: 'string' } },
+    });
+    expect(putPet.inputSchema.required).toEqual(['id', 'query_body', 'body']);
+  });
+
+  it('should only keep operations matching the tags or operation IDs', () => {
+    expect(createOpenAPIOperations(document, { tags: ['admin'] }).map((op) => op.toolName)).toEqual(['put__pets_id']);
+    expect(createOpenAPIOperations(document, { operationIds: ['getPet'] }).map((op) => op.toolName)).toEqual([
+      'getPet',
+    ]);
+  });
+
+  it('should number repeated tool names', () => {
+    const operations = createOpenAPIOperations({
+      openapi: '3.0.0',
+      paths: { '/a': { get: { operationId: 'list' } }, '/b': { get: { operationId: 'list' } } },
+    });
+
+    expect(operations.map((operation) => operation.toolName)).toEqual(['list', 'list_2']);
+  });
+});
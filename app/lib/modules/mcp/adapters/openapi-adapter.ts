@@ -0,0 +1,643 @@
+/**
+ * OpenAPI MCP Server Adapter
+ * Generates one tool per operation of an OpenAPI 3 document and runs the tools as HTTP requests,
+ * so REST services can be used without writing an adapter for each of them
+ */
+
+import { parse as parseYaml } from 'yaml';
+import { createScopedLogger } from '~/utils/logger';
+import type {
+  ConnectionStatus,
+  MCPOpenAPIConfig,
+  MCPServerConfig,
+  MCPTool,
+  MCPToolCallOptions,
+} from '~/lib/modules/mcp/config';
+import { BaseMCPServerAdapter } from './base-adapter';
+
+const logger = createScopedLogger('MCPOpenAPIAdapter');
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+
+// Longest tool name accepted by the model providers
+const MAX_TOOL_NAME_LENGTH = 64;
+
+// Timeout for downloading the document in milliseconds
+const SPEC_TIMEOUT = 10000;
+
+// How deep referenced schemas are inlined; deeper (usually recursive) schemas accept any value
+const MAX_SCHEMA_DEPTH = 8;
+
+// Schema keywords that only document examples or serialization and are left out of tool schemas
+const OMITTED_SCHEMA_KEYWORDS = new Set(['example', 'examples', 'xml', 'externalDocs', 'discriminator', 'deprecated']);
+
+type ParameterLocation = 'path' | 'query' | 'header' | 'cookie';
+
+/**
+ * Part of an OpenAPI 3 document used to generate tools
+ */
+export interface OpenAPIDocument {
+  openapi: string;
+  info?: { title?: string; version?: string };
+  servers?: Array<{ url: string; variables?: Record<string, { default: string }> }>;
+  paths?: Record<string, Record<string, any>>;
+  components?: Record<string, Record<string, any>>;
+}
+
+/**
+ * Operation of a document turned into a tool
+ */
+export interface OpenAPIOperation {
+  toolName: string;
+  method: string;
+  path: string;
+  operationId?: string;
+  tags: string[];
+  description: string;
+  inputSchema: {
+    type: 'object';
+    properties: Record<string, any>;
+    required: string[];
+  };
+
+  /**
+   * Parameters with the name of the argument they are read from
+   */
+  parameters: Array<{ name: string; argName: string; in: ParameterLocation }>;
+
+  /**
+   * Media type of the request body, read from the `body` argument
+   */
+  bodyContentType?: string;
+}
+
+/**
+ * Build the display URL used for OpenAPI servers
+ * @param openapi OpenAPI settings
+ * @returns The URL of the document, or a pseudo URL for pasted documents
+ */
+export function getOpenAPIServerUrl(openapi: MCPOpenAPIConfig): string {
+  return openapi.spec?.trim() || !openapi.specUrl ? 'openapi://inline' : openapi.specUrl;
+}
+
+/**
+ * Parse an OpenAPI 3 document written as JSON or YAML
+ * @param text Text of the document
+ */
+export function parseOpenAPIDocument(text: string): OpenAPIDocument {
+  let document: OpenAPIDocument;
+
+  try {
+    document = JSON.parse(text);
+  } catch {
+    document = parseYaml(text);
+  }
+
+  if (!document || typeof document !== 'object' || !String(document.openapi ?? '').startsWith('3.')) {
+    throw new Error('Not an OpenAPI 3 document');
+  }
+
+  return document;
+}
+
+/**
+ * Follow a local reference such as `#/components/schemas/Pet`
+ * @param document Document the reference points into
+ * @param value Value that may be a reference
+ */
+function resolveRef(document: OpenAPIDocument, value: any): any {
+  let resolved = value;
+
+  // References may point to other references
+  for (let i = 0; resolved?.$ref && i < MAX_SCHEMA_DEPTH; i++) {
+    const ref = String(resolved.$ref);
+
+    if (!ref.startsWith('#/')) {
+      throw new Error(`Only references within the document are supported: ${ref}`);
+    }
+
+    resolved = ref
+      .slice(2)
+      .split('/')
+      .map((part) => part.replace(/~1/g, '/').replace(/~0/g, '~'))
+      .reduce((node: any, part) => node?.[part], document);
+  }
+
+  return resolved;
+}
+
+/**
+ * Inline the references of a schema so it can be used as a tool's input schema
+ * @param document Document the schema belongs to
+ * @param schema Schema to inline
+ * @param depth Depth of the schema within the input schema
+ */
+function inlineSchema(document: OpenAPIDocument, schema: any, depth = 0): any {
+  if (depth > MAX_SCHEMA_DEPTH) {
+    return {};
+  }
+
+  const resolved = resolveRef(document, schema);
+
+  if (Array.isArray(resolved)) {
+    return resolved.map((item) => inlineSchema(document, item, depth + 1));
+  }
+
+  if (!resolved || typeof resolved !== 'object') {
+    return resolved;
+  }
+
+  return Object.fromEntries(
+    Object.entries(resolved)
+      .filter(([key]) => !OMITTED_SCHEMA_KEYWORDS.has(key))
+      .map(([key, value]) => [
+        key,
+
+        // Property names are not schemas, but their values are
+        key === 'properties' && value && typeof value === 'object'
+          ? Object.fromEntries(
+              Object.entries(value).map(([name, property]) => [name, inlineSchema(document, property, depth + 1)]),
+            )
+          : typeof value === 'object'
+            ? inlineSchema(document, value, depth + 1)
+            : value,
+      ]),
+  );
+}
+
+/**
+ * Make a tool name out of an operation ID, or out of the method and path of operations without one
+ * @param method HTTP method
+ * @param path Path of the operation
+ * @param operationId ID of the operation
+ */
+function getToolName(method: string, path: string, operationId?: string): string {
+  const name = operationId || `${method}_${path.replace(/[{}]/g, '')}`;
+
+  return name
+    .replace(/[^a-zA-Z0-9_-]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .slice(0, MAX_TOOL_NAME_LENGTH);
+}
+
+/**
+ * Pick the media type the request body of an operation is sent as
+ * JSON is preferred; form data is sent URL encoded
+ * @param content Media types of the request body
+ */
+function getBodyContentType(content: Record<string, unknown>): string | undefined {
+  const types = Object.keys(content);
+
+  return (
+    types.find((type) => type === 'application/json') ??
+    types.find((type) => /[/+]json\b/.test(type)) ??
+    types.find((type) => type === 'application/x-www-form-urlencoded') ??
+    types.find((type) => type.startsWith('text/')) ??
+    types[0]
+  );
+}
+
+/**
+ * Generate the tools of a document
+ * With tags or operation IDs, only operations matching one of them become tools
+ * @param document OpenAPI document
+ * @param filter Tags and operation IDs to keep
+ */
+export function createOpenAPIOperations(
+  document: OpenAPIDocument,
+  filter: Pick<MCPOpenAPIConfig, 'tags' | 'operationIds'> = {},
+): OpenAPIOperation[] {
+  const tags = filter.tags?.filter(Boolean) ?? [];
+  const operationIds = filter.operationIds?.filter(Boolean) ?? [];
+  const operations: OpenAPIOperation[] = [];
+  const toolNames = new Set<string>();
+
+  for (const [path, pathItemOrRef] of Object.entries(document.paths ?? {})) {
+    const pathItem = resolveRef(document, pathItemOrRef) ?? {};
+
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem[method];
+
+      if (!operation) {
+        continue;
+      }
+
+      const operationTags: string[] = operation.tags ?? [];
+      const filtered = tags.length > 0 || operationIds.length > 0;
+      const matches = operationTags.some((tag) => tags.includes(tag)) || operationIds.includes(operation.operationId);
+
+      if (filtered && !matches) {
+        continue;
+      }
+
+      // Operation parameters override path parameters with the same name and location
+      const parameters = new Map<string, any>();
+
+      for (const parameter of [...(pathItem.parameters ?? []), ...(operation.parameters ?? [])]) {
+        const resolved = resolveRef(document, parameter);
+
+        if (resolved?.name && resolved.in) {
+          parameters.set(`${resolved.in}:${resolved.name}`, resolved);
+        }
+      }
+
+      const properties: Record<string, any> = {};
+      const required: string[] = [];
+      const argumentParameters: OpenAPIOperation['parameters'] = [];
+      const requestBody = resolveRef(document, operation.requestBody);
+      const bodyContentType = requestBody?.content ? getBodyContentType(requestBody.content) : undefined;
+
+      for (const parameter of parameters.values()) {
+        /*
+         * Parameters of different locations may share a name, e.g. an `id` in the path and the query,
+         * and the request body is read from the `body` argument
+         */
+        const taken = properties[parameter.name] || (bodyContentType && parameter.name === 'body');
+        const argName = taken ? `${parameter.in}_${parameter.name}` : parameter.name;
+        const schema = inlineSchema(document, parameter.schema ?? { type: 'string' });
+
+        properties[argName] = parameter.description ? { ...schema, description: parameter.description } : schema;
+        argumentParameters.push({ name: parameter.name, argName, in: parameter.in });
+
+        if (parameter.required || parameter.in === 'path') {
+          required.push(argName);
+        }
+      }
+
+      if (bodyContentType) {
+        const schema = inlineSchema(document, requestBody.content[bodyContentType]?.schema ?? {});
+
+        properties.body = {
+          ...schema,
+          description: requestBody.description || schema.description || `Request body (${bodyContentType})`,
+        };
+
+        if (requestBody.required) {
+          required.push('body');
+        }
+      }
+
+      // Tool names must be unique, so repeated names get a number
+      let toolName = getToolName(method, path, operation.operationId);
+
+      for (let suffix = 2; toolNames.has(toolName); suffix++) {
+        toolName = `${getToolName(method, path, operation.operationId).slice(0, MAX_TOOL_NAME_LENGTH - 4)}_${suffix}`;
+      }
+
+      toolNames.add(toolName);
+
+      operations.push({
+        toolName,
+        method: method.toUpperCase(),
+        path,
+        operationId: operation.operationId,
+        tags: operationTags,
+        description: [operation.summary, operation.description, `${method.toUpperCase()} ${path}`]
+          .filter(Boolean)
+          .join('\n\n'),
+        inputSchema: { type: 'object', properties, required },
+        parameters: argumentParameters,
+        bodyContentType,
+      });
+    }
+  }
+
+  return operations;
+}
+
+/**
+ * Get the URL requests are sent to from the servers of a document
+ * Server variables take their default values, and relative URLs are resolved against the document's URL
+ * @param document OpenAPI document
+ * @param specUrl URL the document was downloaded from
+ */
+function getDocumentServerUrl(document: OpenAPIDocument, specUrl?: string): string | undefined {
+  const server = document.servers?.[0];
+
+  if (!server?.url) {
+    return specUrl ? new URL('/', specUrl).toString() : undefined;
+  }
+
+  const url = server.url.replace(/\{([^}]+)\}/g, (_, name: string) => server.variables?.[name]?.default ?? '');
+
+  return specUrl ? new URL(url, specUrl).toString() : url;
+}
+
+/**
+ * Format a value sent in a path, query, header or cookie
+ * @param value Argument value
+ */
+function formatParameterValue(value: unknown): string {
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * OpenAPI MCP Server Adapter
+ * Runs the operations of a REST service described by an OpenAPI 3 document
+ */
+export class OpenAPIMCPServerAdapter extends BaseMCPServerAdapter {
+  private _document: OpenAPIDocument | null = null;
+  private _operations: OpenAPIOperation[] | null = null;
+  private _loading: Promise<OpenAPIOperation[]> | null = null;
+
+  constructor(
+    id: string,
+    name: string,
+    baseUrl: string,
+    enabled: boolean = true,
+    config: Partial<MCPServerConfig> = {},
+  ) {
+    super(id, name, baseUrl || getOpenAPIServerUrl(config.openapi ?? {}), enabled, config);
+  }
+
+  /**
+   * Test the connection to this server
+   * The document is loaded again, so changes to it are picked up
+   */
+  async testConnection(): Promise<ConnectionStatus> {
+    const previous = this._operations;
+    this._operations = null;
+
+    try {
+      const operations = await this._loadOperations();
+
+      if (previous && JSON.stringify(previous) !== JSON.stringify(operations)) {
+        this._notifyToolsChanged(this._toTools(operations));
+      }
+
+      return {
+        success: true,
+        message: `Loaded ${operations.length} operations from ${this._document?.info?.title || 'the OpenAPI document'}`,
+      };
+    } catch (error) {
+      this._operations = previous;
+      logger.error(`Failed to load the OpenAPI document of ${this.name}:`, error);
+
+      return {
+        success: false,
+        message: `Failed to load the OpenAPI document: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      };
+    }
+  }
+
+  /**
+   * Get the list of tools provided by this server
+   */
+  async getToolDefinitions(): Promise<MCPTool[]> {
+    return this._toTools(await this._loadOperations());
+  }
+
+  /**
+   * Execute a tool call as a request to the service
+   * Responses with an error status are returned as error results, so the model can read them
+   * @param toolName Name of the tool to execute
+   * @param args Arguments for the tool
+   * @param options Cancellation
+   */
+  async executeToolCall(toolName: string, args: any = {}, options?: MCPToolCallOptions): Promise<any> {
+    const operation = (await this._loadOperations()).find((op) => op.toolName === toolName);
+
+    if (!operation) {
+      throw new Error(`Unknown tool ${toolName} on OpenAPI server ${this.name}`);
+    }
+
+    const serverUrl = this._config.openapi?.serverUrl || getDocumentServerUrl(this._document!, this._getSpecUrl());
+
+    if (!serverUrl) {
+      throw new Error(`The OpenAPI document of ${this.name} names no server; set the API base URL`);
+    }
+
+    let path = operation.path;
+    const query = new URLSearchParams();
+    const headers = new Headers(this._config.headers);
+    const cookies: string[] = [];
+
+    for (const parameter of operation.parameters) {
+      const value = args[parameter.argName];
+
+      if (value === undefined || value === null) {
+        if (parameter.in === 'path') {
+          throw new Error(`Missing path parameter ${parameter.argName}`);
+        }
+
+        continue;
+      }
+
+      switch (parameter.in) {
+        case 'path':
+          path = path.replace(`{${parameter.name}}`, encodeURIComponent(formatParameterValue(value)));
+          break;
+        case 'query':
+          // Arrays are sent as repeated parameters
+          for (const item of Array.isArray(value) ? value : [value]) {
+            query.append(parameter.name, formatParameterValue(item));
+          }
+
+          break;
+        case 'header':
+          headers.set(parameter.name, formatParameterValue(value));
+          break;
+        case 'cookie':
+          cookies.push(`${parameter.name}=${encodeURIComponent(formatParameterValue(value))}`);
+          break;
+      }
+    }
+
+    const url = new URL(`${serverUrl.replace(/\/+$/, '')}${path}`);
+    query.forEach((value, name) => url.searchParams.append(name, value));
+
+    if (cookies.length > 0) {
+      headers.set('Cookie', cookies.join('; '));
+    }
+
+    this._applyAuth(headers, url);
+
+    let body: string | undefined;
+
+    if (operation.bodyContentType && args.body !== undefined) {
+      headers.set('Content-Type', operation.bodyContentType);
+
+      if (operation.bodyContentType === 'application/x-www-form-urlencoded') {
+        body = new URLSearchParams(
+          Object.entries(args.body as Record<string, unknown>).map(([name, value]) => [
+            name,
+            formatParameterValue(value),
+          ]),
+        ).toString();
+      } else {
+        body = typeof args.body === 'string' ? args.body : JSON.stringify(args.body);
+      }
+    }
+
+    logger.debug(`${operation.method} ${url.origin}${url.pathname} for tool ${toolName} of ${this.name}`);
+
+    const response = await fetch(url, {
+      method: operation.method,
+      headers,
+      body,
+      signal: options?.signal,
+    });
+    let text = await response.text();
+
+    // JSON responses are indented so the model can read them
+    try {
+      text = JSON.stringify(JSON.parse(text), null, 2);
+    } catch {
+      // Not JSON
+    }
+
+    if (!response.ok) {
+      return {
+        content: [{ type: 'text', text: `HTTP ${response.status} ${response.statusText}\n\n${text}`.trim() }],
+        isError: true,
+      };
+    }
+
+    return {
+      content: [{ type: 'text', text: text || `HTTP ${response.status} ${response.statusText}`.trim() }],
+    };
+  }
+
+  /**
+   * Update the configuration for this server
+   * The document is loaded again when its settings change
+   * @param config New configuration
+   */
+  updateConfig(config: Partial<MCPServerConfig>): void {
+    super.updateConfig(config);
+
+    if (config.openapi) {
+      this._document = null;
+      this._operations = null;
+
+      if (!config.baseUrl) {
+        this.baseUrl = getOpenAPIServerUrl(config.openapi);
+        this._config.baseUrl = this.baseUrl;
+      }
+    }
+  }
+
+  /**
+   * Get the URL of the document, if it is downloaded rather than pasted
+   */
+  private _getSpecUrl(): string | undefined {
+    const openapi = this._config.openapi;
+
+    return openapi?.spec?.trim() ? undefined : openapi?.specUrl;
+  }
+
+  /**
+   * Load the document and generate the operations, once
+   */
+  private _loadOperations(): Promise<OpenAPIOperation[]> {
+    if (this._operations) {
+      return Promise.resolve(this._operations);
+    }
+
+    if (!this._loading) {
+      this._loading = this._loadDocument()
+        .then((document) => {
+          this._document = document;
+          this._operations = createOpenAPIOperations(document, this._config.openapi);
+          logger.info(`Generated ${this._operations.length} tools from the OpenAPI document of ${this.name}`);
+
+          return this._operations;
+        })
+        .finally(() => {
+          this._loading = null;
+        });
+    }
+
+    return this._loading;
+  }
+
+  /**
+   * Read the pasted document or download it
+   */
+  private async _loadDocument(): Promise<OpenAPIDocument> {
+    const openapi = this._config.openapi;
+
+    if (openapi?.spec?.trim()) {
+      return parseOpenAPIDocument(openapi.spec);
+    }
+
+    if (!openapi?.specUrl) {
+      throw new Error('No OpenAPI document configured');
+    }
+
+    // The document is often served by the service itself, behind the same authentication
+    const url = new URL(openapi.specUrl);
+    const headers = new Headers(this._config.headers);
+    headers.set('Accept', 'application/json, application/yaml, text/yaml, */*');
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), SPEC_TIMEOUT);
+
+    try {
+      const response = await fetch(url, { headers, signal: controller.signal });
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status} ${response.statusText}`);
+      }
+
+      return parseOpenAPIDocument(await response.text());
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  /**
+   * Add the configured token to a request
+   * @param headers Headers of the request
+   * @param url URL of the request
+   */
+  private _applyAuth(headers: Headers, url: URL): void {
+    const token = this._config.auth?.token;
+
+    if (!token) {
+      return;
+    }
+
+    switch (this._config.openapi?.authScheme ?? 'bearer') {
+      case 'basic':
+        headers.set('Authorization', `Basic ${btoa(token)}`);
+        break;
+      case 'apiKey': {
+        const scheme = Object.values(this._document?.components?.securitySchemes ?? {})
+          .map((value) => resolveRef(this._document!, value))
+          .find((value) => value?.type === 'apiKey');
+
+        if (!scheme) {
+          throw new Error(`The OpenAPI document of ${this.name} defines no apiKey security scheme`);
+        }
+
+        if (scheme.in === 'query') {
+          url.searchParams.set(scheme.name, token);
+        } else if (scheme.in === 'cookie') {
+          headers.set(
+            'Cookie',
+            [headers.get('Cookie'), `${scheme.name}=${encodeURIComponent(token)}`].filter(Boolean).join('; '),
+          );
+        } else {
+          headers.set(scheme.name, token);
+        }
+
+        break;
+      }
+      default:
+        headers.set('Authorization', `Bearer ${token}`);
+    }
+  }
+
+  /**
+   * Describe operations as tools
+   * @param operations Generated operations
+   */
+  private _toTools(operations: OpenAPIOperation[]): MCPTool[] {
+    return operations.map((operation) => ({
+      name: operation.toolName,
+      description: operation.description,
+      inputSchema: operation.inputSchema,
+    }));
+  }
+}
@@ -1,26 +1,59 @@
 /**
  * Standard MCP Server Adapter
- * Implementation for standard SSE-based MCP servers
+ * Implementation for standard HTTP-based MCP servers (Streamable HTTP with SSE fallback)
  */
 
 import { createScopedLogger } from '~/utils/logger';
-import type { ConnectionStatus, MCPTool } from '~/lib/modules/mcp/config';
+import type {
+  MCPToolCallOptions,
+  ConnectionStatus,
+  MCPAuthState,
+  MCPOAuthCredentials,
+  MCPPrompt,
+  MCPPromptResult,
+  MCPResource,
+  MCPResourceContent,
+  MCPResourceTemplate,
+  MCPServerConfig,
+  MCPTool,
+} from '~/lib/modules/mcp/config';
 import { BaseMCPServerAdapter } from './base-adapter';
+import { listClientResources, listClientResourceTemplates, readClientResource } from '~/lib/modules/mcp/resources';
+import { getClientPrompt, listClientPrompts } from '~/lib/modules/mcp/prompts';
+import { callClientTool } from '~/lib/modules/mcp/tools';
+import { registerSamplingHandler } from '~/lib/modules/mcp/sampling';
+import { registerRootsHandler } from '~/lib/modules/mcp/roots';
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
-import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { auth } from '@modelcontextprotocol/sdk/client/auth.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { ToolListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { connectHttpTransport, getTransportLabel, type MCPHttpTransportType } from '~/lib/modules/mcp/transport';
+import {
+  isAuthorizationError,
+  isTokenExpired,
+  MCPAuthorizationRequiredError,
+  MCPOAuthProvider,
+  type MCPOAuthStore,
+} from '~/lib/modules/mcp/oauth';
 
 const logger = createScopedLogger('MCPStandardAdapter');
 
 /**
  * Standard MCP Server Adapter
- * Adapter for SSE-based Model Context Protocol servers
+ * Adapter for HTTP-based Model Context Protocol servers
  */
 export class StandardMCPServerAdapter extends BaseMCPServerAdapter {
   private _client: Client | null = null;
-  private _transport: SSEClientTransport | null = null;
+  private _unsubscribeRoots: (() => void) | null = null;
+  private _transport: Transport | null = null;
+  private _transportType: MCPHttpTransportType | null = null;
+  private _sessionId: string | undefined;
+  private _protocolVersion: string | undefined;
   private _tools: Record<string, any> = {};
   private _connected: boolean = false;
   private _isRESTServer: boolean = false;
+  private _authRequired: boolean = false;
 
   constructor(id: string, name: string, baseUrl: string, enabled: boolean = true, config: any = {}) {
     super(id, name, baseUrl, enabled, config);
@@ -63,40 +96,217 @@ export class StandardMCPServerAdapter extends BaseMCPServerAdapter {
       // Create URL from baseUrl
       const url = new URL(this.baseUrl);
 
-      // Create transport
-      this._transport = new SSEClientTransport(url);
+      // Drop any stale transport before reconnecting
+      if (this._transport) {
+        const staleTransport = this._transport;
+        this._transport = null;
+        await staleTransport.close().catch(() => undefined);
+      }
 
-      // Create client
-      this._client = new Client({
-        name: `${this.id}-client`,
-        version: '1.0.0',
-      });
+      // Reuse the client across reconnects so a resumed session keeps the negotiated capabilities
+      if (!this._client) {
+        this._client = new Client(
+          {
+            name: `${this.id}-client`,
+            version: '1.0.0',
+          },
+          { capabilities: { sampling: {}, roots: { listChanged: true } } },
+        );
+
+        this._client.setNotificationHandler(ToolListChangedNotificationSchema, async () => {
+          logger.info(`Tool list of ${this.name} changed`);
+          await this._discoverTools().catch(() => undefined);
+        });
+        registerSamplingHandler(this._client, this);
+        this._unsubscribeRoots = registerRootsHandler(this._client);
+      }
+
+      // Add auth token to the configured headers if available
+      const headers: Record<string, string> = { ...this._config.headers };
+      let authProvider: MCPOAuthProvider | undefined;
 
-      // Add auth token to headers if available
       if (this._config.auth?.token) {
         logger.info(`Adding authentication for ${this.name}`);
+        headers.Authorization = `Bearer ${this._config.auth.token}`;
+      } else {
+        // Without a static token the server may ask for OAuth, which the transport handles through the provider
+        authProvider = new MCPOAuthProvider(this.name, this._oauthStore);
+
+        if (isTokenExpired(this._oauthStore.get())) {
+          await this._refreshTokens(authProvider, url);
+        }
       }
 
-      // Connect to the server with timeout
-      const connectPromise = this._client.connect(this._transport);
-      const timeoutPromise = new Promise((_, reject) => {
-        setTimeout(() => reject(new Error('Connection timeout')), 10000); // 10 second timeout
+      // Negotiate the transport, resuming the previous Streamable HTTP session if there is one
+      const connection = await connectHttpTransport(this._client, url, {
+        preferred: this._config.transport,
+        sessionId: this._sessionId,
+        protocolVersion: this._protocolVersion,
+        headers,
+        authProvider,
       });
 
-      await Promise.race([connectPromise, timeoutPromise]);
+      this._transport = connection.transport;
+      this._transportType = connection.type;
+      this._sessionId = connection.sessionId;
+      this._protocolVersion = connection.protocolVersion;
+
+      // Mark the adapter as disconnected when the transport drops so the next call reconnects
+      const transport = connection.transport;
+
+      this._client.onclose = () => {
+        if (this._transport === transport) {
+          logger.warn(`Connection to MCP server ${this.name} closed`);
+          this._connected = false;
+          this._transport = null;
+        }
+      };
 
       // Get tools from the server
       await this._discoverTools();
 
       this._connected = true;
-      logger.info(`Successfully connected to MCP server: ${this.name}`);
+      this._authRequired = false;
+      logger.info(
+        `Successfully connected to MCP server: ${this.name} via ${getTransportLabel(this._transportType)}`,
+        this._sessionId ? { sessionId: this._sessionId } : undefined,
+      );
     } catch (err) {
-      logger.error(`Failed to connect to MCP server: ${this.name}`, err);
       this._connected = false;
+
+      if (isAuthorizationError(err)) {
+        logger.warn(`MCP server ${this.name} requires authorization`);
+        this._authRequired = true;
+        throw new MCPAuthorizationRequiredError(this.name);
+      }
+
+      logger.error(`Failed to connect to MCP server: ${this.name}`, err);
       throw err;
     }
   }
 
+  /**
+   * Storage for the OAuth credentials, kept in the server's auth configuration
+   * Written directly because updateConfig() would reconnect in the middle of the flow
+   */
+  private get _oauthStore(): MCPOAuthStore {
+    return {
+      get: () => this._config.auth?.oauth ?? {},
+      set: (credentials: MCPOAuthCredentials) => {
+        this._config = { ...this._config, auth: { ...this._config.auth, oauth: credentials } };
+      },
+    };
+  }
+
+  /**
+   * Refresh expired OAuth tokens before connecting
+   * Failures are left to the transport, which asks for authorization when the server rejects the token
+   * @param provider OAuth provider of this server
+   * @param url Server URL
+   */
+  private async _refreshTokens(provider: MCPOAuthProvider, url: URL): Promise<void> {
+    if (!this._oauthStore.get().tokens?.refresh_token) {
+      return;
+    }
+
+    try {
+      await auth(provider, { serverUrl: url });
+      logger.info(`Refreshed OAuth tokens for ${this.name}`);
+    } catch (error) {
+      logger.warn(`Failed to refresh OAuth tokens for ${this.name}`, error);
+    }
+  }
+
+  /**
+   * Get the OAuth authorization state of this server
+   */
+  getAuthState(): MCPAuthState {
+    if (this._isRESTServer || this._config.auth?.token) {
+      return 'none';
+    }
+
+    if (this._authRequired) {
+      return 'required';
+    }
+
+    return this._oauthStore.get().tokens ? 'authorized' : 'none';
+  }
+
+  /**
+   * Start the OAuth authorization flow
+   * Discovers the authorization server and registers the client if needed
+   * @param redirectUrl URL the authorization server redirects back to
+   * @returns URL to send the user to, or null when existing tokens could be refreshed
+   */
+  async startAuthorization(redirectUrl: string): Promise<string | null> {
+    if (this._isRESTServer) {
+      throw new Error(`MCP server ${this.name} does not support OAuth authorization`);
+    }
+
+    const provider = new MCPOAuthProvider(this.name, this._oauthStore, redirectUrl);
+    const result = await auth(provider, { serverUrl: this.baseUrl });
+
+    if (result === 'REDIRECT' && provider.authorizationUrl) {
+      return provider.authorizationUrl.toString();
+    }
+
+    await this._reconnect();
+
+    return null;
+  }
+
+  /**
+   * Exchange the authorization code received on the callback and reconnect
+   * @param code Authorization code
+   */
+  async finishAuthorization(code: string): Promise<void> {
+    const { redirectUrl } = this._oauthStore.get();
+
+    if (!redirectUrl) {
+      throw new Error(`No authorization request in progress for MCP server ${this.name}`);
+    }
+
+    const provider = new MCPOAuthProvider(this.name, this._oauthStore, redirectUrl);
+    await auth(provider, { serverUrl: this.baseUrl, authorizationCode: code });
+
+    // The verifier and state are single use
+    provider.invalidateCredentials('verifier');
+    this._oauthStore.set({ ...this._oauthStore.get(), state: undefined });
+
+    await this._reconnect();
+  }
+
+  /**
+   * Forget the OAuth tokens of this server and close the connection
+   * The client registration is kept so signing in again skips registration
+   */
+  async signOut(): Promise<void> {
+    new MCPOAuthProvider(this.name, this._oauthStore).invalidateCredentials('tokens');
+    await this.dispose();
+  }
+
+  /**
+   * Drop the current connection and connect again with the new credentials
+   */
+  private async _reconnect(): Promise<void> {
+    await this.dispose();
+    await this._connect();
+  }
+
+  /**
+   * Get the transport negotiated with the server
+   */
+  getTransportType(): MCPHttpTransportType | null {
+    return this._transportType;
+  }
+
+  /**
+   * Get the current Streamable HTTP session ID, if any
+   */
+  getSessionId(): string | undefined {
+    return this._sessionId;
+  }
+
   /**
    * Discover available tools from the server
    */
@@ -112,6 +322,7 @@ export class StandardMCPServerAdapter extends BaseMCPServerAdapter {
       if (!toolList || !toolList.tools) {
         logger.warn(`No tools found on MCP server: ${this.name}`);
         this._tools = {};
+        this._notifyToolsChanged([]);
 
         return;
       }
@@ -124,6 +335,8 @@ export class StandardMCPServerAdapter extends BaseMCPServerAdapter {
       for (const tool of toolList.tools) {
         this._tools[tool.name] = tool;
       }
+
+      this._notifyToolsChanged(this._getToolList());
     } catch (error) {
       logger.error(`Failed to discover tools from MCP server: ${this.name}`, error);
       throw error;
@@ -144,14 +357,18 @@ export class StandardMCPServerAdapter extends BaseMCPServerAdapter {
       }
     }
 
-    // Convert tools to MCPTool format
-    const tools: MCPTool[] = Object.values(this._tools).map((tool) => ({
+    return this._getToolList();
+  }
+
+  /**
+   * Convert the discovered tools to MCPTool format
+   */
+  private _getToolList(): MCPTool[] {
+    return Object.values(this._tools).map((tool) => ({
       name: tool.name,
       description: tool.description || '',
       inputSchema: tool.inputSchema,
     }));
-
-    return tools;
   }
 
   /**
@@ -165,6 +382,7 @@ export class StandardMCPServerAdapter extends BaseMCPServerAdapter {
           headers: {
             Accept: 'application/json',
             'User-Agent': 'MCP-Client',
+            ...this._config.headers,
             ...(this._config.auth?.token && {
               Authorization: `Bearer ${this._config.auth.token}`,
             }),
@@ -193,20 +411,21 @@ export class StandardMCPServerAdapter extends BaseMCPServerAdapter {
     }
 
     try {
-      // For SSE servers, use the standard connection test
-      const testClient = new Client({
-        name: 'test-client',
-        version: '1.0.0',
-      });
+      // Reuse the live connection (and its session) instead of opening a new one for every check
+      if (!this._connected || !this._client) {
+        await this._connect();
+      }
 
-      await testClient.connect(new SSEClientTransport(new URL(this._config.baseUrl)));
+      await this._client!.ping();
 
       return {
         success: true,
-        message: 'Connection successful',
+        message: `Connection successful (${getTransportLabel(this._transportType ?? undefined)})`,
+        transport: this._transportType ?? undefined,
       };
     } catch (err) {
-      logger.error('Error testing SSE connection:', err);
+      logger.error('Error testing MCP connection:', err);
+      this._connected = false;
 
       return {
         success: false,
@@ -219,8 +438,9 @@ export class StandardMCPServerAdapter extends BaseMCPServerAdapter {
    * Execute a tool call
    * @param toolName Name of the tool to execute
    * @param args Arguments for the tool
+   * @param options Cancellation and progress reporting
    */
-  async executeToolCall(toolName: string, args: any): Promise<any> {
+  async executeToolCall(toolName: string, args: any, options: MCPToolCallOptions = {}): Promise<any> {
     // Ensure we're connected
     if (!this._connected || !this._client) {
       try {
@@ -241,10 +461,7 @@ export class StandardMCPServerAdapter extends BaseMCPServerAdapter {
 
     try {
       // Call the tool
-      const result = await this._client.callTool({
-        name: toolName,
-        arguments: args,
-      });
+      const result = await callClientTool(this._client, toolName, args, options);
 
       return result;
     } catch (error) {
@@ -253,6 +470,78 @@ export class StandardMCPServerAdapter extends BaseMCPServerAdapter {
     }
   }
 
+  /**
+   * Get a connected client for resource and prompt requests
+   * REST servers do not speak MCP and have no resources or prompts
+   */
+  private async _getProtocolClient(): Promise<Client | null> {
+    if (this._isRESTServer) {
+      return null;
+    }
+
+    if (!this._connected || !this._client) {
+      await this._connect();
+    }
+
+    return this._client;
+  }
+
+  /**
+   * Get the list of resources provided by this server
+   */
+  async listResources(): Promise<MCPResource[]> {
+    const client = await this._getProtocolClient();
+
+    return client ? listClientResources(client) : [];
+  }
+
+  /**
+   * Get the list of resource templates provided by this server
+   */
+  async listResourceTemplates(): Promise<MCPResourceTemplate[]> {
+    const client = await this._getProtocolClient();
+
+    return client ? listClientResourceTemplates(client) : [];
+  }
+
+  /**
+   * Read the contents of a resource
+   * @param uri URI of the resource to read
+   */
+  async readResource(uri: string): Promise<MCPResourceContent[]> {
+    const client = await this._getProtocolClient();
+
+    if (!client) {
+      throw new Error(`MCP server ${this.name} does not provide resources`);
+    }
+
+    return readClientResource(client, uri);
+  }
+
+  /**
+   * Get the list of prompts provided by this server
+   */
+  async listPrompts(): Promise<MCPPrompt[]> {
+    const client = await this._getProtocolClient();
+
+    return client ? listClientPrompts(client) : [];
+  }
+
+  /**
+   * Expand a prompt with the given arguments
+   * @param name Name of the prompt
+   * @param args Values for the prompt arguments
+   */
+  async getPrompt(name: string, args?: Record<string, string>): Promise<MCPPromptResult> {
+    const client = await this._getProtocolClient();
+
+    if (!client) {
+      throw new Error(`MCP server ${this.name} does not provide prompts`);
+    }
+
+    return getClientPrompt(client, name, args);
+  }
+
   async callTool(toolName: string, input: Record<string, any>): Promise<any> {
     if (!this._client) {
       await this.connect();
@@ -282,4 +571,45 @@ export class StandardMCPServerAdapter extends BaseMCPServerAdapter {
   async connect(): Promise<void> {
     await this._connect();
   }
+
+  /**
+   * Update the configuration for this server
+   * A new URL or transport invalidates the current session
+   * @param config New configuration
+   */
+  updateConfig(config: Partial<MCPServerConfig>): void {
+    if (config.baseUrl !== undefined || config.transport !== undefined) {
+      this._connected = false;
+      this._sessionId = undefined;
+      this._protocolVersion = undefined;
+    }
+
+    super.updateConfig(config);
+  }
+
+  /**
+   * Close the connection and end the Streamable HTTP session
+   */
+  async dispose(): Promise<void> {
+    const client = this._client;
+    const transport = this._transport;
+
+    this._unsubscribeRoots?.();
+    this._unsubscribeRoots = null;
+    this._client = null;
+    this._transport = null;
+    this._connected = false;
+    this._sessionId = undefined;
+    this._protocolVersion = undefined;
+
+    try {
+      if (transport instanceof StreamableHTTPClientTransport) {
+        await transport.terminateSession();
+      }
+
+      await client?.close();
+    } catch (error) {
+      logger.error(`Error closing connection to MCP server ${this.name}:`, error);
+    }
+  }
 }
@@ -0,0 +1,72 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { StdioMCPServerAdapter, getStdioServerUrl, isStdioAllowed, setStdioEnvironment } from './stdio-adapter';
+
+function createEnv(allowStdio: string): Env {
+  return { MCP_ALLOW_STDIO: allowStdio } as unknown as Env;
+}
+
+function createAdapter(script: string) {
+  const args = ['-e', script];
+
+  return new StdioMCPServerAdapter('failing', 'Failing', getStdioServerUrl(process.execPath, args), true, {
+    command: process.execPath,
+    args,
+  });
+}
+
+describe('isStdioAllowed', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('should read the environment of the request first', () => {
+    vi.stubEnv('MCP_ALLOW_STDIO', 'true');
+
+    expect(isStdioAllowed(createEnv('false'))).toBe(false);
+    expect(isStdioAllowed(createEnv('true'))).toBe(true);
+  });
+
+  it('should fall back to the process environment', () => {
+    vi.stubEnv('MCP_ALLOW_STDIO', 'true');
+    expect(isStdioAllowed()).toBe(true);
+
+    vi.stubEnv('MCP_ALLOW_STDIO', '');
+    expect(isStdioAllowed()).toBe(false);
+  });
+});
+
+describe('StdioMCPServerAdapter', () => {
+  it('should not start processes while the request environment disables stdio servers', async () => {
+    vi.stubEnv('MCP_ALLOW_STDIO', 'true');
+    setStdioEnvironment(createEnv('false'));
+
+    const status = await createAdapter('').testConnection();
+
+    vi.unstubAllEnvs();
+
+    expect(status.success).toBe(false);
+    expect(status.message).toContain('Stdio MCP servers are disabled');
+  });
+
+  it('should report the output of a process that fails to start', async () => {
+    setStdioEnvironment(createEnv('true'));
+
+    const status = await createAdapter("console.error('Missing API key'); process.exit(1)").testConnection();
+
+    expect(status.success).toBe(false);
+    expect(status.message).toContain('Missing API key');
+  });
+
+  it('should wait before starting a failed process again', async () => {
+    setStdioEnvironment(createEnv('true'));
+
+    const adapter = createAdapter('process.exit(1)');
+
+    await adapter.testConnection();
+
+    const status = await adapter.testConnection();
+
+    expect(status.success).toBe(false);
+    expect(status.message).toMatch(/next start in 5s/);
+  });
+});
@@ -0,0 +1,530 @@
+/**
+ * Stdio MCP Server Adapter
+ * Implementation for locally spawned MCP servers that communicate over stdin/stdout
+ */
+
+import { createScopedLogger } from '~/utils/logger';
+import type {
+  MCPToolCallOptions,
+  ConnectionStatus,
+  MCPPrompt,
+  MCPPromptResult,
+  MCPResource,
+  MCPResourceContent,
+  MCPResourceTemplate,
+  MCPServerConfig,
+  MCPTool,
+} from '~/lib/modules/mcp/config';
+import { MCPServerRegistry } from '~/lib/modules/mcp/registry';
+import { BaseMCPServerAdapter } from './base-adapter';
+import { listClientResources, listClientResourceTemplates, readClientResource } from '~/lib/modules/mcp/resources';
+import { getClientPrompt, listClientPrompts } from '~/lib/modules/mcp/prompts';
+import { callClientTool } from '~/lib/modules/mcp/tools';
+import { registerSamplingHandler } from '~/lib/modules/mcp/sampling';
+import { registerRootsHandler } from '~/lib/modules/mcp/roots';
+import { getServerEnvironmentVariable } from '~/lib/modules/mcp/env';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+import { ToolListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+
+const logger = createScopedLogger('MCPStdioAdapter');
+
+// Number of stderr lines kept for status reporting
+const MAX_STDERR_LINES = 20;
+
+// Delay before a server that failed to start or crashed is started again, doubled after each failure
+const RESTART_DELAY = 5000;
+const MAX_RESTART_DELAY = 5 * 60 * 1000;
+
+// Environment of the server requests, read when a process is started
+let stdioEnvironment: Env | undefined;
+
+/**
+ * Build the display URL used for stdio servers, which have no network address
+ * @param command Executable to spawn
+ * @param args Command line arguments
+ * @returns Pseudo URL describing the command
+ */
+export function getStdioServerUrl(command: string, args: string[] = []): string {
+  return `stdio://${[command, ...args].join(' ')}`;
+}
+
+/**
+ * Whether stdio servers may be started
+ * Stdio servers run any command on the host, so they have to be enabled with MCP_ALLOW_STDIO=true
+ * @param env Environment of the request; the process environment when omitted
+ */
+export function isStdioAllowed(env?: Env): boolean {
+  return getServerEnvironmentVariable(env, 'MCP_ALLOW_STDIO') === 'true';
+}
+
+/**
+ * Set the environment stdio servers are started with, so they are allowed under the same conditions as the
+ * requests that add them
+ * @param env Environment of the request
+ */
+export function setStdioEnvironment(env?: Env): void {
+  if (env) {
+    stdioEnvironment = env;
+  }
+}
+
+/**
+ * Stdio MCP Server Adapter
+ * Spawns the server as a child process (e.g. `npx`/`uvx` packages) and manages its lifecycle
+ */
+export class StdioMCPServerAdapter extends BaseMCPServerAdapter {
+  private _client: Client | null = null;
+  private _unsubscribeRoots: (() => void) | null = null;
+  private _transport: StdioClientTransport | null = null;
+  private _tools: Record<string, any> = {};
+  private _running: boolean = false;
+  private _connecting: Promise<void> | null = null;
+  private _exitReason: string | null = null;
+  private _stderr: string[] = [];
+
+  // Failed starts and crashes since the server was last initialized, and when it may be started again
+  private _failures: number = 0;
+  private _restartAt: number = 0;
+
+  constructor(
+    id: string,
+    name: string,
+    baseUrl: string,
+    enabled: boolean = true,
+    config: Partial<MCPServerConfig> = {},
+  ) {
+    super(id, name, baseUrl, enabled, { ...config, transport: 'stdio' });
+  }
+
+  /**
+   * Initialize the server adapter
+   * Spawn the server process and discover available tools
+   */
+  async initialize(): Promise<void> {
+    logger.info(`Initializing stdio MCP server adapter: ${this.name}`);
+
+    this._failures = 0;
+    this._restartAt = 0;
+
+    try {
+      await this._connect();
+    } catch (error) {
+      logger.error(`Failed to initialize stdio MCP server: ${this.name}`, error);
+    }
+  }
+
+  /**
+   * Spawn the server process and connect to it
+   * Concurrent callers share the same connection attempt
+   */
+  private async _connect(): Promise<void> {
+    if (this._running && this._client) {
+      return;
+    }
+
+    if (!this._connecting) {
+      if (Date.now() < this._restartAt) {
+        throw new Error(`${this._exitReason || 'Process exited'}${this._getRestartNotice()}`);
+      }
+
+      this._connecting = this._spawn().finally(() => {
+        this._connecting = null;
+      });
+    }
+
+    await this._connecting;
+  }
+
+  /**
+   * Start the child process and perform the MCP handshake
+   */
+  private async _spawn(): Promise<void> {
+    if (typeof window !== 'undefined') {
+      throw new Error('Stdio MCP servers can only be started from the server runtime');
+    }
+
+    if (!isStdioAllowed(stdioEnvironment)) {
+      throw new Error('Stdio MCP servers are disabled; set MCP_ALLOW_STDIO=true to allow them');
+    }
+
+    const { command, args = [], env = {}, cwd } = this._config;
+
+    if (!command) {
+      throw new Error(`No command configured for stdio MCP server: ${this.name}`);
+    }
+
+    // Loaded lazily so the browser bundle never pulls in child_process
+    const { StdioClientTransport: STDIO_CLIENT_TRANSPORT, getDefaultEnvironment } = await import(
+      '@modelcontextprotocol/sdk/client/stdio.js'
+    );
+
+    logger.info(`Starting stdio MCP server ${this.name}: ${[command, ...args].join(' ')}`);
+
+    this._stderr = [];
+    this._exitReason = null;
+
+    const transport = new STDIO_CLIENT_TRANSPORT({
+      command,
+      args,
+      cwd,
+      env: { ...getDefaultEnvironment(), ...env },
+      stderr: 'pipe',
+    });
+
+    const client = new Client(
+      {
+        name: `${this.id}-client`,
+        version: '1.0.0',
+      },
+      { capabilities: { sampling: {}, roots: { listChanged: true } } },
+    );
+
+    client.onclose = () => this._handleProcessExit(transport);
+
+    client.onerror = (error) => {
+      logger.error(`Stdio MCP server ${this.name} reported an error:`, error);
+    };
+
+    client.setNotificationHandler(ToolListChangedNotificationSchema, async () => {
+      logger.info(`Tool list of ${this.name} changed`);
+      await this._discoverTools().catch((error) => {
+        logger.error(`Failed to discover tools from stdio MCP server: ${this.name}`, error);
+      });
+    });
+    registerSamplingHandler(client, this);
+    this._unsubscribeRoots?.();
+    this._unsubscribeRoots = registerRootsHandler(client);
+
+    // Listen before connecting, so the output of a process that fails to start is kept
+    transport.stderr?.on('data', (chunk: Buffer) => this._captureStderr(chunk.toString()));
+
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+    try {
+      // Connect to the server with timeout
+      const connectPromise = client.connect(transport);
+      const timeoutPromise = new Promise((_, reject) => {
+        timeoutId = setTimeout(() => reject(new Error('Connection timeout')), 30000); // package managers may need to download first
+      });
+
+      await Promise.race([connectPromise, timeoutPromise]);
+      clearTimeout(timeoutId);
+
+      this._client = client;
+      this._transport = transport;
+      this._running = true;
+
+      await this._discoverTools();
+
+      logger.info(`Successfully started stdio MCP server: ${this.name}`);
+    } catch (error) {
+      clearTimeout(timeoutId);
+      logger.error(`Failed to start stdio MCP server: ${this.name}`, error);
+
+      await transport.close().catch(() => undefined);
+
+      // Read after closing, so the output the process wrote before exiting has arrived
+      const message = error instanceof Error ? error.message : String(error);
+      const lastLine = this._stderr[this._stderr.length - 1];
+
+      this._exitReason = lastLine ? `${message}: ${lastLine}` : message;
+      this._reset();
+      this._scheduleRestart();
+      throw error;
+    }
+  }
+
+  /**
+   * Handle the child process exiting or the transport closing
+   * @param transport Transport that was closed
+   */
+  private _handleProcessExit(transport: StdioClientTransport): void {
+    // Ignore close events from a transport that has already been replaced
+    if (this._transport !== transport) {
+      return;
+    }
+
+    const wasRunning = this._running;
+
+    this._exitReason = this._exitReason || this._stderr[this._stderr.length - 1] || 'Process exited';
+    this._reset();
+    this._scheduleRestart();
+
+    if (wasRunning) {
+      logger.warn(`Stdio MCP server ${this.name} exited: ${this._exitReason}`);
+
+      // Let the runtime manager refresh the server status right away instead of waiting for the next interval
+      MCPServerRegistry.getInstance().updateServerStatus(this.id, { connected: false, reason: this._exitReason });
+    }
+  }
+
+  /**
+   * Wait before starting a process that failed to start or crashed again, so health checks do not respawn it
+   * every time
+   */
+  private _scheduleRestart(): void {
+    const delay = Math.min(RESTART_DELAY * 2 ** this._failures, MAX_RESTART_DELAY);
+
+    this._failures++;
+    this._restartAt = Date.now() + delay;
+  }
+
+  /**
+   * Describe when a failed process is started again
+   * @returns Notice to append to status messages; empty when the process may be started now
+   */
+  private _getRestartNotice(): string {
+    const seconds = Math.ceil((this._restartAt - Date.now()) / 1000);
+
+    return seconds > 0 ? ` (next start in ${seconds}s)` : '';
+  }
+
+  /**
+   * Keep the most recent stderr output for diagnostics
+   * @param text Raw stderr chunk
+   */
+  private _captureStderr(text: string): void {
+    for (const line of text.split('\n')) {
+      if (line.trim()) {
+        logger.debug(`[${this.name}] ${line}`);
+        this._stderr.push(line.trim());
+      }
+    }
+
+    if (this._stderr.length > MAX_STDERR_LINES) {
+      this._stderr = this._stderr.slice(-MAX_STDERR_LINES);
+    }
+  }
+
+  /**
+   * Clear the connection state
+   */
+  private _reset(): void {
+    this._unsubscribeRoots?.();
+    this._unsubscribeRoots = null;
+    this._client = null;
+    this._transport = null;
+    this._running = false;
+    this._tools = {};
+  }
+
+  /**
+   * Discover available tools from the server
+   */
+  private async _discoverTools(): Promise<void> {
+    if (!this._client) {
+      throw new Error('MCP client not initialized');
+    }
+
+    const toolList = await this._client.listTools();
+
+    this._tools = {};
+
+    for (const tool of toolList?.tools || []) {
+      this._tools[tool.name] = tool;
+    }
+
+    logger.info(`Discovered ${Object.keys(this._tools).length} tools from server: ${this.name}`);
+    this._notifyToolsChanged(this._getToolList());
+  }
+
+  /**
+   * Whether the child process is currently running
+   */
+  isProcessAlive(): boolean {
+    return this._running;
+  }
+
+  /**
+   * Get the list of tools provided by this server
+   */
+  async getToolDefinitions(): Promise<MCPTool[]> {
+    try {
+      await this._connect();
+    } catch (error) {
+      logger.error(`Failed to start stdio MCP server: ${this.name}`, error);
+      return [];
+    }
+
+    return this._getToolList();
+  }
+
+  /**
+   * Convert the discovered tools to MCPTool format
+   */
+  private _getToolList(): MCPTool[] {
+    return Object.values(this._tools).map((tool) => ({
+      name: tool.name,
+      description: tool.description || '',
+      inputSchema: tool.inputSchema,
+    }));
+  }
+
+  /**
+   * Test the connection to this server
+   * Reports process liveness rather than spawning a new process for every check
+   */
+  async testConnection(): Promise<ConnectionStatus> {
+    if (this._running) {
+      return {
+        success: true,
+        message: 'Process running',
+      };
+    }
+
+    if (!this.enabled) {
+      return {
+        success: false,
+        message: 'Process stopped',
+      };
+    }
+
+    try {
+      await this._connect();
+
+      return {
+        success: true,
+        message: 'Process started',
+      };
+    } catch (error) {
+      return {
+        success: false,
+        message: `Process not running: ${this._exitReason || (error instanceof Error ? error.message : 'Unknown error')}${this._getRestartNotice()}`,
+      };
+    }
+  }
+
+  /**
+   * Execute a tool call
+   * @param toolName Name of the tool to execute
+   * @param args Arguments for the tool
+   * @param options Cancellation and progress reporting
+   */
+  async executeToolCall(toolName: string, args: any, options: MCPToolCallOptions = {}): Promise<any> {
+    try {
+      await this._connect();
+    } catch (error) {
+      throw new Error(`Cannot execute tool (${toolName}): Failed to start MCP server ${this.name}: ${error}`);
+    }
+
+    if (!this._client) {
+      throw new Error(`Cannot execute tool (${toolName}): Not connected to MCP server: ${this.name}`);
+    }
+
+    if (!this._tools[toolName]) {
+      throw new Error(`Tool "${toolName}" not found on MCP server: ${this.name}`);
+    }
+
+    try {
+      return await callClientTool(this._client, toolName, args, options);
+    } catch (error) {
+      logger.error(`Error calling tool ${toolName} on server ${this.name}:`, error);
+      throw new Error(`Failed to execute tool ${toolName}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Get the list of resources provided by this server
+   */
+  async listResources(): Promise<MCPResource[]> {
+    await this._connect();
+
+    return this._client ? listClientResources(this._client) : [];
+  }
+
+  /**
+   * Get the list of resource templates provided by this server
+   */
+  async listResourceTemplates(): Promise<MCPResourceTemplate[]> {
+    await this._connect();
+
+    return this._client ? listClientResourceTemplates(this._client) : [];
+  }
+
+  /**
+   * Read the contents of a resource
+   * @param uri URI of the resource to read
+   */
+  async readResource(uri: string): Promise<MCPResourceContent[]> {
+    await this._connect();
+
+    if (!this._client) {
+      throw new Error(`Cannot read resource (${uri}): Not connected to MCP server: ${this.name}`);
+    }
+
+    return readClientResource(this._client, uri);
+  }
+
+  /**
+   * Get the list of prompts provided by this server
+   */
+  async listPrompts(): Promise<MCPPrompt[]> {
+    await this._connect();
+
+    return this._client ? listClientPrompts(this._client) : [];
+  }
+
+  /**
+   * Expand a prompt with the given arguments
+   * @param name Name of the prompt
+   * @param args Values for the prompt arguments
+   */
+  async getPrompt(name: string, args?: Record<string, string>): Promise<MCPPromptResult> {
+    await this._connect();
+
+    if (!this._client) {
+      throw new Error(`Cannot get prompt (${name}): Not connected to MCP server: ${this.name}`);
+    }
+
+    return getClientPrompt(this._client, name, args);
+  }
+
+  /**
+   * Update the configuration for this server
+   * Restarts the process when the command line changes
+   * @param config New configuration
+   */
+  updateConfig(config: Partial<MCPServerConfig>): void {
+    const needsRestart =
+      config.command !== undefined || config.args !== undefined || config.env !== undefined || config.cwd !== undefined;
+
+    super.updateConfig(config);
+
+    if (config.command !== undefined || config.args !== undefined) {
+      this.baseUrl = getStdioServerUrl(this._config.command || '', this._config.args);
+      this._config.baseUrl = this.baseUrl;
+    }
+
+    if (needsRestart) {
+      this.dispose()
+        .then(() => this.initialize())
+        .catch((error) => {
+          logger.error(`Failed to restart stdio MCP server ${this.name}:`, error);
+        });
+    }
+  }
+
+  /**
+   * Stop the child process
+   */
+  async dispose(): Promise<void> {
+    const transport = this._transport;
+
+    if (!transport) {
+      return;
+    }
+
+    logger.info(`Stopping stdio MCP server: ${this.name}`);
+
+    // Reset first so the resulting close event is not reported as a crash
+    this._reset();
+    this._exitReason = 'Process stopped';
+
+    try {
+      await transport.close();
+    } catch (error) {
+      logger.error(`Error stopping stdio MCP server ${this.name}:`, error);
+    }
+  }
+}
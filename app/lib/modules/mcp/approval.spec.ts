@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_TOOL_POLICY, MCPToolApprovalManager, resolveToolPolicy } from './approval';
+
+describe('resolveToolPolicy', () => {
+  it('should use the default policy without policies', () => {
+    expect(resolveToolPolicy(undefined, 'search')).toBe(DEFAULT_TOOL_POLICY);
+    expect(resolveToolPolicy({}, 'search')).toBe(DEFAULT_TOOL_POLICY);
+  });
+
+  it("should use the server's default policy for tools without their own", () => {
+    expect(resolveToolPolicy({ default: 'ask', tools: { search: 'allow' } }, 'delete')).toBe('ask');
+  });
+
+  it('should prefer the policy of the tool', () => {
+    expect(resolveToolPolicy({ default: 'ask', tools: { search: 'allow', delete: 'deny' } }, 'search')).toBe('allow');
+    expect(resolveToolPolicy({ default: 'allow', tools: { delete: 'deny' } }, 'delete')).toBe('deny');
+  });
+});
+
+describe('MCPToolApprovalManager', () => {
+  const manager = MCPToolApprovalManager.getInstance();
+  const request = { serverId: 'github', serverName: 'GitHub', toolName: 'delete_repo', args: { repo: 'bolt' } };
+
+  it('should run the call once the user of its scope approves it', async () => {
+    let id = '';
+    const result = manager.requestApproval(request, 'scope-1', (pending) => {
+      id = pending.id;
+    });
+
+    expect(manager.getPendingApprovals('scope-1').map((pending) => pending.id)).toEqual([id]);
+    expect(manager.getPendingApprovals('scope-2')).toEqual([]);
+    expect(manager.resolveApproval(id, 'scope-2', true)).toBe(false);
+    expect(manager.resolveApproval(id, 'scope-1', true)).toBe(true);
+    await expect(result).resolves.toEqual({ approved: true });
+    expect(manager.resolveApproval(id, 'scope-1', true)).toBe(false);
+  });
+
+  it('should deny the call when the user denies it or the request is cancelled', async () => {
+    let id = '';
+    const denied = manager.requestApproval(request, 'scope-1', (pending) => {
+      id = pending.id;
+    });
+
+    manager.resolveApproval(id, 'scope-1', false);
+    await expect(denied).resolves.toEqual({ approved: false, reason: 'the user denied it' });
+
+    const controller = new AbortController();
+    const cancelled = manager.requestApproval(request, 'scope-1', () => undefined, controller.signal);
+
+    controller.abort();
+    await expect(cancelled).resolves.toEqual({ approved: false, reason: 'the request was cancelled' });
+    expect(manager.getPendingApprovals('scope-1')).toEqual([]);
+  });
+});
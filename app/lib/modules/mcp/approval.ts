@@ -0,0 +1,201 @@
+/**
+ * MCP Tool Approval Module
+ * Resolves per-tool approval policies and tracks tool calls waiting for the user's decision
+ */
+
+import { generateId } from 'ai';
+import { createScopedLogger } from '~/utils/logger';
+import type { MCPToolPolicies, MCPToolPolicy } from './config';
+
+const logger = createScopedLogger('MCPToolApproval');
+
+// Policy used for tools that have no policy configured
+export const DEFAULT_TOOL_POLICY: MCPToolPolicy = 'allow';
+
+// Time to wait for a decision before the call is denied (5 minutes)
+const APPROVAL_TIMEOUT = 5 * 60 * 1000;
+
+/**
+ * Tool call waiting for the user's approval
+ */
+export interface MCPToolApprovalRequest {
+  id: string;
+  serverId: string;
+  serverName: string;
+  toolName: string;
+  args: any;
+  createdAt: number;
+}
+
+/**
+ * Outcome of an approval request
+ */
+export interface MCPToolApprovalResult {
+  approved: boolean;
+  reason?: string;
+}
+
+/**
+ * Sends a tool call that needs approval to the user who can answer it
+ */
+export type ApprovalNotifier = (request: MCPToolApprovalRequest) => void;
+
+interface PendingApproval {
+  request: MCPToolApprovalRequest;
+  scope: string;
+  resolve: (result: MCPToolApprovalResult) => void;
+  timeoutId: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Thrown when a tool call is not run because of its policy
+ */
+export class MCPToolDeniedError extends Error {
+  readonly toolName: string;
+  readonly reason: string;
+
+  constructor(toolName: string, reason: string) {
+    super(`Tool call ${toolName} was not executed: ${reason}`);
+    this.name = 'MCPToolDeniedError';
+    this.toolName = toolName;
+    this.reason = reason;
+  }
+}
+
+/**
+ * Get the policy that applies to a tool
+ * @param policies Tool policies of the server
+ * @param toolName Name of the tool as reported by the server
+ */
+export function resolveToolPolicy(policies: MCPToolPolicies | undefined, toolName: string): MCPToolPolicy {
+  return policies?.tools?.[toolName] ?? policies?.default ?? DEFAULT_TOOL_POLICY;
+}
+
+/**
+ * Create the tool result returned to the model when a call is not executed
+ * @param toolName Name of the tool
+ * @param reason Why the call was not executed
+ */
+export function createToolDeniedResult(toolName: string, reason: string): string {
+  return JSON.stringify({
+    denied: true,
+    error: `Tool call ${toolName} was not executed: ${reason}`,
+  });
+}
+
+/**
+ * Tracks tool calls that wait for the user to approve or deny them
+ * Every request belongs to a scope, a secret of the chat response that made the call, so only the user of that
+ * response sees and answers it
+ */
+export class MCPToolApprovalManager {
+  private static _instance: MCPToolApprovalManager;
+  private _pending: Map<string, PendingApproval> = new Map();
+
+  private constructor() {
+    // Private constructor to enforce singleton pattern
+  }
+
+  /**
+   * Get the singleton instance of the approval manager
+   */
+  static getInstance(): MCPToolApprovalManager {
+    if (!MCPToolApprovalManager._instance) {
+      MCPToolApprovalManager._instance = new MCPToolApprovalManager();
+    }
+
+    return MCPToolApprovalManager._instance;
+  }
+
+  /**
+   * Ask the user to approve a tool call
+   * The call is denied on timeout or when the signal aborts
+   * @param request Tool call to approve
+   * @param scope Secret of the chat response that made the call
+   * @param notify Sends the request to the user of the chat response
+   * @param signal Signal that cancels the request
+   */
+  requestApproval(
+    request: Omit<MCPToolApprovalRequest, 'id' | 'createdAt'>,
+    scope: string,
+    notify: ApprovalNotifier,
+    signal?: AbortSignal,
+  ): Promise<MCPToolApprovalResult> {
+    if (signal?.aborted) {
+      return Promise.resolve({ approved: false, reason: 'the request was cancelled' });
+    }
+
+    const approvalRequest: MCPToolApprovalRequest = {
+      ...request,
+      id: generateId(),
+      createdAt: Date.now(),
+    };
+
+    return new Promise((resolve) => {
+      const timeoutId = setTimeout(() => {
+        this._settle(approvalRequest.id, { approved: false, reason: 'the approval request timed out' });
+      }, APPROVAL_TIMEOUT);
+
+      this._pending.set(approvalRequest.id, { request: approvalRequest, scope, resolve, timeoutId });
+
+      signal?.addEventListener('abort', () => {
+        this._settle(approvalRequest.id, { approved: false, reason: 'the request was cancelled' });
+      });
+
+      logger.info(`Waiting for approval of ${request.toolName} on ${request.serverId}`);
+
+      try {
+        notify(approvalRequest);
+      } catch (error) {
+        logger.error('Error sending approval request:', error);
+        this._settle(approvalRequest.id, { approved: false, reason: 'no user is available to approve it' });
+      }
+    });
+  }
+
+  /**
+   * Record the user's decision for a pending tool call
+   * @param id ID of the approval request
+   * @param scope Secret of the chat response that made the call
+   * @param approved Whether the user approved the call
+   * @returns False if the request is no longer pending or belongs to another chat response
+   */
+  resolveApproval(id: string, scope: string, approved: boolean): boolean {
+    if (this._pending.get(id)?.scope !== scope) {
+      return false;
+    }
+
+    return this._settle(id, approved ? { approved: true } : { approved: false, reason: 'the user denied it' });
+  }
+
+  /**
+   * Get the tool calls of a chat response that wait for a decision
+   * @param scope Secret of the chat response
+   */
+  getPendingApprovals(scope: string): MCPToolApprovalRequest[] {
+    return Array.from(this._pending.values())
+      .filter((pending) => pending.scope === scope)
+      .map((pending) => pending.request);
+  }
+
+  /**
+   * Resolve a pending request and forget it
+   * @param id ID of the approval request
+   * @param result Outcome of the request
+   */
+  private _settle(id: string, result: MCPToolApprovalResult): boolean {
+    const pending = this._pending.get(id);
+
+    if (!pending) {
+      return false;
+    }
+
+    clearTimeout(pending.timeoutId);
+    this._pending.delete(id);
+
+    logger.info(`Tool call ${pending.request.toolName} ${result.approved ? 'approved' : `denied: ${result.reason}`}`);
+    pending.resolve(result);
+
+    return true;
+  }
+}
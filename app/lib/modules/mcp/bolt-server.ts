@@ -0,0 +1,126 @@
+/**
+ * Bolt MCP Server
+ * Lets external agents drive bolt: list chats, read the project, send prompts, fetch artifacts and deploy
+ * The tools are performed by the open bolt tab through the session bridge
+ */
+
+import { z } from 'zod';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { WORK_DIR } from '~/utils/constants';
+import { timingSafeEqual } from '~/lib/crypto';
+import { BoltSessionBridge, type BoltSessionAction } from './bolt-session';
+import { getServerEnvironmentVariable } from './env';
+
+// Time to wait for actions that generate a response or build the project (10 minutes)
+const LONG_ACTION_TIMEOUT = 10 * 60 * 1000;
+
+/**
+ * Get the token external agents use to access the bolt MCP server
+ * The server is disabled when no token is configured
+ * @param env Environment of the request
+ */
+export function getBoltMCPToken(env?: Env): string | undefined {
+  return getServerEnvironmentVariable(env, 'BOLT_MCP_TOKEN');
+}
+
+/**
+ * Whether a request carries the token in its Authorization header
+ * @param request Request to check
+ * @param token Token of the bolt MCP server
+ */
+export function hasBoltMCPToken(request: Request, token: string): boolean {
+  return timingSafeEqual(request.headers.get('Authorization') ?? '', `Bearer ${token}`);
+}
+
+/**
+ * Create the bolt MCP server
+ * @param bridge Bridge to the bolt tab
+ */
+export function createBoltMCPServer(bridge: BoltSessionBridge = BoltSessionBridge.getInstance()): McpServer {
+  const server = new McpServer({ name: 'bolt', version: '1.0.0' });
+
+  /**
+   * Perform an action in the bolt tab and return its result as text
+   * @param action Action to perform
+   * @param args Arguments of the action
+   * @param signal Signal that cancels the action
+   * @param timeout Time to wait for the result
+   */
+  const perform = async (
+    action: BoltSessionAction,
+    args: Record<string, unknown>,
+    signal: AbortSignal,
+    timeout?: number,
+  ): Promise<CallToolResult> => {
+    try {
+      const result = await bridge.call(action, args, { signal, timeout });
+      const text = typeof result === 'string' ? result : JSON.stringify(result, null, 2);
+
+      return { content: [{ type: 'text', text }] };
+    } catch (error) {
+      return {
+        content: [{ type: 'text', text: error instanceof Error ? error.message : String(error) }],
+        isError: true,
+      };
+    }
+  };
+
+  server.registerTool('list_chats', { description: 'List the chats saved in bolt, most recent first' }, ({ signal }) =>
+    perform('list_chats', {}, signal),
+  );
+
+  server.registerTool(
+    'list_files',
+    {
+      description: 'List the files and folders of the project open in bolt; folder names end with a slash',
+      inputSchema: {
+        path: z.string().optional().describe(`Folder to list, relative to ${WORK_DIR}; the project root by default`),
+      },
+    },
+    ({ path }, { signal }) => perform('list_files', { path }, signal),
+  );
+
+  server.registerTool(
+    'read_file',
+    {
+      description: 'Read a text file of the project open in bolt',
+      inputSchema: {
+        path: z.string().describe(`Path of the file, relative to ${WORK_DIR} or absolute`),
+      },
+    },
+    ({ path }, { signal }) => perform('read_file', { path }, signal),
+  );
+
+  server.registerTool(
+    'send_prompt',
+    {
+      description:
+        'Send a prompt to the chat open in bolt, or to a new chat when none is open, and wait for the response. ' +
+        'Returns the chat ID and the text of the response',
+      inputSchema: {
+        prompt: z.string().min(1).describe('Prompt to send'),
+      },
+    },
+    ({ prompt }, { signal }) => perform('send_prompt', { prompt }, signal, LONG_ACTION_TIMEOUT),
+  );
+
+  server.registerTool(
+    'get_artifacts',
+    {
+      description: 'Get the artifacts bolt created in a chat, with the files they write and the commands they run',
+      inputSchema: {
+        chatId: z.string().optional().describe('ID of the chat; the chat open in bolt by default'),
+      },
+    },
+    ({ chatId }, { signal }) => perform('get_artifacts', { chatId }, signal),
+  );
+
+  server.registerTool(
+    'deploy',
+    { description: 'Build the project open in bolt and deploy it to Netlify. Returns the URL of the site' },
+    ({ signal }) => perform('deploy', {}, signal, LONG_ACTION_TIMEOUT),
+  );
+
+  return server;
+}
@@ -0,0 +1,100 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { timingSafeEqual } from '~/lib/crypto';
+import { getBoltMCPToken, hasBoltMCPToken } from './bolt-server';
+
+// Load a new bridge, without the sessions of earlier tests
+async function loadBridge() {
+  vi.resetModules();
+
+  const module = await import('./bolt-session');
+
+  return module.BoltSessionBridge.getInstance();
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+});
+
+describe('BoltSessionBridge', () => {
+  it('should not accept actions while no session is open', async () => {
+    const bridge = await loadBridge();
+
+    await expect(bridge.call('list_chats')).rejects.toThrow('No bolt session is open');
+  });
+
+  it('should deliver an action only to the session it was issued to', async () => {
+    const bridge = await loadBridge();
+    const first = bridge.openSession();
+
+    await bridge.takeRequests(first, 0);
+
+    const second = bridge.openSession();
+    const poll = bridge.takeRequests(second, 1000);
+    const result = bridge.call('list_chats');
+
+    const [request] = await poll;
+
+    expect(request.action).toBe('list_chats');
+    await expect(bridge.takeRequests(first, 0)).resolves.toEqual([]);
+    await expect(bridge.takeRequests(second, 0)).resolves.toEqual([]);
+
+    expect(bridge.resolveRequest(request.id, first, { result: 'forged' })).toBe(false);
+    expect(bridge.resolveRequest(request.id, second, { result: ['chat-1'] })).toBe(true);
+    await expect(result).resolves.toEqual(['chat-1']);
+  });
+
+  it('should fail the actions of a session that stopped polling', async () => {
+    vi.useFakeTimers();
+
+    const bridge = await loadBridge();
+    const session = bridge.openSession();
+    const result = bridge.call('deploy', {}, { timeout: 60 * 1000 });
+
+    const failure = expect(result).rejects.toThrow('The bolt session closed before answering deploy');
+
+    await vi.advanceTimersByTimeAsync(30 * 1000);
+
+    expect(bridge.hasSession(session)).toBe(false);
+    await failure;
+  });
+
+  it('should reject results of unknown sessions and failed actions', async () => {
+    const bridge = await loadBridge();
+    const session = bridge.openSession();
+    const result = bridge.call('read_file', { path: 'missing.txt' });
+    const [request] = await bridge.takeRequests(session, 0);
+
+    expect(bridge.hasSession('unknown')).toBe(false);
+    expect(bridge.resolveRequest(request.id, 'unknown', { result: '' })).toBe(false);
+    expect(bridge.resolveRequest(request.id, session, { error: 'File not found' })).toBe(true);
+    await expect(result).rejects.toThrow('File not found');
+    expect(bridge.resolveRequest(request.id, session, { result: '' })).toBe(false);
+  });
+});
+
+describe('bolt MCP token', () => {
+  it('should read the token from the environment of the request', () => {
+    vi.stubEnv('BOLT_MCP_TOKEN', '');
+
+    expect(getBoltMCPToken({ BOLT_MCP_TOKEN: 'token-1' } as unknown as Env)).toBe('token-1');
+    expect(getBoltMCPToken({} as Env)).toBeUndefined();
+  });
+
+  it('should only accept requests with the token', () => {
+    const createRequest = (authorization?: string) =>
+      new Request('http://localhost:5173/api/mcp', { headers: authorization ? { Authorization: authorization } : {} });
+
+    expect(hasBoltMCPToken(createRequest('Bearer token-1'), 'token-1')).toBe(true);
+    expect(hasBoltMCPToken(createRequest('Bearer token-2'), 'token-1')).toBe(false);
+    expect(hasBoltMCPToken(createRequest('Bearer token-1x'), 'token-1')).toBe(false);
+    expect(hasBoltMCPToken(createRequest(), 'token-1')).toBe(false);
+  });
+
+  it('should compare secrets of any length', () => {
+    expect(timingSafeEqual('', '')).toBe(true);
+    expect(timingSafeEqual('abc', 'abc')).toBe(true);
+    expect(timingSafeEqual('abc', 'abd')).toBe(false);
+    expect(timingSafeEqual('abc', 'ab')).toBe(false);
+  });
+});
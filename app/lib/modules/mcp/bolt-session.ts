@@ -0,0 +1,306 @@
+/**
+ * Bolt Session Bridge
+ * Chats, project files and deploys only exist in the browser, so the bolt MCP server hands
+ * the tool calls of external agents to an open bolt tab, which polls for them and posts the results
+ * Every tab opens a session first and sends its secret with each poll and result; each action is
+ * bound to one session when it is issued, so only that tab receives it and can answer it
+ */
+
+import { generateId } from 'ai';
+import { createScopedLogger } from '~/utils/logger';
+import { generateToken } from '~/lib/crypto';
+
+const logger = createScopedLogger('BoltSessionBridge');
+
+// A tab that has not polled for this long is considered closed (30 seconds)
+const SESSION_TIMEOUT = 30 * 1000;
+
+// Time a call waits for the tab unless the caller sets another timeout (30 seconds)
+const DEFAULT_CALL_TIMEOUT = 30 * 1000;
+
+// Header the bolt tab sends its session secret in
+export const BOLT_SESSION_HEADER = 'X-Bolt-Session';
+
+/**
+ * Actions an open bolt tab performs for external agents
+ */
+export type BoltSessionAction = 'list_chats' | 'list_files' | 'read_file' | 'send_prompt' | 'get_artifacts' | 'deploy';
+
+/**
+ * Action waiting to be performed by the bolt tab
+ */
+export interface BoltSessionRequest {
+  id: string;
+  action: BoltSessionAction;
+  args: Record<string, unknown>;
+  createdAt: number;
+}
+
+/**
+ * Outcome of an action, posted by the bolt tab
+ */
+export type BoltSessionResult = { result: unknown; error?: undefined } | { result?: undefined; error: string };
+
+interface PendingSessionRequest {
+  request: BoltSessionRequest;
+
+  // Session of the tab the action was issued to
+  session: string;
+  delivered: boolean;
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  timeoutId: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Options for an action call
+ */
+export interface BoltSessionCallOptions {
+  signal?: AbortSignal;
+
+  /**
+   * Time to wait for the result in milliseconds
+   */
+  timeout?: number;
+}
+
+/**
+ * Passes actions between the bolt MCP server and the bolt tab
+ */
+export class BoltSessionBridge {
+  private static _instance: BoltSessionBridge;
+  private _pending: Map<string, PendingSessionRequest> = new Map();
+
+  // Poll waiting for actions, by session secret
+  private _waiters: Map<string, () => void> = new Map();
+
+  // Time of the last poll of every open session, by session secret
+  private _sessions: Map<string, number> = new Map();
+
+  private constructor() {
+    // Private constructor to enforce singleton pattern
+  }
+
+  /**
+   * Get the singleton instance of the bridge
+   */
+  static getInstance(): BoltSessionBridge {
+    if (!BoltSessionBridge._instance) {
+      BoltSessionBridge._instance = new BoltSessionBridge();
+    }
+
+    return BoltSessionBridge._instance;
+  }
+
+  /**
+   * Whether a bolt tab is polling for actions
+   */
+  isConnected(): boolean {
+    this._closeStaleSessions();
+
+    return this._sessions.size > 0;
+  }
+
+  /**
+   * Open a session for a bolt tab
+   * @returns Secret the tab sends with its polls and results
+   */
+  openSession(): string {
+    this._closeStaleSessions();
+
+    const session = generateToken();
+    this._sessions.set(session, Date.now());
+
+    return session;
+  }
+
+  /**
+   * Whether a session is open
+   * @param session Secret of the session
+   */
+  hasSession(session: string | null | undefined): session is string {
+    this._closeStaleSessions();
+
+    return !!session && this._sessions.has(session);
+  }
+
+  /**
+   * Have the bolt tab that polled last perform an action
+   * @param action Action to perform
+   * @param args Arguments of the action
+   * @param options Cancellation and timeout
+   * @throws Error when no tab is open, the action fails, times out or is cancelled
+   */
+  call<T = unknown>(
+    action: BoltSessionAction,
+    args: Record<string, unknown> = {},
+    { signal, timeout = DEFAULT_CALL_TIMEOUT }: BoltSessionCallOptions = {},
+  ): Promise<T> {
+    const session = this._latestSession();
+
+    if (!session) {
+      return Promise.reject(new Error('No bolt session is open; open bolt in a browser to use its tools'));
+    }
+
+    if (signal?.aborted) {
+      return Promise.reject(new Error('Cancelled'));
+    }
+
+    const request: BoltSessionRequest = { id: generateId(), action, args, createdAt: Date.now() };
+
+    return new Promise<T>((resolve, reject) => {
+      const timeoutId = setTimeout(() => {
+        this._settle(request.id, { error: `The bolt session did not answer ${action} in time` });
+      }, timeout);
+
+      this._pending.set(request.id, {
+        request,
+        session,
+        delivered: false,
+        resolve: resolve as (result: unknown) => void,
+        reject,
+        timeoutId,
+      });
+
+      signal?.addEventListener('abort', () => {
+        this._settle(request.id, { error: 'Cancelled' });
+      });
+
+      logger.debug(`Queued ${action} for the bolt session`);
+      this._waiters.get(session)?.();
+    });
+  }
+
+  /**
+   * Take the actions issued to a session that it has not received yet, waiting for one if there are none
+   * @param session Secret of the session of the tab
+   * @param wait Time to wait for an action in milliseconds
+   * @param signal Signal that ends the wait
+   */
+  async takeRequests(session: string, wait: number, signal?: AbortSignal): Promise<BoltSessionRequest[]> {
+    this._sessions.set(session, Date.now());
+
+    if (!this._hasUndelivered(session) && !signal?.aborted) {
+      // Only the latest poll of a session waits
+      this._waiters.get(session)?.();
+
+      await new Promise<void>((resolve) => {
+        const done = () => {
+          clearTimeout(timeoutId);
+          signal?.removeEventListener('abort', done);
+
+          if (this._waiters.get(session) === done) {
+            this._waiters.delete(session);
+          }
+
+          resolve();
+        };
+        const timeoutId = setTimeout(done, wait);
+
+        signal?.addEventListener('abort', done);
+        this._waiters.set(session, done);
+      });
+    }
+
+    this._sessions.set(session, Date.now());
+
+    const requests: BoltSessionRequest[] = [];
+
+    for (const pending of this._pending.values()) {
+      if (pending.session === session && !pending.delivered) {
+        pending.delivered = true;
+        requests.push(pending.request);
+      }
+    }
+
+    return requests;
+  }
+
+  /**
+   * Record the outcome of an action
+   * @param id ID of the action
+   * @param session Secret of the session of the tab posting the outcome
+   * @param result Result or error message
+   * @returns False if the action is no longer pending or was issued to another tab
+   */
+  resolveRequest(id: string, session: string, result: BoltSessionResult): boolean {
+    if (this._pending.get(id)?.session !== session) {
+      return false;
+    }
+
+    return this._settle(id, result);
+  }
+
+  /**
+   * Whether an action issued to a session waits to be delivered
+   * @param session Secret of the session
+   */
+  private _hasUndelivered(session: string): boolean {
+    return Array.from(this._pending.values()).some((pending) => pending.session === session && !pending.delivered);
+  }
+
+  /**
+   * Get the open session that polled last
+   */
+  private _latestSession(): string | undefined {
+    this._closeStaleSessions();
+
+    let latest: string | undefined;
+
+    for (const [session, lastPoll] of this._sessions) {
+      if (!latest || lastPoll >= this._sessions.get(latest)!) {
+        latest = session;
+      }
+    }
+
+    return latest;
+  }
+
+  /**
+   * Forget the sessions of tabs that stopped polling and fail the actions issued to them
+   */
+  private _closeStaleSessions(): void {
+    const now = Date.now();
+
+    for (const [session, lastPoll] of this._sessions) {
+      if (now - lastPoll < SESSION_TIMEOUT) {
+        continue;
+      }
+
+      this._sessions.delete(session);
+
+      for (const pending of this._pending.values()) {
+        if (pending.session === session) {
+          this._settle(pending.request.id, {
+            error: `The bolt session closed before answering ${pending.request.action}`,
+          });
+        }
+      }
+    }
+  }
+
+  /**
+   * Settle a pending action and forget it
+   * @param id ID of the action
+   * @param outcome Result or error message
+   */
+  private _settle(id: string, outcome: BoltSessionResult): boolean {
+    const pending = this._pending.get(id);
+
+    if (!pending) {
+      return false;
+    }
+
+    clearTimeout(pending.timeoutId);
+    this._pending.delete(id);
+
+    if (outcome.error !== undefined) {
+      logger.debug(`${pending.request.action} failed: ${outcome.error}`);
+      pending.reject(new Error(outcome.error));
+    } else {
+      pending.resolve(outcome.result);
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,104 @@
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { generateKey } from '~/lib/crypto';
+import { CredentialSealingServerStore, type MCPServerStoreSnapshot } from './server-store';
+import type { StoredMCPServer } from './storage';
+
+let directory: string;
+
+/**
+ * Create a KV namespace holding the servers saved with a key
+ * @param servers Servers to save
+ * @param key Key the secrets are saved with
+ */
+async function createNamespace(servers: StoredMCPServer[], key: string) {
+  let text: string | null = null;
+  const namespace = {
+    get: async () => text,
+    put: async (_key: string, value: string) => {
+      text = value;
+    },
+  };
+
+  const snapshot: MCPServerStoreSnapshot = { revision: 1, updatedAt: new Date().toISOString(), servers, workflows: [] };
+
+  await new CredentialSealingServerStore(
+    {
+      location: 'KV',
+      load: async () => (text ? JSON.parse(text) : null),
+      save: async (saved) => namespace.put('mcp_servers', JSON.stringify(saved)),
+    },
+    key,
+  ).save(snapshot);
+
+  return namespace as unknown as KVNamespace;
+}
+
+/**
+ * Saved stdio server whose process writes its token to a file and exits
+ * @param name Server name
+ * @param marker File the process writes to
+ * @param enabled Whether the server is enabled
+ */
+function createStdioServer(name: string, marker: string, enabled = true): StoredMCPServer {
+  const args = ['-e', "require('node:fs').writeFileSync(process.env.MARKER_PATH, process.env.API_TOKEN)"];
+
+  return {
+    name,
+    baseUrl: `stdio://${name}`,
+    enabled,
+    transport: 'stdio',
+    command: process.execPath,
+    args,
+    env: { API_TOKEN: 'env-secret', MARKER_PATH: marker },
+  };
+}
+
+beforeEach(async () => {
+  directory = await mkdtemp(join(tmpdir(), 'mcp-bootstrap-'));
+
+  // No local servers are discovered
+  vi.stubGlobal('fetch', vi.fn().mockRejectedValue(new Error('Connection refused')));
+});
+
+afterEach(async () => {
+  vi.unstubAllGlobals();
+  await rm(directory, { recursive: true, force: true });
+});
+
+describe('getServerMCPBootstrapPromise', () => {
+  it('should start the stdio servers saved on the server with their secrets', async () => {
+    const key = generateKey();
+    const started = join(directory, 'started');
+    const disabled = join(directory, 'disabled');
+
+    const env = {
+      MCP_ALLOW_STDIO: 'true',
+      MCP_SERVER_STORE_KEY: key,
+      MCP_SERVERS_KV: await createNamespace(
+        [
+          createStdioServer('Local Files', started),
+          createStdioServer('Disabled', disabled, false),
+          { name: 'Workbench', baseUrl: 'bolt://workbench', enabled: true, builtIn: true },
+        ],
+        key,
+      ),
+    } as unknown as Env;
+
+    vi.resetModules();
+
+    const { getServerMCPBootstrapPromise } = await import('./bootstrap');
+    const { registry, runtimeManager } = await getServerMCPBootstrapPromise(env);
+
+    runtimeManager.stopHealthChecks();
+
+    expect(registry.getServer('local_files')?.getConfig().command).toBe(process.execPath);
+    expect(registry.getServer('disabled')?.enabled).toBe(false);
+    expect(registry.getServer('workbench')).toBeUndefined();
+
+    await expect(readFile(started, 'utf8')).resolves.toBe('env-secret');
+    await expect(readFile(disabled, 'utf8')).rejects.toThrow();
+  });
+});
@@ -4,9 +4,14 @@
  */
 
 import { createScopedLogger } from '~/utils/logger';
+import { onVaultUnlocked } from '~/lib/stores/vault';
 import { getEnvironmentVariables } from './env';
 import { MCPServerRegistry } from './registry';
+import { getStoredMCPServersWithCredentials, getStoredServerId, migrateMCPServerCredentials } from './storage';
 import { MCPToolFactory } from './tool-factory';
+import { MCPToolCache } from './tool-cache';
+import { createMCPServerStore } from './server-store';
+import { setStdioEnvironment } from './adapters/stdio-adapter';
 
 const logger = createScopedLogger('MCPBootstrap');
 
@@ -38,11 +43,12 @@ export async function bootstrapMCP(): Promise<{
         logger.debug(`Server ${status.name} status changed: ${status.connected ? 'connected' : 'disconnected'}`);
 
         // Auto-discover tools when a server becomes connected
-        if (status.connected) {
-          // Refresh tools in the registry
-          registry
-            .getServer(status.id)
-            ?.getToolDefinitions()
+        const server = registry.getServer(status.id);
+
+        if (status.connected && server) {
+          // Warm the tool cache so the next chat turn does not wait for discovery
+          MCPToolCache.getInstance()
+            .getServerTools(server)
             .catch((error) => {
               logger.error(`Failed to get tools for server ${status.name}:`, error);
             });
@@ -90,6 +96,35 @@ export async function bootstrapMCP(): Promise<{
   }
 }
 
+/**
+ * Move plaintext credentials into the vault and give registered servers the credentials stored there
+ * Servers registered while the vault was locked get their tokens once it is unlocked
+ */
+async function applyStoredCredentials(): Promise<void> {
+  await migrateMCPServerCredentials();
+
+  const { registry } = await getMCPBootstrapPromise();
+
+  for (const stored of await getStoredMCPServersWithCredentials()) {
+    const server = registry.getServer(getStoredServerId(stored));
+
+    if (!server || (!stored.auth?.token && !stored.auth?.oauth && !stored.headers)) {
+      continue;
+    }
+
+    const config = server.getConfig();
+    const current = { token: config.auth?.token, oauth: config.auth?.oauth, headers: config.headers };
+    const credentials = { token: stored.auth?.token, oauth: stored.auth?.oauth, headers: stored.headers };
+
+    if (JSON.stringify(current) !== JSON.stringify(credentials)) {
+      logger.info(`Applying stored credentials to MCP server ${server.name}`);
+
+      // Passing auth makes the adapter reconnect with the new credentials
+      server.updateConfig({ headers: stored.headers, auth: stored.auth ?? {} });
+    }
+  }
+}
+
 /*
  * Auto-initialize MCP when this module is imported
  * This ensures MCP is initialized as early as possible
@@ -114,6 +149,12 @@ if (typeof window !== 'undefined') {
       runtimeManager: MCP_RUNTIME_MANAGER.getInstance(),
     };
   });
+
+  onVaultUnlocked(() => {
+    applyStoredCredentials().catch((error) => {
+      logger.error('Failed to apply stored MCP server credentials:', error);
+    });
+  });
 }
 
 /**
@@ -131,3 +172,23 @@ export function getMCPBootstrapPromise(): Promise<{
 
   return bootstrapPromise;
 }
+
+/**
+ * Get the MCP bootstrap promise for a server request, with the servers saved in the server-side store loaded
+ * The store is loaded on the first request, because the KV binding is only available from a request's environment
+ * @param env Environment of the request
+ */
+export async function getServerMCPBootstrapPromise(env?: Env): Promise<{
+  registry: MCPServerRegistry;
+  toolFactory: MCPToolFactory;
+  runtimeManager: any;
+}> {
+  // Stdio servers are allowed by the same environment as the requests that add them
+  setStdioEnvironment(env);
+
+  const bootstrap = await getMCPBootstrapPromise();
+
+  await bootstrap.runtimeManager.loadServerStore(createMCPServerStore(env));
+
+  return bootstrap;
+}
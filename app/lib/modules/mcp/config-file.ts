@@ -0,0 +1,448 @@
+/**
+ * MCP Config File Module
+ * Converts server configurations to and from the `mcpServers` JSON format used by other MCP clients
+ */
+
+import { createScopedLogger } from '~/utils/logger';
+import type { MCPServerConfig, MCPTransportType } from './config';
+import { getServerId, type MCPRuntimeManager } from './runtime-manager';
+import { REDACTED_SECRET, redactUrl } from './redact';
+
+const logger = createScopedLogger('MCPConfigFile');
+
+// Command line flags whose values are treated as secrets, e.g. --api-key
+const SECRET_FLAG_PATTERN = /^--?[\w.-]*(auth|token|key|secret|password|credential|cookie)[\w.-]*$/i;
+
+/**
+ * Server entry of an `mcpServers` file
+ * Stdio servers set `command`, remote servers set `url`
+ */
+export interface MCPConfigFileServer {
+  command?: string;
+  args?: string[];
+  env?: Record<string, string>;
+  cwd?: string;
+  url?: string;
+
+  /**
+   * Transport of remote servers (`http` or `sse`); negotiated when unset
+   */
+  type?: string;
+  headers?: Record<string, string>;
+  disabled?: boolean;
+}
+
+/**
+ * Contents of an `mcpServers` file
+ */
+export interface MCPConfigFile {
+  mcpServers: Record<string, MCPConfigFileServer>;
+}
+
+/**
+ * What to do with an imported server whose name is already taken
+ * `rename` adds a number to the name, `skip` keeps the existing server and `replace` overwrites it
+ */
+export type MCPImportConflictStrategy = 'rename' | 'skip' | 'replace';
+
+/**
+ * Server parsed from an `mcpServers` file
+ */
+export interface MCPImportedServer {
+  name: string;
+  baseUrl: string;
+  enabled: boolean;
+  config: Partial<MCPServerConfig>;
+
+  /**
+   * Values that could not be imported, e.g. redacted secrets
+   */
+  warnings: string[];
+}
+
+/**
+ * Outcome of an import
+ */
+export interface MCPConfigImportResult {
+  imported: Array<{ name: string; serverId: string; renamedFrom?: string; replaced?: boolean }>;
+  skipped: Array<{ name: string; reason: string }>;
+  errors: Array<{ name: string; message: string }>;
+  warnings: string[];
+}
+
+/**
+ * Map the `type` of a file entry to a transport
+ * @param type Transport name used by other clients
+ */
+function parseTransportType(type: string): MCPTransportType | undefined {
+  switch (type) {
+    case 'stdio':
+      return 'stdio';
+    case 'sse':
+      return 'sse';
+    case 'http':
+    case 'streamable-http':
+    case 'streamableHttp':
+      return 'streamable-http';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Check that a value is an object of strings
+ * @param value Value to check
+ */
+function isStringRecord(value: unknown): value is Record<string, string> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    Object.values(value).every((item) => typeof item === 'string')
+  );
+}
+
+/**
+ * Whether a value contains the placeholder of a redacted secret, also when it was encoded as part of a URL
+ * @param value Value to check
+ */
+function isRedacted(value: string): boolean {
+  return value.includes(REDACTED_SECRET) || value.includes(encodeURIComponent(REDACTED_SECRET));
+}
+
+/**
+ * Drop redacted values, which have to be entered again after the import
+ * @param values Environment variables or headers
+ * @param label What the values are, used in warnings
+ * @param warnings Warnings of the server
+ */
+function withoutRedactedValues(
+  values: Record<string, string> | undefined,
+  label: string,
+  warnings: string[],
+): Record<string, string> | undefined {
+  if (!values) {
+    return undefined;
+  }
+
+  const result: Record<string, string> = {};
+
+  for (const [name, value] of Object.entries(values)) {
+    if (isRedacted(value)) {
+      warnings.push(`${label} ${name} was redacted and has to be entered again`);
+    } else {
+      result[name] = value;
+    }
+  }
+
+  return Object.keys(result).length > 0 ? result : undefined;
+}
+
+/**
+ * Validate a server entry and convert it to a server configuration
+ * @param name Name of the server
+ * @param entry Server entry from the file
+ * @throws Error describing the first problem found
+ */
+function parseServerEntry(name: string, entry: unknown): MCPImportedServer {
+  if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+    throw new Error('Server entry must be an object');
+  }
+
+  // Some clients call the URL `serverUrl`
+  const { command, args, env, cwd, url = (entry as any).serverUrl, type, headers, disabled } = entry as any;
+  const warnings: string[] = [];
+
+  if (command !== undefined && url !== undefined) {
+    throw new Error('Server entry must set either command or url, not both');
+  }
+
+  if (type !== undefined && (typeof type !== 'string' || !parseTransportType(type))) {
+    throw new Error(`Unsupported transport type: ${String(type)}`);
+  }
+
+  if (disabled !== undefined && typeof disabled !== 'boolean') {
+    throw new Error('disabled must be a boolean');
+  }
+
+  const transport = type ? parseTransportType(type) : undefined;
+
+  if (command !== undefined) {
+    if (typeof command !== 'string' || !command.trim()) {
+      throw new Error('command must be a non-empty string');
+    }
+
+    if (args !== undefined && (!Array.isArray(args) || !args.every((arg) => typeof arg === 'string'))) {
+      throw new Error('args must be an array of strings');
+    }
+
+    if (env !== undefined && !isStringRecord(env)) {
+      throw new Error('env must be an object of strings');
+    }
+
+    if (cwd !== undefined && typeof cwd !== 'string') {
+      throw new Error('cwd must be a string');
+    }
+
+    if (transport && transport !== 'stdio') {
+      throw new Error(`Servers with a command must use the stdio transport, not ${type}`);
+    }
+
+    args?.forEach((arg: string, index: number) => {
+      if (isRedacted(arg)) {
+        warnings.push(`Argument ${index + 1} was redacted and has to be entered again`);
+      }
+    });
+
+    return {
+      name,
+      baseUrl: '',
+      enabled: !disabled,
+      config: {
+        transport: 'stdio',
+        command: command.trim(),
+        args,
+        env: withoutRedactedValues(env, 'Environment variable', warnings),
+        cwd,
+      },
+      warnings,
+    };
+  }
+
+  if (typeof url !== 'string' || !url.trim()) {
+    throw new Error('Server entry must set a command or a url');
+  }
+
+  let parsedUrl: URL;
+
+  try {
+    parsedUrl = new URL(url.trim());
+  } catch {
+    throw new Error(`Invalid url: ${url}`);
+  }
+
+  if (parsedUrl.protocol !== 'http:' && parsedUrl.protocol !== 'https:') {
+    throw new Error(`url must use http or https, not ${parsedUrl.protocol}`);
+  }
+
+  if (transport === 'stdio') {
+    throw new Error('Servers with a url cannot use the stdio transport');
+  }
+
+  if (isRedacted(url)) {
+    warnings.push('Credentials in the url were redacted and have to be entered again');
+  }
+
+  if (headers !== undefined && !isStringRecord(headers)) {
+    throw new Error('headers must be an object of strings');
+  }
+
+  const config: Partial<MCPServerConfig> = { transport };
+  const remainingHeaders = withoutRedactedValues(headers, 'Header', warnings);
+
+  // A bearer token is kept as the server's auth token so it can be edited in the server form
+  const authorizationHeader = Object.keys(remainingHeaders ?? {}).find(
+    (header) => header.toLowerCase() === 'authorization',
+  );
+  const bearerToken = authorizationHeader && /^Bearer\s+(.+)$/i.exec(remainingHeaders![authorizationHeader])?.[1];
+
+  if (authorizationHeader && bearerToken) {
+    delete remainingHeaders![authorizationHeader];
+    config.auth = { token: bearerToken };
+  }
+
+  if (remainingHeaders && Object.keys(remainingHeaders).length > 0) {
+    config.headers = remainingHeaders;
+  }
+
+  return { name, baseUrl: parsedUrl.toString(), enabled: !disabled, config, warnings };
+}
+
+/**
+ * Validate the contents of an `mcpServers` file
+ * Invalid entries are reported without failing the whole file
+ * @param input Parsed JSON of the file
+ * @throws Error when the file has no `mcpServers` object
+ */
+export function parseMCPConfigFile(input: unknown): {
+  servers: MCPImportedServer[];
+  errors: MCPConfigImportResult['errors'];
+} {
+  // VS Code keeps the same entries under `servers`
+  const entries =
+    typeof input === 'object' && input !== null ? ((input as any).mcpServers ?? (input as any).servers) : undefined;
+
+  if (typeof entries !== 'object' || entries === null || Array.isArray(entries)) {
+    throw new Error('Expected a JSON object with an mcpServers object');
+  }
+
+  const servers: MCPImportedServer[] = [];
+  const errors: MCPConfigImportResult['errors'] = [];
+
+  for (const [name, entry] of Object.entries(entries)) {
+    if (!name.trim()) {
+      errors.push({ name, message: 'Server name must not be empty' });
+      continue;
+    }
+
+    try {
+      servers.push(parseServerEntry(name.trim(), entry));
+    } catch (error) {
+      errors.push({ name, message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  return { servers, errors };
+}
+
+/**
+ * Replace all values with a placeholder
+ * Any environment variable or header may hold a secret (e.g. DATABASE_URL), so none are exported
+ * @param values Environment variables or headers
+ */
+function redactValues(values: Record<string, string> | undefined): Record<string, string> | undefined {
+  if (!values || Object.keys(values).length === 0) {
+    return undefined;
+  }
+
+  return Object.fromEntries(Object.keys(values).map((name) => [name, REDACTED_SECRET]));
+}
+
+/**
+ * Replace secrets in command line arguments with a placeholder
+ * The values of secret flags (`--api-key=...` or `--api-key ...`) and credentials in URLs are redacted
+ * @param args Command line arguments
+ */
+export function redactArgs(args: string[]): string[] {
+  return args.map((arg, index) => {
+    const flag = /^(--?[\w.-]+)=(.*)$/s.exec(arg);
+
+    if (flag) {
+      return `${flag[1]}=${SECRET_FLAG_PATTERN.test(flag[1]) ? REDACTED_SECRET : redactUrl(flag[2])}`;
+    }
+
+    if (index > 0 && SECRET_FLAG_PATTERN.test(args[index - 1])) {
+      return REDACTED_SECRET;
+    }
+
+    return redactUrl(arg);
+  });
+}
+
+/**
+ * Create an `mcpServers` file from server configurations
+ * Environment variables, headers (including the auth token), secret arguments and URL credentials are redacted,
+ * OAuth credentials are left out
+ * @param servers Servers to export
+ */
+export function createMCPConfigFile(
+  servers: Array<{ name: string; baseUrl: string; enabled: boolean; config: MCPServerConfig }>,
+): MCPConfigFile {
+  const mcpServers: Record<string, MCPConfigFileServer> = {};
+
+  for (const { name, baseUrl, enabled, config } of servers) {
+    let entry: MCPConfigFileServer;
+
+    if (config.transport === 'stdio' || config.command) {
+      entry = {
+        command: config.command,
+        args: config.args?.length ? redactArgs(config.args) : undefined,
+        env: redactValues(config.env),
+        cwd: config.cwd,
+      };
+    } else {
+      const headers = { ...config.headers };
+
+      if (config.auth?.token) {
+        headers.Authorization = `Bearer ${config.auth.token}`;
+      }
+
+      entry = {
+        url: redactUrl(baseUrl),
+        type: config.transport === 'streamable-http' ? 'http' : config.transport,
+        headers: redactValues(headers),
+      };
+    }
+
+    if (!enabled) {
+      entry.disabled = true;
+    }
+
+    // Drop unset fields so the file stays readable
+    mcpServers[name] = JSON.parse(JSON.stringify(entry));
+  }
+
+  return { mcpServers };
+}
+
+/**
+ * Add the servers of an `mcpServers` file to the runtime manager
+ * @param runtimeManager Runtime manager to add the servers to
+ * @param input Parsed JSON of the file
+ * @param onConflict What to do with servers whose name is already taken
+ * @param allowStdio Whether stdio servers may be imported; they are skipped otherwise
+ */
+export async function importMCPConfigFile(
+  runtimeManager: MCPRuntimeManager,
+  input: unknown,
+  onConflict: MCPImportConflictStrategy = 'rename',
+  allowStdio: boolean = false,
+): Promise<MCPConfigImportResult> {
+  const { servers, errors } = parseMCPConfigFile(input);
+  const result: MCPConfigImportResult = { imported: [], skipped: [], errors, warnings: [] };
+
+  for (const server of servers) {
+    if (server.config.transport === 'stdio' && !allowStdio) {
+      result.skipped.push({
+        name: server.name,
+        reason: 'Stdio MCP servers are disabled; set MCP_ALLOW_STDIO=true on the server to allow them',
+      });
+      continue;
+    }
+
+    let name = server.name;
+    let serverId = getServerId(name, server.config);
+    const exists = !!runtimeManager.getServerStatus(serverId);
+
+    if (exists && onConflict === 'skip') {
+      result.skipped.push({ name, reason: `A server with ID ${serverId} already exists` });
+      continue;
+    }
+
+    if (exists && onConflict === 'rename') {
+      for (let suffix = 2; runtimeManager.getServerStatus(serverId); suffix++) {
+        name = `${server.name} ${suffix}`;
+        serverId = getServerId(name, server.config);
+      }
+    }
+
+    try {
+      if (exists && onConflict === 'replace') {
+        await runtimeManager.removeServer(serverId);
+      }
+
+      serverId = await runtimeManager.addServer(name, server.baseUrl, server.config);
+
+      if (!server.enabled) {
+        await runtimeManager.setServerEnabled(serverId, false);
+      }
+
+      result.imported.push({
+        name,
+        serverId,
+        renamedFrom: name !== server.name ? server.name : undefined,
+        replaced: exists && onConflict === 'replace' ? true : undefined,
+      });
+      result.warnings.push(...server.warnings.map((warning) => `${name}: ${warning}`));
+    } catch (error) {
+      logger.error(`Failed to import MCP server ${server.name}:`, error);
+      result.errors.push({ name: server.name, message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  logger.info(
+    `Imported ${result.imported.length} MCP servers (${result.skipped.length} skipped, ${result.errors.length} failed)`,
+  );
+
+  return result;
+}
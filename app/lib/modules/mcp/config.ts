@@ -2,15 +2,198 @@
  * Type definitions related to MCP(Model Context Protocol) configuration
  */
 
+import type { OAuthClientInformationFull, OAuthTokens } from '@modelcontextprotocol/sdk/shared/auth.js';
+
+/**
+ * Transport used to talk to an MCP server
+ */
+export type MCPTransportType = 'streamable-http' | 'sse' | 'stdio';
+
+/**
+ * What happens when the model calls a tool
+ * `allow` runs it, `ask` waits for the user to approve it and `deny` refuses it
+ */
+export type MCPToolPolicy = 'allow' | 'ask' | 'deny';
+
+/**
+ * Tool approval policies of a server
+ */
+export interface MCPToolPolicies {
+  /**
+   * Policy for tools without an override; tools are allowed when unset
+   */
+  default?: MCPToolPolicy;
+
+  /**
+   * Per-tool overrides keyed by the tool name reported by the server
+   */
+  tools?: Record<string, MCPToolPolicy>;
+}
+
+/**
+ * OAuth authorization state of a server
+ * `required` means the server rejected the connection and the user has to sign in
+ */
+export type MCPAuthState = 'none' | 'required' | 'authorized';
+
+/**
+ * OAuth 2.1 credentials kept for a server
+ */
+export interface MCPOAuthCredentials {
+  /**
+   * Client registered with the authorization server
+   */
+  clientInformation?: OAuthClientInformationFull;
+  tokens?: OAuthTokens;
+
+  /**
+   * When the tokens were issued, used to refresh them before they expire
+   */
+  tokensObtainedAt?: number;
+
+  /**
+   * Redirect URL the client was registered with
+   */
+  redirectUrl?: string;
+
+  /**
+   * PKCE verifier and state of the authorization request in progress
+   */
+  codeVerifier?: string;
+  state?: string;
+}
+
 /**
  * MCP server configuration interface
  */
 export interface MCPServerConfig {
   baseUrl: string;
+
+  /**
+   * Transport to use; HTTP servers negotiate Streamable HTTP with SSE fallback when unset
+   */
+  transport?: MCPTransportType;
   auth?: {
     type?: 'github' | 'anthropic' | string;
     token?: string;
+
+    /**
+     * OAuth credentials for servers that require the OAuth authorization flow
+     */
+    oauth?: MCPOAuthCredentials;
   };
+
+  /**
+   * Extra HTTP headers sent to HTTP servers (e.g. an API key header)
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Executable to spawn for stdio servers (e.g. `npx` or `uvx`)
+   */
+  command?: string;
+
+  /**
+   * Command line arguments for stdio servers
+   */
+  args?: string[];
+
+  /**
+   * Extra environment variables for stdio servers
+   */
+  env?: Record<string, string>;
+
+  /**
+   * Working directory for stdio servers
+   */
+  cwd?: string;
+
+  /**
+   * Approval policies applied before the model can run a tool
+   */
+  toolPolicies?: MCPToolPolicies;
+
+  /**
+   * OpenAPI document the tools of REST services are generated from
+   */
+  openapi?: MCPOpenAPIConfig;
+
+  /**
+   * Records the server's tool calls to a cassette file, or serves them back from one without the server
+   */
+  cassette?: MCPCassetteConfig;
+}
+
+/**
+ * How the token of an OpenAPI server is sent
+ * `bearer` sends it as a bearer token, `basic` sends `user:password` with basic authentication
+ * and `apiKey` sends it where the document's apiKey security scheme says
+ */
+export type MCPOpenAPIAuthScheme = 'bearer' | 'basic' | 'apiKey';
+
+/**
+ * Settings of a REST service described by an OpenAPI 3 document
+ */
+export interface MCPOpenAPIConfig {
+  /**
+   * URL the document is downloaded from
+   */
+  specUrl?: string;
+
+  /**
+   * Document pasted as JSON or YAML; used instead of `specUrl` when set
+   */
+  spec?: string;
+
+  /**
+   * URL requests are sent to; the first server of the document when unset
+   */
+  serverUrl?: string;
+  authScheme?: MCPOpenAPIAuthScheme;
+
+  /**
+   * Only operations with one of these tags become tools
+   */
+  tags?: string[];
+
+  /**
+   * Only these operations become tools; combined with `tags`, operations matching either become tools
+   */
+  operationIds?: string[];
+}
+
+/**
+ * Whether a cassette is written from the live server or served back in its place
+ */
+export type MCPCassetteMode = 'record' | 'replay';
+
+/**
+ * How a replayed tool call is matched against the recorded ones
+ * `exact` compares all arguments, `partial` only compares the arguments that were recorded
+ * and `tool` ignores the arguments and replays the calls of the tool in recorded order
+ */
+export type MCPCassetteMatch = 'exact' | 'partial' | 'tool';
+
+/**
+ * Settings of a cassette
+ */
+export interface MCPCassetteConfig {
+  mode: MCPCassetteMode;
+
+  /**
+   * JSON file the cassette is kept in, relative to MCP_CASSETTE_DIR; `<server id>.json` when unset
+   */
+  path?: string;
+
+  /**
+   * How calls are matched on replay (default: `exact`)
+   */
+  match?: MCPCassetteMatch;
+
+  /**
+   * Arguments left out of the comparison on replay, e.g. timestamps or generated IDs
+   */
+  ignoreArgs?: string[];
 }
 
 /**
@@ -29,12 +212,247 @@ export interface MCPTool {
   inputSchema?: any;
 }
 
+/**
+ * MCP Resource definition
+ */
+export interface MCPResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+/**
+ * MCP Resource template definition (RFC 6570 URI template)
+ */
+export interface MCPResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+/**
+ * Contents returned when reading a resource
+ * Text resources set `text`, binary resources set base64 encoded `blob`
+ */
+export interface MCPResourceContent {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  blob?: string;
+}
+
+/**
+ * Argument declared by an MCP prompt
+ */
+export interface MCPPromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+/**
+ * MCP Prompt definition
+ */
+export interface MCPPrompt {
+  name: string;
+  description?: string;
+  arguments?: MCPPromptArgument[];
+}
+
+/**
+ * Message produced by expanding an MCP prompt
+ * Non-text content is flattened to text
+ */
+export interface MCPPromptMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Result of expanding an MCP prompt
+ */
+export interface MCPPromptResult {
+  description?: string;
+  messages: MCPPromptMessage[];
+}
+
+/**
+ * Tool definitions of all enabled servers at one point in time
+ * The version changes whenever a tool list changes, so anything derived from a snapshot can be cached by version
+ */
+export interface MCPToolSnapshot {
+  version: number;
+
+  /**
+   * Tool definitions keyed by server ID
+   */
+  tools: Record<string, MCPTool[]>;
+}
+
+/**
+ * Servers and tools active in a chat
+ * Chats without a selection use the tools of every enabled server
+ */
+export interface MCPToolSelection {
+  /**
+   * IDs of the active servers; the tools of other servers are not offered
+   */
+  servers: string[];
+
+  /**
+   * Active tools keyed by server ID; every tool of an active server without an entry is offered
+   */
+  tools?: Record<string, string[]>;
+}
+
+/**
+ * Selection saved under a name so it can be reused in other chats
+ */
+export interface MCPSavedToolset {
+  id: string;
+  name: string;
+  selection: MCPToolSelection;
+}
+
+/**
+ * What happens when a workflow step fails
+ * `stop` fails the workflow and `continue` runs the next step with the error in `steps.<id>.error`
+ */
+export type MCPWorkflowErrorStrategy = 'stop' | 'continue';
+
+/**
+ * Tool call made by a workflow
+ * Strings in `args` may contain `{{ path }}` templates that read the workflow input (`input.query`)
+ * or the outcome of earlier steps (`steps.search.result.items[0].full_name`)
+ */
+export interface MCPWorkflowStep {
+  /**
+   * Name later steps and the output use to refer to this step
+   */
+  id: string;
+  serverId: string;
+
+  /**
+   * Name of the tool on the server
+   */
+  toolName: string;
+  args?: Record<string, unknown>;
+
+  /**
+   * Condition the step runs under, e.g. `steps.search.result.total_count > 0`; always runs when unset
+   */
+  when?: string;
+  onError?: MCPWorkflowErrorStrategy;
+
+  /**
+   * Times a failed call is tried again before `onError` applies
+   */
+  retries?: number;
+}
+
+/**
+ * Input the model passes to a workflow
+ */
+export interface MCPWorkflowInput {
+  name: string;
+  type: 'string' | 'number' | 'boolean';
+  description?: string;
+  required?: boolean;
+}
+
+/**
+ * Chain of tool calls offered to the model as a single tool
+ */
+export interface MCPWorkflow {
+  id: string;
+
+  /**
+   * Name of the tool the model calls, without the `workflow_` prefix
+   */
+  name: string;
+  description: string;
+  enabled: boolean;
+  inputs: MCPWorkflowInput[];
+  steps: MCPWorkflowStep[];
+
+  /**
+   * Template of the value returned to the model; the result of the last step that ran when unset
+   */
+  output?: string;
+}
+
+/**
+ * Progress reported by a server while a tool call runs
+ */
+export interface MCPToolProgress {
+  progress: number;
+
+  /**
+   * Value of `progress` when the call is done; unknown when unset
+   */
+  total?: number;
+  message?: string;
+}
+
+/**
+ * Options of a tool call
+ */
+export interface MCPToolCallOptions {
+  /**
+   * Signal that cancels the call; the server is sent `notifications/cancelled`
+   */
+  signal?: AbortSignal;
+  onProgress?: (progress: MCPToolProgress) => void;
+}
+
+/**
+ * Progress of a tool call made through the tool factory
+ * Sent when the call starts, for every progress notification and once more when it ends
+ */
+export interface MCPToolProgressEvent extends Partial<MCPToolProgress> {
+  toolCallId: string;
+  serverId: string;
+  serverName: string;
+  toolName: string;
+  done: boolean;
+}
+
+/**
+ * Record of a tool call made by the model
+ * Chat and message IDs are added by the client when the record is stored
+ */
+export interface MCPToolCallRecord {
+  id: string;
+  serverId: string;
+  serverName: string;
+
+  /**
+   * Name of the tool as reported by the server
+   */
+  toolName: string;
+  args: any;
+  status: 'success' | 'error' | 'denied';
+  result?: any;
+  error?: string;
+  durationMs: number;
+  timestamp: string;
+  chatId?: string;
+  messageId?: string;
+}
+
 /**
  * Connection status result
  */
 export interface ConnectionStatus {
   success: boolean;
   message: string;
+
+  /**
+   * Transport the connection was established over
+   */
+  transport?: MCPTransportType;
 }
 
 /**
@@ -47,6 +465,11 @@ export interface IMCPServerAdapter {
   baseUrl: string;
   enabled: boolean;
 
+  /**
+   * Whether bolt registers this server itself; built-in servers are never stored or exported
+   */
+  builtIn?: boolean;
+
   /**
    * Get the list of tools provided by this server
    */
@@ -61,8 +484,9 @@ export interface IMCPServerAdapter {
    * Execute a tool call
    * @param toolName Name of the tool to execute
    * @param args Arguments for the tool
+   * @param options Cancellation and progress reporting
    */
-  executeToolCall(toolName: string, args: any): Promise<any>;
+  executeToolCall(toolName: string, args: any, options?: MCPToolCallOptions): Promise<any>;
 
   /**
    * Initialize the server adapter
@@ -79,6 +503,69 @@ export interface IMCPServerAdapter {
    * @param config New configuration
    */
   updateConfig(config: Partial<MCPServerConfig>): void;
+
+  /**
+   * Release any resources held by this server (connections, child processes)
+   */
+  dispose?(): Promise<void>;
+
+  /**
+   * Listen for changes to the tool list, e.g. after a `notifications/tools/list_changed` notification
+   * @param listener Called with the new tool list
+   * @returns Function that removes the listener
+   */
+  onToolsChanged?(listener: (tools: MCPTool[]) => void): () => void;
+
+  /**
+   * Get the list of resources provided by this server
+   */
+  listResources?(): Promise<MCPResource[]>;
+
+  /**
+   * Get the list of resource templates provided by this server
+   */
+  listResourceTemplates?(): Promise<MCPResourceTemplate[]>;
+
+  /**
+   * Read the contents of a resource
+   * @param uri URI of the resource to read
+   */
+  readResource?(uri: string): Promise<MCPResourceContent[]>;
+
+  /**
+   * Get the list of prompts provided by this server
+   */
+  listPrompts?(): Promise<MCPPrompt[]>;
+
+  /**
+   * Expand a prompt with the given arguments
+   * @param name Name of the prompt
+   * @param args Values for the prompt arguments
+   */
+  getPrompt?(name: string, args?: Record<string, string>): Promise<MCPPromptResult>;
+
+  /**
+   * Get the OAuth authorization state of this server
+   */
+  getAuthState?(): MCPAuthState;
+
+  /**
+   * Start the OAuth authorization flow
+   * @param redirectUrl URL the authorization server redirects back to
+   * @returns URL to send the user to, or null when the server is authorized without it
+   */
+  startAuthorization?(redirectUrl: string): Promise<string | null>;
+
+  /**
+   * Exchange the authorization code received on the callback and reconnect
+   * @param code Authorization code
+   */
+  finishAuthorization?(code: string): Promise<void>;
+
+  /**
+   * Forget the OAuth tokens of this server
+   */
+  signOut?(): Promise<void>;
 }
 
 export interface MCPServer {
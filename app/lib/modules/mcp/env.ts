@@ -29,6 +29,34 @@ export function getEnvironmentVariables(): Record<string, string | undefined> {
   }
 }
 
+/**
+ * Get an environment variable on the server
+ * The request's environment is read first; process.env is only used on Node, since a Cloudflare
+ * Worker does not run with the variables of the host
+ * @param env Environment of the request
+ * @param name Name of the variable
+ */
+export function getServerEnvironmentVariable(env: Env | undefined, name: string): string | undefined {
+  const value = (env as Record<string, unknown> | undefined)?.[name];
+
+  if (typeof value === 'string' && value) {
+    return value;
+  }
+
+  if (isCloudflareWorker() || typeof process === 'undefined') {
+    return undefined;
+  }
+
+  return process.env[name] || undefined;
+}
+
+/**
+ * Whether the code runs in a Cloudflare Worker rather than on Node
+ */
+export function isCloudflareWorker(): boolean {
+  return typeof navigator !== 'undefined' && navigator.userAgent === 'Cloudflare-Workers';
+}
+
 /**
  * Initialize window.ENV if it doesn't exist
  * This should be called as early as possible in the application lifecycle
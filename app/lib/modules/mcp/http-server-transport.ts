@@ -0,0 +1,194 @@
+/**
+ * MCP HTTP Server Transport
+ * Stateless Streamable HTTP transport built on the Fetch API, so MCP servers can be served from Remix routes
+ * Every HTTP request gets its own transport; responses are sent as JSON or, when the client accepts it,
+ * as an SSE stream that also carries the notifications sent while the requests run
+ */
+
+import type { Transport, TransportSendOptions } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  ErrorCode,
+  JSONRPCMessageSchema,
+  isJSONRPCError,
+  isJSONRPCRequest,
+  isJSONRPCResponse,
+  type JSONRPCMessage,
+  type RequestId,
+} from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Create a JSON-RPC error response for a request that could not be read
+ * @param status HTTP status
+ * @param code JSON-RPC error code
+ * @param message Error message
+ */
+function errorResponse(status: number, code: number, message: string): Response {
+  return Response.json({ jsonrpc: '2.0', error: { code, message }, id: null }, { status });
+}
+
+/**
+ * Transport answering the JSON-RPC messages of one HTTP request
+ */
+export class HttpServerTransport implements Transport {
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  private _requestIds: Set<RequestId> = new Set();
+  private _write: ((message: JSONRPCMessage) => void) | null = null;
+  private _finish: (() => void) | null = null;
+  private _closed = false;
+
+  /**
+   * Nothing to start; messages are delivered by handleRequest()
+   */
+  async start(): Promise<void> {
+    // The HTTP request is already open
+  }
+
+  /**
+   * Send a response or a notification to the client
+   * Messages are dropped when they do not belong to the requests of this HTTP request
+   * @param message JSON-RPC message
+   * @param _options Send options
+   */
+  async send(message: JSONRPCMessage, _options?: TransportSendOptions): Promise<void> {
+    if (!this._write) {
+      return;
+    }
+
+    const isResponse = isJSONRPCResponse(message) || isJSONRPCError(message);
+
+    if (isResponse && !this._requestIds.has(message.id)) {
+      return;
+    }
+
+    this._write(message);
+
+    if (isResponse) {
+      this._requestIds.delete(message.id);
+
+      if (this._requestIds.size === 0) {
+        this._finish?.();
+      }
+    }
+  }
+
+  /**
+   * End the HTTP response and close the transport
+   */
+  async close(): Promise<void> {
+    if (this._closed) {
+      return;
+    }
+
+    this._closed = true;
+    this._finish?.();
+    this.onclose?.();
+  }
+
+  /**
+   * Deliver the messages of an HTTP request to the server and answer them
+   * @param request POST request with one JSON-RPC message or a batch
+   */
+  async handleRequest(request: Request): Promise<Response> {
+    if (request.method !== 'POST') {
+      // Streams for server-initiated messages are not offered
+      return new Response(null, { status: 405, headers: { Allow: 'POST' } });
+    }
+
+    let body: unknown;
+
+    try {
+      body = await request.json();
+    } catch {
+      return errorResponse(400, ErrorCode.ParseError, 'Parse error: invalid JSON');
+    }
+
+    const parsed = (Array.isArray(body) ? body : [body]).map((message) => JSONRPCMessageSchema.safeParse(message));
+
+    if (parsed.length === 0 || parsed.some((result) => !result.success)) {
+      return errorResponse(400, ErrorCode.InvalidRequest, 'Invalid Request: expected JSON-RPC messages');
+    }
+
+    const messages = parsed.map((result) => result.data as JSONRPCMessage);
+    const requests = messages.filter(isJSONRPCRequest);
+
+    // Notifications and responses are only acknowledged
+    if (requests.length === 0) {
+      messages.forEach((message) => this.onmessage?.(message));
+      return new Response(null, { status: 202 });
+    }
+
+    requests.forEach((message) => this._requestIds.add(message.id));
+    request.signal.addEventListener('abort', () => this.close());
+
+    const response = (request.headers.get('Accept') || '').includes('text/event-stream')
+      ? this._streamResponse()
+      : this._jsonResponse(Array.isArray(body));
+
+    messages.forEach((message) => this.onmessage?.(message));
+
+    return response;
+  }
+
+  /**
+   * Send the messages as server-sent events until every request is answered
+   */
+  private _streamResponse(): Response {
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream<Uint8Array>({
+      start: (controller) => {
+        this._write = (message) => {
+          controller.enqueue(encoder.encode(`event: message\ndata: ${JSON.stringify(message)}\n\n`));
+        };
+
+        this._finish = () => {
+          this._write = null;
+          this._finish = null;
+
+          try {
+            controller.close();
+          } catch {
+            // The client already went away
+          }
+        };
+      },
+      cancel: () => this.close(),
+    });
+
+    return new Response(stream, {
+      headers: { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' },
+    });
+  }
+
+  /**
+   * Collect the responses and send them as JSON once every request is answered
+   * @param batch Whether the client sent a batch
+   */
+  private _jsonResponse(batch: boolean): Promise<Response> {
+    const responses: JSONRPCMessage[] = [];
+
+    return new Promise((resolve) => {
+      this._write = (message) => {
+        // Notifications cannot be sent in a JSON response
+        if (isJSONRPCResponse(message) || isJSONRPCError(message)) {
+          responses.push(message);
+        }
+      };
+
+      this._finish = () => {
+        this._write = null;
+        this._finish = null;
+
+        // Nothing was answered when the client went away first
+        if (responses.length === 0) {
+          resolve(new Response(null, { status: 204 }));
+          return;
+        }
+
+        resolve(Response.json(batch ? responses : responses[0]));
+      };
+    });
+  }
+}
@@ -5,21 +5,143 @@
 
 import type { Tool } from 'ai';
 import type { MCPServerRegistry as MCPServerRegistryType } from './registry';
+import type { MCPToolSelection, MCPToolSnapshot } from './config';
+import type { ToolCreationOptions } from './tool-factory';
 
 // Export new modular architecture components
-export type { IMCPServerAdapter, MCPConfig, MCPServerConfig, MCPTool, ConnectionStatus } from './config';
+export type {
+  IMCPServerAdapter,
+  MCPConfig,
+  MCPServerConfig,
+  MCPTool,
+  MCPTransportType,
+  MCPToolPolicy,
+  MCPToolPolicies,
+  MCPAuthState,
+  MCPOAuthCredentials,
+  MCPResource,
+  MCPResourceTemplate,
+  MCPResourceContent,
+  MCPPrompt,
+  MCPPromptArgument,
+  MCPPromptMessage,
+  MCPPromptResult,
+  MCPToolCallRecord,
+  MCPToolCallOptions,
+  MCPToolProgress,
+  MCPToolProgressEvent,
+  MCPToolSnapshot,
+  MCPToolSelection,
+  MCPSavedToolset,
+  ConnectionStatus,
+} from './config';
 export { MCPServerRegistry, MCPRegistryEventType, type MCPRegistryEvent } from './registry';
 export { MCPToolFactory, type ToolCreationOptions } from './tool-factory';
-export { getMCPBootstrapPromise } from './bootstrap';
+export { MCPToolCache } from './tool-cache';
+export { isToolSelected, selectServer, selectTool, savedToolsets, saveToolset, deleteToolset } from './tool-selection';
+export {
+  MCPToolRouter,
+  DEFAULT_MAX_ROUTED_TOOLS,
+  DEFAULT_TOOL_TOKEN_BUDGET,
+  scoreBM25,
+  tokenize,
+  type RankedTool,
+  type ToolRoute,
+  type ToolRouterOptions,
+} from './tool-router';
+export {
+  MCPToolApprovalManager,
+  MCPToolDeniedError,
+  resolveToolPolicy,
+  type MCPToolApprovalRequest,
+  type MCPToolApprovalResult,
+} from './approval';
+export { MCPAuthorizationRequiredError, MCP_OAUTH_CALLBACK_PATH, type MCPAuthorizationResult } from './oauth';
+export { getMCPBootstrapPromise, getServerMCPBootstrapPromise } from './bootstrap';
 export { processToolCalls, type ToolCall } from './tool-handler';
-export { MCPRuntimeManager, type ServerStatus, type HealthCheckOptions } from './runtime-manager';
+export { callClientTool } from './tools';
+export {
+  WORKBENCH_SERVER_ID,
+  WORKBENCH_SERVER_NAME,
+  createWorkbenchMCPServer,
+  createWorkbenchToolDeclarations,
+  executeWorkbenchToolCall,
+  getWorkbenchToolName,
+  registerWorkbenchServer,
+  type WorkbenchAccess,
+} from './workbench-server';
+export { MCPRootsManager, createRoot, registerRootsHandler, type MCPRoot } from './roots';
+export {
+  MCPSamplingManager,
+  MAX_SAMPLING_TOKENS,
+  registerSamplingHandler,
+  type MCPSamplingContext,
+  type MCPSamplingDecision,
+  type MCPSamplingRequest,
+  type MCPSamplingUsage,
+} from './sampling';
+export { createBoltMCPServer, getBoltMCPToken } from './bolt-server';
+export {
+  BoltSessionBridge,
+  type BoltSessionAction,
+  type BoltSessionCallOptions,
+  type BoltSessionRequest,
+  type BoltSessionResult,
+} from './bolt-session';
+export { HttpServerTransport } from './http-server-transport';
+export {
+  MCPWorkflowError,
+  WORKFLOW_TOOL_PREFIX,
+  getWorkflowInputSchema,
+  getWorkflowToolName,
+  runMCPWorkflow,
+  validateMCPWorkflow,
+  type MCPWorkflowRun,
+  type MCPWorkflowStepOutcome,
+  type MCPWorkflowToolCaller,
+} from './workflows';
+export { MCPRuntimeManager, getServerId, type ServerStatus, type HealthCheckOptions } from './runtime-manager';
+export {
+  JsonFileServerStore,
+  KVServerStore,
+  MCPServerStoreConflictError,
+  createMCPServerStore,
+  getRequestRevision,
+  type MCPServerStore,
+  type MCPServerStoreSnapshot,
+} from './server-store';
+export { REDACTED_SECRET, redactSecrets, redactUrl } from './redact';
+export {
+  parseMCPConfigFile,
+  createMCPConfigFile,
+  importMCPConfigFile,
+  type MCPConfigFile,
+  type MCPConfigFileServer,
+  type MCPConfigImportResult,
+  type MCPImportConflictStrategy,
+  type MCPImportedServer,
+} from './config-file';
+export {
+  createResourceTag,
+  createResourcesContext,
+  extractResourceRefs,
+  stripResourceTags,
+  type MCPResourceRef,
+} from './resources';
 
 // Export adapter classes and factory
 export {
   BaseMCPServerAdapter,
   StandardMCPServerAdapter,
   GitHubMCPServerAdapter,
+  GitLabMCPServerAdapter,
+  StdioMCPServerAdapter,
+  InProcessMCPServerAdapter,
+  RecordingMCPServerAdapter,
+  ReplayMCPServerAdapter,
+  MCPCassetteMissError,
   createServerAdapter,
+  type MCPCassette,
 } from './adapters';
 
 // Export legacy components (will be deprecated in future)
@@ -30,7 +152,15 @@ export type { ToolSet, ToolSetConfig } from './toolset';
 export { initializeMCP, getMCPClients, getMCPTools } from './init';
 
 // Export storage functions
-export { saveMCPServersToStorage, loadMCPServersFromStorage, getStoredMCPServers } from './storage';
+export {
+  saveMCPServersToStorage,
+  loadMCPServersFromStorage,
+  getStoredMCPServers,
+  getStoredMCPServersWithCredentials,
+  migrateMCPServerCredentials,
+  saveMCPWorkflowsToStorage,
+  getStoredMCPWorkflows,
+} from './storage';
 export { getEnvironmentVariables } from './env';
 
 // Re-export MCP SDK types for convenience
@@ -67,7 +197,7 @@ export async function setupMCP(env: Record<string, string | undefined> = {}): Pr
  * @returns The initialized registry instance
  */
 export async function initializeMCPRegistry(_options: MCPRegistryOptions = {}): Promise<MCPServerRegistryType> {
-  const { getStoredMCPServers } = await import('./storage');
+  const { getStoredMCPServersWithCredentials, getStoredMCPWorkflows, getStoredServerId } = await import('./storage');
   const { createServerAdapter } = await import('./adapters');
   const { MCPServerRegistry: MCP_SERVER_REGISTRY } = await import('./registry');
 
@@ -77,25 +207,54 @@ export async function initializeMCPRegistry(_options: MCPRegistryOptions = {}):
   // Clear any existing servers
   registry.clear();
 
-  // Load stored servers from localStorage
-  const storedServers = getStoredMCPServers();
+  // Load stored servers from localStorage, with their credentials from the vault
+  const storedServers = await getStoredMCPServersWithCredentials();
 
   // Register each server with the appropriate adapter
   for (const server of storedServers) {
-    if (server.enabled) {
-      const id = server.auth?.type === 'github' ? 'github' : server.name.toLowerCase();
+    if (server.enabled && !server.builtIn) {
+      const id = getStoredServerId(server);
       const adapter = createServerAdapter(
         id, // ID
         server.name, // Display name
         server.baseUrl,
         server.enabled,
-        { auth: server.auth },
+        {
+          auth: server.auth,
+          headers: server.headers,
+          transport: server.transport,
+          command: server.command,
+          args: server.args,
+          env: server.env,
+          cwd: server.cwd,
+          toolPolicies: server.toolPolicies,
+          openapi: server.openapi,
+          cassette: server.cassette,
+        },
       );
 
       registry.registerServer(adapter);
     }
   }
 
+  // Workflows are offered once the servers they use are registered
+  for (const workflow of getStoredMCPWorkflows()) {
+    registry.registerWorkflow(workflow);
+  }
+
+  // Built-in servers work on the workbench, which only exists in the browser
+  if (typeof window !== 'undefined') {
+    const { registerWorkbenchServer, WORKBENCH_SERVER_ID } = await import('./workbench-server');
+    const workbench = storedServers.find(
+      (server) => server.builtIn && getStoredServerId(server) === WORKBENCH_SERVER_ID,
+    );
+
+    await registerWorkbenchServer(
+      registry,
+      workbench && { enabled: workbench.enabled, toolPolicies: workbench.toolPolicies },
+    );
+  }
+
   // Initialize all servers
   await registry.initializeAll();
 
@@ -105,16 +264,21 @@ export async function initializeMCPRegistry(_options: MCPRegistryOptions = {}):
 /**
  * Get tool descriptions for LLM prompts
  * This function generates a description of available MCP tools that can be included in LLM prompts
+ * @param snapshot Tool definitions to describe; the current snapshot when omitted
+ * @param selection Servers and tools of the chat; every tool when omitted
  * @returns String description of tools or empty string if no tools are available
  */
-export async function getMCPToolsDescription(): Promise<string> {
+export async function getMCPToolsDescription(
+  snapshot?: MCPToolSnapshot,
+  selection?: MCPToolSelection,
+): Promise<string> {
   try {
     // Get the tool factory
     const { getMCPBootstrapPromise } = await import('./bootstrap');
     const { toolFactory } = await getMCPBootstrapPromise();
 
     // Generate tool description
-    return await toolFactory.generateToolDescription();
+    return await toolFactory.generateToolDescription(snapshot, selection);
   } catch (error) {
     const logger = await import('~/utils/logger').then((m) => m.createScopedLogger('getMCPToolsDescription'));
     logger.error('Failed to get MCP tool descriptions:', error);
@@ -125,15 +289,22 @@ export async function getMCPToolsDescription(): Promise<string> {
 
 /**
  * Create MCP toolset
+ * @param snapshot Tool definitions to create the tools from; the current snapshot when omitted
+ * @param selection Servers and tools of the chat; every tool when omitted
+ * @param options Callbacks of the chat response the tools are created for
  * @returns The created toolset or null if creation fails
  */
-export async function createMCPToolset(): Promise<Record<string, Tool> | null> {
+export async function createMCPToolset(
+  snapshot?: MCPToolSnapshot,
+  selection?: MCPToolSelection,
+  options: Omit<ToolCreationOptions, 'selection'> = {},
+): Promise<Record<string, Tool> | null> {
   try {
     const { getMCPBootstrapPromise } = await import('./bootstrap');
     const { toolFactory } = await getMCPBootstrapPromise();
 
     // Create and return tools using the factory
-    return await toolFactory.createTools();
+    return await toolFactory.createTools({ ...options, selection }, snapshot);
   } catch (error) {
     const logger = await import('~/utils/logger').then((m) => m.createScopedLogger('createMCPToolset'));
     logger.error('Failed to create MCP toolset:', error);
@@ -13,7 +13,7 @@ const logger = createScopedLogger('MCPInit');
 export async function initializeMCP(env: Record<string, string | undefined> = {}): Promise<Record<string, any>> {
   try {
     // Load MCP server configurations from localStorage
-    const storageConfig = loadMCPServersFromStorage();
+    const storageConfig = await loadMCPServersFromStorage();
 
     /*
      * Merge environment variables with storage configurations
@@ -52,13 +52,8 @@ export async function initializeMCP(env: Record<string, string | undefined> = {}
  * @returns Object containing MCP clients
  */
 export function getMCPClients(env: Record<string, string | undefined> = {}): Record<string, any> {
-  // Load MCP server configurations from localStorage
-  const storageConfig = loadMCPServersFromStorage();
-
-  // Merge environment variables with storage configurations
-  const mergedEnv = { ...storageConfig, ...env };
-
-  const mcpManager = MCPManager.getInstance(mergedEnv);
+  // Stored servers (and their credentials from the vault) are applied when initializeMCP() creates the manager
+  const mcpManager = MCPManager.getInstance(env);
 
   return mcpManager.clients;
 }
@@ -69,13 +64,8 @@ export function getMCPClients(env: Record<string, string | undefined> = {}): Rec
  * @returns Object containing MCP tools
  */
 export function getMCPTools(env: Record<string, string | undefined> = {}): Record<string, any> {
-  // Load MCP server configurations from localStorage
-  const storageConfig = loadMCPServersFromStorage();
-
-  // Merge environment variables with storage configurations
-  const mergedEnv = { ...storageConfig, ...env };
-
-  const mcpManager = MCPManager.getInstance(mergedEnv);
+  // Stored servers (and their credentials from the vault) are applied when initializeMCP() creates the manager
+  const mcpManager = MCPManager.getInstance(env);
 
   return mcpManager.tools;
 }
@@ -2,7 +2,8 @@ import { type ToolSet } from './toolset';
 import { createScopedLogger } from '~/utils/logger';
 import type { MCPConfig, MCPServerConfig } from './config';
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
-import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { ToolListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { connectHttpTransport } from './transport';
 
 const logger = createScopedLogger('MCPManager');
 
@@ -14,6 +15,8 @@ export class MCPManager {
   private static _instance: MCPManager;
   private _toolset: ToolSet | null = null;
   private _config: MCPConfig = { mcpServers: {} };
+  private _clients: Record<string, Client> = {};
+  private _toolsPromise: Promise<{ tools: Record<string, any>; complete: boolean }> | null = null;
 
   private constructor(private readonly _env: Record<string, string | undefined> = {}) {
     this._loadConfigFromEnvironment();
@@ -101,39 +104,49 @@ export class MCPManager {
 
   /**
    * Initialize MCP tools
+   * Tools are discovered once and reused until a server reports that its tool list changed
    * @returns Map of tool name to tool definition
    */
   async initializeTools(): Promise<Record<string, any>> {
-    const tools: Record<string, any> = {};
-
-    for (const [serverName, config] of Object.entries(this._config.mcpServers)) {
-      try {
-        // Create URL from baseUrl
-        const url = new URL(config.baseUrl);
-
-        // Create transport
-        const transport = new SSEClientTransport(url);
-
-        // Create client
-        const client = new Client({
-          name: `${serverName}-client`,
-          version: '1.0.0',
+    if (!this._toolsPromise) {
+      const toolsPromise = this._discoverTools();
+      this._toolsPromise = toolsPromise;
+
+      // Servers that failed are retried on the next call instead of staying missing
+      toolsPromise
+        .then(({ complete }) => {
+          if (!complete && this._toolsPromise === toolsPromise) {
+            this._toolsPromise = null;
+          }
+        })
+        .catch(() => {
+          if (this._toolsPromise === toolsPromise) {
+            this._toolsPromise = null;
+          }
         });
+    }
 
-        // If we have GitHub auth, add it to the request headers
-        if (config.auth?.type === 'github' && config.auth.token) {
-          logger.info(`Adding GitHub authentication for ${serverName}`);
+    return (await this._toolsPromise).tools;
+  }
 
-          /*
-           * GitHub authentication is configured. The token is stored in the server config
-           * and will be used when making API calls to GitHub.
-           *
-           * Note: The actual API calls will need to include the token in their headers.
-           */
-        }
+  /**
+   * Drop the discovered tools so the next call discovers them again
+   */
+  invalidateTools(): void {
+    this._toolsPromise = null;
+  }
 
-        // Connect to the server
-        await client.connect(transport);
+  /**
+   * Discover the tools of all configured servers
+   * @returns Map of tool name to tool definition and whether every server answered
+   */
+  private async _discoverTools(): Promise<{ tools: Record<string, any>; complete: boolean }> {
+    const tools: Record<string, any> = {};
+    let complete = true;
+
+    for (const [serverName, config] of Object.entries(this._config.mcpServers)) {
+      try {
+        const client = await this._getClient(serverName, config);
 
         // Get tools from the server
         const toolList = await client.listTools();
@@ -143,15 +156,65 @@ export class MCPManager {
           logger.info(`Discovered ${toolList.tools.length} tools from server: ${serverName}`);
 
           for (const tool of toolList.tools) {
-            tools[`${serverName}_${tool.name}`] = tool;
+            tools[`${serverName}_${tool.name}`] = { ...tool, _serverName: serverName };
           }
         }
       } catch (error) {
         logger.error(`Failed to initialize tools for ${serverName}:`, error);
+        complete = false;
+
+        // Connect again next time
+        await this._clients[serverName]?.close().catch(() => undefined);
+        delete this._clients[serverName];
       }
     }
 
-    return tools;
+    return { tools, complete };
+  }
+
+  /**
+   * Get the connected client of a server, connecting on first use
+   * @param serverName Server name
+   * @param config Server configuration
+   */
+  private async _getClient(serverName: string, config: MCPServerConfig): Promise<Client> {
+    if (this._clients[serverName]) {
+      return this._clients[serverName];
+    }
+
+    // Create URL from baseUrl
+    const url = new URL(config.baseUrl);
+
+    // Create client
+    const client = new Client({
+      name: `${serverName}-client`,
+      version: '1.0.0',
+    });
+
+    // If we have GitHub auth, add it to the request headers
+    if (config.auth?.type === 'github' && config.auth.token) {
+      logger.info(`Adding GitHub authentication for ${serverName}`);
+
+      /*
+       * GitHub authentication is configured. The token is stored in the server config
+       * and will be used when making API calls to GitHub.
+       *
+       * Note: The actual API calls will need to include the token in their headers.
+       */
+    }
+
+    client.setNotificationHandler(ToolListChangedNotificationSchema, async () => {
+      logger.info(`Tool list of ${serverName} changed`);
+      this.invalidateTools();
+    });
+
+    // Connect to the server, negotiating Streamable HTTP with SSE fallback
+    const { type } = await connectHttpTransport(client, url, { preferred: config.transport });
+    logger.info(`Connected to ${serverName} via ${type}`);
+
+    this._clients[serverName] = client;
+
+    return client;
   }
 
   /**
@@ -0,0 +1,140 @@
+import { auth } from '@modelcontextprotocol/sdk/client/auth.js';
+import { describe, expect, it, vi } from 'vitest';
+import {
+  createAuthorizationResultPage,
+  isTokenExpired,
+  MCPAuthorizationRequiredError,
+  MCPOAuthProvider,
+  type MCPOAuthStore,
+} from './oauth';
+import type { MCPOAuthCredentials } from './config';
+
+const SERVER_URL = 'https://mcp.example.com/mcp';
+const REDIRECT_URL = 'http://localhost:5173/api/mcp/oauth/callback';
+
+function createStore(credentials: MCPOAuthCredentials = {}): MCPOAuthStore & { credentials: MCPOAuthCredentials } {
+  return {
+    credentials,
+    get() {
+      return this.credentials;
+    },
+    set(next) {
+      this.credentials = next;
+    },
+  };
+}
+
+// Authorization server that only supports the endpoints of the MCP sign-in
+function createAuthorizationServer() {
+  return vi.fn(async (input: string | URL, init?: RequestInit) => {
+    const url = new URL(input);
+
+    switch (url.pathname) {
+      case '/.well-known/oauth-authorization-server':
+        return Response.json({
+          issuer: 'https://mcp.example.com',
+          authorization_endpoint: 'https://mcp.example.com/authorize',
+          token_endpoint: 'https://mcp.example.com/token',
+          registration_endpoint: 'https://mcp.example.com/register',
+          response_types_supported: ['code'],
+          code_challenge_methods_supported: ['S256'],
+        });
+      case '/register':
+        return Response.json({ ...JSON.parse(String(init?.body)), client_id: 'client-1' }, { status: 201 });
+      case '/token':
+        return Response.json({ access_token: 'access-1', token_type: 'Bearer', refresh_token: 'refresh-1' });
+      default:
+        return new Response('Not found', { status: 404 });
+    }
+  });
+}
+
+describe('MCPOAuthProvider', () => {
+  it('should register, redirect to the authorization server and exchange the code', async () => {
+    const store = createStore();
+    const fetchFn = createAuthorizationServer();
+
+    const provider = new MCPOAuthProvider('Linear', store, REDIRECT_URL);
+
+    await expect(auth(provider, { serverUrl: SERVER_URL, fetchFn })).resolves.toBe('REDIRECT');
+
+    const authorizationUrl = provider.authorizationUrl!;
+
+    expect(authorizationUrl.origin + authorizationUrl.pathname).toBe('https://mcp.example.com/authorize');
+    expect(authorizationUrl.searchParams.get('client_id')).toBe('client-1');
+    expect(authorizationUrl.searchParams.get('redirect_uri')).toBe(REDIRECT_URL);
+    expect(authorizationUrl.searchParams.get('state')).toBe(store.credentials.state);
+    expect(store.credentials.codeVerifier).toBeTruthy();
+
+    const callback = new MCPOAuthProvider('Linear', store, REDIRECT_URL);
+
+    await expect(auth(callback, { serverUrl: SERVER_URL, authorizationCode: 'code-1', fetchFn })).resolves.toBe(
+      'AUTHORIZED',
+    );
+    expect(store.credentials.tokens?.access_token).toBe('access-1');
+    expect(store.credentials.tokensObtainedAt).toBeTypeOf('number');
+
+    const [, tokenRequest] = fetchFn.mock.calls.find(([input]) => String(input).endsWith('/token'))!;
+    const body = new URLSearchParams(String(tokenRequest?.body));
+
+    expect(body.get('code')).toBe('code-1');
+    expect(body.get('code_verifier')).toBe(store.credentials.codeVerifier);
+  });
+
+  it('should register again for another redirect URL', () => {
+    const store = createStore({
+      clientInformation: { client_id: 'client-1', redirect_uris: [REDIRECT_URL] },
+      redirectUrl: REDIRECT_URL,
+    });
+
+    new MCPOAuthProvider('Linear', store, REDIRECT_URL);
+    expect(store.credentials.clientInformation?.client_id).toBe('client-1');
+
+    new MCPOAuthProvider('Linear', store, 'https://bolt.example.com/api/mcp/oauth/callback');
+    expect(store.credentials.clientInformation).toBeUndefined();
+    expect(store.credentials.redirectUrl).toBe('https://bolt.example.com/api/mcp/oauth/callback');
+  });
+
+  it('should require a sign-in when there is no redirect URL', () => {
+    const provider = new MCPOAuthProvider('Linear', createStore());
+
+    expect(() => provider.redirectUrl).toThrow(MCPAuthorizationRequiredError);
+    expect(() => provider.state()).toThrow(MCPAuthorizationRequiredError);
+  });
+
+  it('should keep the redirect URL when all credentials are invalidated', () => {
+    const store = createStore({
+      tokens: { access_token: 'access-1', token_type: 'Bearer' },
+      redirectUrl: REDIRECT_URL,
+      state: 'state-1',
+    });
+
+    new MCPOAuthProvider('Linear', store).invalidateCredentials('all');
+
+    expect(store.credentials).toEqual({ redirectUrl: REDIRECT_URL });
+  });
+});
+
+describe('isTokenExpired', () => {
+  const tokens = { access_token: 'access-1', token_type: 'Bearer', expires_in: 3600 };
+
+  it('should treat tokens as expired a minute before they expire', () => {
+    expect(isTokenExpired({ tokens, tokensObtainedAt: Date.now() })).toBe(false);
+    expect(isTokenExpired({ tokens, tokensObtainedAt: Date.now() - 3570 * 1000 })).toBe(true);
+  });
+
+  it('should not expire tokens without a lifetime', () => {
+    expect(isTokenExpired({ tokens: { access_token: 'access-1', token_type: 'Bearer' }, tokensObtainedAt: 0 })).toBe(
+      false,
+    );
+  });
+});
+
+describe('createAuthorizationResultPage', () => {
+  it('should escape the message and keep the result from closing the script', () => {
+    const page = createAuthorizationResultPage({ serverId: 'linear', success: false, message: '</script><b>' });
+
+    expect(page).toContain('<p>&#60;/script&#62;&#60;b&#62;</p>');
+    expect(page).toContain('"message":"\\u003c/script>\\u003cb>"');
+  });
+});
@@ -0,0 +1,248 @@
+/**
+ * MCP OAuth Module
+ * OAuth 2.1 client for remote MCP servers; metadata discovery, dynamic client registration,
+ * PKCE and token refresh are run by the SDK through the provider defined here
+ */
+
+import { generateId } from 'ai';
+import { UnauthorizedError, type OAuthClientProvider } from '@modelcontextprotocol/sdk/client/auth.js';
+import { SseError } from '@modelcontextprotocol/sdk/client/sse.js';
+import { StreamableHTTPError } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import type {
+  OAuthClientInformationFull,
+  OAuthClientMetadata,
+  OAuthTokens,
+} from '@modelcontextprotocol/sdk/shared/auth.js';
+import type { MCPOAuthCredentials } from './config';
+
+// Path of the route the authorization server redirects back to
+export const MCP_OAUTH_CALLBACK_PATH = '/api/mcp/oauth/callback';
+
+// Refresh tokens this long before they expire (1 minute)
+const TOKEN_EXPIRY_MARGIN = 60 * 1000;
+
+/**
+ * Thrown when a server can only be used after the user signs in
+ */
+export class MCPAuthorizationRequiredError extends Error {
+  constructor(serverName: string) {
+    super(`MCP server ${serverName} requires authorization`);
+    this.name = 'MCPAuthorizationRequiredError';
+  }
+}
+
+/**
+ * Storage for the OAuth credentials of a server
+ */
+export interface MCPOAuthStore {
+  get(): MCPOAuthCredentials;
+  set(credentials: MCPOAuthCredentials): void;
+}
+
+/**
+ * Check whether an error means the server rejected the client's credentials
+ * @param error Error thrown while connecting or sending a request
+ */
+export function isAuthorizationError(error: unknown): boolean {
+  return (
+    error instanceof UnauthorizedError ||
+    error instanceof MCPAuthorizationRequiredError ||
+    ((error instanceof StreamableHTTPError || error instanceof SseError) && error.code === 401)
+  );
+}
+
+/**
+ * Check whether the access token expired or is about to expire
+ * @param credentials OAuth credentials of the server
+ */
+export function isTokenExpired(credentials: MCPOAuthCredentials): boolean {
+  const expiresIn = credentials.tokens?.expires_in;
+
+  if (!expiresIn || !credentials.tokensObtainedAt) {
+    return false;
+  }
+
+  return Date.now() >= credentials.tokensObtainedAt + expiresIn * 1000 - TOKEN_EXPIRY_MARGIN;
+}
+
+/**
+ * OAuth client provider backed by the credentials of one server
+ * Without a redirect URL the provider can only use and refresh existing tokens;
+ * anything that needs the browser raises MCPAuthorizationRequiredError instead
+ */
+export class MCPOAuthProvider implements OAuthClientProvider {
+  private _serverName: string;
+  private _store: MCPOAuthStore;
+  private _redirectUrl: string | undefined;
+  private _authorizationUrl: URL | null = null;
+
+  /**
+   * Create a provider for a server
+   * @param serverName Name of the server, used in errors
+   * @param store Storage for the server's credentials
+   * @param redirectUrl Callback URL for an interactive sign-in
+   */
+  constructor(serverName: string, store: MCPOAuthStore, redirectUrl?: string) {
+    this._serverName = serverName;
+    this._store = store;
+    this._redirectUrl = redirectUrl;
+
+    // A client registered for another redirect URL (e.g. a different origin) has to register again
+    if (redirectUrl && redirectUrl !== store.get().redirectUrl) {
+      this._update({ clientInformation: undefined, redirectUrl });
+    }
+  }
+
+  /**
+   * URL the authorization server redirects back to
+   */
+  get redirectUrl(): string {
+    if (!this._redirectUrl) {
+      throw new MCPAuthorizationRequiredError(this._serverName);
+    }
+
+    return this._redirectUrl;
+  }
+
+  /**
+   * Metadata used for dynamic client registration
+   */
+  get clientMetadata(): OAuthClientMetadata {
+    return {
+      client_name: 'bolt.diy',
+      redirect_uris: [this.redirectUrl],
+      grant_types: ['authorization_code', 'refresh_token'],
+      response_types: ['code'],
+      token_endpoint_auth_method: 'none',
+    };
+  }
+
+  /**
+   * URL the user has to visit to sign in, set when the SDK starts an authorization request
+   */
+  get authorizationUrl(): URL | null {
+    return this._authorizationUrl;
+  }
+
+  /**
+   * Generate the state parameter that links the callback to this server
+   */
+  state(): string {
+    if (!this._redirectUrl) {
+      throw new MCPAuthorizationRequiredError(this._serverName);
+    }
+
+    const state = generateId();
+    this._update({ state });
+
+    return state;
+  }
+
+  clientInformation(): OAuthClientInformationFull | undefined {
+    return this._store.get().clientInformation;
+  }
+
+  saveClientInformation(clientInformation: OAuthClientInformationFull): void {
+    this._update({ clientInformation });
+  }
+
+  tokens(): OAuthTokens | undefined {
+    return this._store.get().tokens;
+  }
+
+  saveTokens(tokens: OAuthTokens): void {
+    this._update({ tokens, tokensObtainedAt: Date.now() });
+  }
+
+  redirectToAuthorization(authorizationUrl: URL): void {
+    // The browser is redirected by the authorize route, so just remember where to
+    this._authorizationUrl = authorizationUrl;
+  }
+
+  saveCodeVerifier(codeVerifier: string): void {
+    this._update({ codeVerifier });
+  }
+
+  codeVerifier(): string {
+    const { codeVerifier } = this._store.get();
+
+    if (!codeVerifier) {
+      throw new Error(`No authorization request in progress for MCP server ${this._serverName}`);
+    }
+
+    return codeVerifier;
+  }
+
+  invalidateCredentials(scope: 'all' | 'client' | 'tokens' | 'verifier'): void {
+    switch (scope) {
+      case 'all':
+        this._store.set({ redirectUrl: this._store.get().redirectUrl });
+        break;
+      case 'client':
+        this._update({ clientInformation: undefined });
+        break;
+      case 'tokens':
+        this._update({ tokens: undefined, tokensObtainedAt: undefined });
+        break;
+      case 'verifier':
+        this._update({ codeVerifier: undefined });
+        break;
+    }
+  }
+
+  /**
+   * Merge changes into the stored credentials
+   * @param changes Credentials to change
+   */
+  private _update(changes: Partial<MCPOAuthCredentials>): void {
+    this._store.set({ ...this._store.get(), ...changes });
+  }
+}
+
+/**
+ * Outcome of a sign-in, reported to the window that opened it
+ */
+export interface MCPAuthorizationResult {
+  type: 'mcp-oauth';
+  serverId?: string;
+  success: boolean;
+  message: string;
+}
+
+/**
+ * Escape text for use in HTML
+ * @param text Text to escape
+ */
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
+
+/**
+ * Create the page shown at the end of a sign-in
+ * It reports the result to the settings window that opened the popup and closes itself
+ * @param result Outcome of the sign-in
+ */
+export function createAuthorizationResultPage(result: Omit<MCPAuthorizationResult, 'type'>): string {
+  const message: MCPAuthorizationResult = { type: 'mcp-oauth', ...result };
+
+  // Keep the JSON from closing the script tag
+  const payload = JSON.stringify(message).replace(/</g, '\\u003c');
+
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <title>MCP Authorization</title>
+  </head>
+  <body style="font-family: sans-serif; padding: 2rem;">
+    <p>${escapeHtml(result.message)}</p>
+    <p>You can close this window.</p>
+    <script>
+      if (window.opener) {
+        window.opener.postMessage(${payload}, window.location.origin);
+        window.close();
+      }
+    </script>
+  </body>
+</html>`;
+}
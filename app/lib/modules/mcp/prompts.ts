@@ -0,0 +1,102 @@
+/**
+ * MCP Prompts Module
+ * Helpers for listing and expanding MCP prompt templates
+ */
+
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { MCPPrompt, MCPPromptMessage, MCPPromptResult } from './config';
+
+/**
+ * Check whether the connected server advertises the prompts capability
+ * @param client Connected MCP client
+ */
+function supportsPrompts(client: Client): boolean {
+  return !!client.getServerCapabilities()?.prompts;
+}
+
+/**
+ * Flatten the content of a prompt message to text
+ * @param content Prompt message content
+ */
+function getPromptContentText(content: any): string {
+  switch (content?.type) {
+    case 'text':
+      return content.text;
+    case 'resource':
+      return typeof content.resource?.text === 'string'
+        ? content.resource.text
+        : `(binary resource ${content.resource?.uri ?? ''} omitted)`;
+    case 'resource_link':
+      return content.uri;
+    default:
+      return `(${content?.type ?? 'unknown'} content omitted)`;
+  }
+}
+
+/**
+ * List all prompts from a connected client, following pagination
+ * @param client Connected MCP client
+ */
+export async function listClientPrompts(client: Client): Promise<MCPPrompt[]> {
+  if (!supportsPrompts(client)) {
+    return [];
+  }
+
+  const prompts: MCPPrompt[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const result = await client.listPrompts(cursor ? { cursor } : undefined);
+
+    for (const prompt of result.prompts) {
+      prompts.push({
+        name: prompt.name,
+        description: prompt.description,
+        arguments: prompt.arguments?.map((argument) => ({
+          name: argument.name,
+          description: argument.description,
+          required: argument.required,
+        })),
+      });
+    }
+
+    cursor = result.nextCursor;
+  } while (cursor);
+
+  return prompts;
+}
+
+/**
+ * Expand a prompt on a connected client
+ * @param client Connected MCP client
+ * @param name Name of the prompt
+ * @param args Values for the prompt arguments
+ */
+export async function getClientPrompt(
+  client: Client,
+  name: string,
+  args: Record<string, string> = {},
+): Promise<MCPPromptResult> {
+  const result = await client.getPrompt({ name, arguments: args });
+
+  return {
+    description: result.description,
+    messages: result.messages.map(
+      (message): MCPPromptMessage => ({
+        role: message.role,
+        content: getPromptContentText(message.content),
+      }),
+    ),
+  };
+}
+
+/**
+ * Get the required arguments of a prompt that have no value yet
+ * @param prompt Prompt definition
+ * @param args Values for the prompt arguments
+ */
+export function getMissingPromptArguments(prompt: MCPPrompt, args: Record<string, string>): string[] {
+  return (prompt.arguments || [])
+    .filter((argument) => argument.required && !args[argument.name]?.trim())
+    .map((argument) => argument.name);
+}
@@ -0,0 +1,105 @@
+/**
+ * MCP Redaction Module
+ * Replaces secrets with a placeholder before server configurations or tool calls are written to files
+ */
+
+// Placeholder written instead of secret values
+export const REDACTED_SECRET = '<redacted>';
+
+// Values that are URLs with a scheme and host, which may carry credentials
+const URL_PATTERN = /^[a-z][a-z\d+.-]*:\/\//i;
+
+// Words of object keys whose values are treated as secrets; keys ending in `key` are as well
+const SECRET_KEY_WORDS = new Set([
+  'auth',
+  'authorization',
+  'token',
+  'secret',
+  'password',
+  'passwd',
+  'credential',
+  'credentials',
+  'cookie',
+  'apikey',
+]);
+
+// Bearer tokens and well-known API token formats found in text
+const TOKEN_PATTERN =
+  /\b(Bearer\s+[\w.~+/-]+=*|gh[pousr]_[A-Za-z\d]{20,}|github_pat_\w{20,}|glpat-[\w-]{20,}|sk-[\w-]{20,}|xox[abpr]-[\w-]{10,})/g;
+
+/**
+ * Replace the credentials and query parameter values of a URL with a placeholder
+ * Values that are not URLs are returned unchanged
+ * @param value Value that may be a URL
+ */
+export function redactUrl(value: string): string {
+  if (!URL_PATTERN.test(value)) {
+    return value;
+  }
+
+  let url: URL;
+
+  try {
+    url = new URL(value);
+  } catch {
+    return value;
+  }
+
+  if (!url.username && !url.password && !url.search) {
+    return value;
+  }
+
+  if (url.username) {
+    url.username = REDACTED_SECRET;
+  }
+
+  if (url.password) {
+    url.password = REDACTED_SECRET;
+  }
+
+  for (const name of [...new Set(url.searchParams.keys())]) {
+    url.searchParams.set(name, REDACTED_SECRET);
+  }
+
+  return url.toString();
+}
+
+/**
+ * Whether the value of an object key is a secret, e.g. `token`, `apiKey` or `client_secret`
+ * @param key Object key
+ */
+function isSecretKey(key: string): boolean {
+  const words = key
+    .replace(/([a-z\d])([A-Z])/g, '$1_$2')
+    .toLowerCase()
+    .split(/[^a-z\d]+/)
+    .filter(Boolean);
+
+  return words.some((word) => SECRET_KEY_WORDS.has(word)) || words.at(-1) === 'key';
+}
+
+/**
+ * Replace the secrets in a JSON value with a placeholder
+ * Values of secret-looking keys, URL credentials and bearer or API tokens in text are redacted
+ * @param value Value to redact, e.g. the arguments or result of a tool call
+ */
+export function redactSecrets<T>(value: T): T {
+  if (typeof value === 'string') {
+    return redactUrl(value).replace(TOKEN_PATTERN, REDACTED_SECRET) as T;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => redactSecrets(item)) as T;
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        isSecretKey(key) && typeof item === 'string' ? REDACTED_SECRET : redactSecrets(item),
+      ]),
+    ) as T;
+  }
+
+  return value;
+}
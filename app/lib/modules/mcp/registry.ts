@@ -4,7 +4,15 @@
  */
 
 import { createScopedLogger } from '~/utils/logger';
-import type { IMCPServerAdapter } from './config';
+import type {
+  IMCPServerAdapter,
+  MCPPrompt,
+  MCPPromptResult,
+  MCPResource,
+  MCPResourceContent,
+  MCPResourceTemplate,
+  MCPWorkflow,
+} from './config';
 
 const logger = createScopedLogger('MCPRegistry');
 
@@ -39,6 +47,7 @@ type EventListener = (event: MCPRegistryEvent) => void;
 export class MCPServerRegistry {
   private static _instance: MCPServerRegistry;
   private _adapters: Record<string, IMCPServerAdapter> = {};
+  private _workflows: Record<string, MCPWorkflow> = {};
   private _eventListeners: Record<MCPRegistryEventType, EventListener[]> = {
     [MCPRegistryEventType.SERVER_ADDED]: [],
     [MCPRegistryEventType.SERVER_REMOVED]: [],
@@ -113,6 +122,153 @@ export class MCPServerRegistry {
     return Object.values(this._adapters).filter((adapter) => adapter.enabled);
   }
 
+  /**
+   * Register a workflow, replacing the workflow with the same ID
+   * @param workflow The workflow to register
+   */
+  registerWorkflow(workflow: MCPWorkflow): void {
+    logger.info(`Registering MCP workflow: ${workflow.name} (${workflow.id})`);
+    this._workflows[workflow.id] = workflow;
+  }
+
+  /**
+   * Unregister a workflow
+   * @param workflowId The ID of the workflow to unregister
+   */
+  unregisterWorkflow(workflowId: string): void {
+    delete this._workflows[workflowId];
+  }
+
+  /**
+   * Get a workflow by ID
+   * @param workflowId The ID of the workflow to get
+   */
+  getWorkflow(workflowId: string): MCPWorkflow | undefined {
+    return this._workflows[workflowId];
+  }
+
+  /**
+   * Get all registered workflows
+   */
+  getAllWorkflows(): MCPWorkflow[] {
+    return Object.values(this._workflows);
+  }
+
+  /**
+   * Get all enabled workflows
+   */
+  getEnabledWorkflows(): MCPWorkflow[] {
+    return Object.values(this._workflows).filter((workflow) => workflow.enabled);
+  }
+
+  /**
+   * List the resources of all enabled servers
+   * Servers that fail to list resources are skipped
+   * @returns Resources keyed by server ID
+   */
+  async listResources(): Promise<Record<string, MCPResource[]>> {
+    const resources: Record<string, MCPResource[]> = {};
+
+    for (const adapter of this.getEnabledServers()) {
+      if (!adapter.listResources) {
+        continue;
+      }
+
+      try {
+        resources[adapter.id] = await adapter.listResources();
+      } catch (error) {
+        logger.error(`Failed to list resources for MCP server: ${adapter.name}`, error);
+      }
+    }
+
+    return resources;
+  }
+
+  /**
+   * List the resource templates of all enabled servers
+   * Servers that fail to list resource templates are skipped
+   * @returns Resource templates keyed by server ID
+   */
+  async listResourceTemplates(): Promise<Record<string, MCPResourceTemplate[]>> {
+    const templates: Record<string, MCPResourceTemplate[]> = {};
+
+    for (const adapter of this.getEnabledServers()) {
+      if (!adapter.listResourceTemplates) {
+        continue;
+      }
+
+      try {
+        templates[adapter.id] = await adapter.listResourceTemplates();
+      } catch (error) {
+        logger.error(`Failed to list resource templates for MCP server: ${adapter.name}`, error);
+      }
+    }
+
+    return templates;
+  }
+
+  /**
+   * Read a resource from a server
+   * @param serverId The ID of the server that provides the resource
+   * @param uri URI of the resource to read
+   */
+  async readResource(serverId: string, uri: string): Promise<MCPResourceContent[]> {
+    const adapter = this._adapters[serverId];
+
+    if (!adapter) {
+      throw new Error(`MCP server not found: ${serverId}`);
+    }
+
+    if (!adapter.readResource) {
+      throw new Error(`MCP server ${adapter.name} does not provide resources`);
+    }
+
+    return adapter.readResource(uri);
+  }
+
+  /**
+   * List the prompts of all enabled servers
+   * Servers that fail to list prompts are skipped
+   * @returns Prompts keyed by server ID
+   */
+  async listPrompts(): Promise<Record<string, MCPPrompt[]>> {
+    const prompts: Record<string, MCPPrompt[]> = {};
+
+    for (const adapter of this.getEnabledServers()) {
+      if (!adapter.listPrompts) {
+        continue;
+      }
+
+      try {
+        prompts[adapter.id] = await adapter.listPrompts();
+      } catch (error) {
+        logger.error(`Failed to list prompts for MCP server: ${adapter.name}`, error);
+      }
+    }
+
+    return prompts;
+  }
+
+  /**
+   * Expand a prompt from a server
+   * @param serverId The ID of the server that provides the prompt
+   * @param name Name of the prompt
+   * @param args Values for the prompt arguments
+   */
+  async getPrompt(serverId: string, name: string, args?: Record<string, string>): Promise<MCPPromptResult> {
+    const adapter = this._adapters[serverId];
+
+    if (!adapter) {
+      throw new Error(`MCP server not found: ${serverId}`);
+    }
+
+    if (!adapter.getPrompt) {
+      throw new Error(`MCP server ${adapter.name} does not provide prompts`);
+    }
+
+    return adapter.getPrompt(name, args);
+  }
+
   /**
    * Update the status of a server
    * @param serverId The ID of the server to update
@@ -160,6 +316,7 @@ export class MCPServerRegistry {
    */
   clear(): void {
     this._adapters = {};
+    this._workflows = {};
   }
 
   /**
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { isStdioConfig, rejectStdioConfig, rejectUnsafeRequest } from './request-guard';
+
+function createRequest(headers: Record<string, string>, method = 'POST') {
+  return new Request('http://localhost:5173/api/mcp/servers', { method, headers });
+}
+
+describe('rejectUnsafeRequest', () => {
+  it('should accept JSON requests from bolt', () => {
+    expect(
+      rejectUnsafeRequest(createRequest({ Origin: 'http://localhost:5173', 'Content-Type': 'application/json' })),
+    ).toBeNull();
+    expect(rejectUnsafeRequest(createRequest({ 'Content-Type': 'application/json; charset=utf-8' }))).toBeNull();
+    expect(rejectUnsafeRequest(createRequest({ Origin: 'http://localhost:5173' }, 'DELETE'))).toBeNull();
+  });
+
+  it('should reject cross-origin requests', () => {
+    expect(
+      rejectUnsafeRequest(createRequest({ Origin: 'https://evil.example', 'Content-Type': 'application/json' }))
+        ?.status,
+    ).toBe(403);
+    expect(
+      rejectUnsafeRequest(createRequest({ 'Sec-Fetch-Site': 'cross-site', 'Content-Type': 'application/json' }))
+        ?.status,
+    ).toBe(403);
+  });
+
+  it('should reject requests that are not JSON', () => {
+    expect(rejectUnsafeRequest(createRequest({ 'Content-Type': 'text/plain' }))?.status).toBe(415);
+    expect(rejectUnsafeRequest(createRequest({}))?.status).toBe(415);
+  });
+});
+
+describe('rejectStdioConfig', () => {
+  const disabled = { MCP_ALLOW_STDIO: 'false' } as unknown as Env;
+  const enabled = { MCP_ALLOW_STDIO: 'true' } as unknown as Env;
+
+  it('should detect configurations that start a process', () => {
+    expect(isStdioConfig({ transport: 'stdio' })).toBe(true);
+    expect(isStdioConfig({ args: ['--verbose'] })).toBe(true);
+    expect(isStdioConfig({ transport: 'sse', headers: {} })).toBe(false);
+    expect(isStdioConfig(undefined)).toBe(false);
+  });
+
+  it('should reject stdio configurations while stdio servers are disabled', () => {
+    expect(rejectStdioConfig({ command: 'npx' }, disabled)?.status).toBe(403);
+    expect(rejectStdioConfig({ command: 'npx' }, enabled)).toBeNull();
+    expect(rejectStdioConfig({ transport: 'sse' }, disabled)).toBeNull();
+  });
+});
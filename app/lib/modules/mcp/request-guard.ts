@@ -0,0 +1,76 @@
+/**
+ * MCP Request Guard Module
+ * Checks requests that change the MCP servers, since adding a server can start a process on the host
+ */
+
+import { json } from '@remix-run/cloudflare';
+import type { MCPServerConfig } from './config';
+import { isStdioAllowed } from './adapters/stdio-adapter';
+
+/**
+ * Whether a server configuration spawns a process or changes the process of a stdio server
+ * @param config Server configuration
+ */
+export function isStdioConfig(config: Partial<MCPServerConfig> | undefined): boolean {
+  return (
+    config?.transport === 'stdio' ||
+    config?.command !== undefined ||
+    config?.args !== undefined ||
+    config?.env !== undefined ||
+    config?.cwd !== undefined
+  );
+}
+
+/**
+ * Reject a request that changes MCP servers unless it is JSON sent by bolt itself
+ * Browsers send cross-site form and text/plain posts without asking first, so both the content type and the
+ * origin are checked
+ * @param request Request to check
+ * @returns Error response, or null when the request may go on
+ */
+export function rejectUnsafeRequest(request: Request): Response | null {
+  const origin = request.headers.get('Origin');
+  const host = request.headers.get('Host') || new URL(request.url).host;
+
+  if (origin ? getHost(origin) !== host : request.headers.get('Sec-Fetch-Site') === 'cross-site') {
+    return json({ error: 'Cross-origin requests are not allowed' }, { status: 403 });
+  }
+
+  const hasBody = request.method !== 'GET' && request.method !== 'HEAD' && request.method !== 'DELETE';
+  const contentType = request.headers.get('Content-Type')?.split(';')[0].trim().toLowerCase();
+
+  if (hasBody && contentType !== 'application/json') {
+    return json({ error: 'Content-Type must be application/json' }, { status: 415 });
+  }
+
+  return null;
+}
+
+/**
+ * Reject a server configuration that spawns a process while stdio servers are disabled
+ * @param config Server configuration
+ * @param env Environment of the request
+ * @returns Error response, or null when the configuration may be used
+ */
+export function rejectStdioConfig(config: Partial<MCPServerConfig> | undefined, env?: Env): Response | null {
+  if (isStdioConfig(config) && !isStdioAllowed(env)) {
+    return json(
+      { error: 'Stdio MCP servers are disabled; set MCP_ALLOW_STDIO=true on the server to allow them' },
+      { status: 403 },
+    );
+  }
+
+  return null;
+}
+
+/**
+ * Get the host of an origin
+ * @param origin Value of an Origin header
+ */
+function getHost(origin: string): string | null {
+  try {
+    return new URL(origin).host;
+  } catch {
+    return null;
+  }
+}
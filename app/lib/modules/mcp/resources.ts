@@ -0,0 +1,218 @@
+/**
+ * MCP Resources Module
+ * Helpers for listing, reading and attaching MCP resources as chat context
+ */
+
+import { createScopedLogger } from '~/utils/logger';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { MCPResource, MCPResourceContent, MCPResourceTemplate } from './config';
+import { MCPServerRegistry } from './registry';
+
+const logger = createScopedLogger('MCPResources');
+
+// Maximum number of characters of a single resource included in the prompt
+const MAX_RESOURCE_CONTEXT_LENGTH = 50000;
+
+/**
+ * Matches a resource attachment tag embedded in a user message
+ * The URI is enclosed in angle brackets, which cannot appear in a URI; tags written before had the bare URI
+ */
+export const MCP_RESOURCE_REGEX = /\[MCP Resource: (\S+) (?:<([^<>]*)>|(.*?))\]\n\n/g;
+
+/**
+ * Reference to a resource attached to a chat message
+ */
+export interface MCPResourceRef {
+  serverId: string;
+  uri: string;
+}
+
+/**
+ * Check whether the connected server advertises the resources capability
+ * @param client Connected MCP client
+ */
+function supportsResources(client: Client): boolean {
+  return !!client.getServerCapabilities()?.resources;
+}
+
+/**
+ * List all resources from a connected client, following pagination
+ * @param client Connected MCP client
+ */
+export async function listClientResources(client: Client): Promise<MCPResource[]> {
+  if (!supportsResources(client)) {
+    return [];
+  }
+
+  const resources: MCPResource[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const result = await client.listResources(cursor ? { cursor } : undefined);
+
+    for (const resource of result.resources) {
+      resources.push({
+        uri: resource.uri,
+        name: resource.name,
+        description: resource.description,
+        mimeType: resource.mimeType,
+      });
+    }
+
+    cursor = result.nextCursor;
+  } while (cursor);
+
+  return resources;
+}
+
+/**
+ * List all resource templates from a connected client, following pagination
+ * @param client Connected MCP client
+ */
+export async function listClientResourceTemplates(client: Client): Promise<MCPResourceTemplate[]> {
+  if (!supportsResources(client)) {
+    return [];
+  }
+
+  const templates: MCPResourceTemplate[] = [];
+  let cursor: string | undefined;
+
+  do {
+    const result = await client.listResourceTemplates(cursor ? { cursor } : undefined);
+
+    for (const template of result.resourceTemplates) {
+      templates.push({
+        uriTemplate: template.uriTemplate,
+        name: template.name,
+        description: template.description,
+        mimeType: template.mimeType,
+      });
+    }
+
+    cursor = result.nextCursor;
+  } while (cursor);
+
+  return templates;
+}
+
+/**
+ * Read a resource from a connected client
+ * @param client Connected MCP client
+ * @param uri URI of the resource to read
+ */
+export async function readClientResource(client: Client, uri: string): Promise<MCPResourceContent[]> {
+  const result = await client.readResource({ uri });
+
+  return result.contents.map((content) => ({
+    uri: content.uri,
+    mimeType: content.mimeType,
+    text: typeof content.text === 'string' ? content.text : undefined,
+    blob: typeof content.blob === 'string' ? content.blob : undefined,
+  }));
+}
+
+/**
+ * Expand a URI template with the given variables
+ * Supports simple `{name}` expressions, which covers the templates MCP servers publish in practice
+ * @param uriTemplate URI template
+ * @param variables Values for the template variables
+ */
+export function expandResourceTemplate(uriTemplate: string, variables: Record<string, string>): string {
+  return uriTemplate.replace(/\{([^}]+)\}/g, (_, name: string) => encodeURIComponent(variables[name.trim()] ?? ''));
+}
+
+/**
+ * Get the variable names used by a URI template
+ * @param uriTemplate URI template
+ */
+export function getResourceTemplateVariables(uriTemplate: string): string[] {
+  return Array.from(uriTemplate.matchAll(/\{([^}]+)\}/g), (match) => match[1].trim());
+}
+
+/**
+ * Create the tag that attaches a resource to a user message
+ * @param ref Resource reference
+ */
+export function createResourceTag(ref: MCPResourceRef): string {
+  return `[MCP Resource: ${ref.serverId} <${ref.uri}>]\n\n`;
+}
+
+/**
+ * Extract the resource references attached to a message
+ * @param text Message text
+ */
+export function extractResourceRefs(text: string): MCPResourceRef[] {
+  return Array.from(text.matchAll(MCP_RESOURCE_REGEX), (match) => ({
+    serverId: match[1],
+    uri: match[2] ?? match[3],
+  }));
+}
+
+/**
+ * Remove resource attachment tags from a message
+ * @param text Message text
+ */
+export function stripResourceTags(text: string): string {
+  return text.replace(MCP_RESOURCE_REGEX, '');
+}
+
+/**
+ * Format resource contents for the prompt
+ * @param ref Resource reference
+ * @param contents Resource contents
+ */
+function formatResourceContents(ref: MCPResourceRef, contents: MCPResourceContent[]): string {
+  return contents
+    .map((content) => {
+      let body: string;
+
+      if (content.text !== undefined) {
+        body =
+          content.text.length > MAX_RESOURCE_CONTEXT_LENGTH
+            ? `${content.text.slice(0, MAX_RESOURCE_CONTEXT_LENGTH)}\n... (truncated)`
+            : content.text;
+      } else {
+        body = `(binary content${content.mimeType ? ` of type ${content.mimeType}` : ''} omitted)`;
+      }
+
+      return `<mcpResource server="${ref.serverId}" uri="${content.uri}"${
+        content.mimeType ? ` mimeType="${content.mimeType}"` : ''
+      }>\n${body}\n</mcpResource>`;
+    })
+    .join('\n\n');
+}
+
+/**
+ * Read the referenced resources and format them as prompt context
+ * Resources that can no longer be read are reported inline instead of failing the request
+ * @param refs Resource references
+ */
+export async function createResourcesContext(refs: MCPResourceRef[]): Promise<string> {
+  const registry = MCPServerRegistry.getInstance();
+  const seen = new Set<string>();
+  const sections: string[] = [];
+
+  for (const ref of refs) {
+    const key = `${ref.serverId} ${ref.uri}`;
+
+    if (seen.has(key)) {
+      continue;
+    }
+
+    seen.add(key);
+
+    try {
+      const contents = await registry.readResource(ref.serverId, ref.uri);
+      sections.push(formatResourceContents(ref, contents));
+    } catch (error) {
+      logger.error(`Failed to read MCP resource ${ref.uri} from server ${ref.serverId}:`, error);
+      sections.push(
+        `<mcpResource server="${ref.serverId}" uri="${ref.uri}">\n(unavailable: ${
+          error instanceof Error ? error.message : String(error)
+        })\n</mcpResource>`,
+      );
+    }
+  }
+
+  return sections.join('\n\n');
+}
@@ -0,0 +1,126 @@
+/**
+ * MCP Roots Module
+ * Tells MCP servers which project folders they work on
+ * The browser reports the roots of the active chat; connected servers are notified when they change
+ */
+
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { ListRootsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import { createScopedLogger } from '~/utils/logger';
+import { WORK_DIR, WORK_DIR_NAME } from '~/utils/constants';
+
+const logger = createScopedLogger('MCPRoots');
+
+/**
+ * Folder a server may work on
+ */
+export interface MCPRoot {
+  /**
+   * `file://` URI of the folder
+   */
+  uri: string;
+  name?: string;
+}
+
+/**
+ * Get the root of a folder in the WebContainer
+ * @param path Absolute path of the folder
+ * @param name Name shown to servers
+ */
+export function createRoot(path: string, name?: string): MCPRoot {
+  return { uri: `file://${path}`, ...(name && { name }) };
+}
+
+// Reported until the browser sends the roots of the active chat
+const DEFAULT_ROOTS: MCPRoot[] = [createRoot(WORK_DIR, WORK_DIR_NAME)];
+
+/**
+ * Keeps the roots reported to MCP servers
+ */
+export class MCPRootsManager {
+  private static _instance: MCPRootsManager;
+  private _roots: MCPRoot[] = DEFAULT_ROOTS;
+  private _listeners: Array<(roots: MCPRoot[]) => void> = [];
+
+  private constructor() {
+    // Private constructor to enforce singleton pattern
+  }
+
+  /**
+   * Get the singleton instance of the roots manager
+   */
+  static getInstance(): MCPRootsManager {
+    if (!MCPRootsManager._instance) {
+      MCPRootsManager._instance = new MCPRootsManager();
+    }
+
+    return MCPRootsManager._instance;
+  }
+
+  /**
+   * Get the current roots
+   */
+  getRoots(): MCPRoot[] {
+    return this._roots;
+  }
+
+  /**
+   * Replace the roots, notifying the listeners if they changed
+   * @param roots New roots
+   * @throws Error when a root is not a `file://` URI
+   */
+  setRoots(roots: MCPRoot[]): void {
+    const invalidRoot = roots.find((root) => typeof root?.uri !== 'string' || !root.uri.startsWith('file://'));
+
+    if (invalidRoot) {
+      throw new Error(`Root URIs must start with file://, got ${JSON.stringify(invalidRoot?.uri)}`);
+    }
+
+    const nextRoots = roots.map(({ uri, name }) => ({ uri, ...(name && { name }) }));
+
+    if (JSON.stringify(nextRoots) === JSON.stringify(this._roots)) {
+      return;
+    }
+
+    this._roots = nextRoots;
+    logger.info(`Roots changed: ${nextRoots.map((root) => root.uri).join(', ') || 'none'}`);
+
+    this._listeners.forEach((listener) => {
+      try {
+        listener(nextRoots);
+      } catch (error) {
+        logger.error('Error in roots listener:', error);
+      }
+    });
+  }
+
+  /**
+   * Listen for changes of the roots
+   * @param listener Called with the new roots
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: (roots: MCPRoot[]) => void): () => void {
+    this._listeners.push(listener);
+
+    return () => {
+      this._listeners = this._listeners.filter((l) => l !== listener);
+    };
+  }
+}
+
+/**
+ * Answer `roots/list` requests of a server and send `roots/list_changed` when the roots change
+ * The client has to be created with the `roots` capability
+ * @param client MCP client
+ * @returns Function that stops the notifications
+ */
+export function registerRootsHandler(client: Client): () => void {
+  const rootsManager = MCPRootsManager.getInstance();
+
+  client.setRequestHandler(ListRootsRequestSchema, () => ({ roots: rootsManager.getRoots() }));
+
+  return rootsManager.subscribe(() => {
+    // Servers that are not connected ask for the roots when they connect
+    client.sendRootsListChanged().catch(() => undefined);
+  });
+}
@@ -4,13 +4,24 @@
  * and dynamic addition/removal of servers
  */
 
+import { generateId } from 'ai';
 import { createScopedLogger } from '~/utils/logger';
 import { MCPServerRegistry, MCPRegistryEventType } from './registry';
 import type { MCPRegistryEvent } from './registry';
 import { MCPToolFactory } from './tool-factory';
-import type { IMCPServerAdapter } from './config';
-import { createServerAdapter } from './adapters';
-import { saveMCPServersToStorage } from './storage';
+import type {
+  IMCPServerAdapter,
+  MCPAuthState,
+  MCPOpenAPIConfig,
+  MCPServerConfig,
+  MCPToolPolicies,
+  MCPTransportType,
+  MCPWorkflow,
+} from './config';
+import { createServerAdapter, getOpenAPIServerUrl, getStdioServerUrl } from './adapters';
+import { saveMCPServersToStorage, saveMCPWorkflowsToStorage, type StoredMCPServer } from './storage';
+import { MCPServerStoreConflictError, type MCPServerStore, type MCPServerStoreSnapshot } from './server-store';
+import { validateMCPWorkflow } from './workflows';
 
 const logger = createScopedLogger('MCPRuntimeManager');
 
@@ -27,9 +38,17 @@ export interface ServerStatus {
   enabled: boolean;
   connected: boolean;
   toolCount: number;
+  toolNames?: string[];
   lastChecked: Date;
   statusMessage?: string;
   errorMessage?: string;
+  transport?: MCPTransportType;
+  command?: string;
+  args?: string[];
+  cwd?: string;
+  toolPolicies?: MCPToolPolicies;
+  authState?: MCPAuthState;
+  openapi?: MCPOpenAPIConfig;
 }
 
 /**
@@ -40,6 +59,15 @@ export interface HealthCheckOptions {
   onStatusChange?: (status: ServerStatus) => void;
 }
 
+/**
+ * Get the ID a server is registered under
+ * @param name Server name
+ * @param config Server configuration
+ */
+export function getServerId(name: string, config: Partial<MCPServerConfig> = {}): string {
+  return config.auth?.type === 'github' ? 'github' : name.toLowerCase().replace(/[^a-z0-9]/g, '_');
+}
+
 /**
  * Manages runtime aspects of MCP servers
  */
@@ -51,6 +79,14 @@ export class MCPRuntimeManager {
   private _healthCheckIntervals: Record<string, number> = {};
   private _globalHealthCheckInterval: number | null = null;
   private _statusChangeCallbacks: Array<(status: ServerStatus) => void> = [];
+  private _serverStore: MCPServerStore | null = null;
+  private _serverStoreLoad: Promise<void> | null = null;
+
+  // Writes are chained so that quick successive changes land in order
+  private _serverStoreWrite: Promise<void> = Promise.resolve();
+
+  // Revision of the servers in the server-side store, incremented on every saved change
+  private _revision = 0;
 
   /**
    * Create a new runtime manager
@@ -64,6 +100,7 @@ export class MCPRuntimeManager {
     this._registry.subscribe(MCPRegistryEventType.SERVER_ADDED, this._handleServerAdded.bind(this));
     this._registry.subscribe(MCPRegistryEventType.SERVER_REMOVED, this._handleServerRemoved.bind(this));
     this._registry.subscribe(MCPRegistryEventType.SERVER_UPDATED, this._handleServerUpdated.bind(this));
+    this._registry.subscribe(MCPRegistryEventType.SERVER_STATUS_CHANGED, this._handleServerStatusChanged.bind(this));
   }
 
   /**
@@ -107,6 +144,8 @@ export class MCPRuntimeManager {
    * @param server Server adapter
    */
   private async _createServerStatus(server: IMCPServerAdapter): Promise<void> {
+    const config = server.getConfig();
+
     this._serverStatus[server.id] = {
       id: server.id,
       name: server.name,
@@ -115,6 +154,12 @@ export class MCPRuntimeManager {
       connected: false,
       toolCount: 0,
       lastChecked: new Date(),
+      transport: config.transport,
+      command: config.command,
+      args: config.args,
+      cwd: config.cwd,
+      toolPolicies: config.toolPolicies,
+      openapi: config.openapi,
     };
 
     // Check connection immediately
@@ -170,6 +215,26 @@ export class MCPRuntimeManager {
     }
   }
 
+  /**
+   * Handle server status changed event
+   * Adapters report connection loss (e.g. a stdio process exiting) through this event
+   * @param event Event data
+   */
+  private _handleServerStatusChanged(event: MCPRegistryEvent): void {
+    const status = this._serverStatus[event.serverId];
+
+    if (!status || event.data?.connected !== false) {
+      return;
+    }
+
+    status.connected = false;
+    status.lastChecked = new Date();
+    status.toolCount = 0;
+    status.statusMessage = event.data.reason ? `Disconnected: ${event.data.reason}` : 'Disconnected';
+
+    this._notifyStatusChange(status);
+  }
+
   /**
    * Start health checks for all servers
    * @param options Health check options
@@ -288,8 +353,14 @@ export class MCPRuntimeManager {
       status.lastChecked = new Date();
       status.statusMessage = connectionStatus.message;
       status.toolCount = tools.length;
+      status.toolNames = tools.map((tool) => tool.name);
+      status.authState = server.getAuthState?.();
       status.errorMessage = undefined;
 
+      if (connectionStatus.transport) {
+        status.transport = connectionStatus.transport;
+      }
+
       // Notify status change
       this._notifyStatusChange(status);
 
@@ -301,6 +372,7 @@ export class MCPRuntimeManager {
       status.lastChecked = new Date();
       status.errorMessage = error instanceof Error ? error.message : String(error);
       status.toolCount = 0;
+      status.authState = server.getAuthState?.();
 
       // Notify status change
       this._notifyStatusChange(status);
@@ -361,6 +433,26 @@ export class MCPRuntimeManager {
     return this._serverStatus[serverId];
   }
 
+  /**
+   * Get the configuration of all servers, including disabled ones
+   * @returns Name, URL, enabled state and configuration of each server
+   */
+  getServerConfigurations(): Array<{
+    id: string;
+    name: string;
+    baseUrl: string;
+    enabled: boolean;
+    config: MCPServerConfig;
+  }> {
+    return this._getStoredServers().map((server) => ({
+      id: server.id,
+      name: server.name,
+      baseUrl: server.baseUrl,
+      enabled: server.enabled,
+      config: server.getConfig(),
+    }));
+  }
+
   /**
    * Force a health check for a specific server
    * @param serverId Server ID
@@ -384,8 +476,18 @@ export class MCPRuntimeManager {
    * @returns The added server's ID
    */
   async addServer(name: string, baseUrl: string, config: any = {}): Promise<string> {
+    // Stdio servers have no URL, so describe them by their command line
+    if (!baseUrl && config.command) {
+      baseUrl = getStdioServerUrl(config.command, config.args);
+    }
+
+    // OpenAPI servers are described by their document
+    if (!baseUrl && config.openapi) {
+      baseUrl = getOpenAPIServerUrl(config.openapi);
+    }
+
     // Generate a unique ID (lowercase name)
-    const id = config.auth?.type === 'github' ? 'github' : name.toLowerCase().replace(/[^a-z0-9]/g, '_');
+    const id = getServerId(name, config);
 
     // Check if a server with this ID already exists
     if (this._registry.getServer(id)) {
@@ -403,6 +505,7 @@ export class MCPRuntimeManager {
 
     // Save to storage
     this._saveToStorage();
+    await this._saveToServerStore();
 
     // Return the ID
     return id;
@@ -412,7 +515,7 @@ export class MCPRuntimeManager {
    * Remove a server at runtime
    * @param serverId Server ID
    */
-  removeServer(serverId: string): void {
+  async removeServer(serverId: string): Promise<void> {
     const server = this._registry.getServer(serverId);
 
     if (!server) {
@@ -420,11 +523,71 @@ export class MCPRuntimeManager {
       return;
     }
 
+    // Stop any connection or process held by the adapter
+    server.dispose?.().catch((error) => {
+      logger.error(`Error disposing server ${serverId}:`, error);
+    });
+
     // Unregister the adapter
     this._registry.unregisterServer(serverId);
 
     // Save to storage
     this._saveToStorage();
+    await this._saveToServerStore();
+  }
+
+  /**
+   * Get the workflows chaining the tools of the servers
+   */
+  getWorkflows(): MCPWorkflow[] {
+    return this._registry.getAllWorkflows();
+  }
+
+  /**
+   * Add a workflow, or replace the workflow with the same ID
+   * @param workflow Workflow to save; an ID is generated when it has none
+   * @returns The saved workflow
+   * @throws Error when the workflow is invalid or its name is taken
+   */
+  async saveWorkflow(workflow: MCPWorkflow): Promise<MCPWorkflow> {
+    const saved: MCPWorkflow = {
+      ...workflow,
+      id: workflow.id || generateId(),
+      enabled: workflow.enabled ?? true,
+      inputs: workflow.inputs ?? [],
+    };
+    const problems = validateMCPWorkflow(saved);
+
+    if (this._registry.getAllWorkflows().some((other) => other.id !== saved.id && other.name === saved.name)) {
+      problems.push(`A workflow named ${saved.name} already exists`);
+    }
+
+    if (problems.length > 0) {
+      throw new Error(problems.join('; '));
+    }
+
+    this._registry.registerWorkflow(saved);
+
+    this._saveToStorage();
+    await this._saveToServerStore();
+
+    return saved;
+  }
+
+  /**
+   * Remove a workflow
+   * @param workflowId Workflow ID
+   */
+  async removeWorkflow(workflowId: string): Promise<void> {
+    if (!this._registry.getWorkflow(workflowId)) {
+      logger.warn(`Cannot remove unknown workflow: ${workflowId}`);
+      return;
+    }
+
+    this._registry.unregisterWorkflow(workflowId);
+
+    this._saveToStorage();
+    await this._saveToServerStore();
   }
 
   /**
@@ -443,6 +606,11 @@ export class MCPRuntimeManager {
     // Update enabled state
     server.enabled = enabled;
 
+    // Stop local processes and connections of disabled servers
+    if (!enabled) {
+      await server.dispose?.();
+    }
+
     // Update status
     if (this._serverStatus[serverId]) {
       this._serverStatus[serverId].enabled = enabled;
@@ -453,6 +621,7 @@ export class MCPRuntimeManager {
 
     // Save to storage
     this._saveToStorage();
+    await this._saveToServerStore();
 
     // Check health if enabled
     if (enabled) {
@@ -511,9 +680,14 @@ export class MCPRuntimeManager {
         this._serverStatus[serverId].name = updates.name;
       }
 
-      if (updates.baseUrl) {
-        this._serverStatus[serverId].baseUrl = updates.baseUrl;
-      }
+      // Stdio adapters derive their URL from the command line, so read it back from the adapter
+      const config = server.getConfig();
+      this._serverStatus[serverId].baseUrl = server.baseUrl;
+      this._serverStatus[serverId].command = config.command;
+      this._serverStatus[serverId].args = config.args;
+      this._serverStatus[serverId].cwd = config.cwd;
+      this._serverStatus[serverId].toolPolicies = config.toolPolicies;
+      this._serverStatus[serverId].openapi = config.openapi;
     }
 
     // Trigger server updated event
@@ -521,6 +695,7 @@ export class MCPRuntimeManager {
 
     // Save to storage
     this._saveToStorage();
+    await this._saveToServerStore();
 
     // Check health after update
     await this._checkServerHealth(serverId);
@@ -594,26 +769,223 @@ export class MCPRuntimeManager {
   }
 
   /**
-   * Save current server configuration to storage
+   * Get the servers the user added; built-in servers are registered on every start
    */
-  private _saveToStorage(): void {
-    try {
-      // Convert servers to storage format
-      const servers = this._registry.getAllServers().map((server) => ({
+  private _getStoredServers(): IMCPServerAdapter[] {
+    return this._registry.getAllServers().filter((server) => !server.builtIn);
+  }
+
+  /**
+   * Convert the servers the user added and the settings of the built-in servers to their storage format
+   */
+  private _toStoredServers(): StoredMCPServer[] {
+    return this._registry.getAllServers().map((server): StoredMCPServer => {
+      const config = server.getConfig();
+
+      if (server.builtIn) {
+        return {
+          name: server.name,
+          baseUrl: server.baseUrl,
+          enabled: server.enabled,
+          toolPolicies: config.toolPolicies,
+          builtIn: true,
+        };
+      }
+
+      return {
         name: server.name,
         baseUrl: server.baseUrl,
         enabled: server.enabled,
-        auth: server.getConfig().auth,
-      }));
+        auth: config.auth,
+        headers: config.headers,
+        transport: config.transport,
+        command: config.command,
+        args: config.args,
+        env: config.env,
+        cwd: config.cwd,
+        toolPolicies: config.toolPolicies,
+        openapi: config.openapi,
+        cassette: config.cassette,
+      };
+    });
+  }
 
+  /**
+   * Save current server configuration to storage
+   */
+  private _saveToStorage(): void {
+    try {
       // Save to storage
-      saveMCPServersToStorage(servers);
+      saveMCPServersToStorage(this._toStoredServers());
+      saveMCPWorkflowsToStorage(this._registry.getAllWorkflows());
       logger.debug('Saved server configuration to storage');
     } catch (error) {
       logger.error('Error saving server configuration to storage:', error);
     }
   }
 
+  /**
+   * Load the servers saved in a server-side store and save every later change to it
+   * Only the first store is used; later calls wait for it to be loaded
+   * @param store Store to use; nothing is loaded when null
+   */
+  loadServerStore(store: MCPServerStore | null): Promise<void> {
+    if (!store) {
+      return this._serverStoreLoad ?? Promise.resolve();
+    }
+
+    if (!this._serverStoreLoad) {
+      this._serverStoreLoad = this._loadFromServerStore(store);
+    }
+
+    return this._serverStoreLoad;
+  }
+
+  /**
+   * Register the servers saved in a server-side store
+   * Servers registered before the store was loaded are kept
+   * @param store Store to load from
+   */
+  private async _loadFromServerStore(store: MCPServerStore): Promise<void> {
+    try {
+      const snapshot = await store.load();
+
+      this._serverStore = store;
+      this._revision = snapshot?.revision ?? 0;
+
+      await this._registerStoredServers(snapshot?.servers ?? []);
+
+      for (const workflow of snapshot?.workflows ?? []) {
+        if (!this._registry.getWorkflow(workflow.id)) {
+          this._registry.registerWorkflow(workflow);
+        }
+      }
+
+      logger.info(
+        `Loaded ${snapshot?.servers.length ?? 0} MCP servers from ${store.location} (revision ${this._revision})`,
+      );
+    } catch (error) {
+      // Servers are kept in memory only, as before the store existed
+      logger.error(`MCP server store at ${store.location} is unavailable; changes will not be saved:`, error);
+    }
+  }
+
+  /**
+   * Register stored servers that are not registered yet
+   * @param servers Stored server configurations
+   */
+  private async _registerStoredServers(servers: StoredMCPServer[]): Promise<void> {
+    for (const server of servers) {
+      const id = getServerId(server.name, server);
+
+      // Built-in servers are registered where they run, with their stored settings
+      if (server.builtIn || this._registry.getServer(id)) {
+        continue;
+      }
+
+      const { name, baseUrl, enabled, ...config } = server;
+      const adapter = createServerAdapter(id, name, baseUrl, enabled, config);
+
+      this._registry.registerServer(adapter);
+
+      if (enabled) {
+        await adapter.initialize().catch((error) => {
+          logger.error(`Failed to initialize stored server ${name}:`, error);
+        });
+      }
+    }
+  }
+
+  /**
+   * Replace the servers the user added and the workflows with the ones saved in the server-side store
+   * @param snapshot Saved servers
+   */
+  private async _applySnapshot(snapshot: MCPServerStoreSnapshot): Promise<void> {
+    for (const server of this._getStoredServers()) {
+      await server.dispose?.().catch((error) => {
+        logger.error(`Error disposing server ${server.id}:`, error);
+      });
+      this._registry.unregisterServer(server.id);
+    }
+
+    for (const workflow of this._registry.getAllWorkflows()) {
+      this._registry.unregisterWorkflow(workflow.id);
+    }
+
+    this._revision = snapshot.revision;
+    await this._registerStoredServers(snapshot.servers);
+    snapshot.workflows.forEach((workflow) => this._registry.registerWorkflow(workflow));
+    this._saveToStorage();
+  }
+
+  /**
+   * Save the servers the user added to the server-side store
+   */
+  private _saveToServerStore(): Promise<void> {
+    const store = this._serverStore;
+
+    if (!store) {
+      return Promise.resolve();
+    }
+
+    this._serverStoreWrite = this._serverStoreWrite.then(async () => {
+      const snapshot: MCPServerStoreSnapshot = {
+        revision: this._revision + 1,
+        updatedAt: new Date().toISOString(),
+        servers: this._toStoredServers(),
+        workflows: this._registry.getAllWorkflows(),
+      };
+
+      try {
+        await store.save(snapshot);
+        this._revision = snapshot.revision;
+        logger.debug(`Saved server configuration to ${store.location} (revision ${snapshot.revision})`);
+      } catch (error) {
+        logger.error(`Error saving server configuration to ${store.location}:`, error);
+      }
+    });
+
+    return this._serverStoreWrite;
+  }
+
+  /**
+   * Get the revision of the servers in the server-side store
+   * Clients send it back with their changes so changes based on outdated servers are refused
+   */
+  getRevision(): number {
+    return this._revision;
+  }
+
+  /**
+   * Check that the servers have not changed since the caller read them
+   * The store is read again, so changes saved by other processes are noticed and loaded as well
+   * @param revision Revision the caller read; nothing is checked when omitted
+   * @throws MCPServerStoreConflictError when the servers have changed
+   */
+  async checkRevision(revision?: number): Promise<void> {
+    const store = this._serverStore;
+
+    if (store) {
+      // Wait for pending writes so the revision read back is our latest one
+      await this._serverStoreWrite;
+
+      try {
+        const snapshot = await store.load();
+
+        if (snapshot && snapshot.revision !== this._revision) {
+          logger.info(`MCP servers at ${store.location} changed elsewhere; loading revision ${snapshot.revision}`);
+          await this._applySnapshot(snapshot);
+        }
+      } catch (error) {
+        logger.error(`Error reading server configuration from ${store.location}:`, error);
+      }
+    }
+
+    if (revision !== undefined && revision !== this._revision) {
+      throw new MCPServerStoreConflictError(this._revision, revision);
+    }
+  }
+
   /**
    * Auto-discover and add MCP servers
    * @returns Number of discovered and added servers
@@ -0,0 +1,382 @@
+/**
+ * MCP Sampling Module
+ * Answers `sampling/createMessage` requests of MCP servers with the model of the chat whose tool call triggered them
+ * Every request waits for the user's approval, which can lower the token limit
+ * Requests and their usage are only sent to the chat response that made the tool call
+ */
+
+import { generateId, generateText, type CoreMessage } from 'ai';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import {
+  CreateMessageRequestSchema,
+  ErrorCode,
+  McpError,
+  type CreateMessageRequest,
+  type CreateMessageResult,
+} from '@modelcontextprotocol/sdk/types.js';
+import { createScopedLogger } from '~/utils/logger';
+import { LLMManager } from '~/lib/modules/llm/manager';
+import type { IProviderSetting } from '~/types/model';
+
+const logger = createScopedLogger('MCPSampling');
+
+// Most tokens a server may generate with one request
+export const MAX_SAMPLING_TOKENS = 4096;
+
+// Time to wait for a decision before the request is rejected (5 minutes)
+const APPROVAL_TIMEOUT = 5 * 60 * 1000;
+
+// Error code the specification uses when the user rejects a sampling request
+const USER_REJECTED_ERROR_CODE = -1;
+
+/**
+ * Chat response whose tool calls may trigger sampling requests, answered with the chat's model
+ */
+export interface MCPSamplingContext {
+  /**
+   * Secret of the chat response, which the user's decisions have to be sent with
+   */
+  scope: string;
+  provider: string;
+  model: string;
+  env?: Env;
+  apiKeys?: Record<string, string>;
+  providerSettings?: Record<string, IProviderSetting>;
+
+  /**
+   * Called with a sampling request that needs the user's approval
+   * @param request Sampling request
+   */
+  notify: (request: MCPSamplingRequest) => void;
+
+  /**
+   * Called with the tokens used to answer a sampling request
+   * @param usage Tokens used
+   */
+  onUsage?: (usage: MCPSamplingUsage) => void;
+}
+
+/**
+ * Sampling request waiting for the user's approval
+ */
+export interface MCPSamplingRequest {
+  id: string;
+  serverId: string;
+  serverName: string;
+  provider: string;
+  model: string;
+  systemPrompt?: string;
+  messages: Array<{ role: 'user' | 'assistant'; text: string }>;
+
+  /**
+   * Tokens the server asked for, capped at MAX_SAMPLING_TOKENS
+   */
+  maxTokens: number;
+  createdAt: number;
+}
+
+/**
+ * The user's decision on a sampling request
+ */
+export interface MCPSamplingDecision {
+  approved: boolean;
+
+  /**
+   * Token limit set by the user; only lowers the requested limit
+   */
+  maxTokens?: number;
+  reason?: string;
+}
+
+/**
+ * Tokens used to answer a sampling request
+ */
+export interface MCPSamplingUsage {
+  serverId: string;
+  serverName: string;
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+interface PendingSamplingRequest {
+  request: MCPSamplingRequest;
+  scope: string;
+  resolve: (decision: MCPSamplingDecision) => void;
+  timeoutId: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Describe the content of a sampling message for the approval prompt
+ * @param content Content of a sampling message
+ */
+function getSamplingContentText(content: CreateMessageRequest['params']['messages'][number]['content']): string {
+  return content.type === 'text' ? content.text : `(${content.type} content)`;
+}
+
+/**
+ * Convert sampling messages to model messages
+ * @param messages Messages of a sampling request
+ */
+function toModelMessages(messages: CreateMessageRequest['params']['messages']): CoreMessage[] {
+  return messages.map(({ role, content }): CoreMessage => {
+    if (content.type === 'image' && role === 'user') {
+      return { role, content: [{ type: 'image', image: content.data, mimeType: content.mimeType }] };
+    }
+
+    return { role, content: content.type === 'text' ? content.text : `(${content.type} content omitted)` };
+  });
+}
+
+/**
+ * Answers sampling requests while a tool call of a chat response runs
+ */
+export class MCPSamplingManager {
+  private static _instance: MCPSamplingManager;
+
+  // Chat responses with a running tool call, by the ID of the server the call was made to
+  private _contexts: Map<string, MCPSamplingContext[]> = new Map();
+  private _pending: Map<string, PendingSamplingRequest> = new Map();
+
+  private constructor() {
+    // Private constructor to enforce singleton pattern
+  }
+
+  /**
+   * Get the singleton instance of the sampling manager
+   */
+  static getInstance(): MCPSamplingManager {
+    if (!MCPSamplingManager._instance) {
+      MCPSamplingManager._instance = new MCPSamplingManager();
+    }
+
+    return MCPSamplingManager._instance;
+  }
+
+  /**
+   * Answer the sampling requests of a server with the model of a chat while a tool call made to it runs
+   * @param serverId ID of the server the tool call is made to
+   * @param context Chat response that made the tool call
+   * @returns Function to call when the tool call ends
+   */
+  setContext(serverId: string, context: MCPSamplingContext): () => void {
+    this._contexts.set(serverId, [...(this._contexts.get(serverId) ?? []), context]);
+
+    return () => {
+      const contexts = (this._contexts.get(serverId) ?? []).filter((c) => c !== context);
+
+      if (contexts.length > 0) {
+        this._contexts.set(serverId, contexts);
+      } else {
+        this._contexts.delete(serverId);
+      }
+    };
+  }
+
+  /**
+   * Answer a sampling request of a server
+   * @param server Server that sent the request
+   * @param params Parameters of the request
+   * @param signal Signal that cancels the request
+   * @throws McpError when no single chat is calling a tool of the server or the user rejects the request
+   */
+  async createMessage(
+    server: { id: string; name: string },
+    params: CreateMessageRequest['params'],
+    signal?: AbortSignal,
+  ): Promise<CreateMessageResult> {
+    const context = this._getContext(server.id);
+
+    const decision = await this._requestApproval(
+      context,
+      {
+        serverId: server.id,
+        serverName: server.name,
+        provider: context.provider,
+        model: context.model,
+        systemPrompt: params.systemPrompt,
+        messages: params.messages.map(({ role, content }) => ({ role, text: getSamplingContentText(content) })),
+        maxTokens: Math.min(params.maxTokens, MAX_SAMPLING_TOKENS),
+      },
+      signal,
+    );
+
+    if (!decision.approved) {
+      throw new McpError(USER_REJECTED_ERROR_CODE, `Sampling request was rejected: ${decision.reason}`);
+    }
+
+    const provider = LLMManager.getInstance().getProvider(context.provider);
+
+    if (!provider) {
+      throw new McpError(ErrorCode.InternalError, `Provider ${context.provider} is not available`);
+    }
+
+    const maxTokens = Math.min(decision.maxTokens ?? params.maxTokens, params.maxTokens, MAX_SAMPLING_TOKENS);
+
+    logger.info(`Sampling ${maxTokens} tokens with ${context.model} for ${server.name}`);
+
+    const result = await generateText({
+      model: provider.getModelInstance({
+        model: context.model,
+        serverEnv: context.env,
+        apiKeys: context.apiKeys,
+        providerSettings: context.providerSettings,
+      }),
+      system: params.systemPrompt,
+      messages: toModelMessages(params.messages),
+      maxTokens,
+      temperature: params.temperature,
+      stopSequences: params.stopSequences,
+      abortSignal: signal,
+    });
+
+    try {
+      context.onUsage?.({
+        serverId: server.id,
+        serverName: server.name,
+        provider: context.provider,
+        model: context.model,
+        promptTokens: result.usage.promptTokens,
+        completionTokens: result.usage.completionTokens,
+        totalTokens: result.usage.totalTokens,
+      });
+    } catch (error) {
+      logger.error('Error reporting sampling usage:', error);
+    }
+
+    return {
+      role: 'assistant',
+      content: { type: 'text', text: result.text },
+      model: context.model,
+      stopReason: result.finishReason === 'length' ? 'maxTokens' : 'endTurn',
+    };
+  }
+
+  /**
+   * Record the user's decision for a pending sampling request
+   * @param id ID of the sampling request
+   * @param scope Secret of the chat response the request was sent to
+   * @param approved Whether the request may be answered
+   * @param maxTokens Token limit set by the user
+   * @returns False if the request is no longer pending or belongs to another chat response
+   */
+  resolveRequest(id: string, scope: string, approved: boolean, maxTokens?: number): boolean {
+    if (this._pending.get(id)?.scope !== scope) {
+      return false;
+    }
+
+    return this._settle(
+      id,
+      approved ? { approved: true, maxTokens } : { approved: false, reason: 'the user denied it' },
+    );
+  }
+
+  /**
+   * Get the sampling requests of a chat response waiting for a decision
+   * @param scope Secret of the chat response
+   */
+  getPendingRequests(scope: string): MCPSamplingRequest[] {
+    return Array.from(this._pending.values())
+      .filter((pending) => pending.scope === scope)
+      .map((pending) => pending.request);
+  }
+
+  /**
+   * Get the chat response whose tool call made to a server triggered a sampling request
+   * @param serverId ID of the server that sent the request
+   * @throws McpError when no chat, or chats of several responses, are calling tools of the server
+   */
+  private _getContext(serverId: string): MCPSamplingContext {
+    const contexts = this._contexts.get(serverId) ?? [];
+
+    if (contexts.length === 0) {
+      throw new McpError(ErrorCode.InvalidRequest, 'Sampling is only available while a tool call of a chat runs');
+    }
+
+    if (contexts.some((context) => context.scope !== contexts[0].scope)) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        'Sampling is not available while several chats are calling tools of this server',
+      );
+    }
+
+    return contexts[0];
+  }
+
+  /**
+   * Ask the user of a chat response to approve a sampling request
+   * The request is rejected on timeout or when the signal aborts
+   * @param context Chat response that made the tool call
+   * @param request Sampling request to approve
+   * @param signal Signal that cancels the request
+   */
+  private _requestApproval(
+    context: MCPSamplingContext,
+    request: Omit<MCPSamplingRequest, 'id' | 'createdAt'>,
+    signal?: AbortSignal,
+  ): Promise<MCPSamplingDecision> {
+    if (signal?.aborted) {
+      return Promise.resolve({ approved: false, reason: 'the request was cancelled' });
+    }
+
+    const samplingRequest: MCPSamplingRequest = { ...request, id: generateId(), createdAt: Date.now() };
+
+    return new Promise((resolve) => {
+      const timeoutId = setTimeout(() => {
+        this._settle(samplingRequest.id, { approved: false, reason: 'the approval request timed out' });
+      }, APPROVAL_TIMEOUT);
+
+      this._pending.set(samplingRequest.id, { request: samplingRequest, scope: context.scope, resolve, timeoutId });
+
+      signal?.addEventListener('abort', () => {
+        this._settle(samplingRequest.id, { approved: false, reason: 'the request was cancelled' });
+      });
+
+      logger.info(`Waiting for approval of a sampling request from ${request.serverName}`);
+
+      try {
+        context.notify(samplingRequest);
+      } catch (error) {
+        logger.error('Error sending sampling request:', error);
+        this._settle(samplingRequest.id, { approved: false, reason: 'no user is available to approve it' });
+      }
+    });
+  }
+
+  /**
+   * Resolve a pending request and forget it
+   * @param id ID of the sampling request
+   * @param decision Outcome of the request
+   */
+  private _settle(id: string, decision: MCPSamplingDecision): boolean {
+    const pending = this._pending.get(id);
+
+    if (!pending) {
+      return false;
+    }
+
+    clearTimeout(pending.timeoutId);
+    this._pending.delete(id);
+
+    logger.info(
+      `Sampling request from ${pending.request.serverName} ${decision.approved ? 'approved' : `rejected: ${decision.reason}`}`,
+    );
+    pending.resolve(decision);
+
+    return true;
+  }
+}
+
+/**
+ * Answer the sampling requests a server sends over a client
+ * The client has to be created with the `sampling` capability
+ * @param client MCP client
+ * @param server Server the client is connected to
+ */
+export function registerSamplingHandler(client: Client, server: { id: string; name: string }): void {
+  client.setRequestHandler(CreateMessageRequestSchema, (request, extra) =>
+    MCPSamplingManager.getInstance().createMessage(server, request.params, extra.signal),
+  );
+}
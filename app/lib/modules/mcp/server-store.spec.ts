@@ -0,0 +1,148 @@
+import { mkdtemp, rm, stat } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, describe, expect, it } from 'vitest';
+import { decrypt, generateKey } from '~/lib/crypto';
+import type { StoredMCPServer } from './storage';
+import {
+  CredentialSealingServerStore,
+  getRequestRevision,
+  JsonFileServerStore,
+  type MCPServerStore,
+  type MCPServerStoreSnapshot,
+} from './server-store';
+
+// Store keeping the last saved snapshot in memory
+class MemoryServerStore implements MCPServerStore {
+  readonly location = 'memory';
+  snapshot: MCPServerStoreSnapshot | null = null;
+
+  async load() {
+    return this.snapshot;
+  }
+
+  async save(snapshot: MCPServerStoreSnapshot) {
+    this.snapshot = JSON.parse(JSON.stringify(snapshot));
+  }
+}
+
+const servers: StoredMCPServer[] = [
+  {
+    name: 'GitHub Enterprise',
+    baseUrl: 'https://github.example.com/mcp',
+    enabled: true,
+    auth: { type: 'github', token: 'ghp-secret' },
+  },
+  {
+    name: 'Local Files',
+    baseUrl: 'stdio://npx',
+    enabled: true,
+    transport: 'stdio',
+    command: 'npx',
+    args: ['-y', 'files-server'],
+    env: { API_TOKEN: 'env-secret' },
+  },
+  {
+    name: 'Docs',
+    baseUrl: 'https://docs.example.com/mcp',
+    enabled: false,
+    headers: { 'X-Api-Key': 'header-secret' },
+  },
+];
+
+function createSnapshot(revision = 1): MCPServerStoreSnapshot {
+  return { revision, updatedAt: new Date(0).toISOString(), servers, workflows: [] };
+}
+
+describe('CredentialSealingServerStore', () => {
+  it('should save the secrets encrypted and by server ID', async () => {
+    const key = generateKey();
+    const inner = new MemoryServerStore();
+
+    await new CredentialSealingServerStore(inner, key).save(createSnapshot());
+
+    const saved = JSON.stringify(inner.snapshot);
+
+    expect(saved).not.toContain('ghp-secret');
+    expect(saved).not.toContain('env-secret');
+    expect(saved).not.toContain('header-secret');
+    expect(inner.snapshot?.servers[0].auth).toEqual({ type: 'github' });
+
+    const credentials = JSON.parse(await decrypt(key, inner.snapshot!.credentials!));
+
+    expect(Object.keys(credentials).sort()).toEqual(['docs', 'github', 'local_files']);
+  });
+
+  it('should restore the secrets when loading', async () => {
+    const key = generateKey();
+    const inner = new MemoryServerStore();
+
+    await new CredentialSealingServerStore(inner, key).save(createSnapshot());
+
+    const loaded = await new CredentialSealingServerStore(inner, key).load();
+
+    expect(loaded?.credentials).toBeUndefined();
+    expect(loaded?.servers).toEqual([servers[0], { ...servers[1], auth: {} }, { ...servers[2], auth: {} }]);
+  });
+
+  it('should not save the secrets without a key', async () => {
+    const inner = new MemoryServerStore();
+
+    await new CredentialSealingServerStore(inner).save(createSnapshot());
+
+    expect(inner.snapshot?.credentials).toBeUndefined();
+    expect(JSON.stringify(inner.snapshot)).not.toContain('secret');
+    expect(inner.snapshot?.servers.map((server) => server.name)).toEqual(['GitHub Enterprise', 'Local Files', 'Docs']);
+  });
+
+  it('should load the servers without their secrets when the key is missing', async () => {
+    const inner = new MemoryServerStore();
+
+    await new CredentialSealingServerStore(inner, generateKey()).save(createSnapshot());
+
+    const loaded = await new CredentialSealingServerStore(inner).load();
+
+    expect(loaded?.credentials).toBeUndefined();
+    expect(loaded?.servers[1].command).toBe('npx');
+    expect(loaded?.servers[1].env).toBeUndefined();
+  });
+});
+
+describe('JsonFileServerStore', () => {
+  let directory: string | undefined;
+
+  afterEach(async () => {
+    if (directory) {
+      await rm(directory, { recursive: true, force: true });
+      directory = undefined;
+    }
+  });
+
+  it('should save the servers to a file only the owner can read', async () => {
+    directory = await mkdtemp(join(tmpdir(), 'mcp-server-store-'));
+
+    const store = new JsonFileServerStore(join(directory, 'nested', 'servers.json'));
+
+    await expect(store.load()).resolves.toBeNull();
+
+    await store.save(createSnapshot(3));
+
+    await expect(store.load()).resolves.toMatchObject({ revision: 3, servers });
+
+    if (process.platform !== 'win32') {
+      expect((await stat(store.location)).mode & 0o777).toBe(0o600);
+    }
+  });
+});
+
+describe('getRequestRevision', () => {
+  it('should read the revision from the If-Match header', () => {
+    const createRequest = (ifMatch?: string) =>
+      new Request('http://localhost:5173/api/mcp-servers', { headers: ifMatch ? { 'If-Match': ifMatch } : {} });
+
+    expect(getRequestRevision(createRequest('"4"'))).toBe(4);
+    expect(getRequestRevision(createRequest('W/"5"'))).toBe(5);
+    expect(getRequestRevision(createRequest('*'))).toBeUndefined();
+    expect(getRequestRevision(createRequest())).toBeUndefined();
+  });
+});
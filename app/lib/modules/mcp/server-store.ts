@@ -0,0 +1,307 @@
+/**
+ * MCP Server Store Module
+ * Persists the servers managed through the server runtime, so they survive restarts and redeploys
+ * Servers are kept in a JSON file when running on Node and in a KV namespace on Cloudflare
+ * Tokens, OAuth credentials, headers and environment variables are only saved encrypted with
+ * MCP_SERVER_STORE_KEY, and are not saved at all without it
+ */
+
+import { createScopedLogger } from '~/utils/logger';
+import { decrypt, encrypt } from '~/lib/crypto';
+import type { MCPWorkflow } from './config';
+import type { StoredMCPServer } from './storage';
+import { getServerEnvironmentVariable, isCloudflareWorker } from './env';
+import { getServerId } from './runtime-manager';
+
+const logger = createScopedLogger('MCPServerStore');
+
+// File the servers are saved to on Node when MCP_SERVER_STORE_PATH is not set
+export const DEFAULT_SERVER_STORE_PATH = '.bolt/mcp-servers.json';
+
+// Key the servers are saved under in the KV namespace
+const KV_KEY = 'mcp_servers';
+
+/**
+ * Saved state of the servers
+ */
+export interface MCPServerStoreSnapshot {
+  /**
+   * Incremented on every change, so writers can tell whether the servers changed since they read them
+   */
+  revision: number;
+  updatedAt: string;
+  servers: StoredMCPServer[];
+
+  /**
+   * Workflows chaining the tools of the servers
+   */
+  workflows: MCPWorkflow[];
+
+  /**
+   * Secrets of the servers by server ID, encrypted; only present in the saved form of the snapshot
+   */
+  credentials?: string;
+}
+
+/**
+ * Secret part of a saved server's configuration
+ */
+type StoredServerCredentials = Pick<NonNullable<StoredMCPServer['auth']>, 'token' | 'oauth'> &
+  Pick<StoredMCPServer, 'headers' | 'env'>;
+
+/**
+ * Storage the runtime manager loads its servers from and saves every change to
+ */
+export interface MCPServerStore {
+  /**
+   * Where the servers are kept, for logging
+   */
+  readonly location: string;
+  load(): Promise<MCPServerStoreSnapshot | null>;
+  save(snapshot: MCPServerStoreSnapshot): Promise<void>;
+}
+
+/**
+ * Thrown when a change is based on servers that were changed since they were read
+ */
+export class MCPServerStoreConflictError extends Error {
+  readonly revision: number;
+
+  constructor(revision: number, expectedRevision: number) {
+    super(
+      `The MCP servers were changed elsewhere (revision ${revision}, expected ${expectedRevision}); reload them and try again`,
+    );
+    this.name = 'MCPServerStoreConflictError';
+    this.revision = revision;
+  }
+}
+
+/**
+ * Read the revision a client based its change on from the If-Match header of its request
+ * @param request Request changing the servers
+ * @returns The revision, or undefined when the client did not send one
+ */
+export function getRequestRevision(request: Request): number | undefined {
+  const value = request.headers.get('If-Match')?.replace(/^W\//, '').replace(/"/g, '').trim();
+  const revision = value ? Number(value) : NaN;
+
+  return Number.isInteger(revision) ? revision : undefined;
+}
+
+/**
+ * Parse saved servers
+ * @param text Saved JSON
+ * @param location Where the servers were read from
+ */
+function parseSnapshot(text: string, location: string): MCPServerStoreSnapshot {
+  const snapshot = JSON.parse(text) as Partial<MCPServerStoreSnapshot>;
+
+  if (typeof snapshot?.revision !== 'number' || !Array.isArray(snapshot.servers)) {
+    throw new Error(`Invalid MCP server store at ${location}`);
+  }
+
+  return {
+    revision: snapshot.revision,
+    updatedAt: snapshot.updatedAt ?? new Date(0).toISOString(),
+    servers: snapshot.servers,
+    workflows: Array.isArray(snapshot.workflows) ? snapshot.workflows : [],
+    credentials: typeof snapshot.credentials === 'string' ? snapshot.credentials : undefined,
+  };
+}
+
+/**
+ * Split the secrets out of a server's configuration
+ * @param server Server configuration
+ * @returns The configuration without secrets and the secrets, if it has any
+ */
+function splitServerCredentials(server: StoredMCPServer): {
+  server: StoredMCPServer;
+  credentials?: StoredServerCredentials;
+} {
+  if (!server.auth?.token && !server.auth?.oauth && !server.headers && !server.env) {
+    return { server };
+  }
+
+  const { headers, env, ...rest } = server;
+  const { token, oauth, ...auth } = server.auth ?? {};
+
+  return { server: { ...rest, auth }, credentials: { token, oauth, headers, env } };
+}
+
+/**
+ * Stores the servers in a JSON file
+ * Only works where the file system is available, i.e. on Node
+ */
+export class JsonFileServerStore implements MCPServerStore {
+  readonly location: string;
+
+  constructor(path: string) {
+    this.location = path;
+  }
+
+  async load(): Promise<MCPServerStoreSnapshot | null> {
+    // Loaded lazily so the browser bundle never pulls in the file system
+    const { readFile } = await import('node:fs/promises');
+
+    try {
+      return parseSnapshot(await readFile(this.location, 'utf8'), this.location);
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ENOENT') {
+        return null;
+      }
+
+      throw error;
+    }
+  }
+
+  async save(snapshot: MCPServerStoreSnapshot): Promise<void> {
+    const { mkdir, rename, writeFile } = await import('node:fs/promises');
+    const { dirname } = await import('node:path');
+
+    await mkdir(dirname(this.location), { recursive: true });
+
+    // Written next to the file and renamed over it, so a crash never leaves half a file behind
+    const temporaryPath = `${this.location}.tmp`;
+
+    // The file may hold encrypted server credentials, so only the owner may read it
+    await writeFile(temporaryPath, JSON.stringify(snapshot, null, 2), { mode: 0o600 });
+    await rename(temporaryPath, this.location);
+  }
+}
+
+/**
+ * Stores the servers in a Cloudflare KV namespace
+ */
+export class KVServerStore implements MCPServerStore {
+  readonly location: string;
+  private _namespace: KVNamespace;
+  private _key: string;
+
+  constructor(namespace: KVNamespace, key: string = KV_KEY) {
+    this._namespace = namespace;
+    this._key = key;
+    this.location = `KV key ${key}`;
+  }
+
+  async load(): Promise<MCPServerStoreSnapshot | null> {
+    const text = await this._namespace.get(this._key);
+
+    return text ? parseSnapshot(text, this.location) : null;
+  }
+
+  async save(snapshot: MCPServerStoreSnapshot): Promise<void> {
+    await this._namespace.put(this._key, JSON.stringify(snapshot));
+  }
+}
+
+/**
+ * Keeps the secrets of the servers out of another store in plaintext
+ * They are saved encrypted when a key is set and left out otherwise, so servers load without them
+ */
+export class CredentialSealingServerStore implements MCPServerStore {
+  readonly location: string;
+  private _store: MCPServerStore;
+  private _key?: string;
+
+  /**
+   * @param store Store the servers are saved to
+   * @param key Base64 AES key the secrets are encrypted with; secrets are not saved without it
+   */
+  constructor(store: MCPServerStore, key?: string) {
+    this._store = store;
+    this._key = key;
+    this.location = store.location;
+  }
+
+  async load(): Promise<MCPServerStoreSnapshot | null> {
+    const snapshot = await this._store.load();
+
+    if (!snapshot?.credentials) {
+      return snapshot;
+    }
+
+    const { credentials: sealed, ...rest } = snapshot;
+
+    if (!this._key) {
+      logger.warn(`MCP server credentials at ${this.location} cannot be read without MCP_SERVER_STORE_KEY`);
+      return rest;
+    }
+
+    const credentials = JSON.parse(await decrypt(this._key, sealed)) as Record<string, StoredServerCredentials>;
+
+    return {
+      ...rest,
+      servers: rest.servers.map((server) => {
+        const serverCredentials = credentials[getServerId(server.name, server)];
+
+        if (!serverCredentials) {
+          return server;
+        }
+
+        const { headers, env, ...auth } = serverCredentials;
+
+        return { ...server, headers, env, auth: { ...server.auth, ...auth } };
+      }),
+    };
+  }
+
+  async save(snapshot: MCPServerStoreSnapshot): Promise<void> {
+    const split = snapshot.servers.map(splitServerCredentials);
+    const credentials = Object.fromEntries(
+      split.flatMap(({ server, credentials }) =>
+        credentials ? [[getServerId(server.name, server), credentials]] : [],
+      ),
+    );
+    const servers = split.map(({ server }) => server);
+
+    if (Object.keys(credentials).length === 0) {
+      await this._store.save({ ...snapshot, servers, credentials: undefined });
+      return;
+    }
+
+    if (!this._key) {
+      logger.warn(
+        `Set MCP_SERVER_STORE_KEY to save the tokens, headers and environment variables of MCP servers; ` +
+          `they are not saved to ${this.location} and have to be entered again after a restart`,
+      );
+      await this._store.save({ ...snapshot, servers, credentials: undefined });
+
+      return;
+    }
+
+    await this._store.save({
+      ...snapshot,
+      servers,
+      credentials: await encrypt(this._key, JSON.stringify(credentials)),
+    });
+  }
+}
+
+/**
+ * Create the store for the environment of a request
+ * The MCP_SERVERS_KV binding is used when present; otherwise the servers are saved to the
+ * file at MCP_SERVER_STORE_PATH, except on Cloudflare, which has no file system
+ * @param env Environment of the request
+ * @returns The store, or null in the browser, where servers are kept in localStorage, and on
+ * Cloudflare without a KV binding, where servers are only kept in memory
+ */
+export function createMCPServerStore(env?: Env): MCPServerStore | null {
+  if (typeof window !== 'undefined') {
+    return null;
+  }
+
+  const key = getServerEnvironmentVariable(env, 'MCP_SERVER_STORE_KEY');
+
+  if (env?.MCP_SERVERS_KV) {
+    return new CredentialSealingServerStore(new KVServerStore(env.MCP_SERVERS_KV), key);
+  }
+
+  if (isCloudflareWorker()) {
+    return null;
+  }
+
+  return new CredentialSealingServerStore(
+    new JsonFileServerStore(getServerEnvironmentVariable(env, 'MCP_SERVER_STORE_PATH') || DEFAULT_SERVER_STORE_PATH),
+    key,
+  );
+}
@@ -1,21 +1,52 @@
 /**
  * MCP Storage Module
  * Handles loading and saving MCP server configurations from localStorage
+ * Tokens, OAuth credentials and HTTP headers are kept in the credential vault, not with the rest of the configuration
  */
 
 import { createScopedLogger } from '~/utils/logger';
+import { readSecret, writeSecret } from '~/lib/stores/vault';
+import type {
+  MCPCassetteConfig,
+  MCPOpenAPIConfig,
+  MCPServerConfig,
+  MCPToolPolicies,
+  MCPTransportType,
+  MCPWorkflow,
+} from './config';
 
 const logger = createScopedLogger('MCPStorage');
 const STORAGE_KEY = 'mcp_servers';
+const WORKFLOWS_STORAGE_KEY = 'mcp_workflows';
 
-interface StoredMCPServer {
+// Vault entry holding the credentials of all servers, keyed by server name
+const CREDENTIALS_SECRET = 'mcp_servers';
+
+type StoredMCPServerAuth = NonNullable<MCPServerConfig['auth']>;
+
+/**
+ * Secret part of a server's configuration
+ * HTTP headers are treated as secrets because they usually carry API keys
+ */
+type StoredMCPServerCredentials = Pick<StoredMCPServerAuth, 'token' | 'oauth'> & Pick<MCPServerConfig, 'headers'>;
+
+export interface StoredMCPServer {
   name: string;
   baseUrl: string;
   enabled: boolean;
-  auth?: {
-    token?: string;
-    type?: string;
-  };
+  auth?: StoredMCPServerAuth;
+  headers?: Record<string, string>;
+  transport?: MCPTransportType;
+  command?: string;
+  args?: string[];
+  env?: Record<string, string>;
+  cwd?: string;
+  toolPolicies?: MCPToolPolicies;
+  openapi?: MCPOpenAPIConfig;
+  cassette?: MCPCassetteConfig;
+
+  // Settings of a built-in server, which is registered on every start; only the enabled state and tool policies are used
+  builtIn?: boolean;
 }
 
 /**
@@ -40,36 +71,135 @@ function isLocalStorageAvailable(): boolean {
 }
 
 /**
- * Load MCP server configurations from localStorage
- * @returns Environment variables with MCP server configurations
+ * Get the registry ID of a stored server
+ * @param server Stored server configuration
  */
-export function loadMCPServersFromStorage(): Record<string, string> {
+export function getStoredServerId(server: StoredMCPServer): string {
+  return server.auth?.type === 'github' ? 'github' : server.name.toLowerCase();
+}
+
+/**
+ * Split the secrets out of a server's configuration
+ * @param server Server configuration
+ * @returns The configuration without secrets and the secrets, if it has any
+ */
+function splitCredentials(server: StoredMCPServer): {
+  server: StoredMCPServer;
+  credentials?: StoredMCPServerCredentials;
+} {
+  if (!server.auth?.token && !server.auth?.oauth && !server.headers) {
+    return { server };
+  }
+
+  const { headers, ...rest } = server;
+  const { token, oauth, ...auth } = server.auth ?? {};
+
+  return { server: { ...rest, auth }, credentials: { token, oauth, headers } };
+}
+
+/**
+ * Read the server credentials stored in the vault
+ * @returns Credentials keyed by server name; empty when the vault is locked
+ */
+async function readStoredCredentials(): Promise<Record<string, StoredMCPServerCredentials>> {
   try {
-    // Check if localStorage is available (not in SSR)
-    if (!isLocalStorageAvailable()) {
-      logger.debug('localStorage not available (server context) - skipping load');
-      return {};
+    const stored = await readSecret(CREDENTIALS_SECRET);
+
+    return stored ? (JSON.parse(stored) as Record<string, StoredMCPServerCredentials>) : {};
+  } catch (error) {
+    logger.warn('MCP server credentials are unavailable:', error);
+    return {};
+  }
+}
+
+/**
+ * Store server credentials in the vault
+ * @param credentials Credentials keyed by server name
+ */
+async function writeStoredCredentials(credentials: Record<string, StoredMCPServerCredentials>): Promise<void> {
+  await writeSecret(CREDENTIALS_SECRET, Object.keys(credentials).length > 0 ? JSON.stringify(credentials) : null);
+}
+
+/**
+ * Get MCP server configurations from localStorage together with their credentials from the vault
+ * Servers load without credentials while the vault is locked
+ * @returns Array of stored MCP server configurations
+ */
+export async function getStoredMCPServersWithCredentials(): Promise<StoredMCPServer[]> {
+  const storedServers = getStoredMCPServers();
+
+  if (storedServers.length === 0) {
+    return [];
+  }
+
+  const credentials = await readStoredCredentials();
+
+  return storedServers.map((server) => {
+    const serverCredentials = credentials[server.name];
+
+    if (!serverCredentials) {
+      return server;
     }
 
-    // Get stored servers
-    const storedServersJson = localStorage.getItem(STORAGE_KEY);
+    const { headers, ...auth } = serverCredentials;
 
-    if (!storedServersJson) {
-      return {};
+    return { ...server, headers, auth: { ...server.auth, ...auth } };
+  });
+}
+
+/**
+ * Move tokens saved in plaintext by earlier versions into the vault
+ * Runs when the vault is unlocked; the vault must be unlocked for the move to happen
+ */
+export async function migrateMCPServerCredentials(): Promise<void> {
+  const storedServers = getStoredMCPServers();
+  const plaintext = storedServers.map(splitCredentials);
+
+  if (!plaintext.some(({ credentials }) => credentials)) {
+    return;
+  }
+
+  try {
+    const credentials = await readStoredCredentials();
+
+    for (const { server, credentials: serverCredentials } of plaintext) {
+      if (serverCredentials) {
+        credentials[server.name] = { ...serverCredentials, ...credentials[server.name] };
+      }
     }
 
-    // Parse stored servers
-    const storedServers = JSON.parse(storedServersJson) as StoredMCPServer[];
+    await writeStoredCredentials(credentials);
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(plaintext.map(({ server }) => server)));
 
-    if (!Array.isArray(storedServers)) {
-      logger.warn('Invalid MCP server configuration in localStorage');
+    logger.info('Moved MCP server credentials from localStorage into the credential vault');
+  } catch (error) {
+    logger.error('Failed to move MCP server credentials into the credential vault:', error);
+  }
+}
+
+/**
+ * Load MCP server configurations from localStorage
+ * @returns Environment variables with MCP server configurations
+ */
+export async function loadMCPServersFromStorage(): Promise<Record<string, string>> {
+  try {
+    // Check if localStorage is available (not in SSR)
+    if (!isLocalStorageAvailable()) {
+      logger.debug('localStorage not available (server context) - skipping load');
       return {};
     }
 
+    const storedServers = await getStoredMCPServersWithCredentials();
+
     // Convert to environment variables
     const envVars: Record<string, string> = {};
 
     storedServers.forEach((server) => {
+      // Stdio servers have no SSE endpoint for the legacy manager to connect to
+      if (server.transport === 'stdio') {
+        return;
+      }
+
       if (server.enabled && server.name && server.baseUrl) {
         envVars[`MCP_SSE_${server.name.toUpperCase()}`] = server.baseUrl;
 
@@ -111,27 +241,26 @@ export function saveMCPServersToStorage(servers: StoredMCPServer[]): boolean {
       tokens: servers.map((s) => ({
         name: s.name,
         hasToken: !!s.auth?.token,
-        tokenLength: s.auth?.token ? s.auth.token.length : 0,
-        tokenPrefix: s.auth?.token ? s.auth.token.substring(0, 8) + '...' : undefined,
+        hasOAuth: !!s.auth?.oauth?.tokens,
       })),
     });
 
-    const envVars: Record<string, string> = {};
+    const split = servers.map(splitCredentials);
+    const credentials: Record<string, StoredMCPServerCredentials> = {};
 
-    servers.forEach((server) => {
-      if (server.enabled) {
-        envVars[`MCP_SSE_${server.name.toUpperCase()}`] = server.baseUrl;
-
-        // Save auth configuration if present
-        if (server.auth?.token) {
-          envVars[`MCP_SSE_${server.name.toUpperCase()}_TOKEN`] = server.auth.token;
-          logger.info(`Set token environment variable for ${server.name}`);
-        }
+    for (const { server, credentials: serverCredentials } of split) {
+      if (serverCredentials) {
+        credentials[server.name] = serverCredentials;
       }
+    }
+
+    // Secrets go to the vault; a locked vault keeps the credentials it already has
+    writeStoredCredentials(credentials).catch((error) => {
+      logger.error('Failed to save MCP server credentials to the credential vault:', error);
     });
 
     // Save to localStorage
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(servers));
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(split.map(({ server }) => server)));
     logger.info(`Saved ${servers.length} MCP servers to localStorage`);
 
     return true;
@@ -143,6 +272,7 @@ export function saveMCPServersToStorage(servers: StoredMCPServer[]): boolean {
 
 /**
  * Get raw MCP server configurations from localStorage
+ * Credentials are not included; use getStoredMCPServersWithCredentials() for them
  * @returns Array of stored MCP server configurations
  */
 export function getStoredMCPServers(): StoredMCPServer[] {
@@ -174,3 +304,49 @@ export function getStoredMCPServers(): StoredMCPServer[] {
     return [];
   }
 }
+
+/**
+ * Save MCP workflows to localStorage next to the servers they use
+ * @param workflows Workflows to save
+ * @returns Success status
+ */
+export function saveMCPWorkflowsToStorage(workflows: MCPWorkflow[]): boolean {
+  try {
+    if (!isLocalStorageAvailable()) {
+      logger.debug('localStorage not available (server context) - skipping workflow save');
+      return false;
+    }
+
+    localStorage.setItem(WORKFLOWS_STORAGE_KEY, JSON.stringify(workflows));
+    logger.info(`Saved ${workflows.length} MCP workflows to localStorage`);
+
+    return true;
+  } catch (error: unknown) {
+    logger.error('Failed to save MCP workflows to localStorage:', error);
+    return false;
+  }
+}
+
+/**
+ * Get MCP workflows from localStorage
+ * @returns Array of stored workflows
+ */
+export function getStoredMCPWorkflows(): MCPWorkflow[] {
+  try {
+    if (!isLocalStorageAvailable()) {
+      return [];
+    }
+
+    const storedWorkflows = JSON.parse(localStorage.getItem(WORKFLOWS_STORAGE_KEY) || '[]') as MCPWorkflow[];
+
+    if (!Array.isArray(storedWorkflows)) {
+      logger.warn('Invalid MCP workflows in localStorage');
+      return [];
+    }
+
+    return storedWorkflows;
+  } catch (error) {
+    logger.error('Failed to get MCP workflows from localStorage:', error);
+    return [];
+  }
+}
@@ -0,0 +1,111 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { MCPToolCache } from './tool-cache';
+import { MCPServerRegistry } from './registry';
+import type { IMCPServerAdapter, MCPTool } from './config';
+
+function createServer(id: string, tools: MCPTool[]) {
+  let toolsChanged: ((tools: MCPTool[]) => void) | undefined;
+
+  const server = {
+    id,
+    name: id,
+    baseUrl: `https://${id}.example.com`,
+    enabled: true,
+    getToolDefinitions: vi.fn(async () => tools),
+    onToolsChanged: (listener: (tools: MCPTool[]) => void) => {
+      toolsChanged = listener;
+
+      return () => {
+        toolsChanged = undefined;
+      };
+    },
+  } as unknown as IMCPServerAdapter & { getToolDefinitions: ReturnType<typeof vi.fn> };
+
+  return { server, changeTools: (changed: MCPTool[]) => toolsChanged?.(changed) };
+}
+
+const searchTool: MCPTool = { name: 'search', description: 'Search the web' };
+const fetchTool: MCPTool = { name: 'fetch', description: 'Fetch a page' };
+
+describe('MCPToolCache', () => {
+  const registry = MCPServerRegistry.getInstance();
+  const cache = MCPToolCache.getInstance();
+
+  afterEach(() => {
+    registry.getAllServers().forEach((server) => registry.unregisterServer(server.id));
+  });
+
+  it('should discover the tools of a server once', async () => {
+    const { server } = createServer('search', [searchTool]);
+    registry.registerServer(server);
+
+    await cache.getServerTools(server);
+    await cache.getServerTools(server);
+
+    expect(server.getToolDefinitions).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep the snapshot until a tool list changes', async () => {
+    const { server, changeTools } = createServer('search', [searchTool]);
+    registry.registerServer(server);
+
+    const snapshot = await cache.getSnapshot();
+
+    expect(snapshot.tools).toEqual({ search: [searchTool] });
+    expect(await cache.getSnapshot()).toBe(snapshot);
+
+    changeTools([searchTool]);
+    expect(await cache.getSnapshot()).toBe(snapshot);
+
+    changeTools([searchTool, fetchTool]);
+
+    const changed = await cache.getSnapshot();
+
+    expect(changed.version).toBeGreaterThan(snapshot.version);
+    expect(changed.tools).toEqual({ search: [searchTool, fetchTool] });
+    expect(server.getToolDefinitions).toHaveBeenCalledTimes(1);
+  });
+
+  it('should discover the tools again after a server is updated', async () => {
+    const { server } = createServer('search', [searchTool]);
+    registry.registerServer(server);
+    await cache.getServerTools(server);
+
+    const listener = vi.fn();
+    const unsubscribe = cache.subscribe(listener);
+    registry.registerServer(server);
+    unsubscribe();
+
+    expect(listener).toHaveBeenCalledWith(cache.version);
+
+    await cache.getServerTools(server);
+
+    expect(server.getToolDefinitions).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not store tools discovered before the server was invalidated', async () => {
+    const { server } = createServer('search', [searchTool]);
+    registry.registerServer(server);
+
+    const discovery = cache.getServerTools(server);
+    cache.invalidate(server.id);
+    await discovery;
+    await cache.getServerTools(server);
+
+    expect(server.getToolDefinitions).toHaveBeenCalledTimes(2);
+  });
+
+  it('should ignore tool changes of a removed server', async () => {
+    const { server, changeTools } = createServer('search', [searchTool]);
+    registry.registerServer(server);
+    await cache.getSnapshot();
+
+    registry.unregisterServer(server.id);
+
+    const version = cache.version;
+    changeTools([fetchTool]);
+
+    expect(cache.version).toBe(version);
+    expect((await cache.getSnapshot()).tools).toEqual({});
+  });
+});
@@ -0,0 +1,217 @@
+/**
+ * MCP Tool Cache
+ * Keeps the tool definitions of every server so tools are not discovered again for each chat turn
+ * Entries are replaced when a server reports a new tool list and dropped on registry events
+ */
+
+import { createScopedLogger } from '~/utils/logger';
+import { MCPServerRegistry, MCPRegistryEventType } from './registry';
+import type { MCPRegistryEvent } from './registry';
+import type { IMCPServerAdapter, MCPTool, MCPToolSnapshot } from './config';
+
+const logger = createScopedLogger('MCPToolCache');
+
+// Times a snapshot is collected again when tool lists change while it is being collected
+const MAX_SNAPSHOT_ATTEMPTS = 3;
+
+/**
+ * Cache of tool definitions per server with a versioned snapshot of all enabled servers
+ */
+export class MCPToolCache {
+  private static _instance: MCPToolCache;
+  private _registry: MCPServerRegistry;
+  private _tools: Record<string, MCPTool[]> = {};
+  private _pending: Record<string, Promise<MCPTool[]>> = {};
+
+  // Incremented when a server's entry is dropped, so discoveries started before are not stored
+  private _generations: Record<string, number> = {};
+  private _watchedServers: Record<string, { server: IMCPServerAdapter; unsubscribe: () => void }> = {};
+  private _version = 0;
+  private _snapshot: MCPToolSnapshot | null = null;
+  private _listeners: Array<(version: number) => void> = [];
+
+  private constructor() {
+    this._registry = MCPServerRegistry.getInstance();
+
+    const handleEvent = (event: MCPRegistryEvent) => this.invalidate(event.serverId);
+
+    this._registry.subscribe(MCPRegistryEventType.SERVER_ADDED, handleEvent);
+    this._registry.subscribe(MCPRegistryEventType.SERVER_REMOVED, handleEvent);
+    this._registry.subscribe(MCPRegistryEventType.SERVER_UPDATED, handleEvent);
+    this._registry.subscribe(MCPRegistryEventType.SERVER_STATUS_CHANGED, handleEvent);
+  }
+
+  /**
+   * Get the singleton instance of the cache
+   */
+  static getInstance(): MCPToolCache {
+    if (!MCPToolCache._instance) {
+      MCPToolCache._instance = new MCPToolCache();
+    }
+
+    return MCPToolCache._instance;
+  }
+
+  /**
+   * Version of the cached tool definitions; changes whenever a tool list changes
+   */
+  get version(): number {
+    return this._version;
+  }
+
+  /**
+   * Get the tool definitions of a server, discovering them on first use
+   * @param server Server adapter
+   */
+  async getServerTools(server: IMCPServerAdapter): Promise<MCPTool[]> {
+    this._watchServer(server);
+
+    if (this._tools[server.id]) {
+      return this._tools[server.id];
+    }
+
+    if (!this._pending[server.id]) {
+      const generation = this._generations[server.id] ?? 0;
+
+      this._pending[server.id] = server
+        .getToolDefinitions()
+        .then((tools) => {
+          // Keep the result unless the entry was invalidated while the tools were being discovered
+          if ((this._generations[server.id] ?? 0) === generation) {
+            this._setServerTools(server.id, tools);
+          }
+
+          return tools;
+        })
+        .finally(() => {
+          delete this._pending[server.id];
+        });
+    }
+
+    return this._pending[server.id];
+  }
+
+  /**
+   * Get the tool definitions of all enabled servers
+   * The same snapshot is returned until a tool list changes
+   */
+  async getSnapshot(): Promise<MCPToolSnapshot> {
+    if (this._snapshot && this._snapshot.version === this._version) {
+      return this._snapshot;
+    }
+
+    let snapshot: MCPToolSnapshot;
+    let attempts = 0;
+
+    // Discovering tools changes the version, so collect again until the tool lists are stable
+    do {
+      const version = this._version;
+      const entries = await Promise.all(
+        this._registry.getEnabledServers().map(async (server): Promise<[string, MCPTool[]]> => {
+          try {
+            return [server.id, await this.getServerTools(server)];
+          } catch (error) {
+            logger.error(`Failed to get tools from server ${server.name}:`, error);
+            return [server.id, []];
+          }
+        }),
+      );
+
+      snapshot = { version, tools: Object.fromEntries(entries) };
+      attempts++;
+    } while (snapshot.version !== this._version && attempts < MAX_SNAPSHOT_ATTEMPTS);
+
+    this._snapshot = snapshot;
+
+    return snapshot;
+  }
+
+  /**
+   * Drop cached tool definitions so they are discovered again on next use
+   * @param serverId Server to drop; all servers when omitted
+   */
+  invalidate(serverId?: string): void {
+    if (serverId) {
+      delete this._tools[serverId];
+      this._generations[serverId] = (this._generations[serverId] ?? 0) + 1;
+
+      if (this._registry.getServer(serverId) !== this._watchedServers[serverId]?.server) {
+        this._watchedServers[serverId]?.unsubscribe();
+        delete this._watchedServers[serverId];
+      }
+    } else {
+      Object.keys(this._tools).forEach((id) => {
+        this._generations[id] = (this._generations[id] ?? 0) + 1;
+      });
+      this._tools = {};
+    }
+
+    this._bumpVersion();
+  }
+
+  /**
+   * Listen for changes to the cached tool definitions
+   * @param listener Called with the new version
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: (version: number) => void): () => void {
+    this._listeners.push(listener);
+
+    return () => {
+      this._listeners = this._listeners.filter((l) => l !== listener);
+    };
+  }
+
+  /**
+   * Follow the tool list changes reported by a server
+   * @param server Server adapter
+   */
+  private _watchServer(server: IMCPServerAdapter): void {
+    const watched = this._watchedServers[server.id];
+
+    if (watched?.server === server || !server.onToolsChanged) {
+      return;
+    }
+
+    // The server was replaced by another adapter with the same ID
+    watched?.unsubscribe();
+
+    const unsubscribe = server.onToolsChanged((tools) => {
+      if (this._registry.getServer(server.id) === server) {
+        this._setServerTools(server.id, tools);
+      }
+    });
+
+    this._watchedServers[server.id] = { server, unsubscribe };
+  }
+
+  /**
+   * Store the tool definitions of a server, changing the version only if they differ
+   * @param serverId Server ID
+   * @param tools Tool definitions
+   */
+  private _setServerTools(serverId: string, tools: MCPTool[]): void {
+    const current = this._tools[serverId];
+    this._tools[serverId] = tools;
+
+    if (!current || JSON.stringify(current) !== JSON.stringify(tools)) {
+      logger.debug(`Tools of server ${serverId} changed (${tools.length} tools)`);
+      this._bumpVersion();
+    }
+  }
+
+  /**
+   * Start a new version and notify the listeners
+   */
+  private _bumpVersion(): void {
+    this._version++;
+
+    this._listeners.forEach((listener) => {
+      try {
+        listener(this._version);
+      } catch (error) {
+        logger.error('Error in tool cache listener:', error);
+      }
+    });
+  }
+}
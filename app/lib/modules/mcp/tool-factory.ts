@@ -3,19 +3,45 @@
  * Creates AI SDK tools from MCP server tools
  */
 
-import { type Tool } from 'ai';
+import { generateId, type Tool } from 'ai';
 import { createScopedLogger } from '~/utils/logger';
 import { MCPServerRegistry } from './registry';
-import type { MCPTool } from './config';
+import { MCPToolCache } from './tool-cache';
+import type {
+  IMCPServerAdapter,
+  MCPTool,
+  MCPToolCallRecord,
+  MCPToolProgressEvent,
+  MCPToolSelection,
+  MCPToolSnapshot,
+  MCPWorkflow,
+} from './config';
+import {
+  MCPToolDeniedError,
+  createToolDeniedResult,
+  resolveToolPolicy,
+  type MCPToolApprovalRequest,
+  type MCPToolApprovalResult,
+} from './approval';
 import { JSONSchemaToZod } from '@dmitryrechkin/json-schema-to-zod';
-import { z } from 'zod';
+import { isToolSelected } from './tool-selection';
+import { getWorkflowInputSchema, getWorkflowToolName, runMCPWorkflow } from './workflows';
+import { MCPSamplingManager, type MCPSamplingContext } from './sampling';
 
 const logger = createScopedLogger('MCPToolFactory');
 
+// Server ID workflow calls are reported under to onToolCall
+const WORKFLOW_SERVER_ID = 'workflow';
+
 /**
  * Options for creating tools
  */
 export interface ToolCreationOptions {
+  /**
+   * Servers and tools of the chat; tools that are not selected are left out
+   */
+  selection?: MCPToolSelection;
+
   /**
    * Called when a tool is executed
    * @param serverId ID of the server
@@ -24,6 +50,33 @@ export interface ToolCreationOptions {
    * @param resultPromise Promise that resolves to the tool result
    */
   onToolCall?: (serverId: string, toolName: string, args: any, resultPromise: Promise<string>) => void;
+
+  /**
+   * Called when a tool with the `ask` policy is executed; such calls are denied without it
+   * @param request Tool call to approve
+   * @param signal Signal that cancels the tool call
+   */
+  requestApproval?: (
+    request: Omit<MCPToolApprovalRequest, 'id' | 'createdAt'>,
+    signal?: AbortSignal,
+  ) => Promise<MCPToolApprovalResult>;
+
+  /**
+   * Called with the record of every finished or denied call, so the caller can add it to the tool call log
+   * @param record Record of the call
+   */
+  onToolCallRecord?: (record: MCPToolCallRecord) => void;
+
+  /**
+   * Called when a tool call starts, reports progress or ends, so the caller can show it for its request only
+   * @param event Progress of the call
+   */
+  onToolProgress?: (event: MCPToolProgressEvent) => void;
+
+  /**
+   * Chat response that answers the sampling requests servers send while its tool calls run; rejected without it
+   */
+  samplingContext?: MCPSamplingContext;
 }
 
 /**
@@ -32,9 +85,15 @@ export interface ToolCreationOptions {
 export class MCPToolFactory {
   private static _instance: MCPToolFactory;
   private _registry: MCPServerRegistry;
+  private _cache: MCPToolCache;
+
+  // Derived from a snapshot and reused until the snapshot version changes
+  private _schemas: { version: number; byTool: Map<string, any> } = { version: -1, byTool: new Map() };
+  private _description: { version: number; key: string; text: string } | null = null;
 
   private constructor() {
     this._registry = MCPServerRegistry.getInstance();
+    this._cache = MCPToolCache.getInstance();
   }
 
   /**
@@ -48,58 +107,59 @@ export class MCPToolFactory {
     return MCPToolFactory._instance;
   }
 
+  /**
+   * Get the tool definitions of all enabled servers
+   * Pass the snapshot to createTools() and generateToolDescription() to use the same tools for a whole request
+   */
+  async getToolSnapshot(): Promise<MCPToolSnapshot> {
+    return this._cache.getSnapshot();
+  }
+
   /**
    * Create AI SDK tools from the MCP registry
    * @param options Tool creation options
+   * @param snapshot Tool definitions to use; the current snapshot when omitted
    * @returns Object containing the tools
    */
-  async createTools(options: ToolCreationOptions = {}): Promise<Record<string, Tool>> {
+  async createTools(options: ToolCreationOptions = {}, snapshot?: MCPToolSnapshot): Promise<Record<string, Tool>> {
     const tools: Record<string, Tool> = {};
-    const servers = this._registry.getEnabledServers();
+    const toolSnapshot = snapshot ?? (await this._cache.getSnapshot());
+    const servers = this._registry.getEnabledServers().filter((server) => toolSnapshot.tools[server.id]);
 
-    logger.info(`Creating tools from ${servers.length} enabled MCP servers`);
+    logger.info(`Creating tools from ${servers.length} enabled MCP servers (version ${toolSnapshot.version})`);
 
     for (const server of servers) {
       try {
-        // Get tools from the server
-        const serverTools = await server.getToolDefinitions();
-
-        logger.info(`Found ${serverTools.length} tools from server: ${server.name}`);
+        const serverTools = toolSnapshot.tools[server.id];
 
-        // Create an AI SDK tool for each MCP tool
-        for (const tool of serverTools) {
+        // Create an AI SDK tool for each selected MCP tool
+        for (const tool of serverTools.filter((serverTool) =>
+          isToolSelected(options.selection, server.id, serverTool.name),
+        )) {
           const toolName = this._getToolName(server.id, tool.name);
 
           try {
-            /*
-             * Create a Zod schema from the JSON schema.
-             * JSONSchemaToZod lacks proper TypeScript types but functions correctly.
-             */
-            const zodSchemaString = JSONSchemaToZod.convert(tool.inputSchema || { type: 'object', properties: {} });
-
-            /*
-             * Convert the schema string to a Zod schema object.
-             * Using Function constructor instead of eval for better security.
-             */
-            const zodSchema = new Function('z', `return ${zodSchemaString}`)(z);
-            const parsedSchema = zodSchema;
+            const parsedSchema = this._getSchema(toolSnapshot.version, server.id, tool);
 
             // Create the AI SDK tool
             tools[toolName] = {
               description: tool.description || `Tool from ${server.name} MCP server`,
               parameters: parsedSchema,
-              execute: async (args) => {
-                const resultPromise = (async () => {
-                  try {
-                    const result = await server.executeToolCall(tool.name, args);
-                    return JSON.stringify(result);
-                  } catch (error) {
-                    logger.error(`Error executing tool ${toolName}:`, error);
-                    throw new Error(
-                      `Failed to execute tool ${toolName}: ${error instanceof Error ? error.message : String(error)}`,
-                    );
-                  }
-                })();
+              execute: async (args, { toolCallId, abortSignal } = { toolCallId: '', messages: [] }) => {
+                const denial = await this._authorizeToolCall(server, tool.name, args, options, abortSignal);
+
+                if (denial) {
+                  return createToolDeniedResult(toolName, denial);
+                }
+
+                const resultPromise = this._executeToolCall(
+                  server,
+                  tool.name,
+                  args,
+                  toolCallId,
+                  options,
+                  abortSignal,
+                ).then((result) => JSON.stringify(result));
 
                 // Call the tool execution callback if provided
                 if (options.onToolCall) {
@@ -120,35 +180,288 @@ export class MCPToolFactory {
       }
     }
 
+    this._createWorkflowTools(tools, toolSnapshot, options);
+
     return tools;
   }
 
   /**
-   * Get the list of available tools from the MCP registry
-   * @returns Map of server ID to tool list
+   * Run a tool of a server outside of a chat response, e.g. from the playground or the tool call log
+   * The tool policy applies as it does to the model's calls
+   * @param server Server that provides the tool
+   * @param toolName Name of the tool on the server
+   * @param args Tool arguments
+   * @param options Tool creation options; `ask` tools only run when requestApproval approves them
+   * @param abortSignal Signal that cancels the call
+   * @returns The result returned by the server
+   * @throws MCPToolDeniedError when the policy does not let the call run
    */
-  async getAvailableTools(): Promise<Record<string, MCPTool[]>> {
-    const serverTools: Record<string, MCPTool[]> = {};
-    const servers = this._registry.getEnabledServers();
+  async runTool(
+    server: IMCPServerAdapter,
+    toolName: string,
+    args: any,
+    options: ToolCreationOptions = {},
+    abortSignal?: AbortSignal,
+  ): Promise<any> {
+    const denial = await this._authorizeToolCall(server, toolName, args, options, abortSignal);
+
+    if (denial) {
+      throw new MCPToolDeniedError(this._getToolName(server.id, toolName), denial);
+    }
+
+    return this._executeToolCall(server, toolName, args, '', options, abortSignal);
+  }
+
+  /**
+   * Find the server and tool behind the name a tool is offered to the model under
+   * @param name Full tool name, e.g. github_search_repositories
+   * @param snapshot Tool definitions to search; the current snapshot when omitted
+   */
+  async findTool(
+    name: string,
+    snapshot?: MCPToolSnapshot,
+  ): Promise<{ server: IMCPServerAdapter; toolName: string } | null> {
+    const toolSnapshot = snapshot ?? (await this._cache.getSnapshot());
+
+    for (const server of this._registry.getEnabledServers()) {
+      const tool = toolSnapshot.tools[server.id]?.find(
+        (serverTool) => this._getToolName(server.id, serverTool.name) === name,
+      );
+
+      if (tool) {
+        return { server, toolName: tool.name };
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Add a tool for each enabled workflow whose tools are all available
+   * @param tools Tools to add the workflow tools to
+   * @param snapshot Tool definitions of the servers
+   * @param options Tool creation options
+   */
+  private _createWorkflowTools(tools: Record<string, Tool>, snapshot: MCPToolSnapshot, options: ToolCreationOptions) {
+    for (const workflow of this._getAvailableWorkflows(snapshot, options.selection)) {
+      const toolName = getWorkflowToolName(workflow);
 
-    for (const server of servers) {
       try {
-        serverTools[server.id] = await server.getToolDefinitions();
+        tools[toolName] = {
+          description: workflow.description,
+          parameters: JSONSchemaToZod.convert(getWorkflowInputSchema(workflow)),
+          execute: async (args, { toolCallId, abortSignal } = { toolCallId: '', messages: [] }) => {
+            const callId = toolCallId || `${toolName}-${Date.now()}`;
+
+            const resultPromise = runMCPWorkflow(
+              workflow,
+              args,
+              async (step, stepArgs) => {
+                const server = this._registry.getServer(step.serverId);
+
+                if (!server?.enabled) {
+                  throw new Error(`MCP server ${step.serverId} is not available`);
+                }
+
+                const denial = await this._authorizeToolCall(server, step.toolName, stepArgs, options, abortSignal);
+
+                if (denial) {
+                  throw new Error(`${this._getToolName(server.id, step.toolName)} was not run because ${denial}`);
+                }
+
+                return this._executeToolCall(
+                  server,
+                  step.toolName,
+                  stepArgs,
+                  `${callId}-${step.id}`,
+                  options,
+                  abortSignal,
+                );
+              },
+              abortSignal,
+            ).then((run) => JSON.stringify(run.output));
+
+            if (options.onToolCall) {
+              options.onToolCall(WORKFLOW_SERVER_ID, toolName, args, resultPromise);
+            }
+
+            return resultPromise;
+          },
+        };
+
+        logger.debug(`Registered workflow tool: ${toolName}`);
       } catch (error) {
-        logger.error(`Failed to get tools from server ${server.name}:`, error);
-        serverTools[server.id] = [];
+        logger.error(`Failed to create workflow tool ${toolName}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Get the enabled workflows whose steps only use selected tools of enabled servers
+   * Workflows using a tool blocked by its policy are left out, as they could never finish
+   * @param snapshot Tool definitions of the servers
+   * @param selection Servers and tools of the chat
+   */
+  private _getAvailableWorkflows(snapshot: MCPToolSnapshot, selection?: MCPToolSelection): MCPWorkflow[] {
+    return this._registry.getEnabledWorkflows().filter((workflow) =>
+      workflow.steps.every((step) => {
+        const server = this._registry.getServer(step.serverId);
+
+        return (
+          server?.enabled &&
+          snapshot.tools[step.serverId]?.some((tool) => tool.name === step.toolName) &&
+          isToolSelected(selection, step.serverId, step.toolName) &&
+          resolveToolPolicy(server.getConfig().toolPolicies, step.toolName) !== 'deny'
+        );
+      }),
+    );
+  }
+
+  /**
+   * Check the tool policy of a call, asking the user for approval when the policy says so
+   * Denied calls are recorded in the tool call log
+   * @param server Server that provides the tool
+   * @param toolName Name of the tool on the server
+   * @param args Tool arguments
+   * @param options Tool creation options
+   * @param abortSignal Signal that cancels the call
+   * @returns Why the call was denied, or null when it may run
+   */
+  private async _authorizeToolCall(
+    server: IMCPServerAdapter,
+    toolName: string,
+    args: any,
+    options: ToolCreationOptions,
+    abortSignal?: AbortSignal,
+  ): Promise<string | null> {
+    // Read the policy on every call so changes apply without recreating the tools
+    const policy = resolveToolPolicy(server.getConfig().toolPolicies, toolName);
+
+    if (policy === 'deny') {
+      logger.info(`Tool ${this._getToolName(server.id, toolName)} denied by policy`);
+      this._recordToolCall(server, toolName, args, Date.now(), options, {
+        status: 'denied',
+        error: 'Blocked by the tool policy',
+      });
+
+      return 'it is blocked by the tool policy';
+    }
+
+    if (policy === 'ask') {
+      const approvalRequest = {
+        serverId: server.id,
+        serverName: server.name,
+        toolName: this._getToolName(server.id, toolName),
+        args,
+      };
+      const approval = options.requestApproval
+        ? await options.requestApproval(approvalRequest, abortSignal)
+        : { approved: false, reason: 'no user is available to approve it' };
+
+      if (!approval.approved) {
+        const reason = approval.reason || 'it was not approved';
+        this._recordToolCall(server, toolName, args, Date.now(), options, { status: 'denied', error: reason });
+
+        return reason;
       }
     }
 
-    return serverTools;
+    return null;
+  }
+
+  /**
+   * Execute a tool call, reporting its progress and recording it in the tool call log
+   * Sampling requests the server sends meanwhile are answered for the chat response that made the call
+   * @param server Server that provides the tool
+   * @param toolName Name of the tool on the server
+   * @param args Tool arguments
+   * @param toolCallId ID of the call the progress is reported under
+   * @param options Tool creation options
+   * @param abortSignal Signal that cancels the call
+   * @returns The result returned by the server
+   */
+  private async _executeToolCall(
+    server: IMCPServerAdapter,
+    toolName: string,
+    args: any,
+    toolCallId: string,
+    options: ToolCreationOptions,
+    abortSignal?: AbortSignal,
+  ): Promise<any> {
+    const fullName = this._getToolName(server.id, toolName);
+    const startTime = Date.now();
+    const progressEvent = {
+      toolCallId: toolCallId || `${fullName}-${startTime}`,
+      serverId: server.id,
+      serverName: server.name,
+      toolName,
+    };
+
+    this._emitToolProgress(options, { ...progressEvent, done: false });
+
+    const removeSamplingContext = options.samplingContext
+      ? MCPSamplingManager.getInstance().setContext(server.id, options.samplingContext)
+      : undefined;
+
+    try {
+      const result = await server.executeToolCall(toolName, args, {
+        signal: abortSignal,
+        onProgress: (progress) => this._emitToolProgress(options, { ...progressEvent, ...progress, done: false }),
+      });
+      this._recordToolCall(server, toolName, args, startTime, options, { status: 'success', result });
+
+      return result;
+    } catch (error) {
+      const message = abortSignal?.aborted ? 'Cancelled' : error instanceof Error ? error.message : String(error);
+
+      logger.error(`Error executing tool ${fullName}:`, error);
+      this._recordToolCall(server, toolName, args, startTime, options, { status: 'error', error: message });
+      throw new Error(`Failed to execute tool ${fullName}: ${message}`);
+    } finally {
+      removeSamplingContext?.();
+      this._emitToolProgress(options, { ...progressEvent, done: true });
+    }
+  }
+
+  /**
+   * Get the list of available tools from the MCP registry
+   * @returns Map of server ID to tool list
+   */
+  async getAvailableTools(): Promise<Record<string, MCPTool[]>> {
+    return (await this._cache.getSnapshot()).tools;
   }
 
   /**
    * Generate a description of available MCP tools for LLM prompts
+   * @param snapshot Tool definitions to describe; the current snapshot when omitted
+   * @param selection Servers and tools of the chat; tools that are not selected are left out
    * @returns String description of tools
    */
-  async generateToolDescription(): Promise<string> {
-    const servers = this._registry.getEnabledServers();
+  async generateToolDescription(snapshot?: MCPToolSnapshot, selection?: MCPToolSelection): Promise<string> {
+    const toolSnapshot = snapshot ?? (await this._cache.getSnapshot());
+
+    // Workflows are not part of the snapshot, so changes to them must invalidate the description too
+    const key = JSON.stringify([selection ?? null, this._registry.getEnabledWorkflows()]);
+
+    if (this._description?.version === toolSnapshot.version && this._description.key === key) {
+      return this._description.text;
+    }
+
+    const text = this._describeTools(toolSnapshot, selection);
+    this._description = { version: toolSnapshot.version, key, text };
+
+    return text;
+  }
+
+  /**
+   * Build the description of the tools in a snapshot
+   * @param snapshot Tool definitions to describe
+   * @param selection Servers and tools of the chat
+   */
+  private _describeTools(snapshot: MCPToolSnapshot, selection?: MCPToolSelection): string {
+    const servers = this._registry
+      .getEnabledServers()
+      .filter((server) => snapshot.tools[server.id] && (!selection || selection.servers.includes(server.id)));
 
     if (servers.length === 0) {
       return '';
@@ -159,17 +472,29 @@ export class MCPToolFactory {
 
     for (const server of servers) {
       try {
-        const tools = await server.getToolDefinitions();
+        const tools = snapshot.tools[server.id];
 
         if (tools.length === 0) {
           continue;
         }
 
+        const toolPolicies = server.getConfig().toolPolicies;
+        const allowedTools = tools.filter(
+          (tool) =>
+            isToolSelected(selection, server.id, tool.name) && resolveToolPolicy(toolPolicies, tool.name) !== 'deny',
+        );
+
+        if (allowedTools.length === 0) {
+          continue;
+        }
+
         description += `### ${server.name} MCP Server\n\n`;
 
-        for (const tool of tools) {
+        for (const tool of allowedTools) {
           const toolName = this._getToolName(server.id, tool.name);
-          description += `- ${toolName}: ${tool.description}\n`;
+          const approvalNote =
+            resolveToolPolicy(toolPolicies, tool.name) === 'ask' ? ' (runs only after the user approves it)' : '';
+          description += `- ${toolName}: ${tool.description}${approvalNote}\n`;
 
           // Add schema information if available
           if (tool.inputSchema && Object.keys(tool.inputSchema.properties || {}).length > 0) {
@@ -191,6 +516,28 @@ export class MCPToolFactory {
       }
     }
 
+    const workflows = this._getAvailableWorkflows(snapshot, selection);
+
+    if (workflows.length > 0) {
+      description += '### Workflows\n\n';
+      description += 'Each workflow runs a fixed chain of MCP tools in one call.\n\n';
+
+      for (const workflow of workflows) {
+        description += `- ${getWorkflowToolName(workflow)}: ${workflow.description}\n`;
+
+        if (workflow.inputs.length > 0) {
+          description += '  Parameters:\n';
+
+          for (const input of workflow.inputs) {
+            const required = input.required ? ' (required)' : '';
+            description += `  - ${input.name}${required}: ${input.description || input.type}\n`;
+          }
+        }
+
+        description += '\n';
+      }
+    }
+
     // Add usage information
     description += `
 To use a tool, follow this syntax:
@@ -211,6 +558,74 @@ Tools will be executed and their results returned to you.
     return description;
   }
 
+  /**
+   * Pass the record of a finished or denied call to the caller that made it
+   * @param server Server that provides the tool
+   * @param toolName Name of the tool on the server
+   * @param args Tool arguments
+   * @param startTime Time the call started
+   * @param options Tool creation options of the call
+   * @param outcome Status and result or error of the call
+   */
+  private _recordToolCall(
+    server: IMCPServerAdapter,
+    toolName: string,
+    args: any,
+    startTime: number,
+    options: ToolCreationOptions,
+    outcome: Pick<MCPToolCallRecord, 'status' | 'result' | 'error'>,
+  ): void {
+    const record: MCPToolCallRecord = {
+      id: generateId(),
+      serverId: server.id,
+      serverName: server.name,
+      toolName,
+      args,
+      durationMs: Date.now() - startTime,
+      timestamp: new Date(startTime).toISOString(),
+      ...outcome,
+    };
+
+    try {
+      options.onToolCallRecord?.(record);
+    } catch (error) {
+      logger.error('Error recording tool call:', error);
+    }
+  }
+
+  /**
+   * Report the progress of a tool call to the caller that made it
+   * @param options Tool creation options of the call
+   * @param event Progress of a tool call
+   */
+  private _emitToolProgress(options: ToolCreationOptions, event: MCPToolProgressEvent): void {
+    try {
+      options.onToolProgress?.(event);
+    } catch (error) {
+      logger.error('Error reporting tool progress:', error);
+    }
+  }
+
+  /**
+   * Get the Zod schema of a tool, converting its JSON schema once per snapshot version
+   * @param version Snapshot version
+   * @param serverId Server ID
+   * @param tool Tool definition
+   */
+  private _getSchema(version: number, serverId: string, tool: MCPTool): any {
+    if (this._schemas.version !== version) {
+      this._schemas = { version, byTool: new Map() };
+    }
+
+    const key = `${serverId}/${tool.name}`;
+
+    if (!this._schemas.byTool.has(key)) {
+      this._schemas.byTool.set(key, JSONSchemaToZod.convert(tool.inputSchema || { type: 'object', properties: {} }));
+    }
+
+    return this._schemas.byTool.get(key);
+  }
+
   /**
    * Generate the full tool name
    * @param serverId Server ID
@@ -218,8 +633,8 @@ Tools will be executed and their results returned to you.
    * @returns Full tool name
    */
   private _getToolName(serverId: string, toolName: string): string {
-    // For GitHub tools, use the tool name directly if it already has the github_ prefix
-    if (serverId === 'github' && toolName.startsWith('github_')) {
+    // For GitHub and GitLab tools, use the tool name directly if it already has the server prefix
+    if ((serverId === 'github' || serverId === 'gitlab') && toolName.startsWith(`${serverId}_`)) {
       return toolName;
     }
 
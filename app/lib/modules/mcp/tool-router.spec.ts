@@ -0,0 +1,102 @@
+import { describe, expect, it, vi } from 'vitest';
+import { MCPToolRouter, scoreBM25, tokenize } from './tool-router';
+import type { MCPTool, MCPToolSnapshot } from './config';
+
+function createTool(name: string, description: string): MCPTool {
+  return { name, description, inputSchema: { type: 'object', properties: {} } };
+}
+
+const snapshot: MCPToolSnapshot = {
+  version: 1,
+  tools: {
+    github: [
+      createTool('create_issue', 'Create an issue in a repository'),
+      createTool('list_pull_requests', 'List the pull requests of a repository'),
+    ],
+    slack: [createTool('post_message', 'Post a message to a channel')],
+  },
+};
+
+describe('tokenize', () => {
+  it('should split names and drop stop words', () => {
+    expect(tokenize('Please create the new issue with createIssue and list_pull_requests')).toEqual([
+      'create',
+      'new',
+      'issue',
+      'create',
+      'issue',
+      'list',
+      'pull',
+      'requests',
+    ]);
+  });
+});
+
+describe('scoreBM25', () => {
+  it('should score documents containing the query terms higher', () => {
+    const [issue, message] = scoreBM25(['issue'], [tokenize('create issue'), tokenize('post message')]);
+
+    expect(issue).toBeGreaterThan(0);
+    expect(message).toBe(0);
+  });
+});
+
+describe('MCPToolRouter', () => {
+  const router = MCPToolRouter.getInstance();
+
+  it('should offer all tools when they fit in the limits', async () => {
+    const route = await router.route(snapshot, 'post to slack');
+
+    expect(route.method).toBe('all');
+    expect(route.tools).toHaveLength(3);
+  });
+
+  it('should only consider the selected tools', async () => {
+    const route = await router.route(snapshot, 'anything', {
+      servers: ['github'],
+      tools: { github: ['create_issue'] },
+    });
+
+    expect(route.selection).toEqual({ servers: ['github'], tools: { github: ['create_issue'] } });
+  });
+
+  it('should offer the most relevant tools when there are too many', async () => {
+    const route = await router.route(snapshot, 'post a message to the team channel', undefined, { maxTools: 1 });
+
+    expect(route.method).toBe('bm25');
+    expect(route.selection).toEqual({ servers: ['slack'], tools: { slack: ['post_message'] } });
+  });
+
+  it('should keep the offered tools within the token budget', async () => {
+    const route = await router.route(snapshot, 'create an issue', undefined, { tokenBudget: 40 });
+
+    expect(route.tokens).toBeLessThanOrEqual(40);
+    expect(route.tools.length).toBeLessThan(3);
+  });
+
+  it('should rank tools by embedding similarity', async () => {
+    const embed = vi.fn(async (texts: string[]) =>
+      texts.map((text) => (text.includes('pull_requests') || text === 'review' ? [1, 0] : [0, 1])),
+    );
+
+    const route = await router.route(snapshot, 'review', undefined, {
+      maxTools: 1,
+      embed,
+      embeddingModel: 'test',
+    });
+
+    expect(route.method).toBe('embedding');
+    expect(route.tools.map((tool) => tool.toolName)).toEqual(['list_pull_requests']);
+  });
+
+  it('should fall back to BM25 when embedding fails', async () => {
+    const embed = vi.fn(async () => {
+      throw new Error('Rate limited');
+    });
+
+    const route = await router.route(snapshot, 'create an issue', undefined, { maxTools: 1, embed });
+
+    expect(route.method).toBe('bm25');
+    expect(route.tools.map((tool) => tool.toolName)).toEqual(['create_issue']);
+  });
+});
@@ -0,0 +1,372 @@
+/**
+ * MCP Tool Router
+ * Picks the tools most relevant to the conversation so their definitions stay within a token budget
+ * Tools are scored with BM25 over their names, descriptions and parameters, or by embedding
+ * similarity when an embedding model is available
+ */
+
+import { createScopedLogger } from '~/utils/logger';
+import type { MCPTool, MCPToolSelection, MCPToolSnapshot } from './config';
+import { isToolSelected } from './tool-selection';
+
+const logger = createScopedLogger('MCPToolRouter');
+
+// Tools offered per message unless configured otherwise
+export const DEFAULT_MAX_ROUTED_TOOLS = 20;
+
+// Estimated tokens the offered tool definitions may take unless configured otherwise
+export const DEFAULT_TOOL_TOKEN_BUDGET = 4000;
+
+// BM25 parameters
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Words that say nothing about which tool fits
+const STOP_WORDS = new Set([
+  'a',
+  'an',
+  'and',
+  'are',
+  'as',
+  'at',
+  'be',
+  'by',
+  'can',
+  'for',
+  'from',
+  'i',
+  'in',
+  'is',
+  'it',
+  'me',
+  'my',
+  'of',
+  'on',
+  'or',
+  'please',
+  'that',
+  'the',
+  'this',
+  'to',
+  'with',
+  'you',
+]);
+
+/**
+ * Options for routing tools
+ */
+export interface ToolRouterOptions {
+  /**
+   * Most tools to offer
+   */
+  maxTools?: number;
+
+  /**
+   * Most estimated tokens the offered tool definitions may take
+   */
+  tokenBudget?: number;
+
+  /**
+   * Embed texts with an embedding model; tools are scored with BM25 without it or when it fails
+   * @param texts Texts to embed
+   */
+  embed?: (texts: string[]) => Promise<number[][]>;
+
+  /**
+   * Name of the embedding model, used to cache the tool embeddings
+   */
+  embeddingModel?: string;
+}
+
+/**
+ * Tool with its relevance to the conversation
+ */
+export interface RankedTool {
+  serverId: string;
+  toolName: string;
+  score: number;
+
+  /**
+   * Estimated tokens of the tool definition
+   */
+  tokens: number;
+}
+
+/**
+ * Tools chosen for a message
+ */
+export interface ToolRoute {
+  /**
+   * Selection offering only the chosen tools
+   */
+  selection: MCPToolSelection;
+  tools: RankedTool[];
+  method: 'all' | 'bm25' | 'embedding';
+  tokens: number;
+}
+
+interface ToolDocument {
+  serverId: string;
+  tool: MCPTool;
+  text: string;
+  tokens: number;
+}
+
+/**
+ * Split a text into lowercase search terms, breaking up snake_case and camelCase names
+ * @param text Text to split
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((term) => term.length > 1 && !STOP_WORDS.has(term));
+}
+
+/**
+ * Estimate the tokens of a text
+ * @param text Text to measure
+ */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Cosine similarity of two vectors
+ * @param a First vector
+ * @param b Second vector
+ */
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * Score documents against a query with BM25
+ * @param query Search terms of the query
+ * @param documents Search terms of each document
+ */
+export function scoreBM25(query: string[], documents: string[][]): number[] {
+  const averageLength = documents.reduce((total, terms) => total + terms.length, 0) / (documents.length || 1);
+  const documentFrequency = new Map<string, number>();
+
+  documents.forEach((terms) =>
+    new Set(terms).forEach((term) => documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1)),
+  );
+
+  const queryTerms = new Set(query);
+
+  return documents.map((terms) => {
+    const frequency = new Map<string, number>();
+    terms.forEach((term) => frequency.set(term, (frequency.get(term) ?? 0) + 1));
+
+    let score = 0;
+
+    for (const term of queryTerms) {
+      const count = frequency.get(term);
+
+      if (!count) {
+        continue;
+      }
+
+      const containing = documentFrequency.get(term) ?? 0;
+      const idf = Math.log(1 + (documents.length - containing + 0.5) / (containing + 0.5));
+      score +=
+        (idf * count * (BM25_K1 + 1)) /
+        (count + BM25_K1 * (1 - BM25_B + (BM25_B * terms.length) / (averageLength || 1)));
+    }
+
+    return score;
+  });
+}
+
+/**
+ * Routes the tools of a snapshot to the messages they are relevant to
+ */
+export class MCPToolRouter {
+  private static _instance: MCPToolRouter;
+
+  // Tool embeddings keyed by model and document text, so they are only computed once
+  private _embeddings: Map<string, number[]> = new Map();
+
+  private constructor() {
+    // Private constructor to enforce singleton pattern
+  }
+
+  /**
+   * Get the singleton instance of the router
+   */
+  static getInstance(): MCPToolRouter {
+    if (!MCPToolRouter._instance) {
+      MCPToolRouter._instance = new MCPToolRouter();
+    }
+
+    return MCPToolRouter._instance;
+  }
+
+  /**
+   * Choose the tools to offer for a message
+   * Every tool is offered while all of them fit in the limits
+   * @param snapshot Tool definitions to choose from
+   * @param query Text of the message and its recent context
+   * @param selection Servers and tools of the chat; only selected tools are considered
+   * @param options Limits and embedding model
+   */
+  async route(
+    snapshot: MCPToolSnapshot,
+    query: string,
+    selection?: MCPToolSelection,
+    options: ToolRouterOptions = {},
+  ): Promise<ToolRoute> {
+    const maxTools = options.maxTools ?? DEFAULT_MAX_ROUTED_TOOLS;
+    const tokenBudget = options.tokenBudget ?? DEFAULT_TOOL_TOKEN_BUDGET;
+    const documents = this._getDocuments(snapshot, selection);
+    const totalTokens = documents.reduce((total, document) => total + document.tokens, 0);
+
+    if (documents.length <= maxTools && totalTokens <= tokenBudget) {
+      logger.debug(`Offering all ${documents.length} MCP tools (${totalTokens} tokens)`);
+
+      return this._createRoute(
+        documents.map((document) => this._rank(document, 0)),
+        'all',
+      );
+    }
+
+    let method: ToolRoute['method'] = 'bm25';
+    let scores: number[] | undefined;
+
+    if (options.embed) {
+      try {
+        scores = await this._scoreEmbeddings(query, documents, options.embed, options.embeddingModel ?? '');
+        method = 'embedding';
+      } catch (error) {
+        logger.warn('Failed to embed the tools, scoring them with BM25 instead:', error);
+      }
+    }
+
+    scores ??= scoreBM25(
+      tokenize(query),
+      documents.map((document) => tokenize(document.text)),
+    );
+
+    const ranked = documents
+      .map((document, index) => this._rank(document, scores[index]))
+      .sort((a, b) => b.score - a.score);
+
+    const chosen: RankedTool[] = [];
+    let tokens = 0;
+
+    // Tools that do not fit are skipped so smaller, less relevant ones can still use the budget
+    for (const tool of ranked) {
+      if (chosen.length >= maxTools) {
+        break;
+      }
+
+      if (tokens + tool.tokens <= tokenBudget) {
+        chosen.push(tool);
+        tokens += tool.tokens;
+      }
+    }
+
+    const route = this._createRoute(chosen, method);
+
+    logger.info(
+      `Routed ${chosen.length} of ${documents.length} MCP tools (${route.tokens} of ${totalTokens} tokens, ${method}): ` +
+        chosen.map((tool) => `${tool.serverId}/${tool.toolName} (${tool.score.toFixed(3)})`).join(', '),
+    );
+
+    return route;
+  }
+
+  /**
+   * Describe the selected tools of a snapshot for scoring
+   * @param snapshot Tool definitions
+   * @param selection Servers and tools of the chat
+   */
+  private _getDocuments(snapshot: MCPToolSnapshot, selection?: MCPToolSelection): ToolDocument[] {
+    return Object.entries(snapshot.tools).flatMap(([serverId, tools]) =>
+      tools
+        .filter((tool) => isToolSelected(selection, serverId, tool.name))
+        .map((tool) => {
+          const parameters = Object.entries(tool.inputSchema?.properties ?? {}).map(
+            ([name, schema]) => `${name} ${(schema as { description?: string }).description ?? ''}`,
+          );
+
+          return {
+            serverId,
+            tool,
+
+            // The name is repeated because it says the most about the tool
+            text: [serverId, tool.name, tool.name, tool.description ?? '', ...parameters].join('\n'),
+            tokens: estimateTokens(
+              JSON.stringify({ name: tool.name, description: tool.description, schema: tool.inputSchema }),
+            ),
+          };
+        }),
+    );
+  }
+
+  /**
+   * Score the documents by the similarity of their embeddings to the query
+   * @param query Text of the message and its recent context
+   * @param documents Tool documents
+   * @param embed Embedding function
+   * @param model Name of the embedding model
+   */
+  private async _scoreEmbeddings(
+    query: string,
+    documents: ToolDocument[],
+    embed: (texts: string[]) => Promise<number[][]>,
+    model: string,
+  ): Promise<number[]> {
+    const missing = [...new Set(documents.map((document) => document.text))].filter(
+      (text) => !this._embeddings.has(`${model}\n${text}`),
+    );
+    const [queryEmbedding, ...embeddings] = await embed([query, ...missing]);
+
+    missing.forEach((text, index) => this._embeddings.set(`${model}\n${text}`, embeddings[index]));
+
+    return documents.map((document) =>
+      cosineSimilarity(queryEmbedding, this._embeddings.get(`${model}\n${document.text}`) ?? []),
+    );
+  }
+
+  /**
+   * Create the ranking entry of a tool
+   * @param document Tool document
+   * @param score Relevance of the tool
+   */
+  private _rank(document: ToolDocument, score: number): RankedTool {
+    return { serverId: document.serverId, toolName: document.tool.name, score, tokens: document.tokens };
+  }
+
+  /**
+   * Create a route offering the chosen tools
+   * @param tools Chosen tools
+   * @param method How the tools were chosen
+   */
+  private _createRoute(tools: RankedTool[], method: ToolRoute['method']): ToolRoute {
+    const toolNames: Record<string, string[]> = {};
+
+    for (const tool of tools) {
+      (toolNames[tool.serverId] ??= []).push(tool.toolName);
+    }
+
+    return {
+      selection: { servers: Object.keys(toolNames), tools: toolNames },
+      tools,
+      method,
+      tokens: tools.reduce((total, tool) => total + tool.tokens, 0),
+    };
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * MCP Tool Selection
+ * Chats can limit the servers and tools offered to the model, and selections can be saved as named toolsets
+ */
+
+import { atom } from 'nanostores';
+import { generateId } from 'ai';
+import { getLocalStorage, setLocalStorage } from '~/lib/persistence/localStorage';
+import type { MCPSavedToolset, MCPToolSelection } from './config';
+
+const SAVED_TOOLSETS_KEY = 'mcp_toolsets';
+
+/**
+ * Whether a tool is offered to the model
+ * @param selection Selection of the chat; every tool is offered without one
+ * @param serverId ID of the server
+ * @param toolName Name of the tool on the server
+ */
+export function isToolSelected(selection: MCPToolSelection | undefined, serverId: string, toolName: string): boolean {
+  if (!selection) {
+    return true;
+  }
+
+  if (!selection.servers.includes(serverId)) {
+    return false;
+  }
+
+  const tools = selection.tools?.[serverId];
+
+  return !tools || tools.includes(toolName);
+}
+
+/**
+ * Toggle a server in a selection
+ * Servers are switched on with all of their tools
+ * @param selection Current selection
+ * @param serverId ID of the server
+ * @param active Whether the server should be active
+ */
+export function selectServer(selection: MCPToolSelection, serverId: string, active: boolean): MCPToolSelection {
+  const { [serverId]: _removed, ...tools } = selection.tools ?? {};
+  const servers = selection.servers.filter((id) => id !== serverId);
+
+  return { servers: active ? [...servers, serverId] : servers, tools };
+}
+
+/**
+ * Toggle one tool of a server in a selection
+ * @param selection Current selection
+ * @param serverId ID of the server
+ * @param toolNames Names of all tools of the server
+ * @param toolName Name of the tool to toggle
+ * @param active Whether the tool should be active
+ */
+export function selectTool(
+  selection: MCPToolSelection,
+  serverId: string,
+  toolNames: string[],
+  toolName: string,
+  active: boolean,
+): MCPToolSelection {
+  const current = selection.servers.includes(serverId) ? (selection.tools?.[serverId] ?? toolNames) : [];
+  const tools = active ? [...new Set([...current, toolName])] : current.filter((name) => name !== toolName);
+
+  if (tools.length === 0) {
+    return selectServer(selection, serverId, false);
+  }
+
+  const servers = selection.servers.includes(serverId) ? selection.servers : [...selection.servers, serverId];
+  const { [serverId]: _removed, ...otherTools } = selection.tools ?? {};
+
+  // A server with every tool active needs no list, so tools it adds later are offered too
+  return {
+    servers,
+    tools: tools.length === toolNames.length ? otherTools : { ...otherTools, [serverId]: tools },
+  };
+}
+
+export const savedToolsets = atom<MCPSavedToolset[]>(getLocalStorage(SAVED_TOOLSETS_KEY) ?? []);
+
+/**
+ * Save a selection as a named toolset, replacing a toolset with the same name
+ * @param name Name of the toolset
+ * @param selection Servers and tools of the toolset
+ */
+export function saveToolset(name: string, selection: MCPToolSelection): MCPSavedToolset {
+  const existing = savedToolsets.get().find((toolset) => toolset.name === name);
+  const toolset: MCPSavedToolset = { id: existing?.id ?? generateId(), name, selection };
+
+  savedToolsets.set([...savedToolsets.get().filter((saved) => saved.id !== toolset.id), toolset]);
+  setLocalStorage(SAVED_TOOLSETS_KEY, savedToolsets.get());
+
+  return toolset;
+}
+
+/**
+ * Delete a saved toolset
+ * @param id ID of the toolset
+ */
+export function deleteToolset(id: string): void {
+  savedToolsets.set(savedToolsets.get().filter((toolset) => toolset.id !== id));
+  setLocalStorage(SAVED_TOOLSETS_KEY, savedToolsets.get());
+}
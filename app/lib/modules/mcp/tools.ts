@@ -0,0 +1,33 @@
+/**
+ * MCP Tools Module
+ * Helpers for calling MCP tools with cancellation and progress reporting
+ */
+
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { MCPToolCallOptions } from './config';
+
+/**
+ * Call a tool on a connected client
+ * Aborting the signal sends `notifications/cancelled` to the server, and progress notifications
+ * keep the request from timing out
+ * @param client Connected MCP client
+ * @param toolName Name of the tool
+ * @param args Arguments for the tool
+ * @param options Cancellation and progress reporting
+ */
+export async function callClientTool(
+  client: Client,
+  toolName: string,
+  args: any,
+  { signal, onProgress }: MCPToolCallOptions = {},
+): Promise<any> {
+  return client.callTool({ name: toolName, arguments: args }, undefined, {
+    signal,
+
+    // Setting a progress handler makes the client send a progress token with the request
+    onprogress: onProgress
+      ? ({ progress, total, message }) => onProgress({ progress, total, message: message as string | undefined })
+      : undefined,
+    resetTimeoutOnProgress: !!onProgress,
+  });
+}
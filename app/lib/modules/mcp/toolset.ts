@@ -4,9 +4,9 @@
 
 import { type Tool } from 'ai';
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
-import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
 import { JSONSchemaToZod } from '@dmitryrechkin/json-schema-to-zod';
 import { createScopedLogger } from '~/utils/logger';
+import { connectHttpTransport } from './transport';
 
 const logger = createScopedLogger('MCPToolset');
 
@@ -40,9 +40,7 @@ export async function createToolSet(config: ToolSetConfig): Promise<ToolSet> {
     try {
       logger.info(`Setting up MCP client for server: ${serverName} (${serverConfig.baseUrl})`);
 
-      // Create SSE transport layer - direct initialization
       const url = new URL(serverConfig.baseUrl);
-      const transport = new SSEClientTransport(url);
 
       // Create MCP client
       const client = new Client({
@@ -54,14 +52,9 @@ export async function createToolSet(config: ToolSetConfig): Promise<ToolSet> {
       toolset.clients[serverName] = client;
 
       try {
-        // Connect client with timeout
-        const connectPromise = client.connect(transport);
-        const timeoutPromise = new Promise((_, reject) => {
-          setTimeout(() => reject(new Error('Connection timeout')), 10000); // 10 second timeout
-        });
-
-        await Promise.race([connectPromise, timeoutPromise]);
-        logger.info(`Successfully connected to MCP server: ${serverName}`);
+        // Connect client with timeout, negotiating Streamable HTTP with SSE fallback
+        const { type } = await connectHttpTransport(client, url);
+        logger.info(`Successfully connected to MCP server: ${serverName} via ${type}`);
 
         // Get list of tools
         const toolList = await client.listTools();
@@ -0,0 +1,181 @@
+/**
+ * MCP HTTP Transport Negotiation
+ * Connects MCP clients over Streamable HTTP, falling back to the legacy SSE transport
+ */
+
+import { createScopedLogger } from '~/utils/logger';
+import type { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { OAuthClientProvider } from '@modelcontextprotocol/sdk/client/auth.js';
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
+import { StreamableHTTPClientTransport, StreamableHTTPError } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import type { MCPTransportType } from './config';
+import { isAuthorizationError } from './oauth';
+
+const logger = createScopedLogger('MCPTransport');
+
+// Default connection timeout in milliseconds (10 seconds)
+const DEFAULT_CONNECT_TIMEOUT = 10000;
+
+/**
+ * Transports that can be negotiated over HTTP
+ */
+export type MCPHttpTransportType = Exclude<MCPTransportType, 'stdio'>;
+
+/**
+ * Options for connecting over HTTP
+ */
+export interface HttpTransportOptions {
+  /**
+   * Force a specific transport instead of negotiating
+   */
+  preferred?: MCPTransportType;
+
+  /**
+   * Streamable HTTP session to resume
+   */
+  sessionId?: string;
+
+  /**
+   * Protocol version negotiated when the session was created
+   */
+  protocolVersion?: string;
+
+  /**
+   * Extra headers sent with every request (e.g. Authorization)
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * OAuth provider that supplies (and refreshes) the access token
+   */
+  authProvider?: OAuthClientProvider;
+
+  /**
+   * Connection timeout in milliseconds
+   */
+  timeout?: number;
+}
+
+/**
+ * Result of a successful HTTP connection
+ */
+export interface HttpTransportConnection {
+  transport: Transport;
+  type: MCPHttpTransportType;
+  sessionId?: string;
+  protocolVersion?: string;
+}
+
+/**
+ * Human readable label for a transport type
+ * @param type Transport type
+ */
+export function getTransportLabel(type?: MCPTransportType): string {
+  switch (type) {
+    case 'streamable-http':
+      return 'Streamable HTTP';
+    case 'sse':
+      return 'SSE';
+    case 'stdio':
+      return 'stdio';
+    default:
+      return 'Unknown';
+  }
+}
+
+/**
+ * Connect a client with a timeout, closing it again if the handshake fails
+ * @param client MCP client
+ * @param transport Transport to connect
+ * @param timeout Timeout in milliseconds
+ */
+async function connectWithTimeout(client: Client, transport: Transport, timeout: number): Promise<void> {
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+  const timeoutPromise = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(() => reject(new Error('Connection timeout')), timeout);
+  });
+
+  try {
+    await Promise.race([client.connect(transport), timeoutPromise]);
+  } catch (error) {
+    await client.close().catch(() => undefined);
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Connect a client to an HTTP MCP server
+ * Streamable HTTP is tried first; servers that reject it are retried over SSE
+ * @param client MCP client to connect
+ * @param url Server URL
+ * @param options Connection options
+ * @returns The connected transport and the negotiated transport type
+ */
+export async function connectHttpTransport(
+  client: Client,
+  url: URL,
+  options: HttpTransportOptions = {},
+): Promise<HttpTransportConnection> {
+  const timeout = options.timeout ?? DEFAULT_CONNECT_TIMEOUT;
+  const requestInit: RequestInit | undefined = options.headers ? { headers: options.headers } : undefined;
+
+  if (options.preferred !== 'sse') {
+    const transport = new StreamableHTTPClientTransport(url, {
+      requestInit,
+      authProvider: options.authProvider,
+      sessionId: options.sessionId,
+    });
+
+    // Resumed sessions skip the initialize handshake, so restore the negotiated protocol version
+    if (options.sessionId && options.protocolVersion) {
+      transport.setProtocolVersion(options.protocolVersion);
+    }
+
+    try {
+      await connectWithTimeout(client, transport, timeout);
+
+      if (options.sessionId) {
+        // Resumed sessions skip the handshake, so make sure the server still knows the session
+        await client.ping();
+        logger.info(`Resumed Streamable HTTP session ${options.sessionId} for ${url}`);
+      }
+
+      return {
+        transport,
+        type: 'streamable-http',
+        sessionId: transport.sessionId,
+        protocolVersion: transport.protocolVersion,
+      };
+    } catch (error) {
+      await client.close().catch(() => undefined);
+
+      // The server no longer knows this session, so start a fresh one
+      if (options.sessionId && error instanceof StreamableHTTPError && error.code === 404) {
+        logger.info(`Streamable HTTP session ${options.sessionId} expired for ${url}, starting a new session`);
+        return connectHttpTransport(client, url, { ...options, sessionId: undefined, protocolVersion: undefined });
+      }
+
+      // The server understood the request but wants credentials, so SSE would fail the same way
+      if (options.preferred === 'streamable-http' || isAuthorizationError(error)) {
+        throw error;
+      }
+
+      logger.info(`Streamable HTTP connection to ${url} failed, falling back to SSE`, {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  const transport = new SSEClientTransport(url, { requestInit, authProvider: options.authProvider });
+
+  await connectWithTimeout(client, transport, timeout);
+
+  return {
+    transport,
+    type: 'sse',
+  };
+}
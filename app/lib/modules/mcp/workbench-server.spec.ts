@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createWorkbenchToolDeclarations,
+  DEFAULT_WORKBENCH_SETTINGS,
+  getWorkbenchToolDefinitions,
+  resolveWorkbenchPath,
+} from './workbench-server';
+import { WORK_DIR } from '~/utils/constants';
+
+describe('resolveWorkbenchPath', () => {
+  it('should resolve relative paths in the project folder', () => {
+    expect(resolveWorkbenchPath('src/index.ts')).toBe(`${WORK_DIR}/src/index.ts`);
+    expect(resolveWorkbenchPath('./src/../package.json')).toBe(`${WORK_DIR}/package.json`);
+    expect(resolveWorkbenchPath()).toBe(WORK_DIR);
+  });
+
+  it('should keep absolute paths in the project folder', () => {
+    expect(resolveWorkbenchPath(`${WORK_DIR}/src/`)).toBe(`${WORK_DIR}/src`);
+  });
+
+  it('should reject paths outside of the project folder', () => {
+    expect(() => resolveWorkbenchPath('../etc/passwd')).toThrow(`is outside of the project folder ${WORK_DIR}`);
+    expect(() => resolveWorkbenchPath('/etc/passwd')).toThrow();
+    expect(() => resolveWorkbenchPath(`${WORK_DIR}-other/file`)).toThrow();
+  });
+});
+
+describe('createWorkbenchToolDeclarations', () => {
+  it('should declare the tools with the default policies', () => {
+    const tools = createWorkbenchToolDeclarations(undefined, DEFAULT_WORKBENCH_SETTINGS);
+
+    expect(Object.keys(tools)).toEqual([
+      'workbench_read_file',
+      'workbench_list_dir',
+      'workbench_search_files',
+      'workbench_write_file',
+      'workbench_run_command',
+    ]);
+    expect(tools.workbench_run_command).toHaveProperty('description', expect.stringContaining('user approves it'));
+    expect(tools.workbench_read_file).toHaveProperty('description', 'Read a text file of the project');
+  });
+
+  it('should follow the stored policies of the server', () => {
+    const settings = {
+      enabled: true,
+      toolPolicies: { default: 'allow' as const, tools: { run_command: 'deny' as const } },
+    };
+    const tools = createWorkbenchToolDeclarations(undefined, settings);
+
+    expect(tools.workbench_run_command).toBeUndefined();
+    expect(tools.workbench_write_file).not.toHaveProperty('description', expect.stringContaining('approves'));
+    expect(getWorkbenchToolDefinitions(settings).map(({ name }) => name)).not.toContain('run_command');
+  });
+
+  it('should not declare the tools of a disabled server', () => {
+    const settings = { ...DEFAULT_WORKBENCH_SETTINGS, enabled: false };
+
+    expect(createWorkbenchToolDeclarations(undefined, settings)).toEqual({});
+    expect(getWorkbenchToolDefinitions(settings)).toEqual([]);
+  });
+
+  it('should only declare the selected tools', () => {
+    const tools = createWorkbenchToolDeclarations(
+      { servers: ['workbench'], tools: { workbench: ['read_file'] } },
+      DEFAULT_WORKBENCH_SETTINGS,
+    );
+
+    expect(Object.keys(tools)).toEqual(['workbench_read_file']);
+  });
+});
@@ -0,0 +1,429 @@
+/**
+ * Workbench MCP Server
+ * Built-in MCP server that lets the model read and change the project in the WebContainer
+ * The server runs in the browser next to the workbench; the chat API only declares its tools
+ * and the browser executes the calls, sending the results back to the model
+ */
+
+import { tool, type Tool } from 'ai';
+import { z } from 'zod';
+import type { WebContainer } from '@webcontainer/api';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { FilesStore } from '~/lib/stores/files';
+import { cleanTerminalOutput } from '~/utils/shell';
+import { WORK_DIR } from '~/utils/constants';
+import { path } from '~/utils/path';
+import { createScopedLogger } from '~/utils/logger';
+import { MCPServerRegistry } from './registry';
+import { InProcessMCPServerAdapter } from './adapters/in-process-adapter';
+import { isToolSelected } from './tool-selection';
+import { createToolDeniedResult, resolveToolPolicy } from './approval';
+import type { MCPTool, MCPToolPolicies, MCPToolSelection } from './config';
+
+const logger = createScopedLogger('WorkbenchMCPServer');
+
+export const WORKBENCH_SERVER_ID = 'workbench';
+export const WORKBENCH_SERVER_NAME = 'Workbench';
+
+// Most characters of command output returned to the model; the end of the output is kept
+const MAX_COMMAND_OUTPUT = 20000;
+
+// Matches returned by search_files unless the model asks for fewer
+const DEFAULT_SEARCH_RESULTS = 50;
+
+/**
+ * Parts of the workbench the server works on
+ */
+export interface WorkbenchAccess {
+  files: FilesStore;
+  webcontainer: Promise<WebContainer>;
+}
+
+/**
+ * Settings of the workbench server that the user can change
+ * They are stored in the browser with the other servers and sent with every chat request,
+ * because the tools are declared on the server but run in the browser
+ */
+export interface WorkbenchServerSettings {
+  enabled: boolean;
+  toolPolicies?: MCPToolPolicies;
+}
+
+const WORKBENCH_TOOLS = {
+  read_file: {
+    description: 'Read a text file of the project',
+    inputSchema: {
+      path: z.string().describe(`Path of the file, relative to ${WORK_DIR} or absolute`),
+    },
+  },
+  list_dir: {
+    description: 'List the files and folders in a folder of the project; folder names end with a slash',
+    inputSchema: {
+      path: z.string().optional().describe(`Path of the folder, relative to ${WORK_DIR}; the project root by default`),
+    },
+  },
+  search_files: {
+    description: 'Search the text files of the project for lines containing a string (case-insensitive)',
+    inputSchema: {
+      query: z.string().min(1).describe('Text to search for'),
+      path: z.string().optional().describe('Only search in this folder'),
+      maxResults: z.number().int().positive().optional().describe(`Most matches to return (${DEFAULT_SEARCH_RESULTS})`),
+    },
+  },
+  write_file: {
+    description: 'Create or overwrite a file of the project; missing folders are created',
+    inputSchema: {
+      path: z.string().describe(`Path of the file, relative to ${WORK_DIR} or absolute`),
+      content: z.string().describe('New content of the file'),
+    },
+  },
+  run_command: {
+    description:
+      'Run a shell command in the project folder in a new process and wait for it to exit; do not start dev servers with it',
+    inputSchema: {
+      command: z.string().min(1).describe('Command to run'),
+    },
+  },
+};
+
+type WorkbenchToolName = keyof typeof WORKBENCH_TOOLS;
+
+// Tools that change the project or run commands only run after the user approves the call
+const WORKBENCH_TOOL_POLICIES: MCPToolPolicies = {
+  default: 'allow',
+  tools: { write_file: 'ask', run_command: 'ask' },
+};
+
+// Settings of the workbench server before the user changes them
+export const DEFAULT_WORKBENCH_SETTINGS: WorkbenchServerSettings = {
+  enabled: true,
+  toolPolicies: WORKBENCH_TOOL_POLICIES,
+};
+
+/**
+ * Get the name the model calls a workbench tool by
+ * Matches the names MCPToolFactory gives the tools of a server
+ * @param toolName Name of the tool on the server
+ */
+export function getWorkbenchToolName(toolName: string): string {
+  return `${WORKBENCH_SERVER_ID}_${toolName}`;
+}
+
+/**
+ * Resolve a path given by the model to an absolute path in the project
+ * @param filePath Relative or absolute path
+ * @throws Error when the path is outside the project
+ */
+export function resolveWorkbenchPath(filePath = ''): string {
+  const resolved = path.normalize(path.isAbsolute(filePath) ? filePath : path.join(WORK_DIR, filePath));
+  const trimmed = resolved.length > 1 ? resolved.replace(/\/+$/, '') : resolved;
+
+  if (trimmed !== WORK_DIR && !trimmed.startsWith(`${WORK_DIR}/`)) {
+    throw new Error(`Path ${filePath} is outside of the project folder ${WORK_DIR}`);
+  }
+
+  return trimmed;
+}
+
+/**
+ * Create a tool result with a text
+ * @param text Text of the result
+ * @param isError Whether the text describes an error
+ */
+function textResult(text: string, isError = false): CallToolResult {
+  return { content: [{ type: 'text', text }], ...(isError && { isError }) };
+}
+
+/**
+ * Run a tool handler, turning errors into error results the model can read
+ * @param toolName Name of the tool
+ * @param handler Tool handler
+ */
+async function runTool(toolName: string, handler: () => Promise<CallToolResult>): Promise<CallToolResult> {
+  try {
+    return await handler();
+  } catch (error) {
+    logger.error(`Workbench tool ${toolName} failed:`, error);
+    return textResult(error instanceof Error ? error.message : String(error), true);
+  }
+}
+
+/**
+ * Create the workbench MCP server
+ * @param access Parts of the workbench the tools work on
+ */
+export function createWorkbenchMCPServer({ files, webcontainer }: WorkbenchAccess): McpServer {
+  const server = new McpServer({ name: 'bolt-workbench', version: '1.0.0' });
+
+  server.registerTool('read_file', WORKBENCH_TOOLS.read_file, ({ path: filePath }) =>
+    runTool('read_file', async () => {
+      const absolutePath = resolveWorkbenchPath(filePath);
+      const file = files.getFile(absolutePath);
+
+      if (file?.isBinary) {
+        return textResult(`${absolutePath} is a binary file`, true);
+      }
+
+      if (file) {
+        return textResult(file.content);
+      }
+
+      // Files in ignored folders such as node_modules are not in the store
+      const container = await webcontainer;
+
+      return textResult(await container.fs.readFile(path.relative(container.workdir, absolutePath), 'utf-8'));
+    }),
+  );
+
+  server.registerTool('list_dir', WORKBENCH_TOOLS.list_dir, ({ path: dirPath }) =>
+    runTool('list_dir', async () => {
+      const absolutePath = resolveWorkbenchPath(dirPath);
+      const container = await webcontainer;
+      const entries = await container.fs.readdir(path.relative(container.workdir, absolutePath) || '.', {
+        withFileTypes: true,
+      });
+      const names = entries
+        .map((entry) => (entry.isDirectory() ? `${entry.name}/` : entry.name))
+        .sort((a, b) => a.localeCompare(b));
+
+      return textResult(names.length > 0 ? names.join('\n') : `${absolutePath} is empty`);
+    }),
+  );
+
+  server.registerTool('search_files', WORKBENCH_TOOLS.search_files, ({ query, path: dirPath, maxResults }) =>
+    runTool('search_files', async () => {
+      const folder = resolveWorkbenchPath(dirPath);
+      const limit = maxResults ?? DEFAULT_SEARCH_RESULTS;
+      const needle = query.toLowerCase();
+      const matches: string[] = [];
+
+      for (const [filePath, dirent] of Object.entries(files.files.get())) {
+        if (dirent?.type !== 'file' || dirent.isBinary || !filePath.startsWith(`${folder}/`)) {
+          continue;
+        }
+
+        const lines = dirent.content.split('\n');
+
+        for (let i = 0; i < lines.length && matches.length < limit; i++) {
+          if (lines[i].toLowerCase().includes(needle)) {
+            matches.push(`${path.relative(WORK_DIR, filePath)}:${i + 1}: ${lines[i].trim()}`);
+          }
+        }
+
+        if (matches.length >= limit) {
+          break;
+        }
+      }
+
+      return textResult(matches.length > 0 ? matches.join('\n') : `No matches for "${query}"`);
+    }),
+  );
+
+  server.registerTool('write_file', WORKBENCH_TOOLS.write_file, ({ path: filePath, content }) =>
+    runTool('write_file', async () => {
+      const absolutePath = resolveWorkbenchPath(filePath);
+
+      if (absolutePath === WORK_DIR) {
+        throw new Error('A file path is required');
+      }
+
+      if (files.getFile(absolutePath)) {
+        // Keeps track of the change like an edit in the editor
+        await files.saveFile(absolutePath, content);
+      } else {
+        const container = await webcontainer;
+        const relativePath = path.relative(container.workdir, absolutePath);
+        const folder = path.dirname(relativePath);
+
+        if (folder !== '.') {
+          await container.fs.mkdir(folder, { recursive: true });
+        }
+
+        await container.fs.writeFile(relativePath, content);
+      }
+
+      return textResult(`Wrote ${content.length} characters to ${absolutePath}`);
+    }),
+  );
+
+  server.registerTool('run_command', WORKBENCH_TOOLS.run_command, ({ command }, extra) =>
+    runTool('run_command', async () => {
+      const container = await webcontainer;
+
+      // A process of its own, so the command does not interrupt what runs in the bolt terminal
+      const commandProcess = await container.spawn('jsh', ['-c', command]);
+
+      // Stop the command when the call is cancelled
+      const kill = () => commandProcess.kill();
+      extra.signal.addEventListener('abort', kill);
+
+      try {
+        let output = '';
+
+        commandProcess.output.pipeTo(
+          new WritableStream({
+            write(data) {
+              output += data;
+            },
+          }),
+        );
+
+        const exitCode = await commandProcess.exit;
+
+        output = cleanTerminalOutput(output);
+        output =
+          output.length > MAX_COMMAND_OUTPUT ? `(output truncated)\n${output.slice(-MAX_COMMAND_OUTPUT)}` : output;
+
+        return textResult(`Exit code: ${exitCode}\n\n${output}`, exitCode !== 0);
+      } finally {
+        extra.signal.removeEventListener('abort', kill);
+      }
+    }),
+  );
+
+  return server;
+}
+
+/**
+ * Register the workbench server with the registry
+ * Only works in the browser, where the workbench exists
+ * @param registry Registry to add the server to
+ * @param settings Stored settings of the server
+ */
+export async function registerWorkbenchServer(
+  registry = MCPServerRegistry.getInstance(),
+  settings: WorkbenchServerSettings = DEFAULT_WORKBENCH_SETTINGS,
+): Promise<void> {
+  const { workbenchStore } = await import('~/lib/stores/workbench');
+  const { webcontainer } = await import('~/lib/webcontainer');
+
+  const adapter = new InProcessMCPServerAdapter(WORKBENCH_SERVER_ID, WORKBENCH_SERVER_NAME, () =>
+    createWorkbenchMCPServer({ files: workbenchStore.filesStore, webcontainer }),
+  );
+  adapter.enabled = settings.enabled;
+  adapter.updateConfig({ toolPolicies: settings.toolPolicies });
+
+  registry.registerServer(adapter);
+}
+
+/**
+ * Get the settings of the registered workbench server, to send them with a chat request
+ * @param registry Registry the server is registered with
+ */
+export function getWorkbenchServerSettings(registry = MCPServerRegistry.getInstance()): WorkbenchServerSettings {
+  const server = registry.getServer(WORKBENCH_SERVER_ID);
+
+  return server
+    ? { enabled: server.enabled, toolPolicies: server.getConfig().toolPolicies }
+    : DEFAULT_WORKBENCH_SETTINGS;
+}
+
+/**
+ * Get the workbench tools the model may be offered, leaving out denied tools and all tools of a disabled server
+ * @param settings Settings of the workbench server
+ */
+function getOfferedWorkbenchTools(settings: WorkbenchServerSettings) {
+  return Object.entries(WORKBENCH_TOOLS).filter(
+    ([name]) => settings.enabled && resolveToolPolicy(settings.toolPolicies, name) !== 'deny',
+  );
+}
+
+/**
+ * Get the definitions of the workbench tools the model may be offered, so they can be routed with the MCP tools
+ * The input schemas only list the parameters with their descriptions
+ * @param settings Settings of the workbench server
+ */
+export function getWorkbenchToolDefinitions(settings: WorkbenchServerSettings = DEFAULT_WORKBENCH_SETTINGS): MCPTool[] {
+  return getOfferedWorkbenchTools(settings).map(([name, { description, inputSchema }]) => ({
+    name,
+    description,
+    inputSchema: {
+      type: 'object',
+      properties: Object.fromEntries(
+        Object.entries(inputSchema).map(([parameter, schema]) => [parameter, { description: schema.description }]),
+      ),
+    },
+  }));
+}
+
+/**
+ * Declare the workbench tools for the model without executing them
+ * Calls are answered by the browser with executeWorkbenchToolCall()
+ * @param selection Servers and tools of the chat; tools that are not selected are left out
+ * @param settings Settings of the workbench server
+ */
+export function createWorkbenchToolDeclarations(
+  selection?: MCPToolSelection,
+  settings: WorkbenchServerSettings = DEFAULT_WORKBENCH_SETTINGS,
+): Record<string, Tool> {
+  return Object.fromEntries(
+    getOfferedWorkbenchTools(settings)
+      .filter(([name]) => isToolSelected(selection, WORKBENCH_SERVER_ID, name))
+      .map(([name, { description, inputSchema }]) => [
+        getWorkbenchToolName(name),
+        tool({
+          description:
+            resolveToolPolicy(settings.toolPolicies, name) === 'ask'
+              ? `${description} (runs only after the user approves it)`
+              : description,
+          parameters: z.object(inputSchema),
+        }),
+      ]),
+  );
+}
+
+/**
+ * Execute a workbench tool call made by the model, if the tool policy of the server allows it
+ * @param toolCall Tool call of the model
+ * @param requestApproval Asks the user to approve a call of a tool with the `ask` policy, given the name of the tool on
+ * the server; such calls are denied without it
+ * @returns Text of the result, or undefined when the call is not for a workbench tool
+ */
+export async function executeWorkbenchToolCall(
+  toolCall: { toolName: string; args: unknown },
+  requestApproval?: (toolName: string, args: unknown) => Promise<boolean>,
+): Promise<string | undefined> {
+  const toolName = (Object.keys(WORKBENCH_TOOLS) as WorkbenchToolName[]).find(
+    (name) => getWorkbenchToolName(name) === toolCall.toolName,
+  );
+
+  if (!toolName) {
+    return undefined;
+  }
+
+  const server = MCPServerRegistry.getInstance().getServer(WORKBENCH_SERVER_ID);
+
+  if (!server?.enabled) {
+    return `Error: the ${WORKBENCH_SERVER_NAME} MCP server is disabled`;
+  }
+
+  // Read the policy on every call so changes apply without reloading the server
+  const policy = resolveToolPolicy(server.getConfig().toolPolicies, toolName);
+
+  if (policy === 'deny') {
+    return createToolDeniedResult(toolCall.toolName, 'it is blocked by the tool policy');
+  }
+
+  if (policy === 'ask') {
+    const approved = requestApproval ? await requestApproval(toolName, toolCall.args) : false;
+
+    if (!approved) {
+      return createToolDeniedResult(
+        toolCall.toolName,
+        requestApproval ? 'the user denied it' : 'no user is available to approve it',
+      );
+    }
+  }
+
+  try {
+    const result: CallToolResult = await server.executeToolCall(toolName, toolCall.args);
+    const text = result.content
+      .map((content) => (content.type === 'text' ? content.text : `(${content.type} content)`))
+      .join('\n');
+
+    return result.isError ? `Error: ${text}` : text;
+  } catch (error) {
+    return `Error: ${error instanceof Error ? error.message : String(error)}`;
+  }
+}
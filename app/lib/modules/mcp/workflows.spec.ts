@@ -0,0 +1,143 @@
+import { describe, expect, it, vi } from 'vitest';
+import { MCPWorkflowError, runMCPWorkflow, validateMCPWorkflow } from './workflows';
+import type { MCPWorkflow, MCPWorkflowStep } from './config';
+
+function createWorkflow(steps: MCPWorkflowStep[], output?: string): MCPWorkflow {
+  return {
+    id: 'workflow-1',
+    name: 'triage',
+    description: 'Triage an issue',
+    enabled: true,
+    inputs: [{ name: 'repo', type: 'string', required: true }],
+    steps,
+    output,
+  };
+}
+
+function step(id: string, fields: Partial<MCPWorkflowStep> = {}): MCPWorkflowStep {
+  return { id, serverId: 'github', toolName: id, ...fields };
+}
+
+describe('runMCPWorkflow', () => {
+  it('should resolve templates from the input and earlier steps', async () => {
+    const callTool = vi.fn(async ({ id }: MCPWorkflowStep, _args: Record<string, unknown>) =>
+      id === 'search' ? { items: [{ number: 7, labels: ['bug'] }] } : 'ok',
+    );
+    const workflow = createWorkflow([
+      step('search', { args: { q: 'repo:{{ input.repo }} is:open' } }),
+      step('comment', {
+        args: {
+          issue: '{{ steps.search.result.items[0].number }}',
+          note: 'labels: {{steps.search.result.items[0].labels}}',
+        },
+      }),
+    ]);
+
+    const run = await runMCPWorkflow(workflow, { repo: 'bolt/bolt' }, callTool);
+
+    expect(callTool.mock.calls.map(([, args]) => args)).toEqual([
+      { q: 'repo:bolt/bolt is:open' },
+      { issue: 7, note: 'labels: ["bug"]' },
+    ]);
+    expect(run.output).toBe('ok');
+  });
+
+  it('should unwrap MCP results and resolve the output template', async () => {
+    const workflow = createWorkflow([step('search')], 'Found {{ steps.search.result.total_count }} issues');
+
+    const run = await runMCPWorkflow(workflow, {}, async () => ({
+      content: [{ type: 'text', text: '{"total_count": 3}' }],
+    }));
+
+    expect(run.steps.search).toEqual({ status: 'success', result: { total_count: 3 } });
+    expect(run.output).toBe('Found 3 issues');
+  });
+
+  it('should skip steps whose condition is false', async () => {
+    const callTool = vi.fn(async ({ id }: MCPWorkflowStep) => (id === 'search' ? { total_count: 0, items: [] } : 'ok'));
+    const workflow = createWorkflow([
+      step('search'),
+      step('label', { when: 'steps.search.result.total_count > 0 && steps.search.result.items' }),
+      step('create', { when: 'steps.search.result.total_count == "0" || input.force' }),
+      step('close', { when: '!steps.search.result.items' }),
+      step('mention', { when: 'input.repo contains "bolt"' }),
+    ]);
+
+    const run = await runMCPWorkflow(workflow, { repo: 'octo/site' }, callTool);
+
+    expect(callTool.mock.calls.map(([{ id }]) => id)).toEqual(['search', 'create', 'close']);
+    expect(run.steps.label).toEqual({ status: 'skipped' });
+    expect(run.steps.mention).toEqual({ status: 'skipped' });
+  });
+
+  it('should retry failed steps and continue when the step allows it', async () => {
+    const callTool = vi.fn(async ({ id }: MCPWorkflowStep) => {
+      if (id === 'flaky' && callTool.mock.calls.length < 2) {
+        throw new Error('Timeout');
+      }
+
+      if (id === 'broken') {
+        throw new Error('Not found');
+      }
+
+      return 'ok';
+    });
+    const workflow = createWorkflow([step('flaky', { retries: 1 }), step('broken', { onError: 'continue' })]);
+
+    const run = await runMCPWorkflow(workflow, {}, callTool);
+
+    expect(run.steps.flaky).toEqual({ status: 'success', result: 'ok' });
+    expect(run.steps.broken).toEqual({ status: 'error', error: 'Not found' });
+  });
+
+  it('should stop at a failed step by default', async () => {
+    const workflow = createWorkflow([step('search'), step('comment')]);
+    const callTool = vi.fn(async () => ({ isError: true, content: [{ type: 'text', text: 'Bad credentials' }] }));
+
+    await expect(runMCPWorkflow(workflow, {}, callTool)).rejects.toThrow(MCPWorkflowError);
+    expect(callTool).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('validateMCPWorkflow', () => {
+  it('should accept a valid workflow', () => {
+    const workflow = createWorkflow(
+      [step('search'), step('comment', { args: { issue: '{{ steps.search.result.number }}' } })],
+      '{{ steps.comment.result }}',
+    );
+
+    expect(validateMCPWorkflow(workflow)).toEqual([]);
+  });
+
+  it('should report the problems of a workflow', () => {
+    const workflow: MCPWorkflow = {
+      ...createWorkflow([
+        step('comment', { args: { issue: '{{ steps.search.result.number }}' } }),
+        step('search', { retries: 10 }),
+        step('search', { serverId: '' }),
+      ]),
+      name: 'triage issues',
+      description: ' ',
+      inputs: [
+        { name: 'repo', type: 'string' },
+        { name: 'repo', type: 'string' },
+      ],
+      output: '{{ steps.missing.result }}',
+    };
+
+    expect(validateMCPWorkflow(workflow)).toEqual([
+      'The name must be 1 to 55 letters, digits, underscores or hyphens',
+      'The description is required so the model knows when to use the workflow',
+      'Input "repo" is defined twice',
+      'Step "comment" reads step "search", which does not run before it',
+      'Step "search" can be retried 0 to 5 times',
+      'Step "search" is defined twice',
+      'Step "search" needs a server and a tool',
+      'The output reads step "missing", which does not exist',
+    ]);
+  });
+
+  it('should require at least one step', () => {
+    expect(validateMCPWorkflow(createWorkflow([]))).toEqual(['The workflow needs at least one step']);
+  });
+});
@@ -0,0 +1,427 @@
+/**
+ * MCP Workflows
+ * Chains of tool calls across servers that are offered to the model as a single tool
+ * Step arguments are templated from the workflow input and the results of earlier steps
+ */
+
+import type { MCPWorkflow, MCPWorkflowStep } from './config';
+
+// Prefix of the tool names workflows are offered under
+export const WORKFLOW_TOOL_PREFIX = 'workflow_';
+
+// Tool names are limited to 64 characters by most providers
+const WORKFLOW_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,55}$/;
+const STEP_ID_PATTERN = /^[a-zA-Z][a-zA-Z0-9_]*$/;
+const MAX_RETRIES = 5;
+
+const TEMPLATE_PATTERN = /\{\{\s*(.+?)\s*\}\}/g;
+const PATH_SEGMENT_PATTERN = /([^.[\]]+)|\[(\d+)\]|\["([^"]*)"\]/g;
+const COMPARISON_PATTERN = /^(.+?)\s*(==|!=|>=|<=|>|<|\bcontains\b)\s*(.+)$/;
+
+/**
+ * Outcome of a workflow step
+ */
+export interface MCPWorkflowStepOutcome {
+  status: 'success' | 'error' | 'skipped';
+  result?: unknown;
+  error?: string;
+}
+
+/**
+ * Outcome of a workflow run
+ */
+export interface MCPWorkflowRun {
+  output: unknown;
+  steps: Record<string, MCPWorkflowStepOutcome>;
+}
+
+/**
+ * Values templates and conditions can read
+ */
+interface MCPWorkflowContext {
+  input: Record<string, unknown>;
+  steps: Record<string, MCPWorkflowStepOutcome>;
+}
+
+/**
+ * Runs the tool call of a step
+ * @param step Step to run
+ * @param args Arguments with the templates resolved
+ */
+export type MCPWorkflowToolCaller = (step: MCPWorkflowStep, args: Record<string, unknown>) => Promise<unknown>;
+
+/**
+ * Thrown when a step fails and the workflow stops
+ */
+export class MCPWorkflowError extends Error {
+  readonly stepId: string;
+
+  constructor(workflowName: string, stepId: string, message: string) {
+    super(`Workflow ${workflowName} failed at step ${stepId}: ${message}`);
+    this.name = 'MCPWorkflowError';
+    this.stepId = stepId;
+  }
+}
+
+/**
+ * Get the name a workflow is offered to the model under
+ * @param workflow Workflow
+ */
+export function getWorkflowToolName(workflow: Pick<MCPWorkflow, 'name'>): string {
+  return `${WORKFLOW_TOOL_PREFIX}${workflow.name}`;
+}
+
+/**
+ * Get the JSON schema of the arguments the model passes to a workflow
+ * @param workflow Workflow
+ */
+export function getWorkflowInputSchema(workflow: MCPWorkflow): Record<string, any> {
+  return {
+    type: 'object',
+    properties: Object.fromEntries(
+      workflow.inputs.map((input) => [
+        input.name,
+        { type: input.type, ...(input.description ? { description: input.description } : {}) },
+      ]),
+    ),
+    required: workflow.inputs.filter((input) => input.required).map((input) => input.name),
+  };
+}
+
+/**
+ * Read a value by its path, e.g. `steps.search.result.items[0].name`
+ * @param context Values to read from
+ * @param path Path of the value
+ */
+function readPath(context: unknown, path: string): unknown {
+  let value = context;
+
+  for (const [, key, index, quotedKey] of path.matchAll(PATH_SEGMENT_PATTERN)) {
+    if (value === null || value === undefined || typeof value !== 'object') {
+      return undefined;
+    }
+
+    value = (value as Record<string, unknown>)[key ?? index ?? quotedKey];
+  }
+
+  return value;
+}
+
+/**
+ * Get the paths a template string reads
+ * @param template Template string
+ */
+function getTemplatePaths(template: string): string[] {
+  return [...template.matchAll(TEMPLATE_PATTERN)].map(([, path]) => path);
+}
+
+/**
+ * Resolve the templates in a value
+ * A string that is a single template keeps the type of the value it reads; templates inside
+ * longer strings are replaced by their text, with objects written as JSON
+ * @param value Value to resolve; objects and arrays are resolved recursively
+ * @param context Values templates read
+ */
+function resolveTemplates(value: unknown, context: MCPWorkflowContext): unknown {
+  if (typeof value === 'string') {
+    const single = value.match(/^\{\{\s*(.+?)\s*\}\}$/);
+
+    if (single && !single[1].includes('}}')) {
+      return readPath(context, single[1]);
+    }
+
+    return value.replace(TEMPLATE_PATTERN, (_match, path: string) => {
+      const resolved = readPath(context, path);
+
+      if (resolved === undefined || resolved === null) {
+        return '';
+      }
+
+      return typeof resolved === 'object' ? JSON.stringify(resolved) : String(resolved);
+    });
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item) => resolveTemplates(item, context));
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value)
+        .map(([key, item]) => [key, resolveTemplates(item, context)])
+        .filter(([, item]) => item !== undefined),
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Read an operand of a condition: a number, quoted string, `true`, `false`, `null` or a path
+ * @param operand Operand text
+ * @param context Values paths read
+ */
+function readOperand(operand: string, context: MCPWorkflowContext): unknown {
+  const text = operand.trim();
+
+  if (/^-?\d+(\.\d+)?$/.test(text)) {
+    return Number(text);
+  }
+
+  if (/^(["']).*\1$/.test(text)) {
+    return text.slice(1, -1);
+  }
+
+  if (text === 'true' || text === 'false' || text === 'null') {
+    return JSON.parse(text);
+  }
+
+  return readPath(context, text);
+}
+
+/**
+ * Whether a value counts as true in a condition; empty strings, arrays and objects do not
+ * @param value Value to check
+ */
+function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) {
+    return value.length > 0;
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.keys(value).length > 0;
+  }
+
+  return !!value;
+}
+
+/**
+ * Compare two values; numbers are compared with numeric strings by their value
+ * @param left Left value
+ * @param right Right value
+ */
+function isEqual(left: unknown, right: unknown): boolean {
+  if ((typeof left === 'number' || typeof right === 'number') && left !== null && right !== null) {
+    return Number(left) === Number(right);
+  }
+
+  return JSON.stringify(left) === JSON.stringify(right);
+}
+
+/**
+ * Evaluate a single comparison, e.g. `!steps.search.error` or `steps.search.result.total_count > 0`
+ * @param expression Comparison
+ * @param context Values paths read
+ */
+function evaluateComparison(expression: string, context: MCPWorkflowContext): boolean {
+  const text = expression.trim();
+
+  if (text.startsWith('!')) {
+    return !evaluateComparison(text.slice(1), context);
+  }
+
+  const comparison = text.match(COMPARISON_PATTERN);
+
+  if (!comparison) {
+    return isTruthy(readOperand(text, context));
+  }
+
+  const [, leftText, operator, rightText] = comparison;
+  const left = readOperand(leftText, context);
+  const right = readOperand(rightText, context);
+
+  switch (operator) {
+    case '==':
+      return isEqual(left, right);
+    case '!=':
+      return !isEqual(left, right);
+    case '>':
+      return Number(left) > Number(right);
+    case '>=':
+      return Number(left) >= Number(right);
+    case '<':
+      return Number(left) < Number(right);
+    case '<=':
+      return Number(left) <= Number(right);
+    default:
+      return Array.isArray(left) || typeof left === 'string' ? left.includes(right as never) : false;
+  }
+}
+
+/**
+ * Evaluate the condition of a step
+ * Conditions are comparisons joined by `&&` and `||`, where `&&` binds tighter; there are no parentheses
+ * @param condition Condition
+ * @param context Values paths read
+ */
+function evaluateCondition(condition: string, context: MCPWorkflowContext): boolean {
+  return condition
+    .split('||')
+    .some((conjunction) => conjunction.split('&&').every((comparison) => evaluateComparison(comparison, context)));
+}
+
+/**
+ * Get the value of a tool result that templates read
+ * MCP results are unwrapped to their structured content or text, with JSON text parsed
+ * @param result Result returned by the adapter
+ * @throws Error when the server reported the call as failed
+ */
+function getStepResult(result: any): unknown {
+  if (!result || typeof result !== 'object' || !Array.isArray(result.content)) {
+    return result;
+  }
+
+  const text = result.content
+    .filter((item: { type?: string }) => item.type === 'text')
+    .map((item: { text: string }) => item.text)
+    .join('\n');
+
+  if (result.isError) {
+    throw new Error(text || 'The tool reported an error');
+  }
+
+  if (result.structuredContent !== undefined) {
+    return result.structuredContent;
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Check a workflow for mistakes
+ * @param workflow Workflow to check
+ * @returns Description of each problem; empty when the workflow is valid
+ */
+export function validateMCPWorkflow(workflow: MCPWorkflow): string[] {
+  const problems: string[] = [];
+
+  if (!WORKFLOW_NAME_PATTERN.test(workflow.name ?? '')) {
+    problems.push('The name must be 1 to 55 letters, digits, underscores or hyphens');
+  }
+
+  if (!workflow.description?.trim()) {
+    problems.push('The description is required so the model knows when to use the workflow');
+  }
+
+  const inputNames = new Set<string>();
+
+  for (const input of workflow.inputs ?? []) {
+    if (!STEP_ID_PATTERN.test(input.name ?? '')) {
+      problems.push(`Input "${input.name}" must start with a letter and contain only letters, digits or underscores`);
+    } else if (inputNames.has(input.name)) {
+      problems.push(`Input "${input.name}" is defined twice`);
+    }
+
+    inputNames.add(input.name);
+  }
+
+  if (!workflow.steps?.length) {
+    problems.push('The workflow needs at least one step');
+    return problems;
+  }
+
+  const stepIds = new Set<string>();
+
+  for (const step of workflow.steps) {
+    if (!STEP_ID_PATTERN.test(step.id ?? '')) {
+      problems.push(`Step "${step.id}" must start with a letter and contain only letters, digits or underscores`);
+    } else if (stepIds.has(step.id)) {
+      problems.push(`Step "${step.id}" is defined twice`);
+    }
+
+    if (!step.serverId || !step.toolName) {
+      problems.push(`Step "${step.id}" needs a server and a tool`);
+    }
+
+    if (
+      step.retries !== undefined &&
+      (!Number.isInteger(step.retries) || step.retries < 0 || step.retries > MAX_RETRIES)
+    ) {
+      problems.push(`Step "${step.id}" can be retried 0 to ${MAX_RETRIES} times`);
+    }
+
+    // Steps can only read the steps that ran before them
+    const paths = [...getTemplatePaths(JSON.stringify(step.args ?? {})), ...(step.when ? [step.when] : [])];
+
+    for (const [, stepId] of paths.join(' ').matchAll(/\bsteps\.([a-zA-Z][a-zA-Z0-9_]*)/g)) {
+      if (!stepIds.has(stepId)) {
+        problems.push(`Step "${step.id}" reads step "${stepId}", which does not run before it`);
+      }
+    }
+
+    stepIds.add(step.id);
+  }
+
+  for (const path of getTemplatePaths(workflow.output ?? '')) {
+    const stepId = path.match(/^steps\.([a-zA-Z][a-zA-Z0-9_]*)/)?.[1];
+
+    if (stepId && !stepIds.has(stepId)) {
+      problems.push(`The output reads step "${stepId}", which does not exist`);
+    }
+  }
+
+  return problems;
+}
+
+/**
+ * Run the steps of a workflow in order
+ * @param workflow Workflow to run
+ * @param input Arguments the model passed
+ * @param callTool Runs the tool call of a step
+ * @param signal Signal that cancels the run
+ * @throws MCPWorkflowError when a step fails and its `onError` is `stop`
+ */
+export async function runMCPWorkflow(
+  workflow: MCPWorkflow,
+  input: Record<string, unknown>,
+  callTool: MCPWorkflowToolCaller,
+  signal?: AbortSignal,
+): Promise<MCPWorkflowRun> {
+  const context: MCPWorkflowContext = { input: input ?? {}, steps: {} };
+  let lastResult: unknown = null;
+
+  for (const step of workflow.steps) {
+    signal?.throwIfAborted();
+
+    if (step.when && !evaluateCondition(step.when, context)) {
+      context.steps[step.id] = { status: 'skipped' };
+      continue;
+    }
+
+    const args = resolveTemplates(step.args ?? {}, context) as Record<string, unknown>;
+    let attempt = 0;
+
+    while (true) {
+      try {
+        const result = getStepResult(await callTool(step, args));
+
+        context.steps[step.id] = { status: 'success', result };
+        lastResult = result;
+        break;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+
+        if (!signal?.aborted && attempt < (step.retries ?? 0)) {
+          attempt++;
+          continue;
+        }
+
+        if (signal?.aborted || (step.onError ?? 'stop') === 'stop') {
+          throw new MCPWorkflowError(workflow.name, step.id, message);
+        }
+
+        context.steps[step.id] = { status: 'error', error: message };
+        break;
+      }
+    }
+  }
+
+  return {
+    output: workflow.output ? resolveTemplates(workflow.output, context) : lastResult,
+    steps: context.steps,
+  };
+}
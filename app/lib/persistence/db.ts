@@ -1,11 +1,16 @@
 import type { Message } from 'ai';
 import { createScopedLogger } from '~/utils/logger';
 import type { ChatHistoryItem } from './useChatHistory';
+import type { MCPToolCallRecord, MCPToolSelection } from '~/lib/modules/mcp/config';
+import { redactSecrets } from '~/lib/modules/mcp/redact';
 
 export interface IChatMetadata {
   gitUrl: string;
   gitBranch?: string;
   netlifySiteId?: string;
+
+  // MCP servers and tools offered to the model in this chat
+  mcpToolSelection?: MCPToolSelection;
 }
 
 const logger = createScopedLogger('ChatHistory');
@@ -18,7 +23,7 @@ export async function openDatabase(): Promise<IDBDatabase | undefined> {
   }
 
   return new Promise((resolve) => {
-    const request = indexedDB.open('boltHistory', 1);
+    const request = indexedDB.open('boltHistory', 2);
 
     request.onupgradeneeded = (event: IDBVersionChangeEvent) => {
       const db = (event.target as IDBOpenDBRequest).result;
@@ -28,6 +33,12 @@ export async function openDatabase(): Promise<IDBDatabase | undefined> {
         store.createIndex('id', 'id', { unique: true });
         store.createIndex('urlId', 'urlId', { unique: true });
       }
+
+      if (!db.objectStoreNames.contains('mcpToolCalls')) {
+        const store = db.createObjectStore('mcpToolCalls', { keyPath: 'id' });
+        store.createIndex('chatId', 'chatId', { unique: false });
+        store.createIndex('timestamp', 'timestamp', { unique: false });
+      }
     };
 
     request.onsuccess = (event: Event) => {
@@ -113,12 +124,24 @@ export async function getMessagesById(db: IDBDatabase, id: string): Promise<Chat
 
 export async function deleteById(db: IDBDatabase, id: string): Promise<void> {
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction('chats', 'readwrite');
-    const store = transaction.objectStore('chats');
-    const request = store.delete(id);
+    // The tool calls of the chat are deleted with it
+    const transaction = db.transaction(['chats', 'mcpToolCalls'], 'readwrite');
+    const toolCalls = transaction.objectStore('mcpToolCalls');
+    const cursorRequest = toolCalls.index('chatId').openKeyCursor(IDBKeyRange.only(id));
 
-    request.onsuccess = () => resolve(undefined);
-    request.onerror = () => reject(request.error);
+    transaction.objectStore('chats').delete(id);
+
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+
+      if (cursor) {
+        toolCalls.delete(cursor.primaryKey);
+        cursor.continue();
+      }
+    };
+
+    transaction.oncomplete = () => resolve(undefined);
+    transaction.onerror = () => reject(transaction.error);
   });
 }
 
@@ -257,3 +280,39 @@ export async function updateChatMetadata(
 
   await setMessages(db, id, chat.messages, chat.urlId, chat.description, chat.timestamp, metadata);
 }
+
+export async function addToolCallRecord(db: IDBDatabase, record: MCPToolCallRecord): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('mcpToolCalls', 'readwrite');
+    const store = transaction.objectStore('mcpToolCalls');
+
+    // Arguments and results may hold the secrets the tool was called with
+    const request = store.put({ ...record, args: redactSecrets(record.args), result: redactSecrets(record.result) });
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function getToolCallRecords(db: IDBDatabase): Promise<MCPToolCallRecord[]> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('mcpToolCalls', 'readonly');
+    const store = transaction.objectStore('mcpToolCalls');
+    const request = store.index('timestamp').getAll();
+
+    // Newest calls first
+    request.onsuccess = () => resolve((request.result as MCPToolCallRecord[]).reverse());
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function clearToolCallRecords(db: IDBDatabase): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('mcpToolCalls', 'readwrite');
+    const store = transaction.objectStore('mcpToolCalls');
+    const request = store.clear();
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
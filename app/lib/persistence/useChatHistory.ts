@@ -13,6 +13,7 @@ import {
   setMessages,
   duplicateChat,
   createChatFromMessages,
+  updateChatMetadata,
   type IChatMetadata,
 } from './db';
 import type { FileMap } from '~/lib/stores/files';
@@ -20,6 +21,7 @@ import type { Snapshot } from './types';
 import { webcontainer } from '~/lib/webcontainer';
 import { createCommandsMessage, detectProjectCommands } from '~/utils/projectCommands';
 import type { ContextAnnotation } from '~/types/context';
+import type { MCPToolSelection } from '~/lib/modules/mcp/config';
 
 export interface ChatHistoryItem {
   id: string;
@@ -37,6 +39,30 @@ export const db = persistenceEnabled ? await openDatabase() : undefined;
 export const chatId = atom<string | undefined>(undefined);
 export const description = atom<string | undefined>(undefined);
 export const chatMetadata = atom<IChatMetadata | undefined>(undefined);
+
+/**
+ * Set the MCP servers and tools offered to the model in the current chat
+ * A chat that is not saved yet keeps the selection until its messages are stored
+ * @param selection Servers and tools to offer; every tool when undefined
+ */
+export async function setChatToolSelection(selection: MCPToolSelection | undefined) {
+  // Chats that were not imported from a repository have no git URL
+  const metadata: IChatMetadata = { gitUrl: '', ...chatMetadata.get(), mcpToolSelection: selection };
+  const id = chatId.get();
+
+  chatMetadata.set(metadata);
+
+  if (!db || !id) {
+    return;
+  }
+
+  try {
+    await updateChatMetadata(db, id, metadata);
+  } catch (error) {
+    logStore.logError('Failed to save the MCP tool selection', error);
+  }
+}
+
 export function useChatHistory() {
   const navigate = useNavigate();
   const { id: mixedId } = useLoaderData<{ id?: string }>();
@@ -0,0 +1,74 @@
+import { atom } from 'nanostores';
+import Cookies from 'js-cookie';
+import { createScopedLogger } from '~/utils/logger';
+import { API_KEYS_HEADER } from '~/lib/api/cookies';
+import { onVaultUnlocked, readSecret, writeSecret } from './vault';
+
+/*
+ * Provider API keys are persisted in the credential vault.
+ * They only reach the server in a request header, so no plaintext copy is kept in a cookie.
+ */
+
+const logger = createScopedLogger('ApiKeys');
+
+// Cookie earlier versions kept the keys in, in plaintext
+const LEGACY_API_KEYS_COOKIE = 'apiKeys';
+const API_KEYS_SECRET = 'api_keys';
+
+function readLegacyCookie(): Record<string, string> {
+  try {
+    const stored = Cookies.get(LEGACY_API_KEYS_COOKIE);
+    return stored ? JSON.parse(stored) : {};
+  } catch (error) {
+    logger.error('Failed to parse API keys cookie:', error);
+    return {};
+  }
+}
+
+export const apiKeysStore = atom<Record<string, string>>({});
+
+export const updateApiKeys = (apiKeys: Record<string, string>) => {
+  apiKeysStore.set(apiKeys);
+
+  writeSecret(API_KEYS_SECRET, JSON.stringify(apiKeys)).catch((error) => {
+    logger.error('Failed to save API keys to the credential vault:', error);
+  });
+};
+
+/**
+ * Get the headers that send the API keys to the server
+ * @param apiKeys Keys to send; the stored keys when omitted
+ */
+export function getApiKeysHeaders(apiKeys: Record<string, string> = apiKeysStore.get()): Record<string, string> {
+  return Object.keys(apiKeys).length > 0 ? { [API_KEYS_HEADER]: encodeURIComponent(JSON.stringify(apiKeys)) } : {};
+}
+
+/*
+ * Restore the keys from the vault once it is unlocked.
+ * Keys in the cookie were saved in plaintext by earlier versions; they are moved to the vault and the cookie is removed.
+ * Keys set before the vault was unlocked win.
+ */
+if (typeof window !== 'undefined') {
+  onVaultUnlocked(async () => {
+    try {
+      const stored = await readSecret(API_KEYS_SECRET);
+      const vaultKeys: Record<string, string> = stored ? JSON.parse(stored) : {};
+      const cookieKeys = readLegacyCookie();
+      const apiKeys = { ...vaultKeys, ...cookieKeys, ...apiKeysStore.get() };
+
+      Cookies.remove(LEGACY_API_KEYS_COOKIE);
+
+      if (Object.keys(apiKeys).length === 0) {
+        return;
+      }
+
+      if (JSON.stringify(apiKeys) !== stored) {
+        updateApiKeys(apiKeys);
+      } else {
+        apiKeysStore.set(apiKeys);
+      }
+    } catch (error) {
+      logger.error('Failed to load API keys from the credential vault:', error);
+    }
+  });
+}
@@ -0,0 +1,37 @@
+import { atom } from 'nanostores';
+import { createScopedLogger } from '~/utils/logger';
+import { onVaultUnlocked, readSecret, writeSecret } from './vault';
+
+/*
+ * Token of the bolt MCP server, which the tab needs to open a session for the actions of external agents.
+ * It is kept in the credential vault and only sent when the session is opened.
+ */
+
+const logger = createScopedLogger('BoltMCP');
+
+const BOLT_MCP_TOKEN_SECRET = 'bolt_mcp_token';
+
+export const boltMCPTokenStore = atom<string>('');
+
+export const updateBoltMCPToken = (token: string) => {
+  boltMCPTokenStore.set(token);
+
+  writeSecret(BOLT_MCP_TOKEN_SECRET, token || null).catch((error) => {
+    logger.error('Failed to save the bolt MCP token to the credential vault:', error);
+  });
+};
+
+// Load the token once the vault is unlocked
+if (typeof window !== 'undefined') {
+  onVaultUnlocked(async () => {
+    try {
+      const token = await readSecret(BOLT_MCP_TOKEN_SECRET);
+
+      if (token && !boltMCPTokenStore.get()) {
+        boltMCPTokenStore.set(token);
+      }
+    } catch (error) {
+      logger.error('Failed to load the bolt MCP token from the credential vault:', error);
+    }
+  });
+}
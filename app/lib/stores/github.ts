@@ -0,0 +1,94 @@
+import { atom } from 'nanostores';
+import Cookies from 'js-cookie';
+import type { GitHubConnection } from '~/types/GitHub';
+import { logStore } from './logs';
+import { onVaultUnlocked, readSecret, writeSecret } from './vault';
+
+const GITHUB_CONNECTION_KEY = 'github_connection';
+
+// The token is kept in the credential vault; the rest of the connection stays in localStorage
+const GITHUB_TOKEN_SECRET = 'github_token';
+
+// Cookies earlier versions kept the token in, in plaintext
+const LEGACY_TOKEN_COOKIE = 'githubToken';
+const LEGACY_GIT_CREDENTIALS_COOKIE = 'git:github.com';
+
+function readLegacyCookieToken(): string {
+  const token = Cookies.get(LEGACY_TOKEN_COOKIE);
+
+  if (token) {
+    return token;
+  }
+
+  try {
+    const credentials = Cookies.get(LEGACY_GIT_CREDENTIALS_COOKIE);
+    return credentials ? JSON.parse(credentials).username || '' : '';
+  } catch {
+    return '';
+  }
+}
+
+const storedConnection = typeof window !== 'undefined' ? localStorage.getItem(GITHUB_CONNECTION_KEY) : null;
+const initialConnection: GitHubConnection = storedConnection
+  ? { tokenType: 'classic', ...JSON.parse(storedConnection) }
+  : {
+      user: null,
+      token: '',
+      tokenType: 'classic',
+      stats: undefined,
+    };
+
+// Token saved in plaintext by earlier versions, moved into the vault once it is unlocked
+let plaintextToken = initialConnection.token || (typeof window !== 'undefined' ? readLegacyCookieToken() : '');
+
+export const githubConnection = atom<GitHubConnection>(initialConnection);
+
+export const updateGitHubConnection = (updates: Partial<GitHubConnection>) => {
+  const currentState = githubConnection.get();
+  const newState = { ...currentState, ...updates };
+  githubConnection.set(newState);
+
+  // Persist to localStorage, keeping the token in the vault
+  if (typeof window !== 'undefined') {
+    localStorage.setItem(GITHUB_CONNECTION_KEY, JSON.stringify({ ...newState, token: '' }));
+
+    if (updates.token !== undefined) {
+      writeSecret(GITHUB_TOKEN_SECRET, newState.token || null).catch((error) => {
+        logStore.logError('Failed to save GitHub token to the credential vault', { error });
+      });
+    }
+  }
+};
+
+export const clearGitHubConnection = () => {
+  updateGitHubConnection({ user: null, token: '', tokenType: 'classic', stats: undefined });
+
+  if (typeof window !== 'undefined') {
+    localStorage.removeItem(GITHUB_CONNECTION_KEY);
+  }
+};
+
+// Load the token once the vault is unlocked
+if (typeof window !== 'undefined') {
+  onVaultUnlocked(async () => {
+    try {
+      if (plaintextToken) {
+        const token = plaintextToken;
+        plaintextToken = '';
+        Cookies.remove(LEGACY_TOKEN_COOKIE);
+        Cookies.remove(LEGACY_GIT_CREDENTIALS_COOKIE);
+        updateGitHubConnection({ token });
+
+        return;
+      }
+
+      const token = await readSecret(GITHUB_TOKEN_SECRET);
+
+      if (token && !githubConnection.get().token) {
+        githubConnection.set({ ...githubConnection.get(), token });
+      }
+    } catch (error) {
+      logStore.logError('Failed to load GitHub token from the credential vault', { error });
+    }
+  });
+}
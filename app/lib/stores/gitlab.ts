@@ -0,0 +1,128 @@
+import { atom } from 'nanostores';
+import { toast } from 'react-toastify';
+import type { GitLabConnection, GitLabProjectInfo, GitLabUserResponse } from '~/types/GitLab';
+import { DEFAULT_GITLAB_URL, getGitLabApiUrl } from '~/utils/gitlab';
+import { logStore } from './logs';
+import { onVaultUnlocked, readSecret, writeSecret } from './vault';
+
+const GITLAB_CONNECTION_KEY = 'gitlab_connection';
+
+// The token is kept in the credential vault; the rest of the connection stays in localStorage
+const GITLAB_TOKEN_SECRET = 'gitlab_token';
+
+const storedConnection = typeof window !== 'undefined' ? localStorage.getItem(GITLAB_CONNECTION_KEY) : null;
+const initialConnection: GitLabConnection = storedConnection
+  ? { baseUrl: DEFAULT_GITLAB_URL, ...JSON.parse(storedConnection) }
+  : {
+      user: null,
+      token: '',
+      baseUrl: DEFAULT_GITLAB_URL,
+      stats: undefined,
+    };
+
+export const gitlabConnection = atom<GitLabConnection>(initialConnection);
+export const isConnecting = atom<boolean>(false);
+export const isFetchingStats = atom<boolean>(false);
+
+export const updateGitLabConnection = (updates: Partial<GitLabConnection>) => {
+  const currentState = gitlabConnection.get();
+  const newState = { ...currentState, ...updates };
+  gitlabConnection.set(newState);
+
+  // Persist to localStorage, keeping the token in the vault
+  if (typeof window !== 'undefined') {
+    localStorage.setItem(GITLAB_CONNECTION_KEY, JSON.stringify({ ...newState, token: '' }));
+
+    if (updates.token !== undefined) {
+      writeSecret(GITLAB_TOKEN_SECRET, newState.token || null).catch((error) => {
+        logStore.logError('Failed to save GitLab token to the credential vault', { error });
+      });
+    }
+  }
+};
+
+// Load the token once the vault is unlocked
+if (typeof window !== 'undefined') {
+  onVaultUnlocked(async () => {
+    try {
+      const token = await readSecret(GITLAB_TOKEN_SECRET);
+
+      if (token && !gitlabConnection.get().token) {
+        gitlabConnection.set({ ...gitlabConnection.get(), token });
+      }
+    } catch (error) {
+      logStore.logError('Failed to load GitLab token from the credential vault', { error });
+    }
+  });
+}
+
+/**
+ * Make a request to the GitLab API of an instance
+ * @param baseUrl URL of the instance
+ * @param token Personal access token
+ * @param endpoint Endpoint below /api/v4
+ * @param options Fetch options
+ */
+export async function gitlabRequest<T>(
+  baseUrl: string,
+  token: string,
+  endpoint: string,
+  options: RequestInit = {},
+): Promise<T> {
+  const headers = new Headers(options.headers || {});
+  headers.set('PRIVATE-TOKEN', token);
+  headers.set('Content-Type', 'application/json');
+
+  const response = await fetch(`${getGitLabApiUrl(baseUrl)}${endpoint}`, { ...options, headers });
+
+  if (!response.ok) {
+    const errorData = (await response.json().catch(() => null)) as { message?: unknown; error?: string } | null;
+    const message = errorData?.message ?? errorData?.error ?? response.statusText;
+
+    throw Object.assign(
+      new Error(
+        `GitLab API error (${response.status}): ${typeof message === 'string' ? message : JSON.stringify(message)}`,
+      ),
+      { status: response.status },
+    );
+  }
+
+  return (await response.json()) as T;
+}
+
+/**
+ * Check a token against an instance and save the connection
+ * @param baseUrl URL of the instance
+ * @param token Personal access token
+ */
+export async function connectGitLab(baseUrl: string, token: string) {
+  isConnecting.set(true);
+
+  try {
+    const user = await gitlabRequest<GitLabUserResponse>(baseUrl, token, '/user');
+    updateGitLabConnection({ user, token, baseUrl });
+  } finally {
+    isConnecting.set(false);
+  }
+}
+
+export async function fetchGitLabStats(baseUrl: string, token: string) {
+  try {
+    isFetchingStats.set(true);
+
+    const projects = await gitlabRequest<GitLabProjectInfo[]>(
+      baseUrl,
+      token,
+      '/projects?membership=true&order_by=last_activity_at&per_page=10',
+    );
+
+    updateGitLabConnection({
+      stats: { projects },
+    });
+  } catch (error) {
+    logStore.logError('Failed to fetch GitLab stats', { error });
+    toast.error('Failed to fetch GitLab projects');
+  } finally {
+    isFetchingStats.set(false);
+  }
+}
@@ -0,0 +1,119 @@
+import { atom } from 'nanostores';
+import { generateToken } from '~/lib/crypto';
+import type { MCPToolApprovalRequest } from '~/lib/modules/mcp/approval';
+import { createScopedLogger } from '~/utils/logger';
+
+/*
+ * MCP tool calls waiting for the user's approval that are not listed in the chat data stream
+ * Calls sent to the tools API wait on the server, which lists them by the scope the call was sent with.
+ * Calls of the built-in workbench server run in the browser and wait here until the user answers.
+ * They are shown in the same dialog as the approvals of chat responses.
+ */
+
+const logger = createScopedLogger('MCPToolApprovals');
+
+// API endpoint for MCP tool approvals
+const MCP_TOOL_APPROVALS_API_ENDPOINT = '/api/mcp/tool-approvals';
+
+// How often the approvals of a running tool call are listed
+const APPROVAL_POLL_INTERVAL = 1000;
+
+export interface MCPToolApprovalPrompt {
+  id: string;
+  serverId: string;
+  serverName: string;
+  toolName: string;
+
+  // JSON encoded tool arguments
+  args: string;
+
+  // Secret the server keeps the approval under, sent back with the decision; missing for calls run in the browser
+  scope?: string;
+
+  // Answers a call run in the browser
+  resolve?: (approved: boolean) => void;
+}
+
+export const toolApprovalPrompts = atom<MCPToolApprovalPrompt[]>([]);
+
+/**
+ * Replace the prompts of a scope
+ * @param scope Scope of the tool call
+ * @param prompts Prompts of the scope
+ */
+function setScopePrompts(scope: string, prompts: MCPToolApprovalPrompt[]) {
+  toolApprovalPrompts.set([...toolApprovalPrompts.get().filter((prompt) => prompt.scope !== scope), ...prompts]);
+}
+
+/**
+ * Ask the user to approve a tool call that runs in the browser
+ * @param request Tool call waiting for approval
+ * @returns Whether the user approved the call
+ */
+export function requestLocalToolApproval(request: Omit<MCPToolApprovalRequest, 'id' | 'createdAt'>): Promise<boolean> {
+  const id = generateToken();
+
+  return new Promise((resolve) => {
+    const { serverId, serverName, toolName, args } = request;
+
+    toolApprovalPrompts.set([
+      ...toolApprovalPrompts.get(),
+      {
+        id,
+        serverId,
+        serverName,
+        toolName,
+        args: JSON.stringify(args ?? {}),
+        resolve: (approved) => {
+          toolApprovalPrompts.set(toolApprovalPrompts.get().filter((prompt) => prompt.id !== id));
+          resolve(approved);
+        },
+      },
+    ]);
+  });
+}
+
+/**
+ * Run a tool call through the tools API and show the approvals it waits for until it is done
+ * @param run Sends the tool call with the scope of its approvals
+ */
+export async function withServerToolApprovals<T>(run: (scope: string) => Promise<T>): Promise<T> {
+  const scope = generateToken();
+  let running = true;
+
+  const poll = async () => {
+    while (running) {
+      await new Promise((resolve) => setTimeout(resolve, APPROVAL_POLL_INTERVAL));
+
+      try {
+        const response = await fetch(`${MCP_TOOL_APPROVALS_API_ENDPOINT}?scope=${encodeURIComponent(scope)}`);
+        const { approvals = [] } = (await response.json()) as { approvals?: MCPToolApprovalRequest[] };
+
+        if (running) {
+          setScopePrompts(
+            scope,
+            approvals.map(({ id, serverId, serverName, toolName, args }) => ({
+              id,
+              serverId,
+              serverName,
+              toolName,
+              args: JSON.stringify(args ?? {}),
+              scope,
+            })),
+          );
+        }
+      } catch (error) {
+        logger.error('Error listing MCP tool approvals:', error);
+      }
+    }
+  };
+
+  poll();
+
+  try {
+    return await run(scope);
+  } finally {
+    running = false;
+    setScopePrompts(scope, []);
+  }
+}
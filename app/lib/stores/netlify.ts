@@ -1,10 +1,20 @@
 import { atom } from 'nanostores';
 import type { NetlifyConnection } from '~/types/netlify';
+import type { ActionCallbackData } from '~/lib/runtime/message-parser';
+import { webcontainer } from '~/lib/webcontainer';
+import { path } from '~/utils/path';
 import { logStore } from './logs';
+import { onVaultUnlocked, readSecret, writeSecret } from './vault';
+import { workbenchStore } from './workbench';
 import { toast } from 'react-toastify';
 
+const NETLIFY_CONNECTION_KEY = 'netlify_connection';
+
+// The token is kept in the credential vault; the rest of the connection stays in localStorage
+const NETLIFY_TOKEN_SECRET = 'netlify_token';
+
 // Initialize with stored connection or defaults
-const storedConnection = typeof window !== 'undefined' ? localStorage.getItem('netlify_connection') : null;
+const storedConnection = typeof window !== 'undefined' ? localStorage.getItem(NETLIFY_CONNECTION_KEY) : null;
 const initialConnection: NetlifyConnection = storedConnection
   ? JSON.parse(storedConnection)
   : {
@@ -13,6 +23,9 @@ const initialConnection: NetlifyConnection = storedConnection
       stats: undefined,
     };
 
+// Token saved in plaintext by earlier versions, moved into the vault once it is unlocked
+let plaintextToken = initialConnection.token;
+
 export const netlifyConnection = atom<NetlifyConnection>(initialConnection);
 export const isConnecting = atom<boolean>(false);
 export const isFetchingStats = atom<boolean>(false);
@@ -22,12 +35,41 @@ export const updateNetlifyConnection = (updates: Partial<NetlifyConnection>) =>
   const newState = { ...currentState, ...updates };
   netlifyConnection.set(newState);
 
-  // Persist to localStorage
+  // Persist to localStorage, keeping the token in the vault
   if (typeof window !== 'undefined') {
-    localStorage.setItem('netlify_connection', JSON.stringify(newState));
+    localStorage.setItem(NETLIFY_CONNECTION_KEY, JSON.stringify({ ...newState, token: '' }));
+
+    if (updates.token !== undefined) {
+      writeSecret(NETLIFY_TOKEN_SECRET, newState.token || null).catch((error) => {
+        logStore.logError('Failed to save Netlify token to the credential vault', { error });
+      });
+    }
   }
 };
 
+// Load the token once the vault is unlocked
+if (typeof window !== 'undefined') {
+  onVaultUnlocked(async () => {
+    try {
+      if (plaintextToken) {
+        const token = plaintextToken;
+        plaintextToken = '';
+        updateNetlifyConnection({ token });
+
+        return;
+      }
+
+      const token = await readSecret(NETLIFY_TOKEN_SECRET);
+
+      if (token && !netlifyConnection.get().token) {
+        netlifyConnection.set({ ...netlifyConnection.get(), token });
+      }
+    } catch (error) {
+      logStore.logError('Failed to load Netlify token from the credential vault', { error });
+    }
+  });
+}
+
 export async function fetchNetlifyStats(token: string) {
   try {
     isFetchingStats.set(true);
@@ -61,3 +103,144 @@ export async function fetchNetlifyStats(token: string) {
     isFetchingStats.set(false);
   }
 }
+
+/**
+ * Build the project of a chat and deploy it to Netlify
+ * The site is reused for later deploys of the same chat
+ * @param chatId ID of the chat the project belongs to
+ * @returns URL of the deployed site
+ */
+export async function deployToNetlify(chatId: string): Promise<string> {
+  const { user, token } = netlifyConnection.get();
+
+  if (!user || !token) {
+    throw new Error('Please connect to Netlify first in the settings tab!');
+  }
+
+  const artifact = workbenchStore.firstArtifact;
+
+  if (!artifact) {
+    throw new Error('No active project found');
+  }
+
+  const actionId = 'build-' + Date.now();
+  const actionData: ActionCallbackData = {
+    messageId: 'netlify build',
+    artifactId: artifact.id,
+    actionId,
+    action: {
+      type: 'build' as const,
+      content: 'npm run build',
+    },
+  };
+
+  // Add the action first
+  artifact.runner.addAction(actionData);
+
+  // Then run it
+  await artifact.runner.runAction(actionData);
+
+  if (!artifact.runner.buildOutput) {
+    throw new Error('Build failed');
+  }
+
+  // Get the build files
+  const container = await webcontainer;
+
+  // Remove /home/project from buildPath if it exists
+  const buildPath = artifact.runner.buildOutput.path.replace('/home/project', '');
+
+  // Get all files recursively
+  async function getAllFiles(dirPath: string): Promise<Record<string, string>> {
+    const files: Record<string, string> = {};
+    const entries = await container.fs.readdir(dirPath, { withFileTypes: true });
+
+    for (const entry of entries) {
+      const fullPath = path.join(dirPath, entry.name);
+
+      if (entry.isFile()) {
+        const content = await container.fs.readFile(fullPath, 'utf-8');
+
+        // Remove /dist prefix from the path
+        const deployPath = fullPath.replace(buildPath, '');
+        files[deployPath] = content;
+      } else if (entry.isDirectory()) {
+        const subFiles = await getAllFiles(fullPath);
+        Object.assign(files, subFiles);
+      }
+    }
+
+    return files;
+  }
+
+  const fileContents = await getAllFiles(buildPath);
+
+  const existingSiteId = localStorage.getItem(`netlify-site-${chatId}`);
+
+  // Deploy using the API route with file contents
+  const response = await fetch('/api/deploy', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      siteId: existingSiteId || undefined,
+      files: fileContents,
+      token,
+      chatId,
+    }),
+  });
+
+  const data = (await response.json()) as any;
+
+  if (!response.ok || !data.deploy || !data.site) {
+    console.error('Invalid deploy response:', data);
+    throw new Error(data.error || 'Invalid deployment response');
+  }
+
+  // Poll for deployment status
+  const maxAttempts = 20; // 2 minutes timeout
+  let attempts = 0;
+  let deploymentStatus;
+
+  while (attempts < maxAttempts) {
+    try {
+      const statusResponse = await fetch(
+        `https://api.netlify.com/api/v1/sites/${data.site.id}/deploys/${data.deploy.id}`,
+        {
+          headers: {
+            Authorization: `Bearer ${token}`,
+          },
+        },
+      );
+
+      deploymentStatus = (await statusResponse.json()) as any;
+
+      if (deploymentStatus.state === 'ready' || deploymentStatus.state === 'uploaded') {
+        break;
+      }
+
+      if (deploymentStatus.state === 'error') {
+        throw new Error('Deployment failed: ' + (deploymentStatus.error_message || 'Unknown error'));
+      }
+
+      attempts++;
+      await new Promise((resolve) => setTimeout(resolve, 1000));
+    } catch (error) {
+      console.error('Status check error:', error);
+      attempts++;
+      await new Promise((resolve) => setTimeout(resolve, 2000));
+    }
+  }
+
+  if (attempts >= maxAttempts) {
+    throw new Error('Deployment timed out');
+  }
+
+  // Store the site ID if it's a new site
+  if (data.site) {
+    localStorage.setItem(`netlify-site-${chatId}`, data.site.id);
+  }
+
+  return deploymentStatus.ssl_url || deploymentStatus.url;
+}
@@ -0,0 +1,198 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { decrypt, deriveKey, encrypt, generateKey, generateSalt } from '~/lib/crypto';
+import { API_KEYS_HEADER, getApiKeysFromRequest } from '~/lib/api/cookies';
+
+const cookies = vi.hoisted(() => new Map<string, string>());
+
+vi.mock('js-cookie', () => ({
+  default: {
+    get: (name: string) => cookies.get(name),
+    remove: (name: string) => cookies.delete(name),
+  },
+}));
+
+// localStorage kept in memory, shared by the vault modules loaded in a test
+class MemoryStorage {
+  private _items = new Map<string, string>();
+
+  get length() {
+    return this._items.size;
+  }
+
+  key(index: number) {
+    return [...this._items.keys()][index] ?? null;
+  }
+
+  getItem(key: string) {
+    return this._items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string) {
+    this._items.set(key, String(value));
+  }
+
+  removeItem(key: string) {
+    this._items.delete(key);
+  }
+
+  values() {
+    return [...this._items.values()];
+  }
+}
+
+let storage: MemoryStorage;
+
+// Load the vault as a new page visit would, with the storage of the earlier visits
+async function loadVault() {
+  vi.resetModules();
+  return await import('./vault');
+}
+
+beforeEach(() => {
+  cookies.clear();
+  storage = new MemoryStorage();
+  vi.stubGlobal('localStorage', storage);
+  vi.stubGlobal('window', { localStorage: storage, crypto: globalThis.crypto });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('crypto', () => {
+  it('should encrypt with AES-CBC and a random IV', async () => {
+    const key = generateKey();
+    const first = await encrypt(key, 'sk-secret');
+    const second = await encrypt(key, 'sk-secret');
+
+    expect(first).not.toBe(second);
+    await expect(decrypt(key, first)).resolves.toBe('sk-secret');
+    await expect(decrypt(key, second)).resolves.toBe('sk-secret');
+  });
+
+  it('should derive the same key from the same passphrase and salt', async () => {
+    const salt = generateSalt();
+    const key = await deriveKey('correct horse', salt);
+
+    await expect(deriveKey('correct horse', salt)).resolves.toBe(key);
+    await expect(deriveKey('correct horse', generateSalt())).resolves.not.toBe(key);
+    await expect(deriveKey('wrong horse', salt)).resolves.not.toBe(key);
+  });
+});
+
+describe('vault', () => {
+  it('should create a vault with a per-install key and keep secrets encrypted', async () => {
+    const vault = await loadVault();
+
+    await vault.writeSecret('api_keys', 'sk-secret');
+
+    expect(vault.vaultStatus.get()).toBe('unlocked');
+    expect(vault.vaultMode.get()).toBe('install');
+    expect(storage.getItem('bolt_vault_install_key')).toBeTruthy();
+    expect(storage.values().some((value) => value.includes('sk-secret'))).toBe(false);
+
+    const reloaded = await loadVault();
+
+    await expect(reloaded.readSecret('api_keys')).resolves.toBe('sk-secret');
+    await expect(reloaded.readSecret('missing')).resolves.toBeNull();
+
+    await reloaded.writeSecret('api_keys', null);
+    await expect(reloaded.readSecret('api_keys')).resolves.toBeNull();
+  });
+
+  it('should move the secrets to a passphrase and stay locked until it is entered', async () => {
+    const vault = await loadVault();
+
+    await vault.writeSecret('api_keys', 'sk-secret');
+    await vault.setVaultPassphrase('correct horse');
+
+    expect(storage.getItem('bolt_vault_install_key')).toBeNull();
+    expect(JSON.parse(storage.getItem('bolt_vault')!)).toMatchObject({ mode: 'passphrase' });
+
+    const reloaded = await loadVault();
+
+    await reloaded.initializeVault();
+    expect(reloaded.vaultStatus.get()).toBe('locked');
+    await expect(reloaded.readSecret('api_keys')).rejects.toThrow(reloaded.VaultLockedError);
+    await expect(reloaded.writeSecret('api_keys', 'sk-other')).rejects.toThrow(reloaded.VaultLockedError);
+
+    await expect(reloaded.unlockVault('wrong horse')).resolves.toBe(false);
+    expect(reloaded.vaultStatus.get()).toBe('locked');
+
+    await expect(reloaded.unlockVault('correct horse')).resolves.toBe(true);
+    await expect(reloaded.readSecret('api_keys')).resolves.toBe('sk-secret');
+
+    reloaded.lockVault();
+    await expect(reloaded.readSecret('api_keys')).rejects.toThrow(reloaded.VaultLockedError);
+  });
+
+  it('should move the secrets back to a per-install key', async () => {
+    const vault = await loadVault();
+
+    await vault.setVaultPassphrase('correct horse');
+    await vault.writeSecret('api_keys', 'sk-secret');
+    await vault.setVaultPassphrase(null);
+
+    const reloaded = await loadVault();
+
+    await reloaded.initializeVault();
+    expect(reloaded.vaultMode.get()).toBe('install');
+    await expect(reloaded.readSecret('api_keys')).resolves.toBe('sk-secret');
+  });
+
+  it('should delete the secrets when the vault is reset', async () => {
+    const vault = await loadVault();
+
+    await vault.setVaultPassphrase('correct horse');
+    await vault.writeSecret('api_keys', 'sk-secret');
+
+    const reloaded = await loadVault();
+
+    await reloaded.resetVault();
+
+    expect(reloaded.vaultStatus.get()).toBe('unlocked');
+    expect(reloaded.vaultMode.get()).toBe('install');
+    await expect(reloaded.readSecret('api_keys')).resolves.toBeNull();
+  });
+
+  it('should not open a vault whose install key was lost', async () => {
+    const vault = await loadVault();
+
+    await vault.initializeVault();
+    storage.setItem('bolt_vault_install_key', generateKey());
+
+    const reloaded = await loadVault();
+
+    await reloaded.initializeVault();
+    expect(reloaded.vaultStatus.get()).toBe('unavailable');
+  });
+});
+
+describe('API keys', () => {
+  it('should move the keys from the legacy cookie into the vault', async () => {
+    cookies.set('apiKeys', JSON.stringify({ OpenAI: 'sk-secret' }));
+
+    const vault = await loadVault();
+    const { apiKeysStore } = await import('./apiKeys');
+
+    await vault.initializeVault();
+    await vi.waitFor(() => expect(apiKeysStore.get()).toEqual({ OpenAI: 'sk-secret' }));
+
+    expect(cookies.has('apiKeys')).toBe(false);
+    await expect(vault.readSecret('api_keys')).resolves.toBe(JSON.stringify({ OpenAI: 'sk-secret' }));
+    expect(storage.values().some((value) => value.includes('sk-secret'))).toBe(false);
+  });
+
+  it('should send the keys to the server in a header', async () => {
+    await loadVault();
+
+    const { getApiKeysHeaders } = await import('./apiKeys');
+    const request = new Request('http://localhost:5173/api/chat', {
+      headers: getApiKeysHeaders({ OpenAI: 'sk-secret; path=/' }),
+    });
+
+    expect(request.headers.has(API_KEYS_HEADER)).toBe(true);
+    expect(getApiKeysFromRequest(request)).toEqual({ OpenAI: 'sk-secret; path=/' });
+    expect(getApiKeysHeaders({})).toEqual({});
+  });
+});
@@ -0,0 +1,313 @@
+import { atom } from 'nanostores';
+import { decrypt, deriveKey, encrypt, generateKey, generateSalt } from '~/lib/crypto';
+import { createScopedLogger } from '~/utils/logger';
+
+/*
+ * Credential vault
+ * Secrets (API keys, deploy tokens, MCP server credentials) are stored AES encrypted in localStorage.
+ * The key is either a random per-install key or derived from a passphrase the user enters on every visit.
+ */
+
+const logger = createScopedLogger('Vault');
+
+const VAULT_META_KEY = 'bolt_vault';
+const INSTALL_KEY_KEY = 'bolt_vault_install_key';
+const SECRET_PREFIX = 'bolt_vault:';
+
+// Encrypted with the vault key to check that a key or passphrase is correct
+const CHECK_VALUE = 'bolt-vault';
+
+export type VaultStatus = 'initializing' | 'locked' | 'unlocked' | 'unavailable';
+export type VaultMode = 'install' | 'passphrase';
+
+interface VaultMeta {
+  version: 1;
+  mode: VaultMode;
+
+  // Salt for deriving the key from the passphrase
+  salt?: string;
+  check: string;
+}
+
+export class VaultLockedError extends Error {
+  constructor() {
+    super('The credential vault is locked');
+    this.name = 'VaultLockedError';
+  }
+}
+
+export const vaultStatus = atom<VaultStatus>('initializing');
+export const vaultMode = atom<VaultMode | null>(null);
+
+let vaultKey: string | null = null;
+let initializePromise: Promise<void> | null = null;
+
+// Writes are chained so that quick successive updates land in order
+let writeQueue: Promise<void> = Promise.resolve();
+
+function enqueueWrite(task: () => Promise<void>) {
+  const result = writeQueue.then(task);
+
+  // A failed write must not block the ones after it
+  writeQueue = result.catch(() => undefined);
+
+  return result;
+}
+
+function isStorageAvailable() {
+  try {
+    return typeof window !== 'undefined' && !!window.localStorage && !!window.crypto?.subtle;
+  } catch {
+    return false;
+  }
+}
+
+function readMeta(): VaultMeta | null {
+  const stored = localStorage.getItem(VAULT_META_KEY);
+
+  return stored ? (JSON.parse(stored) as VaultMeta) : null;
+}
+
+async function isValidKey(meta: VaultMeta, key: string) {
+  try {
+    return (await decrypt(key, meta.check)) === CHECK_VALUE;
+  } catch {
+    // Decrypting with the wrong key usually fails on the padding
+    return false;
+  }
+}
+
+function getSecretNames() {
+  const names: string[] = [];
+
+  for (let i = 0; i < localStorage.length; i++) {
+    const storageKey = localStorage.key(i);
+
+    if (storageKey?.startsWith(SECRET_PREFIX)) {
+      names.push(storageKey.slice(SECRET_PREFIX.length));
+    }
+  }
+
+  return names;
+}
+
+async function createInstallKeyVault() {
+  const key = generateKey();
+
+  localStorage.setItem(INSTALL_KEY_KEY, key);
+  localStorage.setItem(
+    VAULT_META_KEY,
+    JSON.stringify({ version: 1, mode: 'install', check: await encrypt(key, CHECK_VALUE) } satisfies VaultMeta),
+  );
+
+  return key;
+}
+
+function unlockWith(key: string, mode: VaultMode) {
+  vaultKey = key;
+  vaultMode.set(mode);
+  vaultStatus.set('unlocked');
+}
+
+async function initialize() {
+  if (!isStorageAvailable()) {
+    vaultStatus.set('unavailable');
+    return;
+  }
+
+  try {
+    const meta = readMeta();
+
+    if (!meta) {
+      unlockWith(await createInstallKeyVault(), 'install');
+      logger.info('Created credential vault with a per-install key');
+
+      return;
+    }
+
+    if (meta.mode === 'passphrase') {
+      vaultMode.set('passphrase');
+      vaultStatus.set('locked');
+
+      return;
+    }
+
+    const installKey = localStorage.getItem(INSTALL_KEY_KEY);
+
+    if (!installKey || !(await isValidKey(meta, installKey))) {
+      throw new Error('The per-install key of the credential vault is missing or invalid');
+    }
+
+    unlockWith(installKey, 'install');
+  } catch (error) {
+    logger.error('Failed to initialize credential vault:', error);
+    vaultStatus.set('unavailable');
+  }
+}
+
+/**
+ * Open the vault; vaults protected by a passphrase stay locked until unlockVault() is called
+ */
+export function initializeVault(): Promise<void> {
+  if (!initializePromise) {
+    initializePromise = initialize();
+  }
+
+  return initializePromise;
+}
+
+/**
+ * Unlock a vault protected by a passphrase
+ * @returns false if the passphrase is wrong
+ */
+export async function unlockVault(passphrase: string): Promise<boolean> {
+  await initializeVault();
+
+  const meta = readMeta();
+
+  if (!meta || meta.mode !== 'passphrase' || !meta.salt) {
+    return vaultStatus.get() === 'unlocked';
+  }
+
+  const key = await deriveKey(passphrase, meta.salt);
+
+  if (!(await isValidKey(meta, key))) {
+    return false;
+  }
+
+  unlockWith(key, 'passphrase');
+  logger.info('Credential vault unlocked');
+
+  return true;
+}
+
+/**
+ * Forget the key of a vault protected by a passphrase
+ */
+export function lockVault() {
+  if (vaultMode.get() !== 'passphrase') {
+    return;
+  }
+
+  vaultKey = null;
+  vaultStatus.set('locked');
+}
+
+/**
+ * Protect the vault with a passphrase, or switch back to the per-install key with null
+ * All secrets are encrypted again with the new key
+ */
+export async function setVaultPassphrase(passphrase: string | null) {
+  await initializeVault();
+
+  await enqueueWrite(async () => {
+    const oldKey = vaultKey;
+
+    if (vaultStatus.get() !== 'unlocked' || !oldKey) {
+      throw new VaultLockedError();
+    }
+
+    let key: string;
+    let meta: VaultMeta;
+
+    if (passphrase) {
+      const salt = generateSalt();
+      key = await deriveKey(passphrase, salt);
+      meta = { version: 1, mode: 'passphrase', salt, check: await encrypt(key, CHECK_VALUE) };
+    } else {
+      key = generateKey();
+      meta = { version: 1, mode: 'install', check: await encrypt(key, CHECK_VALUE) };
+    }
+
+    // Encrypt everything with the new key before anything is written, so a failure leaves the vault intact
+    const secrets = await Promise.all(
+      getSecretNames().map(async (name) => {
+        const value = await decrypt(oldKey, localStorage.getItem(`${SECRET_PREFIX}${name}`)!);
+        return [name, await encrypt(key, value)] as const;
+      }),
+    );
+
+    for (const [name, encrypted] of secrets) {
+      localStorage.setItem(`${SECRET_PREFIX}${name}`, encrypted);
+    }
+
+    localStorage.setItem(VAULT_META_KEY, JSON.stringify(meta));
+
+    if (passphrase) {
+      localStorage.removeItem(INSTALL_KEY_KEY);
+    } else {
+      localStorage.setItem(INSTALL_KEY_KEY, key);
+    }
+
+    unlockWith(key, meta.mode);
+    logger.info(
+      passphrase ? 'Credential vault protected with a passphrase' : 'Credential vault uses a per-install key',
+    );
+  });
+}
+
+/**
+ * Delete all secrets and start over with a per-install key, e.g. after the passphrase was forgotten
+ */
+export async function resetVault() {
+  await initializeVault();
+
+  await enqueueWrite(async () => {
+    getSecretNames().forEach((name) => localStorage.removeItem(`${SECRET_PREFIX}${name}`));
+    unlockWith(await createInstallKeyVault(), 'install');
+    logger.warn('Credential vault was reset');
+  });
+}
+
+/**
+ * Read a secret, waiting for the vault to initialize
+ * @throws VaultLockedError when the vault is locked
+ */
+export async function readSecret(name: string): Promise<string | null> {
+  await initializeVault();
+  await writeQueue;
+
+  if (vaultStatus.get() !== 'unlocked' || !vaultKey) {
+    throw new VaultLockedError();
+  }
+
+  const encrypted = localStorage.getItem(`${SECRET_PREFIX}${name}`);
+
+  return encrypted ? await decrypt(vaultKey, encrypted) : null;
+}
+
+/**
+ * Store a secret, or delete it with null
+ * @throws VaultLockedError when the vault is locked
+ */
+export async function writeSecret(name: string, value: string | null): Promise<void> {
+  await initializeVault();
+
+  await enqueueWrite(async () => {
+    if (vaultStatus.get() !== 'unlocked' || !vaultKey) {
+      throw new VaultLockedError();
+    }
+
+    if (value === null) {
+      localStorage.removeItem(`${SECRET_PREFIX}${name}`);
+    } else {
+      localStorage.setItem(`${SECRET_PREFIX}${name}`, await encrypt(vaultKey, value));
+    }
+  });
+}
+
+/**
+ * Run a callback every time the vault is unlocked, and right away if it already is
+ * @returns Function that removes the callback
+ */
+export function onVaultUnlocked(callback: () => void) {
+  let unlocked = false;
+
+  return vaultStatus.subscribe((status) => {
+    if (status === 'unlocked' && !unlocked) {
+      callback();
+    }
+
+    unlocked = status === 'unlocked';
+  });
+}
@@ -15,9 +15,12 @@ import { Octokit, type RestEndpointMethodTypes } from '@octokit/rest';
 import { path } from '~/utils/path';
 import { extractRelativePath } from '~/utils/diff';
 import { description } from '~/lib/persistence';
-import Cookies from 'js-cookie';
+import { githubConnection } from './github';
 import { createSampler } from '~/utils/sampler';
 import type { ActionAlert } from '~/types/actions';
+import type { GitLabProjectInfo, GitLabTreeEntry } from '~/types/GitLab';
+import { encodeGitLabProject } from '~/utils/gitlab';
+import { gitlabConnection, gitlabRequest } from './gitlab';
 
 const { saveAs } = fileSaver;
 
@@ -97,6 +100,9 @@ export class WorkbenchStore {
   get boltTerminal() {
     return this.#terminalStore.boltTerminal;
   }
+  get filesStore() {
+    return this.#filesStore;
+  }
   get alert() {
     return this.actionAlert;
   }
@@ -441,12 +447,12 @@ export class WorkbenchStore {
 
   async pushToGitHub(repoName: string, commitMessage?: string, githubUsername?: string, ghToken?: string) {
     try {
-      // Use cookies if username and token are not provided
-      const githubToken = ghToken || Cookies.get('githubToken');
-      const owner = githubUsername || Cookies.get('githubUsername');
+      // Use the saved GitHub connection if username and token are not provided
+      const githubToken = ghToken || githubConnection.get().token;
+      const owner = githubUsername || githubConnection.get().user?.login;
 
       if (!githubToken || !owner) {
-        throw new Error('GitHub token or username is not set in cookies or provided.');
+        throw new Error('GitHub token or username is not set in the GitHub connection or provided.');
       }
 
       // Initialize Octokit with the auth token
@@ -547,6 +553,99 @@ export class WorkbenchStore {
       throw error; // Rethrow the error for further handling
     }
   }
+
+  /**
+   * Push the files of the workbench to a GitLab project in one commit, creating the project if needed
+   * @param projectName Name of the project in the namespace of the user
+   * @param commitMessage Message of the commit
+   * @param isPrivate Whether a newly created project is private
+   * @returns URL of the project
+   */
+  async pushToGitLab(projectName: string, commitMessage?: string, isPrivate: boolean = false): Promise<string> {
+    const { user, token, baseUrl } = gitlabConnection.get();
+
+    if (!user || !token) {
+      throw new Error('Please connect to GitLab first in the settings tab!');
+    }
+
+    let project: GitLabProjectInfo;
+
+    try {
+      project = await gitlabRequest<GitLabProjectInfo>(
+        baseUrl,
+        token,
+        `/projects/${encodeGitLabProject(`${user.username}/${projectName}`)}`,
+      );
+    } catch (error) {
+      if ((error as { status?: number }).status !== 404) {
+        throw error;
+      }
+
+      // Project doesn't exist, so create a new one
+      project = await gitlabRequest<GitLabProjectInfo>(baseUrl, token, '/projects', {
+        method: 'POST',
+        body: JSON.stringify({
+          name: projectName,
+          path: projectName,
+          visibility: isPrivate ? 'private' : 'public',
+        }),
+      });
+    }
+
+    const files = this.files.get();
+    const textFiles = Object.entries(files).filter(
+      ([, dirent]) => dirent?.type === 'file' && !dirent.isBinary && dirent.content,
+    );
+
+    if (textFiles.length === 0) {
+      throw new Error('No files found to push');
+    }
+
+    const branch = project.default_branch || 'main';
+
+    // Files already in the project are updated, the rest created
+    const existingPaths = new Set<string>();
+
+    try {
+      for (let page = 1; ; page++) {
+        const entries = await gitlabRequest<GitLabTreeEntry[]>(
+          baseUrl,
+          token,
+          `/projects/${project.id}/repository/tree?recursive=true&per_page=100&page=${page}&ref=${encodeURIComponent(branch)}`,
+        );
+
+        entries.filter((entry) => entry.type === 'blob').forEach((entry) => existingPaths.add(entry.path));
+
+        if (entries.length < 100) {
+          break;
+        }
+      }
+    } catch (error) {
+      // Empty projects have no tree yet
+      if ((error as { status?: number }).status !== 404) {
+        throw error;
+      }
+    }
+
+    await gitlabRequest(baseUrl, token, `/projects/${project.id}/repository/commits`, {
+      method: 'POST',
+      body: JSON.stringify({
+        branch,
+        commit_message: commitMessage || 'Initial commit from your app',
+        actions: textFiles.map(([filePath, dirent]) => {
+          const relativePath = extractRelativePath(filePath);
+
+          return {
+            action: existingPaths.has(relativePath) ? 'update' : 'create',
+            file_path: relativePath,
+            content: dirent?.type === 'file' ? dirent.content : '',
+          };
+        }),
+      }),
+    });
+
+    return project.web_url;
+  }
 }
 
 export const workbenchStore = new WorkbenchStore();
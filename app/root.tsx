@@ -87,11 +87,15 @@ export function Layout({ children }: { children: React.ReactNode }) {
 }
 
 import { logStore } from './lib/stores/logs';
+import { initializeVault } from './lib/stores/vault';
 
 export default function App() {
   const theme = useStore(themeStore);
 
   useEffect(() => {
+    // Stored credentials are read through the vault, so open it as early as possible
+    initializeVault();
+
     logStore.logSystem('Application initialized', {
       theme,
       platform: navigator.platform,
@@ -1,13 +1,27 @@
 import { type ActionFunctionArgs } from '@remix-run/cloudflare';
-import { createDataStream, type Message as AIMessage } from 'ai';
+import { createDataStream, generateId, type JSONValue, type Message as AIMessage } from 'ai';
 import type { FileMap } from '~/lib/.server/llm/constants';
 import { streamText, type StreamingOptions } from '~/lib/.server/llm/stream-text';
 import type { IProviderSetting } from '~/types/model';
 import { createScopedLogger } from '~/utils/logger';
 import { getFilePaths, selectContext } from '~/lib/.server/llm/select-context';
-import type { ProgressAnnotation } from '~/types/context';
+import type {
+  ProgressAnnotation,
+  SamplingApprovalAnnotation,
+  SamplingUsageAnnotation,
+  ToolApprovalAnnotation,
+  ToolCallAnnotation,
+} from '~/types/context';
 import { createSummary } from '~/lib/.server/llm/create-summary';
-import { getMCPBootstrapPromise } from '~/lib/modules/mcp/bootstrap';
+import { getServerMCPBootstrapPromise } from '~/lib/modules/mcp/bootstrap';
+import { createResourcesContext, extractResourceRefs, type MCPResourceRef } from '~/lib/modules/mcp/resources';
+import { MCPToolApprovalManager } from '~/lib/modules/mcp/approval';
+import type { ToolCreationOptions } from '~/lib/modules/mcp/tool-factory';
+import type { MCPSamplingContext } from '~/lib/modules/mcp/sampling';
+import type { MCPToolSelection } from '~/lib/modules/mcp/config';
+import type { WorkbenchServerSettings } from '~/lib/modules/mcp/workbench-server';
+import { extractPropertiesFromMessage } from '~/lib/.server/llm/utils';
+import { generateToken } from '~/lib/crypto';
 
 interface MessagePart {
   type: 'text' | 'image';
@@ -40,6 +54,13 @@ function convertToAIMessages(messages: ExtendedMessage[]): AIMessage[] {
   return messages.map(convertToAIMessage);
 }
 
+// Helper function to collect the MCP resources attached to user messages
+function getAttachedResources(messages: ExtendedMessage[]): MCPResourceRef[] {
+  return messages
+    .filter((message) => message.role === 'user')
+    .flatMap((message) => extractResourceRefs(convertToAIMessage(message).content));
+}
+
 interface ChatRequestBody {
   messages: ExtendedMessage[];
   files?: FileMap;
@@ -48,6 +69,15 @@ interface ChatRequestBody {
   promptId?: string;
   contextOptimization?: boolean;
   options?: StreamingOptions;
+
+  // Servers and tools chosen for the chat; every tool when missing
+  mcpToolSelection?: MCPToolSelection;
+
+  // Stored settings of the workbench server, whose tools run in the browser
+  workbenchServer?: WorkbenchServerSettings;
+
+  // Chat the request belongs to, stored with its tool calls; missing until a new chat is saved
+  chatId?: string;
 }
 
 export async function action(args: ActionFunctionArgs) {
@@ -58,61 +88,6 @@ const logger = createScopedLogger('api.chat');
 
 async function chatAction({ request, context }: ActionFunctionArgs) {
   try {
-    // Debug MCP server status directly
-    try {
-      const { registry } = await getMCPBootstrapPromise();
-      const servers = registry.getAllServers();
-      const logger = createScopedLogger('ChatActionMCPDebug');
-
-      logger.info(`Debug: Found ${servers.length} MCP servers`);
-
-      for (const server of servers) {
-        logger.info(`Debug MCP Server: ${server.name} (${server.id})`, {
-          baseUrl: server.baseUrl,
-          enabled: server.enabled,
-        });
-
-        // Test connection
-        try {
-          const status = await server.testConnection();
-          logger.info(`Debug MCP Connection: ${status.success ? 'Connected' : 'Disconnected'}`, {
-            message: status.message,
-          });
-
-          if (status.success) {
-            // Get tools
-            const tools = await server.getToolDefinitions();
-            logger.info(`Debug MCP Tools: Found ${tools.length} tools`);
-            tools.forEach((tool) => {
-              logger.info(`Debug MCP Tool: ${tool.name}`, {
-                description: tool.description,
-              });
-            });
-
-            // Test GitHub API if this is GitHub
-            if (server.id === 'github') {
-              try {
-                logger.info('Testing direct GitHub API call...');
-
-                const result = await server.executeToolCall('github_get_user', {});
-                logger.info('Direct GitHub API call succeeded!', {
-                  username: result.login,
-                  result: JSON.stringify(result),
-                });
-              } catch (error) {
-                logger.error('Direct GitHub API call failed', error);
-              }
-            }
-          }
-        } catch (error) {
-          logger.error(`Error testing MCP server ${server.name}`, error);
-        }
-      }
-    } catch (error) {
-      const logger = createScopedLogger('ChatActionMCPDebug');
-      logger.error('Error accessing MCP registry', error);
-    }
-
     const body = (await request.json()) as ChatRequestBody;
     const {
       messages: rawMessages,
@@ -122,6 +97,9 @@ async function chatAction({ request, context }: ActionFunctionArgs) {
       promptId,
       contextOptimization = false,
       options,
+      mcpToolSelection,
+      workbenchServer,
+      chatId,
     } = body;
 
     // Convert raw messages to ExtendedMessage type
@@ -199,11 +177,137 @@ async function chatAction({ request, context }: ActionFunctionArgs) {
           });
         }
 
+        // Load the servers saved on the server before reading their resources and tools
+        const { toolFactory } = await getServerMCPBootstrapPromise(context.cloudflare?.env);
+
+        const resourceRefs = getAttachedResources(messages);
+        let resourcesContext: string | undefined;
+
+        if (resourceRefs.length > 0) {
+          logger.debug(`Loading ${resourceRefs.length} attached MCP resources`);
+          dataStream.writeData({
+            type: 'progress',
+            label: 'resources',
+            status: 'in-progress',
+            order: progressCounter++,
+            message: 'Loading MCP Resources',
+          } satisfies ProgressAnnotation);
+
+          resourcesContext = await createResourcesContext(resourceRefs);
+
+          dataStream.writeData({
+            type: 'progress',
+            label: 'resources',
+            status: 'complete',
+            order: progressCounter++,
+            message: 'MCP Resources Loaded',
+          } satisfies ProgressAnnotation);
+        }
+
+        // Tool definitions are cached across turns and only discovered again after a server reports a change
+        const mcpToolSnapshot = await toolFactory.getToolSnapshot();
+
+        // Tool calls and sampling requests that need approval are only sent to this response's client, which answers with the scope
+        const approvalScope = generateToken();
+        const requestApproval: ToolCreationOptions['requestApproval'] = (approvalRequest, signal) =>
+          MCPToolApprovalManager.getInstance().requestApproval(
+            approvalRequest,
+            approvalScope,
+            (pending) => {
+              dataStream.writeData({
+                type: 'toolApproval',
+                id: pending.id,
+                scope: approvalScope,
+                serverId: pending.serverId,
+                serverName: pending.serverName,
+                toolName: pending.toolName,
+                args: JSON.stringify(pending.args ?? {}),
+              } satisfies ToolApprovalAnnotation);
+            },
+            signal,
+          );
+
+        /*
+         * Every step of the response uses the same message ID, so tool calls can be linked to the message.
+         * A request that sends the results of workbench tools continues the last assistant message.
+         */
+        const lastMessage = messages[messages.length - 1];
+        const responseMessageId = lastMessage?.role === 'assistant' ? lastMessage.id : generateId();
+
+        // Send the tool calls of this response to the client, which keeps the audit log
+        const onToolCallRecord: ToolCreationOptions['onToolCallRecord'] = (record) => {
+          const annotation: ToolCallAnnotation = {
+            type: 'toolCall',
+            record: { ...record, chatId, messageId: responseMessageId },
+          };
+
+          // Records are plain JSON, but the interface has no index signature
+          dataStream.writeData(annotation as unknown as JSONValue);
+        };
+
+        // Report the progress of this response's tool calls
+        const onToolProgress: ToolCreationOptions['onToolProgress'] = (event) => {
+          const progress = event.total ? ` (${event.progress}/${event.total})` : '';
+
+          dataStream.writeData({
+            type: 'progress',
+            label: `tool-${event.toolCallId}`,
+            status: event.done ? 'complete' : 'in-progress',
+            order: progressCounter++,
+            message: `${event.serverName}: ${event.message || event.toolName}${event.done ? '' : progress}`,
+            toolCallId: event.toolCallId,
+            progress: event.progress ?? 0,
+            ...(event.total !== undefined && { total: event.total }),
+          } satisfies ProgressAnnotation);
+        };
+
+        // Servers asking for a completion while a tool call of this response runs use the chat's model
+        const lastUserMessage = [...messages].reverse().find((message) => message.role === 'user');
+        const { model, provider } = extractPropertiesFromMessage(
+          lastUserMessage ? convertToAIMessage(lastUserMessage) : { role: 'user', content: '' },
+        );
+        const samplingContext: MCPSamplingContext = {
+          scope: approvalScope,
+          provider,
+          model,
+          env: context.cloudflare?.env,
+          apiKeys,
+          providerSettings,
+          notify: (samplingRequest) => {
+            dataStream.writeData({
+              type: 'samplingApproval',
+              id: samplingRequest.id,
+              scope: approvalScope,
+              serverId: samplingRequest.serverId,
+              serverName: samplingRequest.serverName,
+              provider: samplingRequest.provider,
+              model: samplingRequest.model,
+              ...(samplingRequest.systemPrompt && { systemPrompt: samplingRequest.systemPrompt }),
+              messages: samplingRequest.messages,
+              maxTokens: samplingRequest.maxTokens,
+            } satisfies SamplingApprovalAnnotation);
+          },
+
+          // Sampling usage is stored with the response so its cost counts towards this chat
+          onUsage: (usage) => {
+            dataStream.writeMessageAnnotation({
+              type: 'samplingUsage',
+              usage,
+            } satisfies SamplingUsageAnnotation as unknown as JSONValue);
+          },
+        };
+
         // Stream the response
         const stream = await streamText({
           messages: messages.map((msg) => convertToAIMessage(msg)),
           env: context.cloudflare?.env,
-          options,
+          options: {
+            ...options,
+
+            // Passed on to tool calls, so stopping the chat cancels them on the server
+            abortSignal: request.signal,
+            experimental_generateMessageId: () => responseMessageId,
+          },
           apiKeys,
           files,
           providerSettings,
@@ -212,6 +316,12 @@ async function chatAction({ request, context }: ActionFunctionArgs) {
           contextFiles: filteredFiles || {},
           summary,
           messageSliceId,
+          resourcesContext,
+          enableTools: true,
+          mcpToolSnapshot,
+          mcpToolSelection,
+          workbenchServer,
+          mcpToolOptions: { requestApproval, onToolCallRecord, onToolProgress, samplingContext },
         });
 
         // Merge the stream into the data stream
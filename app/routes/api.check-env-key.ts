@@ -1,6 +1,6 @@
 import type { LoaderFunction } from '@remix-run/cloudflare';
 import { LLMManager } from '~/lib/modules/llm/manager';
-import { getApiKeysFromCookie } from '~/lib/api/cookies';
+import { getApiKeysFromRequest } from '~/lib/api/cookies';
 
 export const loader: LoaderFunction = async ({ context, request }) => {
   const url = new URL(request.url);
@@ -19,13 +19,12 @@ export const loader: LoaderFunction = async ({ context, request }) => {
 
   const envVarName = providerInstance.config.apiTokenKey;
 
-  // Get API keys from cookie
-  const cookieHeader = request.headers.get('Cookie');
-  const apiKeys = getApiKeysFromCookie(cookieHeader);
+  // Get API keys from the request header
+  const apiKeys = getApiKeysFromRequest(request);
 
   /*
    * Check API key in order of precedence:
-   * 1. Client-side API keys (from cookies)
+   * 1. Client-side API keys (from the request header)
    * 2. Server environment variables (from Cloudflare env)
    * 3. Process environment variables (from .env.local)
    * 4. LLMManager environment variables
@@ -5,7 +5,10 @@
 
 import { type ActionFunctionArgs, type LoaderFunctionArgs, json } from '@remix-run/node';
 import { createScopedLogger } from '~/utils/logger';
-import { MCPRuntimeManager } from '~/lib/modules/mcp/runtime-manager';
+import type { MCPRuntimeManager } from '~/lib/modules/mcp/runtime-manager';
+import { getServerMCPBootstrapPromise } from '~/lib/modules/mcp/bootstrap';
+import { getRequestRevision, MCPServerStoreConflictError } from '~/lib/modules/mcp/server-store';
+import { rejectStdioConfig, rejectUnsafeRequest } from '~/lib/modules/mcp/request-guard';
 
 const logger = createScopedLogger('api.mcp-servers.serverId');
 
@@ -34,10 +37,10 @@ function isUpdateServerRequest(body: unknown): body is UpdateServerRequest {
 /**
  * Loader function for GET requests
  */
-export async function loader({ params }: LoaderFunctionArgs) {
+export async function loader({ params, context }: LoaderFunctionArgs) {
   try {
     // Get the runtime manager
-    const runtimeManager = MCPRuntimeManager.getInstance();
+    const { runtimeManager } = await getServerMCPBootstrapPromise(context.cloudflare?.env);
 
     // Get server status
     const serverStatus = runtimeManager.getServerStatus(params.serverId!);
@@ -56,10 +59,17 @@ export async function loader({ params }: LoaderFunctionArgs) {
 /**
  * Action function for PUT/DELETE requests
  */
-export async function action({ request, params }: ActionFunctionArgs) {
+export async function action({ request, params, context }: ActionFunctionArgs) {
+  const rejection = rejectUnsafeRequest(request);
+
+  if (rejection) {
+    return rejection;
+  }
+
   try {
     // Get the runtime manager
-    const runtimeManager = MCPRuntimeManager.getInstance();
+    const { runtimeManager } = await getServerMCPBootstrapPromise(context.cloudflare?.env);
+    const revision = getRequestRevision(request);
 
     // Process based on request method
     switch (request.method) {
@@ -74,11 +84,18 @@ export async function action({ request, params }: ActionFunctionArgs) {
           return json({ error: 'No fields to update' }, { status: 400 });
         }
 
-        return handlePutRequest(body, params.serverId!, runtimeManager);
+        // Stdio servers run a command on the host, so they must be enabled explicitly
+        const stdioRejection = rejectStdioConfig(body.config, context.cloudflare?.env);
+
+        if (stdioRejection) {
+          return stdioRejection;
+        }
+
+        return handlePutRequest(body, params.serverId!, revision, runtimeManager);
       }
 
       case 'DELETE': {
-        return handleDeleteRequest(params.serverId!, runtimeManager);
+        return handleDeleteRequest(params.serverId!, revision, runtimeManager);
       }
 
       default:
@@ -93,8 +110,16 @@ export async function action({ request, params }: ActionFunctionArgs) {
 /**
  * Handle PUT requests (update server)
  */
-async function handlePutRequest(body: UpdateServerRequest, serverId: string, runtimeManager: MCPRuntimeManager) {
+async function handlePutRequest(
+  body: UpdateServerRequest,
+  serverId: string,
+  revision: number | undefined,
+  runtimeManager: MCPRuntimeManager,
+) {
   try {
+    // Refuse changes based on outdated servers
+    await runtimeManager.checkRevision(revision);
+
     // Check if enabling/disabling
     if ('enabled' in body) {
       // Enable or disable the server
@@ -110,6 +135,7 @@ async function handlePutRequest(body: UpdateServerRequest, serverId: string, run
         success: true,
         message: `Server ${serverStatus.name} ${body.enabled ? 'enabled' : 'disabled'} successfully`,
         server: serverStatus,
+        revision: runtimeManager.getRevision(),
       });
     } else {
       // Update server configuration
@@ -139,9 +165,14 @@ async function handlePutRequest(body: UpdateServerRequest, serverId: string, run
         success: true,
         message: `Server ${serverStatus.name} updated successfully`,
         server: serverStatus,
+        revision: runtimeManager.getRevision(),
       });
     }
   } catch (error) {
+    if (error instanceof MCPServerStoreConflictError) {
+      return json({ error: error.message, revision: error.revision }, { status: 409 });
+    }
+
     logger.error('Error updating MCP server:', error);
 
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -153,8 +184,11 @@ async function handlePutRequest(body: UpdateServerRequest, serverId: string, run
 /**
  * Handle DELETE requests (remove server)
  */
-async function handleDeleteRequest(serverId: string, runtimeManager: MCPRuntimeManager) {
+async function handleDeleteRequest(serverId: string, revision: number | undefined, runtimeManager: MCPRuntimeManager) {
   try {
+    // Refuse changes based on outdated servers
+    await runtimeManager.checkRevision(revision);
+
     const serverStatus = runtimeManager.getServerStatus(serverId);
 
     if (!serverStatus) {
@@ -162,13 +196,18 @@ async function handleDeleteRequest(serverId: string, runtimeManager: MCPRuntimeM
     }
 
     // Remove the server
-    runtimeManager.removeServer(serverId);
+    await runtimeManager.removeServer(serverId);
 
     return json({
       success: true,
       message: `Server ${serverStatus.name} removed successfully`,
+      revision: runtimeManager.getRevision(),
     });
   } catch (error) {
+    if (error instanceof MCPServerStoreConflictError) {
+      return json({ error: error.message, revision: error.revision }, { status: 409 });
+    }
+
     logger.error('Error removing MCP server:', error);
 
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
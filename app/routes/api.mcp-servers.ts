@@ -5,13 +5,16 @@
 
 import { type ActionFunctionArgs, type LoaderFunctionArgs, json } from '@remix-run/cloudflare';
 import { createScopedLogger } from '~/utils/logger';
-import { MCPRuntimeManager } from '~/lib/modules/mcp/runtime-manager';
+import type { MCPRuntimeManager } from '~/lib/modules/mcp/runtime-manager';
+import { getServerMCPBootstrapPromise } from '~/lib/modules/mcp/bootstrap';
+import { getRequestRevision, MCPServerStoreConflictError } from '~/lib/modules/mcp/server-store';
+import { rejectStdioConfig, rejectUnsafeRequest } from '~/lib/modules/mcp/request-guard';
 
 const logger = createScopedLogger('api.mcp-servers');
 
 interface AddServerRequest {
   name: string;
-  baseUrl: string;
+  baseUrl?: string;
   config?: Record<string, unknown>;
 }
 
@@ -25,10 +28,10 @@ interface UpdateServerRequest {
 /**
  * Loader function for GET requests
  */
-export async function loader({ request }: LoaderFunctionArgs) {
+export async function loader({ request, context }: LoaderFunctionArgs) {
   try {
     // Get the runtime manager
-    const runtimeManager = MCPRuntimeManager.getInstance();
+    const { runtimeManager } = await getServerMCPBootstrapPromise(context.cloudflare?.env);
 
     return handleGetRequest(request, runtimeManager);
   } catch (error) {
@@ -40,10 +43,18 @@ export async function loader({ request }: LoaderFunctionArgs) {
 /**
  * Action function for the API route
  */
-export async function action({ request }: ActionFunctionArgs) {
+export async function action({ request, context }: ActionFunctionArgs) {
+  if (request.method !== 'GET') {
+    const rejection = rejectUnsafeRequest(request);
+
+    if (rejection) {
+      return rejection;
+    }
+  }
+
   try {
     // Get the runtime manager
-    const runtimeManager = MCPRuntimeManager.getInstance();
+    const { runtimeManager } = await getServerMCPBootstrapPromise(context.cloudflare?.env);
 
     // Process based on request method
     switch (request.method) {
@@ -51,10 +62,10 @@ export async function action({ request }: ActionFunctionArgs) {
         return handleGetRequest(request, runtimeManager);
 
       case 'POST':
-        return handlePostRequest(request, runtimeManager);
+        return handlePostRequest(request, runtimeManager, context.cloudflare?.env);
 
       case 'PUT':
-        return handlePutRequest(request, runtimeManager);
+        return handlePutRequest(request, runtimeManager, context.cloudflare?.env);
 
       case 'DELETE':
         return handleDeleteRequest(request, runtimeManager);
@@ -84,8 +95,13 @@ async function handleGetRequest(request: Request, runtimeManager: MCPRuntimeMana
     case 'list': {
       // List all servers
       const includeDisabled = url.searchParams.get('includeDisabled') === 'true';
+
+      // Pick up changes saved by other processes before listing
+      await runtimeManager.checkRevision();
+
       return json({
         servers: runtimeManager.getAllServerStatus(includeDisabled),
+        revision: runtimeManager.getRevision(),
       });
     }
 
@@ -156,20 +172,31 @@ async function handleGetRequest(request: Request, runtimeManager: MCPRuntimeMana
  * Handle POST requests (add server)
  * @param request Request object
  * @param runtimeManager Runtime manager instance
+ * @param env Environment of the request
  * @returns Response
  */
-async function handlePostRequest(request: Request, runtimeManager: MCPRuntimeManager) {
+async function handlePostRequest(request: Request, runtimeManager: MCPRuntimeManager, env?: Env) {
   try {
     // Parse request body
     const body = (await request.json()) as AddServerRequest;
 
-    // Validate required fields
-    if (!body.name || !body.baseUrl) {
-      return json({ error: 'Name and baseUrl are required' }, { status: 400 });
+    // Validate required fields (stdio servers are identified by their command and OpenAPI servers by their document)
+    if (!body.name || (!body.baseUrl && !body.config?.command && !body.config?.openapi)) {
+      return json({ error: 'Name and either baseUrl, config.command or config.openapi are required' }, { status: 400 });
     }
 
+    // Stdio servers run a command on the host, so they must be enabled explicitly
+    const stdioRejection = rejectStdioConfig(body.config, env);
+
+    if (stdioRejection) {
+      return stdioRejection;
+    }
+
+    // Refuse changes based on outdated servers
+    await runtimeManager.checkRevision(getRequestRevision(request));
+
     // Add the server
-    const serverId = await runtimeManager.addServer(body.name, body.baseUrl, body.config || {});
+    const serverId = await runtimeManager.addServer(body.name, body.baseUrl || '', body.config || {});
 
     // Get the server status
     const serverStatus = runtimeManager.getServerStatus(serverId);
@@ -179,8 +206,13 @@ async function handlePostRequest(request: Request, runtimeManager: MCPRuntimeMan
       message: `Server ${body.name} added successfully`,
       serverId,
       server: serverStatus,
+      revision: runtimeManager.getRevision(),
     });
   } catch (error) {
+    if (error instanceof MCPServerStoreConflictError) {
+      return json({ error: error.message, revision: error.revision }, { status: 409 });
+    }
+
     logger.error('Error adding MCP server:', error);
 
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -193,9 +225,10 @@ async function handlePostRequest(request: Request, runtimeManager: MCPRuntimeMan
  * Handle PUT requests (update server)
  * @param request Request object
  * @param runtimeManager Runtime manager instance
+ * @param env Environment of the request
  * @returns Response
  */
-async function handlePutRequest(request: Request, runtimeManager: MCPRuntimeManager) {
+async function handlePutRequest(request: Request, runtimeManager: MCPRuntimeManager, env?: Env) {
   try {
     // Get server ID from URL
     const url = new URL(request.url);
@@ -205,6 +238,15 @@ async function handlePutRequest(request: Request, runtimeManager: MCPRuntimeMana
     // Parse request body
     const body = (await request.json()) as UpdateServerRequest;
 
+    const stdioRejection = rejectStdioConfig(body.config, env);
+
+    if (stdioRejection) {
+      return stdioRejection;
+    }
+
+    // Refuse changes based on outdated servers
+    await runtimeManager.checkRevision(getRequestRevision(request));
+
     // Check if enabling/disabling
     if (body.hasOwnProperty('enabled')) {
       // Enable or disable the server
@@ -220,6 +262,7 @@ async function handlePutRequest(request: Request, runtimeManager: MCPRuntimeMana
         success: true,
         message: `Server ${serverStatus.name} ${body.enabled ? 'enabled' : 'disabled'} successfully`,
         server: serverStatus,
+        revision: runtimeManager.getRevision(),
       });
     } else {
       // Update server configuration
@@ -249,9 +292,14 @@ async function handlePutRequest(request: Request, runtimeManager: MCPRuntimeMana
         success: true,
         message: `Server ${serverStatus.name} updated successfully`,
         server: serverStatus,
+        revision: runtimeManager.getRevision(),
       });
     }
   } catch (error) {
+    if (error instanceof MCPServerStoreConflictError) {
+      return json({ error: error.message, revision: error.revision }, { status: 409 });
+    }
+
     logger.error('Error updating MCP server:', error);
 
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -277,18 +325,26 @@ async function handleDeleteRequest(request: Request, runtimeManager: MCPRuntimeM
       return json({ error: 'Server ID is required' }, { status: 400 });
     }
 
+    // Refuse changes based on outdated servers
+    await runtimeManager.checkRevision(getRequestRevision(request));
+
     // Get server name before removing
     const serverStatus = runtimeManager.getServerStatus(serverId);
     const serverName = serverStatus?.name || serverId;
 
     // Remove the server
-    runtimeManager.removeServer(serverId);
+    await runtimeManager.removeServer(serverId);
 
     return json({
       success: true,
       message: `Server ${serverName} removed successfully`,
+      revision: runtimeManager.getRevision(),
     });
   } catch (error) {
+    if (error instanceof MCPServerStoreConflictError) {
+      return json({ error: error.message, revision: error.revision }, { status: 409 });
+    }
+
     logger.error('Error removing MCP server:', error);
 
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -0,0 +1,59 @@
+/**
+ * API route serving bolt as an MCP server for external agents
+ * Route: /api/mcp
+ * Speaks stateless Streamable HTTP; requests need `Authorization: Bearer <BOLT_MCP_TOKEN>`
+ */
+
+import { type ActionFunctionArgs, type LoaderFunctionArgs, json } from '@remix-run/cloudflare';
+import { createScopedLogger } from '~/utils/logger';
+import { createBoltMCPServer, getBoltMCPToken, hasBoltMCPToken } from '~/lib/modules/mcp/bolt-server';
+import { HttpServerTransport } from '~/lib/modules/mcp/http-server-transport';
+
+const logger = createScopedLogger('api.mcp');
+
+/**
+ * Answer an MCP request after checking the token
+ * @param args Route arguments
+ */
+async function handleMCPRequest({ request, context }: ActionFunctionArgs | LoaderFunctionArgs) {
+  const token = getBoltMCPToken(context.cloudflare?.env);
+
+  if (!token) {
+    return json({ error: 'The bolt MCP server is disabled; set BOLT_MCP_TOKEN to enable it' }, { status: 404 });
+  }
+
+  if (!hasBoltMCPToken(request, token)) {
+    return json({ error: 'Unauthorized' }, { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } });
+  }
+
+  // Every request gets its own server, so no session state is kept between requests
+  const server = createBoltMCPServer();
+  const transport = new HttpServerTransport();
+
+  try {
+    await server.connect(transport);
+
+    return await transport.handleRequest(request);
+  } catch (error) {
+    logger.error('Error handling MCP request:', error);
+    await server.close();
+
+    return json({ error: error instanceof Error ? error.message : 'Unknown error' }, { status: 500 });
+  }
+}
+
+/**
+ * Streams for server-initiated messages are not offered
+ * GET /api/mcp
+ */
+export async function loader(args: LoaderFunctionArgs) {
+  return handleMCPRequest(args);
+}
+
+/**
+ * Send JSON-RPC messages to the bolt MCP server
+ * POST /api/mcp
+ */
+export async function action(args: ActionFunctionArgs) {
+  return handleMCPRequest(args);
+}
@@ -0,0 +1,89 @@
+/**
+ * API route for importing and exporting MCP servers in the `mcpServers` JSON format
+ * Route: /api/mcp/config
+ */
+
+import { type ActionFunctionArgs, type LoaderFunctionArgs, json } from '@remix-run/cloudflare';
+import { createScopedLogger } from '~/utils/logger';
+import { getServerMCPBootstrapPromise } from '~/lib/modules/mcp/bootstrap';
+import { getRequestRevision, MCPServerStoreConflictError } from '~/lib/modules/mcp/server-store';
+import { rejectUnsafeRequest } from '~/lib/modules/mcp/request-guard';
+import { isStdioAllowed } from '~/lib/modules/mcp/adapters';
+import {
+  createMCPConfigFile,
+  importMCPConfigFile,
+  type MCPImportConflictStrategy,
+} from '~/lib/modules/mcp/config-file';
+
+const logger = createScopedLogger('api.mcp.config');
+
+const CONFLICT_STRATEGIES: MCPImportConflictStrategy[] = ['rename', 'skip', 'replace'];
+
+/**
+ * Export all servers with their secrets redacted
+ * GET /api/mcp/config
+ */
+export async function loader({ context }: LoaderFunctionArgs) {
+  try {
+    const { runtimeManager } = await getServerMCPBootstrapPromise(context.cloudflare?.env);
+
+    return json(createMCPConfigFile(runtimeManager.getServerConfigurations()));
+  } catch (error) {
+    logger.error('Error exporting MCP servers:', error);
+    return json({ error: error instanceof Error ? error.message : 'Unknown error' }, { status: 500 });
+  }
+}
+
+/**
+ * Import the servers of an `mcpServers` file sent as the request body
+ * Stdio servers are skipped unless the server allows them
+ * POST /api/mcp/config?onConflict=rename|skip|replace
+ */
+export async function action({ request, context }: ActionFunctionArgs) {
+  if (request.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, { status: 405 });
+  }
+
+  const rejection = rejectUnsafeRequest(request);
+
+  if (rejection) {
+    return rejection;
+  }
+
+  const onConflict = (new URL(request.url).searchParams.get('onConflict') || 'rename') as MCPImportConflictStrategy;
+
+  if (!CONFLICT_STRATEGIES.includes(onConflict)) {
+    return json({ error: `onConflict must be one of ${CONFLICT_STRATEGIES.join(', ')}` }, { status: 400 });
+  }
+
+  let body: unknown;
+
+  try {
+    body = await request.json();
+  } catch {
+    return json({ error: 'Request body must be valid JSON' }, { status: 400 });
+  }
+
+  try {
+    const { runtimeManager } = await getServerMCPBootstrapPromise(context.cloudflare?.env);
+
+    // Refuse imports based on outdated servers
+    await runtimeManager.checkRevision(getRequestRevision(request));
+
+    const result = await importMCPConfigFile(runtimeManager, body, onConflict, isStdioAllowed(context.cloudflare?.env));
+
+    return json({
+      ...result,
+      servers: runtimeManager.getAllServerStatus(true),
+      revision: runtimeManager.getRevision(),
+    });
+  } catch (error) {
+    if (error instanceof MCPServerStoreConflictError) {
+      return json({ error: error.message, revision: error.revision }, { status: 409 });
+    }
+
+    logger.error('Error importing MCP servers:', error);
+
+    return json({ error: error instanceof Error ? error.message : 'Unknown error' }, { status: 400 });
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * OAuth redirect target for MCP servers
+ * Route: /api/mcp/oauth/callback
+ */
+
+import { type LoaderFunctionArgs } from '@remix-run/cloudflare';
+import { createScopedLogger } from '~/utils/logger';
+import { getServerMCPBootstrapPromise } from '~/lib/modules/mcp/bootstrap';
+import { createAuthorizationResultPage, type MCPAuthorizationResult } from '~/lib/modules/mcp/oauth';
+
+const logger = createScopedLogger('api.mcp.oauth.callback');
+
+/**
+ * Respond with the result page
+ * @param result Outcome of the sign-in
+ * @param status HTTP status
+ */
+function resultPage(result: Omit<MCPAuthorizationResult, 'type'>, status: number = 200): Response {
+  return new Response(createAuthorizationResultPage(result), {
+    status,
+    headers: { 'Content-Type': 'text/html; charset=utf-8' },
+  });
+}
+
+/**
+ * Exchange the authorization code for tokens and reconnect the server
+ * GET /api/mcp/oauth/callback?code=&state=
+ */
+export async function loader({ request, context }: LoaderFunctionArgs) {
+  const params = new URL(request.url).searchParams;
+  const code = params.get('code');
+  const state = params.get('state');
+  const authorizationError = params.get('error');
+
+  const { registry, runtimeManager } = await getServerMCPBootstrapPromise(context.cloudflare?.env);
+
+  // The state links the callback to the server whose sign-in was started
+  const server = state
+    ? registry.getAllServers().find((candidate) => candidate.getConfig().auth?.oauth?.state === state)
+    : undefined;
+
+  if (!server) {
+    return resultPage({ success: false, message: 'Unknown or expired authorization request' }, 400);
+  }
+
+  if (authorizationError || !code) {
+    const description = params.get('error_description') || authorizationError || 'no authorization code received';
+
+    return resultPage(
+      { serverId: server.id, success: false, message: `Sign-in was not completed: ${description}` },
+      400,
+    );
+  }
+
+  try {
+    await server.finishAuthorization?.(code);
+    await runtimeManager.refreshServerStatus(server.id);
+
+    logger.info(`Authorized MCP server ${server.name}`);
+
+    return resultPage({ serverId: server.id, success: true, message: `Signed in to ${server.name}` });
+  } catch (error) {
+    logger.error(`Error completing authorization for MCP server ${server.name}:`, error);
+
+    return resultPage(
+      {
+        serverId: server.id,
+        success: false,
+        message: `Failed to sign in to ${server.name}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      },
+      500,
+    );
+  }
+}
@@ -0,0 +1,124 @@
+/**
+ * API route for signing in to MCP servers with OAuth
+ * Route: /api/mcp/oauth
+ */
+
+import { type ActionFunctionArgs, json } from '@remix-run/cloudflare';
+import { createScopedLogger } from '~/utils/logger';
+import { getServerMCPBootstrapPromise } from '~/lib/modules/mcp/bootstrap';
+import { MCP_OAUTH_CALLBACK_PATH } from '~/lib/modules/mcp/oauth';
+import { rejectUnsafeRequest } from '~/lib/modules/mcp/request-guard';
+import type { MCPServerRegistry } from '~/lib/modules/mcp/registry';
+import type { MCPRuntimeManager } from '~/lib/modules/mcp/runtime-manager';
+
+const logger = createScopedLogger('api.mcp.oauth');
+
+interface SignInRequest {
+  serverId?: string;
+}
+
+/**
+ * Start the sign-in for a server or sign out of it
+ * POST /api/mcp/oauth
+ * DELETE /api/mcp/oauth?serverId=
+ */
+export async function action({ request, context }: ActionFunctionArgs) {
+  const rejection = rejectUnsafeRequest(request);
+
+  if (rejection) {
+    return rejection;
+  }
+
+  try {
+    switch (request.method) {
+      case 'POST': {
+        const { serverId } = (await request.json()) as SignInRequest;
+
+        if (!serverId) {
+          return json({ error: 'Server ID is required' }, { status: 400 });
+        }
+
+        const { registry, runtimeManager } = await getServerMCPBootstrapPromise(context.cloudflare?.env);
+
+        return handleSignIn(serverId, new URL(request.url).origin, registry, runtimeManager);
+      }
+
+      case 'DELETE': {
+        const serverId = new URL(request.url).searchParams.get('serverId');
+
+        if (!serverId) {
+          return json({ error: 'Server ID is required' }, { status: 400 });
+        }
+
+        const { registry, runtimeManager } = await getServerMCPBootstrapPromise(context.cloudflare?.env);
+
+        return handleSignOut(serverId, registry, runtimeManager);
+      }
+
+      default:
+        return json({ error: 'Method not allowed' }, { status: 405 });
+    }
+  } catch (error) {
+    logger.error('Error handling MCP OAuth request:', error);
+    return json({ error: error instanceof Error ? error.message : 'Unknown error' }, { status: 500 });
+  }
+}
+
+/**
+ * Start the sign-in for a server
+ * Responds with the URL of the authorization server, or with the server when its stored tokens were refreshed
+ * @param serverId Server ID
+ * @param origin Origin of bolt, which the authorization server redirects back to
+ * @param registry Registry of the servers
+ * @param runtimeManager Runtime manager of the servers
+ */
+async function handleSignIn(
+  serverId: string,
+  origin: string,
+  registry: MCPServerRegistry,
+  runtimeManager: MCPRuntimeManager,
+) {
+  const server = registry.getServer(serverId);
+
+  if (!server) {
+    return json({ error: `Server not found: ${serverId}` }, { status: 404 });
+  }
+
+  try {
+    const authorizationUrl = await server.startAuthorization?.(`${origin}${MCP_OAUTH_CALLBACK_PATH}`);
+
+    if (authorizationUrl) {
+      return json({ authorizationUrl });
+    }
+
+    // Stored tokens were refreshed, so there is nothing for the user to do
+    await runtimeManager.refreshServerStatus(serverId);
+
+    return json({ server: runtimeManager.getServerStatus(serverId) });
+  } catch (error) {
+    logger.error(`Error starting authorization for MCP server ${serverId}:`, error);
+
+    const message = error instanceof Error ? error.message : 'Unknown error';
+
+    return json({ error: `Failed to sign in to ${server.name}: ${message}` }, { status: 500 });
+  }
+}
+
+/**
+ * Sign out of a server
+ * @param serverId Server ID
+ * @param registry Registry of the servers
+ * @param runtimeManager Runtime manager of the servers
+ */
+async function handleSignOut(serverId: string, registry: MCPServerRegistry, runtimeManager: MCPRuntimeManager) {
+  const server = registry.getServer(serverId);
+
+  if (!server) {
+    return json({ error: `Server not found: ${serverId}` }, { status: 404 });
+  }
+
+  await server.signOut?.();
+  await runtimeManager.refreshServerStatus(serverId);
+
+  return json({ server: runtimeManager.getServerStatus(serverId) });
+}
@@ -0,0 +1,63 @@
+/**
+ * API route for MCP prompts
+ * Route: /api/mcp/prompts
+ */
+
+import { type ActionFunctionArgs, type LoaderFunctionArgs, json } from '@remix-run/cloudflare';
+import { createScopedLogger } from '~/utils/logger';
+import { getServerMCPBootstrapPromise } from '~/lib/modules/mcp/bootstrap';
+
+const logger = createScopedLogger('api.mcp.prompts');
+
+interface GetPromptRequest {
+  serverId?: string;
+  name?: string;
+  arguments?: Record<string, string>;
+}
+
+/**
+ * List prompts of all enabled servers
+ * GET /api/mcp/prompts
+ */
+export async function loader({ context }: LoaderFunctionArgs) {
+  try {
+    const { registry } = await getServerMCPBootstrapPromise(context.cloudflare?.env);
+    const prompts = await registry.listPrompts();
+
+    return json({ prompts });
+  } catch (error) {
+    logger.error('Error listing MCP prompts:', error);
+    return json({ error: error instanceof Error ? error.message : 'Unknown error' }, { status: 500 });
+  }
+}
+
+/**
+ * Expand a prompt
+ * POST /api/mcp/prompts
+ */
+export async function action({ request, context }: ActionFunctionArgs) {
+  if (request.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, { status: 405 });
+  }
+
+  try {
+    const { serverId, name, arguments: args = {} } = (await request.json()) as GetPromptRequest;
+
+    if (!serverId || !name) {
+      return json({ error: 'Server ID and prompt name are required' }, { status: 400 });
+    }
+
+    const { registry } = await getServerMCPBootstrapPromise(context.cloudflare?.env);
+
+    if (!registry.getServer(serverId)) {
+      return json({ error: `Server not found: ${serverId}` }, { status: 404 });
+    }
+
+    const result = await registry.getPrompt(serverId, name, args);
+
+    return json(result);
+  } catch (error) {
+    logger.error('Error getting MCP prompt:', error);
+    return json({ error: error instanceof Error ? error.message : 'Unknown error' }, { status: 500 });
+  }
+}
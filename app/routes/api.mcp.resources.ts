@@ -0,0 +1,72 @@
+/**
+ * API route for MCP resources
+ * Route: /api/mcp/resources
+ */
+
+import { type ActionFunctionArgs, type LoaderFunctionArgs, json } from '@remix-run/cloudflare';
+import { createScopedLogger } from '~/utils/logger';
+import { getServerMCPBootstrapPromise } from '~/lib/modules/mcp/bootstrap';
+
+const logger = createScopedLogger('api.mcp.resources');
+
+interface ReadResourceRequest {
+  serverId?: string;
+  uri?: string;
+}
+
+/**
+ * List resources and resource templates of all enabled servers
+ * GET /api/mcp/resources
+ */
+export async function loader({ request, context }: LoaderFunctionArgs) {
+  try {
+    const serverId = new URL(request.url).searchParams.get('serverId');
+
+    const { registry } = await getServerMCPBootstrapPromise(context.cloudflare?.env);
+
+    const [resources, templates] = await Promise.all([registry.listResources(), registry.listResourceTemplates()]);
+
+    if (serverId) {
+      return json({
+        resources: { [serverId]: resources[serverId] || [] },
+        templates: { [serverId]: templates[serverId] || [] },
+      });
+    }
+
+    return json({ resources, templates });
+  } catch (error) {
+    logger.error('Error listing MCP resources:', error);
+    return json({ error: error instanceof Error ? error.message : 'Unknown error' }, { status: 500 });
+  }
+}
+
+/**
+ * Read a resource
+ * POST /api/mcp/resources
+ */
+export async function action({ request, context }: ActionFunctionArgs) {
+  if (request.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, { status: 405 });
+  }
+
+  try {
+    const { serverId, uri } = (await request.json()) as ReadResourceRequest;
+
+    if (!serverId || !uri) {
+      return json({ error: 'Server ID and resource URI are required' }, { status: 400 });
+    }
+
+    const { registry } = await getServerMCPBootstrapPromise(context.cloudflare?.env);
+
+    if (!registry.getServer(serverId)) {
+      return json({ error: `Server not found: ${serverId}` }, { status: 404 });
+    }
+
+    const contents = await registry.readResource(serverId, uri);
+
+    return json({ contents });
+  } catch (error) {
+    logger.error('Error reading MCP resource:', error);
+    return json({ error: error instanceof Error ? error.message : 'Unknown error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * API route for the project folders reported to MCP servers as roots
+ * Route: /api/mcp/roots
+ */
+
+import { type ActionFunctionArgs, json } from '@remix-run/cloudflare';
+import { createScopedLogger } from '~/utils/logger';
+import { getMCPBootstrapPromise } from '~/lib/modules/mcp/bootstrap';
+import { MCPRootsManager, type MCPRoot } from '~/lib/modules/mcp/roots';
+
+const logger = createScopedLogger('api.mcp.roots');
+
+/**
+ * Get the current roots
+ * GET /api/mcp/roots
+ */
+export async function loader() {
+  return json({ roots: MCPRootsManager.getInstance().getRoots() });
+}
+
+/**
+ * Replace the roots with those of the active chat; connected servers are notified when they change
+ * POST /api/mcp/roots
+ */
+export async function action({ request }: ActionFunctionArgs) {
+  if (request.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, { status: 405 });
+  }
+
+  let roots: MCPRoot[] | undefined;
+
+  try {
+    ({ roots } = (await request.json()) as { roots?: MCPRoot[] });
+  } catch {
+    return json({ error: 'Request body must be valid JSON' }, { status: 400 });
+  }
+
+  if (!Array.isArray(roots)) {
+    return json({ error: 'roots must be an array' }, { status: 400 });
+  }
+
+  try {
+    // Connect the configured servers so they are told about the new roots
+    await getMCPBootstrapPromise();
+    MCPRootsManager.getInstance().setRoots(roots);
+
+    return json({ roots: MCPRootsManager.getInstance().getRoots() });
+  } catch (error) {
+    logger.error('Error updating MCP roots:', error);
+    return json({ error: error instanceof Error ? error.message : 'Unknown error' }, { status: 400 });
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * API route for approving MCP sampling requests
+ * Route: /api/mcp/sampling-approvals
+ */
+
+import { type ActionFunctionArgs, type LoaderFunctionArgs, json } from '@remix-run/cloudflare';
+import { createScopedLogger } from '~/utils/logger';
+import { MCPSamplingManager } from '~/lib/modules/mcp/sampling';
+import { rejectUnsafeRequest } from '~/lib/modules/mcp/request-guard';
+
+const logger = createScopedLogger('api.mcp.sampling-approvals');
+
+interface SamplingDecision {
+  id?: string;
+  approved?: boolean;
+  maxTokens?: number;
+
+  // Secret of the chat response whose tool call triggered the request, sent with the request
+  scope?: string;
+}
+
+/**
+ * List the sampling requests of a chat response waiting for approval
+ * GET /api/mcp/sampling-approvals?scope=
+ */
+export async function loader({ request }: LoaderFunctionArgs) {
+  const scope = new URL(request.url).searchParams.get('scope');
+
+  if (!scope) {
+    return json({ error: 'Sampling scope is required' }, { status: 400 });
+  }
+
+  return json({ requests: MCPSamplingManager.getInstance().getPendingRequests(scope) });
+}
+
+/**
+ * Approve or reject a pending sampling request
+ * POST /api/mcp/sampling-approvals
+ */
+export async function action({ request }: ActionFunctionArgs) {
+  if (request.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, { status: 405 });
+  }
+
+  const rejection = rejectUnsafeRequest(request);
+
+  if (rejection) {
+    return rejection;
+  }
+
+  try {
+    const { id, approved, maxTokens, scope } = (await request.json()) as SamplingDecision;
+
+    if (!id || !scope || typeof approved !== 'boolean') {
+      return json({ error: 'Request ID, scope and decision are required' }, { status: 400 });
+    }
+
+    if (maxTokens !== undefined && (!Number.isInteger(maxTokens) || maxTokens < 1)) {
+      return json({ error: 'maxTokens must be a positive integer' }, { status: 400 });
+    }
+
+    if (!MCPSamplingManager.getInstance().resolveRequest(id, scope, approved, maxTokens)) {
+      return json({ error: 'Sampling request not found or already resolved' }, { status: 404 });
+    }
+
+    return json({ success: true });
+  } catch (error) {
+    logger.error('Error resolving MCP sampling request:', error);
+    return json({ error: error instanceof Error ? error.message : 'Unknown error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * API route the bolt tab uses to perform the tool calls of external agents
+ * The tab opens a session first with `Authorization: Bearer <BOLT_MCP_TOKEN>`; polls and results must
+ * carry the secret of the session in the X-Bolt-Session header
+ * Route: /api/mcp/session
+ */
+
+import { type ActionFunctionArgs, type LoaderFunctionArgs, json } from '@remix-run/cloudflare';
+import { createScopedLogger } from '~/utils/logger';
+import { getBoltMCPToken, hasBoltMCPToken } from '~/lib/modules/mcp/bolt-server';
+import { BOLT_SESSION_HEADER, BoltSessionBridge } from '~/lib/modules/mcp/bolt-session';
+import { rejectUnsafeRequest } from '~/lib/modules/mcp/request-guard';
+
+const logger = createScopedLogger('api.mcp.session');
+
+// Time a poll waits for an action before it returns empty (25 seconds)
+const POLL_TIMEOUT = 25 * 1000;
+
+interface SessionResult {
+  // Open a session instead of posting a result
+  open?: boolean;
+  id?: string;
+  result?: unknown;
+  error?: string;
+}
+
+/**
+ * Wait for actions of external agents
+ * GET /api/mcp/session
+ */
+export async function loader({ request, context }: LoaderFunctionArgs) {
+  if (!getBoltMCPToken(context.cloudflare?.env)) {
+    return json({ enabled: false, requests: [] });
+  }
+
+  const bridge = BoltSessionBridge.getInstance();
+  const session = request.headers.get(BOLT_SESSION_HEADER);
+
+  if (!bridge.hasSession(session)) {
+    return json({ error: 'Session not found; open a session first' }, { status: 401 });
+  }
+
+  const requests = await bridge.takeRequests(session, POLL_TIMEOUT, request.signal);
+
+  return json({ enabled: true, requests });
+}
+
+/**
+ * Open a session (`{ open: true }`) or post the outcome of an action delivered to the session
+ * POST /api/mcp/session
+ */
+export async function action({ request, context }: ActionFunctionArgs) {
+  if (request.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, { status: 405 });
+  }
+
+  const rejection = rejectUnsafeRequest(request);
+
+  if (rejection) {
+    return rejection;
+  }
+
+  try {
+    const { open, id, result, error } = (await request.json()) as SessionResult;
+    const bridge = BoltSessionBridge.getInstance();
+
+    if (open) {
+      const token = getBoltMCPToken(context.cloudflare?.env);
+
+      if (!token) {
+        return json({ enabled: false });
+      }
+
+      if (!hasBoltMCPToken(request, token)) {
+        return json({ error: 'Unauthorized' }, { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } });
+      }
+
+      return json({ enabled: true, session: bridge.openSession() });
+    }
+
+    const session = request.headers.get(BOLT_SESSION_HEADER);
+
+    if (!bridge.hasSession(session)) {
+      return json({ error: 'Session not found; open a session first' }, { status: 401 });
+    }
+
+    if (!id) {
+      return json({ error: 'Request ID is required' }, { status: 400 });
+    }
+
+    const outcome = typeof error === 'string' ? { error } : { result: result ?? null };
+
+    if (!bridge.resolveRequest(id, session, outcome)) {
+      return json({ error: 'Action not found or already finished' }, { status: 404 });
+    }
+
+    return json({ success: true });
+  } catch (error) {
+    logger.error('Error finishing bolt session action:', error);
+    return json({ error: error instanceof Error ? error.message : 'Unknown error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,66 @@
+/**
+ * API route for approving MCP tool calls
+ * Route: /api/mcp/tool-approvals
+ */
+
+import { type ActionFunctionArgs, type LoaderFunctionArgs, json } from '@remix-run/cloudflare';
+import { createScopedLogger } from '~/utils/logger';
+import { MCPToolApprovalManager } from '~/lib/modules/mcp/approval';
+import { rejectUnsafeRequest } from '~/lib/modules/mcp/request-guard';
+
+const logger = createScopedLogger('api.mcp.tool-approvals');
+
+interface ToolApprovalDecision {
+  id?: string;
+  approved?: boolean;
+
+  // Secret of the chat response that made the call, sent with its approval requests
+  scope?: string;
+}
+
+/**
+ * List the tool calls of a chat response waiting for approval
+ * GET /api/mcp/tool-approvals?scope=
+ */
+export async function loader({ request }: LoaderFunctionArgs) {
+  const scope = new URL(request.url).searchParams.get('scope');
+
+  if (!scope) {
+    return json({ error: 'Approval scope is required' }, { status: 400 });
+  }
+
+  return json({ approvals: MCPToolApprovalManager.getInstance().getPendingApprovals(scope) });
+}
+
+/**
+ * Approve or deny a pending tool call
+ * POST /api/mcp/tool-approvals
+ */
+export async function action({ request }: ActionFunctionArgs) {
+  if (request.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, { status: 405 });
+  }
+
+  const rejection = rejectUnsafeRequest(request);
+
+  if (rejection) {
+    return rejection;
+  }
+
+  try {
+    const { id, approved, scope } = (await request.json()) as ToolApprovalDecision;
+
+    if (!id || !scope || typeof approved !== 'boolean') {
+      return json({ error: 'Approval ID, scope and decision are required' }, { status: 400 });
+    }
+
+    if (!MCPToolApprovalManager.getInstance().resolveApproval(id, scope, approved)) {
+      return json({ error: 'Approval request not found or already resolved' }, { status: 404 });
+    }
+
+    return json({ success: true });
+  } catch (error) {
+    logger.error('Error resolving MCP tool approval:', error);
+    return json({ error: error instanceof Error ? error.message : 'Unknown error' }, { status: 500 });
+  }
+}
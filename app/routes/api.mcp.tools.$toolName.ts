@@ -1,11 +1,18 @@
 import { json } from '@remix-run/node';
-import type { ActionFunctionArgs } from '@remix-run/node';
+import type { ActionFunctionArgs, LoaderFunctionArgs } from '@remix-run/node';
 import { createScopedLogger } from '~/utils/logger';
-import { MCPServerRegistry } from '~/lib/modules/mcp/registry';
+import { getServerMCPBootstrapPromise } from '~/lib/modules/mcp/bootstrap';
 import { MCPToolFactory } from '~/lib/modules/mcp/tool-factory';
+import { MCPToolApprovalManager, MCPToolDeniedError } from '~/lib/modules/mcp/approval';
+import { rejectUnsafeRequest } from '~/lib/modules/mcp/request-guard';
+import { getServerEnvironmentVariable } from '~/lib/modules/mcp/env';
+import type { IMCPServerAdapter, MCPToolCallRecord } from '~/lib/modules/mcp/config';
 
 const logger = createScopedLogger('MCPToolsAPI');
 
+// Reason given for `ask` tools called without an approval scope, which no user can approve
+const APPROVAL_REQUIRED_REASON = "it needs the user's approval";
+
 interface GitHubApiArgs {
   method?: string;
   args?: Record<string, unknown>;
@@ -20,14 +27,92 @@ const githubMethodMap: Record<string, string> = {
   searchRepositories: 'github_search_repositories',
   getRepositoryContents: 'github_get_repository_contents',
   createRepository: 'github_create_repository',
+  listIssues: 'github_list_issues',
+  getIssue: 'github_get_issue',
+  createIssue: 'github_create_issue',
+  commentOnIssue: 'github_comment_on_issue',
+  createPullRequest: 'github_create_pull_request',
+  listBranches: 'github_list_branches',
+  createBranch: 'github_create_branch',
+  deleteBranch: 'github_delete_branch',
+  commitFiles: 'github_commit_files',
+  listWorkflowRuns: 'github_list_workflow_runs',
+  getWorkflowRun: 'github_get_workflow_run',
   request: 'github_request',
 };
 
+/**
+ * Run a tool through the tool factory, so its policy applies
+ * Tools with the `ask` policy wait until the user approves the call through /api/mcp/tool-approvals;
+ * the request names the scope (`?scope=`), a secret the client lists the pending approvals with
+ * The response includes the record of the call, which the client adds to the tool call log
+ * @param server Server that provides the tool
+ * @param toolName Name of the tool on the server
+ * @param args Tool arguments
+ * @param request Request running the tool
+ */
+async function runTool(server: IMCPServerAdapter, toolName: string, args: any, request: Request): Promise<Response> {
+  const scope = new URL(request.url).searchParams.get('scope');
+  let record: MCPToolCallRecord | undefined;
+
+  try {
+    const result = await MCPToolFactory.getInstance().runTool(
+      server,
+      toolName,
+      args,
+      {
+        requestApproval: async (approvalRequest, signal) =>
+          scope
+            ? MCPToolApprovalManager.getInstance().requestApproval(approvalRequest, scope, () => undefined, signal)
+            : { approved: false, reason: APPROVAL_REQUIRED_REASON },
+        onToolCallRecord: (toolCallRecord) => {
+          record = toolCallRecord;
+        },
+      },
+      request.signal,
+    );
+
+    return json({ result, record });
+  } catch (error) {
+    logger.error(`Error executing tool ${toolName}:`, error);
+    return getToolErrorResponse(error, record);
+  }
+}
+
+/**
+ * Get the response for a tool call that failed or was not run
+ * @param error Error thrown by the call
+ * @param record Record of the call
+ */
+function getToolErrorResponse(error: unknown, record?: MCPToolCallRecord) {
+  if (error instanceof MCPToolDeniedError) {
+    return json(
+      { error: error.message, denied: true, approvalRequired: error.reason === APPROVAL_REQUIRED_REASON, record },
+      { status: 403 },
+    );
+  }
+
+  return json(
+    {
+      error: error instanceof Error ? error.message : 'Tool execution failed',
+      details: error,
+      record,
+    },
+    { status: 500 },
+  );
+}
+
 /**
  * Execute an MCP tool
  * POST /api/mcp/tools/:toolName
  */
-export async function action({ request, params }: ActionFunctionArgs) {
+export async function action({ request, params, context }: ActionFunctionArgs) {
+  const rejection = rejectUnsafeRequest(request);
+
+  if (rejection) {
+    return rejection;
+  }
+
   try {
     const toolName = params.toolName;
 
@@ -38,8 +123,20 @@ export async function action({ request, params }: ActionFunctionArgs) {
     // Get tool arguments from request body and type cast
     const args = (await request.json()) as ToolArgs;
 
-    // Get registry instance
-    const registry = MCPServerRegistry.getInstance();
+    const { registry } = await getServerMCPBootstrapPromise(context.cloudflare?.env);
+
+    // Run the tool on a specific server, e.g. when replaying a call from the tool call log
+    const serverId = new URL(request.url).searchParams.get('serverId');
+
+    if (serverId) {
+      const server = registry.getServer(serverId);
+
+      if (!server) {
+        return json({ error: `Server not found: ${serverId}` }, { status: 404 });
+      }
+
+      return runTool(server, toolName, args, request);
+    }
 
     // Handle special case for github_api (which is a special unified tool)
     if (toolName === 'github_api') {
@@ -53,7 +150,7 @@ export async function action({ request, params }: ActionFunctionArgs) {
         // Import adapter creation tools
         const { createServerAdapter } = await import('~/lib/modules/mcp/adapters');
 
-        const githubToken = process.env.GITHUB_TOKEN;
+        const githubToken = getServerEnvironmentVariable(context.cloudflare?.env, 'GITHUB_TOKEN');
 
         if (!githubToken) {
           throw new Error('GITHUB_TOKEN environment variable is not set');
@@ -80,7 +177,7 @@ export async function action({ request, params }: ActionFunctionArgs) {
           if (!config.auth?.token) {
             logger.info('Found GitHub server but no token, adding token from environment');
 
-            const githubToken = process.env.GITHUB_TOKEN;
+            const githubToken = getServerEnvironmentVariable(context.cloudflare?.env, 'GITHUB_TOKEN');
 
             if (!githubToken) {
               throw new Error('GITHUB_TOKEN environment variable is not set');
@@ -98,55 +195,38 @@ export async function action({ request, params }: ActionFunctionArgs) {
         }
       }
 
-      // Execute tool
-      try {
-        /*
-         * Handle function-style methods from github_api
-         * If args is a string, assume it's a method name
-         */
-        if (typeof args === 'string') {
-          // Convert string to method
-          const methodName = args.trim();
-
-          // Map method to the correct tool name
-          const mappedToolName = githubMethodMap[methodName] || `github_${methodName}`;
-          logger.info(`Mapped github_api string method ${methodName} to tool ${mappedToolName}`);
-
-          // Execute with empty args
-          const result = await githubServer.executeToolCall(mappedToolName, {});
-
-          return json(result);
-        }
+      /*
+       * Handle function-style methods from github_api
+       * If args is a string, assume it's a method name
+       */
+      if (typeof args === 'string') {
+        // Convert string to method
+        const methodName = args.trim();
 
-        // Handle object with method property
-        const isGitHubArgs = (arg: unknown): arg is GitHubApiArgs => {
-          return typeof arg === 'object' && arg !== null && 'method' in arg;
-        };
+        // Map method to the correct tool name
+        const mappedToolName = githubMethodMap[methodName] || `github_${methodName}`;
+        logger.info(`Mapped github_api string method ${methodName} to tool ${mappedToolName}`);
 
-        if (isGitHubArgs(args)) {
-          // Map method to the correct tool name
-          const mappedToolName = args.method ? githubMethodMap[args.method] || `github_${args.method}` : toolName;
-          logger.info(`Mapped github_api method ${args.method} to tool ${mappedToolName}`);
+        // Execute with empty args
+        return runTool(githubServer, mappedToolName, {}, request);
+      }
 
-          // Pass the arguments through
-          const result = await githubServer.executeToolCall(mappedToolName, args.args || {});
+      // Handle object with method property
+      const isGitHubArgs = (arg: unknown): arg is GitHubApiArgs => {
+        return typeof arg === 'object' && arg !== null && 'method' in arg;
+      };
 
-          return json(result);
-        } else {
-          // Fall back to direct execution
-          const result = await githubServer.executeToolCall(toolName, args as Record<string, unknown>);
-          return json(result);
-        }
-      } catch (toolError) {
-        logger.error('Error executing GitHub tool:', toolError);
-        return json(
-          {
-            error: toolError instanceof Error ? toolError.message : 'Tool execution failed',
-            details: toolError,
-          },
-          { status: 500 },
-        );
+      if (isGitHubArgs(args)) {
+        // Map method to the correct tool name
+        const mappedToolName = args.method ? githubMethodMap[args.method] || `github_${args.method}` : toolName;
+        logger.info(`Mapped github_api method ${args.method} to tool ${mappedToolName}`);
+
+        // Pass the arguments through
+        return runTool(githubServer, mappedToolName, args.args || {}, request);
       }
+
+      // Fall back to direct execution
+      return runTool(githubServer, toolName, args, request);
     }
 
     // Check if this is a standard GitHub tool
@@ -159,30 +239,24 @@ export async function action({ request, params }: ActionFunctionArgs) {
       }
 
       // Execute tool
-      try {
-        const result = await githubServer.executeToolCall(toolName, args);
-        return json(result);
-      } catch (toolError) {
-        logger.error('Error executing GitHub tool:', toolError);
-        return json(
-          {
-            error: toolError instanceof Error ? toolError.message : 'Tool execution failed',
-            details: toolError,
-          },
-          { status: 500 },
-        );
-      }
+      return runTool(githubServer, toolName, args, request);
     }
 
-    // For other tools, find the appropriate server
+    // For other tools, find the server by the name the tool is offered to the model under, or by its own name
     const toolFactory = MCPToolFactory.getInstance();
-    const serverTools = await toolFactory.getAvailableTools();
-    let matchingServer = null;
+    const offeredTool = await toolFactory.findTool(toolName);
+    let matchingServer = offeredTool?.server ?? null;
+    let matchingToolName = offeredTool?.toolName ?? toolName;
 
-    for (const [serverId, tools] of Object.entries(serverTools)) {
-      if (tools.some((t) => t.name === toolName)) {
-        matchingServer = registry.getServer(serverId);
-        break;
+    if (!matchingServer) {
+      const serverTools = await toolFactory.getAvailableTools();
+
+      for (const [serverId, tools] of Object.entries(serverTools)) {
+        if (tools.some((t) => t.name === toolName)) {
+          matchingServer = registry.getServer(serverId) ?? null;
+          matchingToolName = toolName;
+          break;
+        }
       }
     }
 
@@ -191,20 +265,7 @@ export async function action({ request, params }: ActionFunctionArgs) {
     }
 
     // Execute the tool
-    try {
-      const result = await matchingServer.executeToolCall(toolName, args);
-
-      return json({ result });
-    } catch (toolError) {
-      logger.error('Error executing tool:', toolError);
-      return json(
-        {
-          error: toolError instanceof Error ? toolError.message : 'Tool execution failed',
-          details: toolError,
-        },
-        { status: 500 },
-      );
-    }
+    return runTool(matchingServer, matchingToolName, args, request);
   } catch (error) {
     logger.error('Error handling MCP tool request:', error);
     return json(
@@ -218,12 +279,12 @@ export async function action({ request, params }: ActionFunctionArgs) {
 }
 
 // Optionally handle GET requests to list available tools
-export async function loader({ params }: { params: { toolName: string } }) {
+export async function loader({ params, context }: LoaderFunctionArgs) {
   try {
-    const toolName = params.toolName;
+    const toolName = params.toolName ?? '';
     const [serverName] = toolName.split('_');
 
-    const registry = MCPServerRegistry.getInstance();
+    const { registry } = await getServerMCPBootstrapPromise(context.cloudflare?.env);
     const server = registry.getServer(serverName);
 
     if (!server) {
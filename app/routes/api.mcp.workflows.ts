@@ -0,0 +1,72 @@
+/**
+ * API route for MCP workflows, chains of tool calls offered to the model as a single tool
+ * Route: /api/mcp/workflows
+ */
+
+import { type ActionFunctionArgs, type LoaderFunctionArgs, json } from '@remix-run/cloudflare';
+import { createScopedLogger } from '~/utils/logger';
+import type { MCPWorkflow } from '~/lib/modules/mcp/config';
+import { getServerMCPBootstrapPromise } from '~/lib/modules/mcp/bootstrap';
+import { getRequestRevision, MCPServerStoreConflictError } from '~/lib/modules/mcp/server-store';
+
+const logger = createScopedLogger('api.mcp.workflows');
+
+/**
+ * List the workflows
+ * GET /api/mcp/workflows
+ */
+export async function loader({ context }: LoaderFunctionArgs) {
+  try {
+    const { runtimeManager } = await getServerMCPBootstrapPromise(context.cloudflare?.env);
+
+    // Pick up changes saved by other processes before listing
+    await runtimeManager.checkRevision();
+
+    return json({ workflows: runtimeManager.getWorkflows(), revision: runtimeManager.getRevision() });
+  } catch (error) {
+    logger.error('Error listing MCP workflows:', error);
+    return json({ error: error instanceof Error ? error.message : 'Unknown error' }, { status: 500 });
+  }
+}
+
+/**
+ * Save a workflow sent as the request body, or remove one
+ * POST /api/mcp/workflows
+ * DELETE /api/mcp/workflows?workflowId=<id>
+ */
+export async function action({ request, context }: ActionFunctionArgs) {
+  if (request.method !== 'POST' && request.method !== 'DELETE') {
+    return json({ error: 'Method not allowed' }, { status: 405 });
+  }
+
+  try {
+    const { runtimeManager } = await getServerMCPBootstrapPromise(context.cloudflare?.env);
+
+    // Refuse changes based on outdated workflows
+    await runtimeManager.checkRevision(getRequestRevision(request));
+
+    if (request.method === 'DELETE') {
+      const workflowId = new URL(request.url).searchParams.get('workflowId');
+
+      if (!workflowId) {
+        return json({ error: 'Workflow ID is required' }, { status: 400 });
+      }
+
+      await runtimeManager.removeWorkflow(workflowId);
+
+      return json({ success: true, revision: runtimeManager.getRevision() });
+    }
+
+    const workflow = await runtimeManager.saveWorkflow((await request.json()) as MCPWorkflow);
+
+    return json({ success: true, workflow, revision: runtimeManager.getRevision() });
+  } catch (error) {
+    if (error instanceof MCPServerStoreConflictError) {
+      return json({ error: error.message, revision: error.revision }, { status: 409 });
+    }
+
+    logger.error('Error changing MCP workflows:', error);
+
+    return json({ error: error instanceof Error ? error.message : 'Unknown error' }, { status: 400 });
+  }
+}
@@ -171,7 +171,7 @@ export async function action({ request }: ActionFunctionArgs) {
         const serverStatus = runtimeManager.getServerStatus(serverId);
         const serverName = serverStatus?.name || serverId;
 
-        runtimeManager.removeServer(serverId);
+        await runtimeManager.removeServer(serverId);
 
         return json({
           success: true,
@@ -0,0 +1,50 @@
+export interface GitLabUserResponse {
+  id: number;
+  username: string;
+  name: string;
+  avatar_url: string;
+  web_url: string;
+  bio?: string;
+  public_email?: string;
+  created_at: string;
+}
+
+export interface GitLabProjectInfo {
+  id: number;
+  name: string;
+  path: string;
+  path_with_namespace: string;
+  description: string | null;
+  web_url: string;
+  default_branch?: string;
+  visibility: 'private' | 'internal' | 'public';
+  star_count: number;
+  forks_count: number;
+  last_activity_at: string;
+}
+
+export interface GitLabTreeEntry {
+  id: string;
+  name: string;
+  type: 'tree' | 'blob';
+  path: string;
+  mode: string;
+}
+
+export interface GitLabStats {
+  /**
+   * Most recently active projects of the user
+   */
+  projects: GitLabProjectInfo[];
+}
+
+export interface GitLabConnection {
+  user: GitLabUserResponse | null;
+  token: string;
+
+  /**
+   * URL of the GitLab instance, e.g. https://gitlab.com or a self-hosted one
+   */
+  baseUrl: string;
+  stats?: GitLabStats;
+}
@@ -1,3 +1,6 @@
+import type { MCPToolCallRecord } from '~/lib/modules/mcp/config';
+import type { MCPSamplingUsage } from '~/lib/modules/mcp/sampling';
+
 export type ContextAnnotation =
   | {
       type: 'codeContext';
@@ -15,4 +18,46 @@ export type ProgressAnnotation = {
   status: 'in-progress' | 'complete';
   order: number;
   message: string;
+
+  // Set for the progress of MCP tool calls, which is shown in the message that made the call
+  toolCallId?: string;
+  progress?: number;
+  total?: number;
+};
+
+export type ToolApprovalAnnotation = {
+  type: 'toolApproval';
+  id: string;
+
+  // Secret of the chat response, sent back with the decision
+  scope: string;
+  serverId: string;
+  serverName: string;
+  toolName: string;
+  args: string;
+};
+
+export type ToolCallAnnotation = {
+  type: 'toolCall';
+  record: MCPToolCallRecord;
+};
+
+export type SamplingApprovalAnnotation = {
+  type: 'samplingApproval';
+  id: string;
+
+  // Secret of the chat response, sent back with the decision
+  scope: string;
+  serverId: string;
+  serverName: string;
+  provider: string;
+  model: string;
+  systemPrompt?: string;
+  messages: Array<{ role: 'user' | 'assistant'; text: string }>;
+  maxTokens: number;
+};
+
+export type SamplingUsageAnnotation = {
+  type: 'samplingUsage';
+  usage: MCPSamplingUsage;
 };
@@ -0,0 +1,24 @@
+/**
+ * Helpers shared by the GitLab MCP adapter and the GitLab connection
+ */
+
+// Instance used when no URL is configured
+export const DEFAULT_GITLAB_URL = 'https://gitlab.com';
+
+/**
+ * Get the REST API root of a GitLab instance
+ * @param instanceUrl URL of the instance, e.g. https://gitlab.example.com, with or without /api/v4
+ */
+export function getGitLabApiUrl(instanceUrl: string = DEFAULT_GITLAB_URL): string {
+  const url = (instanceUrl.trim() || DEFAULT_GITLAB_URL).replace(/\/+$/, '');
+
+  return url.endsWith('/api/v4') ? url : `${url}/api/v4`;
+}
+
+/**
+ * Encode a project ID or path with namespace (e.g. group/project) for use in an API path
+ * @param project Numeric ID or path of the project
+ */
+export function encodeGitLabProject(project: string | number): string {
+  return encodeURIComponent(String(project).replace(/^\/+|\/+$/g, ''));
+}
@@ -2,7 +2,8 @@ import ignore from 'ignore';
 import type { ProviderInfo } from '~/types/model';
 import type { Template } from '~/types/template';
 import { STARTER_TEMPLATES } from './constants';
-import Cookies from 'js-cookie';
+import { getApiKeysHeaders } from '~/lib/stores/apiKeys';
+import { githubConnection } from '~/lib/stores/github';
 
 const starterTemplateSelectionPrompt = (templates: Template[]) => `
 You are an experienced developer who helps people choose the best starter template for their projects.
@@ -91,6 +92,7 @@ export const selectStarterTemplate = async (options: { message: string; model: s
   };
   const response = await fetch('/api/llmcall', {
     method: 'POST',
+    headers: getApiKeysHeaders(),
     body: JSON.stringify(requestBody),
   });
   const respJson: { text: string } = await response.json();
@@ -118,7 +120,7 @@ const getGitHubRepoContent = async (
   const baseUrl = 'https://api.github.com';
 
   try {
-    const token = Cookies.get('githubToken') || import.meta.env.VITE_GITHUB_ACCESS_TOKEN;
+    const token = githubConnection.get().token || import.meta.env.VITE_GITHUB_ACCESS_TOKEN;
 
     const headers: HeadersInit = {
       Accept: 'application/vnd.github.v3+json',
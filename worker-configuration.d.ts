@@ -18,4 +18,12 @@ interface Env {
   XAI_API_KEY: string;
   PERPLEXITY_API_KEY: string;
   AWS_BEDROCK_CONFIG: string;
+  BOLT_MCP_TOKEN: string;
+  MCP_TOOL_MAX_TOOLS: string;
+  MCP_TOOL_TOKEN_BUDGET: string;
+  MCP_TOOL_EMBEDDING_MODEL: string;
+  MCP_SERVER_STORE_PATH: string;
+  MCP_SERVER_STORE_KEY: string;
+  MCP_SERVERS_KV?: KVNamespace;
+  MCP_ALLOW_STDIO: string;
 }